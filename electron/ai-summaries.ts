@@ -90,7 +90,11 @@ function normalizeFlashcards(items: AiSummaryFlashcard[]): AiSummaryFlashcard[]
   });
 }
 
-export function saveAiSummary(authDb: Database.Database, payload: AiSummariesSaveRequest): AiSummariesSaveResult {
+export function saveAiSummary(
+  authDb: Database.Database,
+  userId: string,
+  payload: AiSummariesSaveRequest
+): AiSummariesSaveResult {
   const bookTitle = payload.bookTitle?.trim();
   if (!bookTitle) {
     return { ok: false, error: 'Book title is required.' };
@@ -118,15 +122,16 @@ export function saveAiSummary(authDb: Database.Database, payload: AiSummariesSav
     .prepare(
       `SELECT created_at
        FROM ai_summaries
-       WHERE id = ?
+       WHERE id = ? AND user_id = ?
        LIMIT 1`
     )
-    .get(id) as { created_at: number } | undefined;
+    .get(id, userId) as { created_at: number } | undefined;
 
   authDb
     .prepare(
       `INSERT INTO ai_summaries (
          id,
+         user_id,
          book_id,
          book_title,
          author,
@@ -137,7 +142,7 @@ export function saveAiSummary(authDb: Database.Database, payload: AiSummariesSav
          flashcards_json,
          created_at,
          updated_at
-       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
        ON CONFLICT(id) DO UPDATE SET
          book_id = excluded.book_id,
          book_title = excluded.book_title,
@@ -147,10 +152,12 @@ export function saveAiSummary(authDb: Database.Database, payload: AiSummariesSav
          key_ideas_json = excluded.key_ideas_json,
          study_notes_json = excluded.study_notes_json,
          flashcards_json = excluded.flashcards_json,
-         updated_at = excluded.updated_at`
+         updated_at = excluded.updated_at
+       WHERE ai_summaries.user_id = excluded.user_id`
     )
     .run(
       id,
+      userId,
       bookId,
       bookTitle,
       author,
@@ -167,10 +174,10 @@ export function saveAiSummary(authDb: Database.Database, payload: AiSummariesSav
     .prepare(
       `SELECT id, book_id, book_title, author, language, summary, key_ideas_json, study_notes_json, flashcards_json, created_at, updated_at
        FROM ai_summaries
-       WHERE id = ?
+       WHERE id = ? AND user_id = ?
        LIMIT 1`
     )
-    .get(id) as AiSummaryRow | undefined;
+    .get(id, userId) as AiSummaryRow | undefined;
 
   if (!row) {
     return { ok: false, error: 'Failed to save AI summary.' };
@@ -179,19 +186,24 @@ export function saveAiSummary(authDb: Database.Database, payload: AiSummariesSav
   return { ok: true, entry: toEntry(row) };
 }
 
-export function listAiSummaries(authDb: Database.Database): AiSummariesListResult {
+export function listAiSummaries(authDb: Database.Database, userId: string): AiSummariesListResult {
   const rows = authDb
     .prepare(
       `SELECT id, book_id, book_title, author, language, summary, key_ideas_json, study_notes_json, flashcards_json, created_at, updated_at
        FROM ai_summaries
+       WHERE user_id = ?
        ORDER BY created_at DESC`
     )
-    .all() as AiSummaryRow[];
+    .all(userId) as AiSummaryRow[];
 
   return { ok: true, entries: rows.map(toEntry) };
 }
 
-export function getAiSummary(authDb: Database.Database, payload: AiSummariesGetRequest): AiSummariesGetResult {
+export function getAiSummary(
+  authDb: Database.Database,
+  userId: string,
+  payload: AiSummariesGetRequest
+): AiSummariesGetResult {
   const id = payload.id?.trim();
   if (!id) {
     return { ok: false, error: 'AI summary not found.' };
@@ -201,15 +213,37 @@ export function getAiSummary(authDb: Database.Database, payload: AiSummariesGetR
     .prepare(
       `SELECT id, book_id, book_title, author, language, summary, key_ideas_json, study_notes_json, flashcards_json, created_at, updated_at
        FROM ai_summaries
-       WHERE id = ?
+       WHERE id = ? AND user_id = ?
        LIMIT 1`
     )
-    .get(id) as AiSummaryRow | undefined;
+    .get(id, userId) as AiSummaryRow | undefined;
 
   return { ok: true, entry: row ? toEntry(row) : null };
 }
 
-export function deleteAiSummary(authDb: Database.Database, payload: AiSummariesDeleteRequest): AiSummariesDeleteResult {
+export function getLatestAiSummaryForBook(
+  authDb: Database.Database,
+  userId: string,
+  bookId: string
+): AiSummaryEntry | null {
+  const row = authDb
+    .prepare(
+      `SELECT id, book_id, book_title, author, language, summary, key_ideas_json, study_notes_json, flashcards_json, created_at, updated_at
+       FROM ai_summaries
+       WHERE book_id = ? AND user_id = ?
+       ORDER BY updated_at DESC
+       LIMIT 1`
+    )
+    .get(bookId, userId) as AiSummaryRow | undefined;
+
+  return row ? toEntry(row) : null;
+}
+
+export function deleteAiSummary(
+  authDb: Database.Database,
+  userId: string,
+  payload: AiSummariesDeleteRequest
+): AiSummariesDeleteResult {
   const id = payload.id?.trim();
   if (!id) {
     return { ok: false, error: 'AI summary not found.' };
@@ -218,9 +252,9 @@ export function deleteAiSummary(authDb: Database.Database, payload: AiSummariesD
   const result = authDb
     .prepare(
       `DELETE FROM ai_summaries
-       WHERE id = ?`
+       WHERE id = ? AND user_id = ?`
     )
-    .run(id);
+    .run(id, userId);
 
   if (result.changes === 0) {
     return { ok: false, error: 'AI summary not found.' };
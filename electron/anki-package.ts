@@ -0,0 +1,209 @@
+import { createHash, randomBytes } from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import type { AnkiCard } from '../shared/book-export';
+import { writeZipArchive } from './zip';
+
+// Schema of the legacy collection.anki2 file (version 11), which every Anki release still imports.
+const COLLECTION_SCHEMA = `
+  CREATE TABLE col (
+    id INTEGER PRIMARY KEY, crt INTEGER NOT NULL, mod INTEGER NOT NULL, scm INTEGER NOT NULL, ver INTEGER NOT NULL,
+    dty INTEGER NOT NULL, usn INTEGER NOT NULL, ls INTEGER NOT NULL, conf TEXT NOT NULL, models TEXT NOT NULL,
+    decks TEXT NOT NULL, dconf TEXT NOT NULL, tags TEXT NOT NULL
+  );
+  CREATE TABLE notes (
+    id INTEGER PRIMARY KEY, guid TEXT NOT NULL, mid INTEGER NOT NULL, mod INTEGER NOT NULL, usn INTEGER NOT NULL,
+    tags TEXT NOT NULL, flds TEXT NOT NULL, sfld INTEGER NOT NULL, csum INTEGER NOT NULL, flags INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE cards (
+    id INTEGER PRIMARY KEY, nid INTEGER NOT NULL, did INTEGER NOT NULL, ord INTEGER NOT NULL, mod INTEGER NOT NULL,
+    usn INTEGER NOT NULL, type INTEGER NOT NULL, queue INTEGER NOT NULL, due INTEGER NOT NULL, ivl INTEGER NOT NULL,
+    factor INTEGER NOT NULL, reps INTEGER NOT NULL, lapses INTEGER NOT NULL, left INTEGER NOT NULL,
+    odue INTEGER NOT NULL, odid INTEGER NOT NULL, flags INTEGER NOT NULL, data TEXT NOT NULL
+  );
+  CREATE TABLE revlog (
+    id INTEGER PRIMARY KEY, cid INTEGER NOT NULL, usn INTEGER NOT NULL, ease INTEGER NOT NULL, ivl INTEGER NOT NULL,
+    lastIvl INTEGER NOT NULL, factor INTEGER NOT NULL, time INTEGER NOT NULL, type INTEGER NOT NULL
+  );
+  CREATE TABLE graves (usn INTEGER NOT NULL, oid INTEGER NOT NULL, type INTEGER NOT NULL);
+  CREATE INDEX ix_notes_usn ON notes (usn);
+  CREATE INDEX ix_cards_usn ON cards (usn);
+  CREATE INDEX ix_revlog_usn ON revlog (usn);
+  CREATE INDEX ix_cards_nid ON cards (nid);
+  CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid ON revlog (cid);
+  CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+const MODEL_ID = 1_700_000_000_001;
+const DEFAULT_DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 }
+  }
+};
+
+function toDeck(id: number, name: string, mod: number) {
+  return {
+    id,
+    name,
+    mod,
+    usn: -1,
+    desc: '',
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0]
+  };
+}
+
+function toModel(deckId: number, mod: number) {
+  const field = (name: string, ord: number) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] });
+  return {
+    id: MODEL_ID,
+    name: 'DiplomaApp Basic',
+    type: 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tags: [],
+    vers: [],
+    flds: [field('Front', 0), field('Back', 1)],
+    tmpls: [
+      {
+        name: 'Card 1',
+        ord: 0,
+        qfmt: '{{Front}}',
+        afmt: '{{FrontSide}}<hr id=answer>{{Back}}',
+        did: null,
+        bqfmt: '',
+        bafmt: ''
+      }
+    ],
+    css: '.card { font-family: Georgia, serif; font-size: 20px; text-align: left; color: black; background-color: white; }',
+    latexPre: '\\documentclass[12pt]{article}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    req: [[0, 'any', [0]]]
+  };
+}
+
+function stripHtml(value: string): string {
+  return value.replace(/<[^>]*>/g, '').trim();
+}
+
+// Anki checks duplicates by the first 8 hex digits of the SHA-1 of the stripped sort field.
+function toChecksum(value: string): number {
+  return Number.parseInt(createHash('sha1').update(stripHtml(value)).digest('hex').slice(0, 8), 16);
+}
+
+function toGuid(): string {
+  return randomBytes(8).toString('base64').replace(/[+/=]/g, '').slice(0, 10);
+}
+
+function writeCollection(dbPath: string, cards: AnkiCard[]) {
+  const db = new Database(dbPath);
+  try {
+    db.exec(COLLECTION_SCHEMA);
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+    const deckIds = new Map<string, number>();
+    for (const card of cards) {
+      if (!deckIds.has(card.deck)) {
+        deckIds.set(card.deck, now + deckIds.size + 1);
+      }
+    }
+
+    const decks: Record<string, ReturnType<typeof toDeck>> = { 1: toDeck(1, 'Default', nowSeconds) };
+    for (const [name, id] of deckIds) {
+      decks[id] = toDeck(id, name, nowSeconds);
+    }
+    const firstDeckId = deckIds.values().next().value ?? 1;
+    const conf = {
+      activeDecks: [1],
+      curDeck: 1,
+      newSpread: 0,
+      collapseTime: 1200,
+      timeLim: 0,
+      estTimes: true,
+      dueCounts: true,
+      curModel: null,
+      nextPos: cards.length + 1,
+      sortType: 'noteFld',
+      sortBackwards: false,
+      addToCur: true
+    };
+
+    db.prepare(
+      `INSERT INTO col (id, crt, mod, scm, ver, dty, usn, ls, conf, models, decks, dconf, tags)
+       VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')`
+    ).run(
+      Math.floor(new Date().setHours(0, 0, 0, 0) / 1000),
+      now,
+      now,
+      JSON.stringify(conf),
+      JSON.stringify({ [MODEL_ID]: toModel(firstDeckId, nowSeconds) }),
+      JSON.stringify(decks),
+      JSON.stringify(DEFAULT_DECK_CONFIG)
+    );
+
+    const insertNote = db.prepare(
+      `INSERT INTO notes (id, guid, mid, mod, usn, tags, flds, sfld, csum, flags, data)
+       VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')`
+    );
+    const insertCard = db.prepare(
+      `INSERT INTO cards (id, nid, did, ord, mod, usn, type, queue, due, ivl, factor, reps, lapses, left, odue, odid, flags, data)
+       VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')`
+    );
+    db.transaction(() => {
+      cards.forEach((card, index) => {
+        const id = now + index;
+        insertNote.run(
+          id,
+          toGuid(),
+          MODEL_ID,
+          nowSeconds,
+          ` ${card.tags.join(' ')} `,
+          `${card.front}\u001f${card.back}`,
+          stripHtml(card.front),
+          toChecksum(card.front)
+        );
+        insertCard.run(id, id, deckIds.get(card.deck) ?? 1, nowSeconds, index + 1);
+      });
+    })();
+  } finally {
+    db.close();
+  }
+}
+
+export async function writeAnkiPackage(filePath: string, cards: AnkiCard[]): Promise<void> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diplomaapp-anki-'));
+  try {
+    const collectionPath = path.join(tempDir, 'collection.anki2');
+    writeCollection(collectionPath, cards);
+    await writeZipArchive(filePath, [
+      { name: 'collection.anki2', read: () => fs.readFile(collectionPath), compress: true },
+      { name: 'media', read: async () => Buffer.from('{}', 'utf8') }
+    ]);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
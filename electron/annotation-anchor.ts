@@ -0,0 +1,435 @@
+import fs from 'node:fs/promises';
+import type { BookFormat, DocumentBookFormat, HighlightRect } from '../shared/ipc';
+import { isDocumentBookFormat, loadBookDocument } from './book-document';
+import {
+  cfiStep,
+  decodeTxtBuffer,
+  forEachEpubSpineDocument,
+  forEachFb2Block,
+  forEachPdfPage,
+  splitTxtParagraphs,
+  type PdfTextItem,
+  type PdfViewport
+} from './book-text';
+import { decodeXmlBuffer, treeText, type XmlTreeElement } from './xml';
+
+// Where an imported annotation lands in a book: a page with rects for PDF,
+// an EPUB CFI range or a flow range location for FB2, TXT and HTML-based documents.
+export type AnnotationAnchor = {
+  page: number | null;
+  rects: HighlightRect[];
+  cfiRange: string | null;
+};
+
+export type BookAnchorIndex = {
+  locate: (text: string, pageHint?: number | null) => AnnotationAnchor | null;
+};
+
+type AnchorSpan = {
+  text: string;
+  breakBefore: boolean;
+};
+
+type SpanPosition = {
+  span: number;
+  offset: number;
+};
+
+type AnchorDocument = {
+  page: number | null;
+  // Normalized text plus, per normalized character, the span and raw offset it came from.
+  text: string;
+  compactText: string;
+  spanIndexes: Int32Array;
+  offsets: Int32Array;
+  compactPositions: Int32Array;
+  toAnchor: (start: SpanPosition, end: SpanPosition) => AnnotationAnchor | null;
+};
+
+type EpubTextRef = {
+  steps: string[];
+  offset: number;
+};
+
+const EPUB_BREAK_ELEMENTS = new Set([
+  'p',
+  'div',
+  'section',
+  'article',
+  'br',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'li',
+  'dt',
+  'dd',
+  'pre',
+  'blockquote',
+  'figcaption',
+  'caption',
+  'td',
+  'th',
+  'tr'
+]);
+const FUZZY_EDGE_LENGTH = 40;
+const MIN_FUZZY_NEEDLE_LENGTH = FUZZY_EDGE_LENGTH * 2;
+const PDF_DESCENT_RATIO = 0.2;
+
+function foldChar(char: string): string {
+  if (/\s/.test(char)) {
+    return ' ';
+  }
+  if (/[\u00AD\u200B-\u200D\uFEFF]/.test(char)) {
+    return '';
+  }
+  if (/[‘’‚‛′`]/.test(char)) {
+    return "'";
+  }
+  if (/[“”„‟″«»]/.test(char)) {
+    return '"';
+  }
+  if (/[‐‑‒–—―−]/.test(char)) {
+    return '-';
+  }
+  const lower = char.toLowerCase();
+  const folded = lower === 'ё' ? 'е' : lower;
+  return folded.length === 1 ? folded : char;
+}
+
+export function normalizeAnchorText(value: string): string {
+  let result = '';
+  for (let index = 0; index < value.length; index += 1) {
+    const folded = foldChar(value[index]);
+    if (folded === ' ' && (result.length === 0 || result.endsWith(' '))) {
+      continue;
+    }
+    result += folded;
+  }
+  return result.trim();
+}
+
+function buildDocument(
+  spans: AnchorSpan[],
+  page: number | null,
+  toAnchor: (start: SpanPosition, end: SpanPosition) => AnnotationAnchor | null
+): AnchorDocument {
+  let text = '';
+  const spanIndexes: number[] = [];
+  const offsets: number[] = [];
+  const push = (char: string, span: number, offset: number) => {
+    if (char === ' ' && (text.length === 0 || text.endsWith(' '))) {
+      return;
+    }
+    text += char;
+    spanIndexes.push(span);
+    offsets.push(offset);
+  };
+
+  spans.forEach((span, spanIndex) => {
+    if (span.breakBefore) {
+      push(' ', -1, 0);
+    }
+    // Offsets count UTF-16 code units, which is what DOM ranges and CFIs use.
+    for (let offset = 0; offset < span.text.length; offset += 1) {
+      const folded = foldChar(span.text[offset]);
+      if (folded) {
+        push(folded, spanIndex, offset);
+      }
+    }
+  });
+
+  const compactPositions: number[] = [];
+  let compactText = '';
+  for (let index = 0; index < text.length; index += 1) {
+    if (text[index] !== ' ') {
+      compactText += text[index];
+      compactPositions.push(index);
+    }
+  }
+
+  return {
+    page,
+    text,
+    compactText,
+    spanIndexes: Int32Array.from(spanIndexes),
+    offsets: Int32Array.from(offsets),
+    compactPositions: Int32Array.from(compactPositions),
+    toAnchor
+  };
+}
+
+function findRange(haystack: string, needle: string): [number, number] | null {
+  const exact = haystack.indexOf(needle);
+  if (exact >= 0) {
+    return [exact, exact + needle.length];
+  }
+
+  // Exports sometimes differ from the book mid-passage (ellipses, dropped footnote markers),
+  // so long passages are also matched by their first and last words.
+  if (needle.length < MIN_FUZZY_NEEDLE_LENGTH) {
+    return null;
+  }
+  const head = needle.slice(0, FUZZY_EDGE_LENGTH);
+  const tail = needle.slice(-FUZZY_EDGE_LENGTH);
+  for (let start = haystack.indexOf(head); start >= 0; start = haystack.indexOf(head, start + 1)) {
+    const tailIndex = haystack.indexOf(tail, start + head.length);
+    if (tailIndex >= 0 && tailIndex + tail.length - start <= needle.length * 1.5) {
+      return [start, tailIndex + tail.length];
+    }
+  }
+  return null;
+}
+
+function locateInDocument(document: AnchorDocument, needle: string): AnnotationAnchor | null {
+  let range = findRange(document.text, needle);
+  if (!range) {
+    // Some PDFs have no spaces between text items; compare without whitespace as a last resort.
+    const compactRange = findRange(document.compactText, needle.replace(/ /g, ''));
+    range = compactRange
+      ? [document.compactPositions[compactRange[0]], document.compactPositions[compactRange[1] - 1] + 1]
+      : null;
+  }
+  if (!range) {
+    return null;
+  }
+
+  let [start, end] = range;
+  while (start < end && document.spanIndexes[start] < 0) {
+    start += 1;
+  }
+  while (end > start && document.spanIndexes[end - 1] < 0) {
+    end -= 1;
+  }
+  if (start >= end) {
+    return null;
+  }
+
+  return document.toAnchor(
+    { span: document.spanIndexes[start], offset: document.offsets[start] },
+    { span: document.spanIndexes[end - 1], offset: document.offsets[end - 1] + 1 }
+  );
+}
+
+function flowRange(namespace: 'fb2' | 'txt' | 'html', chapterId: string, start: [string, number], end: [string, number]): string {
+  return [
+    `${namespace}-range`,
+    encodeURIComponent(chapterId),
+    encodeURIComponent(start[0]),
+    String(start[1]),
+    encodeURIComponent(end[0]),
+    String(end[1])
+  ].join('|');
+}
+
+async function loadTxtDocuments(filePath: string): Promise<AnchorDocument[]> {
+  const paragraphs = splitTxtParagraphs(decodeTxtBuffer(await fs.readFile(filePath)));
+  const blockId = (index: number) => `txt-block-0-${index}`;
+  const spans = paragraphs.map((text) => ({ text, breakBefore: true }));
+
+  return [
+    buildDocument(spans, null, (start, end) => ({
+      page: null,
+      rects: [],
+      cfiRange: flowRange('txt', 'txt-chapter-0', [blockId(start.span), start.offset], [blockId(end.span), end.offset])
+    }))
+  ];
+}
+
+async function loadFb2Documents(filePath: string): Promise<AnchorDocument[]> {
+  const chapters = new Map<string, Array<{ blockId: string; text: string }>>();
+  forEachFb2Block(decodeXmlBuffer(await fs.readFile(filePath)), (block, location) => {
+    const blocks = chapters.get(location.chapterId) ?? [];
+    blocks.push({ blockId: location.blockId, text: treeText(block) });
+    chapters.set(location.chapterId, blocks);
+  });
+
+  return [...chapters.entries()].map(([chapterId, blocks]) =>
+    buildDocument(
+      blocks.map((block) => ({ text: block.text, breakBefore: true })),
+      null,
+      (start, end) => ({
+        page: null,
+        rects: [],
+        cfiRange: flowRange('fb2', chapterId, [blocks[start.span].blockId, start.offset], [blocks[end.span].blockId, end.offset])
+      })
+    )
+  );
+}
+
+async function loadBookDocumentDocuments(filePath: string, format: DocumentBookFormat): Promise<AnchorDocument[]> {
+  const { chapters } = await loadBookDocument(filePath, format);
+  return chapters.map((chapter, chapterIndex) => {
+    const blockId = (index: number) => `html-block-${chapterIndex}-${index}`;
+    return buildDocument(
+      chapter.blocks.map((block) => ({ text: block.text, breakBefore: true })),
+      null,
+      (start, end) => ({
+        page: null,
+        rects: [],
+        cfiRange: flowRange('html', `html-chapter-${chapterIndex}`, [blockId(start.span), start.offset], [blockId(end.span), end.offset])
+      })
+    );
+  });
+}
+
+// Text node steps follow the CFI rule: elements take even indexes, the text between them odd ones.
+function collectEpubSpans(
+  element: XmlTreeElement,
+  steps: string[],
+  refs: EpubTextRef[],
+  spans: AnchorSpan[],
+  state: { pendingBreak: boolean }
+) {
+  let elementCount = 0;
+  let textOffset = 0;
+  let previousWasText = false;
+
+  for (const child of element.children) {
+    if (typeof child === 'string') {
+      textOffset = previousWasText ? textOffset : 0;
+      refs.push({ steps: [...steps, `/${elementCount * 2 + 1}`], offset: textOffset });
+      spans.push({ text: child, breakBefore: state.pendingBreak });
+      state.pendingBreak = false;
+      textOffset += child.length;
+      previousWasText = true;
+      continue;
+    }
+
+    previousWasText = false;
+    const position = elementCount;
+    elementCount += 1;
+    if (child.name === 'script' || child.name === 'style') {
+      continue;
+    }
+
+    const isBreak = EPUB_BREAK_ELEMENTS.has(child.name);
+    state.pendingBreak ||= isBreak;
+    collectEpubSpans(child, [...steps, cfiStep(position, child)], refs, spans, state);
+    state.pendingBreak ||= isBreak;
+  }
+}
+
+async function loadEpubDocuments(filePath: string): Promise<AnchorDocument[]> {
+  const documents: AnchorDocument[] = [];
+  await forEachEpubSpineDocument(filePath, ({ cfiBase, body, bodyPath }) => {
+    const refs: EpubTextRef[] = [];
+    const spans: AnchorSpan[] = [];
+    collectEpubSpans(body, [], refs, spans, { pendingBreak: false });
+
+    documents.push(
+      buildDocument(spans, null, (start, end) => {
+        const startRef = refs[start.span];
+        const endRef = refs[end.span];
+        let common = 0;
+        while (
+          common < startRef.steps.length - 1 &&
+          common < endRef.steps.length - 1 &&
+          startRef.steps[common] === endRef.steps[common]
+        ) {
+          common += 1;
+        }
+        const parent = startRef.steps.slice(0, common).join('');
+        const startPath = `${startRef.steps.slice(common).join('')}:${startRef.offset + start.offset}`;
+        const endPath = `${endRef.steps.slice(common).join('')}:${endRef.offset + end.offset}`;
+        return { page: null, rects: [], cfiRange: `epubcfi(${cfiBase}!${bodyPath}${parent},${startPath},${endPath})` };
+      })
+    );
+  });
+  return documents;
+}
+
+function pdfItemRect(item: PdfTextItem, viewport: PdfViewport, fromChar: number, toChar: number): HighlightRect | null {
+  const [, , c = 0, d = 0, x = 0, y = 0] = item.transform ?? [];
+  const length = item.str?.length ?? 0;
+  const width = item.width ?? 0;
+  const height = item.height || Math.hypot(c, d);
+  if (length === 0 || width <= 0 || height <= 0 || viewport.width <= 0 || viewport.height <= 0) {
+    return null;
+  }
+
+  const left = x + (width * fromChar) / length;
+  const right = x + (width * toChar) / length;
+  const [x1, y1] = viewport.convertToViewportPoint(left, y - height * PDF_DESCENT_RATIO);
+  const [x2, y2] = viewport.convertToViewportPoint(right, y + height * (1 - PDF_DESCENT_RATIO));
+  return {
+    x: Math.min(x1, x2) / viewport.width,
+    y: Math.min(y1, y2) / viewport.height,
+    w: Math.abs(x2 - x1) / viewport.width,
+    h: Math.abs(y2 - y1) / viewport.height
+  };
+}
+
+async function loadPdfDocuments(filePath: string): Promise<AnchorDocument[]> {
+  const documents: AnchorDocument[] = [];
+  await forEachPdfPage(filePath, (pageNumber, items, viewport) => {
+    const textItems = items.filter((item) => item.str);
+    const spans = textItems.map((item, index) => ({
+      text: item.str ?? '',
+      breakBefore: index > 0 && Boolean(textItems[index - 1].hasEOL)
+    }));
+
+    documents.push(
+      buildDocument(spans, pageNumber, (start, end) => {
+        const rects: HighlightRect[] = [];
+        for (let index = start.span; index <= end.span; index += 1) {
+          const item = textItems[index];
+          const rect = pdfItemRect(
+            item,
+            viewport,
+            index === start.span ? start.offset : 0,
+            index === end.span ? end.offset : (item.str ?? '').length
+          );
+          if (rect) {
+            rects.push(rect);
+          }
+        }
+        return rects.length > 0 ? { page: pageNumber, rects, cfiRange: null } : null;
+      })
+    );
+  });
+  return documents;
+}
+
+function loadDocuments(filePath: string, format: BookFormat): Promise<AnchorDocument[]> {
+  if (format === 'pdf') {
+    return loadPdfDocuments(filePath);
+  }
+  if (format === 'epub') {
+    return loadEpubDocuments(filePath);
+  }
+  if (format === 'fb2') {
+    return loadFb2Documents(filePath);
+  }
+  if (format === 'cbz') {
+    return Promise.resolve([]);
+  }
+  if (isDocumentBookFormat(format)) {
+    return loadBookDocumentDocuments(filePath, format);
+  }
+  return loadTxtDocuments(filePath);
+}
+
+export async function loadBookAnchorIndex(filePath: string, format: BookFormat): Promise<BookAnchorIndex> {
+  const documents = await loadDocuments(filePath, format);
+
+  return {
+    locate: (text, pageHint = null) => {
+      const needle = normalizeAnchorText(text);
+      if (!needle) {
+        return null;
+      }
+
+      const hinted = pageHint ? documents.filter((document) => document.page === pageHint) : [];
+      for (const document of [...hinted, ...documents]) {
+        const anchor = locateInDocument(document, needle);
+        if (anchor) {
+          return anchor;
+        }
+      }
+      return null;
+    }
+  };
+}
@@ -0,0 +1,497 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import type { BrowserWindow, OpenDialogOptions } from 'electron';
+import { dialog } from 'electron';
+import type {
+  AnnotationImportEntry,
+  AnnotationImportGroup,
+  AnnotationImportSource,
+  AnnotationsImportLocateRequest,
+  AnnotationsImportLocateResult,
+  AnnotationsImportPreviewResult,
+  BookFormat,
+  HighlightColor
+} from '../shared/ipc';
+import { DEFAULT_HIGHLIGHT_COLOR, HIGHLIGHT_COLORS } from '../shared/ipc';
+import { loadBookAnchorIndex, normalizeAnchorText, type BookAnchorIndex } from './annotation-anchor';
+import { decodeTxtBuffer } from './book-text';
+import { normalizeForDuplicate } from './discover';
+import { luaList, parseLuaTable, type LuaTable, type LuaValue } from './lua';
+import type { ReaderProgressDb } from './reader-progress-db';
+
+type ParsedEntry = Pick<AnnotationImportEntry, 'kind' | 'text' | 'note' | 'pageHint' | 'color' | 'createdAt'>;
+
+type ParsedGroup = {
+  source: AnnotationImportSource;
+  fileName: string;
+  title: string;
+  author: string | null;
+  entries: ParsedEntry[];
+};
+
+type ImportBookRow = {
+  id: string;
+  title: string;
+  author: string | null;
+  format: BookFormat;
+  file_path: string;
+};
+
+type KindleClipping = {
+  key: string;
+  title: string;
+  author: string | null;
+  locationEnd: number | null;
+  entry: ParsedEntry;
+};
+
+const KINDLE_SEPARATOR = /^==========\s*$/m;
+const KINDLE_HIGHLIGHT = /highlight|выделени|markierung|surlignement|subrayado|evidenziazione/i;
+const KINDLE_NOTE = /\bnote\b|заметк|notiz|remarque|\bnota\b/i;
+const KINDLE_PAGE = /(?:page|страниц[аеыу]?|seite|página|pagina)\s+(\d+)/i;
+const KINDLE_LOCATION = /(?:location|loc\.|место|позици[яи]|position|posición|posizione)\s+(\d+)(?:\s*-\s*(\d+))?/i;
+const KINDLE_ADDED_ON = /^(?:added on|добавлено:?|hinzugefügt am|ajouté le|añadido el|aggiunto il)\s*/i;
+const KOREADER_AUTO_TEXT = /@ \d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+const COLOR_ALIASES: Record<string, HighlightColor> = {
+  red: 'pink',
+  orange: 'yellow',
+  gray: 'yellow',
+  olive: 'green',
+  cyan: 'blue'
+};
+
+function toHighlightColor(value: unknown): HighlightColor {
+  if (typeof value !== 'string') {
+    return DEFAULT_HIGHLIGHT_COLOR;
+  }
+  const key = value.trim().toLowerCase();
+  return (HIGHLIGHT_COLORS as readonly string[]).includes(key)
+    ? (key as HighlightColor)
+    : (COLOR_ALIASES[key] ?? DEFAULT_HIGHLIGHT_COLOR);
+}
+
+function parseDate(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  const parsed = Date.parse(value.trim().replace(/^(\d{4}-\d{2}-\d{2}) (\d)/, '$1T$2'));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function cleanText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function positivePage(value: unknown): number | null {
+  const page = typeof value === 'string' ? Number(value) : value;
+  return typeof page === 'number' && Number.isInteger(page) && page > 0 ? page : null;
+}
+
+function parseKindleTitle(line: string): { title: string; author: string | null } {
+  const match = /^(.*?)\s*\(([^()]*)\)\s*$/.exec(line);
+  if (!match || !match[1]) {
+    return { title: line, author: null };
+  }
+  return { title: match[1], author: match[2].trim() || null };
+}
+
+function parseKindleClippings(content: string, fileName: string): ParsedGroup[] {
+  const clippings: KindleClipping[] = [];
+  for (const block of content.split(KINDLE_SEPARATOR)) {
+    const lines = block
+      .replace(/\uFEFF/g, '')
+      .split(/\r?\n/)
+      .map((line) => line.trim());
+    const start = lines.findIndex(Boolean);
+    if (start < 0 || !lines[start + 1]?.startsWith('-')) {
+      continue;
+    }
+
+    const meta = lines[start + 1];
+    const kind = KINDLE_HIGHLIGHT.test(meta) ? 'highlight' : KINDLE_NOTE.test(meta) ? 'note' : null;
+    const body = cleanText(lines.slice(start + 2).join('\n'));
+    if (!kind || !body) {
+      continue;
+    }
+
+    const { title, author } = parseKindleTitle(lines[start]);
+    const location = KINDLE_LOCATION.exec(meta);
+    const added = meta.split('|').pop()?.trim().replace(KINDLE_ADDED_ON, '') ?? '';
+    clippings.push({
+      key: `${title}\u0000${author ?? ''}`,
+      title,
+      author,
+      locationEnd: location ? Number(location[2] ?? location[1]) : null,
+      entry: {
+        kind,
+        text: kind === 'highlight' ? body : null,
+        note: kind === 'note' ? body : null,
+        pageHint: positivePage(KINDLE_PAGE.exec(meta)?.[1]),
+        color: DEFAULT_HIGHLIGHT_COLOR,
+        createdAt: parseDate(added)
+      }
+    });
+  }
+
+  // Kindle stores a note as its own clipping at the last location of the highlight it belongs to.
+  const groups = new Map<string, ParsedGroup>();
+  const highlightsByLocation = new Map<string, ParsedEntry>();
+  for (const { key, title, author, locationEnd, entry } of clippings) {
+    let group = groups.get(key);
+    if (!group) {
+      group = { source: 'kindle', fileName, title, author, entries: [] };
+      groups.set(key, group);
+    }
+
+    const locationKey = locationEnd === null ? null : `${key}\u0000${locationEnd}`;
+    const target = locationKey ? highlightsByLocation.get(locationKey) : undefined;
+    if (entry.kind === 'note' && target && !target.note) {
+      target.note = entry.note;
+      continue;
+    }
+
+    group.entries.push(entry);
+    if (entry.kind === 'highlight' && locationKey) {
+      highlightsByLocation.set(locationKey, entry);
+    }
+  }
+
+  return [...groups.values()];
+}
+
+function luaField(table: LuaValue | undefined, key: string): LuaValue | undefined {
+  return table && typeof table === 'object' ? table[key] : undefined;
+}
+
+function koreaderFallbackTitle(filePath: string): string {
+  const folder = path.basename(path.dirname(filePath));
+  return folder.toLowerCase().endsWith('.sdr') ? folder.slice(0, -'.sdr'.length) : path.parse(filePath).name;
+}
+
+function parseKoreaderAnnotations(metadata: LuaTable): ParsedEntry[] {
+  const entries: ParsedEntry[] = [];
+  for (const item of luaList(metadata.annotations)) {
+    const text = cleanText(luaField(item, 'text'));
+    if (!text || !luaField(item, 'pos0')) {
+      continue;
+    }
+    entries.push({
+      kind: 'highlight',
+      text,
+      note: cleanText(luaField(item, 'note')),
+      pageHint: positivePage(luaField(item, 'pageno')),
+      color: toHighlightColor(luaField(item, 'color')),
+      createdAt: parseDate(luaField(item, 'datetime'))
+    });
+  }
+  return entries;
+}
+
+// Before 2024 KOReader kept highlights per page and their notes on the matching bookmark.
+function parseKoreaderLegacyHighlights(metadata: LuaTable): ParsedEntry[] {
+  const notesByHighlight = new Map<string, string>();
+  for (const bookmark of luaList(metadata.bookmarks)) {
+    const highlighted = cleanText(luaField(bookmark, 'notes'));
+    const note = cleanText(luaField(bookmark, 'text'));
+    if (highlighted && note && note !== highlighted && !KOREADER_AUTO_TEXT.test(note)) {
+      notesByHighlight.set(`${luaField(bookmark, 'datetime')}\u0000${highlighted}`, note);
+    }
+  }
+
+  const entries: ParsedEntry[] = [];
+  const pages = metadata.highlight && typeof metadata.highlight === 'object' ? metadata.highlight : {};
+  for (const [page, items] of Object.entries(pages).sort(([left], [right]) => Number(left) - Number(right))) {
+    for (const item of luaList(items)) {
+      const text = cleanText(luaField(item, 'text'));
+      if (!text) {
+        continue;
+      }
+      const datetime = luaField(item, 'datetime');
+      entries.push({
+        kind: 'highlight',
+        text,
+        note: notesByHighlight.get(`${datetime}\u0000${text}`) ?? null,
+        pageHint: positivePage(page),
+        color: toHighlightColor(luaField(item, 'color')),
+        createdAt: parseDate(datetime)
+      });
+    }
+  }
+  return entries;
+}
+
+function parseKoreaderMetadata(content: string, filePath: string): ParsedGroup[] {
+  const metadata = parseLuaTable(content);
+  if (!metadata) {
+    return [];
+  }
+
+  const props = luaField(metadata, 'doc_props');
+  const stats = luaField(metadata, 'stats');
+  const title =
+    cleanText(luaField(props, 'title')) ?? cleanText(luaField(stats, 'title')) ?? koreaderFallbackTitle(filePath);
+  const author = cleanText(luaField(props, 'authors')) ?? cleanText(luaField(stats, 'authors'));
+  const entries = metadata.annotations ? parseKoreaderAnnotations(metadata) : parseKoreaderLegacyHighlights(metadata);
+
+  return [
+    {
+      source: 'koreader',
+      fileName: path.basename(filePath),
+      title,
+      author: author?.replace(/\n/g, ', ') ?? null,
+      entries
+    }
+  ];
+}
+
+function parseCalibreAnnotations(content: string, filePath: string): ParsedGroup[] {
+  const data = JSON.parse(content) as unknown;
+  const root = data && typeof data === 'object' && !Array.isArray(data) ? (data as Record<string, unknown>) : {};
+  const list = Array.isArray(data) ? data : Array.isArray(root.highlights) ? root.highlights : root.annotations;
+  const fallbackTitle = cleanText(root.title) ?? cleanText(root.book_title) ?? path.parse(filePath).name;
+  const fallbackAuthor = Array.isArray(root.authors) ? root.authors.join(', ') : cleanText(root.authors);
+
+  const groups = new Map<string, ParsedGroup>();
+  for (const item of Array.isArray(list) ? list : []) {
+    const annotation = item && typeof item === 'object' ? (item as Record<string, unknown>) : {};
+    const text = cleanText(annotation.highlighted_text);
+    if (annotation.type !== 'highlight' || annotation.removed || !text) {
+      continue;
+    }
+
+    const title = cleanText(annotation.title) ?? cleanText(annotation.book_title) ?? fallbackTitle;
+    const author = Array.isArray(annotation.authors) ? annotation.authors.join(', ') : fallbackAuthor;
+    let group = groups.get(title);
+    if (!group) {
+      group = { source: 'calibre', fileName: path.basename(filePath), title, author, entries: [] };
+      groups.set(title, group);
+    }
+
+    const style = annotation.style && typeof annotation.style === 'object' ? (annotation.style as Record<string, unknown>) : {};
+    group.entries.push({
+      kind: 'highlight',
+      text,
+      note: cleanText(annotation.notes),
+      pageHint: null,
+      color: toHighlightColor(style.which),
+      createdAt: parseDate(annotation.timestamp)
+    });
+  }
+
+  return [...groups.values()];
+}
+
+async function parseAnnotationFile(filePath: string): Promise<ParsedGroup[]> {
+  const content = decodeTxtBuffer(await fs.readFile(filePath));
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.lua') {
+    return parseKoreaderMetadata(content, filePath);
+  }
+  if (extension === '.json' || extension === '.calibre_highlights') {
+    return parseCalibreAnnotations(content, filePath);
+  }
+  return parseKindleClippings(content, path.basename(filePath));
+}
+
+function matchBook(books: ImportBookRow[], title: string, author: string | null): ImportBookRow | null {
+  const wantedTitle = normalizeForDuplicate(title);
+  if (!wantedTitle) {
+    return null;
+  }
+
+  // Authors are compared by shared words so "Tolkien, J.R.R." matches "J. R. R. Tolkien".
+  const authorWords = new Set(
+    normalizeForDuplicate(author)
+      .split(' ')
+      .filter((word) => word.length > 1)
+  );
+  let best: ImportBookRow | null = null;
+  let bestScore = 0;
+  for (const book of books) {
+    const bookTitle = normalizeForDuplicate(book.title);
+    if (!bookTitle) {
+      continue;
+    }
+
+    let score: number;
+    if (bookTitle === wantedTitle) {
+      score = 3;
+    } else if (wantedTitle.startsWith(`${bookTitle} `) || bookTitle.startsWith(`${wantedTitle} `)) {
+      score = 1;
+    } else {
+      continue;
+    }
+    if (normalizeForDuplicate(book.author).split(' ').some((word) => authorWords.has(word))) {
+      score += 2;
+    }
+    if (score > bestScore) {
+      best = book;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+async function locateEntries(
+  readerDb: ReaderProgressDb,
+  userId: string,
+  book: ImportBookRow,
+  entries: ParsedEntry[],
+  idPrefix: string
+): Promise<AnnotationImportEntry[]> {
+  let index: BookAnchorIndex | null = null;
+  try {
+    index = await loadBookAnchorIndex(book.file_path, book.format);
+  } catch (error) {
+    console.warn('Failed to read book text for annotation import', error);
+  }
+
+  const seen = new Set([
+    ...readerDb.listHighlightsByBook(userId, book.id).map((highlight) => `h:${normalizeAnchorText(highlight.text ?? '')}`),
+    ...readerDb
+      .listNotes(userId, { bookId: book.id })
+      .map((note) => `n:${note.page}:${normalizeAnchorText(note.content)}`)
+  ]);
+
+  return entries.map((entry, position) => {
+    const located: AnnotationImportEntry = {
+      ...entry,
+      id: `${idPrefix}-${position}`,
+      page: null,
+      rects: [],
+      cfiRange: null,
+      status: 'unlocated'
+    };
+
+    if (entry.kind === 'note') {
+      // Standalone notes are page based, which only PDF books can reopen.
+      if (book.format !== 'pdf' || !entry.pageHint || !entry.note) {
+        return located;
+      }
+      located.page = entry.pageHint;
+    } else {
+      const anchor = entry.text ? index?.locate(entry.text, entry.pageHint) : null;
+      if (!anchor) {
+        return located;
+      }
+      located.page = anchor.page;
+      located.rects = anchor.rects;
+      located.cfiRange = anchor.cfiRange;
+    }
+
+    const key =
+      entry.kind === 'note'
+        ? `n:${located.page}:${normalizeAnchorText(entry.note ?? '')}`
+        : `h:${normalizeAnchorText(entry.text ?? '')}`;
+    located.status = seen.has(key) ? 'duplicate' : 'ready';
+    seen.add(key);
+    return located;
+  });
+}
+
+const IMPORT_BOOK_COLUMNS = 'id, title, author, format, file_path';
+
+export async function previewAnnotationImport(
+  authDb: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  ownerWindow: BrowserWindow | null
+): Promise<AnnotationsImportPreviewResult> {
+  const dialogOptions: OpenDialogOptions = {
+    title: 'Import annotations',
+    properties: ['openFile', 'multiSelections'],
+    filters: [
+      { name: 'Annotations', extensions: ['txt', 'lua', 'json', 'calibre_highlights'] },
+      { name: 'Kindle clippings', extensions: ['txt'] },
+      { name: 'KOReader metadata', extensions: ['lua'] },
+      { name: 'Calibre annotations', extensions: ['json', 'calibre_highlights'] }
+    ]
+  };
+
+  const pickerResult = ownerWindow
+    ? await dialog.showOpenDialog(ownerWindow, dialogOptions)
+    : await dialog.showOpenDialog(dialogOptions);
+  if (pickerResult.canceled || pickerResult.filePaths.length === 0) {
+    return { ok: false, error: 'Import canceled.' };
+  }
+
+  const parsed: ParsedGroup[] = [];
+  for (const filePath of pickerResult.filePaths) {
+    try {
+      parsed.push(...(await parseAnnotationFile(filePath)));
+    } catch (error) {
+      console.warn(`Failed to parse annotation file ${filePath}`, error);
+    }
+  }
+
+  const nonEmpty = parsed.filter((group) => group.entries.length > 0);
+  if (nonEmpty.length === 0) {
+    return { ok: false, error: 'No annotations were found in the selected files.' };
+  }
+
+  const books = authDb
+    .prepare(`SELECT ${IMPORT_BOOK_COLUMNS} FROM books WHERE user_id = ?`)
+    .all(userId) as ImportBookRow[];
+  const groups: AnnotationImportGroup[] = [];
+  for (const [groupIndex, group] of nonEmpty.entries()) {
+    const id = `group-${groupIndex}`;
+    const book = matchBook(books, group.title, group.author);
+    const entries = book
+      ? await locateEntries(readerDb, userId, book, group.entries, id)
+      : group.entries.map((entry, position) => ({
+          ...entry,
+          id: `${id}-${position}`,
+          page: null,
+          rects: [],
+          cfiRange: null,
+          status: 'unmatched' as const
+        }));
+    groups.push({ ...group, id, bookId: book?.id ?? null, entries });
+  }
+
+  return { ok: true, groups };
+}
+
+// Re-anchors a group after the user assigns it to a different book in the preview.
+export async function locateAnnotationImport(
+  authDb: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  payload: AnnotationsImportLocateRequest
+): Promise<AnnotationsImportLocateResult> {
+  const bookId = payload?.bookId?.trim();
+  const book = bookId
+    ? (authDb
+        .prepare(`SELECT ${IMPORT_BOOK_COLUMNS} FROM books WHERE id = ? AND user_id = ? LIMIT 1`)
+        .get(bookId, userId) as ImportBookRow | undefined)
+    : undefined;
+  if (!book) {
+    return { ok: false, error: 'Book not found' };
+  }
+  if (!Array.isArray(payload.entries)) {
+    return { ok: false, error: 'No annotations to import.' };
+  }
+
+  const idPrefix = payload.entries[0]?.id.replace(/-\d+$/, '') ?? 'group';
+  const entries = await locateEntries(
+    readerDb,
+    userId,
+    book,
+    payload.entries.map(({ kind, text, note, pageHint, color, createdAt }) => ({
+      kind,
+      text,
+      note,
+      pageHint,
+      color,
+      createdAt
+    })),
+    idPrefix
+  );
+  return { ok: true, entries };
+}
@@ -0,0 +1,255 @@
+import type Database from 'better-sqlite3';
+import type {
+  AnnotationSearchHit,
+  AnnotationSearchKind,
+  SearchAnnotationsRequest,
+  SearchAnnotationsResult
+} from '../shared/ipc';
+import { listAiSummaries } from './ai-summaries';
+import { MATCH_END, MATCH_START, parseSnippet } from './library-search';
+import type { ReaderProgressDb } from './reader-progress-db';
+import { foldRussianYo, stemRussianWord } from './stemmer';
+
+type SearchDocument = {
+  kind: AnnotationSearchKind;
+  itemId: string;
+  bookId: string | null;
+  bookTitle: string | null;
+  page: number | null;
+  cfiRange: string | null;
+  content: string;
+  updatedAt: number;
+};
+
+type IndexedDocumentRow = {
+  kind: AnnotationSearchKind;
+  item_id: string;
+  fts_rowid: number;
+  updated_at: number;
+};
+
+type AnnotationHitRow = {
+  kind: AnnotationSearchKind;
+  item_id: string;
+  book_id: string | null;
+  book_title: string | null;
+  page: number | null;
+  cfi_range: string | null;
+  updated_at: number;
+  snippet: string;
+};
+
+const ANNOTATION_KINDS: AnnotationSearchKind[] = ['note', 'highlight', 'ai_summary'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_QUERY_TERMS = 12;
+const SNIPPET_TOKENS = 24;
+
+function documentKey(kind: AnnotationSearchKind, itemId: string): string {
+  return `${kind}:${itemId}`;
+}
+
+function joinText(parts: Array<string | null | undefined>): string {
+  return foldRussianYo(parts.map((part) => part?.trim() ?? '').filter(Boolean).join('\n'));
+}
+
+function collectDocuments(authDb: Database.Database, readerDb: ReaderProgressDb, userId: string): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+
+  for (const note of readerDb.listNotes(userId)) {
+    documents.push({
+      kind: 'note',
+      itemId: note.id,
+      bookId: note.bookId,
+      bookTitle: null,
+      page: note.page,
+      cfiRange: null,
+      content: joinText([note.content]),
+      updatedAt: note.updatedAt
+    });
+  }
+
+  for (const highlight of readerDb.listAllHighlights(userId)) {
+    documents.push({
+      kind: 'highlight',
+      itemId: highlight.id,
+      bookId: highlight.bookId,
+      bookTitle: null,
+      page: highlight.page,
+      cfiRange: highlight.cfiRange,
+      content: joinText([highlight.text, highlight.note]),
+      updatedAt: highlight.updatedAt
+    });
+  }
+
+  const summaries = listAiSummaries(authDb, userId);
+  for (const entry of summaries.ok ? summaries.entries : []) {
+    documents.push({
+      kind: 'ai_summary',
+      itemId: entry.id,
+      bookId: entry.bookId,
+      bookTitle: entry.bookTitle,
+      page: null,
+      cfiRange: null,
+      content: joinText([
+        entry.summary,
+        ...entry.keyIdeas,
+        ...entry.studyNotes,
+        ...entry.flashcards.flatMap((card) => [card.question, card.answer])
+      ]),
+      updatedAt: entry.updatedAt
+    });
+  }
+
+  return documents;
+}
+
+// Notes and highlights live in the reader progress database, so the index is reconciled
+// against their updated_at stamps before every search instead of hooking each write path.
+function syncAnnotationIndex(authDb: Database.Database, readerDb: ReaderProgressDb, userId: string) {
+  const documents = collectDocuments(authDb, readerDb, userId);
+  const indexed = new Map(
+    (
+      authDb.prepare('SELECT kind, item_id, fts_rowid, updated_at FROM annotation_search_docs').all() as IndexedDocumentRow[]
+    ).map((row) => [documentKey(row.kind, row.item_id), row])
+  );
+
+  const deleteFts = authDb.prepare('DELETE FROM annotation_search_fts WHERE rowid = ?');
+  const insertFts = authDb.prepare('INSERT INTO annotation_search_fts (content) VALUES (?)');
+  const upsertDocument = authDb.prepare(
+    `INSERT INTO annotation_search_docs (kind, item_id, fts_rowid, book_id, book_title, page, cfi_range, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(kind, item_id) DO UPDATE SET
+       fts_rowid = excluded.fts_rowid,
+       book_id = excluded.book_id,
+       book_title = excluded.book_title,
+       page = excluded.page,
+       cfi_range = excluded.cfi_range,
+       updated_at = excluded.updated_at`
+  );
+  const deleteDocument = authDb.prepare('DELETE FROM annotation_search_docs WHERE kind = ? AND item_id = ?');
+
+  authDb.transaction(() => {
+    for (const document of documents) {
+      const key = documentKey(document.kind, document.itemId);
+      const existing = indexed.get(key);
+      indexed.delete(key);
+      if (existing && existing.updated_at === document.updatedAt) {
+        continue;
+      }
+
+      if (existing) {
+        deleteFts.run(existing.fts_rowid);
+      }
+      const { lastInsertRowid } = insertFts.run(document.content);
+      upsertDocument.run(
+        document.kind,
+        document.itemId,
+        lastInsertRowid,
+        document.bookId,
+        document.bookTitle,
+        document.page,
+        document.cfiRange,
+        document.updatedAt
+      );
+    }
+
+    for (const stale of indexed.values()) {
+      deleteFts.run(stale.fts_rowid);
+      deleteDocument.run(stale.kind, stale.item_id);
+    }
+  })();
+}
+
+// Words become prefix terms on their stem: Russian stems are computed here, English ones by the
+// porter tokenizer. "Quoted text" stays an exact phrase.
+function toAnnotationFtsQuery(query: string): string | null {
+  const terms: string[] = [];
+  for (const match of foldRussianYo(query.normalize('NFKC')).matchAll(/"([^"]*)"|([^\s"]+)/g)) {
+    const words = (match[1] ?? match[2] ?? '').split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    if (words.length === 0) {
+      continue;
+    }
+    terms.push(
+      match[1] !== undefined ? `"${words.join(' ')}"` : words.map((word) => `"${stemRussianWord(word)}"*`).join(' ')
+    );
+  }
+
+  return terms.length > 0 ? terms.slice(0, MAX_QUERY_TERMS).join(' ') : null;
+}
+
+function normalizeKinds(kinds: SearchAnnotationsRequest['kinds']): AnnotationSearchKind[] {
+  const selected = Array.isArray(kinds) ? ANNOTATION_KINDS.filter((kind) => kinds.includes(kind)) : [];
+  return selected.length > 0 ? selected : ANNOTATION_KINDS;
+}
+
+function clampInteger(value: unknown, fallback: number, min: number, max: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.floor(value))) : fallback;
+}
+
+export function searchAnnotations(
+  authDb: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  payload: SearchAnnotationsRequest
+): SearchAnnotationsResult {
+  const ftsQuery = toAnnotationFtsQuery(typeof payload?.query === 'string' ? payload.query : '');
+  if (!ftsQuery) {
+    return { ok: true, hits: [], total: 0, hasMore: false };
+  }
+
+  const kinds = normalizeKinds(payload.kinds);
+  const bookId = payload.bookId?.trim() || null;
+  const offset = clampInteger(payload.offset, 0, 0, Number.MAX_SAFE_INTEGER);
+  const limit = clampInteger(payload.limit, DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE);
+  const filters = `annotation_search_fts MATCH ?
+         AND d.kind IN (SELECT value FROM json_each(?))
+         AND (? IS NULL OR d.book_id = ?)
+         AND (d.kind = 'ai_summary' OR b.user_id = ?)`;
+  const filterParams = [ftsQuery, JSON.stringify(kinds), bookId, bookId, userId];
+
+  let rows: AnnotationHitRow[];
+  let total: number;
+  try {
+    syncAnnotationIndex(authDb, readerDb, userId);
+    rows = authDb
+      .prepare(
+        `SELECT d.kind, d.item_id, d.book_id, COALESCE(b.title, d.book_title) AS book_title, d.page, d.cfi_range, d.updated_at,
+                snippet(annotation_search_fts, 0, ?, ?, '…', ?) AS snippet
+         FROM annotation_search_fts
+         JOIN annotation_search_docs d ON d.fts_rowid = annotation_search_fts.rowid
+         LEFT JOIN books b ON b.id = d.book_id
+         WHERE ${filters}
+         ORDER BY annotation_search_fts.rank, d.updated_at DESC
+         LIMIT ? OFFSET ?`
+      )
+      .all(MATCH_START, MATCH_END, SNIPPET_TOKENS, ...filterParams, limit, offset) as AnnotationHitRow[];
+    total = (
+      authDb
+        .prepare(
+          `SELECT COUNT(*) AS count
+           FROM annotation_search_fts
+           JOIN annotation_search_docs d ON d.fts_rowid = annotation_search_fts.rowid
+           LEFT JOIN books b ON b.id = d.book_id
+           WHERE ${filters}`
+        )
+        .get(...filterParams) as { count: number }
+    ).count;
+  } catch (error) {
+    console.warn('Failed to search annotations', error);
+    return { ok: false, error: 'Search query could not be processed.' };
+  }
+
+  const hits: AnnotationSearchHit[] = rows.map((row) => ({
+    kind: row.kind,
+    id: row.item_id,
+    bookId: row.book_id,
+    bookTitle: row.book_title,
+    page: row.page,
+    cfiRange: row.cfi_range,
+    snippet: parseSnippet(row.snippet),
+    updatedAt: row.updated_at
+  }));
+
+  return { ok: true, hits, total, hasMore: offset + hits.length < total };
+}
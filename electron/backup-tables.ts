@@ -0,0 +1,109 @@
+import type Database from 'better-sqlite3';
+import type { BackupRestoreMode } from '../shared/ipc';
+
+export type BackupRow = Record<string, unknown>;
+export type BackupTables = Record<string, BackupRow[]>;
+
+function tableColumns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((column) => column.name);
+}
+
+// Tables without a user_id column belong to a profile through their book or collection, so every
+// profile only ever dumps or clears its own rows.
+function ownerClause(db: Database.Database, table: string): string {
+  const columns = tableColumns(db, table);
+  if (columns.includes('user_id')) {
+    return 'user_id = ?';
+  }
+  if (columns.includes('collection_id')) {
+    return 'collection_id IN (SELECT id FROM collections WHERE user_id = ?)';
+  }
+  if (columns.includes('book_id')) {
+    return 'book_id IN (SELECT id FROM books WHERE user_id = ?)';
+  }
+  throw new Error(`Table ${table} has no owner column.`);
+}
+
+export function dumpTables(db: Database.Database, tables: readonly string[], userId: string): BackupTables {
+  const dump: BackupTables = {};
+  for (const table of tables) {
+    dump[table] = db.prepare(`SELECT * FROM ${table} WHERE ${ownerClause(db, table)}`).all(userId) as BackupRow[];
+  }
+  return dump;
+}
+
+// Rows are written with the current library's user id. Columns missing from an older backup fall
+// back to their defaults and columns the current schema no longer has are dropped.
+export function restoreTables(
+  db: Database.Database,
+  tables: readonly string[],
+  dump: BackupTables,
+  userId: string,
+  mode: BackupRestoreMode
+) {
+  db.transaction(() => {
+    if (mode === 'replace') {
+      for (const table of [...tables].reverse()) {
+        db.prepare(`DELETE FROM ${table} WHERE ${ownerClause(db, table)}`).run(userId);
+      }
+    }
+
+    for (const table of tables) {
+      const columns = tableColumns(db, table);
+      const statements = new Map<string, Database.Statement>();
+      for (const row of dump[table] ?? []) {
+        const values: Record<string, unknown> = { ...row };
+        if (columns.includes('user_id')) {
+          values.user_id = userId;
+        }
+        const names = columns.filter((column) => column in values);
+        if (names.length === 0) {
+          continue;
+        }
+        const key = names.join(', ');
+        let statement = statements.get(key);
+        if (!statement) {
+          statement = db.prepare(`INSERT OR IGNORE INTO ${table} (${key}) VALUES (${names.map(() => '?').join(', ')})`);
+          statements.set(key, statement);
+        }
+        statement.run(...names.map((name) => values[name] ?? null));
+      }
+    }
+  })();
+}
+
+function matchClause(db: Database.Database, table: string, match: BackupRow, userId: string) {
+  const columns = tableColumns(db, table);
+  const names = Object.keys(match).filter((name) => name !== 'user_id' && columns.includes(name));
+  const clauses = names.map((name) => `${name} = ?`);
+  const params = names.map((name) => match[name] ?? null);
+  if (columns.includes('user_id')) {
+    clauses.push('user_id = ?');
+    params.push(userId);
+  }
+  return { where: clauses.join(' AND '), params };
+}
+
+export function deleteTableRows(db: Database.Database, table: string, match: BackupRow, userId: string) {
+  const { where, params } = matchClause(db, table, match, userId);
+  if (where) {
+    db.prepare(`DELETE FROM ${table} WHERE ${where}`).run(...params);
+  }
+}
+
+// Replaces the row identified by `match`, which may differ from the primary key (bookmarks are
+// matched by book and page because their ids are generated per device).
+export function upsertTableRow(db: Database.Database, table: string, match: BackupRow, row: BackupRow, userId: string) {
+  const columns = tableColumns(db, table);
+  const values: Record<string, unknown> = { ...row };
+  if (columns.includes('user_id')) {
+    values.user_id = userId;
+  }
+  const names = columns.filter((column) => column in values);
+  db.transaction(() => {
+    deleteTableRows(db, table, match, userId);
+    db.prepare(
+      `INSERT OR REPLACE INTO ${table} (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`
+    ).run(...names.map((name) => values[name] ?? null));
+  })();
+}
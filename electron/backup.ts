@@ -0,0 +1,334 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import type { BrowserWindow } from 'electron';
+import { app, dialog } from 'electron';
+import type {
+  BackupCreateResult,
+  BackupInspectResult,
+  BackupManifest,
+  BackupRestoreRequest,
+  BackupRestoreResult
+} from '../shared/ipc';
+import { dumpTables, restoreTables, type BackupRow, type BackupTables } from './backup-tables';
+import { deleteBookTextIndex, indexLibraryTextInBackground } from './library-search';
+import type { ReaderProgressDb } from './reader-progress-db';
+import { openZipArchive, writeZipArchive, type ZipArchive, type ZipWriteEntry } from './zip';
+
+const BACKUP_FORMAT = 'diplomapp-library-backup';
+const BACKUP_SCHEMA_VERSION = 1;
+const MANIFEST_ENTRY = 'manifest.json';
+const AUTH_DATA_ENTRY = 'data/auth.json';
+const READER_DATA_ENTRY = 'data/reader.json';
+const COMPRESSED_BOOK_EXTENSIONS = new Set(['.txt', '.fb2']);
+const SAFE_BOOK_ID = /^[\w-]+$/;
+
+// Parents come before children so inserts satisfy foreign keys and replace deletes run in reverse.
+// The Open Library cache is shared by all profiles and refilled on demand, so it is not backed up.
+const AUTH_BACKUP_TABLES = [
+  'books',
+  'book_tags',
+  'collections',
+  'collection_books',
+  'book_metadata',
+  'book_file_metadata',
+  'book_content_hashes',
+  'reader_settings',
+  'reading_stats',
+  'reading_sessions',
+  'reading_goals',
+  'goal_reminders',
+  'wishlist_items',
+  'ai_summaries',
+  'export_templates'
+] as const;
+
+type BackupContents = {
+  archive: ZipArchive;
+  manifest: BackupManifest;
+  auth: BackupTables;
+  reader: BackupTables;
+};
+
+async function fileExists(filePath: string) {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function archiveBookPath(bookId: string, filePath: string) {
+  return `books/${bookId}/${path.basename(filePath)}`;
+}
+
+function countRows(...dumps: BackupTables[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const dump of dumps) {
+    for (const [table, rows] of Object.entries(dump)) {
+      counts[table] = rows.length;
+    }
+  }
+  return counts;
+}
+
+async function readJsonEntry<T>(archive: ZipArchive, name: string): Promise<T> {
+  const data = await archive.readEntry(name);
+  if (!data) {
+    throw new Error(`The backup archive is damaged: ${name} is missing.`);
+  }
+  try {
+    return JSON.parse(data.toString('utf8')) as T;
+  } catch {
+    throw new Error(`The backup archive is damaged: ${name} cannot be read.`);
+  }
+}
+
+async function readBackupArchive(archivePath: string): Promise<BackupContents> {
+  let archive: ZipArchive;
+  try {
+    archive = await openZipArchive(archivePath);
+  } catch {
+    throw new Error('The selected file is not a library backup.');
+  }
+
+  const manifest = archive.entries.has(MANIFEST_ENTRY)
+    ? await readJsonEntry<BackupManifest>(archive, MANIFEST_ENTRY)
+    : null;
+  if (!manifest || manifest.format !== BACKUP_FORMAT || typeof manifest.schemaVersion !== 'number') {
+    throw new Error('The selected file is not a library backup.');
+  }
+  if (manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of the app.');
+  }
+
+  const auth = await readJsonEntry<BackupTables>(archive, AUTH_DATA_ENTRY);
+  const reader = await readJsonEntry<BackupTables>(archive, READER_DATA_ENTRY);
+  for (const book of auth.books ?? []) {
+    if (typeof book.id !== 'string' || !SAFE_BOOK_ID.test(book.id)) {
+      throw new Error('The backup archive is damaged: a book has an invalid id.');
+    }
+    if (typeof book.file_path === 'string' && !archive.entries.has(book.file_path)) {
+      throw new Error(`The backup archive is damaged: ${book.file_path} is missing.`);
+    }
+  }
+
+  return { archive, manifest, auth, reader };
+}
+
+export async function createLibraryBackup(
+  db: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  ownerWindow: BrowserWindow | null
+): Promise<BackupCreateResult> {
+  const saveOptions = {
+    title: 'Backup library',
+    defaultPath: `library-backup-${new Date().toISOString().slice(0, 10)}.zip`,
+    filters: [{ name: 'Library backup', extensions: ['zip'] }]
+  };
+  const saveResult = ownerWindow
+    ? await dialog.showSaveDialog(ownerWindow, saveOptions)
+    : await dialog.showSaveDialog(saveOptions);
+  if (saveResult.canceled || !saveResult.filePath) {
+    return { ok: false, cancelled: true };
+  }
+
+  const auth = dumpTables(db, AUTH_BACKUP_TABLES, userId);
+  const reader = readerDb.dumpBackupTables(userId);
+  const fileEntries: ZipWriteEntry[] = [];
+
+  // Absolute paths are stored as archive entry names and mapped back into userData on restore.
+  const addFile = async (bookId: string, filePath: unknown): Promise<string | null> => {
+    if (typeof filePath !== 'string' || !(await fileExists(filePath))) {
+      return null;
+    }
+    const name = archiveBookPath(bookId, filePath);
+    fileEntries.push({
+      name,
+      read: () => fs.readFile(filePath),
+      compress: COMPRESSED_BOOK_EXTENSIONS.has(path.extname(filePath).toLowerCase())
+    });
+    return name;
+  };
+  for (const book of auth.books) {
+    book.file_path = await addFile(String(book.id), book.file_path);
+  }
+  for (const metadata of auth.book_file_metadata) {
+    metadata.cover_path = await addFile(String(metadata.book_id), metadata.cover_path);
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    appVersion: app.getVersion(),
+    createdAt: Date.now(),
+    bookCount: auth.books.length,
+    tables: countRows(auth, reader)
+  };
+  const jsonEntry = (name: string, value: unknown): ZipWriteEntry => ({
+    name,
+    read: async () => Buffer.from(JSON.stringify(value), 'utf8'),
+    compress: true
+  });
+
+  const partialPath = `${saveResult.filePath}.partial`;
+  try {
+    await writeZipArchive(partialPath, [
+      jsonEntry(MANIFEST_ENTRY, manifest),
+      jsonEntry(AUTH_DATA_ENTRY, auth),
+      jsonEntry(READER_DATA_ENTRY, reader),
+      ...fileEntries
+    ]);
+    await fs.rename(partialPath, saveResult.filePath);
+  } catch (error) {
+    console.warn('Failed to write library backup', error);
+    await fs.rm(partialPath, { force: true });
+    return { ok: false, error: 'Failed to write the backup archive.' };
+  }
+
+  return { ok: true, path: saveResult.filePath, manifest };
+}
+
+export async function inspectLibraryBackup(ownerWindow: BrowserWindow | null): Promise<BackupInspectResult> {
+  const openOptions = {
+    title: 'Restore library',
+    properties: ['openFile' as const],
+    filters: [{ name: 'Library backup', extensions: ['zip'] }]
+  };
+  const pickerResult = ownerWindow
+    ? await dialog.showOpenDialog(ownerWindow, openOptions)
+    : await dialog.showOpenDialog(openOptions);
+  if (pickerResult.canceled || pickerResult.filePaths.length === 0) {
+    return { ok: false, cancelled: true };
+  }
+
+  try {
+    const { manifest } = await readBackupArchive(pickerResult.filePaths[0]);
+    return { ok: true, archivePath: pickerResult.filePaths[0], manifest };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Failed to read the backup archive.' };
+  }
+}
+
+// Book files are unpacked into a staging folder first, so a damaged archive leaves the library untouched.
+export async function restoreLibraryBackup(
+  db: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  userDataPath: string,
+  payload: BackupRestoreRequest
+): Promise<BackupRestoreResult> {
+  const mode = payload?.mode === 'replace' ? 'replace' : 'merge';
+  let contents: BackupContents;
+  try {
+    contents = await readBackupArchive(String(payload?.archivePath ?? ''));
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Failed to read the backup archive.' };
+  }
+
+  const { archive, auth, reader } = contents;
+  const booksPath = path.join(userDataPath, 'books');
+  const stagingPath = path.join(userDataPath, `books-restore-${Date.now()}`);
+  const existingBookIds = new Set(
+    (db.prepare('SELECT id FROM books WHERE user_id = ?').all(userId) as Array<{ id: string }>).map((row) => row.id)
+  );
+  const otherProfileBook = db.prepare('SELECT 1 FROM books WHERE id = ? AND user_id != ? LIMIT 1');
+  const restoredBookIds: string[] = [];
+  let skippedBooks = 0;
+
+  const stageFile = async (bookId: string, entryName: unknown): Promise<string | null> => {
+    if (typeof entryName !== 'string') {
+      return null;
+    }
+    const data = await archive.readEntry(entryName);
+    if (!data) {
+      return null;
+    }
+    const fileName = path.basename(entryName);
+    await fs.mkdir(path.join(stagingPath, bookId), { recursive: true });
+    await fs.writeFile(path.join(stagingPath, bookId, fileName), data);
+    return path.join(booksPath, bookId, fileName);
+  };
+
+  try {
+    const books: BackupRow[] = [];
+    for (const book of auth.books ?? []) {
+      const bookId = String(book.id);
+      // A book id owned by another profile would overwrite that profile's files.
+      if ((mode === 'merge' && existingBookIds.has(bookId)) || otherProfileBook.get(bookId, userId)) {
+        skippedBooks += 1;
+        continue;
+      }
+      books.push({ ...book, file_path: await stageFile(bookId, book.file_path) });
+      restoredBookIds.push(bookId);
+    }
+
+    const restoredIds = new Set(restoredBookIds);
+    const fileMetadata: BackupRow[] = [];
+    for (const metadata of auth.book_file_metadata ?? []) {
+      const bookId = String(metadata.book_id);
+      fileMetadata.push(
+        restoredIds.has(bookId) && SAFE_BOOK_ID.test(bookId)
+          ? { ...metadata, cover_path: await stageFile(bookId, metadata.cover_path) }
+          : { ...metadata, cover_path: null }
+      );
+    }
+
+    // Rows of skipped books stay out, so a book id owned by another profile never gains rows from here.
+    const ownedBookIds = new Set(mode === 'merge' ? [...existingBookIds, ...restoredBookIds] : restoredBookIds);
+    const restoredAuth: BackupTables = { ...auth, books, book_file_metadata: fileMetadata };
+    const otherProfileCollection = db.prepare('SELECT 1 FROM collections WHERE id = ? AND user_id != ? LIMIT 1');
+    restoredAuth.collections = (restoredAuth.collections ?? []).filter((row) => !otherProfileCollection.get(String(row.id), userId));
+    const collectionIds = new Set(restoredAuth.collections.map((row) => String(row.id)));
+    for (const [table, rows] of Object.entries(restoredAuth)) {
+      restoredAuth[table] = rows.filter(
+        (row) =>
+          (!('book_id' in row) || ownedBookIds.has(String(row.book_id))) &&
+          (!('collection_id' in row) || collectionIds.has(String(row.collection_id)))
+      );
+    }
+    restoreTables(db, AUTH_BACKUP_TABLES, restoredAuth, userId, mode);
+    // Progress, notes and bookmarks only come along with a book this restore inserted; a merge
+    // keeps the local reading state of books that were already here.
+    const restoredReader: BackupTables = {};
+    for (const [table, rows] of Object.entries(reader)) {
+      restoredReader[table] = rows.filter((row) => !('book_id' in row) || restoredIds.has(String(row.book_id)));
+    }
+    readerDb.restoreBackupTables(userId, restoredReader, mode);
+    if (mode === 'replace') {
+      for (const bookId of existingBookIds) {
+        deleteBookTextIndex(db, bookId);
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to restore library backup', error);
+    await fs.rm(stagingPath, { recursive: true, force: true });
+    return { ok: false, error: 'Failed to restore the backup archive.' };
+  }
+
+  try {
+    await fs.mkdir(stagingPath, { recursive: true });
+    await fs.mkdir(booksPath, { recursive: true });
+    // Other profiles share the books folder, so only this profile's book folders are replaced.
+    if (mode === 'replace') {
+      for (const bookId of existingBookIds) {
+        if (SAFE_BOOK_ID.test(bookId)) {
+          await fs.rm(path.join(booksPath, bookId), { recursive: true, force: true });
+        }
+      }
+    }
+    for (const bookId of await fs.readdir(stagingPath)) {
+      await fs.rm(path.join(booksPath, bookId), { recursive: true, force: true });
+      await fs.rename(path.join(stagingPath, bookId), path.join(booksPath, bookId));
+    }
+    await fs.rm(stagingPath, { recursive: true, force: true });
+  } catch (error) {
+    console.warn('Failed to move restored book files', error);
+    return { ok: false, error: 'The library data was restored, but some book files could not be copied.' };
+  }
+
+  indexLibraryTextInBackground(db, userId);
+  return { ok: true, restoredBooks: restoredBookIds.length, skippedBooks };
+}
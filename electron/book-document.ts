@@ -0,0 +1,218 @@
+import fs from 'node:fs/promises';
+import {
+  DOCUMENT_BOOK_FORMATS,
+  type BookDocument,
+  type BookDocumentBlock,
+  type BookDocumentChapter,
+  type BookFormat,
+  type DocumentBookFormat
+} from '../shared/ipc';
+import { decodeTxtBuffer } from './book-text';
+import { markdownToHtml } from './markdown';
+import { readMobiHeader, readMobiHtml } from './mobi';
+import { childElements, getAttribute, parseXmlTree, treeText, type XmlNode, type XmlTreeElement } from './xml';
+
+const LEAF_BLOCK_TAGS: Record<string, BookDocumentBlock['tag']> = {
+  p: 'p',
+  h1: 'h1',
+  h2: 'h2',
+  h3: 'h3',
+  h4: 'h4',
+  h5: 'h4',
+  h6: 'h4',
+  li: 'li',
+  dt: 'p',
+  dd: 'p',
+  td: 'p',
+  th: 'p',
+  pre: 'pre',
+  figcaption: 'p',
+  caption: 'p'
+};
+const CHAPTER_HEADING_TAGS = new Set(['h1', 'h2']);
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'template', 'noscript', 'svg', 'math', 'guide']);
+const INLINE_WRAPPERS: Record<string, string> = {
+  strong: 'strong',
+  b: 'strong',
+  em: 'em',
+  i: 'em',
+  cite: 'em',
+  u: 'u',
+  s: 's',
+  strike: 's',
+  del: 's',
+  sub: 'sub',
+  sup: 'sup',
+  code: 'code'
+};
+const VOID_ELEMENT_PATTERN = /<(br|hr|img|meta|link|input|col|area|wbr|source|basefont|param)(\s[^>]*?)?\s*\/?>/gi;
+
+export function isDocumentBookFormat(format: BookFormat): format is DocumentBookFormat {
+  return (DOCUMENT_BOOK_FORMATS as readonly BookFormat[]).includes(format);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function renderInline(node: XmlNode): string {
+  if (typeof node === 'string') {
+    return escapeHtml(node);
+  }
+  if (SKIPPED_ELEMENTS.has(node.name)) {
+    return '';
+  }
+  if (node.name === 'br') {
+    return '<br/>';
+  }
+
+  const children = node.children.map(renderInline).join('');
+  const wrapper = INLINE_WRAPPERS[node.name];
+  if (wrapper) {
+    return `<${wrapper}>${children}</${wrapper}>`;
+  }
+  if (node.name === 'a') {
+    const href = getAttribute(node.attributes, 'href');
+    return href && /^(https?:|mailto:)/i.test(href) ? `<a href="${escapeHtml(href)}">${children}</a>` : children;
+  }
+  return children;
+}
+
+function containsBlock(element: XmlTreeElement): boolean {
+  return childElements(element).some(
+    (child) => child.name in LEAF_BLOCK_TAGS || child.name === 'blockquote' || child.name === 'pagebreak' || containsBlock(child)
+  );
+}
+
+function hasDirectText(element: XmlTreeElement): boolean {
+  return element.children.some((child) => typeof child === 'string' && child.trim().length > 0);
+}
+
+type WalkState = {
+  chapters: BookDocumentChapter[];
+};
+
+function currentChapter(state: WalkState): BookDocumentChapter {
+  return state.chapters[state.chapters.length - 1];
+}
+
+function startChapter(state: WalkState, title: string | null) {
+  const chapter = currentChapter(state);
+  if (chapter.blocks.length === 0) {
+    chapter.title = title ?? chapter.title;
+    return;
+  }
+  state.chapters.push({ title, blocks: [] });
+}
+
+function pushBlock(state: WalkState, tag: BookDocumentBlock['tag'], element: XmlTreeElement) {
+  const text = normalizeWhitespace(treeText(element));
+  if (!text) {
+    return;
+  }
+  const html = tag === 'pre' ? escapeHtml(treeText(element)) : renderInline(element).trim();
+  currentChapter(state).blocks.push({ tag, html, text });
+}
+
+function walk(element: XmlTreeElement, state: WalkState, quoted: boolean) {
+  for (const child of childElements(element)) {
+    if (SKIPPED_ELEMENTS.has(child.name)) {
+      continue;
+    }
+    if (child.name === 'pagebreak') {
+      startChapter(state, null);
+      continue;
+    }
+
+    const leafTag = LEAF_BLOCK_TAGS[child.name];
+    if (leafTag && (!containsBlock(child) || child.name === 'pre')) {
+      // The reader shows chapter titles itself, so chapter headings are not repeated as blocks.
+      if (CHAPTER_HEADING_TAGS.has(child.name)) {
+        startChapter(state, normalizeWhitespace(treeText(child)).slice(0, 200) || null);
+        continue;
+      }
+      pushBlock(state, quoted && leafTag === 'p' ? 'blockquote' : leafTag, child);
+      continue;
+    }
+
+    if (child.name === 'blockquote' && !containsBlock(child)) {
+      pushBlock(state, 'blockquote', child);
+      continue;
+    }
+
+    // Containers with loose text (common in MOBI markup and hand-written HTML) become one paragraph.
+    if (hasDirectText(child) && !containsBlock(child)) {
+      pushBlock(state, quoted ? 'blockquote' : 'p', child);
+      continue;
+    }
+
+    walk(child, state, quoted || child.name === 'blockquote');
+  }
+}
+
+function readHtmlTitle(root: XmlTreeElement): string | null {
+  const find = (element: XmlTreeElement): XmlTreeElement | null => {
+    for (const child of childElements(element)) {
+      if (child.name === 'title') {
+        return child;
+      }
+      if (child.name === 'body') {
+        continue;
+      }
+      const found = find(child);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  };
+  const title = find(root);
+  return title ? normalizeWhitespace(treeText(title)) || null : null;
+}
+
+function readHtmlAuthor(source: string): string | null {
+  const match = source.match(/<meta\s[^>]*name\s*=\s*["']author["'][^>]*>/i);
+  return match ? getAttribute(match[0], 'content') : null;
+}
+
+// Splits HTML into chapters at h1/h2 headings and MOBI page breaks, keeping only readable blocks.
+export function htmlToBookDocument(source: string): BookDocument {
+  const root = parseXmlTree(source.replace(VOID_ELEMENT_PATTERN, (_match, name: string, attributes = '') => `<${name}${attributes}/>`));
+  const state: WalkState = { chapters: [{ title: null, blocks: [] }] };
+  walk(root, state, false);
+
+  return {
+    title: readHtmlTitle(root),
+    author: readHtmlAuthor(source),
+    chapters: state.chapters.filter((chapter) => chapter.blocks.length > 0)
+  };
+}
+
+function decodeHtmlBuffer(buffer: Buffer): string {
+  const head = buffer.subarray(0, Math.min(buffer.length, 2048)).toString('latin1');
+  const charset = head.match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i)?.[1];
+  if (charset && !/^utf-?8$/i.test(charset)) {
+    try {
+      return new TextDecoder(charset).decode(buffer);
+    } catch {
+      // Unknown charset labels fall back to the UTF-8 detection below.
+    }
+  }
+  return decodeTxtBuffer(buffer);
+}
+
+export async function loadBookDocument(filePath: string, format: DocumentBookFormat): Promise<BookDocument> {
+  if (format === 'mobi') {
+    const [html, header] = await Promise.all([readMobiHtml(filePath), readMobiHeader(filePath)]);
+    const document = htmlToBookDocument(html);
+    return { ...document, title: header.title ?? document.title, author: header.authors.join(', ') || document.author };
+  }
+  if (format === 'md') {
+    return htmlToBookDocument(markdownToHtml(decodeTxtBuffer(await fs.readFile(filePath))));
+  }
+  return htmlToBookDocument(decodeHtmlBuffer(await fs.readFile(filePath)));
+}
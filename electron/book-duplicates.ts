@@ -0,0 +1,172 @@
+import type Database from 'better-sqlite3';
+import type {
+  BooksListDuplicatesResult,
+  BooksMergeDuplicatesRequest,
+  BooksMergeDuplicatesResult,
+  DuplicateBookGroup,
+  ReadingStatus
+} from '../shared/ipc';
+import { hashLibraryInBackground } from './book-hash';
+import { deleteBook } from './books';
+import type { ReaderProgressDb } from './reader-progress-db';
+
+type DuplicateRow = {
+  content_hash: string;
+  book_id: string;
+  total_reading_time_sec: number | null;
+  last_opened_at: number | null;
+};
+
+type MergeBookRow = {
+  id: string;
+  format: string;
+  status: ReadingStatus;
+  started_at: number | null;
+  finished_at: number | null;
+};
+
+type ReadingStatsRow = {
+  total_reading_time_sec: number;
+  last_opened_at: number | null;
+  open_count: number;
+  last_format: string | null;
+};
+
+export async function listDuplicateBooks(
+  db: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string
+): Promise<BooksListDuplicatesResult> {
+  await hashLibraryInBackground(db, userId);
+
+  const rows = db
+    .prepare(
+      `SELECT h.content_hash, b.id AS book_id, s.total_reading_time_sec, s.last_opened_at
+       FROM book_content_hashes h
+       JOIN books b ON b.id = h.book_id
+       LEFT JOIN reading_stats s ON s.book_id = b.id
+       WHERE b.user_id = ?
+         AND h.content_hash IN (
+           SELECT h2.content_hash
+           FROM book_content_hashes h2
+           JOIN books b2 ON b2.id = h2.book_id
+           WHERE b2.user_id = ?
+           GROUP BY h2.content_hash
+           HAVING COUNT(*) > 1
+         )
+       ORDER BY h.content_hash, b.created_at ASC`
+    )
+    .all(userId, userId) as DuplicateRow[];
+
+  const groups = new Map<string, DuplicateBookGroup>();
+  for (const row of rows) {
+    const group = groups.get(row.content_hash) ?? { contentHash: row.content_hash, candidates: [] };
+    group.candidates.push({
+      bookId: row.book_id,
+      ...readerDb.countBookAnnotations(userId, row.book_id),
+      readingTimeSec: row.total_reading_time_sec ?? 0,
+      lastOpenedAt: row.last_opened_at
+    });
+    groups.set(row.content_hash, group);
+  }
+
+  return { ok: true, groups: [...groups.values()] };
+}
+
+function readMergeBook(db: Database.Database, userId: string, bookId: string | undefined): MergeBookRow | undefined {
+  return db
+    .prepare('SELECT id, format, status, started_at, finished_at FROM books WHERE id = ? AND user_id = ? LIMIT 1')
+    .get(bookId ?? '', userId) as MergeBookRow | undefined;
+}
+
+function minTimestamp(left: number | null, right: number | null) {
+  return left === null ? right : right === null ? left : Math.min(left, right);
+}
+
+function mergeReadingStats(db: Database.Database, keepBookId: string, removeBookId: string) {
+  const read = (bookId: string) =>
+    db
+      .prepare('SELECT total_reading_time_sec, last_opened_at, open_count, last_format FROM reading_stats WHERE book_id = ?')
+      .get(bookId) as ReadingStatsRow | undefined;
+  const removed = read(removeBookId);
+  if (!removed) {
+    return;
+  }
+
+  const kept = read(keepBookId);
+  if (!kept) {
+    db.prepare('UPDATE reading_stats SET book_id = ? WHERE book_id = ?').run(keepBookId, removeBookId);
+    return;
+  }
+
+  const removedIsNewer = (removed.last_opened_at ?? 0) > (kept.last_opened_at ?? 0);
+  db.prepare(
+    `UPDATE reading_stats
+     SET total_reading_time_sec = ?, last_opened_at = ?, open_count = ?, last_format = ?, updated_at = ?
+     WHERE book_id = ?`
+  ).run(
+    kept.total_reading_time_sec + removed.total_reading_time_sec,
+    removedIsNewer ? removed.last_opened_at : kept.last_opened_at,
+    kept.open_count + removed.open_count,
+    removedIsNewer ? removed.last_format : kept.last_format,
+    Date.now(),
+    keepBookId
+  );
+}
+
+// Everything attached to the removed record is moved onto the surviving one before the removed
+// record and its file are deleted, so no notes, highlights or reading history are lost. Reader data
+// moves first: if the library update then fails, both books are still there and nothing is lost.
+export async function mergeDuplicateBooks(
+  db: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  userDataPath: string,
+  payload: BooksMergeDuplicatesRequest
+): Promise<BooksMergeDuplicatesResult> {
+  const kept = readMergeBook(db, userId, payload?.keepBookId);
+  const removed = readMergeBook(db, userId, payload?.removeBookId);
+  if (!kept || !removed) {
+    return { ok: false, error: 'Book not found' };
+  }
+  if (kept.id === removed.id) {
+    return { ok: false, error: 'Choose two different books to merge.' };
+  }
+  if (kept.format !== removed.format) {
+    return { ok: false, error: 'Only books of the same format can be merged.' };
+  }
+
+  try {
+    readerDb.moveBookData(userId, removed.id, kept.id);
+    db.transaction(() => {
+      mergeReadingStats(db, kept.id, removed.id);
+      db.prepare('UPDATE reading_sessions SET book_id = ? WHERE book_id = ? AND user_id = ?').run(kept.id, removed.id, userId);
+      db.prepare('UPDATE reading_goals SET book_id = ? WHERE book_id = ? AND user_id = ?').run(kept.id, removed.id, userId);
+      db.prepare(
+        'INSERT OR IGNORE INTO book_tags (book_id, tag, created_at) SELECT ?, tag, created_at FROM book_tags WHERE book_id = ?'
+      ).run(kept.id, removed.id);
+      db.prepare(
+        `INSERT OR IGNORE INTO collection_books (collection_id, book_id, added_at)
+         SELECT collection_id, ?, added_at FROM collection_books WHERE book_id = ?`
+      ).run(kept.id, removed.id);
+      db.prepare('UPDATE OR IGNORE book_metadata SET book_id = ? WHERE book_id = ?').run(kept.id, removed.id);
+      db.prepare('UPDATE ai_summaries SET book_id = ? WHERE book_id = ?').run(kept.id, removed.id);
+      db.prepare('UPDATE annotation_search_docs SET book_id = ? WHERE book_id = ?').run(kept.id, removed.id);
+      db.prepare('UPDATE watch_folder_files SET book_id = ? WHERE book_id = ? AND user_id = ?').run(kept.id, removed.id, userId);
+
+      if (kept.status === 'want-to-read' && removed.status !== 'want-to-read') {
+        db.prepare('UPDATE books SET status = ?, finished_at = ? WHERE id = ?').run(removed.status, removed.finished_at, kept.id);
+      }
+      db.prepare('UPDATE books SET started_at = ? WHERE id = ?').run(minTimestamp(kept.started_at, removed.started_at), kept.id);
+    })();
+  } catch (error) {
+    console.warn('Failed to merge duplicate books', error);
+    return { ok: false, error: 'Failed to merge the books.' };
+  }
+
+  const deleteResult = await deleteBook(db, userId, { bookId: removed.id }, userDataPath);
+  if (!deleteResult.ok) {
+    return deleteResult;
+  }
+  return { ok: true };
+}
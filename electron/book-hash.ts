@@ -0,0 +1,79 @@
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import type Database from 'better-sqlite3';
+
+type PendingBookHash = {
+  id: string;
+  file_path: string;
+};
+
+const backgroundHashing = new Map<string, Promise<void>>();
+
+export async function hashBookFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+export function saveBookContentHash(db: Database.Database, bookId: string, contentHash: string) {
+  db.prepare(
+    `INSERT INTO book_content_hashes (book_id, content_hash, hashed_at) VALUES (?, ?, ?)
+     ON CONFLICT(book_id) DO UPDATE SET content_hash = excluded.content_hash, hashed_at = excluded.hashed_at`
+  ).run(bookId, contentHash, Date.now());
+}
+
+export function findBookByContentHash(
+  db: Database.Database,
+  userId: string,
+  contentHash: string
+): { id: string; title: string } | null {
+  const row = db
+    .prepare(
+      `SELECT b.id, b.title
+       FROM book_content_hashes h
+       JOIN books b ON b.id = h.book_id
+       WHERE b.user_id = ? AND h.content_hash = ?
+       ORDER BY b.created_at ASC
+       LIMIT 1`
+    )
+    .get(userId, contentHash) as { id: string; title: string } | undefined;
+  return row ?? null;
+}
+
+// Books imported before hashing existed are hashed one at a time, one pass per profile; the duplicate
+// scan awaits the returned promise so no existing book is missed.
+export function hashLibraryInBackground(db: Database.Database, userId: string): Promise<void> {
+  const running = backgroundHashing.get(userId);
+  if (running) {
+    return running;
+  }
+
+  const hashing = (async () => {
+    const pending = db
+      .prepare(
+        `SELECT b.id, b.file_path
+         FROM books b
+         LEFT JOIN book_content_hashes h ON h.book_id = b.id
+         WHERE b.user_id = ? AND b.file_path IS NOT NULL AND h.book_id IS NULL`
+      )
+      .all(userId) as PendingBookHash[];
+
+    for (const book of pending) {
+      try {
+        const contentHash = await hashBookFile(book.file_path);
+        if (db.prepare('SELECT 1 FROM books WHERE id = ? LIMIT 1').get(book.id)) {
+          saveBookContentHash(db, book.id, contentHash);
+        }
+      } catch {
+        // Missing files are hashed once they are restored.
+      }
+    }
+  })().finally(() => {
+    backgroundHashing.delete(userId);
+  });
+
+  backgroundHashing.set(userId, hashing);
+  return hashing;
+}
@@ -0,0 +1,300 @@
+import type Database from 'better-sqlite3';
+import type { Book, BookMetadataInput, BookMetadataMatch } from '../shared/ipc';
+import { findMatchCandidates, getCover, getDescription, getPublishYear, getSubjects } from './openLibraryMetadataProvider';
+import { getSeriesKey } from '../shared/series';
+import { hydrateBooksWithFileMetadata } from './embedded-metadata';
+import { hydrateBooksWithCachedMetadata } from './openLibraryMetadata';
+
+type BookMetadataRow = {
+  book_id: string;
+  subtitle: string | null;
+  authors_json: string | null;
+  series: string | null;
+  series_index: number | null;
+  publish_year: number | null;
+  language: string | null;
+  description: string | null;
+  subjects_json: string | null;
+  cover_url: string | null;
+  work_id: string | null;
+  edition_id: string | null;
+  isbn: string | null;
+  locked: number;
+  updated_at: number;
+};
+
+export type BookMetadataOverride = {
+  subtitle: string | null;
+  authors: string[];
+  series: string | null;
+  seriesIndex: number | null;
+  publishYear: number | null;
+  language: string | null;
+  description: string | null;
+  subjects: string[];
+  coverUrl: string | null;
+  workId: string | null;
+  editionId: string | null;
+  isbn: string | null;
+  locked: boolean;
+};
+
+const MAX_TITLE_LENGTH = 300;
+const MAX_SHORT_FIELD_LENGTH = 200;
+const MAX_LANGUAGE_LENGTH = 35;
+const MAX_DESCRIPTION_LENGTH = 10000;
+const MAX_AUTHORS = 10;
+const MAX_AUTHOR_LENGTH = 120;
+const MAX_SUBJECTS = 30;
+const MAX_SUBJECT_LENGTH = 80;
+const OPEN_LIBRARY_COVERS_URL = 'https://covers.openlibrary.org/';
+
+function parseStringList(value: string | null) {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function rowToOverride(row: BookMetadataRow): BookMetadataOverride {
+  return {
+    subtitle: row.subtitle,
+    authors: parseStringList(row.authors_json),
+    series: row.series,
+    seriesIndex: row.series_index,
+    publishYear: row.publish_year,
+    language: row.language,
+    description: row.description,
+    subjects: parseStringList(row.subjects_json),
+    coverUrl: row.cover_url,
+    workId: row.work_id,
+    editionId: row.edition_id,
+    isbn: row.isbn,
+    locked: row.locked === 1
+  };
+}
+
+function normalizeLine(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const text = value.replace(/\s+/g, ' ').trim().slice(0, maxLength);
+  return text.length > 0 ? text : null;
+}
+
+function normalizeList(values: unknown, maxItems: number, maxLength: number): string[] {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+
+  const items = new Map<string, string>();
+  for (const value of values) {
+    const item = normalizeLine(value, maxLength);
+    if (item && !items.has(item.toLocaleLowerCase())) {
+      items.set(item.toLocaleLowerCase(), item);
+    }
+  }
+  return [...items.values()].slice(0, maxItems);
+}
+
+function normalizeSeriesIndex(value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 10000) {
+    return null;
+  }
+
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeYear(value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    return null;
+  }
+
+  return value > 0 && value <= new Date().getFullYear() + 5 ? value : null;
+}
+
+export function normalizeMetadataInput(input: BookMetadataInput | null | undefined) {
+  const title = normalizeLine(input?.title, MAX_TITLE_LENGTH);
+  if (!title) {
+    return null;
+  }
+
+  const series = normalizeLine(input?.series, MAX_SHORT_FIELD_LENGTH);
+  const description = typeof input?.description === 'string' ? input.description.trim().slice(0, MAX_DESCRIPTION_LENGTH) : '';
+
+  return {
+    title,
+    subtitle: normalizeLine(input?.subtitle, MAX_SHORT_FIELD_LENGTH),
+    authors: normalizeList(input?.authors, MAX_AUTHORS, MAX_AUTHOR_LENGTH),
+    series,
+    seriesIndex: series ? normalizeSeriesIndex(input?.seriesIndex) : null,
+    publishYear: normalizeYear(input?.publishYear),
+    language: normalizeLine(input?.language, MAX_LANGUAGE_LENGTH),
+    description: description || null,
+    subjects: normalizeList(input?.subjects, MAX_SUBJECTS, MAX_SUBJECT_LENGTH)
+  };
+}
+
+export function readBookMetadataOverride(db: Database.Database, bookId: string): BookMetadataOverride | null {
+  const row = db
+    .prepare(
+      `SELECT book_id, subtitle, authors_json, series, series_index, publish_year, language, description, subjects_json,
+              cover_url, work_id, edition_id, isbn, locked, updated_at
+       FROM book_metadata
+       WHERE book_id = ?
+       LIMIT 1`
+    )
+    .get(bookId) as BookMetadataRow | undefined;
+
+  return row ? rowToOverride(row) : null;
+}
+
+function listBookMetadataOverrides(db: Database.Database, userId: string): Map<string, BookMetadataOverride> {
+  const rows = db
+    .prepare(
+      `SELECT bm.book_id, bm.subtitle, bm.authors_json, bm.series, bm.series_index, bm.publish_year, bm.language, bm.description,
+              bm.subjects_json, bm.cover_url, bm.work_id, bm.edition_id, bm.isbn, bm.locked, bm.updated_at
+       FROM book_metadata bm
+       JOIN books b ON b.id = bm.book_id
+       WHERE b.user_id = ?`
+    )
+    .all(userId) as BookMetadataRow[];
+
+  return new Map(rows.map((row) => [row.book_id, rowToOverride(row)]));
+}
+
+export function writeBookMetadataOverride(db: Database.Database, bookId: string, override: BookMetadataOverride) {
+  db.prepare(
+    `INSERT INTO book_metadata (
+      book_id,
+      subtitle,
+      authors_json,
+      series,
+      series_index,
+      publish_year,
+      language,
+      description,
+      subjects_json,
+      cover_url,
+      work_id,
+      edition_id,
+      isbn,
+      locked,
+      updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(book_id) DO UPDATE SET
+      subtitle = excluded.subtitle,
+      authors_json = excluded.authors_json,
+      series = excluded.series,
+      series_index = excluded.series_index,
+      publish_year = excluded.publish_year,
+      language = excluded.language,
+      description = excluded.description,
+      subjects_json = excluded.subjects_json,
+      cover_url = excluded.cover_url,
+      work_id = excluded.work_id,
+      edition_id = excluded.edition_id,
+      isbn = excluded.isbn,
+      locked = excluded.locked,
+      updated_at = excluded.updated_at`
+  ).run(
+    bookId,
+    override.subtitle,
+    JSON.stringify(override.authors),
+    override.series,
+    override.seriesIndex,
+    override.publishYear,
+    override.language,
+    override.description,
+    JSON.stringify(override.subjects),
+    override.coverUrl,
+    override.workId,
+    override.editionId,
+    override.isbn,
+    override.locked ? 1 : 0,
+    Date.now()
+  );
+}
+
+function mergeBookWithOverride(book: Book, override: BookMetadataOverride | undefined): Book {
+  if (!override) {
+    return book;
+  }
+
+  return {
+    ...book,
+    subtitle: override.subtitle ?? book.subtitle ?? null,
+    author: override.authors.length > 0 ? override.authors.join(', ') : book.author ?? null,
+    authors: override.authors.length > 0 ? override.authors : book.authors,
+    series: override.series ?? book.series ?? null,
+    // A manual series keeps the file's volume number only when both name the same series.
+    seriesIndex: override.series
+      ? override.seriesIndex ?? (getSeriesKey(override.series) === getSeriesKey(book.series) ? book.seriesIndex ?? null : null)
+      : book.seriesIndex ?? null,
+    language: override.language ?? book.language ?? null,
+    coverUrl: override.coverUrl ?? book.coverUrl ?? null,
+    description: override.description ?? book.description ?? null,
+    subjects: override.subjects.length > 0 ? override.subjects : book.subjects ?? [],
+    publishYear: override.publishYear ?? book.publishYear ?? null
+  };
+}
+
+// Layers, lowest first: the file's own metadata, the Open Library cache (missing fields only), user overrides.
+// Locked books skip the Open Library cache entirely.
+export function hydrateBooksMetadata(db: Database.Database, userId: string, books: Book[]): Book[] {
+  const overrides = listBookMetadataOverrides(db, userId);
+  const withLocks = hydrateBooksWithFileMetadata(db, userId, books).map((book) => ({
+    ...book,
+    metadataLocked: overrides.get(book.id)?.locked ?? false
+  }));
+
+  return hydrateBooksWithCachedMetadata(db, withLocks).map((book) => mergeBookWithOverride(book, overrides.get(book.id)));
+}
+
+export async function searchMetadataMatches(title: string, author?: string | null): Promise<BookMetadataMatch[]> {
+  const candidates = await findMatchCandidates(title, author);
+  return candidates.map(({ match, score }) => ({
+    title: match.title,
+    subtitle: match.subtitle,
+    author: match.author,
+    workId: match.workId,
+    editionId: match.editionId,
+    isbn: match.isbn,
+    coverUrl: match.coverUrl,
+    publishYear: match.publishYear,
+    subjects: match.subjects.slice(0, 8),
+    score
+  }));
+}
+
+export async function resolveMetadataMatch(match: BookMetadataMatch) {
+  const lookup = {
+    workId: normalizeLine(match.workId, 40),
+    editionId: normalizeLine(match.editionId, 40),
+    isbn: normalizeLine(match.isbn, 20)
+  };
+
+  const [description, subjects, publishYear] = await Promise.all([
+    getDescription(lookup).catch(() => null),
+    getSubjects(lookup).catch(() => []),
+    getPublishYear(lookup).catch(() => null)
+  ]);
+
+  return {
+    title: normalizeLine(match.title, MAX_TITLE_LENGTH),
+    subtitle: normalizeLine(match.subtitle, MAX_SHORT_FIELD_LENGTH),
+    author: normalizeLine(match.author, MAX_AUTHOR_LENGTH),
+    description: description?.slice(0, MAX_DESCRIPTION_LENGTH) ?? null,
+    subjects: normalizeList(subjects.length > 0 ? subjects : match.subjects, MAX_SUBJECTS, MAX_SUBJECT_LENGTH),
+    publishYear: publishYear ?? normalizeYear(match.publishYear),
+    coverUrl: getCover(lookup) ?? (match.coverUrl?.startsWith(OPEN_LIBRARY_COVERS_URL) ? match.coverUrl : null),
+    ...lookup
+  };
+}
@@ -0,0 +1,228 @@
+import { createReadStream } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { protocol } from 'electron';
+import type Database from 'better-sqlite3';
+import { BOOK_PROTOCOL_SCHEME, type BookFormat } from '../shared/ipc';
+import { readBookCoverPath } from './embedded-metadata';
+import { openZipArchive, type ZipArchive } from './zip';
+
+type BookFileRow = {
+  format: BookFormat;
+  file_path: string | null;
+};
+
+type ByteRange = {
+  start: number;
+  end: number;
+};
+
+const MAX_CACHED_ARCHIVES = 4;
+const FILE_CONTENT_TYPES: Record<BookFormat, string> = {
+  pdf: 'application/pdf',
+  epub: 'application/epub+zip',
+  fb2: 'application/x-fictionbook+xml',
+  txt: 'text/plain; charset=utf-8',
+  cbz: 'application/vnd.comicbook+zip',
+  mobi: 'application/x-mobipocket-ebook',
+  html: 'text/html; charset=utf-8',
+  md: 'text/markdown; charset=utf-8'
+};
+const ENTRY_CONTENT_TYPES: Record<string, string> = {
+  '.xhtml': 'application/xhtml+xml',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.xml': 'application/xml',
+  '.opf': 'application/oebps-package+xml',
+  '.ncx': 'application/x-dtbncx+xml',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.mp3': 'audio/mpeg',
+  '.mp4': 'video/mp4'
+};
+// The renderer runs on the dev server or file:// origin, so every response must be readable cross-origin.
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Range',
+  'Access-Control-Expose-Headers': 'Accept-Ranges, Content-Length, Content-Range, Content-Type'
+};
+
+const archiveCache = new Map<string, { mtimeMs: number; archive: ZipArchive }>();
+
+function textResponse(status: number, message: string, headers: Record<string, string> = {}) {
+  return new Response(message, {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'text/plain; charset=utf-8', ...headers }
+  });
+}
+
+function parseRangeHeader(value: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!value) {
+    return null;
+  }
+
+  const match = value.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return 'unsatisfiable';
+  }
+
+  if (!match[1]) {
+    const suffixLength = Number(match[2]);
+    return suffixLength > 0 ? { start: Math.max(0, size - suffixLength), end: size - 1 } : 'unsatisfiable';
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start >= size || end < start) {
+    return 'unsatisfiable';
+  }
+
+  return { start, end };
+}
+
+async function getArchive(filePath: string): Promise<ZipArchive> {
+  const { mtimeMs } = await fs.stat(filePath);
+  const cached = archiveCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    archiveCache.delete(filePath);
+    archiveCache.set(filePath, cached);
+    return cached.archive;
+  }
+
+  const archive = await openZipArchive(filePath);
+  archiveCache.set(filePath, { mtimeMs, archive });
+  while (archiveCache.size > MAX_CACHED_ARCHIVES) {
+    const oldestKey = archiveCache.keys().next().value as string;
+    archiveCache.delete(oldestKey);
+  }
+  return archive;
+}
+
+async function serveBookFile(request: Request, filePath: string, format: BookFormat): Promise<Response> {
+  const { size } = await fs.stat(filePath);
+  const range = parseRangeHeader(request.headers.get('Range'), size);
+  if (range === 'unsatisfiable') {
+    return textResponse(416, 'Requested range not satisfiable.', { 'Content-Range': `bytes */${size}` });
+  }
+
+  const start = range?.start ?? 0;
+  const end = range?.end ?? size - 1;
+  const headers: Record<string, string> = {
+    ...CORS_HEADERS,
+    'Accept-Ranges': 'bytes',
+    'Content-Type': FILE_CONTENT_TYPES[format],
+    'Content-Length': String(size === 0 ? 0 : end - start + 1)
+  };
+  if (range) {
+    headers['Content-Range'] = `bytes ${start}-${end}/${size}`;
+  }
+
+  if (request.method === 'HEAD' || size === 0) {
+    return new Response(null, { status: range ? 206 : 200, headers });
+  }
+
+  const body = Readable.toWeb(createReadStream(filePath, { start, end })) as unknown as ReadableStream;
+  return new Response(body, { status: range ? 206 : 200, headers });
+}
+
+async function serveArchiveEntry(filePath: string, entryName: string): Promise<Response> {
+  const archive = await getArchive(filePath);
+  const data = await archive.readEntry(entryName);
+  if (!data) {
+    return textResponse(404, 'Entry not found.');
+  }
+
+  return new Response(new Uint8Array(data), {
+    status: 200,
+    headers: {
+      ...CORS_HEADERS,
+      'Content-Type': ENTRY_CONTENT_TYPES[path.extname(entryName).toLowerCase()] ?? 'application/octet-stream',
+      'Content-Length': String(data.length)
+    }
+  });
+}
+
+async function serveCoverFile(coverPath: string): Promise<Response> {
+  const data = await fs.readFile(coverPath);
+  return new Response(new Uint8Array(data), {
+    status: 200,
+    headers: {
+      ...CORS_HEADERS,
+      'Content-Type': ENTRY_CONTENT_TYPES[path.extname(coverPath).toLowerCase()] ?? 'application/octet-stream',
+      'Content-Length': String(data.length),
+      'Cache-Control': 'max-age=31536000, immutable'
+    }
+  });
+}
+
+async function handleBookRequest(db: Database.Database, userId: string, request: Request): Promise<Response> {
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return textResponse(405, 'Method not allowed.');
+  }
+
+  const url = new URL(request.url);
+  const bookId = url.hostname;
+  const resourcePath = decodeURIComponent(url.pathname).replace(/^\/+/, '');
+  const bookRow = db
+    .prepare('SELECT format, file_path FROM books WHERE id = ? AND user_id = ? LIMIT 1')
+    .get(bookId, userId) as BookFileRow | undefined;
+  const filePath = bookRow?.file_path?.trim();
+  if (!bookRow || !filePath) {
+    return textResponse(404, 'Book not found');
+  }
+
+  try {
+    if (resourcePath === 'file') {
+      return await serveBookFile(request, filePath, bookRow.format);
+    }
+    if (resourcePath === 'cover') {
+      const coverPath = readBookCoverPath(db, bookId);
+      return coverPath ? await serveCoverFile(coverPath) : textResponse(404, 'Cover not found.');
+    }
+    if (bookRow.format === 'epub' && resourcePath.startsWith('epub/')) {
+      return await serveArchiveEntry(filePath, resourcePath.slice('epub/'.length));
+    }
+    if (bookRow.format === 'cbz' && resourcePath.startsWith('comic/')) {
+      return await serveArchiveEntry(filePath, resourcePath.slice('comic/'.length));
+    }
+    return textResponse(404, 'Resource not found.');
+  } catch (error) {
+    console.error('Failed to serve book resource', request.url, error);
+    return textResponse(500, 'Failed to read book file from disk.');
+  }
+}
+
+export function registerBookProtocolScheme() {
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme: BOOK_PROTOCOL_SCHEME,
+      privileges: {
+        standard: true,
+        secure: true,
+        supportFetchAPI: true,
+        corsEnabled: true,
+        stream: true
+      }
+    }
+  ]);
+}
+
+// The user id is read per request so books of the previous profile stop resolving after a switch.
+export function registerBookProtocol(db: Database.Database, getUserId: () => string | null) {
+  protocol.handle(BOOK_PROTOCOL_SCHEME, (request) => handleBookRequest(db, getUserId() ?? '', request));
+}
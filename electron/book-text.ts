@@ -0,0 +1,388 @@
+import fs from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+import type { BookDocument, BookFormat } from '../shared/ipc';
+import { isDocumentBookFormat, loadBookDocument } from './book-document';
+import { readEpubPackage, resolveEpubHref } from './embedded-metadata';
+import { childElements, decodeXmlBuffer, getAttribute, parseXmlTree, treeText, type XmlTreeElement } from './xml';
+import { openZipArchive } from './zip';
+
+// A searchable slice of a book. The locator is what the matching reader opens:
+// a page number for PDF, a CFI for EPUB, a flow point location for FB2, TXT and HTML-based documents.
+export type BookTextChunk = {
+  locator: string;
+  label: string | null;
+  text: string;
+};
+
+export type PdfTextItem = {
+  str?: string;
+  hasEOL?: boolean;
+  transform?: number[];
+  width?: number;
+  height?: number;
+};
+
+export type PdfViewport = {
+  width: number;
+  height: number;
+  convertToViewportPoint: (x: number, y: number) => number[];
+};
+
+type PdfPage = {
+  getTextContent: () => Promise<{ items: PdfTextItem[] }>;
+  getViewport: (options: { scale: number }) => PdfViewport;
+  cleanup: () => void;
+};
+
+type PdfDocument = {
+  numPages: number;
+  getPage: (pageNumber: number) => Promise<PdfPage>;
+  destroy: () => Promise<void>;
+};
+
+type PdfJsModule = {
+  getDocument: (source: {
+    data: Uint8Array;
+    isEvalSupported: boolean;
+    disableFontFace: boolean;
+    verbosity: number;
+  }) => { promise: Promise<PdfDocument> };
+};
+
+const MAX_CHUNK_LENGTH = 20000;
+const EPUB_CONTENT_TYPES = new Set(['application/xhtml+xml', 'text/html', 'application/xml']);
+const EPUB_BLOCK_ELEMENTS = new Set([
+  'p',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'li',
+  'dt',
+  'dd',
+  'pre',
+  'blockquote',
+  'figcaption',
+  'caption',
+  'td',
+  'th'
+]);
+const EPUB_HEADING_ELEMENTS = new Set(['h1', 'h2', 'h3']);
+const FB2_INLINE_ELEMENTS = new Set(['strong', 'emphasis', 'strikethrough', 'sub', 'sup', 'code', 'a']);
+
+// TypeScript turns import() into require() under CommonJS, which cannot load pdf.js's ES modules.
+const importEsModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<unknown>;
+let pdfJsPromise: Promise<PdfJsModule> | null = null;
+
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function toChunk(locator: string, label: string | null, text: string): BookTextChunk | null {
+  const normalized = normalizeWhitespace(text).slice(0, MAX_CHUNK_LENGTH);
+  return normalized ? { locator, label, text: normalized } : null;
+}
+
+function flowPointLocator(namespace: 'fb2' | 'txt' | 'html', chapterId: string, blockId: string): string {
+  return [`${namespace}-point`, encodeURIComponent(chapterId), encodeURIComponent(blockId)].join('|');
+}
+
+function stripUtf8Bom(value: string): string {
+  return value.charCodeAt(0) === 0xfeff ? value.slice(1) : value;
+}
+
+function tryDecode(buffer: Buffer, encoding: string, fatal = true): string | null {
+  try {
+    return stripUtf8Bom(new TextDecoder(encoding, { fatal }).decode(buffer));
+  } catch {
+    return null;
+  }
+}
+
+export function decodeTxtBuffer(buffer: Buffer): string {
+  const hasUtf16LeBom = buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe;
+  const hasUtf16BeBom = buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff;
+
+  if (hasUtf16LeBom) {
+    return tryDecode(buffer, 'utf-16le', false) ?? tryDecode(buffer, 'utf-8', true) ?? buffer.toString('utf8');
+  }
+
+  if (hasUtf16BeBom) {
+    return tryDecode(buffer, 'utf-16be', false) ?? tryDecode(buffer, 'utf-8', true) ?? buffer.toString('utf8');
+  }
+
+  return (
+    tryDecode(buffer, 'utf-8', true) ??
+    tryDecode(buffer, 'windows-1251', false) ??
+    tryDecode(buffer, 'koi8-r', false) ??
+    tryDecode(buffer, 'utf-16le', false) ??
+    stripUtf8Bom(buffer.toString('utf8'))
+  );
+}
+
+// Paragraph splitting mirrors parseTxtDocument so block ids match the TXT reader.
+export function splitTxtParagraphs(content: string): string[] {
+  const normalized = content.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, '').trim();
+  return normalized ? normalized.split(/\n\s*\n+/).map((paragraph) => paragraph.trim()).filter(Boolean) : [];
+}
+
+function extractTxtText(content: string): BookTextChunk[] {
+  return splitTxtParagraphs(content)
+    .map((paragraph, index) => toChunk(flowPointLocator('txt', 'txt-chapter-0', `txt-block-0-${index}`), null, paragraph))
+    .filter((chunk): chunk is BookTextChunk => Boolean(chunk));
+}
+
+function rendersFb2Markup(element: XmlTreeElement): boolean {
+  return element.children.some((child) =>
+    typeof child === 'string' ? child.trim().length > 0 : FB2_INLINE_ELEMENTS.has(child.name) || rendersFb2Markup(child)
+  );
+}
+
+export type Fb2BlockLocation = {
+  chapterId: string;
+  blockId: string;
+  chapterTitle: string;
+};
+
+// The walk mirrors renderSection in src/lib/fb2.ts: block ids are only consumed by paragraph-like elements that render.
+function visitFb2Section(
+  section: XmlTreeElement,
+  chapterIndex: number,
+  chapterTitle: string,
+  counter: { value: number },
+  visit: (block: XmlTreeElement, location: Fb2BlockLocation) => void
+) {
+  const paragraph = (element: XmlTreeElement) => {
+    if (!normalizeWhitespace(treeText(element)) && !rendersFb2Markup(element)) {
+      return;
+    }
+    const blockId = `fb2-block-${chapterIndex}-${counter.value}`;
+    counter.value += 1;
+    visit(element, { chapterId: `fb2-chapter-${chapterIndex}`, blockId, chapterTitle });
+  };
+
+  for (const child of childElements(section)) {
+    if (child.name === 'epigraph' || child.name === 'cite') {
+      childElements(child).forEach(paragraph);
+    } else if (child.name === 'poem') {
+      for (const stanza of childElements(child, 'stanza')) {
+        childElements(stanza)
+          .filter((line) => line.name === 'v' || line.name === 'subtitle')
+          .forEach(paragraph);
+      }
+      const author = childElements(child, 'text-author')[0];
+      if (author) {
+        paragraph(author);
+      }
+    } else if (child.name === 'subtitle' || child.name === 'text-author' || child.name === 'p') {
+      paragraph(child);
+    } else if (child.name === 'section') {
+      visitFb2Section(child, chapterIndex, chapterTitle, counter, visit);
+    }
+  }
+}
+
+export function forEachFb2Block(xml: string, visit: (block: XmlTreeElement, location: Fb2BlockLocation) => void) {
+  const root = childElements(parseXmlTree(xml))[0];
+  if (!root) {
+    return;
+  }
+
+  const chapterSections = childElements(root, 'body').flatMap((body) => {
+    const sections = childElements(body, 'section');
+    return sections.length > 0 ? sections : [body];
+  });
+
+  chapterSections.forEach((section, chapterIndex) => {
+    const titleNode = childElements(section, 'title')[0];
+    const chapterTitle = (titleNode ? normalizeWhitespace(treeText(titleNode)) : '') || `Chapter ${chapterIndex + 1}`;
+    visitFb2Section(section, chapterIndex, chapterTitle, { value: 0 }, visit);
+  });
+}
+
+function extractFb2Text(xml: string): BookTextChunk[] {
+  const chunks: BookTextChunk[] = [];
+  forEachFb2Block(xml, (block, location) => {
+    const chunk = toChunk(flowPointLocator('fb2', location.chapterId, location.blockId), location.chapterTitle, treeText(block));
+    if (chunk) {
+      chunks.push(chunk);
+    }
+  });
+  return chunks;
+}
+
+// Block ids follow the order the flow reader renders them in, see src/lib/book-document.ts.
+function extractDocumentText(document: BookDocument): BookTextChunk[] {
+  return document.chapters.flatMap((chapter, chapterIndex) =>
+    chapter.blocks
+      .map((block, blockIndex) =>
+        toChunk(
+          flowPointLocator('html', `html-chapter-${chapterIndex}`, `html-block-${chapterIndex}-${blockIndex}`),
+          chapter.title,
+          block.text
+        )
+      )
+      .filter((chunk): chunk is BookTextChunk => Boolean(chunk))
+  );
+}
+
+function escapeCfiAssertion(value: string): string {
+  return value.replace(/[\[\]^,;()]/g, '^$&');
+}
+
+export function cfiStep(position: number, element: XmlTreeElement): string {
+  const id = getAttribute(element.attributes, 'id');
+  return `/${(position + 1) * 2}${id ? `[${escapeCfiAssertion(id)}]` : ''}`;
+}
+
+function hasDirectText(element: XmlTreeElement): boolean {
+  return element.children.some((child) => typeof child === 'string' && child.trim().length > 0);
+}
+
+// Every block-level element becomes one chunk addressed by an element CFI inside its spine item.
+function collectEpubBlocks(
+  element: XmlTreeElement,
+  path: string,
+  cfiBase: string,
+  state: { heading: string | null },
+  chunks: BookTextChunk[]
+) {
+  for (const [position, child] of childElements(element).entries()) {
+    if (child.name === 'script' || child.name === 'style') {
+      continue;
+    }
+
+    const childPath = `${path}${cfiStep(position, child)}`;
+    if (EPUB_BLOCK_ELEMENTS.has(child.name) || hasDirectText(child)) {
+      const text = treeText(child);
+      if (EPUB_HEADING_ELEMENTS.has(child.name)) {
+        state.heading = normalizeWhitespace(text).slice(0, 200) || state.heading;
+      }
+      const chunk = toChunk(`epubcfi(${cfiBase}!${childPath})`, state.heading, text);
+      if (chunk) {
+        chunks.push(chunk);
+      }
+      continue;
+    }
+
+    collectEpubBlocks(child, childPath, cfiBase, state, chunks);
+  }
+}
+
+export type EpubSpineDocument = {
+  // Package-level part of the CFI, before the "!" indirection.
+  cfiBase: string;
+  body: XmlTreeElement;
+  bodyPath: string;
+};
+
+export async function forEachEpubSpineDocument(filePath: string, visit: (document: EpubSpineDocument) => void) {
+  const archive = await openZipArchive(filePath);
+  const epubPackage = await readEpubPackage(archive);
+  const packageElement = epubPackage ? childElements(parseXmlTree(epubPackage.opf), 'package')[0] : undefined;
+  if (!epubPackage || !packageElement) {
+    return;
+  }
+
+  const manifest = new Map(
+    childElements(packageElement, 'manifest')
+      .flatMap((element) => childElements(element, 'item'))
+      .map((item) => [
+        getAttribute(item.attributes, 'id') ?? '',
+        { href: getAttribute(item.attributes, 'href') ?? '', mediaType: getAttribute(item.attributes, 'media-type') ?? '' }
+      ])
+  );
+  const spine = childElements(packageElement, 'spine')[0];
+  if (!spine) {
+    return;
+  }
+
+  const itemrefs = childElements(spine, 'itemref');
+  const spineStep = cfiStep(childElements(packageElement).indexOf(spine), spine);
+  for (const [spineIndex, itemref] of itemrefs.entries()) {
+    const idref = getAttribute(itemref.attributes, 'idref') ?? '';
+    const item = manifest.get(idref);
+    if (!item?.href || !EPUB_CONTENT_TYPES.has(item.mediaType)) {
+      continue;
+    }
+
+    const content = await archive.readEntry(resolveEpubHref(epubPackage.opfPath, item.href));
+    const html = content ? childElements(parseXmlTree(decodeXmlBuffer(content)), 'html')[0] : undefined;
+    const body = html ? childElements(html, 'body')[0] : undefined;
+    if (!html || !body) {
+      continue;
+    }
+
+    visit({
+      cfiBase: `${spineStep}/${(spineIndex + 1) * 2}[${escapeCfiAssertion(idref)}]`,
+      body,
+      bodyPath: cfiStep(childElements(html).indexOf(body), body)
+    });
+  }
+}
+
+async function extractEpubText(filePath: string): Promise<BookTextChunk[]> {
+  const chunks: BookTextChunk[] = [];
+  await forEachEpubSpineDocument(filePath, ({ cfiBase, body, bodyPath }) => {
+    collectEpubBlocks(body, bodyPath, cfiBase, { heading: null }, chunks);
+  });
+  return chunks;
+}
+
+function loadPdfJs(): Promise<PdfJsModule> {
+  pdfJsPromise ??= importEsModule(pathToFileURL(require.resolve('pdfjs-dist/legacy/build/pdf.mjs')).href) as Promise<PdfJsModule>;
+  return pdfJsPromise;
+}
+
+export async function forEachPdfPage(
+  filePath: string,
+  visit: (pageNumber: number, items: PdfTextItem[], viewport: PdfViewport) => void
+) {
+  const pdfjs = await loadPdfJs();
+  const data = new Uint8Array(await fs.readFile(filePath));
+  const document = await pdfjs.getDocument({ data, isEvalSupported: false, disableFontFace: true, verbosity: 0 }).promise;
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber += 1) {
+      const page = await document.getPage(pageNumber);
+      const { items } = await page.getTextContent();
+      visit(pageNumber, items, page.getViewport({ scale: 1 }));
+      page.cleanup();
+    }
+  } finally {
+    await document.destroy();
+  }
+}
+
+async function extractPdfText(filePath: string): Promise<BookTextChunk[]> {
+  const chunks: BookTextChunk[] = [];
+  await forEachPdfPage(filePath, (pageNumber, items) => {
+    const text = items.map((item) => `${item.str ?? ''}${item.hasEOL ? '\n' : ''}`).join(' ');
+    const chunk = toChunk(String(pageNumber), null, text);
+    if (chunk) {
+      chunks.push(chunk);
+    }
+  });
+  return chunks;
+}
+
+export async function extractBookText(filePath: string, format: BookFormat): Promise<BookTextChunk[]> {
+  if (format === 'pdf') {
+    return extractPdfText(filePath);
+  }
+  if (format === 'epub') {
+    return extractEpubText(filePath);
+  }
+  if (format === 'fb2') {
+    return extractFb2Text(decodeXmlBuffer(await fs.readFile(filePath)));
+  }
+  if (format === 'cbz') {
+    return [];
+  }
+  if (isDocumentBookFormat(format)) {
+    return extractDocumentText(await loadBookDocument(filePath, format));
+  }
+  return extractTxtText(decodeTxtBuffer(await fs.readFile(filePath)));
+}
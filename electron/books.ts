@@ -6,11 +6,16 @@ import type Database from 'better-sqlite3';
 import type {
   Book,
   BookFormat,
+  ReadingStatus,
   BooksAddSampleResult,
   BooksDeleteRequest,
   BooksDeleteResult,
   BooksGetEpubDataRequest,
   BooksGetEpubDataResult,
+  BooksGetComicPagesRequest,
+  BooksGetComicPagesResult,
+  BooksGetDocumentDataRequest,
+  BooksGetDocumentDataResult,
   BooksGetFb2DataRequest,
   BooksGetFb2DataResult,
   BooksGetPdfDataRequest,
@@ -20,18 +25,54 @@ import type {
   BooksImportResult,
   BooksRevealRequest,
   BooksRevealResult,
-  BooksListResult
+  BooksListResult,
+  BooksSetStatusRequest,
+  BooksSetStatusResult,
+  BooksApplyMetadataMatchRequest,
+  BooksSearchMetadataMatchesRequest,
+  BooksSearchMetadataMatchesResult,
+  BooksUpdateMetadataRequest,
+  BooksUpdateMetadataResult,
+  BooksUpdateTagsRequest,
+  BooksUpdateTagsResult
 } from '../shared/ipc';
-import { enrichBookInBackground, enrichBooksInBackground, hydrateBooksWithCachedMetadata } from './openLibraryMetadata';
+import { READING_STATUSES } from '../shared/ipc';
+import { findBookByContentHash, hashBookFile, hashLibraryInBackground, saveBookContentHash } from './book-hash';
+import { isDocumentBookFormat, loadBookDocument } from './book-document';
+import { decodeTxtBuffer } from './book-text';
+import { listCollectionIdsByBook } from './collections';
+import { assertReadableComicArchive, readComicPages } from './comic';
+import { COMPRESSED_BOOK_EXTENSIONS, isCompressedBookPath, unpackCompressedBook, type UnpackedBook } from './compressed-book';
+import {
+  hydrateBooksMetadata,
+  normalizeMetadataInput,
+  readBookMetadataOverride,
+  resolveMetadataMatch,
+  searchMetadataMatches,
+  writeBookMetadataOverride
+} from './book-metadata';
+import {
+  extractEmbeddedMetadata,
+  extractFileMetadataInBackground,
+  saveEmbeddedCover,
+  writeBookFileMetadata
+} from './embedded-metadata';
+import { deleteBookTextIndex, indexLibraryTextInBackground, queueBookTextIndex } from './library-search';
+import { readMobiHeader } from './mobi';
+import { enrichBookInBackground, enrichBooksInBackground } from './openLibraryMetadata';
+import { decodeXmlBuffer } from './xml';
 
 type BookRow = {
   id: string;
   user_id: string;
   title: string;
   author: string | null;
-  format: 'pdf' | 'epub' | 'fb2' | 'txt';
+  format: BookFormat;
   file_path: string | null;
   created_at: number;
+  status: ReadingStatus;
+  started_at: number | null;
+  finished_at: number | null;
 };
 
 function toBook(row: BookRow): Book {
@@ -41,10 +82,86 @@ function toBook(row: BookRow): Book {
     author: row.author,
     format: row.format,
     filePath: row.file_path,
-    createdAt: row.created_at
+    createdAt: row.created_at,
+    status: row.status,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at
   };
 }
 
+const MAX_TAG_LENGTH = 40;
+
+function normalizeTags(values: unknown): string[] {
+  if (!Array.isArray(values)) {
+    return [];
+  }
+
+  const tags = new Map<string, string>();
+  for (const value of values) {
+    if (typeof value !== 'string') {
+      continue;
+    }
+    const tag = value.replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+    if (tag && !tags.has(tag.toLocaleLowerCase())) {
+      tags.set(tag.toLocaleLowerCase(), tag);
+    }
+  }
+  return [...tags.values()];
+}
+
+function listTagsByBook(db: Database.Database, userId: string): Map<string, string[]> {
+  const rows = db
+    .prepare(
+      `SELECT bt.book_id, bt.tag
+       FROM book_tags bt
+       JOIN books b ON b.id = bt.book_id
+       WHERE b.user_id = ?
+       ORDER BY bt.tag COLLATE NOCASE ASC`
+    )
+    .all(userId) as Array<{ book_id: string; tag: string }>;
+
+  const byBook = new Map<string, string[]>();
+  for (const row of rows) {
+    const tags = byBook.get(row.book_id) ?? [];
+    tags.push(row.tag);
+    byBook.set(row.book_id, tags);
+  }
+  return byBook;
+}
+
+function withTagsAndCollections(db: Database.Database, userId: string, books: Book[]): Book[] {
+  const tagsByBook = listTagsByBook(db, userId);
+  const collectionIdsByBook = listCollectionIdsByBook(db, userId);
+  return books.map((book) => ({
+    ...book,
+    tags: tagsByBook.get(book.id) ?? [],
+    collectionIds: collectionIdsByBook.get(book.id) ?? []
+  }));
+}
+
+function hydrateBooks(db: Database.Database, userId: string, books: Book[]): Book[] {
+  return withTagsAndCollections(db, userId, hydrateBooksMetadata(db, userId, books));
+}
+
+export const SUPPORTED_BOOK_EXTENSIONS = [
+  'pdf',
+  'epub',
+  'fb2',
+  'txt',
+  'cbz',
+  'cbr',
+  'mobi',
+  'azw',
+  'azw3',
+  'prc',
+  'html',
+  'htm',
+  'xhtml',
+  'md',
+  'markdown',
+  ...COMPRESSED_BOOK_EXTENSIONS
+];
+
 function extensionToFormat(fileExtension: string): BookFormat | null {
   const ext = fileExtension.toLowerCase();
   if (ext === '.pdf') {
@@ -59,106 +176,43 @@ function extensionToFormat(fileExtension: string): BookFormat | null {
   if (ext === '.txt') {
     return 'txt';
   }
-  return null;
-}
-
-function getImportedBookTargetPaths(userDataPath: string, bookId: string, format: BookFormat) {
-  const targetDir = path.join(userDataPath, 'books', bookId);
-  const filename = `original.${format}`;
-  return {
-    targetDir,
-    targetPath: path.join(targetDir, filename)
-  };
-}
-
-function detectXmlEncoding(buffer: Buffer): string {
-  const asciiHead = buffer.subarray(0, Math.min(buffer.length, 512)).toString('latin1');
-  const match = asciiHead.match(/encoding\s*=\s*["']([^"']+)["']/i);
-  return match?.[1]?.trim() || 'utf-8';
-}
-
-function decodeXmlBuffer(buffer: Buffer): string {
-  const candidates = [detectXmlEncoding(buffer), 'utf-8', 'windows-1251'];
-  for (const candidate of candidates) {
-    try {
-      return new TextDecoder(candidate, { fatal: false }).decode(buffer);
-    } catch {
-    }
+  if (ext === '.cbz' || ext === '.cbr') {
+    return 'cbz';
   }
-  return buffer.toString('utf8');
-}
-
-function stripUtf8Bom(value: string): string {
-  return value.charCodeAt(0) === 0xfeff ? value.slice(1) : value;
-}
-
-function tryDecode(buffer: Buffer, encoding: string, fatal = true): string | null {
-  try {
-    return stripUtf8Bom(new TextDecoder(encoding, { fatal }).decode(buffer));
-  } catch {
-    return null;
+  if (ext === '.mobi' || ext === '.azw' || ext === '.azw3' || ext === '.prc') {
+    return 'mobi';
   }
-}
-
-function decodeTxtBuffer(buffer: Buffer): string {
-  const hasUtf16LeBom = buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe;
-  const hasUtf16BeBom = buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff;
-
-  if (hasUtf16LeBom) {
-    return tryDecode(buffer, 'utf-16le', false) ?? tryDecode(buffer, 'utf-8', true) ?? buffer.toString('utf8');
+  if (ext === '.html' || ext === '.htm' || ext === '.xhtml') {
+    return 'html';
   }
-
-  if (hasUtf16BeBom) {
-    return tryDecode(buffer, 'utf-16be', false) ?? tryDecode(buffer, 'utf-8', true) ?? buffer.toString('utf8');
+  if (ext === '.md' || ext === '.markdown') {
+    return 'md';
   }
-
-  return (
-    tryDecode(buffer, 'utf-8', true) ??
-    tryDecode(buffer, 'windows-1251', false) ??
-    tryDecode(buffer, 'koi8-r', false) ??
-    tryDecode(buffer, 'utf-16le', false) ??
-    stripUtf8Bom(buffer.toString('utf8'))
-  );
-}
-
-function decodeXmlEntities(value: string): string {
-  return value
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&amp;/g, '&');
-}
-
-function stripXml(value: string): string {
-  return decodeXmlEntities(value.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim());
+  return null;
 }
 
-function extractTagContent(source: string, tagName: string): string | null {
-  const match = source.match(new RegExp(`<${tagName}\\b[^>]*>([\\s\\S]*?)</${tagName}>`, 'i'));
-  if (!match?.[1]) {
+// Rejects files that would import fine but could never be opened, such as DRM-protected MOBI books.
+async function validateBookFile(sourcePath: string, format: BookFormat): Promise<string | null> {
+  try {
+    if (format === 'cbz') {
+      await assertReadableComicArchive(sourcePath);
+    }
+    if (format === 'mobi') {
+      await readMobiHeader(sourcePath);
+    }
     return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'The file could not be read.';
   }
-  const normalized = stripXml(match[1]);
-  return normalized || null;
 }
 
-function extractFb2Metadata(xml: string): { title: string | null; author: string | null } {
-  const titleInfoMatch = xml.match(/<title-info\b[^>]*>([\s\S]*?)<\/title-info>/i);
-  const titleInfo = titleInfoMatch?.[1] ?? xml;
-  const title = extractTagContent(titleInfo, 'book-title');
-
-  const authorMatch = titleInfo.match(/<author\b[^>]*>([\s\S]*?)<\/author>/i);
-  const authorMarkup = authorMatch?.[1] ?? '';
-  const authorParts = [
-    extractTagContent(authorMarkup, 'first-name'),
-    extractTagContent(authorMarkup, 'middle-name'),
-    extractTagContent(authorMarkup, 'last-name')
-  ].filter((part): part is string => Boolean(part));
-  const nickname = extractTagContent(authorMarkup, 'nickname');
-  const author = authorParts.join(' ').trim() || nickname || null;
-
-  return { title, author };
+function getImportedBookTargetPaths(userDataPath: string, bookId: string, format: BookFormat) {
+  const targetDir = path.join(userDataPath, 'books', bookId);
+  const filename = `original.${format}`;
+  return {
+    targetDir,
+    targetPath: path.join(targetDir, filename)
+  };
 }
 
 async function pathExists(targetPath: string): Promise<boolean> {
@@ -173,15 +227,18 @@ async function pathExists(targetPath: string): Promise<boolean> {
 export function listBooks(db: Database.Database, userId: string): BooksListResult {
   const rows = db
     .prepare(
-      `SELECT id, user_id, title, author, format, file_path, created_at
+      `SELECT id, user_id, title, author, format, file_path, created_at, status, started_at, finished_at
        FROM books
        WHERE user_id = ?
        ORDER BY created_at DESC`
     )
     .all(userId) as BookRow[];
 
-  const books = hydrateBooksWithCachedMetadata(db, rows.map(toBook));
+  const books = hydrateBooks(db, userId, rows.map(toBook));
   enrichBooksInBackground(db, books);
+  extractFileMetadataInBackground(db, userId);
+  indexLibraryTextInBackground(db, userId);
+  void hashLibraryInBackground(db, userId);
 
   return {
     ok: true,
@@ -206,7 +263,8 @@ export function addSampleBook(
     author: null,
     format,
     filePath: null,
-    createdAt: now
+    createdAt: now,
+    status: 'want-to-read'
   };
 
   db.prepare(
@@ -217,21 +275,20 @@ export function addSampleBook(
   return { ok: true, book };
 }
 
-export async function importBook(
-  db: Database.Database,
-  userId: string,
-  userDataPath: string,
-  ownerWindow: BrowserWindow | null
-): Promise<BooksImportResult> {
+export async function chooseBookFiles(ownerWindow: BrowserWindow | null): Promise<string[] | null> {
   const dialogOptions: OpenDialogOptions = {
-    title: 'Import book',
-    properties: ['openFile'],
+    title: 'Import books',
+    properties: ['openFile', 'multiSelections'],
     filters: [
-      { name: 'Books', extensions: ['pdf', 'epub', 'fb2', 'txt'] },
+      { name: 'Books', extensions: SUPPORTED_BOOK_EXTENSIONS },
       { name: 'PDF', extensions: ['pdf'] },
       { name: 'EPUB', extensions: ['epub'] },
       { name: 'FB2', extensions: ['fb2'] },
-      { name: 'TXT', extensions: ['txt'] }
+      { name: 'TXT', extensions: ['txt'] },
+      { name: 'Comics', extensions: ['cbz', 'cbr'] },
+      { name: 'Kindle', extensions: ['mobi', 'azw', 'azw3', 'prc'] },
+      { name: 'Documents', extensions: ['html', 'htm', 'xhtml', 'md', 'markdown'] },
+      { name: 'Archives', extensions: COMPRESSED_BOOK_EXTENSIONS }
     ]
   };
 
@@ -239,75 +296,344 @@ export async function importBook(
     ? await dialog.showOpenDialog(ownerWindow, dialogOptions)
     : await dialog.showOpenDialog(dialogOptions);
 
-  if (pickerResult.canceled || pickerResult.filePaths.length === 0) {
-    return { ok: false, error: 'Import canceled.' };
+  return pickerResult.canceled || pickerResult.filePaths.length === 0 ? null : pickerResult.filePaths;
+}
+
+type ImportMetadata = {
+  title?: string | null;
+  author?: string | null;
+};
+
+// Compressed books (.fb2.zip, a .zip holding one book, gzip'd text) are imported as the file they contain.
+export async function importBookFromPath(
+  db: Database.Database,
+  userId: string,
+  userDataPath: string,
+  sourcePath: string,
+  metadata: ImportMetadata = {}
+): Promise<BooksImportResult> {
+  if (!isCompressedBookPath(sourcePath)) {
+    return importBookFile(db, userId, userDataPath, sourcePath, metadata);
   }
 
-  const sourcePath = pickerResult.filePaths[0];
-  return importBookFromPath(db, userId, userDataPath, sourcePath);
+  let unpacked: UnpackedBook;
+  try {
+    unpacked = await unpackCompressedBook(sourcePath, (name) => extensionToFormat(path.extname(name)) !== null);
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'The archive could not be read.' };
+  }
+
+  try {
+    return await importBookFile(db, userId, userDataPath, unpacked.filePath, metadata);
+  } finally {
+    await unpacked.cleanup().catch(() => undefined);
+  }
 }
 
-export async function importBookFromPath(
+async function importBookFile(
   db: Database.Database,
   userId: string,
   userDataPath: string,
   sourcePath: string,
-  metadata: {
-    title?: string | null;
-    author?: string | null;
-  } = {}
+  metadata: ImportMetadata
 ): Promise<BooksImportResult> {
   const sourceExtension = path.extname(sourcePath);
   const format = extensionToFormat(sourceExtension);
   if (!format) {
-    return { ok: false, error: 'Unsupported file type. Please choose a PDF, EPUB, FB2, or TXT file.' };
+    return {
+      ok: false,
+      error: 'Unsupported file type. Please choose a PDF, EPUB, FB2, TXT, CBZ, MOBI, AZW3, HTML or Markdown file.'
+    };
+  }
+
+  const invalidReason = await validateBookFile(sourcePath, format);
+  if (invalidReason) {
+    return { ok: false, error: invalidReason };
+  }
+
+  // The same file imported again from any source resolves to the book that is already in the library.
+  // Books still waiting for the library pass are matched by the duplicate scan later on.
+  void hashLibraryInBackground(db, userId);
+  const contentHash = await hashBookFile(sourcePath).catch(() => null);
+  const duplicate = contentHash ? readBookRow(db, userId, findBookByContentHash(db, userId, contentHash)?.id) : undefined;
+  if (duplicate) {
+    return { ok: true, book: hydrateBooks(db, userId, [toBook(duplicate)])[0], duplicate: true };
   }
 
   const bookId = randomUUID();
   const now = Date.now();
   const { targetDir, targetPath } = getImportedBookTargetPaths(userDataPath, bookId, format);
-  let titleFromFile = metadata.title?.trim() || path.basename(sourcePath, sourceExtension).trim();
-  let authorFromFile: string | null = metadata.author?.trim() || null;
+  const fallbackTitle = metadata.title?.trim() || path.basename(sourcePath, sourceExtension).trim();
 
   try {
     await fs.mkdir(targetDir, { recursive: true });
     await fs.copyFile(sourcePath, targetPath);
-    if (format === 'fb2') {
-      const fileBuffer = await fs.readFile(sourcePath);
-      const xml = decodeXmlBuffer(fileBuffer);
-      const metadata = extractFb2Metadata(xml);
-      if (metadata.title) {
-        titleFromFile = metadata.title;
-      }
-      authorFromFile = metadata.author ?? authorFromFile;
-    }
   } catch {
     return { ok: false, error: 'Failed to copy the selected file.' };
   }
 
+  const embedded = await extractEmbeddedMetadata(targetPath, format);
+  const coverPath = await saveEmbeddedCover(targetDir, embedded.cover);
   const book: Book = {
     id: bookId,
-    title: titleFromFile || `Imported ${format.toUpperCase()}`,
-    author: authorFromFile,
+    title: embedded.title || fallbackTitle || `Imported ${format.toUpperCase()}`,
+    author: embedded.authors.length > 0 ? embedded.authors.join(', ') : metadata.author?.trim() || null,
     format,
     filePath: targetPath,
-    createdAt: now
+    createdAt: now,
+    status: 'want-to-read'
   };
 
   try {
-    db.prepare(
-      `INSERT INTO books (id, user_id, title, author, format, file_path, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`
-    ).run(book.id, userId, book.title, book.author, book.format, book.filePath, book.createdAt);
+    db.transaction(() => {
+      db.prepare(
+        `INSERT INTO books (id, user_id, title, author, format, file_path, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).run(book.id, userId, book.title, book.author, book.format, book.filePath, book.createdAt);
+      writeBookFileMetadata(db, book.id, embedded, coverPath);
+      if (contentHash) {
+        saveBookContentHash(db, book.id, contentHash);
+      }
+    })();
   } catch {
     return { ok: false, error: 'Failed to save imported book metadata.' };
   }
 
-  enrichBookInBackground(db, book);
+  const importedBook = hydrateBooks(db, userId, [book])[0];
+  enrichBookInBackground(db, importedBook);
+  queueBookTextIndex(db, importedBook.id);
+
+  return { ok: true, book: importedBook, duplicate: false };
+}
+
+export function setBookStatus(
+  db: Database.Database,
+  userId: string,
+  payload: BooksSetStatusRequest
+): BooksSetStatusResult {
+  const bookId = payload.bookId?.trim();
+  if (!bookId) {
+    return { ok: false, error: 'Book not found' };
+  }
+  if (!READING_STATUSES.includes(payload.status)) {
+    return { ok: false, error: 'Unknown reading status.' };
+  }
+
+  const now = Date.now();
+  // "Want to read" resets the timeline; every other status keeps the first start date.
+  // Finishing keeps an earlier finish date so re-marking a finished book does not move it to another year.
+  if (payload.status === 'want-to-read') {
+    db.prepare(
+      `UPDATE books
+       SET status = 'want-to-read', started_at = NULL, finished_at = NULL
+       WHERE id = ? AND user_id = ?`
+    ).run(bookId, userId);
+  } else if (payload.status === 'finished') {
+    db.prepare(
+      `UPDATE books
+       SET status = 'finished',
+           started_at = COALESCE(started_at, ?),
+           finished_at = CASE WHEN status = 'finished' THEN COALESCE(finished_at, ?) ELSE ? END
+       WHERE id = ? AND user_id = ?`
+    ).run(now, now, now, bookId, userId);
+  } else {
+    db.prepare(
+      `UPDATE books
+       SET status = ?, started_at = COALESCE(started_at, ?), finished_at = NULL
+       WHERE id = ? AND user_id = ?`
+    ).run(payload.status, now, bookId, userId);
+  }
+
+  const row = db
+    .prepare(
+      `SELECT id, user_id, title, author, format, file_path, created_at, status, started_at, finished_at
+       FROM books
+       WHERE id = ? AND user_id = ?
+       LIMIT 1`
+    )
+    .get(bookId, userId) as BookRow | undefined;
+
+  if (!row) {
+    return { ok: false, error: 'Book not found' };
+  }
+
+  return { ok: true, book: hydrateBooks(db, userId, [toBook(row)])[0] };
+}
+
+export function promoteBookToReading(db: Database.Database, userId: string, bookId: string, openedAt: number): void {
+  db.prepare(
+    `UPDATE books
+     SET status = 'reading', started_at = COALESCE(started_at, ?)
+     WHERE id = ? AND user_id = ? AND status = 'want-to-read'`
+  ).run(openedAt, bookId, userId);
+}
+
+export function updateBookTags(
+  db: Database.Database,
+  userId: string,
+  payload: BooksUpdateTagsRequest
+): BooksUpdateTagsResult {
+  const requestedIds = Array.isArray(payload?.bookIds)
+    ? payload.bookIds.filter((bookId): bookId is string => typeof bookId === 'string' && bookId.trim().length > 0)
+    : [];
+  if (requestedIds.length === 0) {
+    return { ok: false, error: 'Book not found' };
+  }
+
+  const tagsToAdd = normalizeTags(payload.add);
+  const tagsToRemove = normalizeTags(payload.remove);
+  const selectBook = db.prepare(
+    `SELECT id, user_id, title, author, format, file_path, created_at, status, started_at, finished_at
+     FROM books
+     WHERE id = ? AND user_id = ?
+     LIMIT 1`
+  );
+  const rows = [...new Set(requestedIds.map((bookId) => bookId.trim()))]
+    .map((bookId) => selectBook.get(bookId, userId) as BookRow | undefined)
+    .filter((row): row is BookRow => Boolean(row));
+  if (rows.length === 0) {
+    return { ok: false, error: 'Book not found' };
+  }
 
+  const now = Date.now();
+  const insertTag = db.prepare('INSERT OR IGNORE INTO book_tags (book_id, tag, created_at) VALUES (?, ?, ?)');
+  const deleteTag = db.prepare('DELETE FROM book_tags WHERE book_id = ? AND tag = ?');
+  db.transaction(() => {
+    for (const row of rows) {
+      for (const tag of tagsToRemove) {
+        deleteTag.run(row.id, tag);
+      }
+      for (const tag of tagsToAdd) {
+        insertTag.run(row.id, tag, now);
+      }
+    }
+  })();
+
+  return {
+    ok: true,
+    books: hydrateBooks(db, userId, rows.map(toBook))
+  };
+}
+
+function readBookRow(db: Database.Database, userId: string, bookId: string | undefined): BookRow | undefined {
+  if (!bookId) {
+    return undefined;
+  }
+
+  return db
+    .prepare(
+      `SELECT id, user_id, title, author, format, file_path, created_at, status, started_at, finished_at
+       FROM books
+       WHERE id = ? AND user_id = ?
+       LIMIT 1`
+    )
+    .get(bookId, userId) as BookRow | undefined;
+}
+
+export function updateBookMetadata(
+  db: Database.Database,
+  userId: string,
+  payload: BooksUpdateMetadataRequest
+): BooksUpdateMetadataResult {
+  const row = readBookRow(db, userId, payload?.bookId?.trim());
+  if (!row) {
+    return { ok: false, error: 'Book not found' };
+  }
+
+  const metadata = normalizeMetadataInput(payload.metadata);
+  if (!metadata) {
+    return { ok: false, error: 'Title is required.' };
+  }
+
+  const existing = readBookMetadataOverride(db, row.id);
+  const author = metadata.authors.length > 0 ? metadata.authors.join(', ') : null;
+  db.transaction(() => {
+    db.prepare('UPDATE books SET title = ?, author = ? WHERE id = ? AND user_id = ?').run(metadata.title, author, row.id, userId);
+    writeBookMetadataOverride(db, row.id, {
+      subtitle: metadata.subtitle,
+      authors: metadata.authors,
+      series: metadata.series,
+      seriesIndex: metadata.seriesIndex,
+      publishYear: metadata.publishYear,
+      language: metadata.language,
+      description: metadata.description,
+      subjects: metadata.subjects,
+      coverUrl: existing?.coverUrl ?? null,
+      workId: existing?.workId ?? null,
+      editionId: existing?.editionId ?? null,
+      isbn: existing?.isbn ?? null,
+      locked: payload.locked === true
+    });
+  })();
+
+  const book = hydrateBooks(db, userId, [toBook({ ...row, title: metadata.title, author })])[0];
+  enrichBookInBackground(db, book);
   return { ok: true, book };
 }
 
+export async function searchBookMetadataMatches(
+  db: Database.Database,
+  userId: string,
+  payload: BooksSearchMetadataMatchesRequest
+): Promise<BooksSearchMetadataMatchesResult> {
+  const row = readBookRow(db, userId, payload?.bookId?.trim());
+  if (!row) {
+    return { ok: false, error: 'Book not found' };
+  }
+
+  const title = payload.title?.trim() || row.title;
+  const author = payload.author === undefined ? row.author : payload.author?.trim() || null;
+
+  try {
+    return { ok: true, matches: await searchMetadataMatches(title, author) };
+  } catch {
+    return { ok: false, error: 'Failed to search Open Library.' };
+  }
+}
+
+export async function applyBookMetadataMatch(
+  db: Database.Database,
+  userId: string,
+  payload: BooksApplyMetadataMatchRequest
+): Promise<BooksUpdateMetadataResult> {
+  const bookId = payload?.bookId?.trim();
+  if (!readBookRow(db, userId, bookId) || !payload.match) {
+    return { ok: false, error: 'Book not found' };
+  }
+
+  const resolved = await resolveMetadataMatch(payload.match);
+  // Re-read after the network round trip so a concurrent delete is not resurrected.
+  const row = readBookRow(db, userId, bookId);
+  if (!row) {
+    return { ok: false, error: 'Book not found' };
+  }
+
+  const existing = readBookMetadataOverride(db, row.id);
+  const title = resolved.title ?? row.title;
+  const authors = resolved.author ? [resolved.author] : existing?.authors ?? [];
+  const author = authors.length > 0 ? authors.join(', ') : row.author;
+  db.transaction(() => {
+    db.prepare('UPDATE books SET title = ?, author = ? WHERE id = ? AND user_id = ?').run(title, author, row.id, userId);
+    writeBookMetadataOverride(db, row.id, {
+      subtitle: resolved.subtitle,
+      authors,
+      series: existing?.series ?? null,
+      seriesIndex: existing?.seriesIndex ?? null,
+      publishYear: resolved.publishYear,
+      language: existing?.language ?? null,
+      description: resolved.description,
+      subjects: resolved.subjects,
+      coverUrl: resolved.coverUrl,
+      workId: resolved.workId,
+      editionId: resolved.editionId,
+      isbn: resolved.isbn,
+      locked: true
+    });
+  })();
+
+  return { ok: true, book: hydrateBooks(db, userId, [toBook({ ...row, title, author })])[0] };
+}
+
 export async function revealBook(
   db: Database.Database,
   userId: string,
@@ -395,6 +721,14 @@ export async function deleteBook(
   }
 
   db.prepare('DELETE FROM reading_stats WHERE book_id = ?').run(bookId);
+  db.prepare('DELETE FROM reading_sessions WHERE book_id = ? AND user_id = ?').run(bookId, userId);
+  db.prepare('DELETE FROM reading_goals WHERE book_id = ? AND user_id = ?').run(bookId, userId);
+  db.prepare('DELETE FROM book_tags WHERE book_id = ?').run(bookId);
+  db.prepare('DELETE FROM collection_books WHERE book_id = ?').run(bookId);
+  db.prepare('DELETE FROM book_metadata WHERE book_id = ?').run(bookId);
+  db.prepare('DELETE FROM book_file_metadata WHERE book_id = ?').run(bookId);
+  db.prepare('DELETE FROM book_content_hashes WHERE book_id = ?').run(bookId);
+  deleteBookTextIndex(db, bookId);
 
   return { ok: true };
 }
@@ -412,7 +746,7 @@ export async function getPdfData(
   const bookRow = db
     .prepare('SELECT id, title, format, file_path FROM books WHERE id = ? AND user_id = ? LIMIT 1')
     .get(bookId, userId) as
-    | { id: string; title: string; format: 'pdf' | 'epub' | 'fb2' | 'txt'; file_path: string | null }
+    | { id: string; title: string; format: BookFormat; file_path: string | null }
     | undefined;
 
   if (!bookRow) {
@@ -453,7 +787,7 @@ export async function getEpubData(
   const bookRow = db
     .prepare('SELECT id, title, format, file_path FROM books WHERE id = ? AND user_id = ? LIMIT 1')
     .get(bookId, userId) as
-    | { id: string; title: string; format: 'pdf' | 'epub' | 'fb2' | 'txt'; file_path: string | null }
+    | { id: string; title: string; format: BookFormat; file_path: string | null }
     | undefined;
 
   if (!bookRow) {
@@ -494,7 +828,7 @@ export async function getFb2Data(
   const bookRow = db
     .prepare('SELECT id, title, format, file_path FROM books WHERE id = ? AND user_id = ? LIMIT 1')
     .get(bookId, userId) as
-    | { id: string; title: string; format: 'pdf' | 'epub' | 'fb2' | 'txt'; file_path: string | null }
+    | { id: string; title: string; format: BookFormat; file_path: string | null }
     | undefined;
 
   if (!bookRow) {
@@ -535,7 +869,7 @@ export async function getTxtData(
   const bookRow = db
     .prepare('SELECT id, title, format, file_path FROM books WHERE id = ? AND user_id = ? LIMIT 1')
     .get(bookId, userId) as
-    | { id: string; title: string; format: 'pdf' | 'epub' | 'fb2' | 'txt'; file_path: string | null }
+    | { id: string; title: string; format: BookFormat; file_path: string | null }
     | undefined;
 
   if (!bookRow) {
@@ -562,3 +896,83 @@ export async function getTxtData(
     return { ok: false, error: 'Failed to read TXT file from disk.' };
   }
 }
+
+export async function getDocumentData(
+  db: Database.Database,
+  userId: string,
+  payload: BooksGetDocumentDataRequest
+): Promise<BooksGetDocumentDataResult> {
+  const bookId = payload.bookId?.trim();
+  if (!bookId) {
+    return { ok: false, error: 'Book not found' };
+  }
+
+  const bookRow = db
+    .prepare('SELECT id, title, format, file_path FROM books WHERE id = ? AND user_id = ? LIMIT 1')
+    .get(bookId, userId) as
+    | { id: string; title: string; format: BookFormat; file_path: string | null }
+    | undefined;
+
+  if (!bookRow) {
+    return { ok: false, error: 'Book not found' };
+  }
+
+  if (!isDocumentBookFormat(bookRow.format)) {
+    return { ok: false, error: 'Selected book is not a document.' };
+  }
+
+  const documentPath = bookRow.file_path?.trim();
+  if (!documentPath) {
+    return { ok: false, error: 'Document file path is missing.' };
+  }
+
+  try {
+    return {
+      ok: true,
+      document: await loadBookDocument(documentPath, bookRow.format),
+      title: bookRow.title
+    };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Failed to read the document from disk.' };
+  }
+}
+
+export async function getComicPages(
+  db: Database.Database,
+  userId: string,
+  payload: BooksGetComicPagesRequest
+): Promise<BooksGetComicPagesResult> {
+  const bookId = payload.bookId?.trim();
+  if (!bookId) {
+    return { ok: false, error: 'Book not found' };
+  }
+
+  const bookRow = db
+    .prepare('SELECT id, title, format, file_path FROM books WHERE id = ? AND user_id = ? LIMIT 1')
+    .get(bookId, userId) as
+    | { id: string; title: string; format: BookFormat; file_path: string | null }
+    | undefined;
+
+  if (!bookRow) {
+    return { ok: false, error: 'Book not found' };
+  }
+
+  if (bookRow.format !== 'cbz') {
+    return { ok: false, error: 'Selected book is not a comic archive.' };
+  }
+
+  const comicPath = bookRow.file_path?.trim();
+  if (!comicPath) {
+    return { ok: false, error: 'Comic file path is missing.' };
+  }
+
+  try {
+    return {
+      ok: true,
+      pages: await readComicPages(comicPath),
+      title: bookRow.title
+    };
+  } catch {
+    return { ok: false, error: 'Failed to read the comic archive from disk.' };
+  }
+}
@@ -0,0 +1,236 @@
+import { randomUUID } from 'node:crypto';
+import type Database from 'better-sqlite3';
+import type {
+  BookCollection,
+  CollectionsCreateRequest,
+  CollectionsDeleteRequest,
+  CollectionsDeleteResult,
+  CollectionsListResult,
+  CollectionsRenameRequest,
+  CollectionsSaveResult,
+  CollectionsUpdateBooksRequest
+} from '../shared/ipc';
+
+type CollectionRow = {
+  id: string;
+  name: string;
+  book_count: number;
+  created_at: number;
+  updated_at: number;
+};
+
+const MAX_COLLECTION_NAME_LENGTH = 80;
+
+function toCollection(row: CollectionRow): BookCollection {
+  return {
+    id: row.id,
+    name: row.name,
+    bookCount: row.book_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function normalizeCollectionName(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const name = value.replace(/\s+/g, ' ').trim().slice(0, MAX_COLLECTION_NAME_LENGTH);
+  return name.length > 0 ? name : null;
+}
+
+function readCollection(db: Database.Database, userId: string, collectionId: string): BookCollection | null {
+  const row = db
+    .prepare(
+      `SELECT c.id, c.name, c.created_at, c.updated_at,
+              (SELECT COUNT(*)
+               FROM collection_books cb
+               JOIN books b ON b.id = cb.book_id
+               WHERE cb.collection_id = c.id AND b.user_id = c.user_id) AS book_count
+       FROM collections c
+       WHERE c.id = ? AND c.user_id = ?
+       LIMIT 1`
+    )
+    .get(collectionId, userId) as CollectionRow | undefined;
+
+  return row ? toCollection(row) : null;
+}
+
+function filterOwnedBookIds(db: Database.Database, userId: string, bookIds: unknown): string[] {
+  if (!Array.isArray(bookIds)) {
+    return [];
+  }
+
+  const statement = db.prepare('SELECT id FROM books WHERE id = ? AND user_id = ? LIMIT 1');
+  const unique = new Set(
+    bookIds.filter((bookId): bookId is string => typeof bookId === 'string').map((bookId) => bookId.trim())
+  );
+  return [...unique].filter((bookId) => bookId.length > 0 && Boolean(statement.get(bookId, userId)));
+}
+
+export function listCollectionIdsByBook(db: Database.Database, userId: string): Map<string, string[]> {
+  const rows = db
+    .prepare(
+      `SELECT cb.book_id, cb.collection_id
+       FROM collection_books cb
+       JOIN collections c ON c.id = cb.collection_id
+       WHERE c.user_id = ?`
+    )
+    .all(userId) as Array<{ book_id: string; collection_id: string }>;
+
+  const byBook = new Map<string, string[]>();
+  for (const row of rows) {
+    const ids = byBook.get(row.book_id) ?? [];
+    ids.push(row.collection_id);
+    byBook.set(row.book_id, ids);
+  }
+  return byBook;
+}
+
+export function listCollections(db: Database.Database, userId: string): CollectionsListResult {
+  const rows = db
+    .prepare(
+      `SELECT c.id, c.name, c.created_at, c.updated_at,
+              (SELECT COUNT(*)
+               FROM collection_books cb
+               JOIN books b ON b.id = cb.book_id
+               WHERE cb.collection_id = c.id AND b.user_id = c.user_id) AS book_count
+       FROM collections c
+       WHERE c.user_id = ?
+       ORDER BY c.name COLLATE NOCASE ASC, c.created_at ASC`
+    )
+    .all(userId) as CollectionRow[];
+
+  return { ok: true, collections: rows.map(toCollection) };
+}
+
+export function createCollection(
+  db: Database.Database,
+  userId: string,
+  payload: CollectionsCreateRequest
+): CollectionsSaveResult {
+  const name = normalizeCollectionName(payload?.name);
+  if (!name) {
+    return { ok: false, error: 'Collection name is required.' };
+  }
+
+  const id = randomUUID();
+  const now = Date.now();
+  const bookIds = filterOwnedBookIds(db, userId, payload.bookIds);
+  const insertBook = db.prepare(
+    'INSERT OR IGNORE INTO collection_books (collection_id, book_id, added_at) VALUES (?, ?, ?)'
+  );
+
+  db.transaction(() => {
+    db.prepare('INSERT INTO collections (id, user_id, name, created_at, updated_at) VALUES (?, ?, ?, ?, ?)').run(
+      id,
+      userId,
+      name,
+      now,
+      now
+    );
+    for (const bookId of bookIds) {
+      insertBook.run(id, bookId, now);
+    }
+  })();
+
+  const collection = readCollection(db, userId, id);
+  return collection ? { ok: true, collection } : { ok: false, error: 'Failed to create collection.' };
+}
+
+export function renameCollection(
+  db: Database.Database,
+  userId: string,
+  payload: CollectionsRenameRequest
+): CollectionsSaveResult {
+  const collectionId = payload?.id?.trim();
+  const name = normalizeCollectionName(payload?.name);
+  if (!collectionId) {
+    return { ok: false, error: 'Collection not found' };
+  }
+  if (!name) {
+    return { ok: false, error: 'Collection name is required.' };
+  }
+
+  db.prepare('UPDATE collections SET name = ?, updated_at = ? WHERE id = ? AND user_id = ?').run(
+    name,
+    Date.now(),
+    collectionId,
+    userId
+  );
+
+  const collection = readCollection(db, userId, collectionId);
+  return collection ? { ok: true, collection } : { ok: false, error: 'Collection not found' };
+}
+
+export function deleteCollection(
+  db: Database.Database,
+  userId: string,
+  payload: CollectionsDeleteRequest
+): CollectionsDeleteResult {
+  const collectionId = payload?.id?.trim();
+  if (!collectionId) {
+    return { ok: false, error: 'Collection not found' };
+  }
+
+  // collection_books rows are removed by the ON DELETE CASCADE foreign key.
+  const result = db.prepare('DELETE FROM collections WHERE id = ? AND user_id = ?').run(collectionId, userId);
+
+  if (result.changes === 0) {
+    return { ok: false, error: 'Collection not found' };
+  }
+
+  return { ok: true };
+}
+
+export function addBooksToCollection(
+  db: Database.Database,
+  userId: string,
+  payload: CollectionsUpdateBooksRequest
+): CollectionsSaveResult {
+  const collectionId = payload?.id?.trim();
+  if (!collectionId || !readCollection(db, userId, collectionId)) {
+    return { ok: false, error: 'Collection not found' };
+  }
+
+  const now = Date.now();
+  const bookIds = filterOwnedBookIds(db, userId, payload.bookIds);
+  const insertBook = db.prepare(
+    'INSERT OR IGNORE INTO collection_books (collection_id, book_id, added_at) VALUES (?, ?, ?)'
+  );
+
+  db.transaction(() => {
+    for (const bookId of bookIds) {
+      insertBook.run(collectionId, bookId, now);
+    }
+    db.prepare('UPDATE collections SET updated_at = ? WHERE id = ?').run(now, collectionId);
+  })();
+
+  const collection = readCollection(db, userId, collectionId);
+  return collection ? { ok: true, collection } : { ok: false, error: 'Collection not found' };
+}
+
+export function removeBooksFromCollection(
+  db: Database.Database,
+  userId: string,
+  payload: CollectionsUpdateBooksRequest
+): CollectionsSaveResult {
+  const collectionId = payload?.id?.trim();
+  if (!collectionId || !readCollection(db, userId, collectionId)) {
+    return { ok: false, error: 'Collection not found' };
+  }
+
+  const bookIds = filterOwnedBookIds(db, userId, payload.bookIds);
+  const removeBook = db.prepare('DELETE FROM collection_books WHERE collection_id = ? AND book_id = ?');
+
+  db.transaction(() => {
+    for (const bookId of bookIds) {
+      removeBook.run(collectionId, bookId);
+    }
+    db.prepare('UPDATE collections SET updated_at = ? WHERE id = ?').run(Date.now(), collectionId);
+  })();
+
+  const collection = readCollection(db, userId, collectionId);
+  return collection ? { ok: true, collection } : { ok: false, error: 'Collection not found' };
+}
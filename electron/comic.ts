@@ -0,0 +1,92 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { decodeXmlBuffer, findElements, stripXml } from './xml';
+import { openZipArchive, type ZipArchive } from './zip';
+
+export type ComicInfo = {
+  title: string | null;
+  authors: string[];
+  series: string | null;
+  seriesIndex: number | null;
+  summary: string | null;
+  publisher: string | null;
+  year: number | null;
+  language: string | null;
+};
+
+const COMIC_PAGE_MEDIA_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp'
+};
+const RAR_SIGNATURE = Buffer.from('Rar!\x1a\x07', 'latin1');
+const pageCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export function getComicPageMediaType(entryName: string): string | null {
+  return COMIC_PAGE_MEDIA_TYPES[path.posix.extname(entryName).toLowerCase()] ?? null;
+}
+
+// Pages are every image in the archive in natural filename order; macOS metadata folders are ignored.
+export function listComicPages(archive: ZipArchive): string[] {
+  return [...archive.entries.keys()]
+    .filter((name) => !name.endsWith('/') && getComicPageMediaType(name) !== null)
+    .filter((name) => !name.split('/').some((part) => part.startsWith('.') || part === '__MACOSX'))
+    .sort(pageCollator.compare);
+}
+
+export async function readComicPages(filePath: string): Promise<string[]> {
+  return listComicPages(await openZipArchive(filePath));
+}
+
+// Many ".cbr" files are ZIP archives with the wrong extension; true RAR archives cannot be read.
+export async function assertReadableComicArchive(filePath: string): Promise<void> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const head = Buffer.alloc(RAR_SIGNATURE.length);
+    await handle.read(head, 0, head.length, 0);
+    if (head.equals(RAR_SIGNATURE)) {
+      throw new Error('RAR-compressed comics (CBR) are not supported. Convert the file to CBZ and import it again.');
+    }
+  } finally {
+    await handle.close();
+  }
+
+  const archive = await openZipArchive(filePath);
+  if (listComicPages(archive).length === 0) {
+    throw new Error('The comic archive contains no page images.');
+  }
+}
+
+function readField(source: string, name: string): string | null {
+  const element = findElements(source, name)[0];
+  return element ? stripXml(element.content) || null : null;
+}
+
+export async function readComicInfo(archive: ZipArchive): Promise<ComicInfo | null> {
+  const entryName = [...archive.entries.keys()].find((name) => name.toLowerCase().split('/').pop() === 'comicinfo.xml');
+  const data = entryName ? await archive.readEntry(entryName) : null;
+  if (!data) {
+    return null;
+  }
+
+  const source = decodeXmlBuffer(data);
+  const number = Number.parseFloat(readField(source, 'Number') ?? '');
+  const year = Number.parseInt(readField(source, 'Year') ?? '', 10);
+  const authors = [readField(source, 'Writer'), readField(source, 'Penciller')]
+    .flatMap((value) => (value ? value.split(',') : []))
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return {
+    title: readField(source, 'Title'),
+    authors: [...new Set(authors)],
+    series: readField(source, 'Series'),
+    seriesIndex: Number.isFinite(number) ? number : null,
+    summary: readField(source, 'Summary'),
+    publisher: readField(source, 'Publisher'),
+    year: Number.isFinite(year) ? year : null,
+    language: readField(source, 'LanguageISO')
+  };
+}
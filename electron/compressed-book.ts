@@ -0,0 +1,86 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { gunzip } from 'node:zlib';
+import { openZipArchive } from './zip';
+
+const gunzipAsync = promisify(gunzip);
+
+export const COMPRESSED_BOOK_EXTENSIONS = ['zip', 'gz'];
+
+const MAX_UNPACKED_BYTES = 512 * 1024 * 1024;
+
+export type UnpackedBook = {
+  filePath: string;
+  cleanup: () => Promise<void>;
+};
+
+export function isCompressedBookPath(filePath: string): boolean {
+  return COMPRESSED_BOOK_EXTENSIONS.includes(path.extname(filePath).slice(1).toLowerCase());
+}
+
+function isIgnoredEntry(name: string): boolean {
+  return name.endsWith('/') || name.split('/').some((part) => part.startsWith('.') || part === '__MACOSX');
+}
+
+async function writeUnpackedBook(fileName: string, data: Buffer): Promise<UnpackedBook> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diplomaapp-unpack-'));
+  const filePath = path.join(tempDir, path.basename(fileName));
+  await fs.writeFile(filePath, data);
+  return {
+    filePath,
+    cleanup: () => fs.rm(tempDir, { recursive: true, force: true })
+  };
+}
+
+async function unpackZipBook(sourcePath: string, isSupportedName: (name: string) => boolean): Promise<UnpackedBook> {
+  const archive = await openZipArchive(sourcePath).catch(() => {
+    throw new Error('The archive could not be read.');
+  });
+  const candidates = [...archive.entries.values()].filter(
+    (entry) => !isIgnoredEntry(entry.name) && !isCompressedBookPath(entry.name) && isSupportedName(entry.name)
+  );
+  if (candidates.length === 0) {
+    throw new Error('The archive does not contain a supported book.');
+  }
+  if (candidates.length > 1) {
+    throw new Error('The archive contains several books. Extract it and import the books one at a time.');
+  }
+
+  const [entry] = candidates;
+  if (entry.size > MAX_UNPACKED_BYTES) {
+    throw new Error('The book inside the archive is too large to import.');
+  }
+  const data = await archive.readEntry(entry.name, MAX_UNPACKED_BYTES);
+  if (!data) {
+    throw new Error('The archive could not be read.');
+  }
+  return writeUnpackedBook(entry.name, data);
+}
+
+// A gzip file holds a single stream; its name without ".gz" names the book, and plain text is assumed otherwise.
+async function unpackGzipBook(sourcePath: string, isSupportedName: (name: string) => boolean): Promise<UnpackedBook> {
+  let data: Buffer;
+  try {
+    data = await gunzipAsync(await fs.readFile(sourcePath), { maxOutputLength: MAX_UNPACKED_BYTES });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error('The compressed book is too large to import.');
+    }
+    throw new Error('The compressed file could not be read.');
+  }
+
+  const innerName = path.basename(sourcePath).replace(/\.gz$/i, '');
+  return writeUnpackedBook(isSupportedName(innerName) ? innerName : `${innerName}.txt`, data);
+}
+
+export async function unpackCompressedBook(
+  sourcePath: string,
+  isSupportedName: (name: string) => boolean
+): Promise<UnpackedBook> {
+  if (path.extname(sourcePath).toLowerCase() === '.gz') {
+    return unpackGzipBook(sourcePath, isSupportedName);
+  }
+  return unpackZipBook(sourcePath, isSupportedName);
+}
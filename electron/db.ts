@@ -4,18 +4,23 @@ import Database from 'better-sqlite3';
 
 let dbInstance: Database.Database | null = null;
 export const LOCAL_DB_ID = 'local-user';
+// Marks users rows created as local profiles, as opposed to accounts from the old sign-in flow.
+export const LOCAL_PROFILE_PASSWORD_HASH = 'local-profile';
 
 function hasColumn(db: Database.Database, tableName: string, columnName: string): boolean {
   const columns = db.prepare(`PRAGMA table_info(${tableName})`).all() as Array<{ name: string }>;
   return columns.some((column) => column.name === columnName);
 }
 
+const BOOK_FORMATS_SQL = "'pdf', 'epub', 'fb2', 'txt', 'cbz', 'mobi', 'html', 'md'";
+
+// SQLite cannot alter a CHECK constraint, so the books table is rebuilt when a format is added.
 function ensureBooksFormatSchema(db: Database.Database): void {
   const row = db
     .prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'books' LIMIT 1`)
     .get() as { sql?: string | null } | undefined;
   const sql = row?.sql ?? '';
-  if (sql.includes("'txt'")) {
+  if (sql.includes(BOOK_FORMATS_SQL)) {
     return;
   }
 
@@ -25,13 +30,17 @@ function ensureBooksFormatSchema(db: Database.Database): void {
       user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
       title TEXT NOT NULL,
       author TEXT NULL,
-      format TEXT NOT NULL CHECK(format IN ('pdf', 'epub', 'fb2', 'txt')),
+      format TEXT NOT NULL CHECK(format IN (${BOOK_FORMATS_SQL})),
       file_path TEXT NULL,
-      created_at INTEGER NOT NULL
+      created_at INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'want-to-read' CHECK(status IN ('want-to-read', 'reading', 'finished', 'abandoned')),
+      started_at INTEGER NULL,
+      finished_at INTEGER NULL,
+      reader_settings_override TEXT NULL
     );
 
-    INSERT INTO books_v2 (id, user_id, title, author, format, file_path, created_at)
-    SELECT id, user_id, title, author, format, file_path, created_at
+    INSERT INTO books_v2 (id, user_id, title, author, format, file_path, created_at, status, started_at, finished_at, reader_settings_override)
+    SELECT id, user_id, title, author, format, file_path, created_at, status, started_at, finished_at, reader_settings_override
     FROM books;
 
     DROP TABLE books;
@@ -41,6 +50,53 @@ function ensureBooksFormatSchema(db: Database.Database): void {
   `);
 }
 
+// Sync state used to be shared by the whole database; it belonged to the only library there was then.
+function ensureSyncUserSchema(db: Database.Database): void {
+  if (hasColumn(db, 'sync_records', 'user_id')) {
+    return;
+  }
+
+  db.transaction(() => {
+    db.exec(`
+      CREATE TABLE sync_records_v2 (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL,
+        record_key TEXT NOT NULL,
+        digest TEXT NULL,
+        updated_at INTEGER NOT NULL,
+        device_id TEXT NOT NULL,
+        PRIMARY KEY (user_id, kind, record_key)
+      );
+
+      CREATE TABLE sync_cursors_v2 (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        remote_device_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (user_id, remote_device_id)
+      );
+    `);
+    db.prepare(
+      `INSERT INTO sync_records_v2 (user_id, kind, record_key, digest, updated_at, device_id)
+       SELECT ?, kind, record_key, digest, updated_at, device_id
+       FROM sync_records
+       WHERE EXISTS (SELECT 1 FROM users WHERE id = ?)`
+    ).run(LOCAL_DB_ID, LOCAL_DB_ID);
+    db.prepare(
+      `INSERT INTO sync_cursors_v2 (user_id, remote_device_id, position, updated_at)
+       SELECT ?, remote_device_id, position, updated_at
+       FROM sync_cursors
+       WHERE EXISTS (SELECT 1 FROM users WHERE id = ?)`
+    ).run(LOCAL_DB_ID, LOCAL_DB_ID);
+    db.exec(`
+      DROP TABLE sync_records;
+      ALTER TABLE sync_records_v2 RENAME TO sync_records;
+      DROP TABLE sync_cursors;
+      ALTER TABLE sync_cursors_v2 RENAME TO sync_cursors;
+    `);
+  })();
+}
+
 function runMigrations(db: Database.Database) {
   db.pragma('journal_mode = WAL');
   db.pragma('foreign_keys = ON');
@@ -51,7 +107,8 @@ function runMigrations(db: Database.Database) {
       email TEXT UNIQUE NOT NULL,
       password_hash TEXT NOT NULL,
       display_name TEXT NOT NULL,
-      created_at INTEGER NOT NULL
+      created_at INTEGER NOT NULL,
+      pin_hash TEXT NULL
     );
 
     CREATE TABLE IF NOT EXISTS sessions (
@@ -66,9 +123,103 @@ function runMigrations(db: Database.Database) {
       user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
       title TEXT NOT NULL,
       author TEXT NULL,
-      format TEXT NOT NULL CHECK(format IN ('pdf', 'epub', 'fb2', 'txt')),
+      format TEXT NOT NULL CHECK(format IN (${BOOK_FORMATS_SQL})),
       file_path TEXT NULL,
-      created_at INTEGER NOT NULL
+      created_at INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'want-to-read' CHECK(status IN ('want-to-read', 'reading', 'finished', 'abandoned')),
+      started_at INTEGER NULL,
+      finished_at INTEGER NULL,
+      reader_settings_override TEXT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS book_tags (
+      book_id TEXT NOT NULL,
+      tag TEXT NOT NULL COLLATE NOCASE,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (book_id, tag)
+    );
+
+    CREATE TABLE IF NOT EXISTS collections (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS collection_books (
+      collection_id TEXT NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+      book_id TEXT NOT NULL,
+      added_at INTEGER NOT NULL,
+      PRIMARY KEY (collection_id, book_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS book_metadata (
+      book_id TEXT PRIMARY KEY,
+      subtitle TEXT NULL,
+      authors_json TEXT NULL,
+      series TEXT NULL,
+      series_index REAL NULL,
+      publish_year INTEGER NULL,
+      language TEXT NULL,
+      description TEXT NULL,
+      subjects_json TEXT NULL,
+      cover_url TEXT NULL,
+      work_id TEXT NULL,
+      edition_id TEXT NULL,
+      isbn TEXT NULL,
+      locked INTEGER NOT NULL DEFAULT 0,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS book_file_metadata (
+      book_id TEXT PRIMARY KEY,
+      authors_json TEXT NULL,
+      language TEXT NULL,
+      isbn TEXT NULL,
+      identifiers_json TEXT NULL,
+      publisher TEXT NULL,
+      series TEXT NULL,
+      series_index REAL NULL,
+      description TEXT NULL,
+      subjects_json TEXT NULL,
+      publish_year INTEGER NULL,
+      cover_path TEXT NULL,
+      extracted_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS book_text_index (
+      book_id TEXT PRIMARY KEY,
+      version INTEGER NOT NULL,
+      status TEXT NOT NULL CHECK(status IN ('indexed', 'failed')),
+      chunk_count INTEGER NOT NULL DEFAULT 0,
+      error TEXT NULL,
+      indexed_at INTEGER NOT NULL
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS book_text_fts USING fts5(
+      book_id UNINDEXED,
+      locator UNINDEXED,
+      label UNINDEXED,
+      content,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    CREATE TABLE IF NOT EXISTS annotation_search_docs (
+      kind TEXT NOT NULL CHECK(kind IN ('note', 'highlight', 'ai_summary')),
+      item_id TEXT NOT NULL,
+      fts_rowid INTEGER NOT NULL UNIQUE,
+      book_id TEXT NULL,
+      book_title TEXT NULL,
+      page INTEGER NULL,
+      cfi_range TEXT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (kind, item_id)
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS annotation_search_fts USING fts5(
+      content,
+      tokenize = 'porter unicode61 remove_diacritics 2'
     );
 
     CREATE TABLE IF NOT EXISTS reader_settings (
@@ -96,6 +247,38 @@ function runMigrations(db: Database.Database) {
       updated_at INTEGER NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS reading_sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      book_id TEXT NOT NULL,
+      format TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      ended_at INTEGER NOT NULL,
+      active_seconds INTEGER NOT NULL DEFAULT 0,
+      locations_json TEXT NOT NULL DEFAULT '[]',
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS reading_goals (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL CHECK(kind IN ('daily-minutes', 'yearly-books', 'finish-book')),
+      target INTEGER NOT NULL,
+      book_id TEXT NULL,
+      due_at INTEGER NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS goal_reminders (
+      user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      enabled INTEGER NOT NULL DEFAULT 0,
+      reminder_time TEXT NOT NULL DEFAULT '20:00',
+      language TEXT NOT NULL DEFAULT 'ru',
+      last_notified_on TEXT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
     CREATE TABLE IF NOT EXISTS open_library_metadata_cache (
       cache_key TEXT PRIMARY KEY,
       title TEXT NOT NULL,
@@ -124,6 +307,7 @@ function runMigrations(db: Database.Database) {
 
     CREATE TABLE IF NOT EXISTS ai_summaries (
       id TEXT PRIMARY KEY,
+      user_id TEXT NULL REFERENCES users(id) ON DELETE CASCADE,
       book_id TEXT NULL,
       book_title TEXT NOT NULL,
       author TEXT NULL,
@@ -136,14 +320,83 @@ function runMigrations(db: Database.Database) {
       updated_at INTEGER NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS export_templates (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      body TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_settings (
+      user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      device_id TEXT NOT NULL,
+      folder_path TEXT NULL,
+      last_synced_at INTEGER NULL,
+      last_error TEXT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_records (
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL,
+      record_key TEXT NOT NULL,
+      digest TEXT NULL,
+      updated_at INTEGER NOT NULL,
+      device_id TEXT NOT NULL,
+      PRIMARY KEY (user_id, kind, record_key)
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_cursors (
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      remote_device_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (user_id, remote_device_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS book_content_hashes (
+      book_id TEXT PRIMARY KEY,
+      content_hash TEXT NOT NULL,
+      hashed_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS watch_folders (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      folder_path TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      UNIQUE(user_id, folder_path)
+    );
+
+    CREATE TABLE IF NOT EXISTS watch_folder_files (
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      file_path TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      modified_at INTEGER NOT NULL,
+      book_id TEXT NULL,
+      failed_hash TEXT NULL,
+      checked_at INTEGER NOT NULL,
+      PRIMARY KEY (user_id, file_path)
+    );
+
     CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
     CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
     CREATE INDEX IF NOT EXISTS idx_books_user_created_at ON books(user_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_book_tags_tag ON book_tags(tag);
+    CREATE INDEX IF NOT EXISTS idx_collections_user_name ON collections(user_id, name);
+    CREATE INDEX IF NOT EXISTS idx_collection_books_book_id ON collection_books(book_id);
     CREATE INDEX IF NOT EXISTS idx_reading_stats_last_opened_at ON reading_stats(last_opened_at DESC);
     CREATE INDEX IF NOT EXISTS idx_reading_stats_updated_at ON reading_stats(updated_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_reading_sessions_user_started_at ON reading_sessions(user_id, started_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_reading_sessions_book_started_at ON reading_sessions(book_id, started_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_reading_goals_user_created_at ON reading_goals(user_id, created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_open_library_metadata_updated_at ON open_library_metadata_cache(updated_at DESC);
     CREATE INDEX IF NOT EXISTS idx_wishlist_items_user_created_at ON wishlist_items(user_id, created_at DESC);
     CREATE INDEX IF NOT EXISTS idx_ai_summaries_created_at ON ai_summaries(created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_export_templates_user_name ON export_templates(user_id, name);
+    CREATE INDEX IF NOT EXISTS idx_book_content_hashes_hash ON book_content_hashes(content_hash);
   `);
 
   if (!hasColumn(db, 'reader_settings', 'epub_margins')) {
@@ -170,11 +423,50 @@ function runMigrations(db: Database.Database) {
   if (!hasColumn(db, 'reader_settings', 'reduce_motion')) {
     db.exec("ALTER TABLE reader_settings ADD COLUMN reduce_motion INTEGER NOT NULL DEFAULT 0;");
   }
+  if (!hasColumn(db, 'users', 'pin_hash')) {
+    db.exec('ALTER TABLE users ADD COLUMN pin_hash TEXT NULL;');
+  }
+  // Summaries saved before profiles existed are assigned to the local profile in ensureLocalLibraryIdentity.
+  if (!hasColumn(db, 'ai_summaries', 'user_id')) {
+    db.exec('ALTER TABLE ai_summaries ADD COLUMN user_id TEXT NULL REFERENCES users(id) ON DELETE CASCADE;');
+  }
+  db.exec('CREATE INDEX IF NOT EXISTS idx_ai_summaries_user_created_at ON ai_summaries(user_id, created_at DESC);');
   if (!hasColumn(db, 'wishlist_items', 'read_later')) {
     db.exec("ALTER TABLE wishlist_items ADD COLUMN read_later INTEGER NOT NULL DEFAULT 0;");
   }
+  if (!hasColumn(db, 'book_metadata', 'series_index')) {
+    db.exec('ALTER TABLE book_metadata ADD COLUMN series_index REAL NULL;');
+  }
+  if (!hasColumn(db, 'watch_folder_files', 'failed_hash')) {
+    db.exec('ALTER TABLE watch_folder_files ADD COLUMN failed_hash TEXT NULL;');
+  }
+
+  if (!hasColumn(db, 'books', 'finished_at')) {
+    db.exec('ALTER TABLE books ADD COLUMN finished_at INTEGER NULL;');
+  }
+  if (!hasColumn(db, 'books', 'status')) {
+    db.exec(`
+      ALTER TABLE books ADD COLUMN status TEXT NOT NULL DEFAULT 'want-to-read'
+        CHECK(status IN ('want-to-read', 'reading', 'finished', 'abandoned'));
+      ALTER TABLE books ADD COLUMN started_at INTEGER NULL;
+
+      UPDATE books
+      SET started_at = COALESCE(
+        (SELECT MIN(started_at) FROM reading_sessions WHERE reading_sessions.book_id = books.id),
+        (SELECT last_opened_at FROM reading_stats WHERE reading_stats.book_id = books.id AND open_count > 0),
+        finished_at
+      );
+      UPDATE books SET status = 'finished' WHERE finished_at IS NOT NULL;
+      UPDATE books SET status = 'reading' WHERE finished_at IS NULL AND started_at IS NOT NULL;
+    `);
+  }
+
+  if (!hasColumn(db, 'books', 'reader_settings_override')) {
+    db.exec('ALTER TABLE books ADD COLUMN reader_settings_override TEXT NULL;');
+  }
 
   ensureBooksFormatSchema(db);
+  ensureSyncUserSchema(db);
 }
 
 function ensureLocalLibraryIdentity(db: Database.Database) {
@@ -185,6 +477,7 @@ function ensureLocalLibraryIdentity(db: Database.Database) {
        VALUES (?, ?, ?, ?, ?)`
     ).run(LOCAL_DB_ID, 'desktop@local', 'single-user-mode', 'Desktop Library', Date.now());
   }
+  db.prepare('UPDATE ai_summaries SET user_id = ? WHERE user_id IS NULL').run(LOCAL_DB_ID);
 
   const localBookCount = db
     .prepare('SELECT COUNT(*) AS count FROM books WHERE user_id = ?')
@@ -198,9 +491,10 @@ function ensureLocalLibraryIdentity(db: Database.Database) {
       `SELECT DISTINCT user_id
        FROM books
        WHERE user_id != ?
+         AND user_id NOT IN (SELECT id FROM users WHERE password_hash = ?)
        ORDER BY user_id ASC`
     )
-    .all(LOCAL_DB_ID) as Array<{ user_id: string }>;
+    .all(LOCAL_DB_ID, LOCAL_PROFILE_PASSWORD_HASH) as Array<{ user_id: string }>;
 
   if (legacyUserIds.length === 1) {
     db.prepare('UPDATE books SET user_id = ? WHERE user_id = ?').run(LOCAL_DB_ID, legacyUserIds[0].user_id);
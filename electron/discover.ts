@@ -21,32 +21,7 @@ import { gutendexProvider } from './discover/providers/gutendexProvider';
 import { standardEbooksProvider } from './discover/providers/standardEbooksProvider';
 import { enrichDiscoverResultsWithOpenLibrary } from './openLibraryMetadata';
 
-function decodeHtmlEntities(value: string): string {
-  return value
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&apos;/g, "'")
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&amp;/g, '&');
-}
-
-function stripHtmlToText(value: string): string {
-  return decodeHtmlEntities(
-    value
-      .replace(/<script[\s\S]*?<\/script>/gi, ' ')
-      .replace(/<style[\s\S]*?<\/style>/gi, ' ')
-      .replace(/<br\s*\/?>/gi, '\n')
-      .replace(/<\/p>/gi, '\n\n')
-      .replace(/<[^>]+>/g, ' ')
-      .replace(/\r/g, '')
-      .replace(/\n{3,}/g, '\n\n')
-      .replace(/[ \t]{2,}/g, ' ')
-      .trim()
-  );
-}
-
-function normalizeForDuplicate(value: string | null | undefined) {
+export function normalizeForDuplicate(value: string | null | undefined) {
   return (value ?? '')
     .toLocaleLowerCase()
     .replace(/[^\p{L}\p{N}]+/gu, ' ')
@@ -124,10 +99,14 @@ function toImportedBookFormat(result: DiscoverBookResult): BookFormat | null {
     return 'epub';
   }
 
-  if (preferredFormat.kind === 'txt' || preferredFormat.kind === 'html') {
+  if (preferredFormat.kind === 'txt') {
     return 'txt';
   }
 
+  if (preferredFormat.kind === 'html') {
+    return 'html';
+  }
+
   return null;
 }
 
@@ -172,6 +151,15 @@ function inferFormatFromUrlOrHeaders(url: string, contentType: string | null, co
   if (candidate.endsWith('.html') || candidate.endsWith('.htm') || candidate.endsWith('.xhtml')) {
     return 'html';
   }
+  if (candidate.endsWith('.fb2')) {
+    return 'fb2';
+  }
+  if (candidate.endsWith('.zip')) {
+    return 'zip';
+  }
+  if (candidate.endsWith('.gz')) {
+    return candidate.endsWith('.fb2.gz') ? 'fb2.gz' : 'txt.gz';
+  }
 
   const normalizedContentType = (contentType ?? '').toLocaleLowerCase();
   if (normalizedContentType.includes('application/epub+zip')) {
@@ -183,6 +171,15 @@ function inferFormatFromUrlOrHeaders(url: string, contentType: string | null, co
   if (normalizedContentType.includes('text/html') || normalizedContentType.includes('application/xhtml+xml')) {
     return 'html';
   }
+  if (normalizedContentType.includes('application/x-fictionbook+xml')) {
+    return 'fb2';
+  }
+  if (normalizedContentType.includes('application/zip')) {
+    return 'zip';
+  }
+  if (normalizedContentType.includes('application/gzip') || normalizedContentType.includes('application/x-gzip')) {
+    return 'txt.gz';
+  }
 
   return 'other';
 }
@@ -308,25 +305,13 @@ async function createImportableTempFile(
   );
   const tempBase = path.join(os.tmpdir(), `diplomaapp-discover-${randomUUID()}-${sanitizeTempFilename(result.title)}`);
 
-  if (format === 'epub') {
-    const tempPath = `${tempBase}.epub`;
-    await fs.writeFile(tempPath, fileBuffer);
-    return { tempPath, cleanupPath: tempPath };
-  }
-
-  if (format === 'txt') {
-    const tempPath = `${tempBase}.txt`;
+  // Archives keep their inner extension in the temp name so the importer can unpack them.
+  if (format !== 'other') {
+    const tempPath = `${tempBase}.${format}`;
     await fs.writeFile(tempPath, fileBuffer);
     return { tempPath, cleanupPath: tempPath };
   }
 
-  if (format === 'html') {
-    const html = fileBuffer.toString('utf8');
-    const txtPath = `${tempBase}.txt`;
-    await fs.writeFile(txtPath, stripHtmlToText(html), 'utf8');
-    return { tempPath: txtPath, cleanupPath: txtPath };
-  }
-
   throw new Error('This download format is not supported for local import yet.');
 }
 
@@ -477,7 +462,11 @@ export async function downloadDiscoverBook(
     return {
       ok: true,
       book: importResult.book as Book,
-      duplicateWarning: duplicateDetected ? 'A similar local book already exists, so this may be a duplicate import.' : null
+      duplicateWarning: importResult.duplicate
+        ? 'This file is already in your library.'
+        : duplicateDetected
+          ? 'A similar local book already exists, so this may be a duplicate import.'
+          : null
     };
   } catch (error) {
     emitDownloadProgress(progressTarget ?? null, {
@@ -20,7 +20,7 @@ type GutendexResponse = {
 const GUTENDEX_BASE_URL = 'https://gutendex.com/books';
 
 function isUsableDownloadUrl(downloadUrl: string | undefined) {
-  return Boolean(downloadUrl && /^https?:\/\//i.test(downloadUrl) && !downloadUrl.toLocaleLowerCase().endsWith('.zip'));
+  return Boolean(downloadUrl && /^https?:\/\//i.test(downloadUrl));
 }
 
 function mapMimeTypeToKind(mimeType: string): DiscoverBookFormatDescriptor['kind'] {
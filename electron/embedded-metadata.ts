@@ -0,0 +1,659 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { nativeImage } from 'electron';
+import type Database from 'better-sqlite3';
+import { BOOK_PROTOCOL_SCHEME, type Book, type BookFormat } from '../shared/ipc';
+import { loadBookDocument } from './book-document';
+import { getComicPageMediaType, listComicPages, readComicInfo } from './comic';
+import { readMobiHeader } from './mobi';
+import { decodeXmlBuffer, findElements, getAttribute, stripXml } from './xml';
+import { openZipArchive, type ZipArchive } from './zip';
+
+export type EmbeddedCover = {
+  data: Buffer;
+  mediaType: string;
+};
+
+export type EmbeddedMetadata = {
+  title: string | null;
+  authors: string[];
+  language: string | null;
+  identifiers: string[];
+  isbn: string | null;
+  publisher: string | null;
+  series: string | null;
+  seriesIndex: number | null;
+  description: string | null;
+  subjects: string[];
+  publishYear: number | null;
+  cover: EmbeddedCover | null;
+};
+
+type BookFileMetadataRow = {
+  book_id: string;
+  authors_json: string | null;
+  language: string | null;
+  isbn: string | null;
+  publisher: string | null;
+  series: string | null;
+  series_index: number | null;
+  description: string | null;
+  subjects_json: string | null;
+  publish_year: number | null;
+  cover_path: string | null;
+  extracted_at: number;
+};
+
+type PendingBookFile = {
+  id: string;
+  format: BookFormat;
+  file_path: string | null;
+};
+
+const COVER_THUMBNAIL_WIDTH = 480;
+const COVER_FILE_BASENAME = 'cover';
+const MAX_PDF_SCAN_BYTES = 32 * 1024 * 1024;
+const PDF_SCAN_WINDOW_BYTES = 4 * 1024 * 1024;
+const RAW_COVER_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/jpg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp'
+};
+const UNUSABLE_PDF_TITLE_PATTERN = /^(untitled|microsoft word\s*-|document\d*$)|\.(docx?|pdf|tex|indd|odt|rtf)$/i;
+const inFlightExtraction = new Set<string>();
+
+function emptyMetadata(): EmbeddedMetadata {
+  return {
+    title: null,
+    authors: [],
+    language: null,
+    identifiers: [],
+    isbn: null,
+    publisher: null,
+    series: null,
+    seriesIndex: null,
+    description: null,
+    subjects: [],
+    publishYear: null,
+    cover: null
+  };
+}
+
+function findText(source: string, localName: string): string | null {
+  for (const element of findElements(source, localName)) {
+    const text = stripXml(element.content);
+    if (text) {
+      return text;
+    }
+  }
+  return null;
+}
+
+function findTexts(source: string, localName: string): string[] {
+  return findElements(source, localName)
+    .map((element) => stripXml(element.content))
+    .filter((text) => text.length > 0);
+}
+
+function dedupe(values: Array<string | null | undefined>): string[] {
+  const items = new Map<string, string>();
+  for (const value of values) {
+    const item = value?.replace(/\s+/g, ' ').trim();
+    if (item && !items.has(item.toLocaleLowerCase())) {
+      items.set(item.toLocaleLowerCase(), item);
+    }
+  }
+  return [...items.values()];
+}
+
+function parseYear(value: string | null | undefined): number | null {
+  const match = value?.match(/\b(1[0-9]{3}|20[0-9]{2})\b/);
+  return match ? Number(match[1]) : null;
+}
+
+function parseSeriesIndex(value: string | null | undefined): number | null {
+  const index = Number.parseFloat(value ?? '');
+  return Number.isFinite(index) && index >= 0 ? index : null;
+}
+
+function normalizeIsbn(value: string | null | undefined): string | null {
+  const digits = (value ?? '').replace(/^urn:isbn:/i, '').replace(/[\s-]/g, '').toUpperCase();
+  return /^(\d{9}[\dX]|\d{13})$/.test(digits) ? digits : null;
+}
+
+function normalizeLanguage(value: string | null | undefined): string | null {
+  const language = value?.trim();
+  return language && language.toLowerCase() !== 'und' ? language.slice(0, 35) : null;
+}
+
+function splitKeywords(value: string | null | undefined): string[] {
+  return (value ?? '').split(/[,;]/).map((item) => item.trim());
+}
+
+function parseOpf(opf: string) {
+  const metadataBlock = findElements(opf, 'metadata')[0]?.content ?? opf;
+  const metas = findElements(metadataBlock, 'meta');
+  const refinements = new Map<string, Map<string, string>>();
+  for (const meta of metas) {
+    const refines = getAttribute(meta.attributes, 'refines')?.replace(/^#/, '');
+    const property = getAttribute(meta.attributes, 'property');
+    if (refines && property) {
+      const properties = refinements.get(refines) ?? new Map<string, string>();
+      properties.set(property, stripXml(meta.content));
+      refinements.set(refines, properties);
+    }
+  }
+  const namedMeta = (name: string) => {
+    const meta = metas.find((item) => getAttribute(item.attributes, 'name') === name);
+    return meta ? getAttribute(meta.attributes, 'content') : null;
+  };
+
+  const authors = findElements(metadataBlock, 'creator')
+    .filter((creator) => {
+      const id = getAttribute(creator.attributes, 'id');
+      const role = getAttribute(creator.attributes, 'role') ?? (id ? refinements.get(id)?.get('role') : null);
+      return !role || role.toLowerCase() === 'aut';
+    })
+    .map((creator) => stripXml(creator.content));
+
+  const identifiers = findElements(metadataBlock, 'identifier').map((identifier) => ({
+    scheme: getAttribute(identifier.attributes, 'scheme'),
+    value: stripXml(identifier.content)
+  }));
+  const isbn =
+    identifiers
+      .filter((identifier) => identifier.scheme?.toUpperCase() === 'ISBN' || /^urn:isbn:/i.test(identifier.value))
+      .map((identifier) => normalizeIsbn(identifier.value))
+      .find(Boolean) ??
+    identifiers.map((identifier) => normalizeIsbn(identifier.value)).find(Boolean) ??
+    null;
+
+  let series = namedMeta('calibre:series');
+  let seriesIndex = parseSeriesIndex(namedMeta('calibre:series_index'));
+  if (!series) {
+    const collection = metas.find((meta) => getAttribute(meta.attributes, 'property') === 'belongs-to-collection');
+    if (collection) {
+      const id = getAttribute(collection.attributes, 'id');
+      const refined = id ? refinements.get(id) : undefined;
+      if (!refined?.get('collection-type') || refined.get('collection-type') === 'series') {
+        series = stripXml(collection.content) || null;
+        seriesIndex = parseSeriesIndex(refined?.get('group-position'));
+      }
+    }
+  }
+
+  return {
+    title: findText(metadataBlock, 'title'),
+    authors: dedupe(authors),
+    language: normalizeLanguage(findText(metadataBlock, 'language')),
+    identifiers: dedupe(identifiers.map((identifier) => identifier.value)),
+    isbn,
+    publisher: findText(metadataBlock, 'publisher'),
+    series: series || null,
+    seriesIndex: series ? seriesIndex : null,
+    description: findText(metadataBlock, 'description'),
+    subjects: dedupe(findTexts(metadataBlock, 'subject')),
+    publishYear: parseYear(findText(metadataBlock, 'date')),
+    coverId: namedMeta('cover')
+  };
+}
+
+function findEpubCoverHref(opf: string, coverId: string | null): { href: string; mediaType: string } | null {
+  const items = findElements(findElements(opf, 'manifest')[0]?.content ?? opf, 'item').map((item) => ({
+    id: getAttribute(item.attributes, 'id') ?? '',
+    href: getAttribute(item.attributes, 'href') ?? '',
+    mediaType: getAttribute(item.attributes, 'media-type') ?? '',
+    properties: getAttribute(item.attributes, 'properties') ?? ''
+  }));
+  const images = items.filter((item) => item.href && item.mediaType.startsWith('image/'));
+  const cover =
+    images.find((item) => item.properties.split(/\s+/).includes('cover-image')) ??
+    images.find((item) => coverId && item.id === coverId) ??
+    images.find((item) => /cover/i.test(item.id) || /cover/i.test(item.href));
+
+  return cover ? { href: cover.href, mediaType: cover.mediaType } : null;
+}
+
+export async function readEpubPackage(archive: ZipArchive): Promise<{ opfPath: string; opf: string } | null> {
+  const container = await archive.readEntry('META-INF/container.xml');
+  const rootfile = container ? findElements(container.toString('utf8'), 'rootfile')[0] : undefined;
+  const opfPath =
+    (rootfile ? getAttribute(rootfile.attributes, 'full-path') : null) ??
+    [...archive.entries.keys()].find((name) => name.toLowerCase().endsWith('.opf'));
+  const opfBuffer = opfPath ? await archive.readEntry(opfPath) : null;
+  return opfPath && opfBuffer ? { opfPath, opf: decodeXmlBuffer(opfBuffer) } : null;
+}
+
+export function resolveEpubHref(opfPath: string, href: string): string {
+  const entryName = path.posix.normalize(path.posix.join(path.posix.dirname(opfPath), decodeURIComponent(href.split('#')[0])));
+  return entryName.replace(/^\.\//, '');
+}
+
+async function readEpubMetadata(filePath: string): Promise<EmbeddedMetadata> {
+  const archive = await openZipArchive(filePath);
+  const epubPackage = await readEpubPackage(archive);
+  if (!epubPackage) {
+    return emptyMetadata();
+  }
+
+  const { opfPath, opf } = epubPackage;
+  const { coverId, ...metadata } = parseOpf(opf);
+  const coverRef = findEpubCoverHref(opf, coverId);
+  let cover: EmbeddedCover | null = null;
+  if (coverRef) {
+    const data = await archive.readEntry(resolveEpubHref(opfPath, coverRef.href));
+    cover = data ? { data, mediaType: coverRef.mediaType } : null;
+  }
+
+  return { ...metadata, cover };
+}
+
+function readFb2Author(markup: string): string | null {
+  const nameParts = ['first-name', 'middle-name', 'last-name']
+    .map((part) => findText(markup, part))
+    .filter((part): part is string => Boolean(part));
+  return nameParts.join(' ').trim() || findText(markup, 'nickname');
+}
+
+function readFb2Metadata(xml: string): EmbeddedMetadata {
+  const description = findElements(xml, 'description')[0]?.content ?? xml;
+  const titleInfo = findElements(description, 'title-info')[0]?.content ?? description;
+  const publishInfo = findElements(description, 'publish-info')[0]?.content ?? '';
+  const sequence = findElements(titleInfo, 'sequence')[0];
+  const series = sequence ? getAttribute(sequence.attributes, 'name') : null;
+  const isbn = normalizeIsbn(findText(publishInfo, 'isbn'));
+  const dateElement = findElements(titleInfo, 'date')[0];
+
+  let cover: EmbeddedCover | null = null;
+  const coverImage = findElements(findElements(titleInfo, 'coverpage')[0]?.content ?? '', 'image')[0];
+  const coverHref = coverImage ? getAttribute(coverImage.attributes, 'href')?.replace(/^#/, '') : null;
+  if (coverHref) {
+    const binary = findElements(xml, 'binary').find((element) => getAttribute(element.attributes, 'id') === coverHref);
+    if (binary) {
+      cover = {
+        data: Buffer.from(binary.content.replace(/\s+/g, ''), 'base64'),
+        mediaType: getAttribute(binary.attributes, 'content-type') ?? 'image/jpeg'
+      };
+    }
+  }
+
+  return {
+    title: findText(titleInfo, 'book-title'),
+    authors: dedupe(findElements(titleInfo, 'author').map((author) => readFb2Author(author.content))),
+    language: normalizeLanguage(findText(titleInfo, 'lang')),
+    identifiers: isbn ? [isbn] : [],
+    isbn,
+    publisher: findText(publishInfo, 'publisher'),
+    series: series || null,
+    seriesIndex: series && sequence ? parseSeriesIndex(getAttribute(sequence.attributes, 'number')) : null,
+    description: findText(titleInfo, 'annotation'),
+    subjects: dedupe(splitKeywords(findText(titleInfo, 'keywords'))),
+    publishYear:
+      parseYear(findText(publishInfo, 'year')) ??
+      parseYear(dateElement ? getAttribute(dateElement.attributes, 'value') : null) ??
+      parseYear(findText(titleInfo, 'date')),
+    cover
+  };
+}
+
+function decodePdfBytes(bytes: Buffer): string {
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return bytes.subarray(3).toString('utf8');
+  }
+  return bytes.toString('latin1');
+}
+
+const PDF_ESCAPES: Record<string, number> = { n: 0x0a, r: 0x0d, t: 0x09, b: 0x08, f: 0x0c };
+
+// Reads a literal "(...)" or hex "<...>" string starting at `start` in a latin1-decoded PDF source.
+function readPdfString(source: string, start: number): string | null {
+  if (source[start] === '<') {
+    const end = source.indexOf('>', start);
+    if (end < 0) {
+      return null;
+    }
+    const hex = source.slice(start + 1, end).replace(/\s+/g, '');
+    return decodePdfBytes(Buffer.from(hex.length % 2 === 0 ? hex : `${hex}0`, 'hex'));
+  }
+  if (source[start] !== '(') {
+    return null;
+  }
+
+  const bytes: number[] = [];
+  let depth = 1;
+  for (let index = start + 1; index < source.length; index += 1) {
+    const char = source[index];
+    if (char === '\\') {
+      const next = source[index + 1] ?? '';
+      if (/[0-7]/.test(next)) {
+        const octal = source.slice(index + 1, index + 4).match(/^[0-7]{1,3}/)?.[0] ?? next;
+        bytes.push(Number.parseInt(octal, 8) & 0xff);
+        index += octal.length;
+      } else if (next === '\r' || next === '\n') {
+        index += next === '\r' && source[index + 2] === '\n' ? 2 : 1;
+      } else {
+        bytes.push(PDF_ESCAPES[next] ?? next.charCodeAt(0));
+        index += 1;
+      }
+      continue;
+    }
+    if (char === '(') {
+      depth += 1;
+    } else if (char === ')') {
+      depth -= 1;
+      if (depth === 0) {
+        return decodePdfBytes(Buffer.from(bytes));
+      }
+    }
+    bytes.push(char.charCodeAt(0));
+  }
+  return null;
+}
+
+function readPdfInfoDictionary(source: string): Map<string, string> {
+  const values = new Map<string, string>();
+  const infoRefs = [...source.matchAll(/\/Info\s+(\d+)\s+(\d+)\s+R/g)];
+  const infoRef = infoRefs[infoRefs.length - 1];
+  if (!infoRef) {
+    return values;
+  }
+
+  const objectStart = source.search(new RegExp(`(?:^|[^\\d])${infoRef[1]}\\s+${infoRef[2]}\\s+obj\\b`));
+  if (objectStart < 0) {
+    return values;
+  }
+  const objectEnd = source.indexOf('endobj', objectStart);
+  const dictionary = source.slice(objectStart, objectEnd < 0 ? objectStart + 8192 : objectEnd);
+
+  for (const key of ['Title', 'Author', 'Subject', 'Keywords', 'CreationDate']) {
+    const keyMatch = new RegExp(`/${key}\\s*([(<])`).exec(dictionary);
+    if (keyMatch) {
+      const value = readPdfString(dictionary, keyMatch.index + keyMatch[0].length - 1)?.replace(/\0/g, '').trim();
+      if (value) {
+        values.set(key, value);
+      }
+    }
+  }
+  return values;
+}
+
+function readXmpListItems(xmp: string, localName: string): string[] {
+  const element = findElements(xmp, localName)[0];
+  if (!element) {
+    return [];
+  }
+  const items = findTexts(element.content, 'li');
+  return items.length > 0 ? items : [stripXml(element.content)].filter(Boolean);
+}
+
+async function readPdfMetadata(filePath: string): Promise<EmbeddedMetadata> {
+  const handle = await fs.open(filePath, 'r');
+  let buffer: Buffer;
+  try {
+    const { size } = await handle.stat();
+    if (size <= MAX_PDF_SCAN_BYTES) {
+      buffer = await handle.readFile();
+    } else {
+      // Info dictionaries and XMP packets live near the start or in the trailing update section.
+      const head = Buffer.alloc(PDF_SCAN_WINDOW_BYTES);
+      const tail = Buffer.alloc(PDF_SCAN_WINDOW_BYTES);
+      await handle.read(head, 0, PDF_SCAN_WINDOW_BYTES, 0);
+      await handle.read(tail, 0, PDF_SCAN_WINDOW_BYTES, size - PDF_SCAN_WINDOW_BYTES);
+      buffer = Buffer.concat([head, tail]);
+    }
+  } finally {
+    await handle.close();
+  }
+
+  const source = buffer.toString('latin1');
+  const info = readPdfInfoDictionary(source);
+  const xmpStart = source.indexOf('<x:xmpmeta');
+  const xmpEnd = xmpStart >= 0 ? source.indexOf('</x:xmpmeta>', xmpStart) : -1;
+  const xmp = xmpEnd > xmpStart ? buffer.subarray(xmpStart, xmpEnd + '</x:xmpmeta>'.length).toString('utf8') : '';
+
+  const title = readXmpListItems(xmp, 'title')[0] ?? info.get('Title') ?? null;
+  const xmpAuthors = readXmpListItems(xmp, 'creator');
+  const infoAuthors = (info.get('Author') ?? '').split(/;|\s&\s/);
+  const isbn =
+    readXmpListItems(xmp, 'identifier')
+      .map((identifier) => normalizeIsbn(identifier))
+      .find(Boolean) ?? null;
+
+  return {
+    title: title && !UNUSABLE_PDF_TITLE_PATTERN.test(title.trim()) ? title.trim() : null,
+    authors: dedupe(xmpAuthors.length > 0 ? xmpAuthors : infoAuthors),
+    language: normalizeLanguage(readXmpListItems(xmp, 'language')[0]),
+    identifiers: isbn ? [isbn] : [],
+    isbn,
+    publisher: readXmpListItems(xmp, 'publisher')[0] ?? null,
+    series: null,
+    seriesIndex: null,
+    description: readXmpListItems(xmp, 'description')[0] ?? info.get('Subject') ?? null,
+    subjects: dedupe([...readXmpListItems(xmp, 'subject'), ...splitKeywords(info.get('Keywords'))]),
+    publishYear: parseYear(readXmpListItems(xmp, 'date')[0]) ?? null,
+    cover: null
+  };
+}
+
+async function readCbzMetadata(filePath: string): Promise<EmbeddedMetadata> {
+  const archive = await openZipArchive(filePath);
+  const info = await readComicInfo(archive);
+  const firstPage = listComicPages(archive)[0];
+  const coverData = firstPage ? await archive.readEntry(firstPage) : null;
+
+  return {
+    ...emptyMetadata(),
+    title: info?.title ?? null,
+    authors: info?.authors ?? [],
+    language: normalizeLanguage(info?.language),
+    publisher: info?.publisher ?? null,
+    series: info?.series ?? null,
+    seriesIndex: info?.series ? info.seriesIndex : null,
+    description: info?.summary ?? null,
+    publishYear: info?.year ?? null,
+    cover: firstPage && coverData ? { data: coverData, mediaType: getComicPageMediaType(firstPage) ?? 'image/jpeg' } : null
+  };
+}
+
+export async function extractEmbeddedMetadata(filePath: string, format: BookFormat): Promise<EmbeddedMetadata> {
+  try {
+    if (format === 'epub') {
+      return await readEpubMetadata(filePath);
+    }
+    if (format === 'fb2') {
+      return readFb2Metadata(decodeXmlBuffer(await fs.readFile(filePath)));
+    }
+    if (format === 'pdf') {
+      return await readPdfMetadata(filePath);
+    }
+    if (format === 'cbz') {
+      return await readCbzMetadata(filePath);
+    }
+    if (format === 'mobi') {
+      return { ...emptyMetadata(), ...(await readMobiHeader(filePath)) };
+    }
+    if (format === 'html') {
+      const { title, author } = await loadBookDocument(filePath, 'html');
+      return { ...emptyMetadata(), title, authors: author ? [author] : [] };
+    }
+  } catch (error) {
+    console.warn('Failed to read embedded metadata', filePath, error);
+  }
+  return emptyMetadata();
+}
+
+export async function saveEmbeddedCover(targetDir: string, cover: EmbeddedCover | null): Promise<string | null> {
+  if (!cover || cover.data.length === 0) {
+    return null;
+  }
+
+  try {
+    const image = nativeImage.createFromBuffer(cover.data);
+    if (!image.isEmpty()) {
+      const { width } = image.getSize();
+      const thumbnail = width > COVER_THUMBNAIL_WIDTH ? image.resize({ width: COVER_THUMBNAIL_WIDTH, quality: 'good' }) : image;
+      const coverPath = path.join(targetDir, `${COVER_FILE_BASENAME}.jpg`);
+      await fs.writeFile(coverPath, thumbnail.toJPEG(85));
+      return coverPath;
+    }
+
+    const extension = RAW_COVER_EXTENSIONS[cover.mediaType.toLowerCase()];
+    if (!extension) {
+      return null;
+    }
+    const coverPath = path.join(targetDir, `${COVER_FILE_BASENAME}${extension}`);
+    await fs.writeFile(coverPath, cover.data);
+    return coverPath;
+  } catch {
+    return null;
+  }
+}
+
+export function writeBookFileMetadata(
+  db: Database.Database,
+  bookId: string,
+  metadata: EmbeddedMetadata,
+  coverPath: string | null
+) {
+  db.prepare(
+    `INSERT INTO book_file_metadata (
+      book_id,
+      authors_json,
+      language,
+      isbn,
+      identifiers_json,
+      publisher,
+      series,
+      series_index,
+      description,
+      subjects_json,
+      publish_year,
+      cover_path,
+      extracted_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(book_id) DO UPDATE SET
+      authors_json = excluded.authors_json,
+      language = excluded.language,
+      isbn = excluded.isbn,
+      identifiers_json = excluded.identifiers_json,
+      publisher = excluded.publisher,
+      series = excluded.series,
+      series_index = excluded.series_index,
+      description = excluded.description,
+      subjects_json = excluded.subjects_json,
+      publish_year = excluded.publish_year,
+      cover_path = excluded.cover_path,
+      extracted_at = excluded.extracted_at`
+  ).run(
+    bookId,
+    JSON.stringify(metadata.authors),
+    metadata.language,
+    metadata.isbn,
+    JSON.stringify(metadata.identifiers),
+    metadata.publisher,
+    metadata.series,
+    metadata.seriesIndex,
+    metadata.description,
+    JSON.stringify(metadata.subjects),
+    metadata.publishYear,
+    coverPath,
+    Date.now()
+  );
+}
+
+export function readBookCoverPath(db: Database.Database, bookId: string): string | null {
+  const row = db.prepare('SELECT cover_path FROM book_file_metadata WHERE book_id = ? LIMIT 1').get(bookId) as
+    | { cover_path: string | null }
+    | undefined;
+  return row?.cover_path ?? null;
+}
+
+function parseStringList(value: string | null) {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function mergeBookWithFileMetadata(book: Book, row: BookFileMetadataRow | undefined): Book {
+  if (!row) {
+    return book;
+  }
+
+  const subjects = parseStringList(row.subjects_json);
+  const authors = parseStringList(row.authors_json);
+  return {
+    ...book,
+    authors: authors.length > 0 ? authors : book.authors,
+    series: row.series ?? book.series ?? null,
+    seriesIndex: row.series ? row.series_index : book.seriesIndex ?? null,
+    language: row.language ?? book.language ?? null,
+    publisher: row.publisher ?? book.publisher ?? null,
+    isbn: row.isbn ?? book.isbn ?? null,
+    coverUrl: row.cover_path
+      ? `${BOOK_PROTOCOL_SCHEME}://${encodeURIComponent(book.id)}/cover?v=${row.extracted_at}`
+      : book.coverUrl ?? null,
+    description: row.description ?? book.description ?? null,
+    subjects: subjects.length > 0 ? subjects : book.subjects,
+    publishYear: row.publish_year ?? book.publishYear ?? null
+  };
+}
+
+export function hydrateBooksWithFileMetadata(db: Database.Database, userId: string, books: Book[]): Book[] {
+  const rows = db
+    .prepare(
+      `SELECT fm.book_id, fm.authors_json, fm.language, fm.isbn, fm.publisher, fm.series, fm.series_index,
+              fm.description, fm.subjects_json, fm.publish_year, fm.cover_path, fm.extracted_at
+       FROM book_file_metadata fm
+       JOIN books b ON b.id = fm.book_id
+       WHERE b.user_id = ?`
+    )
+    .all(userId) as BookFileMetadataRow[];
+  const byBook = new Map(rows.map((row) => [row.book_id, row]));
+
+  return books.map((book) => mergeBookWithFileMetadata(book, byBook.get(book.id)));
+}
+
+// Books imported before embedded metadata was read get it backfilled once, without touching title/author.
+export function extractFileMetadataInBackground(db: Database.Database, userId: string) {
+  const pending = db
+    .prepare(
+      `SELECT b.id, b.format, b.file_path
+       FROM books b
+       LEFT JOIN book_file_metadata fm ON fm.book_id = b.id
+       WHERE b.user_id = ? AND b.file_path IS NOT NULL AND fm.book_id IS NULL`
+    )
+    .all(userId) as PendingBookFile[];
+
+  for (const book of pending) {
+    const filePath = book.file_path?.trim();
+    if (!filePath || inFlightExtraction.has(book.id)) {
+      continue;
+    }
+
+    inFlightExtraction.add(book.id);
+    void extractEmbeddedMetadata(filePath, book.format)
+      .then(async (metadata) => {
+        const coverPath = await saveEmbeddedCover(path.dirname(filePath), metadata.cover);
+        const exists = db.prepare('SELECT 1 FROM books WHERE id = ? LIMIT 1').get(book.id);
+        if (exists) {
+          writeBookFileMetadata(db, book.id, metadata, coverPath);
+        }
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        inFlightExtraction.delete(book.id);
+      });
+  }
+}
@@ -0,0 +1,151 @@
+import { randomUUID } from 'node:crypto';
+import type Database from 'better-sqlite3';
+import type {
+  ExportTemplate,
+  ExportTemplatesDeleteRequest,
+  ExportTemplatesDeleteResult,
+  ExportTemplatesListResult,
+  ExportTemplatesSaveRequest,
+  ExportTemplatesSaveResult
+} from '../shared/ipc';
+import { getTemplateError } from '../shared/export-template';
+
+type ExportTemplateRow = {
+  id: string;
+  name: string;
+  body: string;
+  created_at: number;
+  updated_at: number;
+};
+
+const MAX_NAME_LENGTH = 80;
+const MAX_BODY_LENGTH = 50_000;
+
+function mapExportTemplateRow(row: ExportTemplateRow): ExportTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    body: row.body,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function getExportTemplateRow(db: Database.Database, userId: string, id: string): ExportTemplateRow | undefined {
+  return db
+    .prepare(
+      `SELECT id, name, body, created_at, updated_at
+       FROM export_templates
+       WHERE id = ? AND user_id = ?
+       LIMIT 1`
+    )
+    .get(id, userId) as ExportTemplateRow | undefined;
+}
+
+export function listExportTemplates(db: Database.Database, userId: string): ExportTemplatesListResult {
+  const rows = db
+    .prepare(
+      `SELECT id, name, body, created_at, updated_at
+       FROM export_templates
+       WHERE user_id = ?
+       ORDER BY name COLLATE NOCASE ASC`
+    )
+    .all(userId) as ExportTemplateRow[];
+
+  return {
+    ok: true,
+    templates: rows.map(mapExportTemplateRow)
+  };
+}
+
+export function saveExportTemplate(
+  db: Database.Database,
+  userId: string,
+  payload: ExportTemplatesSaveRequest
+): ExportTemplatesSaveResult {
+  const name = payload.name?.trim();
+  const body = typeof payload.body === 'string' ? payload.body.replace(/\r\n/g, '\n') : '';
+  const id = payload.id?.trim() || null;
+
+  if (!name) {
+    return { ok: false, error: 'Template name is required.' };
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return { ok: false, error: `Template name must be at most ${MAX_NAME_LENGTH} characters.` };
+  }
+  if (!body.trim()) {
+    return { ok: false, error: 'Template body is required.' };
+  }
+  if (body.length > MAX_BODY_LENGTH) {
+    return { ok: false, error: 'Template is too long.' };
+  }
+
+  const templateError = getTemplateError(body);
+  if (templateError) {
+    return { ok: false, error: templateError };
+  }
+
+  const duplicate = db
+    .prepare(
+      `SELECT id
+       FROM export_templates
+       WHERE user_id = ? AND lower(name) = lower(?) AND id != ?
+       LIMIT 1`
+    )
+    .get(userId, name, id ?? '') as { id: string } | undefined;
+  if (duplicate) {
+    return { ok: false, error: 'A template with this name already exists.' };
+  }
+
+  const now = Date.now();
+  if (id) {
+    const result = db
+      .prepare(
+        `UPDATE export_templates
+         SET name = ?, body = ?, updated_at = ?
+         WHERE id = ? AND user_id = ?`
+      )
+      .run(name, body, now, id, userId);
+    if (result.changes === 0) {
+      return { ok: false, error: 'Export template not found.' };
+    }
+  } else {
+    const nextId = randomUUID();
+    db.prepare(
+      `INSERT INTO export_templates (id, user_id, name, body, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(nextId, userId, name, body, now, now);
+    return {
+      ok: true,
+      template: { id: nextId, name, body, createdAt: now, updatedAt: now }
+    };
+  }
+
+  const row = getExportTemplateRow(db, userId, id);
+  if (!row) {
+    return { ok: false, error: 'Export template not found.' };
+  }
+
+  return {
+    ok: true,
+    template: mapExportTemplateRow(row)
+  };
+}
+
+export function deleteExportTemplate(
+  db: Database.Database,
+  userId: string,
+  payload: ExportTemplatesDeleteRequest
+): ExportTemplatesDeleteResult {
+  const id = payload.id?.trim();
+  if (!id) {
+    return { ok: false, error: 'Export template not found.' };
+  }
+
+  const result = db.prepare('DELETE FROM export_templates WHERE id = ? AND user_id = ?').run(id, userId);
+  if (result.changes === 0) {
+    return { ok: false, error: 'Export template not found.' };
+  }
+
+  return { ok: true };
+}
@@ -1,22 +1,42 @@
 import fs from 'node:fs/promises';
+import os from 'node:os';
 import path from 'node:path';
-import { dialog, type BrowserWindow } from 'electron';
+import { BrowserWindow, dialog, type WebContents } from 'electron';
 import type Database from 'better-sqlite3';
-import type {
-  Book,
-  ExportGetBookDataRequest,
-  ExportGetBookDataResult,
-  ExportSaveFileRequest,
-  ExportSaveFileResult
+import { BOOK_EXPORTERS, toAnkiCards, type ExportedFile, type ExportRenderOptions } from '../shared/book-export';
+import { getTemplateError } from '../shared/export-template';
+import {
+  EXPORT_FORMATS,
+  IPC_CHANNELS,
+  type AiSummaryEntry,
+  type Book,
+  type Bookmark,
+  type BookFormat,
+  type EpubBookmark,
+  type ExportBookData,
+  type ExportBookmark,
+  type ExportFormat,
+  type ExportGetBookDataRequest,
+  type ExportLibraryRequest,
+  type ExportLibraryResult,
+  type ExportProgressEvent,
+  type ExportGetBookDataResult,
+  type ExportSaveBooksRequest,
+  type ExportSaveBooksResult,
+  type ExportSaveFileRequest,
+  type ExportSaveFileResult
 } from '../shared/ipc';
+import { getLatestAiSummaryForBook, listAiSummaries } from './ai-summaries';
+import { writeAnkiPackage } from './anki-package';
 import type { ReaderProgressDb } from './reader-progress-db';
+import { writeZipArchive, type ZipWriteEntry } from './zip';
 
 type BookRow = {
   id: string;
   user_id: string;
   title: string;
   author: string | null;
-  format: 'pdf' | 'epub' | 'fb2' | 'txt';
+  format: BookFormat;
   file_path: string | null;
   created_at: number;
 };
@@ -39,6 +59,25 @@ function sanitizeFilename(value: string): string {
   return safe.slice(0, 120).trim() || fallback;
 }
 
+function toExportBookmarks(bookmarks: Bookmark[], epubBookmarks: EpubBookmark[]): ExportBookmark[] {
+  return [
+    ...bookmarks.map((bookmark) => ({
+      id: bookmark.id,
+      page: bookmark.page,
+      cfi: null,
+      label: null,
+      createdAt: bookmark.createdAt
+    })),
+    ...epubBookmarks.map((bookmark) => ({
+      id: bookmark.id,
+      page: null,
+      cfi: bookmark.cfi,
+      label: bookmark.label,
+      createdAt: bookmark.createdAt
+    }))
+  ];
+}
+
 export function getBookExportData(
   authDb: Database.Database,
   readerDb: ReaderProgressDb,
@@ -68,7 +107,10 @@ export function getBookExportData(
     data: {
       book: toBook(row),
       notes: readerDb.listNotesByBookForExport(userId, bookId),
-      highlights: readerDb.listHighlightsByBook(userId, bookId)
+      highlights: readerDb.listHighlightsByBook(userId, bookId),
+      bookmarks: toExportBookmarks(readerDb.listBookmarks(userId, bookId), readerDb.listEpubBookmarks(userId, bookId)),
+      highlightCategories: readerDb.listHighlightCategories(userId),
+      aiSummary: getLatestAiSummaryForBook(authDb, userId, bookId)
     }
   };
 }
@@ -106,3 +148,318 @@ export async function saveExportFile(
     return { ok: false, error: 'Failed to save export file.' };
   }
 }
+
+async function renderHtmlToPdf(html: string): Promise<Buffer> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diplomaapp-export-'));
+  const window = new BrowserWindow({
+    show: false,
+    webPreferences: { javascript: false, sandbox: true }
+  });
+  try {
+    const htmlPath = path.join(tempDir, 'report.html');
+    await fs.writeFile(htmlPath, html, 'utf8');
+    await window.loadFile(htmlPath);
+    return await window.webContents.printToPDF({ printBackground: true, pageSize: 'A4' });
+  } finally {
+    window.destroy();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+async function chooseExportFolder(ownerWindow: BrowserWindow | null): Promise<string | null> {
+  const options: Electron.OpenDialogOptions = {
+    title: 'Choose export folder',
+    properties: ['openDirectory', 'createDirectory']
+  };
+  const result = ownerWindow ? await dialog.showOpenDialog(ownerWindow, options) : await dialog.showOpenDialog(options);
+  return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+}
+
+async function chooseExportFile(
+  ownerWindow: BrowserWindow | null,
+  defaultName: string,
+  filter: Electron.FileFilter
+): Promise<string | null> {
+  const options: Electron.SaveDialogOptions = { title: 'Save export', defaultPath: defaultName, filters: [filter] };
+  const result = ownerWindow ? await dialog.showSaveDialog(ownerWindow, options) : await dialog.showSaveDialog(options);
+  return result.canceled || !result.filePath ? null : result.filePath;
+}
+
+async function writeExportFolder(folderPath: string, files: ExportedFile[]) {
+  await fs.mkdir(folderPath, { recursive: true });
+  for (const file of files) {
+    await fs.writeFile(path.join(folderPath, file.name), file.content, 'utf8');
+  }
+}
+
+// PDF and .apkg are rendered here; every other format is the exporter's text output.
+async function renderExportFile(
+  format: ExportFormat,
+  books: ExportBookData[],
+  options?: ExportRenderOptions
+): Promise<Buffer> {
+  if (format === 'pdf') {
+    return renderHtmlToPdf(BOOK_EXPORTERS.pdf.render(books)[0]?.content ?? '');
+  }
+  if (format === 'anki-apkg') {
+    const cards = toAnkiCards(books);
+    if (cards.length === 0) {
+      throw new Error('There are no highlights or flashcards to turn into cards.');
+    }
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diplomaapp-export-'));
+    try {
+      const packagePath = path.join(tempDir, 'deck.apkg');
+      await writeAnkiPackage(packagePath, cards);
+      return await fs.readFile(packagePath);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+  return Buffer.from(BOOK_EXPORTERS[format].render(books, options)[0]?.content ?? '', 'utf8');
+}
+
+function getExportErrorMessage(error: unknown): string {
+  return error instanceof Error && error.message.startsWith('There are no') ? error.message : 'Failed to save export file.';
+}
+
+function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.some((format) => format === value);
+}
+
+function toRenderOptions(template: unknown): ExportRenderOptions {
+  return { template: typeof template === 'string' ? template : null };
+}
+
+export async function saveBooksExport(
+  authDb: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  payload: ExportSaveBooksRequest,
+  ownerWindow: BrowserWindow | null
+): Promise<ExportSaveBooksResult> {
+  if (!isExportFormat(payload.format)) {
+    return { ok: false, error: 'Unsupported export format.' };
+  }
+  const options = toRenderOptions(payload.template);
+  const templateError = options.template ? getTemplateError(options.template) : null;
+  if (templateError) {
+    return { ok: false, error: templateError };
+  }
+  const bookIds = [...new Set((payload.bookIds ?? []).map((bookId) => bookId?.trim()).filter(Boolean))];
+  if (bookIds.length === 0) {
+    return { ok: false, error: 'Nothing to export.' };
+  }
+
+  const books: ExportBookData[] = [];
+  for (const bookId of bookIds) {
+    const result = getBookExportData(authDb, readerDb, userId, { bookId });
+    if (!result.ok) {
+      return result;
+    }
+    books.push(result.data);
+  }
+
+  const exporter = BOOK_EXPORTERS[payload.format];
+  const files = exporter.render(books, options);
+  if (exporter.target === 'folder') {
+    const folderPath = await chooseExportFolder(ownerWindow);
+    if (!folderPath) {
+      return { ok: false, cancelled: true };
+    }
+    try {
+      await writeExportFolder(folderPath, files);
+      return { ok: true, path: folderPath };
+    } catch {
+      return { ok: false, error: 'Failed to save export file.' };
+    }
+  }
+
+  const baseName = sanitizeFilename(path.parse(files[0]?.name ?? 'book-export').name);
+  const filePath = await chooseExportFile(ownerWindow, `${baseName}.${exporter.extension}`, {
+    name: exporter.label,
+    extensions: [exporter.extension]
+  });
+  if (!filePath) {
+    return { ok: false, cancelled: true };
+  }
+
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, await renderExportFile(payload.format, books, options));
+    return { ok: true, path: filePath };
+  } catch (error) {
+    return { ok: false, error: getExportErrorMessage(error) };
+  }
+}
+
+function emitExportProgress(target: WebContents | null, event: ExportProgressEvent) {
+  if (!target || target.isDestroyed()) {
+    return;
+  }
+
+  target.send(IPC_CHANNELS.exportProgress, event);
+}
+
+function hasExportableData(data: ExportBookData): boolean {
+  return data.notes.length > 0 || data.highlights.length > 0 || data.bookmarks.length > 0 || data.aiSummary !== null;
+}
+
+function groupByBookId<T extends { bookId: string | null }>(items: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    if (!item.bookId) {
+      continue;
+    }
+    const group = groups.get(item.bookId);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(item.bookId, [item]);
+    }
+  }
+  return groups;
+}
+
+// Loads every table once for the whole library instead of querying per book.
+function collectLibraryExportData(
+  authDb: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  bookIds: string[] | null
+): ExportBookData[] {
+  const wanted = bookIds ? new Set(bookIds) : null;
+  const rows = (
+    authDb
+      .prepare(
+        `SELECT id, user_id, title, author, format, file_path, created_at
+         FROM books
+         WHERE user_id = ?
+         ORDER BY title COLLATE NOCASE ASC`
+      )
+      .all(userId) as BookRow[]
+  ).filter((row) => !wanted || wanted.has(row.id));
+
+  const notes = groupByBookId(readerDb.listNotes(userId));
+  const highlights = groupByBookId(readerDb.listAllHighlights(userId));
+  const bookmarks = groupByBookId(readerDb.listAllBookmarks(userId));
+  const epubBookmarks = groupByBookId(readerDb.listAllEpubBookmarks(userId));
+  const highlightCategories = readerDb.listHighlightCategories(userId);
+  const summaries = listAiSummaries(authDb, userId);
+  const latestSummaries = new Map<string, AiSummaryEntry>();
+  for (const entry of summaries.ok ? summaries.entries : []) {
+    const current = entry.bookId ? latestSummaries.get(entry.bookId) : undefined;
+    if (entry.bookId && (!current || current.updatedAt < entry.updatedAt)) {
+      latestSummaries.set(entry.bookId, entry);
+    }
+  }
+
+  return rows
+    .map((row) => ({
+      book: toBook(row),
+      notes: notes.get(row.id) ?? [],
+      highlights: highlights.get(row.id) ?? [],
+      bookmarks: toExportBookmarks(bookmarks.get(row.id) ?? [], epubBookmarks.get(row.id) ?? []),
+      highlightCategories,
+      aiSummary: latestSummaries.get(row.id) ?? null
+    }))
+    .filter(hasExportableData);
+}
+
+function toUniqueName(usedNames: Set<string>, baseName: string, extension: string): string {
+  let name = `${baseName}.${extension}`;
+  for (let suffix = 2; usedNames.has(name.toLowerCase()); suffix += 1) {
+    name = `${baseName} (${suffix}).${extension}`;
+  }
+  usedNames.add(name.toLowerCase());
+  return name;
+}
+
+export async function exportLibrary(
+  authDb: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  payload: ExportLibraryRequest,
+  ownerWindow: BrowserWindow | null,
+  progressTarget: WebContents | null
+): Promise<ExportLibraryResult> {
+  if (!isExportFormat(payload.format)) {
+    return { ok: false, error: 'Unsupported export format.' };
+  }
+  const options = toRenderOptions(payload.template);
+  const templateError = options.template ? getTemplateError(options.template) : null;
+  if (templateError) {
+    return { ok: false, error: templateError };
+  }
+  const bookIds = Array.isArray(payload.bookIds)
+    ? [...new Set(payload.bookIds.map((bookId) => bookId?.trim()).filter(Boolean))]
+    : null;
+
+  emitExportProgress(progressTarget, { state: 'collecting', total: 0, processed: 0, currentTitle: null });
+  const books = collectLibraryExportData(authDb, readerDb, userId, bookIds);
+  if (books.length === 0) {
+    emitExportProgress(progressTarget, { state: 'done', total: 0, processed: 0, currentTitle: null });
+    return { ok: false, error: 'There are no annotations to export.' };
+  }
+
+  const exporter = BOOK_EXPORTERS[payload.format];
+  const zipped = payload.layout === 'zip';
+  const folderOutput = exporter.target === 'folder' && !zipped;
+  const destination = folderOutput
+    ? await chooseExportFolder(ownerWindow)
+    : await chooseExportFile(
+        ownerWindow,
+        zipped ? 'library-export.zip' : `library-export.${exporter.extension}`,
+        zipped ? { name: 'ZIP archive', extensions: ['zip'] } : { name: exporter.label, extensions: [exporter.extension] }
+      );
+  if (!destination) {
+    return { ok: false, cancelled: true };
+  }
+
+  const total = books.length;
+  let processed = 0;
+  const reportBook = (title: string | null) => {
+    emitExportProgress(progressTarget, { state: 'writing', total, processed, currentTitle: title });
+  };
+
+  try {
+    if (folderOutput) {
+      reportBook(null);
+      await writeExportFolder(destination, exporter.render(books, options));
+    } else if (zipped) {
+      const usedNames = new Set<string>();
+      // The vault is already one note per book, so it goes into the archive as is.
+      const entries: ZipWriteEntry[] =
+        exporter.target === 'folder'
+          ? exporter.render(books, options).map((file) => ({
+              name: file.name,
+              read: async () => Buffer.from(file.content, 'utf8'),
+              compress: true
+            }))
+          : books
+              .filter((data) => payload.format !== 'anki-apkg' || toAnkiCards([data]).length > 0)
+              .map((data) => ({
+                name: toUniqueName(usedNames, sanitizeFilename(data.book.title), exporter.extension),
+                read: async () => {
+                  reportBook(data.book.title);
+                  const content = await renderExportFile(payload.format, [data], options);
+                  processed += 1;
+                  return content;
+                },
+                compress: payload.format !== 'anki-apkg'
+              }));
+      if (entries.length === 0) {
+        throw new Error('There are no highlights or flashcards to turn into cards.');
+      }
+      await writeZipArchive(destination, entries);
+    } else {
+      reportBook(null);
+      await fs.writeFile(destination, await renderExportFile(payload.format, books, options));
+    }
+    processed = total;
+    emitExportProgress(progressTarget, { state: 'done', total, processed, currentTitle: null });
+    return { ok: true, path: destination, bookCount: total };
+  } catch (error) {
+    emitExportProgress(progressTarget, { state: 'done', total, processed, currentTitle: null });
+    return { ok: false, error: getExportErrorMessage(error) };
+  }
+}
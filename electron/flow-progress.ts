@@ -1,10 +1,12 @@
 import type Database from 'better-sqlite3';
 import type {
+  BookFormat,
   FlowProgressGetRequest,
   FlowProgressGetResult,
   FlowProgressSetRequest,
   FlowProgressSetResult
 } from '../shared/ipc';
+import { isDocumentBookFormat } from './book-document';
 import type { ReaderProgressDb } from './reader-progress-db';
 
 function resolveOwnedFlowBookId(authDb: Database.Database, userId: string, rawBookId: string): string | null {
@@ -13,16 +15,9 @@ function resolveOwnedFlowBookId(authDb: Database.Database, userId: string, rawBo
     return null;
   }
   const row = authDb
-    .prepare('SELECT id FROM books WHERE id = ? AND user_id = ? AND format = ? LIMIT 1')
-    .get(bookId, userId, 'fb2') as { id: string } | undefined;
-  if (row) {
-    return bookId;
-  }
-
-  const txtRow = authDb
-    .prepare('SELECT id FROM books WHERE id = ? AND user_id = ? AND format = ? LIMIT 1')
-    .get(bookId, userId, 'txt') as { id: string } | undefined;
-  return txtRow ? bookId : null;
+    .prepare('SELECT format FROM books WHERE id = ? AND user_id = ? LIMIT 1')
+    .get(bookId, userId) as { format: BookFormat } | undefined;
+  return row && (row.format === 'fb2' || row.format === 'txt' || isDocumentBookFormat(row.format)) ? bookId : null;
 }
 
 export function getFlowProgress(
@@ -0,0 +1,323 @@
+import { randomUUID } from 'node:crypto';
+import type Database from 'better-sqlite3';
+import type {
+  GoalReminderSettings,
+  GoalsDeleteRequest,
+  GoalsDeleteResult,
+  GoalsListResult,
+  GoalsSaveRequest,
+  GoalsSaveResult,
+  GoalsSetReminderRequest,
+  GoalsSetReminderResult,
+  ReadingGoal,
+  ReadingGoalKind,
+  ReadingGoalProgress
+} from '../shared/ipc';
+
+type ReadingGoalRow = {
+  id: string;
+  kind: ReadingGoalKind;
+  target: number;
+  book_id: string | null;
+  due_at: number | null;
+  created_at: number;
+  updated_at: number;
+};
+
+type GoalReminderRow = {
+  enabled: number;
+  reminder_time: string;
+  language: 'ru' | 'en';
+  last_notified_on: string | null;
+};
+
+const GOAL_KINDS: ReadingGoalKind[] = ['daily-minutes', 'yearly-books', 'finish-book'];
+const MAX_TARGETS: Record<ReadingGoalKind, number> = {
+  'daily-minutes': 24 * 60,
+  'yearly-books': 1000,
+  'finish-book': 1
+};
+const REMINDER_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DEFAULT_REMINDER: GoalReminderSettings = {
+  enabled: false,
+  time: '20:00',
+  language: 'ru'
+};
+const REMINDER_COPY = {
+  ru: {
+    title: 'Пора почитать',
+    body: (current: number, target: number) => `Сегодня прочитано ${current} из ${target} мин. Ещё немного до дневной цели.`
+  },
+  en: {
+    title: 'Time to read',
+    body: (current: number, target: number) => `You have read ${current} of ${target} min today. A little more to reach your daily goal.`
+  }
+} as const;
+
+function toLocalDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function startOfLocalDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function startOfLocalYear(timestamp: number): number {
+  return new Date(new Date(timestamp).getFullYear(), 0, 1).getTime();
+}
+
+function toGoal(row: ReadingGoalRow): ReadingGoal {
+  return {
+    id: row.id,
+    kind: row.kind,
+    target: row.target,
+    bookId: row.book_id,
+    dueAt: row.due_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toReminder(row: GoalReminderRow | undefined): GoalReminderSettings {
+  if (!row) {
+    return DEFAULT_REMINDER;
+  }
+
+  return {
+    enabled: row.enabled === 1,
+    time: REMINDER_TIME_PATTERN.test(row.reminder_time) ? row.reminder_time : DEFAULT_REMINDER.time,
+    language: row.language === 'en' ? 'en' : 'ru'
+  };
+}
+
+function readReminderRow(db: Database.Database, userId: string): GoalReminderRow | undefined {
+  return db
+    .prepare(
+      `SELECT enabled, reminder_time, language, last_notified_on
+       FROM goal_reminders
+       WHERE user_id = ?
+       LIMIT 1`
+    )
+    .get(userId) as GoalReminderRow | undefined;
+}
+
+function getTodayReadingMinutes(db: Database.Database, userId: string, now: number): number {
+  const row = db
+    .prepare(
+      `SELECT COALESCE(SUM(active_seconds), 0) AS seconds
+       FROM reading_sessions
+       WHERE user_id = ? AND started_at >= ?`
+    )
+    .get(userId, startOfLocalDay(now)) as { seconds: number };
+
+  return Math.floor(row.seconds / 60);
+}
+
+function getBooksFinishedSince(db: Database.Database, userId: string, since: number): number {
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) AS count
+       FROM books
+       WHERE user_id = ? AND finished_at IS NOT NULL AND finished_at >= ?`
+    )
+    .get(userId, since) as { count: number };
+
+  return row.count;
+}
+
+function toGoalProgress(db: Database.Database, userId: string, row: ReadingGoalRow, now: number): ReadingGoalProgress {
+  const goal = toGoal(row);
+
+  if (goal.kind === 'daily-minutes') {
+    const current = getTodayReadingMinutes(db, userId, now);
+    return { goal, current, completed: current >= goal.target, overdue: false, bookTitle: null };
+  }
+
+  if (goal.kind === 'yearly-books') {
+    const current = getBooksFinishedSince(db, userId, startOfLocalYear(now));
+    return { goal, current, completed: current >= goal.target, overdue: false, bookTitle: null };
+  }
+
+  const book = db
+    .prepare('SELECT title, finished_at FROM books WHERE id = ? AND user_id = ? LIMIT 1')
+    .get(goal.bookId, userId) as { title: string; finished_at: number | null } | undefined;
+  const completed = Boolean(book?.finished_at);
+
+  return {
+    goal,
+    current: completed ? 1 : 0,
+    completed,
+    overdue: !completed && goal.dueAt !== null && goal.dueAt < now,
+    bookTitle: book?.title ?? null
+  };
+}
+
+export function listGoals(db: Database.Database, userId: string): GoalsListResult {
+  const now = Date.now();
+  const rows = db
+    .prepare(
+      `SELECT id, kind, target, book_id, due_at, created_at, updated_at
+       FROM reading_goals
+       WHERE user_id = ?
+       ORDER BY created_at ASC`
+    )
+    .all(userId) as ReadingGoalRow[];
+
+  return {
+    ok: true,
+    goals: rows.map((row) => toGoalProgress(db, userId, row, now)),
+    reminder: toReminder(readReminderRow(db, userId))
+  };
+}
+
+export function saveGoal(db: Database.Database, userId: string, payload: GoalsSaveRequest): GoalsSaveResult {
+  const kind = payload.kind;
+  if (!GOAL_KINDS.includes(kind)) {
+    return { ok: false, error: 'Unknown goal type.' };
+  }
+
+  const target = kind === 'finish-book' ? 1 : Math.floor(Number(payload.target));
+  if (!Number.isFinite(target) || target < 1 || target > MAX_TARGETS[kind]) {
+    return { ok: false, error: 'Goal target is out of range.' };
+  }
+
+  let bookId: string | null = null;
+  let dueAt: number | null = null;
+  if (kind === 'finish-book') {
+    bookId = payload.bookId?.trim() || null;
+    const bookRow = bookId
+      ? db.prepare('SELECT id FROM books WHERE id = ? AND user_id = ? LIMIT 1').get(bookId, userId)
+      : undefined;
+    if (!bookRow) {
+      return { ok: false, error: 'Book not found' };
+    }
+    dueAt = typeof payload.dueAt === 'number' && Number.isFinite(payload.dueAt) ? Math.floor(payload.dueAt) : null;
+  }
+
+  const now = Date.now();
+  // Daily and yearly goals are singletons: saving one again replaces its target.
+  const existingId =
+    payload.id?.trim() ||
+    (kind === 'finish-book'
+      ? null
+      : (
+          db
+            .prepare('SELECT id FROM reading_goals WHERE user_id = ? AND kind = ? LIMIT 1')
+            .get(userId, kind) as { id: string } | undefined
+        )?.id ?? null);
+
+  const goalId = existingId ?? randomUUID();
+  if (existingId) {
+    const result = db
+      .prepare(
+        `UPDATE reading_goals
+         SET kind = ?, target = ?, book_id = ?, due_at = ?, updated_at = ?
+         WHERE id = ? AND user_id = ?`
+      )
+      .run(kind, target, bookId, dueAt, now, goalId, userId);
+    if (result.changes === 0) {
+      return { ok: false, error: 'Goal not found.' };
+    }
+  } else {
+    db.prepare(
+      `INSERT INTO reading_goals (id, user_id, kind, target, book_id, due_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(goalId, userId, kind, target, bookId, dueAt, now, now);
+  }
+
+  const row = db
+    .prepare(
+      `SELECT id, kind, target, book_id, due_at, created_at, updated_at
+       FROM reading_goals
+       WHERE id = ? AND user_id = ?
+       LIMIT 1`
+    )
+    .get(goalId, userId) as ReadingGoalRow;
+
+  return { ok: true, goal: toGoal(row) };
+}
+
+export function deleteGoal(db: Database.Database, userId: string, payload: GoalsDeleteRequest): GoalsDeleteResult {
+  const goalId = payload.goalId?.trim();
+  if (!goalId) {
+    return { ok: false, error: 'Goal not found.' };
+  }
+
+  const result = db.prepare('DELETE FROM reading_goals WHERE id = ? AND user_id = ?').run(goalId, userId);
+  if (result.changes === 0) {
+    return { ok: false, error: 'Goal not found.' };
+  }
+
+  return { ok: true };
+}
+
+export function setGoalReminder(
+  db: Database.Database,
+  userId: string,
+  payload: GoalsSetReminderRequest
+): GoalsSetReminderResult {
+  const time = payload.time?.trim() ?? '';
+  if (!REMINDER_TIME_PATTERN.test(time)) {
+    return { ok: false, error: 'Reminder time must use the HH:MM format.' };
+  }
+
+  const reminder: GoalReminderSettings = {
+    enabled: Boolean(payload.enabled),
+    time,
+    language: payload.language === 'en' ? 'en' : 'ru'
+  };
+
+  db.prepare(
+    `INSERT INTO goal_reminders (user_id, enabled, reminder_time, language, last_notified_on, updated_at)
+     VALUES (?, ?, ?, ?, NULL, ?)
+     ON CONFLICT(user_id) DO UPDATE SET
+       enabled = excluded.enabled,
+       reminder_time = excluded.reminder_time,
+       language = excluded.language,
+       updated_at = excluded.updated_at`
+  ).run(userId, reminder.enabled ? 1 : 0, reminder.time, reminder.language, Date.now());
+
+  return { ok: true, reminder };
+}
+
+export function takeDueGoalReminder(
+  db: Database.Database,
+  userId: string,
+  now = Date.now()
+): { title: string; body: string } | null {
+  const reminderRow = readReminderRow(db, userId);
+  const reminder = toReminder(reminderRow);
+  const todayKey = toLocalDateKey(now);
+  if (!reminder.enabled || reminderRow?.last_notified_on === todayKey) {
+    return null;
+  }
+
+  const [hours, minutes] = reminder.time.split(':').map(Number);
+  const dueAt = new Date(now);
+  dueAt.setHours(hours, minutes, 0, 0);
+  if (now < dueAt.getTime()) {
+    return null;
+  }
+
+  const goalRow = db
+    .prepare('SELECT target FROM reading_goals WHERE user_id = ? AND kind = ? LIMIT 1')
+    .get(userId, 'daily-minutes') as { target: number } | undefined;
+  if (!goalRow) {
+    return null;
+  }
+
+  db.prepare('UPDATE goal_reminders SET last_notified_on = ? WHERE user_id = ?').run(todayKey, userId);
+
+  const current = getTodayReadingMinutes(db, userId, now);
+  if (current >= goalRow.target) {
+    return null;
+  }
+
+  const copy = REMINDER_COPY[reminder.language];
+  return { title: copy.title, body: copy.body(current, goalRow.target) };
+}
@@ -1,22 +1,30 @@
 import { randomUUID } from 'node:crypto';
 import type Database from 'better-sqlite3';
-import type {
-  Highlight,
-  HighlightRect,
-  EpubHighlightsCreateRequest,
-  EpubHighlightsCreateResult,
-  EpubHighlightsListRequest,
-  EpubHighlightsListResult,
-  HighlightsCreateMergedRequest,
-  HighlightsCreateMergedResult,
-  HighlightsDeleteRequest,
-  HighlightsDeleteResult,
-  HighlightsInsertRawRequest,
-  HighlightsInsertRawResult,
-  HighlightsListRequest,
-  HighlightsListResult,
-  HighlightsUpdateNoteRequest,
-  HighlightsUpdateNoteResult
+import {
+  DEFAULT_HIGHLIGHT_COLOR,
+  HIGHLIGHT_COLORS,
+  type Highlight,
+  type HighlightCategoriesListResult,
+  type HighlightCategoriesSetRequest,
+  type HighlightCategoriesSetResult,
+  type HighlightColor,
+  type HighlightRect,
+  type EpubHighlightsCreateRequest,
+  type EpubHighlightsCreateResult,
+  type EpubHighlightsListRequest,
+  type EpubHighlightsListResult,
+  type HighlightsCreateMergedRequest,
+  type HighlightsCreateMergedResult,
+  type HighlightsDeleteRequest,
+  type HighlightsDeleteResult,
+  type HighlightsInsertRawRequest,
+  type HighlightsInsertRawResult,
+  type HighlightsListRequest,
+  type HighlightsListResult,
+  type HighlightsUpdateNoteRequest,
+  type HighlightsUpdateColorRequest,
+  type HighlightsUpdateColorResult,
+  type HighlightsUpdateNoteResult
 } from '../shared/ipc';
 import type { ReaderProgressDb } from './reader-progress-db';
 
@@ -57,6 +65,13 @@ function normalizePage(page: number): number | null {
   return nextPage >= 1 ? nextPage : null;
 }
 
+function normalizeHighlightColor(value: HighlightColor | null | undefined): HighlightColor | null {
+  if (value === null || value === undefined) {
+    return DEFAULT_HIGHLIGHT_COLOR;
+  }
+  return HIGHLIGHT_COLORS.includes(value) ? value : null;
+}
+
 function normalizeHighlightText(value: string | null | undefined): string | null {
   if (typeof value !== 'string') {
     return null;
@@ -65,6 +80,11 @@ function normalizeHighlightText(value: string | null | undefined): string | null
   return normalized.length > 0 ? normalized : null;
 }
 
+// Imported highlights keep their original time, but never one from the future.
+function normalizeCreatedAt(value: number | null | undefined, now: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.min(Math.floor(value), now) : now;
+}
+
 function mergeHighlightTexts(values: Array<string | null | undefined>): string | null {
   const seen = new Set<string>();
   const merged: string[] = [];
@@ -251,6 +271,11 @@ export function createMergedHighlight(
     return { ok: false, error: 'Invalid page' };
   }
 
+  const color = normalizeHighlightColor(payload.color);
+  if (!color) {
+    return { ok: false, error: 'Invalid highlight color' };
+  }
+
   const incoming = mergeRectsByLine(payload.rects ?? []);
   if (incoming.length === 0) {
     return { ok: false, error: 'At least one highlight rect is required.' };
@@ -293,6 +318,7 @@ export function createMergedHighlight(
     finalRects,
     mergedText,
     mergedNote,
+    color,
     randomUUID(),
     now,
     now,
@@ -339,6 +365,10 @@ export function insertRawHighlight(
     .filter((rect): rect is HighlightRect => Boolean(rect));
   const cfiRange = payload.cfiRange?.trim() || null;
   const page = payload.page === null || payload.page === undefined ? null : normalizePage(payload.page);
+  const color = normalizeHighlightColor(payload.color);
+  if (!color) {
+    return { ok: false, error: 'Invalid highlight color' };
+  }
 
   const ownedBook = authDb
     .prepare('SELECT id FROM books WHERE id = ? AND user_id = ? LIMIT 1')
@@ -369,8 +399,9 @@ export function insertRawHighlight(
     cfiRange,
     normalizeHighlightText(payload.text),
     normalizeHighlightNote(payload.note),
+    color,
     randomUUID(),
-    now,
+    normalizeCreatedAt(payload.createdAt, now),
     now
   );
   if (!created) {
@@ -396,6 +427,11 @@ export function createEpubHighlight(
     return { ok: false, error: 'Invalid EPUB range' };
   }
 
+  const color = normalizeHighlightColor(payload.color);
+  if (!color) {
+    return { ok: false, error: 'Invalid highlight color' };
+  }
+
   const ownedBook = authDb
     .prepare('SELECT id FROM books WHERE id = ? AND user_id = ? LIMIT 1')
     .get(bookId, userId) as { id: string } | undefined;
@@ -409,6 +445,7 @@ export function createEpubHighlight(
     bookId,
     cfiRange,
     normalizeHighlightText(payload.text),
+    color,
     randomUUID(),
     now,
     now
@@ -438,3 +475,49 @@ export function updateHighlightNote(
 
   return { ok: true, highlight: updated };
 }
+
+export function updateHighlightColor(
+  authDb: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  payload: HighlightsUpdateColorRequest
+): HighlightsUpdateColorResult {
+  const highlightId = payload.highlightId?.trim();
+  if (!highlightId) {
+    return { ok: false, error: 'Highlight not found' };
+  }
+
+  const color = normalizeHighlightColor(payload.color);
+  if (!color) {
+    return { ok: false, error: 'Invalid highlight color' };
+  }
+
+  const updated = readerDb.updateHighlightColor(userId, highlightId, color);
+  if (!updated) {
+    return { ok: false, error: 'Highlight not found' };
+  }
+
+  return { ok: true, highlight: updated };
+}
+
+export function listHighlightCategories(
+  authDb: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string
+): HighlightCategoriesListResult {
+  return { ok: true, categories: readerDb.listHighlightCategories(userId) };
+}
+
+export function setHighlightCategory(
+  authDb: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  payload: HighlightCategoriesSetRequest
+): HighlightCategoriesSetResult {
+  if (!HIGHLIGHT_COLORS.includes(payload.color)) {
+    return { ok: false, error: 'Invalid highlight color' };
+  }
+
+  const label = typeof payload.label === 'string' ? payload.label.trim().slice(0, 40) : '';
+  return { ok: true, categories: readerDb.setHighlightCategory(userId, payload.color, label || null) };
+}
@@ -0,0 +1,252 @@
+import type Database from 'better-sqlite3';
+import type {
+  BookFormat,
+  LibrarySearchBookResult,
+  LibrarySearchIndexStatus,
+  SearchLibraryRequest,
+  SearchLibraryResult,
+  SearchSnippetPart
+} from '../shared/ipc';
+import { extractBookText } from './book-text';
+
+type IndexableBookRow = {
+  id: string;
+  format: BookFormat;
+  file_path: string | null;
+};
+
+type SearchHitRow = {
+  rowid: number;
+  book_id: string;
+  locator: string;
+  label: string | null;
+  snippet: string;
+  title: string;
+  author: string | null;
+  format: BookFormat;
+};
+
+// Bump when extraction changes so existing books are re-indexed in the background.
+const TEXT_INDEX_VERSION = 1;
+const MAX_QUERY_TERMS = 12;
+const MAX_SEARCH_ROWS = 400;
+const MAX_HITS_PER_BOOK = 5;
+const SNIPPET_TOKENS = 16;
+export const MATCH_START = '\u0002';
+export const MATCH_END = '\u0003';
+const indexQueue: Array<{ db: Database.Database; bookId: string }> = [];
+const queuedBookIds = new Set<string>();
+let indexing = false;
+
+function writeIndexState(
+  db: Database.Database,
+  bookId: string,
+  status: 'indexed' | 'failed',
+  chunkCount: number,
+  error: string | null
+) {
+  db.prepare(
+    `INSERT INTO book_text_index (book_id, version, status, chunk_count, error, indexed_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(book_id) DO UPDATE SET
+       version = excluded.version,
+       status = excluded.status,
+       chunk_count = excluded.chunk_count,
+       error = excluded.error,
+       indexed_at = excluded.indexed_at`
+  ).run(bookId, TEXT_INDEX_VERSION, status, chunkCount, error, Date.now());
+}
+
+async function indexBookText(db: Database.Database, bookId: string) {
+  const book = db.prepare('SELECT id, format, file_path FROM books WHERE id = ? LIMIT 1').get(bookId) as
+    | IndexableBookRow
+    | undefined;
+  const filePath = book?.file_path?.trim();
+  if (!book || !filePath) {
+    return;
+  }
+
+  try {
+    const chunks = await extractBookText(filePath, book.format);
+    // The book may have been deleted while its text was being extracted.
+    if (!db.prepare('SELECT 1 FROM books WHERE id = ? LIMIT 1').get(bookId)) {
+      return;
+    }
+
+    const insert = db.prepare('INSERT INTO book_text_fts (book_id, locator, label, content) VALUES (?, ?, ?, ?)');
+    db.transaction(() => {
+      db.prepare('DELETE FROM book_text_fts WHERE book_id = ?').run(bookId);
+      for (const chunk of chunks) {
+        insert.run(bookId, chunk.locator, chunk.label, chunk.text);
+      }
+      writeIndexState(db, bookId, 'indexed', chunks.length, null);
+    })();
+  } catch (error) {
+    console.warn('Failed to index book text', bookId, error);
+    if (db.prepare('SELECT 1 FROM books WHERE id = ? LIMIT 1').get(bookId)) {
+      writeIndexState(db, bookId, 'failed', 0, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+// Books are indexed one at a time: PDF text extraction runs on the main thread.
+async function drainIndexQueue() {
+  if (indexing) {
+    return;
+  }
+
+  indexing = true;
+  try {
+    for (let next = indexQueue.shift(); next; next = indexQueue.shift()) {
+      await indexBookText(next.db, next.bookId);
+      queuedBookIds.delete(next.bookId);
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  } finally {
+    indexing = false;
+  }
+}
+
+export function queueBookTextIndex(db: Database.Database, bookId: string) {
+  if (queuedBookIds.has(bookId)) {
+    return;
+  }
+
+  queuedBookIds.add(bookId);
+  indexQueue.push({ db, bookId });
+  void drainIndexQueue();
+}
+
+export function indexLibraryTextInBackground(db: Database.Database, userId: string) {
+  const pending = db
+    .prepare(
+      `SELECT b.id
+       FROM books b
+       LEFT JOIN book_text_index ti ON ti.book_id = b.id
+       WHERE b.user_id = ? AND b.file_path IS NOT NULL AND (ti.book_id IS NULL OR ti.version < ?)
+       ORDER BY b.created_at DESC`
+    )
+    .all(userId, TEXT_INDEX_VERSION) as Array<{ id: string }>;
+
+  for (const book of pending) {
+    queueBookTextIndex(db, book.id);
+  }
+}
+
+export function deleteBookTextIndex(db: Database.Database, bookId: string) {
+  db.prepare('DELETE FROM book_text_fts WHERE book_id = ?').run(bookId);
+  db.prepare('DELETE FROM book_text_index WHERE book_id = ?').run(bookId);
+}
+
+// Words become prefix terms that must all match; "quoted text" stays an exact phrase.
+function toFtsQuery(query: string): string | null {
+  const terms: string[] = [];
+  for (const match of query.normalize('NFKC').matchAll(/"([^"]*)"|([^\s"]+)/g)) {
+    const words = (match[1] ?? match[2] ?? '').split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    if (words.length === 0) {
+      continue;
+    }
+    terms.push(match[1] !== undefined ? `"${words.join(' ')}"` : words.map((word) => `"${word}"*`).join(' '));
+  }
+
+  return terms.length > 0 ? terms.slice(0, MAX_QUERY_TERMS).join(' ') : null;
+}
+
+export function parseSnippet(snippet: string): SearchSnippetPart[] {
+  const parts: SearchSnippetPart[] = [];
+  for (const segment of snippet.split(MATCH_START)) {
+    const [matched, rest] = segment.includes(MATCH_END) ? segment.split(MATCH_END) : [null, segment];
+    if (matched) {
+      parts.push({ text: matched, match: true });
+    }
+    if (rest) {
+      parts.push({ text: rest, match: false });
+    }
+  }
+  return parts;
+}
+
+function getIndexStatus(db: Database.Database, userId: string): LibrarySearchIndexStatus {
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) AS total,
+              SUM(CASE WHEN ti.status = 'indexed' AND ti.version = ? THEN 1 ELSE 0 END) AS indexed,
+              SUM(CASE WHEN ti.status = 'failed' AND ti.version = ? THEN 1 ELSE 0 END) AS failed
+       FROM books b
+       LEFT JOIN book_text_index ti ON ti.book_id = b.id
+       WHERE b.user_id = ? AND b.file_path IS NOT NULL`
+    )
+    .get(TEXT_INDEX_VERSION, TEXT_INDEX_VERSION, userId) as { total: number; indexed: number | null; failed: number | null };
+
+  return {
+    totalBooks: row.total,
+    indexedBooks: row.indexed ?? 0,
+    failedBooks: row.failed ?? 0,
+    indexing: indexing || indexQueue.length > 0
+  };
+}
+
+export function searchLibrary(db: Database.Database, userId: string, payload: SearchLibraryRequest): SearchLibraryResult {
+  indexLibraryTextInBackground(db, userId);
+  const status = getIndexStatus(db, userId);
+  const ftsQuery = toFtsQuery(typeof payload?.query === 'string' ? payload.query : '');
+  if (!ftsQuery) {
+    return { ok: true, results: [], status };
+  }
+
+  let rows: SearchHitRow[];
+  let counts: Array<{ book_id: string; count: number }>;
+  try {
+    rows = db
+      .prepare(
+        `SELECT book_text_fts.rowid AS rowid, book_text_fts.book_id AS book_id, locator, label,
+                snippet(book_text_fts, 3, ?, ?, '…', ?) AS snippet, b.title, b.author, b.format
+         FROM book_text_fts
+         JOIN books b ON b.id = book_text_fts.book_id
+         WHERE book_text_fts MATCH ? AND b.user_id = ?
+         ORDER BY book_text_fts.rank
+         LIMIT ?`
+      )
+      .all(MATCH_START, MATCH_END, SNIPPET_TOKENS, ftsQuery, userId, MAX_SEARCH_ROWS) as SearchHitRow[];
+    counts = db
+      .prepare(
+        `SELECT book_text_fts.book_id AS book_id, COUNT(*) AS count
+         FROM book_text_fts
+         JOIN books b ON b.id = book_text_fts.book_id
+         WHERE book_text_fts MATCH ? AND b.user_id = ?
+         GROUP BY book_text_fts.book_id`
+      )
+      .all(ftsQuery, userId) as Array<{ book_id: string; count: number }>;
+  } catch {
+    return { ok: false, error: 'Search query could not be processed.' };
+  }
+
+  const hitCounts = new Map(counts.map((row) => [row.book_id, row.count]));
+  const results = new Map<string, LibrarySearchBookResult>();
+  // Rows arrive best-first, so books keep the order of their strongest hit.
+  for (const row of rows) {
+    const result = results.get(row.book_id) ?? {
+      bookId: row.book_id,
+      title: row.title,
+      author: row.author,
+      format: row.format,
+      hitCount: hitCounts.get(row.book_id) ?? 0,
+      hits: []
+    };
+    results.set(row.book_id, result);
+    if (result.hits.length >= MAX_HITS_PER_BOOK) {
+      continue;
+    }
+
+    const page = row.format === 'pdf' ? Number.parseInt(row.locator, 10) : Number.NaN;
+    result.hits.push({
+      id: String(row.rowid),
+      page: Number.isFinite(page) ? page : null,
+      cfi: row.format === 'pdf' ? null : row.locator,
+      label: row.label,
+      snippet: parseSnippet(row.snippet)
+    });
+  }
+
+  return { ok: true, results: [...results.values()], status };
+}
@@ -0,0 +1,585 @@
+import { createHash, randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import type { BrowserWindow, OpenDialogOptions } from 'electron';
+import { dialog } from 'electron';
+import type {
+  SyncChooseFolderResult,
+  SyncNowResult,
+  SyncStatus,
+  SyncStatusResult,
+  SyncSummary
+} from '../shared/ipc';
+import { deleteTableRows, dumpTables, upsertTableRow, type BackupRow } from './backup-tables';
+import { deleteBook } from './books';
+import { indexLibraryTextInBackground } from './library-search';
+import type { ReaderBackupTable, ReaderProgressDb } from './reader-progress-db';
+
+type SyncKind =
+  | 'book'
+  | 'reader_settings'
+  | 'note'
+  | 'highlight'
+  | 'highlight_category'
+  | 'bookmark'
+  | 'epub_bookmark'
+  | 'progress'
+  | 'progress_epub'
+  | 'progress_flow';
+
+type SyncKindSpec =
+  | { kind: SyncKind; source: 'auth'; table: 'books' | 'reader_settings'; keyColumns: string[]; timestampColumn: string | null }
+  | { kind: SyncKind; source: 'reader'; table: ReaderBackupTable; keyColumns: string[]; timestampColumn: string | null };
+
+// One line of a device's change log; a deleted entry is a tombstone and carries no data.
+type SyncLogEntry = {
+  deviceId: string;
+  kind: SyncKind;
+  key: string;
+  updatedAt: number;
+  deleted: boolean;
+  data: BackupRow | null;
+};
+
+type LocalRecord = {
+  spec: SyncKindSpec;
+  key: string;
+  data: BackupRow;
+  digest: string;
+  timestamp: number | null;
+};
+
+type SyncRecordRow = {
+  kind: SyncKind;
+  record_key: string;
+  digest: string | null;
+  updated_at: number;
+  device_id: string;
+};
+
+type SyncSettingsRow = {
+  device_id: string;
+  folder_path: string | null;
+  last_synced_at: number | null;
+  last_error: string | null;
+};
+
+type SyncContext = {
+  db: Database.Database;
+  readerDb: ReaderProgressDb;
+  userId: string;
+  userDataPath: string;
+  folderPath: string;
+  deviceId: string;
+};
+
+const SYNC_INTERVAL_MS = 60_000;
+const CHANGES_FOLDER = 'changes';
+const BOOKS_FOLDER = 'books';
+const LOG_EXTENSION = '.jsonl';
+
+// Bookmarks are keyed by position rather than id because each device generates its own ids.
+const SYNC_KINDS: SyncKindSpec[] = [
+  { kind: 'book', source: 'auth', table: 'books', keyColumns: ['id'], timestampColumn: null },
+  { kind: 'reader_settings', source: 'auth', table: 'reader_settings', keyColumns: [], timestampColumn: 'updated_at' },
+  { kind: 'note', source: 'reader', table: 'notes', keyColumns: ['id'], timestampColumn: 'updated_at' },
+  { kind: 'highlight', source: 'reader', table: 'highlights', keyColumns: ['id'], timestampColumn: 'updated_at' },
+  {
+    kind: 'highlight_category',
+    source: 'reader',
+    table: 'highlight_categories',
+    keyColumns: ['color'],
+    timestampColumn: 'updated_at'
+  },
+  { kind: 'bookmark', source: 'reader', table: 'bookmarks', keyColumns: ['book_id', 'page'], timestampColumn: 'created_at' },
+  {
+    kind: 'epub_bookmark',
+    source: 'reader',
+    table: 'epub_bookmarks',
+    keyColumns: ['book_id', 'cfi'],
+    timestampColumn: 'created_at'
+  },
+  { kind: 'progress', source: 'reader', table: 'reading_progress', keyColumns: ['book_id'], timestampColumn: 'updated_at' },
+  {
+    kind: 'progress_epub',
+    source: 'reader',
+    table: 'reading_progress_epub',
+    keyColumns: ['book_id'],
+    timestampColumn: 'updated_at'
+  },
+  {
+    kind: 'progress_flow',
+    source: 'reader',
+    table: 'reading_progress_flow',
+    keyColumns: ['book_id'],
+    timestampColumn: 'updated_at'
+  }
+];
+
+const SYNC_KINDS_BY_NAME = new Map(SYNC_KINDS.map((spec) => [spec.kind, spec]));
+
+// One run per profile; a second request while it runs joins the pending one.
+const activeSyncs = new Map<string, Promise<SyncNowResult>>();
+
+async function fileExists(filePath: string) {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function recordId(kind: SyncKind, key: string) {
+  return `${kind}\u0000${key}`;
+}
+
+function recordKey(spec: SyncKindSpec, row: BackupRow): string {
+  return JSON.stringify(spec.keyColumns.map((column) => row[column] ?? null));
+}
+
+function keyMatch(spec: SyncKindSpec, key: string): BackupRow {
+  const values = JSON.parse(key) as unknown[];
+  return Object.fromEntries(spec.keyColumns.map((column, index) => [column, values[index] ?? null]));
+}
+
+function sharedBookPath(bookId: string, filePath: string) {
+  return `${BOOKS_FOLDER}/${bookId}/${path.basename(filePath)}`;
+}
+
+function resolveSharedPath(rootPath: string, relativePath: string) {
+  return path.join(rootPath, ...relativePath.split('/').filter((part) => part && part !== '..'));
+}
+
+// Book files live under userData on every device, so the log only carries their relative location.
+function toSyncData(spec: SyncKindSpec, row: BackupRow): BackupRow {
+  const { user_id: _userId, ...data } = row;
+  if (spec.kind === 'book') {
+    data.file_path = typeof row.file_path === 'string' ? sharedBookPath(String(row.id), row.file_path) : null;
+  }
+  return data;
+}
+
+function digestOf(data: BackupRow) {
+  return createHash('sha1').update(JSON.stringify(data)).digest('hex');
+}
+
+function collectLocalRecords(context: SyncContext): Map<string, LocalRecord> {
+  const authDump = dumpTables(context.db, ['books', 'reader_settings'], context.userId);
+  const readerDump = context.readerDb.dumpBackupTables(context.userId);
+  const records = new Map<string, LocalRecord>();
+
+  for (const spec of SYNC_KINDS) {
+    const rows = (spec.source === 'auth' ? authDump : readerDump)[spec.table] ?? [];
+    for (const row of rows) {
+      const key = recordKey(spec, row);
+      const data = toSyncData(spec, row);
+      const timestamp = spec.timestampColumn ? Number(row[spec.timestampColumn]) : NaN;
+      records.set(recordId(spec.kind, key), {
+        spec,
+        key,
+        data,
+        digest: digestOf(data),
+        timestamp: Number.isFinite(timestamp) ? timestamp : null
+      });
+    }
+  }
+
+  return records;
+}
+
+function loadSyncRecords(db: Database.Database, userId: string): Map<string, SyncRecordRow> {
+  const rows = db
+    .prepare('SELECT kind, record_key, digest, updated_at, device_id FROM sync_records WHERE user_id = ?')
+    .all(userId) as SyncRecordRow[];
+  return new Map(rows.map((row) => [recordId(row.kind, row.record_key), row]));
+}
+
+function saveSyncRecord(db: Database.Database, userId: string, record: SyncRecordRow) {
+  db.prepare(
+    `INSERT INTO sync_records (user_id, kind, record_key, digest, updated_at, device_id)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, kind, record_key) DO UPDATE SET
+       digest = excluded.digest,
+       updated_at = excluded.updated_at,
+       device_id = excluded.device_id`
+  ).run(userId, record.kind, record.record_key, record.digest, record.updated_at, record.device_id);
+}
+
+async function copyIfMissing(sourcePath: string, targetPath: string): Promise<boolean> {
+  if ((await fileExists(targetPath)) || !(await fileExists(sourcePath))) {
+    return false;
+  }
+  await fs.mkdir(path.dirname(targetPath), { recursive: true });
+  await fs.copyFile(sourcePath, `${targetPath}.partial`);
+  await fs.rename(`${targetPath}.partial`, targetPath);
+  return true;
+}
+
+// Compares the library with what was last written to or read from the shared folder and appends
+// the differences, including tombstones for removed records, to this device's change log.
+async function publishLocalChanges(context: SyncContext, summary: SyncSummary) {
+  const { db, deviceId, folderPath, userId } = context;
+  const now = Date.now();
+  const known = loadSyncRecords(db, userId);
+  const local = collectLocalRecords(context);
+  const entries: SyncLogEntry[] = [];
+
+  for (const [id, record] of local) {
+    const previous = known.get(id);
+    if (previous?.digest === record.digest) {
+      continue;
+    }
+    entries.push({
+      deviceId,
+      kind: record.spec.kind,
+      key: record.key,
+      updatedAt: Math.max(record.timestamp ?? now, previous ? previous.updated_at + 1 : 0),
+      deleted: false,
+      data: record.data
+    });
+  }
+  for (const [id, previous] of known) {
+    if (previous.digest !== null && !local.has(id)) {
+      entries.push({
+        deviceId,
+        kind: previous.kind,
+        key: previous.record_key,
+        updatedAt: Math.max(now, previous.updated_at + 1),
+        deleted: true,
+        data: null
+      });
+    }
+  }
+  if (entries.length === 0) {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.kind === 'book' && typeof entry.data?.file_path === 'string') {
+      const localPath = resolveSharedPath(context.userDataPath, entry.data.file_path);
+      if (await copyIfMissing(localPath, resolveSharedPath(folderPath, entry.data.file_path))) {
+        summary.copiedFiles += 1;
+      }
+    }
+  }
+
+  await fs.appendFile(
+    path.join(folderPath, CHANGES_FOLDER, `${deviceId}${LOG_EXTENSION}`),
+    entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n',
+    'utf8'
+  );
+  db.transaction(() => {
+    for (const entry of entries) {
+      saveSyncRecord(db, userId, {
+        kind: entry.kind,
+        record_key: entry.key,
+        digest: entry.deleted ? null : digestOf(entry.data ?? {}),
+        updated_at: entry.updatedAt,
+        device_id: deviceId
+      });
+    }
+  })();
+  summary.published += entries.length;
+}
+
+// Only complete lines are consumed, so a log that is still being copied in by the sync tool is
+// picked up on the next run.
+async function readLogFrom(filePath: string, position: number): Promise<{ entries: SyncLogEntry[]; position: number }> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const start = size < position ? 0 : position;
+    const buffer = Buffer.alloc(size - start);
+    await handle.read(buffer, 0, buffer.length, start);
+    const end = buffer.lastIndexOf(0x0a) + 1;
+    const entries: SyncLogEntry[] = [];
+    for (const line of buffer.subarray(0, end).toString('utf8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as SyncLogEntry);
+      } catch {
+        console.warn(`Skipping malformed sync log line in ${filePath}`);
+      }
+    }
+    return { entries, position: start + end };
+  } finally {
+    await handle.close();
+  }
+}
+
+function winsOver(entry: SyncLogEntry, record: SyncRecordRow | undefined) {
+  if (!record) {
+    return true;
+  }
+  return entry.updatedAt > record.updated_at || (entry.updatedAt === record.updated_at && entry.deviceId > record.device_id);
+}
+
+async function applyEntry(context: SyncContext, spec: SyncKindSpec, entry: SyncLogEntry, summary: SyncSummary) {
+  const { db, readerDb, userId, userDataPath, folderPath } = context;
+  const match = keyMatch(spec, entry.key);
+
+  if (spec.kind === 'book') {
+    const bookId = String(match.id);
+    if (entry.deleted) {
+      await deleteBook(db, userId, { bookId }, userDataPath);
+      return;
+    }
+
+    const data = { ...entry.data };
+    if (typeof data.file_path === 'string') {
+      const localPath = resolveSharedPath(userDataPath, data.file_path);
+      if (await copyIfMissing(resolveSharedPath(folderPath, data.file_path), localPath)) {
+        summary.copiedFiles += 1;
+      }
+      data.file_path = localPath;
+    }
+    upsertTableRow(db, spec.table, match, data, userId);
+    return;
+  }
+
+  if (spec.source === 'auth') {
+    if (entry.deleted) {
+      deleteTableRows(db, spec.table, match, userId);
+    } else {
+      upsertTableRow(db, spec.table, match, entry.data ?? {}, userId);
+    }
+  } else if (entry.deleted) {
+    readerDb.deleteSyncedRows(userId, spec.table, match);
+  } else {
+    readerDb.upsertSyncedRow(userId, spec.table, match, entry.data ?? {});
+  }
+}
+
+// Last writer wins per record; equal timestamps are settled by device id so every device
+// converges on the same value.
+async function pullRemoteChanges(context: SyncContext, summary: SyncSummary) {
+  const { db, deviceId, folderPath, userId } = context;
+  const changesPath = path.join(folderPath, CHANGES_FOLDER);
+  const known = loadSyncRecords(db, userId);
+  const applied = new Set<string>();
+
+  for (const fileName of await fs.readdir(changesPath)) {
+    const remoteDeviceId = fileName.endsWith(LOG_EXTENSION) ? fileName.slice(0, -LOG_EXTENSION.length) : null;
+    if (!remoteDeviceId || remoteDeviceId === deviceId) {
+      continue;
+    }
+
+    const cursor = db
+      .prepare('SELECT position FROM sync_cursors WHERE user_id = ? AND remote_device_id = ?')
+      .get(userId, remoteDeviceId) as { position: number } | undefined;
+    const { entries, position } = await readLogFrom(path.join(changesPath, fileName), cursor?.position ?? 0);
+
+    for (const entry of entries) {
+      const spec = SYNC_KINDS_BY_NAME.get(entry.kind);
+      if (!spec || typeof entry.key !== 'string' || typeof entry.updatedAt !== 'number') {
+        continue;
+      }
+      const id = recordId(entry.kind, entry.key);
+      const record = known.get(id);
+      if (!winsOver(entry, record)) {
+        continue;
+      }
+
+      try {
+        await applyEntry(context, spec, entry, summary);
+      } catch (error) {
+        console.warn(`Failed to apply synced ${entry.kind}`, error);
+        continue;
+      }
+      const next: SyncRecordRow = {
+        kind: entry.kind,
+        record_key: entry.key,
+        digest: null,
+        updated_at: entry.updatedAt,
+        device_id: entry.deviceId
+      };
+      known.set(id, next);
+      applied.add(id);
+    }
+
+    db.prepare(
+      `INSERT INTO sync_cursors (user_id, remote_device_id, position, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(user_id, remote_device_id) DO UPDATE SET position = excluded.position, updated_at = excluded.updated_at`
+    ).run(userId, remoteDeviceId, position, Date.now());
+  }
+
+  if (applied.size === 0) {
+    return;
+  }
+
+  // Digests come from the rows as stored here, so a schema difference between app versions does
+  // not make the applied records look locally modified on the next run.
+  const local = collectLocalRecords(context);
+  db.transaction(() => {
+    for (const id of applied) {
+      const record = known.get(id);
+      if (record) {
+        saveSyncRecord(db, userId, { ...record, digest: local.get(id)?.digest ?? null });
+      }
+    }
+  })();
+  summary.applied += applied.size;
+}
+
+async function restoreMissingBookFiles(context: SyncContext, summary: SyncSummary) {
+  const books = context.db
+    .prepare('SELECT id, file_path FROM books WHERE user_id = ? AND file_path IS NOT NULL')
+    .all(context.userId) as Array<{ id: string; file_path: string }>;
+  for (const book of books) {
+    const sharedPath = resolveSharedPath(context.folderPath, sharedBookPath(book.id, book.file_path));
+    if (await copyIfMissing(sharedPath, book.file_path)) {
+      summary.copiedFiles += 1;
+    }
+  }
+}
+
+function getSyncSettings(db: Database.Database, userId: string): SyncSettingsRow {
+  const existing = db
+    .prepare('SELECT device_id, folder_path, last_synced_at, last_error FROM sync_settings WHERE user_id = ? LIMIT 1')
+    .get(userId) as SyncSettingsRow | undefined;
+  if (existing) {
+    return existing;
+  }
+
+  const created: SyncSettingsRow = { device_id: randomUUID(), folder_path: null, last_synced_at: null, last_error: null };
+  db.prepare('INSERT INTO sync_settings (user_id, device_id, folder_path, updated_at) VALUES (?, ?, NULL, ?)').run(
+    userId,
+    created.device_id,
+    Date.now()
+  );
+  return created;
+}
+
+function toSyncStatus(settings: SyncSettingsRow, userId: string): SyncStatus {
+  return {
+    deviceId: settings.device_id,
+    folderPath: settings.folder_path,
+    lastSyncedAt: settings.last_synced_at,
+    lastError: settings.last_error,
+    syncing: activeSyncs.has(userId)
+  };
+}
+
+export function getSyncStatus(db: Database.Database, userId: string): SyncStatusResult {
+  return { ok: true, status: toSyncStatus(getSyncSettings(db, userId), userId) };
+}
+
+async function runLibrarySync(
+  db: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  userDataPath: string
+): Promise<SyncNowResult> {
+  const settings = getSyncSettings(db, userId);
+  if (!settings.folder_path) {
+    return { ok: false, error: 'Sync folder is not configured.' };
+  }
+
+  const context: SyncContext = {
+    db,
+    readerDb,
+    userId,
+    userDataPath,
+    folderPath: settings.folder_path,
+    deviceId: settings.device_id
+  };
+  const summary: SyncSummary = { published: 0, applied: 0, copiedFiles: 0 };
+  let lastError: string | null = null;
+  try {
+    await fs.mkdir(path.join(context.folderPath, CHANGES_FOLDER), { recursive: true });
+    await publishLocalChanges(context, summary);
+    await pullRemoteChanges(context, summary);
+    await restoreMissingBookFiles(context, summary);
+  } catch (error) {
+    console.warn('Library sync failed', error);
+    lastError = 'Failed to sync with the shared folder.';
+  }
+
+  db.prepare('UPDATE sync_settings SET last_synced_at = ?, last_error = ?, updated_at = ? WHERE user_id = ?').run(
+    lastError ? settings.last_synced_at : Date.now(),
+    lastError,
+    Date.now(),
+    userId
+  );
+  if (summary.applied > 0) {
+    indexLibraryTextInBackground(db, userId);
+  }
+
+  const status = toSyncStatus(getSyncSettings(db, userId), userId);
+  return lastError ? { ok: false, error: lastError } : { ok: true, status: { ...status, syncing: false }, summary };
+}
+
+export function syncLibraryNow(
+  db: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  userDataPath: string
+): Promise<SyncNowResult> {
+  const pending = activeSyncs.get(userId);
+  if (pending) {
+    return pending;
+  }
+
+  const run = runLibrarySync(db, readerDb, userId, userDataPath).finally(() => {
+    activeSyncs.delete(userId);
+  });
+  activeSyncs.set(userId, run);
+  return run;
+}
+
+export async function chooseSyncFolder(
+  db: Database.Database,
+  userId: string,
+  ownerWindow: BrowserWindow | null
+): Promise<SyncChooseFolderResult> {
+  const dialogOptions: OpenDialogOptions = {
+    title: 'Choose sync folder',
+    properties: ['openDirectory', 'createDirectory']
+  };
+  const pickerResult = ownerWindow
+    ? await dialog.showOpenDialog(ownerWindow, dialogOptions)
+    : await dialog.showOpenDialog(dialogOptions);
+  if (pickerResult.canceled || pickerResult.filePaths.length === 0) {
+    return { ok: false, cancelled: true };
+  }
+
+  getSyncSettings(db, userId);
+  db.prepare('UPDATE sync_settings SET folder_path = ?, last_error = NULL, updated_at = ? WHERE user_id = ?').run(
+    pickerResult.filePaths[0],
+    Date.now(),
+    userId
+  );
+  return getSyncStatus(db, userId);
+}
+
+export function disableSync(db: Database.Database, userId: string): SyncStatusResult {
+  getSyncSettings(db, userId);
+  db.prepare('UPDATE sync_settings SET folder_path = NULL, last_error = NULL, updated_at = ? WHERE user_id = ?').run(
+    Date.now(),
+    userId
+  );
+  return getSyncStatus(db, userId);
+}
+
+export function startLibrarySync(
+  db: Database.Database,
+  readerDb: ReaderProgressDb,
+  userId: string,
+  userDataPath: string,
+  onSynced: (result: SyncNowResult) => void
+): () => void {
+  const tick = () => {
+    if (!getSyncSettings(db, userId).folder_path) {
+      return;
+    }
+    void syncLibraryNow(db, readerDb, userId, userDataPath).then(onSynced);
+  };
+
+  tick();
+  const timer = setInterval(tick, SYNC_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,206 @@
+// Reads the data-only Lua tables KOReader writes to its .sdr metadata files.
+export type LuaValue = string | number | boolean | null | LuaTable;
+export type LuaTable = { [key: string]: LuaValue };
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', a: '\x07', b: '\b', f: '\f', v: '\v' };
+
+class LuaReader {
+  private index = 0;
+
+  constructor(private readonly source: string) {}
+
+  private fail(message: string): never {
+    throw new Error(`${message} at offset ${this.index}`);
+  }
+
+  private skipTrivia() {
+    for (;;) {
+      const whitespace = /\s*/y;
+      whitespace.lastIndex = this.index;
+      whitespace.exec(this.source);
+      this.index = whitespace.lastIndex;
+      if (!this.source.startsWith('--', this.index)) {
+        return;
+      }
+
+      const longComment = /^--\[(=*)\[/.exec(this.source.slice(this.index, this.index + 32));
+      if (longComment) {
+        const close = this.source.indexOf(`]${longComment[1]}]`, this.index);
+        this.index = close < 0 ? this.source.length : close + longComment[1].length + 2;
+      } else {
+        const lineEnd = this.source.indexOf('\n', this.index);
+        this.index = lineEnd < 0 ? this.source.length : lineEnd + 1;
+      }
+    }
+  }
+
+  private peek(): string {
+    this.skipTrivia();
+    return this.source[this.index] ?? '';
+  }
+
+  private expect(token: string) {
+    if (this.peek() !== token) {
+      this.fail(`Expected "${token}"`);
+    }
+    this.index += 1;
+  }
+
+  private readQuoted(): string {
+    const quote = this.source[this.index];
+    this.index += 1;
+    let result = '';
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+      this.index += 1;
+      if (char === quote) {
+        return result;
+      }
+      if (char !== '\\') {
+        result += char;
+        continue;
+      }
+
+      const next = this.source[this.index] ?? '';
+      const digits = /^\d{1,3}/.exec(this.source.slice(this.index, this.index + 3));
+      if (digits) {
+        // Decimal escapes are bytes; KOReader only emits them for control characters.
+        result += String.fromCharCode(Number(digits[0]));
+        this.index += digits[0].length;
+      } else if (next === '\n') {
+        result += '\n';
+        this.index += 1;
+      } else {
+        result += ESCAPES[next] ?? next;
+        this.index += 1;
+      }
+    }
+    return this.fail('Unterminated string');
+  }
+
+  private readLongString(): string | null {
+    const open = /^\[(=*)\[/.exec(this.source.slice(this.index, this.index + 32));
+    if (!open) {
+      return null;
+    }
+    const start = this.index + open[0].length;
+    const close = this.source.indexOf(`]${open[1]}]`, start);
+    if (close < 0) {
+      this.fail('Unterminated long string');
+    }
+    this.index = close + open[1].length + 2;
+    return this.source.slice(start, close).replace(/^\r?\n/, '');
+  }
+
+  private readWord(): string {
+    const word = /[A-Za-z_][A-Za-z0-9_]*/y;
+    word.lastIndex = this.index;
+    const match = word.exec(this.source);
+    if (!match) {
+      this.fail('Unexpected token');
+    }
+    this.index = word.lastIndex;
+    return match[0];
+  }
+
+  private readNumber(): number {
+    const number = /-?(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/y;
+    number.lastIndex = this.index;
+    const match = number.exec(this.source);
+    if (!match) {
+      this.fail('Invalid number');
+    }
+    this.index = number.lastIndex;
+    return Number(match[0]);
+  }
+
+  readValue(): LuaValue {
+    const char = this.peek();
+    if (char === '{') {
+      return this.readTable();
+    }
+    if (char === '"' || char === "'") {
+      return this.readQuoted();
+    }
+    if (char === '[') {
+      const long = this.readLongString();
+      if (long !== null) {
+        return long;
+      }
+    }
+    if (/[-\d.]/.test(char)) {
+      return this.readNumber();
+    }
+
+    const word = this.readWord();
+    if (word === 'true' || word === 'false') {
+      return word === 'true';
+    }
+    if (word === 'nil') {
+      return null;
+    }
+    return this.fail(`Unsupported value "${word}"`);
+  }
+
+  private readTable(): LuaTable {
+    this.expect('{');
+    const table: LuaTable = {};
+    let arrayIndex = 1;
+
+    while (this.peek() !== '}') {
+      let key: string;
+      if (this.peek() === '[' && !/^\[=*\[/.test(this.source.slice(this.index, this.index + 32))) {
+        this.index += 1;
+        key = String(this.readValue());
+        this.expect(']');
+        this.expect('=');
+      } else {
+        const save = this.index;
+        const word = /[A-Za-z_][A-Za-z0-9_]*\s*=(?!=)/y;
+        word.lastIndex = save;
+        const named = word.exec(this.source);
+        if (named) {
+          key = named[0].replace(/\s*=$/, '');
+          this.index = word.lastIndex;
+        } else {
+          key = String(arrayIndex);
+          arrayIndex += 1;
+        }
+      }
+
+      table[key] = this.readValue();
+      const separator = this.peek();
+      if (separator === ',' || separator === ';') {
+        this.index += 1;
+      } else if (separator !== '}') {
+        this.fail('Expected "," or "}"');
+      }
+    }
+
+    this.expect('}');
+    return table;
+  }
+
+  readChunk(): LuaValue {
+    this.skipTrivia();
+    if (this.source.startsWith('return', this.index)) {
+      this.index += 'return'.length;
+    }
+    return this.readValue();
+  }
+}
+
+export function parseLuaTable(source: string): LuaTable | null {
+  const value = new LuaReader(source).readChunk();
+  return value && typeof value === 'object' ? value : null;
+}
+
+export function luaList(value: LuaValue | undefined): LuaValue[] {
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+  return Object.keys(value)
+    .filter((key) => /^\d+$/.test(key))
+    .sort((left, right) => Number(left) - Number(right))
+    .map((key) => value[key]);
+}
@@ -1,4 +1,4 @@
-import { app, BrowserWindow, ipcMain } from 'electron';
+import { app, BrowserWindow, ipcMain, Notification } from 'electron';
 import path from 'node:path';
 import {
   type DiscoverDownloadRequest,
@@ -8,7 +8,18 @@ import {
   type BooksGetFb2DataRequest,
   type BooksGetPdfDataRequest,
   type BooksGetTxtDataRequest,
+  type BooksGetDocumentDataRequest,
+  type BooksGetComicPagesRequest,
   type BooksRevealRequest,
+  type BooksSetStatusRequest,
+  type BooksApplyMetadataMatchRequest,
+  type BooksSearchMetadataMatchesRequest,
+  type BooksUpdateMetadataRequest,
+  type BooksUpdateTagsRequest,
+  type CollectionsCreateRequest,
+  type CollectionsDeleteRequest,
+  type CollectionsRenameRequest,
+  type CollectionsUpdateBooksRequest,
   type FlowProgressGetRequest,
   type FlowProgressSetRequest,
   IPC_CHANNELS,
@@ -20,7 +31,11 @@ import {
   type EpubProgressGetRequest,
   type EpubProgressSetRequest,
   type ExportGetBookDataRequest,
+  type ExportLibraryRequest,
+  type ExportSaveBooksRequest,
   type ExportSaveFileRequest,
+  type ExportTemplatesDeleteRequest,
+  type ExportTemplatesSaveRequest,
   type BookmarksListRequest,
   type BookmarksToggleRequest,
   type BookmarksRemoveRequest,
@@ -33,23 +48,76 @@ import {
   type HighlightsInsertRawRequest,
   type HighlightsListRequest,
   type HighlightsUpdateNoteRequest,
-  type ReaderSettingsGetRequest,
+  type HighlightsUpdateColorRequest,
+  type HighlightCategoriesSetRequest,
+  type ProfilesCreateRequest,
+  type ProfilesDeleteRequest,
+  type ProfilesSwitchRequest,
+  type ProfilesUpdateRequest,
+  type ReaderSettingsGetBookRequest,
+  type ReaderSettingsSetBookRequest,
   type ReaderSettingsUpdateRequest,
   type ProgressGetLastPageRequest,
   type ProgressSetLastPageRequest,
   type StatsMarkOpenedRequest,
+  type StatsHeartbeatRequest,
+  type StatsListSessionsRequest,
+  type StatsGetOverviewRequest,
+  type GoalsDeleteRequest,
+  type GoalsSaveRequest,
+  type GoalsSetReminderRequest,
   type RecommendationsForBookRequest,
   type WishlistRemoveRequest,
   type WishlistSaveRequest,
   type WishlistUpdateRequest,
   type AiSummariesDeleteRequest,
   type AiSummariesGetRequest,
-  type AiSummariesSaveRequest
+  type AiSummariesSaveRequest,
+  type SearchAnnotationsRequest,
+  type SearchLibraryRequest,
+  type AnnotationsImportLocateRequest,
+  type BackupRestoreRequest,
+  type BooksImportPathsRequest,
+  type BooksMergeDuplicatesRequest,
+  type SyncNowResult,
+  type WatchFoldersRemoveRequest
 } from '../shared/ipc';
 import { getDatabase, LOCAL_DB_ID } from './db';
+import { registerBookProtocol, registerBookProtocolScheme } from './book-protocol';
 import { deleteAiSummary, getAiSummary, listAiSummaries, saveAiSummary } from './ai-summaries';
-import { addSampleBook, deleteBook, getEpubData, getFb2Data, getPdfData, getTxtData, importBook, listBooks, revealBook } from './books';
+import { locateAnnotationImport, previewAnnotationImport } from './annotation-import';
+import { searchAnnotations } from './annotation-search';
+import { createLibraryBackup, inspectLibraryBackup, restoreLibraryBackup } from './backup';
+import { listDuplicateBooks, mergeDuplicateBooks } from './book-duplicates';
+import {
+  addSampleBook,
+  applyBookMetadataMatch,
+  deleteBook,
+  getEpubData,
+  getFb2Data,
+  getPdfData,
+  getTxtData,
+  getDocumentData,
+  getComicPages,
+  chooseBookFiles,
+  listBooks,
+  revealBook,
+  searchBookMetadataMatches,
+  setBookStatus,
+  updateBookMetadata,
+  updateBookTags
+} from './books';
+import {
+  addBooksToCollection,
+  createCollection,
+  deleteCollection,
+  listCollections,
+  removeBooksFromCollection,
+  renameCollection
+} from './collections';
 import { downloadDiscoverBook, searchDiscoverBooks } from './discover';
+import { deleteGoal, listGoals, saveGoal, setGoalReminder, takeDueGoalReminder } from './goals';
+import { searchLibrary } from './library-search';
 import { createNote, deleteNote, listNotes, updateNote } from './notes';
 import {
   createEpubHighlight,
@@ -57,38 +125,106 @@ import {
   deleteHighlight,
   insertRawHighlight,
   listEpubHighlights,
+  listHighlightCategories,
   listHighlights,
+  setHighlightCategory,
+  updateHighlightColor,
   updateHighlightNote
 } from './highlights';
 import { listBookmarks, removeBookmark, toggleBookmark } from './bookmarks';
 import { listEpubBookmarks, toggleEpubBookmark } from './epub-bookmarks';
-import { getBookExportData, saveExportFile } from './export';
+import { exportLibrary, getBookExportData, saveBooksExport, saveExportFile } from './export';
+import { deleteExportTemplate, listExportTemplates, saveExportTemplate } from './export-templates';
 import { getEpubProgress, setEpubProgress } from './epub-progress';
 import { getFlowProgress, setFlowProgress } from './flow-progress';
 import { getReaderProgressDb } from './reader-progress-db';
-import { getReaderSettings, updateReaderSettings } from './reader-settings';
-import { getRecentBooks, markBookOpened } from './reading-stats';
+import {
+  getBookReaderSettings,
+  getReaderSettings,
+  setBookReaderSettings,
+  updateReaderSettings
+} from './reader-settings';
+import {
+  getReadingOverview,
+  getRecentBooks,
+  listReadingSessions,
+  markBookOpened,
+  recordReadingHeartbeat
+} from './reading-stats';
 import { getHomeRecommendations, getRecommendationsForBook } from './recommendations';
+import { chooseSyncFolder, disableSync, getSyncStatus, startLibrarySync, syncLibraryNow } from './library-sync';
+import {
+  addWatchFolder,
+  clearImportActivity,
+  importBookFolder,
+  importBookPaths,
+  listWatchFolders,
+  removeWatchFolder,
+  startWatchFolders,
+  stopWatchFolders
+} from './watch-folders';
+import { extractBookPaths, queueOpenPaths, startOpenWith, stopOpenWith, takeOpenRequest } from './open-with';
+import {
+  checkProfileAccess,
+  createProfile,
+  deleteProfile,
+  getStartupProfileId,
+  listProfiles,
+  recordProfileSession,
+  updateProfile
+} from './profiles';
 import { listWishlistItems, removeWishlistItem, saveWishlistItem, updateWishlistItem } from './wishlist';
 
 let mainWindow: BrowserWindow | null = null;
 
-function resolveUserIdFromToken(db: ReturnType<typeof getDatabase>, token: string): string {
-  const safeToken = token.trim();
-  if (!safeToken) {
-    return LOCAL_DB_ID;
-  }
+// Lets two instances run side by side with separate libraries, e.g. to try folder sync locally.
+if (process.env.DIPLOMAAPP_USER_DATA_DIR) {
+  app.setPath('userData', path.resolve(process.env.DIPLOMAAPP_USER_DATA_DIR));
+}
 
-  const sessionRow = db
-    .prepare(
-      `SELECT user_id
-       FROM sessions
-       WHERE token = ?
-       LIMIT 1`
-    )
-    .get(safeToken) as { user_id: string } | undefined;
+const GOAL_REMINDER_CHECK_INTERVAL_MS = 60_000;
 
-  return sessionRow?.user_id ?? LOCAL_DB_ID;
+function startGoalReminders(db: ReturnType<typeof getDatabase>, userId: string): () => void {
+  const check = () => {
+    if (!Notification.isSupported()) {
+      return;
+    }
+
+    try {
+      const reminder = takeDueGoalReminder(db, userId);
+      if (!reminder) {
+        return;
+      }
+
+      const notification = new Notification(reminder);
+      notification.on('click', focusMainWindow);
+      notification.show();
+    } catch (error) {
+      console.error('Failed to check reading goal reminder', error);
+    }
+  };
+
+  check();
+  const timer = setInterval(check, GOAL_REMINDER_CHECK_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+function focusMainWindow() {
+  if (!mainWindow) {
+    createWindow();
+    return;
+  }
+  if (mainWindow.isMinimized()) {
+    mainWindow.restore();
+  }
+  mainWindow.focus();
+}
+
+function notifySyncChanged(result: SyncNowResult) {
+  if (result.ok && result.summary.applied > 0) {
+    mainWindow?.webContents.send(IPC_CHANNELS.syncChanged, result.summary);
+  }
+  return result;
 }
 
 function createWindow() {
@@ -119,12 +255,44 @@ function createWindow() {
   }
 }
 
-app.whenReady().then(() => {
+function startApp() {
   const userDataPath = app.getPath('userData');
   const db = getDatabase(userDataPath);
   const progressDb = getReaderProgressDb(userDataPath);
-  const libraryId = LOCAL_DB_ID;
-  progressDb.migrateLegacyUserData(libraryId);
+  progressDb.migrateLegacyUserData(LOCAL_DB_ID);
+
+  // Every handler reads the active profile at call time; null while a PIN-protected profile waits to be unlocked.
+  let libraryId: string | null = null;
+  let stopProfileServices: Array<() => void> = [];
+  const requireLibraryId = () => {
+    if (!libraryId) {
+      throw new Error('Choose a profile first.');
+    }
+    return libraryId;
+  };
+  const deactivateProfile = () => {
+    for (const stop of stopProfileServices) {
+      stop();
+    }
+    stopProfileServices = [];
+    stopWatchFolders();
+    stopOpenWith();
+    libraryId = null;
+  };
+  const activateProfile = (userId: string) => {
+    deactivateProfile();
+    libraryId = userId;
+    recordProfileSession(db, userId);
+    stopProfileServices = [
+      startGoalReminders(db, userId),
+      startLibrarySync(db, progressDb, userId, userDataPath, notifySyncChanged)
+    ];
+    startWatchFolders(db, userId, userDataPath, (entries) => {
+      mainWindow?.webContents.send(IPC_CHANNELS.watchFoldersActivity, entries);
+    });
+    startOpenWith({ db, userId, userDataPath, getWindow: () => mainWindow });
+  };
+  registerBookProtocol(db, () => libraryId);
 
   ipcMain.handle(IPC_CHANNELS.ping, (): PingResponse => ({
     ok: true,
@@ -138,113 +306,183 @@ app.whenReady().then(() => {
 
   ipcMain.handle(IPC_CHANNELS.discoverSearch, (_event, payload: DiscoverSearchRequest) => searchDiscoverBooks(db, payload));
   ipcMain.handle(IPC_CHANNELS.discoverDownload, (event, payload: DiscoverDownloadRequest) =>
-    downloadDiscoverBook(db, libraryId, userDataPath, payload, event.sender)
+    downloadDiscoverBook(db, requireLibraryId(), userDataPath, payload, event.sender)
   );
-  ipcMain.handle(IPC_CHANNELS.recommendationsHome, () => getHomeRecommendations(db, libraryId));
+  ipcMain.handle(IPC_CHANNELS.recommendationsHome, () => getHomeRecommendations(db, requireLibraryId()));
   ipcMain.handle(IPC_CHANNELS.recommendationsForBook, (_event, payload: RecommendationsForBookRequest) =>
-    getRecommendationsForBook(db, libraryId, payload)
+    getRecommendationsForBook(db, requireLibraryId(), payload)
   );
-  ipcMain.handle(IPC_CHANNELS.wishlistList, () => listWishlistItems(db, libraryId));
+  ipcMain.handle(IPC_CHANNELS.wishlistList, () => listWishlistItems(db, requireLibraryId()));
   ipcMain.handle(IPC_CHANNELS.wishlistSave, (_event, payload: WishlistSaveRequest) =>
-    saveWishlistItem(db, libraryId, payload)
+    saveWishlistItem(db, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.wishlistRemove, (_event, payload: WishlistRemoveRequest) =>
-    removeWishlistItem(db, libraryId, payload)
+    removeWishlistItem(db, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.wishlistUpdate, (_event, payload: WishlistUpdateRequest) =>
-    updateWishlistItem(db, libraryId, payload)
+    updateWishlistItem(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.booksList, () => listBooks(db, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.booksAddSample, () => addSampleBook(db, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.booksImport, async () => {
+    const paths = await chooseBookFiles(mainWindow);
+    return paths ? importBookPaths(db, requireLibraryId(), userDataPath, { paths }) : { ok: false, error: 'Import canceled.' };
+  });
+  ipcMain.handle(IPC_CHANNELS.booksImportPaths, (_event, payload: BooksImportPathsRequest) =>
+    importBookPaths(db, requireLibraryId(), userDataPath, payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.booksTakeOpenRequest, () => takeOpenRequest());
+  ipcMain.handle(IPC_CHANNELS.booksImportFolder, (event) =>
+    importBookFolder(db, requireLibraryId(), userDataPath, mainWindow, event.sender)
+  );
+  ipcMain.handle(IPC_CHANNELS.booksListDuplicates, () => listDuplicateBooks(db, progressDb, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.booksMergeDuplicates, (_event, payload: BooksMergeDuplicatesRequest) =>
+    mergeDuplicateBooks(db, progressDb, requireLibraryId(), userDataPath, payload)
   );
-  ipcMain.handle(IPC_CHANNELS.booksList, () => listBooks(db, libraryId));
-  ipcMain.handle(IPC_CHANNELS.booksAddSample, () => addSampleBook(db, libraryId));
-  ipcMain.handle(IPC_CHANNELS.booksImport, () => importBook(db, libraryId, userDataPath, mainWindow));
   ipcMain.handle(IPC_CHANNELS.booksReveal, (_event, payload: BooksRevealRequest) =>
-    revealBook(db, libraryId, payload, userDataPath)
+    revealBook(db, requireLibraryId(), payload, userDataPath)
   );
   ipcMain.handle(IPC_CHANNELS.booksDelete, (_event, payload: BooksDeleteRequest) =>
-    deleteBook(db, libraryId, payload, userDataPath)
+    deleteBook(db, requireLibraryId(), payload, userDataPath)
   );
   ipcMain.handle(IPC_CHANNELS.booksGetPdfData, (_event, payload: BooksGetPdfDataRequest) =>
-    getPdfData(db, libraryId, payload)
+    getPdfData(db, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.booksGetEpubData, (_event, payload: BooksGetEpubDataRequest) =>
-    getEpubData(db, libraryId, payload)
+    getEpubData(db, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.booksGetFb2Data, (_event, payload: BooksGetFb2DataRequest) =>
-    getFb2Data(db, libraryId, payload)
+    getFb2Data(db, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.booksGetTxtData, (_event, payload: BooksGetTxtDataRequest) =>
-    getTxtData(db, libraryId, payload)
+    getTxtData(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.booksGetDocumentData, (_event, payload: BooksGetDocumentDataRequest) =>
+    getDocumentData(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.booksGetComicPages, (_event, payload: BooksGetComicPagesRequest) =>
+    getComicPages(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.booksSetStatus, (_event, payload: BooksSetStatusRequest) =>
+    setBookStatus(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.booksUpdateTags, (_event, payload: BooksUpdateTagsRequest) =>
+    updateBookTags(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.booksUpdateMetadata, (_event, payload: BooksUpdateMetadataRequest) =>
+    updateBookMetadata(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.booksSearchMetadataMatches, (_event, payload: BooksSearchMetadataMatchesRequest) =>
+    searchBookMetadataMatches(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.booksApplyMetadataMatch, (_event, payload: BooksApplyMetadataMatchRequest) =>
+    applyBookMetadataMatch(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.collectionsList, () => listCollections(db, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.collectionsCreate, (_event, payload: CollectionsCreateRequest) =>
+    createCollection(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.collectionsRename, (_event, payload: CollectionsRenameRequest) =>
+    renameCollection(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.collectionsDelete, (_event, payload: CollectionsDeleteRequest) =>
+    deleteCollection(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.collectionsAddBooks, (_event, payload: CollectionsUpdateBooksRequest) =>
+    addBooksToCollection(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.collectionsRemoveBooks, (_event, payload: CollectionsUpdateBooksRequest) =>
+    removeBooksFromCollection(db, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.notesCreate, (_event, payload: NotesCreateRequest) =>
-    createNote(db, progressDb, libraryId, payload)
+    createNote(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.notesList, (_event, payload: NotesListRequest) =>
-    listNotes(db, progressDb, libraryId, payload)
+    listNotes(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.notesDelete, (_event, payload: NotesDeleteRequest) =>
-    deleteNote(db, progressDb, libraryId, payload)
+    deleteNote(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.notesUpdate, (_event, payload: NotesUpdateRequest) =>
-    updateNote(db, progressDb, libraryId, payload)
+    updateNote(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.highlightsList, (_event, payload: HighlightsListRequest) =>
-    listHighlights(db, progressDb, libraryId, payload)
+    listHighlights(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.highlightsCreateMerged, (_event, payload: HighlightsCreateMergedRequest) =>
-    createMergedHighlight(db, progressDb, libraryId, payload)
+    createMergedHighlight(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.highlightsDelete, (_event, payload: HighlightsDeleteRequest) =>
-    deleteHighlight(db, progressDb, libraryId, payload)
+    deleteHighlight(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.highlightsInsertRaw, (_event, payload: HighlightsInsertRawRequest) =>
-    insertRawHighlight(db, progressDb, libraryId, payload)
+    insertRawHighlight(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.highlightsUpdateNote, (_event, payload: HighlightsUpdateNoteRequest) =>
-    updateHighlightNote(db, progressDb, libraryId, payload)
+    updateHighlightNote(db, progressDb, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.highlightsUpdateColor, (_event, payload: HighlightsUpdateColorRequest) =>
+    updateHighlightColor(db, progressDb, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.highlightCategoriesList, () => listHighlightCategories(db, progressDb, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.highlightCategoriesSet, (_event, payload: HighlightCategoriesSetRequest) =>
+    setHighlightCategory(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.epubHighlightsList, (_event, payload: EpubHighlightsListRequest) =>
-    listEpubHighlights(db, progressDb, libraryId, payload)
+    listEpubHighlights(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.epubHighlightsCreate, (_event, payload: EpubHighlightsCreateRequest) =>
-    createEpubHighlight(db, progressDb, libraryId, payload)
+    createEpubHighlight(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.bookmarksList, (_event, payload: BookmarksListRequest) =>
-    listBookmarks(db, progressDb, libraryId, payload)
+    listBookmarks(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.bookmarksToggle, (_event, payload: BookmarksToggleRequest) =>
-    toggleBookmark(db, progressDb, libraryId, payload)
+    toggleBookmark(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.bookmarksRemove, (_event, payload: BookmarksRemoveRequest) =>
-    removeBookmark(db, progressDb, libraryId, payload)
+    removeBookmark(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.epubBookmarksList, (_event, payload: EpubBookmarksListRequest) =>
-    listEpubBookmarks(db, progressDb, libraryId, payload)
+    listEpubBookmarks(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.epubBookmarksToggle, (_event, payload: EpubBookmarksToggleRequest) =>
-    toggleEpubBookmark(db, progressDb, libraryId, payload)
+    toggleEpubBookmark(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.exportGetBookData, (_event, payload: ExportGetBookDataRequest) =>
-    getBookExportData(db, progressDb, libraryId, payload)
+    getBookExportData(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.exportSaveFile, async (_event, payload: ExportSaveFileRequest) =>
     saveExportFile(payload, mainWindow)
   );
+  ipcMain.handle(IPC_CHANNELS.exportSaveBooks, async (_event, payload: ExportSaveBooksRequest) =>
+    saveBooksExport(db, progressDb, requireLibraryId(), payload, mainWindow)
+  );
+  ipcMain.handle(IPC_CHANNELS.exportLibrary, (event, payload: ExportLibraryRequest) =>
+    exportLibrary(db, progressDb, requireLibraryId(), payload, mainWindow, event.sender)
+  );
+  ipcMain.handle(IPC_CHANNELS.exportTemplatesList, () => listExportTemplates(db, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.exportTemplatesSave, (_event, payload: ExportTemplatesSaveRequest) =>
+    saveExportTemplate(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.exportTemplatesDelete, (_event, payload: ExportTemplatesDeleteRequest) =>
+    deleteExportTemplate(db, requireLibraryId(), payload)
+  );
   ipcMain.handle(IPC_CHANNELS.epubProgressGet, (_event, payload: EpubProgressGetRequest) =>
-    getEpubProgress(db, progressDb, libraryId, payload)
+    getEpubProgress(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.epubProgressSet, (_event, payload: EpubProgressSetRequest) =>
-    setEpubProgress(db, progressDb, libraryId, payload)
+    setEpubProgress(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.flowProgressGet, (_event, payload: FlowProgressGetRequest) =>
-    getFlowProgress(db, progressDb, libraryId, payload)
+    getFlowProgress(db, progressDb, requireLibraryId(), payload)
   );
   ipcMain.handle(IPC_CHANNELS.flowProgressSet, (_event, payload: FlowProgressSetRequest) =>
-    setFlowProgress(db, progressDb, libraryId, payload)
+    setFlowProgress(db, progressDb, requireLibraryId(), payload)
   );
-  ipcMain.handle(IPC_CHANNELS.readerSettingsGet, (_event, payload: ReaderSettingsGetRequest) => {
+  ipcMain.handle(IPC_CHANNELS.readerSettingsGet, () => {
     try {
-      const userId = resolveUserIdFromToken(db, payload.token ?? '');
-      return { ok: true, settings: getReaderSettings(db, userId) };
+      return { ok: true, settings: getReaderSettings(db, requireLibraryId()) };
     } catch (error) {
       return {
         ok: false,
@@ -252,38 +490,135 @@ app.whenReady().then(() => {
       };
     }
   });
-  ipcMain.handle(IPC_CHANNELS.readerSettingsUpdate, (_event, payload: ReaderSettingsUpdateRequest) => {
-    const userId = resolveUserIdFromToken(db, payload.token ?? '');
-    return updateReaderSettings(db, userId, payload.patch ?? {});
-  });
+  ipcMain.handle(IPC_CHANNELS.readerSettingsUpdate, (_event, payload: ReaderSettingsUpdateRequest) =>
+    updateReaderSettings(db, requireLibraryId(), payload.patch ?? {})
+  );
+  ipcMain.handle(IPC_CHANNELS.readerSettingsGetBook, (_event, payload: ReaderSettingsGetBookRequest) =>
+    getBookReaderSettings(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.readerSettingsSetBook, (_event, payload: ReaderSettingsSetBookRequest) =>
+    setBookReaderSettings(db, requireLibraryId(), payload)
+  );
   ipcMain.handle(IPC_CHANNELS.progressGetLastPage, (_event, payload: ProgressGetLastPageRequest) =>
-    progressDb.getLastPage(libraryId, payload.bookId)
+    progressDb.getLastPage(requireLibraryId(), payload.bookId)
   );
   ipcMain.handle(IPC_CHANNELS.progressSetLastPage, (_event, payload: ProgressSetLastPageRequest) =>
-    progressDb.setLastPage(libraryId, payload.bookId, payload.lastPage)
+    progressDb.setLastPage(requireLibraryId(), payload.bookId, payload.lastPage)
   );
   ipcMain.handle(IPC_CHANNELS.statsMarkOpened, (_event, payload: StatsMarkOpenedRequest) =>
-    markBookOpened(db, libraryId, payload)
+    markBookOpened(db, requireLibraryId(), payload)
   );
-  ipcMain.handle(IPC_CHANNELS.statsGetRecentBooks, () => getRecentBooks(db, libraryId));
-  ipcMain.handle(IPC_CHANNELS.aiSummariesSave, (_event, payload: AiSummariesSaveRequest) => saveAiSummary(db, payload));
-  ipcMain.handle(IPC_CHANNELS.aiSummariesList, () => listAiSummaries(db));
-  ipcMain.handle(IPC_CHANNELS.aiSummariesGet, (_event, payload: AiSummariesGetRequest) => getAiSummary(db, payload));
+  ipcMain.handle(IPC_CHANNELS.statsGetRecentBooks, () => getRecentBooks(db, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.statsHeartbeat, (_event, payload: StatsHeartbeatRequest) =>
+    recordReadingHeartbeat(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.statsListSessions, (_event, payload: StatsListSessionsRequest) =>
+    listReadingSessions(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.statsGetOverview, (_event, payload: StatsGetOverviewRequest) =>
+    getReadingOverview(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.goalsList, () => listGoals(db, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.goalsSave, (_event, payload: GoalsSaveRequest) => saveGoal(db, requireLibraryId(), payload));
+  ipcMain.handle(IPC_CHANNELS.goalsDelete, (_event, payload: GoalsDeleteRequest) => deleteGoal(db, requireLibraryId(), payload));
+  ipcMain.handle(IPC_CHANNELS.goalsSetReminder, (_event, payload: GoalsSetReminderRequest) =>
+    setGoalReminder(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.aiSummariesSave, (_event, payload: AiSummariesSaveRequest) => saveAiSummary(db, requireLibraryId(), payload));
+  ipcMain.handle(IPC_CHANNELS.aiSummariesList, () => listAiSummaries(db, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.aiSummariesGet, (_event, payload: AiSummariesGetRequest) => getAiSummary(db, requireLibraryId(), payload));
   ipcMain.handle(IPC_CHANNELS.aiSummariesDelete, (_event, payload: AiSummariesDeleteRequest) =>
-    deleteAiSummary(db, payload)
+    deleteAiSummary(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.searchLibrary, (_event, payload: SearchLibraryRequest) => searchLibrary(db, requireLibraryId(), payload));
+  ipcMain.handle(IPC_CHANNELS.searchAnnotations, (_event, payload: SearchAnnotationsRequest) =>
+    searchAnnotations(db, progressDb, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.annotationsImportPreview, () =>
+    previewAnnotationImport(db, progressDb, requireLibraryId(), mainWindow)
+  );
+  ipcMain.handle(IPC_CHANNELS.annotationsImportLocate, (_event, payload: AnnotationsImportLocateRequest) =>
+    locateAnnotationImport(db, progressDb, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.backupCreate, () => createLibraryBackup(db, progressDb, requireLibraryId(), mainWindow));
+  ipcMain.handle(IPC_CHANNELS.backupInspect, () => inspectLibraryBackup(mainWindow));
+  ipcMain.handle(IPC_CHANNELS.backupRestore, (_event, payload: BackupRestoreRequest) =>
+    restoreLibraryBackup(db, progressDb, requireLibraryId(), userDataPath, payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.syncGetStatus, () => getSyncStatus(db, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.syncChooseFolder, () => chooseSyncFolder(db, requireLibraryId(), mainWindow));
+  ipcMain.handle(IPC_CHANNELS.syncDisable, () => disableSync(db, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.syncNow, async () =>
+    notifySyncChanged(await syncLibraryNow(db, progressDb, requireLibraryId(), userDataPath))
+  );
+  ipcMain.handle(IPC_CHANNELS.watchFoldersList, () => listWatchFolders(db, requireLibraryId()));
+  ipcMain.handle(IPC_CHANNELS.watchFoldersAdd, () => addWatchFolder(db, requireLibraryId(), userDataPath, mainWindow));
+  ipcMain.handle(IPC_CHANNELS.watchFoldersRemove, (_event, payload: WatchFoldersRemoveRequest) =>
+    removeWatchFolder(db, requireLibraryId(), payload)
   );
+  ipcMain.handle(IPC_CHANNELS.watchFoldersClearActivity, () => clearImportActivity(db, requireLibraryId()));
 
   createWindow();
+  ipcMain.handle(IPC_CHANNELS.profilesList, () => listProfiles(db, libraryId));
+  ipcMain.handle(IPC_CHANNELS.profilesCreate, (_event, payload: ProfilesCreateRequest) =>
+    createProfile(db, libraryId, payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.profilesSwitch, (_event, payload: ProfilesSwitchRequest) => {
+    const access = checkProfileAccess(db, payload);
+    if (!access.ok) {
+      return access;
+    }
+    activateProfile(access.profileId);
+    return listProfiles(db, libraryId);
+  });
+  ipcMain.handle(IPC_CHANNELS.profilesUpdate, (_event, payload: ProfilesUpdateRequest) =>
+    updateProfile(db, requireLibraryId(), payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.profilesDelete, (_event, payload: ProfilesDeleteRequest) =>
+    deleteProfile(db, progressDb, libraryId, userDataPath, payload)
+  );
+  ipcMain.handle(IPC_CHANNELS.profilesLock, () => {
+    deactivateProfile();
+    return listProfiles(db, libraryId);
+  });
+
+  const startupProfileId = getStartupProfileId(db, LOCAL_DB_ID);
+  if (startupProfileId) {
+    activateProfile(startupProfileId);
+  }
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow();
     }
   });
-});
+}
 
-app.on('window-all-closed', () => {
-  if (process.platform !== 'darwin') {
-    app.quit();
-  }
-});
+// A second launch (e.g. "Open with" on a book file) hands its arguments to the running instance instead.
+if (!app.requestSingleInstanceLock()) {
+  app.quit();
+} else {
+  registerBookProtocolScheme();
+
+  app.on('second-instance', (_event, argv, workingDirectory) => {
+    if (app.isReady()) {
+      focusMainWindow();
+    }
+    queueOpenPaths(extractBookPaths(argv, workingDirectory));
+  });
+
+  app.on('open-file', (event, filePath) => {
+    event.preventDefault();
+    queueOpenPaths([filePath]);
+  });
+
+  queueOpenPaths(extractBookPaths(process.argv));
+
+  app.whenReady().then(startApp);
+
+  app.on('window-all-closed', () => {
+    if (process.platform !== 'darwin') {
+      app.quit();
+    }
+  });
+}
@@ -0,0 +1,131 @@
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Code spans are cut out first so emphasis markers inside them stay literal.
+function renderInline(source: string): string {
+  const codeSpans: string[] = [];
+  const withoutCode = source.replace(/`([^`]+)`/g, (_match, code: string) => {
+    codeSpans.push(`<code>${escapeHtml(code)}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  return escapeHtml(withoutCode)
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g, '<a href="$2">$1</a>')
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/(\*|_)(?=\S)([\s\S]*?\S)\1/g, '<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+    .replace(/ {2,}\n/g, '<br/>')
+    .replace(/\u0000(\d+)\u0000/g, (_match, index: string) => codeSpans[Number(index)] ?? '');
+}
+
+// A small CommonMark subset: headings, paragraphs, lists, block quotes, fenced code and rules.
+export function markdownToHtml(source: string): string {
+  const lines = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let quote: string[] | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      const tag = list.ordered ? 'ol' : 'ul';
+      html.push(`<${tag}>${list.items.map((item) => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+      list = null;
+    }
+  };
+  const flushQuote = () => {
+    if (quote) {
+      html.push(`<blockquote>${markdownToHtml(quote.join('\n'))}</blockquote>`);
+      quote = null;
+    }
+  };
+  const flushAll = () => {
+    flushParagraph();
+    flushList();
+    flushQuote();
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+
+    const fence = line.match(/^\s*(```|~~~)/);
+    if (fence) {
+      flushAll();
+      const code: string[] = [];
+      for (index += 1; index < lines.length && !lines[index].trim().startsWith(fence[1]); index += 1) {
+        code.push(lines[index]);
+      }
+      html.push(`<pre>${escapeHtml(code.join('\n'))}</pre>`);
+      continue;
+    }
+
+    const quoteLine = line.match(/^\s{0,3}>\s?(.*)$/);
+    if (quoteLine) {
+      flushParagraph();
+      flushList();
+      quote ??= [];
+      quote.push(quoteLine[1]);
+      continue;
+    }
+    flushQuote();
+
+    if (!line.trim()) {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flushAll();
+      const level = Math.min(heading[1].length, 4);
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      continue;
+    }
+
+    const setext = lines[index + 1]?.match(/^\s{0,3}(=+|-+)\s*$/);
+    if (setext && paragraph.length === 0 && !list) {
+      const level = setext[1].startsWith('=') ? 1 : 2;
+      html.push(`<h${level}>${renderInline(line.trim())}</h${level}>`);
+      index += 1;
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushAll();
+      html.push('<hr/>');
+      continue;
+    }
+
+    const item = line.match(/^\s{0,3}(?:([-*+])|(\d+)[.)])\s+(.*)$/);
+    if (item) {
+      flushParagraph();
+      const ordered = Boolean(item[2]);
+      if (list && list.ordered !== ordered) {
+        flushList();
+      }
+      list ??= { ordered, items: [] };
+      list.items.push(item[3]);
+      continue;
+    }
+
+    if (list && /^\s+\S/.test(line)) {
+      list.items[list.items.length - 1] += `\n${line.trim()}`;
+      continue;
+    }
+
+    flushList();
+    paragraph.push(line.trim());
+  }
+  flushAll();
+
+  return html.join('\n');
+}
@@ -0,0 +1,214 @@
+import fs from 'node:fs/promises';
+
+const PDB_HEADER_SIZE = 78;
+const PDB_RECORD_INFO_SIZE = 8;
+const COMPRESSION_NONE = 1;
+const COMPRESSION_PALMDOC = 2;
+const COMPRESSION_HUFF_CDIC = 17480;
+const MOBI_EXTRA_FLAGS_OFFSET = 0xf2;
+const MOBI_EXTRA_FLAGS_MIN_HEADER = 0xe4;
+const EXTH_FLAG = 0x40;
+const EXTH_AUTHOR = 100;
+const EXTH_UPDATED_TITLE = 503;
+const UTF8_CODEPAGE = 65001;
+
+export type MobiHeader = {
+  title: string | null;
+  authors: string[];
+};
+
+type MobiLayout = MobiHeader & {
+  records: Buffer[];
+  compression: number;
+  textLength: number;
+  textRecordCount: number;
+  extraFlags: number;
+  encoding: 'utf-8' | 'windows-1252';
+  isMobi: boolean;
+};
+
+function readRecords(buffer: Buffer): Buffer[] {
+  if (buffer.length < PDB_HEADER_SIZE) {
+    throw new Error('The file is not a valid MOBI book.');
+  }
+
+  const type = buffer.toString('latin1', 60, 68);
+  if (type !== 'BOOKMOBI' && type !== 'TEXtREAd') {
+    throw new Error('The file is not a valid MOBI book.');
+  }
+
+  const recordCount = buffer.readUInt16BE(76);
+  const offsets: number[] = [];
+  for (let index = 0; index < recordCount; index += 1) {
+    const infoOffset = PDB_HEADER_SIZE + index * PDB_RECORD_INFO_SIZE;
+    if (infoOffset + 4 > buffer.length) {
+      break;
+    }
+    offsets.push(buffer.readUInt32BE(infoOffset));
+  }
+  return offsets.map((start, index) => buffer.subarray(start, offsets[index + 1] ?? buffer.length));
+}
+
+function readExth(recordZero: Buffer, exthOffset: number, encoding: MobiLayout['encoding']): Map<number, string[]> {
+  const values = new Map<number, string[]>();
+  if (recordZero.toString('latin1', exthOffset, exthOffset + 4) !== 'EXTH') {
+    return values;
+  }
+
+  const count = recordZero.readUInt32BE(exthOffset + 8);
+  let cursor = exthOffset + 12;
+  for (let index = 0; index < count && cursor + 8 <= recordZero.length; index += 1) {
+    const type = recordZero.readUInt32BE(cursor);
+    const length = recordZero.readUInt32BE(cursor + 4);
+    if (length < 8) {
+      break;
+    }
+    const value = new TextDecoder(encoding).decode(recordZero.subarray(cursor + 8, cursor + length)).trim();
+    if (value) {
+      values.set(type, [...(values.get(type) ?? []), value]);
+    }
+    cursor += length;
+  }
+  return values;
+}
+
+function readLayout(buffer: Buffer): MobiLayout {
+  const records = readRecords(buffer);
+  const recordZero = records[0];
+  if (!recordZero || recordZero.length < 16) {
+    throw new Error('The file is not a valid MOBI book.');
+  }
+
+  const layout: MobiLayout = {
+    title: buffer.toString('latin1', 0, 32).replace(/\0[\s\S]*$/, '').replace(/_/g, ' ').trim() || null,
+    authors: [],
+    records,
+    compression: recordZero.readUInt16BE(0),
+    textLength: recordZero.readUInt32BE(4),
+    textRecordCount: recordZero.readUInt16BE(8),
+    extraFlags: 0,
+    encoding: 'windows-1252',
+    isMobi: recordZero.toString('latin1', 16, 20) === 'MOBI'
+  };
+
+  if (!layout.isMobi) {
+    return layout;
+  }
+  if (recordZero.readUInt16BE(12) !== 0) {
+    throw new Error('This book is protected by DRM and cannot be opened.');
+  }
+
+  const headerLength = recordZero.readUInt32BE(20);
+  layout.encoding = recordZero.readUInt32BE(28) === UTF8_CODEPAGE ? 'utf-8' : 'windows-1252';
+  if (headerLength >= MOBI_EXTRA_FLAGS_MIN_HEADER && recordZero.length >= MOBI_EXTRA_FLAGS_OFFSET + 2) {
+    layout.extraFlags = recordZero.readUInt16BE(MOBI_EXTRA_FLAGS_OFFSET);
+  }
+
+  const fullNameOffset = recordZero.readUInt32BE(84);
+  const fullNameLength = recordZero.readUInt32BE(88);
+  const fullName = new TextDecoder(layout.encoding)
+    .decode(recordZero.subarray(fullNameOffset, fullNameOffset + fullNameLength))
+    .trim();
+  const exth = (recordZero.readUInt32BE(128) & EXTH_FLAG) !== 0 ? readExth(recordZero, 16 + headerLength, layout.encoding) : new Map();
+  layout.title = exth.get(EXTH_UPDATED_TITLE)?.[0] ?? (fullName || layout.title);
+  layout.authors = exth.get(EXTH_AUTHOR) ?? [];
+  return layout;
+}
+
+// Trailing entries are sized by a variable-width integer stored backwards at the end of the record.
+function trailingEntrySize(record: Buffer, end: number): number {
+  let size = 0;
+  let shift = 0;
+  for (let position = end - 1; position >= 0; position -= 1) {
+    const byte = record[position];
+    size |= (byte & 0x7f) << shift;
+    shift += 7;
+    if ((byte & 0x80) !== 0 || shift >= 28) {
+      break;
+    }
+  }
+  return size;
+}
+
+function stripTrailingEntries(record: Buffer, extraFlags: number): Buffer {
+  let end = record.length;
+  for (let flags = extraFlags >> 1; flags > 0; flags >>= 1) {
+    if ((flags & 1) !== 0) {
+      end -= trailingEntrySize(record, end);
+    }
+  }
+  if ((extraFlags & 1) !== 0 && end > 0) {
+    end -= (record[end - 1] & 0x3) + 1;
+  }
+  return record.subarray(0, Math.max(0, end));
+}
+
+function decompressPalmDoc(input: Buffer): Buffer {
+  const output: number[] = [];
+  let index = 0;
+  while (index < input.length) {
+    const byte = input[index];
+    index += 1;
+
+    if (byte === 0 || (byte >= 0x09 && byte <= 0x7f)) {
+      output.push(byte);
+    } else if (byte <= 0x08) {
+      for (let count = 0; count < byte && index < input.length; count += 1, index += 1) {
+        output.push(input[index]);
+      }
+    } else if (byte <= 0xbf) {
+      const pair = (byte << 8) | (input[index] ?? 0);
+      index += 1;
+      const distance = (pair >> 3) & 0x7ff;
+      const length = (pair & 0x7) + 3;
+      const start = output.length - distance;
+      if (distance === 0 || start < 0) {
+        continue;
+      }
+      for (let offset = 0; offset < length; offset += 1) {
+        output.push(output[start + offset]);
+      }
+    } else {
+      output.push(0x20, byte ^ 0x80);
+    }
+  }
+  return Buffer.from(output);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export async function readMobiHeader(filePath: string): Promise<MobiHeader> {
+  const { title, authors } = readLayout(await fs.readFile(filePath));
+  return { title, authors };
+}
+
+// Decodes the text records of a DRM-free MOBI, AZW or AZW3 file into its HTML markup.
+export async function readMobiHtml(filePath: string): Promise<string> {
+  const layout = readLayout(await fs.readFile(filePath));
+  if (layout.compression === COMPRESSION_HUFF_CDIC) {
+    throw new Error('This MOBI book uses HUFF/CDIC compression, which is not supported.');
+  }
+  if (layout.compression !== COMPRESSION_NONE && layout.compression !== COMPRESSION_PALMDOC) {
+    throw new Error('This MOBI book uses an unknown compression method.');
+  }
+
+  const textRecords = layout.records.slice(1, layout.textRecordCount + 1).map((record) => {
+    const text = stripTrailingEntries(record, layout.extraFlags);
+    return layout.compression === COMPRESSION_PALMDOC ? decompressPalmDoc(text) : text;
+  });
+  const text = new TextDecoder(layout.encoding).decode(Buffer.concat(textRecords).subarray(0, layout.textLength));
+  if (layout.isMobi) {
+    return text;
+  }
+
+  // Plain PalmDOC books carry text, not markup.
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n+/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+    .join('\n');
+}
@@ -17,6 +17,10 @@ function isValidPage(page: number): boolean {
   return Number.isFinite(page) && Math.floor(page) >= 1;
 }
 
+function normalizeCreatedAt(value: number | null | undefined, now: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.min(Math.floor(value), now) : now;
+}
+
 export function createNote(
   authDb: Database.Database,
   readerDb: ReaderProgressDb,
@@ -51,7 +55,7 @@ export function createNote(
     bookId,
     page: Math.floor(payload.page),
     content,
-    createdAt: now,
+    createdAt: normalizeCreatedAt(payload.createdAt, now),
     updatedAt: now
   };
 
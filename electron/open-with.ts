@@ -0,0 +1,99 @@
+import { statSync } from 'node:fs';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import type { BrowserWindow } from 'electron';
+import type { BooksTakeOpenRequestResult } from '../shared/ipc';
+import { IPC_CHANNELS } from '../shared/ipc';
+import { importBookFromPath, SUPPORTED_BOOK_EXTENSIONS } from './books';
+import { recordImportActivity, toImportActivity } from './watch-folders';
+
+type OpenWithContext = {
+  db: Database.Database;
+  userId: string;
+  userDataPath: string;
+  getWindow: () => BrowserWindow | null;
+};
+
+const SUPPORTED_EXTENSIONS = new Set(SUPPORTED_BOOK_EXTENSIONS.map((extension) => `.${extension}`));
+
+let context: OpenWithContext | null = null;
+let queuedPaths: string[] = [];
+let openQueue: Promise<void> = Promise.resolve();
+let pendingRequest: BooksTakeOpenRequestResult | null = null;
+
+function isFile(filePath: string): boolean {
+  try {
+    return statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// argv[0] is the executable; in development argv[1] is the app directory, which has no book extension.
+export function extractBookPaths(argv: string[], workingDirectory = process.cwd()): string[] {
+  return argv
+    .slice(1)
+    .filter((arg) => !arg.startsWith('-'))
+    .map((arg) => path.resolve(workingDirectory, arg))
+    .filter((filePath) => SUPPORTED_EXTENSIONS.has(path.extname(filePath).toLowerCase()) && isFile(filePath));
+}
+
+async function openPaths(activeContext: OpenWithContext, paths: string[]) {
+  const { db, userId, userDataPath, getWindow } = activeContext;
+  for (const filePath of paths) {
+    const result = await importBookFromPath(db, userId, userDataPath, filePath);
+    recordImportActivity([toImportActivity(filePath, result)]);
+    // Only the last file is opened; earlier ones stay imported in the library.
+    pendingRequest = result.ok ? { ok: true, bookId: result.book.id } : { ok: false, error: result.error };
+  }
+
+  const window = getWindow();
+  if (pendingRequest && window && !window.isDestroyed()) {
+    window.webContents.send(IPC_CHANNELS.booksOpenRequested);
+    if (window.isMinimized()) {
+      window.restore();
+    }
+    window.focus();
+  }
+}
+
+function drainQueue() {
+  if (!context || queuedPaths.length === 0) {
+    return;
+  }
+
+  const activeContext = context;
+  const paths = queuedPaths;
+  queuedPaths = [];
+  openQueue = openQueue
+    .then(() => openPaths(activeContext, paths))
+    .catch((error) => {
+      console.warn('Failed to open files passed to the app', error);
+    });
+}
+
+export function queueOpenPaths(paths: string[]) {
+  if (paths.length === 0) {
+    return;
+  }
+  queuedPaths.push(...paths);
+  drainQueue();
+}
+
+export function startOpenWith(nextContext: OpenWithContext) {
+  context = nextContext;
+  drainQueue();
+}
+
+// Files opened while no profile is selected wait in the queue until one is.
+export function stopOpenWith() {
+  context = null;
+  pendingRequest = null;
+}
+
+// The renderer asks for the pending book once it is ready, so a file passed on a cold start is not missed.
+export function takeOpenRequest(): BooksTakeOpenRequestResult {
+  const request = pendingRequest ?? { ok: true, bookId: null };
+  pendingRequest = null;
+  return request;
+}
@@ -146,17 +146,22 @@ function mergeBookWithMetadata(book: Book, metadata: CachedMetadata | null): Boo
     return book;
   }
 
+  // Open Library only fills gaps; values read from the book file itself win.
   return {
     ...book,
-    subtitle: metadata.subtitle,
-    author: metadata.author ?? book.author ?? null,
-    coverUrl: metadata.coverUrl,
-    description: metadata.description,
-    subjects: metadata.subjects,
-    publishYear: metadata.publishYear
+    subtitle: book.subtitle ?? metadata.subtitle,
+    author: book.author ?? metadata.author ?? null,
+    coverUrl: book.coverUrl ?? metadata.coverUrl,
+    description: book.description ?? metadata.description,
+    subjects: (book.subjects ?? []).length > 0 ? book.subjects : metadata.subjects,
+    publishYear: book.publishYear ?? metadata.publishYear
   };
 }
 
+function hasCompleteMetadata(book: Book) {
+  return Boolean(book.coverUrl && book.description && (book.subjects ?? []).length > 0 && book.publishYear);
+}
+
 function mergeDiscoverResultWithMetadata(result: DiscoverBookResult, metadata: CachedMetadata | null): DiscoverBookResult {
   if (!metadata) {
     return result;
@@ -261,11 +266,16 @@ function queueMetadataEnrichment(db: Database.Database, title: string, author?:
 }
 
 export function hydrateBooksWithCachedMetadata(db: Database.Database, books: Book[]) {
-  return books.map((book) => mergeBookWithMetadata(book, readCachedMetadata(db, book.title, book.author ?? null)));
+  return books.map((book) =>
+    book.metadataLocked ? book : mergeBookWithMetadata(book, readCachedMetadata(db, book.title, book.author ?? null))
+  );
 }
 
 export function enrichBooksInBackground(db: Database.Database, books: Book[]) {
   for (const book of books) {
+    if (book.metadataLocked || hasCompleteMetadata(book)) {
+      continue;
+    }
     const cached = readCachedMetadata(db, book.title, book.author ?? null);
     if (!isCacheFresh(cached)) {
       void queueMetadataEnrichment(db, book.title, book.author ?? null);
@@ -274,6 +284,9 @@ export function enrichBooksInBackground(db: Database.Database, books: Book[]) {
 }
 
 export function enrichBookInBackground(db: Database.Database, book: Book) {
+  if (book.metadataLocked || hasCompleteMetadata(book)) {
+    return;
+  }
   void queueMetadataEnrichment(db, book.title, book.author ?? null);
 }
 
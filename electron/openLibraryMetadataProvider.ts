@@ -284,35 +284,46 @@ function toMatchFromDoc(doc: OpenLibrarySearchDoc): OpenLibraryMetadataMatch {
   };
 }
 
-export async function findBestMatch(title: string, author?: string | null): Promise<OpenLibraryMetadataMatch | null> {
-  const trimmedTitle = title.trim();
-  if (!trimmedTitle) {
-    return null;
-  }
-
+async function searchDocs(title: string, author?: string | null): Promise<OpenLibrarySearchDoc[]> {
   const url = new URL(OPEN_LIBRARY_SEARCH_URL);
-  url.searchParams.set('title', trimmedTitle);
+  url.searchParams.set('title', title);
   url.searchParams.set(
     'fields',
     ['key', 'title', 'subtitle', 'author_name', 'cover_i', 'cover_edition_key', 'edition_key', 'isbn', 'first_publish_year', 'subject'].join(',')
   );
   url.searchParams.set('limit', '10');
 
-  const trimmedAuthor = author?.trim();
-  if (trimmedAuthor) {
-    url.searchParams.set('author', trimmedAuthor);
+  if (author) {
+    url.searchParams.set('author', author);
   }
 
   const payload = await fetchOpenLibraryJson<OpenLibrarySearchResponse>(url.toString()).catch(() => null);
-  const docs = payload?.docs ?? [];
-  if (docs.length === 0) {
-    return null;
+  return payload?.docs ?? [];
+}
+
+export async function findBestMatch(title: string, author?: string | null): Promise<OpenLibraryMetadataMatch | null> {
+  const [best] = await findMatchCandidates(title, author, 1);
+  return best?.match ?? null;
+}
+
+export async function findMatchCandidates(
+  title: string,
+  author?: string | null,
+  limit = 8
+): Promise<Array<{ match: OpenLibraryMetadataMatch; score: number }>> {
+  const trimmedTitle = title.trim();
+  if (!trimmedTitle) {
+    return [];
   }
 
-  const bestDoc = [...docs]
-    .sort((left, right) => scoreMatch(right, trimmedTitle, trimmedAuthor) - scoreMatch(left, trimmedTitle, trimmedAuthor))[0];
+  const trimmedAuthor = author?.trim() || null;
+  const docs = await searchDocs(trimmedTitle, trimmedAuthor);
 
-  return bestDoc ? toMatchFromDoc(bestDoc) : null;
+  return docs
+    .map((doc) => ({ doc, score: scoreMatch(doc, trimmedTitle, trimmedAuthor) }))
+    .sort((left, right) => right.score - left.score)
+    .slice(0, limit)
+    .map(({ doc, score }) => ({ match: toMatchFromDoc(doc), score }));
 }
 
 export function getCover(lookup: OpenLibraryLookup): string | null {
@@ -352,6 +363,7 @@ export async function getPublishYear(lookup: OpenLibraryLookup): Promise<number
 
 export const openLibraryMetadataProvider = {
   findBestMatch,
+  findMatchCandidates,
   getCover,
   getDescription,
   getSubjects,
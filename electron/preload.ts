@@ -1,4 +1,4 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, webUtils } from 'electron';
 import { IPC_CHANNELS, type RendererApi } from '../shared/ipc';
 
 const api: RendererApi = {
@@ -31,12 +31,56 @@ const api: RendererApi = {
     list: () => ipcRenderer.invoke(IPC_CHANNELS.booksList),
     addSample: () => ipcRenderer.invoke(IPC_CHANNELS.booksAddSample),
     import: () => ipcRenderer.invoke(IPC_CHANNELS.booksImport),
+    importFiles: ({ files, collectionId }) =>
+      ipcRenderer.invoke(IPC_CHANNELS.booksImportPaths, {
+        paths: files.map((file) => webUtils.getPathForFile(file)).filter(Boolean),
+        collectionId
+      }),
+    takeOpenRequest: () => ipcRenderer.invoke(IPC_CHANNELS.booksTakeOpenRequest),
+    onOpenRequested: (listener) => {
+      const wrappedListener = () => {
+        listener();
+      };
+
+      ipcRenderer.on(IPC_CHANNELS.booksOpenRequested, wrappedListener);
+      return () => {
+        ipcRenderer.removeListener(IPC_CHANNELS.booksOpenRequested, wrappedListener);
+      };
+    },
+    importFolder: () => ipcRenderer.invoke(IPC_CHANNELS.booksImportFolder),
+    onImportFolderProgress: (listener) => {
+      const wrappedListener = (_event: Electron.IpcRendererEvent, payload: Parameters<typeof listener>[0]) => {
+        listener(payload);
+      };
+
+      ipcRenderer.on(IPC_CHANNELS.booksImportFolderProgress, wrappedListener);
+      return () => {
+        ipcRenderer.removeListener(IPC_CHANNELS.booksImportFolderProgress, wrappedListener);
+      };
+    },
+    listDuplicates: () => ipcRenderer.invoke(IPC_CHANNELS.booksListDuplicates),
+    mergeDuplicates: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksMergeDuplicates, payload),
     reveal: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksReveal, payload),
     delete: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksDelete, payload),
     getPdfData: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksGetPdfData, payload),
     getEpubData: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksGetEpubData, payload),
     getFb2Data: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksGetFb2Data, payload),
-    getTxtData: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksGetTxtData, payload)
+    getTxtData: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksGetTxtData, payload),
+    getDocumentData: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksGetDocumentData, payload),
+    getComicPages: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksGetComicPages, payload),
+    setStatus: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksSetStatus, payload),
+    updateTags: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksUpdateTags, payload),
+    updateMetadata: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksUpdateMetadata, payload),
+    searchMetadataMatches: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksSearchMetadataMatches, payload),
+    applyMetadataMatch: (payload) => ipcRenderer.invoke(IPC_CHANNELS.booksApplyMetadataMatch, payload)
+  },
+  collections: {
+    list: () => ipcRenderer.invoke(IPC_CHANNELS.collectionsList),
+    create: (payload) => ipcRenderer.invoke(IPC_CHANNELS.collectionsCreate, payload),
+    rename: (payload) => ipcRenderer.invoke(IPC_CHANNELS.collectionsRename, payload),
+    delete: (payload) => ipcRenderer.invoke(IPC_CHANNELS.collectionsDelete, payload),
+    addBooks: (payload) => ipcRenderer.invoke(IPC_CHANNELS.collectionsAddBooks, payload),
+    removeBooks: (payload) => ipcRenderer.invoke(IPC_CHANNELS.collectionsRemoveBooks, payload)
   },
   notes: {
     create: (payload) => ipcRenderer.invoke(IPC_CHANNELS.notesCreate, payload),
@@ -49,7 +93,12 @@ const api: RendererApi = {
     createMerged: (payload) => ipcRenderer.invoke(IPC_CHANNELS.highlightsCreateMerged, payload),
     delete: (payload) => ipcRenderer.invoke(IPC_CHANNELS.highlightsDelete, payload),
     insertRaw: (payload) => ipcRenderer.invoke(IPC_CHANNELS.highlightsInsertRaw, payload),
-    updateNote: (payload) => ipcRenderer.invoke(IPC_CHANNELS.highlightsUpdateNote, payload)
+    updateNote: (payload) => ipcRenderer.invoke(IPC_CHANNELS.highlightsUpdateNote, payload),
+    updateColor: (payload) => ipcRenderer.invoke(IPC_CHANNELS.highlightsUpdateColor, payload)
+  },
+  highlightCategories: {
+    list: () => ipcRenderer.invoke(IPC_CHANNELS.highlightCategoriesList),
+    set: (payload) => ipcRenderer.invoke(IPC_CHANNELS.highlightCategoriesSet, payload)
   },
   epubHighlights: {
     list: (payload) => ipcRenderer.invoke(IPC_CHANNELS.epubHighlightsList, payload),
@@ -66,7 +115,24 @@ const api: RendererApi = {
   },
   export: {
     getBookData: (payload) => ipcRenderer.invoke(IPC_CHANNELS.exportGetBookData, payload),
-    saveFile: (payload) => ipcRenderer.invoke(IPC_CHANNELS.exportSaveFile, payload)
+    saveFile: (payload) => ipcRenderer.invoke(IPC_CHANNELS.exportSaveFile, payload),
+    saveBooks: (payload) => ipcRenderer.invoke(IPC_CHANNELS.exportSaveBooks, payload),
+    exportLibrary: (payload) => ipcRenderer.invoke(IPC_CHANNELS.exportLibrary, payload),
+    onProgress: (listener) => {
+      const wrappedListener = (_event: Electron.IpcRendererEvent, payload: Parameters<typeof listener>[0]) => {
+        listener(payload);
+      };
+
+      ipcRenderer.on(IPC_CHANNELS.exportProgress, wrappedListener);
+      return () => {
+        ipcRenderer.removeListener(IPC_CHANNELS.exportProgress, wrappedListener);
+      };
+    }
+  },
+  exportTemplates: {
+    list: () => ipcRenderer.invoke(IPC_CHANNELS.exportTemplatesList),
+    save: (payload) => ipcRenderer.invoke(IPC_CHANNELS.exportTemplatesSave, payload),
+    delete: (payload) => ipcRenderer.invoke(IPC_CHANNELS.exportTemplatesDelete, payload)
   },
   epubProgress: {
     get: (payload) => ipcRenderer.invoke(IPC_CHANNELS.epubProgressGet, payload),
@@ -77,12 +143,23 @@ const api: RendererApi = {
     set: (payload) => ipcRenderer.invoke(IPC_CHANNELS.flowProgressSet, payload)
   },
   readerSettings: {
-    get: (payload) => ipcRenderer.invoke(IPC_CHANNELS.readerSettingsGet, payload),
-    update: (payload) => ipcRenderer.invoke(IPC_CHANNELS.readerSettingsUpdate, payload)
+    get: () => ipcRenderer.invoke(IPC_CHANNELS.readerSettingsGet),
+    update: (payload) => ipcRenderer.invoke(IPC_CHANNELS.readerSettingsUpdate, payload),
+    getBook: (payload) => ipcRenderer.invoke(IPC_CHANNELS.readerSettingsGetBook, payload),
+    setBook: (payload) => ipcRenderer.invoke(IPC_CHANNELS.readerSettingsSetBook, payload)
   },
   stats: {
     markOpened: (payload) => ipcRenderer.invoke(IPC_CHANNELS.statsMarkOpened, payload),
-    getRecentBooks: () => ipcRenderer.invoke(IPC_CHANNELS.statsGetRecentBooks)
+    getRecentBooks: () => ipcRenderer.invoke(IPC_CHANNELS.statsGetRecentBooks),
+    heartbeat: (payload) => ipcRenderer.invoke(IPC_CHANNELS.statsHeartbeat, payload),
+    listSessions: (payload) => ipcRenderer.invoke(IPC_CHANNELS.statsListSessions, payload),
+    getOverview: (payload) => ipcRenderer.invoke(IPC_CHANNELS.statsGetOverview, payload)
+  },
+  goals: {
+    list: () => ipcRenderer.invoke(IPC_CHANNELS.goalsList),
+    save: (payload) => ipcRenderer.invoke(IPC_CHANNELS.goalsSave, payload),
+    delete: (payload) => ipcRenderer.invoke(IPC_CHANNELS.goalsDelete, payload),
+    setReminder: (payload) => ipcRenderer.invoke(IPC_CHANNELS.goalsSetReminder, payload)
   },
   aiSummaries: {
     save: (payload) => ipcRenderer.invoke(IPC_CHANNELS.aiSummariesSave, payload),
@@ -90,6 +167,59 @@ const api: RendererApi = {
     get: (payload) => ipcRenderer.invoke(IPC_CHANNELS.aiSummariesGet, payload),
     delete: (payload) => ipcRenderer.invoke(IPC_CHANNELS.aiSummariesDelete, payload)
   },
+  search: {
+    library: (payload) => ipcRenderer.invoke(IPC_CHANNELS.searchLibrary, payload),
+    annotations: (payload) => ipcRenderer.invoke(IPC_CHANNELS.searchAnnotations, payload)
+  },
+  annotationsImport: {
+    preview: () => ipcRenderer.invoke(IPC_CHANNELS.annotationsImportPreview),
+    locate: (payload) => ipcRenderer.invoke(IPC_CHANNELS.annotationsImportLocate, payload)
+  },
+  backup: {
+    create: () => ipcRenderer.invoke(IPC_CHANNELS.backupCreate),
+    inspect: () => ipcRenderer.invoke(IPC_CHANNELS.backupInspect),
+    restore: (payload) => ipcRenderer.invoke(IPC_CHANNELS.backupRestore, payload)
+  },
+  sync: {
+    getStatus: () => ipcRenderer.invoke(IPC_CHANNELS.syncGetStatus),
+    chooseFolder: () => ipcRenderer.invoke(IPC_CHANNELS.syncChooseFolder),
+    disable: () => ipcRenderer.invoke(IPC_CHANNELS.syncDisable),
+    syncNow: () => ipcRenderer.invoke(IPC_CHANNELS.syncNow),
+    onChanged: (listener) => {
+      const wrappedListener = (_event: Electron.IpcRendererEvent, payload: Parameters<typeof listener>[0]) => {
+        listener(payload);
+      };
+
+      ipcRenderer.on(IPC_CHANNELS.syncChanged, wrappedListener);
+      return () => {
+        ipcRenderer.removeListener(IPC_CHANNELS.syncChanged, wrappedListener);
+      };
+    }
+  },
+  watchFolders: {
+    list: () => ipcRenderer.invoke(IPC_CHANNELS.watchFoldersList),
+    add: () => ipcRenderer.invoke(IPC_CHANNELS.watchFoldersAdd),
+    remove: (payload) => ipcRenderer.invoke(IPC_CHANNELS.watchFoldersRemove, payload),
+    clearActivity: () => ipcRenderer.invoke(IPC_CHANNELS.watchFoldersClearActivity),
+    onActivity: (listener) => {
+      const wrappedListener = (_event: Electron.IpcRendererEvent, payload: Parameters<typeof listener>[0]) => {
+        listener(payload);
+      };
+
+      ipcRenderer.on(IPC_CHANNELS.watchFoldersActivity, wrappedListener);
+      return () => {
+        ipcRenderer.removeListener(IPC_CHANNELS.watchFoldersActivity, wrappedListener);
+      };
+    }
+  },
+  profiles: {
+    list: () => ipcRenderer.invoke(IPC_CHANNELS.profilesList),
+    create: (payload) => ipcRenderer.invoke(IPC_CHANNELS.profilesCreate, payload),
+    switch: (payload) => ipcRenderer.invoke(IPC_CHANNELS.profilesSwitch, payload),
+    update: (payload) => ipcRenderer.invoke(IPC_CHANNELS.profilesUpdate, payload),
+    delete: (payload) => ipcRenderer.invoke(IPC_CHANNELS.profilesDelete, payload),
+    lock: () => ipcRenderer.invoke(IPC_CHANNELS.profilesLock)
+  },
   getLastPage: (payload) => ipcRenderer.invoke(IPC_CHANNELS.progressGetLastPage, payload),
   setLastPage: (payload) => ipcRenderer.invoke(IPC_CHANNELS.progressSetLastPage, payload)
 };
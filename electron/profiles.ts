@@ -0,0 +1,272 @@
+import { randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'node:crypto';
+import type Database from 'better-sqlite3';
+import type {
+  ErrorResult,
+  LocalProfile,
+  ProfilesCreateRequest,
+  ProfilesCreateResult,
+  ProfilesDeleteRequest,
+  ProfilesListResult,
+  ProfilesSwitchRequest,
+  ProfilesUpdateRequest
+} from '../shared/ipc';
+import { deleteBook } from './books';
+import { LOCAL_DB_ID, LOCAL_PROFILE_PASSWORD_HASH } from './db';
+import type { ReaderProgressDb } from './reader-progress-db';
+
+type ProfileRow = {
+  id: string;
+  display_name: string;
+  pin_hash: string | null;
+  created_at: number;
+};
+
+const MAX_NAME_LENGTH = 60;
+const PIN_PATTERN = /^\d{4,8}$/;
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 30_000;
+const SESSION_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Accounts from the old sign-in flow are password protected and never offered as profiles.
+const PROFILE_USERS_SQL = '(id = ? OR password_hash = ?)';
+const PROFILE_USERS_PARAMS = [LOCAL_DB_ID, LOCAL_PROFILE_PASSWORD_HASH];
+
+// Failed PIN attempts per profile; reset when the app restarts.
+const pinAttempts = new Map<string, { failures: number; lockedUntil: number }>();
+
+function mapProfileRow(row: ProfileRow): LocalProfile {
+  return {
+    id: row.id,
+    name: row.display_name,
+    hasPin: Boolean(row.pin_hash),
+    createdAt: row.created_at
+  };
+}
+
+function getProfileRow(db: Database.Database, id: string): ProfileRow | undefined {
+  return db
+    .prepare(`SELECT id, display_name, pin_hash, created_at FROM users WHERE id = ? AND ${PROFILE_USERS_SQL} LIMIT 1`)
+    .get(id, ...PROFILE_USERS_PARAMS) as ProfileRow | undefined;
+}
+
+function hashPin(pin: string): string {
+  const salt = randomBytes(16);
+  return `scrypt:${salt.toString('hex')}:${scryptSync(pin, salt, 32).toString('hex')}`;
+}
+
+function matchesPin(pinHash: string, pin: string): boolean {
+  const [scheme, salt, hash] = pinHash.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(pin, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function normalizeName(value: unknown): string | ErrorResult {
+  const name = typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : '';
+  if (!name) {
+    return { ok: false, error: 'Profile name is required.' };
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return { ok: false, error: `Profile name must be at most ${MAX_NAME_LENGTH} characters.` };
+  }
+  return name;
+}
+
+function normalizePin(value: unknown): string | null | ErrorResult {
+  const pin = typeof value === 'string' ? value.trim() : '';
+  if (!pin) {
+    return null;
+  }
+  if (!PIN_PATTERN.test(pin)) {
+    return { ok: false, error: 'PIN must be 4 to 8 digits.' };
+  }
+  return pin;
+}
+
+function checkPin(row: ProfileRow, pin: unknown): ErrorResult | null {
+  if (!row.pin_hash) {
+    return null;
+  }
+
+  const attempts = pinAttempts.get(row.id);
+  if (attempts && attempts.lockedUntil > Date.now()) {
+    return { ok: false, error: 'Too many wrong PINs. Try again in a moment.' };
+  }
+
+  if (typeof pin === 'string' && pin.trim() && matchesPin(row.pin_hash, pin.trim())) {
+    pinAttempts.delete(row.id);
+    return null;
+  }
+
+  const failures = (attempts?.failures ?? 0) + 1;
+  pinAttempts.set(row.id, {
+    failures: failures >= MAX_PIN_ATTEMPTS ? 0 : failures,
+    lockedUntil: failures >= MAX_PIN_ATTEMPTS ? Date.now() + PIN_LOCKOUT_MS : 0
+  });
+  return { ok: false, error: 'Incorrect PIN.' };
+}
+
+function isNameTaken(db: Database.Database, name: string, exceptId: string | null): boolean {
+  const row = db
+    .prepare(`SELECT id FROM users WHERE lower(display_name) = lower(?) AND id != ? AND ${PROFILE_USERS_SQL} LIMIT 1`)
+    .get(name, exceptId ?? '', ...PROFILE_USERS_PARAMS) as { id: string } | undefined;
+  return Boolean(row);
+}
+
+export function listProfiles(db: Database.Database, activeProfileId: string | null): ProfilesListResult {
+  const rows = db
+    .prepare(`SELECT id, display_name, pin_hash, created_at FROM users WHERE ${PROFILE_USERS_SQL} ORDER BY created_at ASC`)
+    .all(...PROFILE_USERS_PARAMS) as ProfileRow[];
+
+  return {
+    ok: true,
+    profiles: rows.map(mapProfileRow),
+    activeProfileId
+  };
+}
+
+// Reopens the profile used last, unless it is PIN-protected; then the renderer asks for the PIN first.
+export function getStartupProfileId(db: Database.Database, fallbackId: string): string | null {
+  const row = db
+    .prepare(
+      `SELECT u.id, u.display_name, u.pin_hash, u.created_at
+       FROM sessions s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.expires_at > ? AND (u.id = ? OR u.password_hash = ?)
+       ORDER BY s.created_at DESC
+       LIMIT 1`
+    )
+    .get(Date.now(), ...PROFILE_USERS_PARAMS) as ProfileRow | undefined;
+
+  if (!row) {
+    return fallbackId;
+  }
+  return row.pin_hash ? null : row.id;
+}
+
+export function recordProfileSession(db: Database.Database, userId: string) {
+  const now = Date.now();
+  db.transaction(() => {
+    db.prepare('DELETE FROM sessions WHERE user_id = ? OR expires_at <= ?').run(userId, now);
+    db.prepare('INSERT INTO sessions (token, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)').run(
+      randomUUID(),
+      userId,
+      now,
+      now + SESSION_TTL_MS
+    );
+  })();
+}
+
+export function createProfile(
+  db: Database.Database,
+  activeProfileId: string | null,
+  payload: ProfilesCreateRequest
+): ProfilesCreateResult {
+  const name = normalizeName(payload.name);
+  if (typeof name !== 'string') {
+    return name;
+  }
+  const pin = normalizePin(payload.pin);
+  if (pin !== null && typeof pin !== 'string') {
+    return pin;
+  }
+  if (isNameTaken(db, name, null)) {
+    return { ok: false, error: 'A profile with this name already exists.' };
+  }
+
+  const id = randomUUID();
+  db.prepare(
+    `INSERT INTO users (id, email, password_hash, display_name, created_at, pin_hash)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(id, `${id}@profiles.local`, LOCAL_PROFILE_PASSWORD_HASH, name, Date.now(), pin ? hashPin(pin) : null);
+
+  const result = listProfiles(db, activeProfileId);
+  return result.ok ? { ...result, profileId: id } : result;
+}
+
+export function checkProfileAccess(
+  db: Database.Database,
+  payload: ProfilesSwitchRequest
+): { ok: true; profileId: string } | ErrorResult {
+  const row = getProfileRow(db, payload.id?.trim() ?? '');
+  if (!row) {
+    return { ok: false, error: 'Profile not found.' };
+  }
+
+  const pinError = checkPin(row, payload.pin);
+  return pinError ?? { ok: true, profileId: row.id };
+}
+
+export function updateProfile(db: Database.Database, userId: string, payload: ProfilesUpdateRequest): ProfilesListResult {
+  const row = getProfileRow(db, userId);
+  if (!row) {
+    return { ok: false, error: 'Profile not found.' };
+  }
+
+  const name = payload.name === undefined ? row.display_name : normalizeName(payload.name);
+  if (typeof name !== 'string') {
+    return name;
+  }
+  if (isNameTaken(db, name, userId)) {
+    return { ok: false, error: 'A profile with this name already exists.' };
+  }
+
+  let pinHash = row.pin_hash;
+  if (payload.pin !== undefined) {
+    const pinError = checkPin(row, payload.currentPin);
+    if (pinError) {
+      return pinError;
+    }
+    const pin = normalizePin(payload.pin);
+    if (pin !== null && typeof pin !== 'string') {
+      return pin;
+    }
+    pinHash = pin ? hashPin(pin) : null;
+  }
+
+  db.prepare('UPDATE users SET display_name = ?, pin_hash = ? WHERE id = ?').run(name, pinHash, userId);
+  return listProfiles(db, userId);
+}
+
+// Book files live outside the database, so they are removed one book at a time before the profile row
+// cascades away the rest of its data.
+export async function deleteProfile(
+  db: Database.Database,
+  readerDb: ReaderProgressDb,
+  activeProfileId: string | null,
+  userDataPath: string,
+  payload: ProfilesDeleteRequest
+): Promise<ProfilesListResult> {
+  const row = getProfileRow(db, payload.id?.trim() ?? '');
+  if (!row) {
+    return { ok: false, error: 'Profile not found.' };
+  }
+  // The first profile holds the library from before profiles existed and is recreated on startup anyway.
+  if (row.id === LOCAL_DB_ID) {
+    return { ok: false, error: 'The default profile cannot be deleted.' };
+  }
+  if (row.id === activeProfileId) {
+    return { ok: false, error: 'Switch to another profile before deleting this one.' };
+  }
+
+  const pinError = checkPin(row, payload.pin);
+  if (pinError) {
+    return pinError;
+  }
+
+  const bookIds = db.prepare('SELECT id FROM books WHERE user_id = ?').all(row.id) as Array<{ id: string }>;
+  for (const { id } of bookIds) {
+    const result = await deleteBook(db, row.id, { bookId: id }, userDataPath);
+    if (!result.ok) {
+      return result;
+    }
+  }
+
+  readerDb.deleteUserData(row.id);
+  db.prepare('DELETE FROM users WHERE id = ?').run(row.id);
+  pinAttempts.delete(row.id);
+  return listProfiles(db, activeProfileId);
+}
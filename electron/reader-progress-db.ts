@@ -1,7 +1,39 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import Database from 'better-sqlite3';
-import type { Bookmark, EpubBookmark, Highlight, HighlightRect, Note } from '../shared/ipc';
+import type { BackupRestoreMode } from '../shared/ipc';
+import {
+  deleteTableRows,
+  dumpTables,
+  restoreTables,
+  upsertTableRow,
+  type BackupRow,
+  type BackupTables
+} from './backup-tables';
+import {
+  DEFAULT_HIGHLIGHT_COLOR,
+  HIGHLIGHT_COLORS,
+  type Bookmark,
+  type EpubBookmark,
+  type Highlight,
+  type HighlightCategory,
+  type HighlightColor,
+  type HighlightRect,
+  type Note
+} from '../shared/ipc';
+
+const BACKUP_TABLES = [
+  'reading_progress',
+  'reading_progress_epub',
+  'reading_progress_flow',
+  'notes',
+  'highlights',
+  'highlight_categories',
+  'bookmarks',
+  'epub_bookmarks'
+] as const;
+
+export type ReaderBackupTable = (typeof BACKUP_TABLES)[number];
 
 type GetRow = { last_page: number };
 type EpubGetRow = { last_cfi: string };
@@ -24,9 +56,11 @@ type HighlightRow = {
   cfi_range: string | null;
   text: string | null;
   note: string | null;
+  color: string | null;
   created_at: number;
   updated_at: number;
 };
+type HighlightCategoryRow = { color: string; label: string | null };
 type ListNotesFilters = { bookId?: string | null; q?: string | null };
 type BookmarkRow = {
   id: string;
@@ -78,6 +112,10 @@ function normalizeHighlightNote(value: string | null | undefined): string | null
   return normalized.length > 0 ? normalized : null;
 }
 
+function normalizeHighlightColor(value: string | null | undefined): HighlightColor {
+  return HIGHLIGHT_COLORS.find((color) => color === value) ?? DEFAULT_HIGHLIGHT_COLOR;
+}
+
 function toNote(row: NoteRow): Note {
   return {
     id: row.id,
@@ -133,6 +171,7 @@ function toHighlight(row: HighlightRow): Highlight | null {
     cfiRange,
     text: normalizeHighlightText(row.text),
     note: normalizeHighlightNote(row.note),
+    color: normalizeHighlightColor(row.color),
     createdAt: row.created_at,
     updatedAt: row.updated_at
   };
@@ -186,15 +225,31 @@ export class ReaderProgressDb {
   private updateNoteStmt: Database.Statement<[string, number, string, string]>;
   private getNoteStmt: Database.Statement<[string, string], NoteRow | undefined>;
   private insertHighlightStmt: Database.Statement<
-    [string, string, string, number | null, string | null, string | null, string | null, string | null, number, number]
+    [
+      string,
+      string,
+      string,
+      number | null,
+      string | null,
+      string | null,
+      string | null,
+      string | null,
+      HighlightColor,
+      number,
+      number
+    ]
   >;
   private updateHighlightNoteStmt: Database.Statement<[string | null, number, string, string]>;
+  private updateHighlightColorStmt: Database.Statement<[HighlightColor, number, string, string]>;
+  private listHighlightCategoriesStmt: Database.Statement<[string], HighlightCategoryRow>;
+  private upsertHighlightCategoryStmt: Database.Statement<[string, HighlightColor, string | null, number]>;
   private getHighlightStmt: Database.Statement<[string, string], HighlightRow | undefined>;
   private getEpubHighlightByCfiStmt: Database.Statement<[string, string, string], HighlightRow | undefined>;
   private deleteHighlightsByIdsStmt: Database.Statement;
   private deleteHighlightStmt: Database.Statement<[string, string]>;
   private listHighlightsByPageStmt: Database.Statement<[string, string, number], HighlightRow>;
   private listHighlightsByBookStmt: Database.Statement<[string, string], HighlightRow>;
+  private listHighlightsByUserStmt: Database.Statement<[string], HighlightRow>;
   private listNotesByBookForExportStmt: Database.Statement<[string, string], NoteRow>;
   private listBookmarksStmt: Database.Statement<[string, string], BookmarkRow>;
   private insertBookmarkStmt: Database.Statement<[string, string, string, number, number]>;
@@ -270,6 +325,9 @@ export class ReaderProgressDb {
     if (!refreshedColumns.has('cfi_range')) {
       this.db.exec('ALTER TABLE highlights ADD COLUMN cfi_range TEXT');
     }
+    if (!refreshedColumns.has('color')) {
+      this.db.exec("ALTER TABLE highlights ADD COLUMN color TEXT NOT NULL DEFAULT 'yellow'");
+    }
 
     this.db.exec(`
       UPDATE highlights
@@ -343,10 +401,19 @@ export class ReaderProgressDb {
         cfi_range TEXT NULL,
         text TEXT,
         note TEXT,
+        color TEXT NOT NULL DEFAULT 'yellow',
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
       );
 
+      CREATE TABLE IF NOT EXISTS highlight_categories (
+        user_id TEXT NOT NULL,
+        color TEXT NOT NULL,
+        label TEXT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (user_id, color)
+      );
+
       CREATE TABLE IF NOT EXISTS bookmarks (
         id TEXT PRIMARY KEY,
         user_id TEXT NOT NULL,
@@ -424,22 +491,39 @@ export class ReaderProgressDb {
        LIMIT 1`
     );
     this.insertHighlightStmt = this.db.prepare(
-      `INSERT INTO highlights (id, user_id, book_id, page, rects, cfi_range, text, note, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      `INSERT INTO highlights (id, user_id, book_id, page, rects, cfi_range, text, note, color, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     );
     this.updateHighlightNoteStmt = this.db.prepare(
       `UPDATE highlights
        SET note = ?, updated_at = ?
        WHERE user_id = ? AND id = ?`
     );
+    this.updateHighlightColorStmt = this.db.prepare(
+      `UPDATE highlights
+       SET color = ?, updated_at = ?
+       WHERE user_id = ? AND id = ?`
+    );
+    this.listHighlightCategoriesStmt = this.db.prepare(
+      `SELECT color, label
+       FROM highlight_categories
+       WHERE user_id = ?`
+    );
+    this.upsertHighlightCategoryStmt = this.db.prepare(`
+      INSERT INTO highlight_categories (user_id, color, label, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(user_id, color) DO UPDATE SET
+        label = excluded.label,
+        updated_at = excluded.updated_at
+    `);
     this.getHighlightStmt = this.db.prepare(
-      `SELECT id, user_id, book_id, page, rects, cfi_range, text, note, created_at, updated_at
+      `SELECT id, user_id, book_id, page, rects, cfi_range, text, note, color, created_at, updated_at
        FROM highlights
        WHERE user_id = ? AND id = ?
        LIMIT 1`
     );
     this.getEpubHighlightByCfiStmt = this.db.prepare(
-      `SELECT id, user_id, book_id, page, rects, cfi_range, text, note, created_at, updated_at
+      `SELECT id, user_id, book_id, page, rects, cfi_range, text, note, color, created_at, updated_at
        FROM highlights
        WHERE user_id = ? AND book_id = ? AND cfi_range = ?
        LIMIT 1`
@@ -451,7 +535,7 @@ export class ReaderProgressDb {
     );
     this.deleteHighlightStmt = this.db.prepare('DELETE FROM highlights WHERE id = ? AND user_id = ?');
     this.listHighlightsByPageStmt = this.db.prepare(
-      `SELECT id, user_id, book_id, page, rects, cfi_range, text, note, created_at, updated_at
+      `SELECT id, user_id, book_id, page, rects, cfi_range, text, note, color, created_at, updated_at
        FROM highlights
        WHERE user_id = ? AND book_id = ? AND page = ?
        ORDER BY created_at DESC`
@@ -463,11 +547,16 @@ export class ReaderProgressDb {
        ORDER BY page ASC, created_at ASC`
     );
     this.listHighlightsByBookStmt = this.db.prepare(
-      `SELECT id, user_id, book_id, page, rects, cfi_range, text, note, created_at, updated_at
+      `SELECT id, user_id, book_id, page, rects, cfi_range, text, note, color, created_at, updated_at
        FROM highlights
        WHERE user_id = ? AND book_id = ?
        ORDER BY CASE WHEN page IS NULL THEN 1 ELSE 0 END ASC, page ASC, created_at ASC`
     );
+    this.listHighlightsByUserStmt = this.db.prepare(
+      `SELECT id, user_id, book_id, page, rects, cfi_range, text, note, color, created_at, updated_at
+       FROM highlights
+       WHERE user_id = ?`
+    );
     this.listBookmarksStmt = this.db.prepare(
       `SELECT id, user_id, book_id, page, created_at
        FROM bookmarks
@@ -673,6 +762,7 @@ export class ReaderProgressDb {
     cfiRange: string | null,
     text: string | null,
     note: string | null,
+    color: HighlightColor,
     id: string,
     createdAt: number,
     updatedAt: number
@@ -680,6 +770,7 @@ export class ReaderProgressDb {
     const safeUserId = asNonEmptyString(userId);
     const safeBookId = asNonEmptyString(bookId);
     const safeId = asNonEmptyString(id);
+    const safeColor = normalizeHighlightColor(color);
     const safePage = page === null || page === undefined ? null : normalizeLastPage(page);
     const safeCfiRange = cfiRange ? asNonEmptyString(cfiRange) : null;
     const safeRects = Array.isArray(rects) ? rects : [];
@@ -699,6 +790,7 @@ export class ReaderProgressDb {
       safeCfiRange,
       normalizeHighlightText(text),
       normalizeHighlightNote(note),
+      safeColor,
       Math.floor(createdAt),
       Math.floor(updatedAt)
     );
@@ -710,6 +802,7 @@ export class ReaderProgressDb {
       cfiRange: safeCfiRange,
       text: normalizeHighlightText(text),
       note: normalizeHighlightNote(note),
+      color: safeColor,
       createdAt: Math.floor(createdAt),
       updatedAt: Math.floor(updatedAt)
     };
@@ -720,6 +813,7 @@ export class ReaderProgressDb {
     bookId: string,
     cfiRange: string,
     text: string | null,
+    color: HighlightColor,
     id: string,
     createdAt: number,
     updatedAt: number
@@ -737,7 +831,19 @@ export class ReaderProgressDb {
       if (existing) {
         return toHighlight(existing);
       }
-      return this.insertHighlight(safeUserId, safeBookId, null, null, safeCfiRange, text, null, safeId, createdAt, updatedAt);
+      return this.insertHighlight(
+        safeUserId,
+        safeBookId,
+        null,
+        null,
+        safeCfiRange,
+        text,
+        null,
+        color,
+        safeId,
+        createdAt,
+        updatedAt
+      );
     });
 
     return run();
@@ -760,6 +866,42 @@ export class ReaderProgressDb {
     return row ? toHighlight(row) : null;
   }
 
+  updateHighlightColor(userId: string, highlightId: string, color: HighlightColor): Highlight | null {
+    const safeUserId = asNonEmptyString(userId);
+    const safeHighlightId = asNonEmptyString(highlightId);
+    if (!safeUserId || !safeHighlightId) {
+      return null;
+    }
+
+    const result = this.updateHighlightColorStmt.run(normalizeHighlightColor(color), Date.now(), safeUserId, safeHighlightId);
+    if (result.changes === 0) {
+      return null;
+    }
+
+    const row = this.getHighlightStmt.get(safeUserId, safeHighlightId);
+    return row ? toHighlight(row) : null;
+  }
+
+  listHighlightCategories(userId: string): HighlightCategory[] {
+    const safeUserId = asNonEmptyString(userId);
+    const labels = new Map<HighlightColor, string | null>();
+    if (safeUserId) {
+      for (const row of this.listHighlightCategoriesStmt.all(safeUserId)) {
+        labels.set(normalizeHighlightColor(row.color), normalizeHighlightNote(row.label));
+      }
+    }
+    return HIGHLIGHT_COLORS.map((color) => ({ color, label: labels.get(color) ?? null }));
+  }
+
+  setHighlightCategory(userId: string, color: HighlightColor, label: string | null): HighlightCategory[] {
+    const safeUserId = asNonEmptyString(userId);
+    if (!safeUserId) {
+      return [];
+    }
+    this.upsertHighlightCategoryStmt.run(safeUserId, normalizeHighlightColor(color), normalizeHighlightNote(label), Date.now());
+    return this.listHighlightCategories(safeUserId);
+  }
+
   listHighlights(userId: string, bookId: string, page?: number | null): Highlight[] {
     const safeUserId = asNonEmptyString(userId);
     const safeBookId = asNonEmptyString(bookId);
@@ -811,6 +953,7 @@ export class ReaderProgressDb {
     rects: HighlightRect[],
     text: string | null,
     note: string | null,
+    color: HighlightColor,
     id: string,
     createdAt: number,
     updatedAt: number,
@@ -818,7 +961,7 @@ export class ReaderProgressDb {
   ): Highlight | null {
     const run = this.db.transaction(() => {
       this.deleteHighlights(userId, removeIds);
-      return this.insertHighlight(userId, bookId, page, rects, null, text, note, id, createdAt, updatedAt);
+      return this.insertHighlight(userId, bookId, page, rects, null, text, note, color, id, createdAt, updatedAt);
     });
     return run();
   }
@@ -850,6 +993,21 @@ export class ReaderProgressDb {
     return highlights;
   }
 
+  listAllHighlights(userId: string): Highlight[] {
+    const safeUserId = asNonEmptyString(userId);
+    if (!safeUserId) {
+      return [];
+    }
+    const highlights: Highlight[] = [];
+    for (const row of this.listHighlightsByUserStmt.all(safeUserId)) {
+      const parsed = toHighlight(row);
+      if (parsed) {
+        highlights.push(parsed);
+      }
+    }
+    return highlights;
+  }
+
   listBookmarks(userId: string, bookId: string): Bookmark[] {
     const safeUserId = asNonEmptyString(userId);
     const safeBookId = asNonEmptyString(bookId);
@@ -860,6 +1018,22 @@ export class ReaderProgressDb {
     return rows.map(toBookmark);
   }
 
+  listAllBookmarks(userId: string): Bookmark[] {
+    const safeUserId = asNonEmptyString(userId);
+    if (!safeUserId) {
+      return [];
+    }
+    const rows = this.db
+      .prepare(
+        `SELECT id, user_id, book_id, page, created_at
+         FROM bookmarks
+         WHERE user_id = ?
+         ORDER BY page ASC`
+      )
+      .all(safeUserId) as BookmarkRow[];
+    return rows.map(toBookmark);
+  }
+
   addBookmark(userId: string, bookId: string, page: number, id: string, createdAt: number): Bookmark | null {
     const safeUserId = asNonEmptyString(userId);
     const safeBookId = asNonEmptyString(bookId);
@@ -921,6 +1095,22 @@ export class ReaderProgressDb {
     return rows.map(toEpubBookmark);
   }
 
+  listAllEpubBookmarks(userId: string): EpubBookmark[] {
+    const safeUserId = asNonEmptyString(userId);
+    if (!safeUserId) {
+      return [];
+    }
+    const rows = this.db
+      .prepare(
+        `SELECT id, user_id, book_id, cfi, label, created_at
+         FROM epub_bookmarks
+         WHERE user_id = ?
+         ORDER BY created_at ASC`
+      )
+      .all(safeUserId) as EpubBookmarkRow[];
+    return rows.map(toEpubBookmark);
+  }
+
   toggleEpubBookmark(
     userId: string,
     bookId: string,
@@ -966,6 +1156,67 @@ export class ReaderProgressDb {
     return run();
   }
 
+  countBookAnnotations(userId: string, bookId: string): { notes: number; highlights: number; bookmarks: number } {
+    const count = (sql: string) => (this.db.prepare(sql).get(userId, bookId) as { count: number }).count;
+    return {
+      notes: count('SELECT COUNT(*) AS count FROM notes WHERE user_id = ? AND book_id = ?'),
+      highlights: count('SELECT COUNT(*) AS count FROM highlights WHERE user_id = ? AND book_id = ?'),
+      bookmarks:
+        count('SELECT COUNT(*) AS count FROM bookmarks WHERE user_id = ? AND book_id = ?') +
+        count('SELECT COUNT(*) AS count FROM epub_bookmarks WHERE user_id = ? AND book_id = ?')
+    };
+  }
+
+  // Bookmarks already present on the target win; for progress the more recent position wins.
+  moveBookData(userId: string, fromBookId: string, toBookId: string): void {
+    const run = this.db.transaction(() => {
+      for (const table of ['notes', 'highlights']) {
+        this.db.prepare(`UPDATE ${table} SET book_id = ? WHERE user_id = ? AND book_id = ?`).run(toBookId, userId, fromBookId);
+      }
+      for (const table of ['bookmarks', 'epub_bookmarks']) {
+        this.db
+          .prepare(`UPDATE OR IGNORE ${table} SET book_id = ? WHERE user_id = ? AND book_id = ?`)
+          .run(toBookId, userId, fromBookId);
+        this.db.prepare(`DELETE FROM ${table} WHERE user_id = ? AND book_id = ?`).run(userId, fromBookId);
+      }
+      for (const table of ['reading_progress', 'reading_progress_epub', 'reading_progress_flow']) {
+        this.db
+          .prepare(
+            `DELETE FROM ${table}
+             WHERE user_id = ? AND book_id = ?
+               AND updated_at < (SELECT updated_at FROM ${table} WHERE user_id = ? AND book_id = ?)`
+          )
+          .run(userId, toBookId, userId, fromBookId);
+        this.db
+          .prepare(`UPDATE OR IGNORE ${table} SET book_id = ? WHERE user_id = ? AND book_id = ?`)
+          .run(toBookId, userId, fromBookId);
+        this.db.prepare(`DELETE FROM ${table} WHERE user_id = ? AND book_id = ?`).run(userId, fromBookId);
+      }
+    });
+    run();
+  }
+
+  dumpBackupTables(userId: string): BackupTables {
+    return dumpTables(this.db, BACKUP_TABLES, userId);
+  }
+
+  restoreBackupTables(userId: string, dump: BackupTables, mode: BackupRestoreMode): void {
+    restoreTables(this.db, BACKUP_TABLES, dump, userId, mode);
+  }
+
+  // Replacing with an empty dump clears every table for the profile.
+  deleteUserData(userId: string): void {
+    restoreTables(this.db, BACKUP_TABLES, {}, userId, 'replace');
+  }
+
+  upsertSyncedRow(userId: string, table: ReaderBackupTable, match: BackupRow, row: BackupRow): void {
+    upsertTableRow(this.db, table, match, row, userId);
+  }
+
+  deleteSyncedRows(userId: string, table: ReaderBackupTable, match: BackupRow): void {
+    deleteTableRows(this.db, table, match, userId);
+  }
+
   migrateLegacyUserData(localUserId: string): void {
     const safeLocalUserId = asNonEmptyString(localUserId);
     if (!safeLocalUserId) {
@@ -980,6 +1231,7 @@ export class ReaderProgressDb {
            (SELECT COUNT(*) FROM reading_progress_flow WHERE user_id = ?) +
            (SELECT COUNT(*) FROM notes WHERE user_id = ?) +
            (SELECT COUNT(*) FROM highlights WHERE user_id = ?) +
+           (SELECT COUNT(*) FROM highlight_categories WHERE user_id = ?) +
            (SELECT COUNT(*) FROM bookmarks WHERE user_id = ?) +
            (SELECT COUNT(*) FROM epub_bookmarks WHERE user_id = ?) AS count`
       )
@@ -990,6 +1242,7 @@ export class ReaderProgressDb {
         safeLocalUserId,
         safeLocalUserId,
         safeLocalUserId,
+        safeLocalUserId,
         safeLocalUserId
       ) as { count: number };
 
@@ -1011,6 +1264,8 @@ export class ReaderProgressDb {
            UNION
            SELECT user_id FROM highlights
            UNION
+           SELECT user_id FROM highlight_categories
+           UNION
            SELECT user_id FROM bookmarks
            UNION
            SELECT user_id FROM epub_bookmarks
@@ -1035,6 +1290,9 @@ export class ReaderProgressDb {
         .run(safeLocalUserId, legacyUserId);
       this.db.prepare('UPDATE notes SET user_id = ? WHERE user_id = ?').run(safeLocalUserId, legacyUserId);
       this.db.prepare('UPDATE highlights SET user_id = ? WHERE user_id = ?').run(safeLocalUserId, legacyUserId);
+      this.db
+        .prepare('UPDATE highlight_categories SET user_id = ? WHERE user_id = ?')
+        .run(safeLocalUserId, legacyUserId);
       this.db.prepare('UPDATE bookmarks SET user_id = ? WHERE user_id = ?').run(safeLocalUserId, legacyUserId);
       this.db.prepare('UPDATE epub_bookmarks SET user_id = ? WHERE user_id = ?').run(safeLocalUserId, legacyUserId);
     });
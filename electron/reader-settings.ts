@@ -1,15 +1,19 @@
 import type Database from 'better-sqlite3';
 import type {
+  BookReaderSettingsOverride,
   EpubFontFamily,
   EpubMarginSize,
   PdfZoomPreset,
   ReaderSettings,
+  ReaderSettingsBookResult,
+  ReaderSettingsGetBookRequest,
   ReaderSettingsPatch,
+  ReaderSettingsSetBookRequest,
   ReaderSettingsUpdateResult,
   TextSizePreset,
   ReaderTheme
 } from '../shared/ipc';
-import { READER_SETTINGS_DEFAULTS } from '../shared/ipc';
+import { BOOK_READER_SETTINGS_KEYS, READER_SETTINGS_DEFAULTS } from '../shared/ipc';
 
 type ReaderSettingsRow = {
   user_id: string;
@@ -302,3 +306,59 @@ export function updateReaderSettings(
     };
   }
 }
+
+function toBookOverride(patch: ReaderSettingsPatch): BookReaderSettingsOverride {
+  const sanitizedPatch = sanitizePatch(patch);
+  return Object.fromEntries(
+    BOOK_READER_SETTINGS_KEYS.filter((key) => sanitizedPatch[key] !== undefined).map((key) => [key, sanitizedPatch[key]])
+  ) as BookReaderSettingsOverride;
+}
+
+function parseBookOverride(value: string | null): BookReaderSettingsOverride {
+  if (!value) {
+    return {};
+  }
+  try {
+    return toBookOverride(JSON.parse(value) as ReaderSettingsPatch);
+  } catch {
+    return {};
+  }
+}
+
+export function getBookReaderSettings(
+  db: Database.Database,
+  userId: string,
+  payload: ReaderSettingsGetBookRequest
+): ReaderSettingsBookResult {
+  const row = db
+    .prepare('SELECT reader_settings_override FROM books WHERE id = ? AND user_id = ? LIMIT 1')
+    .get(payload.bookId?.trim() ?? '', userId) as { reader_settings_override: string | null } | undefined;
+  if (!row) {
+    return { ok: false, error: 'Book not found.' };
+  }
+
+  return { ok: true, override: parseBookOverride(row.reader_settings_override) };
+}
+
+export function setBookReaderSettings(
+  db: Database.Database,
+  userId: string,
+  payload: ReaderSettingsSetBookRequest
+): ReaderSettingsBookResult {
+  try {
+    const override = toBookOverride(payload.override ?? {});
+    const result = db
+      .prepare('UPDATE books SET reader_settings_override = ? WHERE id = ? AND user_id = ?')
+      .run(Object.keys(override).length > 0 ? JSON.stringify(override) : null, payload.bookId?.trim() ?? '', userId);
+    if (result.changes === 0) {
+      return { ok: false, error: 'Book not found.' };
+    }
+
+    return { ok: true, override };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : 'Failed to update book reader settings.'
+    };
+  }
+}
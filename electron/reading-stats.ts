@@ -1,11 +1,22 @@
 import type Database from 'better-sqlite3';
 import type {
   BookFormat,
+  ReadingBookStats,
+  ReadingSession,
+  ReadingStatsOverview,
   RecentBookEntry,
+  StatsGetOverviewRequest,
+  StatsGetOverviewResult,
   StatsGetRecentBooksResult,
+  StatsHeartbeatRequest,
+  StatsHeartbeatResult,
+  StatsListSessionsRequest,
+  StatsListSessionsResult,
   StatsMarkOpenedRequest,
   StatsMarkOpenedResult
 } from '../shared/ipc';
+import { BOOK_FORMATS } from '../shared/ipc';
+import { promoteBookToReading } from './books';
 
 type StatsBookRow = {
   book_id: string;
@@ -14,10 +25,134 @@ type StatsBookRow = {
   last_opened_at: number | null;
 };
 
+type ReadingSessionRow = {
+  id: string;
+  book_id: string;
+  format: BookFormat;
+  started_at: number;
+  ended_at: number;
+  active_seconds: number;
+  locations_json: string;
+};
+
+type OverviewSessionRow = ReadingSessionRow & {
+  title: string;
+};
+
+// A heartbeat never carries more time than a few missed intervals; larger values are clamped.
+const MAX_HEARTBEAT_SECONDS = 10 * 60;
+const MAX_SESSION_LOCATIONS = 5000;
+const MAX_LOCATION_LENGTH = 256;
+const DEFAULT_OVERVIEW_DAYS = 365;
+const MAX_OVERVIEW_DAYS = 3 * 365;
+// Pace is meaningless for a handful of seconds, so it is only reported after some real reading.
+const MIN_PACE_SECONDS = 5 * 60;
+
 function sanitizeBookId(bookId: string | undefined): string {
   return bookId?.trim() ?? '';
 }
 
+function sanitizeActiveSeconds(value: number | undefined): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.max(0, Math.min(MAX_HEARTBEAT_SECONDS, Math.floor(value)));
+}
+
+function sanitizeLocations(value: string[] | undefined): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0 && item.length <= MAX_LOCATION_LENGTH);
+}
+
+function parseLocations(value: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function mergeLocations(existing: string[], incoming: string[]): string[] {
+  const merged = new Set(existing);
+  for (const location of incoming) {
+    if (merged.size >= MAX_SESSION_LOCATIONS) {
+      break;
+    }
+    merged.add(location);
+  }
+  return Array.from(merged);
+}
+
+function toLocalDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function shiftDays(timestamp: number, days: number): number {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+function startOfLocalDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function countStreakEndingAt(readDays: Set<string>, dayStart: number): number {
+  let streak = 0;
+  let cursor = dayStart;
+  while (readDays.has(toLocalDateKey(cursor))) {
+    streak += 1;
+    cursor = shiftDays(cursor, -1);
+  }
+  return streak;
+}
+
+function getLongestStreak(readDays: Set<string>): number {
+  let longest = 0;
+  for (const key of readDays) {
+    const [year, month, day] = key.split('-').map(Number);
+    const dayStart = new Date(year, month - 1, day).getTime();
+    if (readDays.has(toLocalDateKey(shiftDays(dayStart, -1)))) {
+      continue;
+    }
+
+    let length = 0;
+    let cursor = dayStart;
+    while (readDays.has(toLocalDateKey(cursor))) {
+      length += 1;
+      cursor = shiftDays(cursor, 1);
+    }
+    longest = Math.max(longest, length);
+  }
+  return longest;
+}
+
+function toSession(row: ReadingSessionRow): ReadingSession {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    format: row.format,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    activeSeconds: row.active_seconds,
+    locations: parseLocations(row.locations_json)
+  };
+}
+
 function isBookOwned(db: Database.Database, userId: string, bookId: string): boolean {
   const row = db
     .prepare(
@@ -52,6 +187,9 @@ export function markBookOpened(
   if (!isBookOwned(db, userId, bookId)) {
     return { ok: false, error: 'Book not found.' };
   }
+  if (!BOOK_FORMATS.includes(payload.format)) {
+    return { ok: false, error: 'Unknown book format.' };
+  }
 
   const now = Date.now();
   db.prepare(
@@ -70,6 +208,7 @@ export function markBookOpened(
        last_format = excluded.last_format,
        updated_at = excluded.updated_at`
   ).run(bookId, now, payload.format, now);
+  promoteBookToReading(db, userId, bookId, now);
 
   return { ok: true };
 }
@@ -96,3 +235,225 @@ export function getRecentBooks(db: Database.Database, userId: string): StatsGetR
     books: recentBooks.map(toEntry)
   };
 }
+
+export function recordReadingHeartbeat(
+  db: Database.Database,
+  userId: string,
+  payload: StatsHeartbeatRequest
+): StatsHeartbeatResult {
+  const sessionId = payload.sessionId?.trim() ?? '';
+  const bookId = sanitizeBookId(payload.bookId);
+  if (!sessionId) {
+    return { ok: false, error: 'Reading session not found.' };
+  }
+  if (!bookId || !isBookOwned(db, userId, bookId)) {
+    return { ok: false, error: 'Book not found.' };
+  }
+  if (!BOOK_FORMATS.includes(payload.format)) {
+    return { ok: false, error: 'Unknown book format.' };
+  }
+
+  const activeSeconds = sanitizeActiveSeconds(payload.activeSeconds);
+  const locations = sanitizeLocations(payload.locations);
+  const now = Date.now();
+
+  const record = db.transaction((): StatsHeartbeatResult => {
+    const existing = db
+      .prepare(
+        `SELECT id, book_id, format, started_at, ended_at, active_seconds, locations_json
+         FROM reading_sessions
+         WHERE id = ? AND user_id = ?
+         LIMIT 1`
+      )
+      .get(sessionId, userId) as ReadingSessionRow | undefined;
+
+    if (existing && existing.book_id !== bookId) {
+      return { ok: false, error: 'Reading session belongs to another book.' };
+    }
+
+    if (!existing) {
+      // Sessions only exist once the reader has been active; opening and idling leaves no trace.
+      if (activeSeconds === 0) {
+        return { ok: true };
+      }
+
+      db.prepare(
+        `INSERT INTO reading_sessions (
+           id,
+           user_id,
+           book_id,
+           format,
+           started_at,
+           ended_at,
+           active_seconds,
+           locations_json,
+           updated_at
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        sessionId,
+        userId,
+        bookId,
+        payload.format,
+        now - activeSeconds * 1000,
+        now,
+        activeSeconds,
+        JSON.stringify(mergeLocations([], locations)),
+        now
+      );
+    } else {
+      db.prepare(
+        `UPDATE reading_sessions
+         SET active_seconds = active_seconds + ?,
+             ended_at = ?,
+             locations_json = ?,
+             updated_at = ?
+         WHERE id = ? AND user_id = ?`
+      ).run(
+        activeSeconds,
+        activeSeconds > 0 ? now : existing.ended_at,
+        JSON.stringify(mergeLocations(parseLocations(existing.locations_json), locations)),
+        now,
+        sessionId,
+        userId
+      );
+    }
+
+    if (activeSeconds > 0) {
+      db.prepare(
+        `INSERT INTO reading_stats (
+           book_id,
+           total_reading_time_sec,
+           last_opened_at,
+           open_count,
+           last_format,
+           updated_at
+         )
+         VALUES (?, ?, NULL, 0, ?, ?)
+         ON CONFLICT(book_id) DO UPDATE SET
+           total_reading_time_sec = reading_stats.total_reading_time_sec + excluded.total_reading_time_sec,
+           last_format = excluded.last_format,
+           updated_at = excluded.updated_at`
+      ).run(bookId, activeSeconds, payload.format, now);
+    }
+
+    return { ok: true };
+  });
+
+  return record();
+}
+
+export function listReadingSessions(
+  db: Database.Database,
+  userId: string,
+  payload: StatsListSessionsRequest
+): StatsListSessionsResult {
+  const where: string[] = ['s.user_id = ?'];
+  const params: Array<string | number> = [userId];
+
+  const bookId = sanitizeBookId(payload?.bookId ?? undefined);
+  if (bookId) {
+    where.push('s.book_id = ?');
+    params.push(bookId);
+  }
+  if (typeof payload?.from === 'number' && Number.isFinite(payload.from)) {
+    where.push('s.ended_at >= ?');
+    params.push(Math.floor(payload.from));
+  }
+  if (typeof payload?.to === 'number' && Number.isFinite(payload.to)) {
+    where.push('s.started_at < ?');
+    params.push(Math.floor(payload.to));
+  }
+
+  const rows = db
+    .prepare(
+      `SELECT s.id, s.book_id, s.format, s.started_at, s.ended_at, s.active_seconds, s.locations_json
+       FROM reading_sessions AS s
+       INNER JOIN books AS b ON b.id = s.book_id AND b.user_id = s.user_id
+       WHERE ${where.join(' AND ')}
+       ORDER BY s.started_at DESC`
+    )
+    .all(...params) as ReadingSessionRow[];
+
+  return {
+    ok: true,
+    sessions: rows.map(toSession)
+  };
+}
+
+export function getReadingOverview(
+  db: Database.Database,
+  userId: string,
+  payload: StatsGetOverviewRequest
+): StatsGetOverviewResult {
+  const requestedDays = typeof payload?.days === 'number' && Number.isFinite(payload.days) ? Math.floor(payload.days) : 0;
+  const dayCount = requestedDays > 0 ? Math.min(requestedDays, MAX_OVERVIEW_DAYS) : DEFAULT_OVERVIEW_DAYS;
+
+  const rows = db
+    .prepare(
+      `SELECT s.id, s.book_id, s.format, s.started_at, s.ended_at, s.active_seconds, s.locations_json, b.title
+       FROM reading_sessions AS s
+       INNER JOIN books AS b ON b.id = s.book_id AND b.user_id = s.user_id
+       WHERE s.user_id = ?
+       ORDER BY s.started_at ASC`
+    )
+    .all(userId) as OverviewSessionRow[];
+
+  const secondsByDay = new Map<string, number>();
+  const bookStats = new Map<string, ReadingBookStats & { locations: Set<string> }>();
+  let totalSeconds = 0;
+
+  for (const row of rows) {
+    const dayKey = toLocalDateKey(row.started_at);
+    secondsByDay.set(dayKey, (secondsByDay.get(dayKey) ?? 0) + row.active_seconds);
+    totalSeconds += row.active_seconds;
+
+    const current =
+      bookStats.get(row.book_id) ??
+      {
+        bookId: row.book_id,
+        title: row.title,
+        format: row.format,
+        totalSeconds: 0,
+        sessionCount: 0,
+        locationsCovered: 0,
+        locationsPerHour: null,
+        lastReadAt: null,
+        locations: new Set<string>()
+      };
+    current.totalSeconds += row.active_seconds;
+    current.sessionCount += 1;
+    current.lastReadAt = Math.max(current.lastReadAt ?? 0, row.ended_at);
+    for (const location of parseLocations(row.locations_json)) {
+      current.locations.add(location);
+    }
+    bookStats.set(row.book_id, current);
+  }
+
+  const todayStart = startOfLocalDay(Date.now());
+  const readDays = new Set(Array.from(secondsByDay.entries()).filter(([, seconds]) => seconds > 0).map(([day]) => day));
+  const days = Array.from({ length: dayCount }, (_, index) => {
+    const date = toLocalDateKey(shiftDays(todayStart, index - dayCount + 1));
+    return { date, seconds: secondsByDay.get(date) ?? 0 };
+  });
+
+  const overview: ReadingStatsOverview = {
+    totalSeconds,
+    todaySeconds: secondsByDay.get(toLocalDateKey(todayStart)) ?? 0,
+    // Today still counts as part of the streak until it is over, so start from yesterday if nothing was read yet.
+    currentStreakDays: readDays.has(toLocalDateKey(todayStart))
+      ? countStreakEndingAt(readDays, todayStart)
+      : countStreakEndingAt(readDays, shiftDays(todayStart, -1)),
+    longestStreakDays: getLongestStreak(readDays),
+    days,
+    books: Array.from(bookStats.values())
+      .map(({ locations, ...stats }) => ({
+        ...stats,
+        locationsCovered: locations.size,
+        locationsPerHour: stats.totalSeconds >= MIN_PACE_SECONDS ? locations.size / (stats.totalSeconds / 3600) : null
+      }))
+      .sort((left, right) => right.totalSeconds - left.totalSeconds)
+  };
+
+  return { ok: true, overview };
+}
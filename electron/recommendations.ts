@@ -8,6 +8,7 @@ import type {
   RecommendationsForBookResult,
   RecommendationsHomeResult
 } from '../shared/ipc';
+import { compareSeriesVolumes, findNextInSeries, getSeriesKey, groupBooksBySeries } from '../shared/series';
 import { listBooks } from './books';
 
 type ReadingSignalRow = {
@@ -79,7 +80,9 @@ function buildProfile(books: Book[], signals: ReadingSignalRow[]) {
 
   for (const book of books) {
     const signal = signalByBookId.get(book.id);
-    const weight = 1 + (signal?.open_count ?? 0) * 2 + (signal?.last_opened_at ? 3 : 0);
+    // A finished book is the strongest taste signal; an abandoned one should not pull in more of the same.
+    const statusWeight = book.status === 'finished' ? 4 : book.status === 'abandoned' ? -2 : 0;
+    const weight = Math.max(0, 1 + (signal?.open_count ?? 0) * 2 + (signal?.last_opened_at ? 3 : 0) + statusWeight);
     const authorKey = getAuthorKey(book);
     if (authorKey) {
       authorWeights.set(authorKey, (authorWeights.get(authorKey) ?? 0) + weight);
@@ -139,11 +142,33 @@ function getTitleOverlap(left: Book, right: Book) {
   return [...leftTokens].filter((token) => rightTokens.has(token));
 }
 
+// Only series the reader has actually started produce a next-volume suggestion.
+function getNextSeriesVolumeIds(books: Book[]) {
+  return new Set(
+    groupBooksBySeries(books)
+      .filter((series) => series.books.some((book) => book.status === 'finished' || book.status === 'reading'))
+      .map((series) => series.nextBookId)
+      .filter((bookId): bookId is string => Boolean(bookId))
+  );
+}
+
+function findNextVolumeAfter(books: Book[], targetBook: Book) {
+  const seriesKey = getSeriesKey(targetBook.series);
+  if (!seriesKey) {
+    return null;
+  }
+
+  const volumes = books.filter((book) => getSeriesKey(book.series) === seriesKey).sort(compareSeriesVolumes);
+  const targetPosition = volumes.findIndex((book) => book.id === targetBook.id);
+  return findNextInSeries(volumes.slice(targetPosition + 1));
+}
+
 function rankHomeRecommendations(books: Book[], profile: ReturnType<typeof buildProfile>) {
   const recentBookIds = new Set(profile.recentBookIds.slice(0, 3));
+  const nextSeriesVolumeIds = getNextSeriesVolumeIds(books);
 
   return books
-    .filter((book) => !recentBookIds.has(book.id))
+    .filter((book) => !recentBookIds.has(book.id) && book.status !== 'finished')
     .map((book) => {
       const candidate: RankedCandidate = {
         book,
@@ -172,8 +197,13 @@ function rankHomeRecommendations(books: Book[], profile: ReturnType<typeof build
         }
       }
 
+      if (nextSeriesVolumeIds.has(book.id)) {
+        candidate.score += 24;
+        candidate.reasons.add('next-in-series');
+      }
+
       const signal = profile.signalByBookId.get(book.id);
-      if ((signal?.open_count ?? 0) > 0) {
+      if (book.status === 'reading' || (book.status !== 'abandoned' && (signal?.open_count ?? 0) > 0)) {
         candidate.score += Math.min((signal?.open_count ?? 0) * 2, 8);
         candidate.reasons.add('continue-reading');
       } else {
@@ -205,9 +235,10 @@ function rankSimilarBooks(books: Book[], targetBook: Book, profile: ReturnType<t
   const targetAuthor = getAuthorKey(targetBook);
   const targetSubjects = new Set(getSubjectTokens(targetBook));
   const recentBookIds = new Set(profile.recentBookIds);
+  const nextVolumeId = findNextVolumeAfter(books, targetBook)?.id ?? null;
 
   return books
-    .filter((book) => book.id !== targetBook.id)
+    .filter((book) => book.id !== targetBook.id && book.status !== 'finished')
     .map((book) => {
       const candidate: RankedCandidate = {
         book,
@@ -233,6 +264,11 @@ function rankSimilarBooks(books: Book[], targetBook: Book, profile: ReturnType<t
         }
       }
 
+      if (book.id === nextVolumeId) {
+        candidate.score += 60;
+        candidate.reasons.add('next-in-series');
+      }
+
       const overlappingTokens = getTitleOverlap(book, targetBook);
       if (overlappingTokens.length > 0) {
         candidate.score += overlappingTokens.length * 4;
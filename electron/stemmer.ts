@@ -0,0 +1,54 @@
+// Snowball Russian stemmer. English words are stemmed by the FTS5 porter tokenizer instead,
+// so only Cyrillic words go through here.
+const PERFECTIVE_GERUND = /((ив|ивши|ившись|ыв|ывши|ывшись)|((?<=[ая])(в|вши|вшись)))$/;
+const REFLEXIVE = /(с[яь])$/;
+const ADJECTIVE = /(ее|ие|ые|ое|ими|ыми|ей|ий|ый|ой|ем|им|ым|ом|его|ого|ему|ому|их|ых|ую|юю|ая|яя|ою|ею)$/;
+const PARTICIPLE = /((ивш|ывш|ующ)|((?<=[ая])(ем|нн|вш|ющ|щ)))$/;
+const VERB =
+  /((ила|ыла|ена|ейте|уйте|ите|или|ыли|ей|уй|ил|ыл|им|ым|ен|ило|ыло|ено|ят|ует|уют|ит|ыт|ены|ить|ыть|ишь|ую|ю)|((?<=[ая])(ла|на|ете|йте|ли|й|л|ем|н|ло|но|ет|ют|ны|ть|ешь|нно)))$/;
+const NOUN = /(а|ев|ов|ие|ье|е|иями|ями|ами|еи|ии|и|ией|ей|ой|ий|й|иям|ям|ием|ем|ам|ом|о|у|ах|иях|ях|ы|ь|ию|ью|ю|ия|ья|я)$/;
+const RV = /^(.*?[аеиоуыэюя])(.*)$/;
+const DERIVATIONAL = /.*[^аеиоуыэюя]+[аеиоуыэюя].*ость?$/;
+const SUPERLATIVE = /(ейше|ейш)$/;
+const CYRILLIC_WORD = /^[а-я]+$/;
+const MIN_STEM_LENGTH = 2;
+
+export function foldRussianYo(value: string): string {
+  return value.replace(/ё/g, 'е').replace(/Ё/g, 'Е');
+}
+
+export function stemRussianWord(word: string): string {
+  const normalized = foldRussianYo(word.toLowerCase());
+  const match = CYRILLIC_WORD.test(normalized) ? RV.exec(normalized) : null;
+  if (!match || !match[2]) {
+    return normalized;
+  }
+
+  const prefix = match[1];
+  let rv = match[2];
+
+  const withoutGerund = rv.replace(PERFECTIVE_GERUND, '');
+  if (withoutGerund !== rv) {
+    rv = withoutGerund;
+  } else {
+    rv = rv.replace(REFLEXIVE, '');
+    const withoutAdjective = rv.replace(ADJECTIVE, '');
+    if (withoutAdjective !== rv) {
+      rv = withoutAdjective.replace(PARTICIPLE, '');
+    } else {
+      const withoutVerb = rv.replace(VERB, '');
+      rv = withoutVerb !== rv ? withoutVerb : rv.replace(NOUN, '');
+    }
+  }
+
+  rv = rv.replace(/и$/, '');
+  if (DERIVATIONAL.test(rv)) {
+    rv = rv.replace(/ость?$/, '');
+  }
+
+  const withoutSoftSign = rv.replace(/ь$/, '');
+  rv = withoutSoftSign !== rv ? withoutSoftSign : rv.replace(SUPERLATIVE, '').replace(/нн$/, 'н');
+
+  const stem = `${prefix}${rv}`;
+  return stem.length >= MIN_STEM_LENGTH ? stem : normalized;
+}
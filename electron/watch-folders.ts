@@ -0,0 +1,411 @@
+import { randomUUID } from 'node:crypto';
+import { watch, type FSWatcher } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+import type { BrowserWindow, OpenDialogOptions, WebContents } from 'electron';
+import { dialog } from 'electron';
+import type {
+  BooksImportFilesResult,
+  BooksImportFolderResult,
+  BooksImportPathsRequest,
+  BooksImportResult,
+  FolderImportProgressEvent,
+  LibraryImportActivity,
+  WatchFolder,
+  WatchFoldersAddResult,
+  WatchFoldersListResult,
+  WatchFoldersRemoveRequest
+} from '../shared/ipc';
+import { IPC_CHANNELS } from '../shared/ipc';
+import { hashBookFile } from './book-hash';
+import { importBookFromPath, SUPPORTED_BOOK_EXTENSIONS } from './books';
+import { addBooksToCollection } from './collections';
+
+type WatchFolderRow = {
+  id: string;
+  folder_path: string;
+  created_at: number;
+};
+
+type WatchedFileRow = {
+  file_path: string;
+  size: number;
+  modified_at: number;
+  book_id: string | null;
+  failed_hash: string | null;
+};
+
+type ActivityListener = (entries: LibraryImportActivity[]) => void;
+
+const SUPPORTED_EXTENSIONS = new Set(SUPPORTED_BOOK_EXTENSIONS.map((extension) => `.${extension}`));
+const RESCAN_DELAY_MS = 2_000;
+// Files changed this recently may still be copied in; they are picked up on the next scan.
+const SETTLE_TIME_MS = 3_000;
+const MAX_ACTIVITY_ENTRIES = 50;
+
+const watchers = new Map<string, FSWatcher>();
+const rescanTimers = new Map<string, NodeJS.Timeout>();
+let activity: LibraryImportActivity[] = [];
+let activityListener: ActivityListener | null = null;
+let scanQueue: Promise<void> = Promise.resolve();
+let folderImportRunning = false;
+
+async function isDirectory(folderPath: string) {
+  try {
+    return (await fs.stat(folderPath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function listBookFiles(rootPath: string): Promise<string[]> {
+  const files: string[] = [];
+  const pending = [rootPath];
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+    let entries;
+    try {
+      entries = await fs.readdir(current, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(entryPath);
+      } else if (entry.isFile() && SUPPORTED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+        files.push(entryPath);
+      }
+    }
+  }
+  return files.sort((left, right) => left.localeCompare(right));
+}
+
+export function toImportActivity(filePath: string, result: BooksImportResult): LibraryImportActivity {
+  return {
+    id: randomUUID(),
+    filePath,
+    outcome: !result.ok ? 'failed' : result.duplicate ? 'duplicate' : 'imported',
+    bookId: result.ok ? result.book.id : null,
+    title: result.ok ? result.book.title : null,
+    message: result.ok ? null : result.error,
+    createdAt: Date.now()
+  };
+}
+
+export function recordImportActivity(entries: LibraryImportActivity[]) {
+  if (entries.length === 0) {
+    return;
+  }
+  activity = [...[...entries].reverse(), ...activity].slice(0, MAX_ACTIVITY_ENTRIES);
+  activityListener?.(entries);
+}
+
+async function scanWatchFolder(db: Database.Database, userId: string, userDataPath: string, folderPath: string) {
+  const known = new Map(
+    (
+      db
+        .prepare('SELECT file_path, size, modified_at, book_id, failed_hash FROM watch_folder_files WHERE user_id = ?')
+        .all(userId) as WatchedFileRow[]
+    ).map((row) => [row.file_path, row])
+  );
+  const saveFile = db.prepare(
+    `INSERT INTO watch_folder_files (user_id, file_path, size, modified_at, book_id, failed_hash, checked_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(user_id, file_path) DO UPDATE SET
+       size = excluded.size,
+       modified_at = excluded.modified_at,
+       book_id = excluded.book_id,
+       failed_hash = excluded.failed_hash,
+       checked_at = excluded.checked_at`
+  );
+  const entries: LibraryImportActivity[] = [];
+  let unsettled = false;
+
+  for (const filePath of await listBookFiles(folderPath)) {
+    let stat;
+    try {
+      stat = await fs.stat(filePath);
+    } catch {
+      continue;
+    }
+    const modifiedAt = Math.floor(stat.mtimeMs);
+    const previous = known.get(filePath);
+    // A file that failed is retried once its content changes, even if size and mtime were kept.
+    const contentHash = previous?.book_id === null ? await hashBookFile(filePath).catch(() => null) : null;
+    if (
+      previous &&
+      previous.size === stat.size &&
+      previous.modified_at === modifiedAt &&
+      (previous.book_id !== null || contentHash === previous.failed_hash)
+    ) {
+      continue;
+    }
+    if (Date.now() - modifiedAt < SETTLE_TIME_MS) {
+      unsettled = true;
+      continue;
+    }
+
+    // A file that was seen once is not imported again after its book is deleted from the library.
+    const entry = toImportActivity(filePath, await importBookFromPath(db, userId, userDataPath, filePath));
+    const failedHash = entry.bookId ? null : contentHash ?? (await hashBookFile(filePath).catch(() => null));
+    saveFile.run(userId, filePath, stat.size, modifiedAt, entry.bookId, failedHash, Date.now());
+    entries.push(entry);
+  }
+
+  recordImportActivity(entries);
+  if (unsettled) {
+    scheduleRescan(db, userId, userDataPath, folderPath, SETTLE_TIME_MS);
+  }
+}
+
+function queueScan(db: Database.Database, userId: string, userDataPath: string, folderPath: string) {
+  scanQueue = scanQueue
+    .then(() => scanWatchFolder(db, userId, userDataPath, folderPath))
+    .catch((error) => {
+      console.warn(`Failed to scan watch folder ${folderPath}`, error);
+    });
+  return scanQueue;
+}
+
+function scheduleRescan(
+  db: Database.Database,
+  userId: string,
+  userDataPath: string,
+  folderPath: string,
+  delayMs = RESCAN_DELAY_MS
+) {
+  clearTimeout(rescanTimers.get(folderPath));
+  rescanTimers.set(
+    folderPath,
+    setTimeout(() => {
+      rescanTimers.delete(folderPath);
+      void queueScan(db, userId, userDataPath, folderPath);
+    }, delayMs)
+  );
+}
+
+function watchFolder(db: Database.Database, userId: string, userDataPath: string, folderPath: string) {
+  if (watchers.has(folderPath)) {
+    return;
+  }
+  try {
+    const watcher = watch(folderPath, { recursive: true }, () => scheduleRescan(db, userId, userDataPath, folderPath));
+    watcher.on('error', (error) => {
+      console.warn(`Stopped watching ${folderPath}`, error);
+      unwatchFolder(folderPath);
+    });
+    watchers.set(folderPath, watcher);
+  } catch (error) {
+    console.warn(`Failed to watch ${folderPath}`, error);
+  }
+}
+
+function unwatchFolder(folderPath: string) {
+  watchers.get(folderPath)?.close();
+  watchers.delete(folderPath);
+  clearTimeout(rescanTimers.get(folderPath));
+  rescanTimers.delete(folderPath);
+}
+
+function listWatchFolderRows(db: Database.Database, userId: string): WatchFolderRow[] {
+  return db
+    .prepare('SELECT id, folder_path, created_at FROM watch_folders WHERE user_id = ? ORDER BY created_at ASC')
+    .all(userId) as WatchFolderRow[];
+}
+
+export async function listWatchFolders(db: Database.Database, userId: string): Promise<WatchFoldersListResult> {
+  const folders: WatchFolder[] = [];
+  for (const row of listWatchFolderRows(db, userId)) {
+    folders.push({
+      id: row.id,
+      path: row.folder_path,
+      createdAt: row.created_at,
+      available: await isDirectory(row.folder_path)
+    });
+  }
+  return { ok: true, folders, activity };
+}
+
+export async function addWatchFolder(
+  db: Database.Database,
+  userId: string,
+  userDataPath: string,
+  ownerWindow: BrowserWindow | null
+): Promise<WatchFoldersAddResult> {
+  const dialogOptions: OpenDialogOptions = {
+    title: 'Add watch folder',
+    properties: ['openDirectory']
+  };
+  const pickerResult = ownerWindow
+    ? await dialog.showOpenDialog(ownerWindow, dialogOptions)
+    : await dialog.showOpenDialog(dialogOptions);
+  if (pickerResult.canceled || pickerResult.filePaths.length === 0) {
+    return { ok: false, cancelled: true };
+  }
+
+  const folderPath = path.resolve(pickerResult.filePaths[0]);
+  const nested = listWatchFolderRows(db, userId).find(
+    (row) => folderPath === row.folder_path || folderPath.startsWith(row.folder_path + path.sep)
+  );
+  if (nested) {
+    return { ok: false, error: 'This folder is already watched.' };
+  }
+
+  db.prepare('INSERT INTO watch_folders (id, user_id, folder_path, created_at) VALUES (?, ?, ?, ?)').run(
+    randomUUID(),
+    userId,
+    folderPath,
+    Date.now()
+  );
+  watchFolder(db, userId, userDataPath, folderPath);
+  void queueScan(db, userId, userDataPath, folderPath);
+  return listWatchFolders(db, userId);
+}
+
+export function removeWatchFolder(
+  db: Database.Database,
+  userId: string,
+  payload: WatchFoldersRemoveRequest
+): Promise<WatchFoldersListResult> {
+  const row = db
+    .prepare('SELECT folder_path FROM watch_folders WHERE id = ? AND user_id = ? LIMIT 1')
+    .get(payload?.id, userId) as { folder_path: string } | undefined;
+  if (row) {
+    unwatchFolder(row.folder_path);
+    db.prepare('DELETE FROM watch_folders WHERE id = ? AND user_id = ?').run(payload.id, userId);
+  }
+  return listWatchFolders(db, userId);
+}
+
+export function clearImportActivity(db: Database.Database, userId: string): Promise<WatchFoldersListResult> {
+  activity = [];
+  return listWatchFolders(db, userId);
+}
+
+export function startWatchFolders(
+  db: Database.Database,
+  userId: string,
+  userDataPath: string,
+  onActivity: ActivityListener
+) {
+  activityListener = onActivity;
+  for (const row of listWatchFolderRows(db, userId)) {
+    watchFolder(db, userId, userDataPath, row.folder_path);
+    void queueScan(db, userId, userDataPath, row.folder_path);
+  }
+}
+
+// Called before switching profiles so folders of the previous profile stop importing into it.
+export function stopWatchFolders() {
+  for (const folderPath of [...watchers.keys()]) {
+    unwatchFolder(folderPath);
+  }
+  activity = [];
+}
+
+// Used by the multi-select import dialog and by files dropped onto the window or a collection.
+export async function importBookPaths(
+  db: Database.Database,
+  userId: string,
+  userDataPath: string,
+  payload: BooksImportPathsRequest
+): Promise<BooksImportFilesResult> {
+  const paths = Array.isArray(payload?.paths) ? payload.paths.filter((item) => typeof item === 'string' && item.trim()) : [];
+  if (paths.length === 0) {
+    return { ok: false, error: 'No files to import.' };
+  }
+
+  const entries: LibraryImportActivity[] = [];
+  for (const filePath of paths) {
+    entries.push(toImportActivity(filePath, await importBookFromPath(db, userId, userDataPath, filePath)));
+  }
+  recordImportActivity(entries);
+
+  const collectionId = payload.collectionId?.trim();
+  const bookIds = entries.flatMap((entry) => (entry.bookId ? [entry.bookId] : []));
+  if (collectionId && bookIds.length > 0) {
+    const collectionResult = addBooksToCollection(db, userId, { id: collectionId, bookIds });
+    if (!collectionResult.ok) {
+      return collectionResult;
+    }
+  }
+
+  return { ok: true, entries };
+}
+
+function emitFolderImportProgress(target: WebContents | null, event: FolderImportProgressEvent) {
+  if (!target || target.isDestroyed()) {
+    return;
+  }
+
+  target.send(IPC_CHANNELS.booksImportFolderProgress, event);
+}
+
+export async function importBookFolder(
+  db: Database.Database,
+  userId: string,
+  userDataPath: string,
+  ownerWindow: BrowserWindow | null,
+  progressTarget: WebContents | null
+): Promise<BooksImportFolderResult> {
+  if (folderImportRunning) {
+    return { ok: false, error: 'A folder import is already running.' };
+  }
+
+  const dialogOptions: OpenDialogOptions = {
+    title: 'Import folder',
+    properties: ['openDirectory']
+  };
+  const pickerResult = ownerWindow
+    ? await dialog.showOpenDialog(ownerWindow, dialogOptions)
+    : await dialog.showOpenDialog(dialogOptions);
+  if (pickerResult.canceled || pickerResult.filePaths.length === 0) {
+    return { ok: false, cancelled: true };
+  }
+
+  folderImportRunning = true;
+  const folderPath = pickerResult.filePaths[0];
+  const progress: FolderImportProgressEvent = {
+    folderPath,
+    state: 'scanning',
+    total: 0,
+    processed: 0,
+    imported: 0,
+    duplicates: 0,
+    failed: 0,
+    currentFile: null
+  };
+
+  try {
+    emitFolderImportProgress(progressTarget, progress);
+    const files = await listBookFiles(folderPath);
+    progress.total = files.length;
+    progress.state = 'importing';
+
+    const entries: LibraryImportActivity[] = [];
+    for (const filePath of files) {
+      emitFolderImportProgress(progressTarget, { ...progress, currentFile: filePath });
+      const entry = toImportActivity(filePath, await importBookFromPath(db, userId, userDataPath, filePath));
+      entries.push(entry);
+      progress.processed += 1;
+      if (entry.outcome === 'imported') {
+        progress.imported += 1;
+      } else if (entry.outcome === 'duplicate') {
+        progress.duplicates += 1;
+      } else {
+        progress.failed += 1;
+      }
+    }
+
+    recordImportActivity(entries);
+    emitFolderImportProgress(progressTarget, { ...progress, state: 'done' });
+    return { ok: true, imported: progress.imported, duplicates: progress.duplicates, failed: progress.failed };
+  } finally {
+    folderImportRunning = false;
+  }
+}
@@ -0,0 +1,139 @@
+export type XmlElement = {
+  attributes: string;
+  content: string;
+};
+
+export type XmlNode = XmlTreeElement | string;
+
+export type XmlTreeElement = {
+  name: string;
+  attributes: string;
+  children: XmlNode[];
+};
+
+// XHTML content documents use HTML entities that plain XML does not define.
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: '\u00a0',
+  shy: '\u00ad',
+  ndash: '\u2013',
+  mdash: '\u2014',
+  hellip: '\u2026',
+  laquo: '\u00ab',
+  raquo: '\u00bb',
+  lsquo: '\u2018',
+  rsquo: '\u2019',
+  ldquo: '\u201c',
+  rdquo: '\u201d',
+  bdquo: '\u201e',
+  copy: '\u00a9'
+};
+const XML_TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+
+function detectXmlEncoding(buffer: Buffer): string {
+  const asciiHead = buffer.subarray(0, Math.min(buffer.length, 512)).toString('latin1');
+  const match = asciiHead.match(/encoding\s*=\s*["']([^"']+)["']/i);
+  return match?.[1]?.trim() || 'utf-8';
+}
+
+export function decodeXmlBuffer(buffer: Buffer): string {
+  const candidates = [detectXmlEncoding(buffer), 'utf-8', 'windows-1251'];
+  for (const candidate of candidates) {
+    try {
+      return new TextDecoder(candidate, { fatal: false }).decode(buffer);
+    } catch {
+    }
+  }
+  return buffer.toString('utf8');
+}
+
+export function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_match, code: string) => String.fromCodePoint(Number.parseInt(code, 16)))
+    .replace(/&([a-z]+);/g, (match, name: string) => NAMED_ENTITIES[name] ?? match)
+    .replace(/&amp;/g, '&');
+}
+
+// Descriptions often carry entity-encoded HTML, so markup is stripped again after decoding.
+export function stripXml(value: string): string {
+  return decodeXmlEntities(value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').replace(/<[^>]+>/g, ' '))
+    .replace(/<\/?[a-z][^>]*>/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Matches both prefixed (dc:title, opf:meta) and bare element names.
+export function findElements(source: string, localName: string): XmlElement[] {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${localName}(?=[\\s/>])([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>)`,
+    'g'
+  );
+  return [...source.matchAll(pattern)].map((match) => ({ attributes: match[1] ?? '', content: match[2] ?? '' }));
+}
+
+export function getAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`(?:^|\\s)(?:[\\w-]+:)?${name}\\s*=\\s*(["'])([\\s\\S]*?)\\1`, 'i'));
+  return match ? decodeXmlEntities(match[2]).trim() : null;
+}
+
+function localName(qualifiedName: string): string {
+  return qualifiedName.slice(qualifiedName.indexOf(':') + 1).toLowerCase();
+}
+
+// A forgiving tree builder for FB2 and XHTML: unclosed elements are closed by their parent's end tag.
+export function parseXmlTree(source: string): XmlTreeElement {
+  const root: XmlTreeElement = { name: '#document', attributes: '', children: [] };
+  const stack = [root];
+  let cursor = 0;
+
+  const appendText = (text: string) => {
+    if (text) {
+      stack[stack.length - 1].children.push(decodeXmlEntities(text));
+    }
+  };
+
+  for (const match of source.matchAll(XML_TOKEN_PATTERN)) {
+    appendText(source.slice(cursor, match.index));
+    cursor = match.index + match[0].length;
+
+    if (match[1] !== undefined) {
+      stack[stack.length - 1].children.push(match[1]);
+      continue;
+    }
+
+    if (match[2]) {
+      const name = localName(match[2]);
+      const openIndex = stack.map((element) => element.name).lastIndexOf(name);
+      if (openIndex > 0) {
+        stack.length = openIndex;
+      }
+      continue;
+    }
+
+    if (match[3]) {
+      const element: XmlTreeElement = { name: localName(match[3]), attributes: match[4] ?? '', children: [] };
+      stack[stack.length - 1].children.push(element);
+      if (!match[5]) {
+        stack.push(element);
+      }
+    }
+  }
+  appendText(source.slice(cursor));
+
+  return root;
+}
+
+export function childElements(element: XmlTreeElement, name?: string): XmlTreeElement[] {
+  return element.children.filter(
+    (child): child is XmlTreeElement => typeof child !== 'string' && (!name || child.name === name)
+  );
+}
+
+export function treeText(node: XmlNode): string {
+  return typeof node === 'string' ? node : node.children.map(treeText).join('');
+}
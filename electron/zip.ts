@@ -0,0 +1,238 @@
+import fs from 'node:fs/promises';
+import { promisify } from 'node:util';
+import { crc32, deflateRaw, inflateRaw } from 'node:zlib';
+
+const inflateRawAsync = promisify(inflateRaw);
+const deflateRawAsync = promisify(deflateRaw);
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+const LOCAL_FILE_HEADER_SIZE = 30;
+const MAX_COMMENT_LENGTH = 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+const UTF8_NAME_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const ZIP_VERSION = 20;
+// Archives come from users, so an entry is never inflated past this even if its header claims less.
+const MAX_ENTRY_BYTES = 1024 * 1024 * 1024;
+const MAX_ENTRY_COUNT = 0xffff;
+
+export type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+};
+
+export type ZipWriteEntry = {
+  name: string;
+  read: () => Promise<Buffer>;
+  compress?: boolean;
+};
+
+export type ZipArchive = {
+  filePath: string;
+  entries: Map<string, ZipEntry>;
+  readEntry: (name: string, maxBytes?: number) => Promise<Buffer | null>;
+};
+
+async function readAt(handle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return bytesRead === length ? buffer : buffer.subarray(0, bytesRead);
+}
+
+function findEndOfCentralDirectory(tail: Buffer): number {
+  for (let offset = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= 0; offset -= 1) {
+    if (tail.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+function parseCentralDirectory(directory: Buffer, entryCount: number): Map<string, ZipEntry> {
+  const entries = new Map<string, ZipEntry>();
+  let offset = 0;
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (offset + CENTRAL_DIRECTORY_HEADER_SIZE > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('ZIP central directory is corrupted.');
+    }
+
+    const flags = directory.readUInt16LE(offset + 8);
+    const method = directory.readUInt16LE(offset + 10);
+    const compressedSize = directory.readUInt32LE(offset + 20);
+    const size = directory.readUInt32LE(offset + 24);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const localHeaderOffset = directory.readUInt32LE(offset + 42);
+    const nameStart = offset + CENTRAL_DIRECTORY_HEADER_SIZE;
+    const name = directory
+      .subarray(nameStart, nameStart + nameLength)
+      .toString((flags & UTF8_NAME_FLAG) !== 0 ? 'utf8' : 'latin1');
+
+    if (compressedSize === ZIP64_MARKER || size === ZIP64_MARKER || localHeaderOffset === ZIP64_MARKER) {
+      throw new Error('ZIP64 archives are not supported.');
+    }
+
+    if (!name.endsWith('/')) {
+      entries.set(name, { name, method, compressedSize, size, localHeaderOffset });
+    }
+    offset = nameStart + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+export async function openZipArchive(filePath: string): Promise<ZipArchive> {
+  const handle = await fs.open(filePath, 'r');
+  let entries: Map<string, ZipEntry>;
+
+  try {
+    const { size } = await handle.stat();
+    const tailLength = Math.min(size, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_LENGTH);
+    const tail = await readAt(handle, size - tailLength, tailLength);
+    const endOffset = findEndOfCentralDirectory(tail);
+    if (endOffset < 0) {
+      throw new Error('File is not a ZIP archive.');
+    }
+
+    const entryCount = tail.readUInt16LE(endOffset + 10);
+    const directorySize = tail.readUInt32LE(endOffset + 12);
+    const directoryOffset = tail.readUInt32LE(endOffset + 16);
+    entries = parseCentralDirectory(await readAt(handle, directoryOffset, directorySize), entryCount);
+  } finally {
+    await handle.close();
+  }
+
+  const readEntry = async (name: string, maxBytes = MAX_ENTRY_BYTES): Promise<Buffer | null> => {
+    const entry = entries.get(name);
+    if (!entry) {
+      return null;
+    }
+    const limit = Math.min(maxBytes, MAX_ENTRY_BYTES);
+    if (entry.size > limit || entry.compressedSize > limit) {
+      throw new Error(`ZIP entry "${name}" is too large.`);
+    }
+
+    const entryHandle = await fs.open(filePath, 'r');
+    try {
+      const header = await readAt(entryHandle, entry.localHeaderOffset, LOCAL_FILE_HEADER_SIZE);
+      if (header.length < LOCAL_FILE_HEADER_SIZE || header.readUInt32LE(0) !== LOCAL_FILE_HEADER_SIGNATURE) {
+        throw new Error(`ZIP entry "${name}" is corrupted.`);
+      }
+
+      // Local headers may carry a different extra field than the central directory, so re-read both lengths.
+      const dataOffset =
+        entry.localHeaderOffset + LOCAL_FILE_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+      const data = await readAt(entryHandle, dataOffset, entry.compressedSize);
+
+      let content: Buffer;
+      if (entry.method === METHOD_STORED) {
+        content = data;
+      } else if (entry.method === METHOD_DEFLATED) {
+        try {
+          // The declared size is already within the limit; inflating past it means the header lies.
+          content = await inflateRawAsync(data, { maxOutputLength: Math.max(1, entry.size) });
+        } catch (error) {
+          throw error instanceof RangeError ? new Error(`ZIP entry "${name}" is too large.`) : error;
+        }
+      } else {
+        throw new Error(`ZIP entry "${name}" uses an unsupported compression method.`);
+      }
+      if (content.length !== entry.size) {
+        throw new Error(`ZIP entry "${name}" is corrupted.`);
+      }
+      return content;
+    } finally {
+      await entryHandle.close();
+    }
+  };
+
+  return { filePath, entries, readEntry };
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+// Writes entries one at a time so only a single file is held in memory.
+export async function writeZipArchive(filePath: string, entries: ZipWriteEntry[]): Promise<void> {
+  if (entries.length > MAX_ENTRY_COUNT) {
+    throw new Error('ZIP64 archives are not supported.');
+  }
+
+  const stamp = toDosDateTime(new Date());
+  const directory: Buffer[] = [];
+  let offset = 0;
+  const handle = await fs.open(filePath, 'w');
+
+  try {
+    for (const entry of entries) {
+      const raw = await entry.read();
+      const method = entry.compress ? METHOD_DEFLATED : METHOD_STORED;
+      const data = entry.compress ? await deflateRawAsync(raw) : raw;
+      const name = Buffer.from(entry.name, 'utf8');
+      const checksum = crc32(raw);
+      if (offset + LOCAL_FILE_HEADER_SIZE + name.length + data.length >= ZIP64_MARKER) {
+        throw new Error('ZIP64 archives are not supported.');
+      }
+
+      const local = Buffer.alloc(LOCAL_FILE_HEADER_SIZE);
+      local.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+      local.writeUInt16LE(ZIP_VERSION, 4);
+      local.writeUInt16LE(UTF8_NAME_FLAG, 6);
+      local.writeUInt16LE(method, 8);
+      local.writeUInt16LE(stamp.time, 10);
+      local.writeUInt16LE(stamp.date, 12);
+      local.writeUInt32LE(checksum, 14);
+      local.writeUInt32LE(data.length, 18);
+      local.writeUInt32LE(raw.length, 22);
+      local.writeUInt16LE(name.length, 26);
+      await handle.write(local);
+      await handle.write(name);
+      await handle.write(data);
+
+      const header = Buffer.alloc(CENTRAL_DIRECTORY_HEADER_SIZE);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4);
+      header.writeUInt16LE(ZIP_VERSION, 6);
+      header.writeUInt16LE(UTF8_NAME_FLAG, 8);
+      header.writeUInt16LE(method, 10);
+      header.writeUInt16LE(stamp.time, 12);
+      header.writeUInt16LE(stamp.date, 14);
+      header.writeUInt32LE(checksum, 16);
+      header.writeUInt32LE(data.length, 20);
+      header.writeUInt32LE(raw.length, 24);
+      header.writeUInt16LE(name.length, 28);
+      header.writeUInt32LE(offset, 42);
+      directory.push(header, name);
+      offset += local.length + name.length + data.length;
+    }
+
+    const directoryBuffer = Buffer.concat(directory);
+    if (offset + directoryBuffer.length >= ZIP64_MARKER) {
+      throw new Error('ZIP64 archives are not supported.');
+    }
+    const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directoryBuffer.length, 12);
+    end.writeUInt32LE(offset, 16);
+    await handle.write(directoryBuffer);
+    await handle.write(end);
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,856 @@
+import type {
+  AiSummaryEntry,
+  Book,
+  ExportBookData,
+  ExportBookmark,
+  ExportFormat,
+  Highlight,
+  HighlightCategory,
+  HighlightColor,
+  Note
+} from './ipc';
+import { renderTemplate } from './export-template';
+
+export type ExportedFile = {
+  name: string;
+  content: string;
+};
+
+export type BookExporter = {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  // Folder exporters write one file per book into a directory instead of a single file.
+  target: 'file' | 'folder';
+  // PDF and .apkg are built in the main process; their preview shows the HTML or TSV they are made from.
+  copyable: boolean;
+  render: (books: ExportBookData[], options?: ExportRenderOptions) => ExportedFile[];
+};
+
+export type ExportRenderOptions = {
+  // Body of the user template for the 'template' format.
+  template?: string | null;
+};
+
+export type AnkiCard = {
+  front: string;
+  back: string;
+  deck: string;
+  tags: string[];
+};
+
+function normalizeText(value: string | null | undefined): string {
+  if (typeof value !== 'string') {
+    return '';
+  }
+  return value.replace(/\r\n/g, '\n').trim();
+}
+
+function groupByLocation<T extends { page: number | null; cfiRange?: string | null }>(items: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = item.page === null ? `cfi:${item.cfiRange ?? 'unknown'}` : `page:${item.page}`;
+    const existing = groups.get(key);
+    if (existing) {
+      existing.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return groups;
+}
+
+function groupByPage<T extends { page: number }>(items: T[]): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const item of items) {
+    const existing = groups.get(item.page);
+    if (existing) {
+      existing.push(item);
+    } else {
+      groups.set(item.page, [item]);
+    }
+  }
+  return groups;
+}
+
+function formatLocationHeading(key: string): string {
+  if (key.startsWith('page:')) {
+    return `Page ${key.slice(5)}`;
+  }
+  const cfi = key.slice(4);
+  if (cfi === 'unknown') {
+    return 'Flow Location';
+  }
+  if (cfi.startsWith('fb2-')) {
+    return 'FB2 Location';
+  }
+  if (cfi.startsWith('txt-')) {
+    return 'TXT Location';
+  }
+  return `Flow Location (${cfi})`;
+}
+
+function getCategoryLabel(categories: HighlightCategory[], color: HighlightColor): string | null {
+  return categories.find((category) => category.color === color)?.label ?? null;
+}
+
+function formatColorLine(categories: HighlightCategory[], color: HighlightColor): string {
+  const category = getCategoryLabel(categories, color);
+  return category ? `Color: ${color} (${category})` : `Color: ${color}`;
+}
+
+export function toMarkdown(
+  bookTitle: string,
+  notes: Note[],
+  highlights: Highlight[],
+  highlightCategories: HighlightCategory[] = []
+): string {
+  const lines: string[] = [];
+  lines.push(`# ${bookTitle}`);
+  lines.push(`Exported: ${new Date().toISOString()}`);
+  lines.push(`Total highlights: ${highlights.length}`);
+  lines.push(`Total notes: ${notes.length}`);
+  lines.push('');
+  lines.push('## Highlights');
+
+  const highlightsByLocation = groupByLocation(highlights);
+  const highlightLocations = [...highlightsByLocation.keys()].sort((a, b) => a.localeCompare(b));
+  if (highlightLocations.length === 0) {
+    lines.push('- No highlights');
+  } else {
+    for (const location of highlightLocations) {
+      lines.push(`### ${formatLocationHeading(location)}`);
+      const pageHighlights = highlightsByLocation.get(location) ?? [];
+      for (const highlight of pageHighlights) {
+        const text = normalizeText(highlight.text);
+        const note = normalizeText(highlight.note);
+        lines.push(`> ${text || '(highlight without text)'}`);
+        lines.push(formatColorLine(highlightCategories, highlight.color));
+        if (note) {
+          lines.push(`Note: ${note}`);
+        }
+        lines.push('');
+      }
+    }
+  }
+
+  lines.push('## Notes');
+  const notesByPage = groupByPage(notes);
+  const notePages = [...notesByPage.keys()].sort((a, b) => a - b);
+  if (notePages.length === 0) {
+    lines.push('- No notes');
+  } else {
+    for (const page of notePages) {
+      lines.push(`### Page ${page}`);
+      const pageNotes = notesByPage.get(page) ?? [];
+      for (const note of pageNotes) {
+        lines.push(`- ${normalizeText(note.content)}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+function toJSONObject(
+  book: Book,
+  notes: Note[],
+  highlights: Highlight[],
+  highlightCategories: HighlightCategory[]
+) {
+  return {
+    book,
+    exportedAt: new Date().toISOString(),
+    highlightCategories,
+    highlights: highlights.map((highlight) => ({
+      page: highlight.page,
+      cfiRange: highlight.cfiRange,
+      text: highlight.text,
+      note: highlight.note,
+      color: highlight.color,
+      category: getCategoryLabel(highlightCategories, highlight.color),
+      rects: highlight.rects,
+      createdAt: highlight.createdAt
+    })),
+    notes: notes.map((note) => ({
+      page: note.page,
+      content: note.content,
+      createdAt: note.createdAt
+    }))
+  };
+}
+
+export function toJSON(
+  book: Book,
+  notes: Note[],
+  highlights: Highlight[],
+  highlightCategories: HighlightCategory[] = []
+): string {
+  return JSON.stringify(toJSONObject(book, notes, highlights, highlightCategories), null, 2);
+}
+
+function getHighlightLocation(highlight: Highlight): string {
+  return formatLocationHeading(highlight.page === null ? `cfi:${highlight.cfiRange ?? 'unknown'}` : `page:${highlight.page}`);
+}
+
+function sortHighlights(highlights: Highlight[]): Highlight[] {
+  return [...highlights].sort((a, b) => {
+    if (a.page !== null && b.page !== null && a.page !== b.page) {
+      return a.page - b.page;
+    }
+    return a.createdAt - b.createdAt;
+  });
+}
+
+function sortNotes(notes: Note[]): Note[] {
+  return [...notes].sort((a, b) => a.page - b.page || a.createdAt - b.createdAt);
+}
+
+function sortBookmarks(bookmarks: ExportBookmark[]): ExportBookmark[] {
+  return [...bookmarks].sort((a, b) => (a.page ?? 0) - (b.page ?? 0) || a.createdAt - b.createdAt);
+}
+
+function getBookmarkLocation(bookmark: ExportBookmark): string {
+  return bookmark.page !== null ? `Page ${bookmark.page}` : formatLocationHeading(`cfi:${bookmark.cfi ?? 'unknown'}`);
+}
+
+function formatDate(value: number): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+function toFileName(value: string, fallback: string): string {
+  const safe = value
+    .replace(/[<>:"/\\|?*#^[\]\u0000-\u001F]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 120)
+    .trim();
+  return safe || fallback;
+}
+
+function getExportName(books: ExportBookData[]): string {
+  return books.length === 1 ? toFileName(books[0].book.title, 'book-export') : 'library-export';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Obsidian block IDs allow only letters, digits and dashes.
+function toBlockId(prefix: string, id: string): string {
+  return `${prefix}-${id.replace(/[^a-zA-Z0-9]/g, '').slice(0, 12).toLowerCase()}`;
+}
+
+function toYamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function toTag(value: string): string {
+  return value.trim().replace(/\s+/g, '_').replace(/[^\p{L}\p{N}_-]/gu, '') || 'book';
+}
+
+function pushBookmarksMarkdown(lines: string[], bookmarks: ExportBookmark[]) {
+  if (bookmarks.length === 0) {
+    return;
+  }
+
+  lines.push('## Bookmarks');
+  for (const bookmark of sortBookmarks(bookmarks)) {
+    const label = normalizeText(bookmark.label);
+    lines.push(`- ${getBookmarkLocation(bookmark)}${label ? `: ${label}` : ''}`);
+  }
+  lines.push('');
+}
+
+function pushAiSummaryMarkdown(lines: string[], summary: AiSummaryEntry | null) {
+  if (!summary) {
+    return;
+  }
+
+  lines.push('## AI summary');
+  lines.push(normalizeText(summary.summary));
+  lines.push('');
+  if (summary.keyIdeas.length > 0) {
+    lines.push('### Key ideas');
+    lines.push(...summary.keyIdeas.map((idea) => `- ${normalizeText(idea)}`));
+    lines.push('');
+  }
+  if (summary.studyNotes.length > 0) {
+    lines.push('### Study notes');
+    lines.push(...summary.studyNotes.map((note) => `- ${normalizeText(note)}`));
+    lines.push('');
+  }
+  if (summary.flashcards.length > 0) {
+    lines.push('### Flashcards');
+    lines.push(...summary.flashcards.map((card) => `- **${normalizeText(card.question)}** ${normalizeText(card.answer)}`));
+    lines.push('');
+  }
+}
+
+const OBSIDIAN_INDEX_NAME = 'Library highlights';
+
+function toObsidianNote(data: ExportBookData, exportedAt: string): string {
+  const { book, aiSummary } = data;
+  const author = book.author?.trim() || null;
+  const lines: string[] = ['---'];
+  lines.push(`title: ${toYamlString(book.title)}`);
+  if (author) {
+    lines.push(`author: ${toYamlString(`[[${toFileName(author, 'Unknown author')}]]`)}`);
+  }
+  lines.push(`format: ${book.format}`);
+  lines.push(`highlights: ${data.highlights.length}`);
+  lines.push(`notes: ${data.notes.length}`);
+  lines.push(`exported: ${exportedAt}`);
+  lines.push('tags:');
+  lines.push('  - book');
+  lines.push('---');
+  lines.push('');
+  lines.push(`# ${book.title}`);
+  if (author) {
+    lines.push(`Author: [[${toFileName(author, 'Unknown author')}]]`);
+  }
+  lines.push(`Index: [[${OBSIDIAN_INDEX_NAME}]]`);
+  lines.push('');
+
+  lines.push('## Highlights');
+  if (data.highlights.length === 0) {
+    lines.push('- No highlights');
+    lines.push('');
+  }
+  for (const highlight of sortHighlights(data.highlights)) {
+    const text = normalizeText(highlight.text) || '(highlight without text)';
+    const note = normalizeText(highlight.note);
+    const category = getCategoryLabel(data.highlightCategories, highlight.color);
+    lines.push(...text.split('\n').map((line) => `> ${line}`));
+    lines.push('');
+    lines.push(`^${toBlockId('hl', highlight.id)}`);
+    lines.push('');
+    lines.push(`- Location: ${getHighlightLocation(highlight)}`);
+    lines.push(`- Color: ${highlight.color}${category ? ` #${toTag(category)}` : ''}`);
+    if (note) {
+      lines.push(`- Note: ${note.replace(/\n/g, ' ')}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Notes');
+  if (data.notes.length === 0) {
+    lines.push('- No notes');
+    lines.push('');
+  }
+  for (const note of sortNotes(data.notes)) {
+    lines.push(`- Page ${note.page}: ${normalizeText(note.content).replace(/\n/g, ' ')} ^${toBlockId('note', note.id)}`);
+  }
+  if (data.notes.length > 0) {
+    lines.push('');
+  }
+
+  pushBookmarksMarkdown(lines, data.bookmarks);
+  pushAiSummaryMarkdown(lines, aiSummary);
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+// One note per book plus an index note linking to all of them, so every book note gets a backlink.
+function toObsidianVault(books: ExportBookData[]): ExportedFile[] {
+  const exportedAt = new Date().toISOString();
+  const usedNames = new Set<string>([OBSIDIAN_INDEX_NAME.toLowerCase()]);
+  const files: ExportedFile[] = [];
+  const indexLines = [`# ${OBSIDIAN_INDEX_NAME}`, `Exported: ${exportedAt}`, ''];
+
+  for (const data of books) {
+    const baseName = toFileName(data.book.title, 'Untitled book');
+    let noteName = baseName;
+    for (let suffix = 2; usedNames.has(noteName.toLowerCase()); suffix += 1) {
+      noteName = `${baseName} (${suffix})`;
+    }
+    usedNames.add(noteName.toLowerCase());
+    files.push({ name: `${noteName}.md`, content: toObsidianNote(data, exportedAt) });
+
+    const author = data.book.author?.trim();
+    indexLines.push(
+      `- [[${noteName}]]${author ? ` — ${author}` : ''} · ${data.highlights.length} highlights, ${data.notes.length} notes`
+    );
+  }
+
+  return [{ name: `${OBSIDIAN_INDEX_NAME}.md`, content: `${indexLines.join('\n')}\n` }, ...files];
+}
+
+const HTML_HIGHLIGHT_COLORS: Record<HighlightColor, string> = {
+  yellow: '#fde68a',
+  green: '#bbf7d0',
+  blue: '#bfdbfe',
+  pink: '#fbcfe8',
+  purple: '#ddd6fe'
+};
+
+const HTML_REPORT_STYLE = `
+  body { margin: 0 auto; max-width: 46rem; padding: 2.5rem 1.5rem; font: 15px/1.6 Georgia, 'Times New Roman', serif; color: #1f2937; background: #fff; }
+  header { margin-bottom: 2rem; border-bottom: 1px solid #e5e7eb; }
+  h1, h2, h3 { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; line-height: 1.25; }
+  h2 { margin-top: 2.5rem; }
+  .meta { color: #6b7280; font-size: 0.875rem; }
+  .highlight { margin: 0 0 1rem; padding: 0.75rem 1rem; border-left: 4px solid; border-radius: 0.375rem; break-inside: avoid; }
+  .highlight blockquote { margin: 0; white-space: pre-wrap; }
+  .highlight p { margin: 0.5rem 0 0; font-size: 0.875rem; }
+  .notes li, .summary li { margin-bottom: 0.375rem; }
+  .book + .book { break-before: page; }
+`;
+
+function toHtmlList(items: string[]): string {
+  return `<ul>${items.map((item) => `<li>${escapeHtml(normalizeText(item))}</li>`).join('')}</ul>`;
+}
+
+function toHtmlBook(data: ExportBookData): string {
+  const { book, aiSummary } = data;
+  const parts: string[] = ['<article class="book">'];
+  parts.push(`<h2>${escapeHtml(book.title)}</h2>`);
+  const meta = [book.author?.trim(), `${data.highlights.length} highlights`, `${data.notes.length} notes`].filter(Boolean);
+  parts.push(`<p class="meta">${escapeHtml(meta.join(' · '))}</p>`);
+
+  if (data.highlights.length > 0) {
+    parts.push('<section><h3>Highlights</h3>');
+    for (const highlight of sortHighlights(data.highlights)) {
+      const note = normalizeText(highlight.note);
+      const category = getCategoryLabel(data.highlightCategories, highlight.color);
+      const color = HTML_HIGHLIGHT_COLORS[highlight.color];
+      parts.push(
+        `<figure class="highlight" style="border-color: ${color}; background: ${color}33">`,
+        `<blockquote>${escapeHtml(normalizeText(highlight.text) || '(highlight without text)')}</blockquote>`,
+        note ? `<p>${escapeHtml(note)}</p>` : '',
+        `<p class="meta">${escapeHtml([getHighlightLocation(highlight), category].filter(Boolean).join(' · '))}</p>`,
+        '</figure>'
+      );
+    }
+    parts.push('</section>');
+  }
+
+  if (data.notes.length > 0) {
+    parts.push('<section class="notes"><h3>Notes</h3><ul>');
+    for (const note of sortNotes(data.notes)) {
+      parts.push(`<li><span class="meta">Page ${note.page}</span> ${escapeHtml(normalizeText(note.content))}</li>`);
+    }
+    parts.push('</ul></section>');
+  }
+
+  if (data.bookmarks.length > 0) {
+    parts.push('<section class="notes"><h3>Bookmarks</h3><ul>');
+    for (const bookmark of sortBookmarks(data.bookmarks)) {
+      const label = normalizeText(bookmark.label);
+      parts.push(`<li><span class="meta">${escapeHtml(getBookmarkLocation(bookmark))}</span> ${escapeHtml(label)}</li>`);
+    }
+    parts.push('</ul></section>');
+  }
+
+  if (aiSummary) {
+    parts.push('<section class="summary"><h3>AI summary</h3>');
+    parts.push(`<p>${escapeHtml(normalizeText(aiSummary.summary))}</p>`);
+    if (aiSummary.keyIdeas.length > 0) {
+      parts.push('<h4>Key ideas</h4>', toHtmlList(aiSummary.keyIdeas));
+    }
+    if (aiSummary.studyNotes.length > 0) {
+      parts.push('<h4>Study notes</h4>', toHtmlList(aiSummary.studyNotes));
+    }
+    parts.push('</section>');
+  }
+
+  parts.push('</article>');
+  return parts.filter(Boolean).join('\n');
+}
+
+export function toHtmlReport(books: ExportBookData[]): string {
+  const title = books.length === 1 ? books[0].book.title : 'Reading notes';
+  return [
+    '<!doctype html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_REPORT_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<header><h1>${escapeHtml(title)}</h1><p class="meta">Exported ${escapeHtml(formatDate(Date.now()))}</p></header>`,
+    ...books.map(toHtmlBook),
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+// Spreadsheet apps run a cell that starts with a formula character, so such text gets a leading quote.
+function toCsvField(value: string | number | null | undefined): string {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The BOM makes spreadsheet apps read the file as UTF-8.
+function toCsv(books: ExportBookData[]): string {
+  const rows: Array<Array<string | number | null>> = [
+    ['Book', 'Author', 'Type', 'Location', 'Text', 'Note', 'Color', 'Category', 'Created']
+  ];
+  for (const { book, highlights, notes, bookmarks, highlightCategories } of books) {
+    for (const highlight of sortHighlights(highlights)) {
+      rows.push([
+        book.title,
+        book.author ?? null,
+        'highlight',
+        getHighlightLocation(highlight),
+        normalizeText(highlight.text),
+        normalizeText(highlight.note),
+        highlight.color,
+        getCategoryLabel(highlightCategories, highlight.color),
+        formatDate(highlight.createdAt)
+      ]);
+    }
+    for (const note of sortNotes(notes)) {
+      rows.push([
+        book.title,
+        book.author ?? null,
+        'note',
+        `Page ${note.page}`,
+        normalizeText(note.content),
+        null,
+        null,
+        null,
+        formatDate(note.createdAt)
+      ]);
+    }
+    for (const bookmark of sortBookmarks(bookmarks)) {
+      rows.push([
+        book.title,
+        book.author ?? null,
+        'bookmark',
+        getBookmarkLocation(bookmark),
+        normalizeText(bookmark.label),
+        null,
+        null,
+        null,
+        formatDate(bookmark.createdAt)
+      ]);
+    }
+  }
+  return `\uFEFF${rows.map((row) => row.map(toCsvField).join(',')).join('\r\n')}\r\n`;
+}
+
+function toAnkiHtml(value: string): string {
+  return escapeHtml(value).replace(/\n/g, '<br>');
+}
+
+// Highlights become cards asking to recall the note or source; AI summary flashcards are kept as they are.
+export function toAnkiCards(books: ExportBookData[]): AnkiCard[] {
+  const cards: AnkiCard[] = [];
+  for (const { book, highlights, aiSummary } of books) {
+    const deck = `Reading notes::${book.title.replace(/::/g, ':')}`;
+    const bookTag = toTag(book.title);
+    for (const highlight of sortHighlights(highlights)) {
+      const text = normalizeText(highlight.text);
+      if (!text) {
+        continue;
+      }
+      const note = normalizeText(highlight.note);
+      const source = `<small>${escapeHtml(book.title)} — ${escapeHtml(getHighlightLocation(highlight))}</small>`;
+      cards.push({
+        front: toAnkiHtml(text),
+        back: note ? `${toAnkiHtml(note)}<br><br>${source}` : source,
+        deck,
+        tags: [bookTag, 'highlight']
+      });
+    }
+    for (const card of aiSummary?.flashcards ?? []) {
+      cards.push({
+        front: toAnkiHtml(normalizeText(card.question)),
+        back: toAnkiHtml(normalizeText(card.answer)),
+        deck,
+        tags: [bookTag, 'flashcard']
+      });
+    }
+  }
+  return cards;
+}
+
+function toAnkiTsvField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
+
+// The header lines let Anki 2.1.54+ pick the separator, deck and tag columns without asking.
+function toAnkiTsv(books: ExportBookData[]): string {
+  const lines = ['#separator:tab', '#html:true', '#deck column:3', '#tags column:4'];
+  for (const card of toAnkiCards(books)) {
+    lines.push([card.front, card.back, card.deck, card.tags.join(' ')].map(toAnkiTsvField).join('\t'));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function toCombinedMarkdown(books: ExportBookData[]): string {
+  return books
+    .map((data) => {
+      const markdown = toMarkdown(data.book.title, data.notes, data.highlights, data.highlightCategories);
+      const lines = [''];
+      pushBookmarksMarkdown(lines, data.bookmarks);
+      pushAiSummaryMarkdown(lines, data.aiSummary);
+      return lines.length > 1 ? `${markdown}${lines.join('\n').trimEnd()}\n` : markdown;
+    })
+    .join('\n---\n\n');
+}
+
+function toCombinedJSON(books: ExportBookData[]): string {
+  if (books.length === 1) {
+    const [{ book, notes, highlights, bookmarks, highlightCategories, aiSummary }] = books;
+    return JSON.stringify({ ...toJSONObject(book, notes, highlights, highlightCategories), bookmarks, aiSummary }, null, 2);
+  }
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      books: books.map(({ book, notes, highlights, bookmarks, highlightCategories, aiSummary }) => ({
+        ...toJSONObject(book, notes, highlights, highlightCategories),
+        bookmarks,
+        aiSummary
+      }))
+    },
+    null,
+    2
+  );
+}
+
+export const DEFAULT_EXPORT_TEMPLATE = `# {{book.title}}
+{{#book.author}}
+Author: {{book.author}}
+{{/book.author}}
+Exported: {{exportedAt}}
+
+## Highlights
+{{#highlights}}
+> {{text}}
+{{location}} · {{color}}{{#category}} ({{category}}){{/category}}
+{{#note}}
+Note: {{note}}
+{{/note}}
+
+{{/highlights}}
+{{^highlights}}
+- No highlights
+
+{{/highlights}}
+## Notes
+{{#notes}}
+- {{location}}: {{content}}
+{{/notes}}
+{{^notes}}
+- No notes
+{{/notes}}
+{{#bookmarks.length}}
+
+## Bookmarks
+{{/bookmarks.length}}
+{{#bookmarks}}
+- {{location}}{{#label}}: {{label}}{{/label}}
+{{/bookmarks}}
+{{#summary}}
+
+## AI summary
+{{summary}}
+{{#keyIdeas}}
+- {{.}}
+{{/keyIdeas}}
+{{/summary}}
+`;
+
+// Shown next to the template editor.
+export const EXPORT_TEMPLATE_PLACEHOLDERS = [
+  '{{book.title}}',
+  '{{book.author}}',
+  '{{book.subtitle}}',
+  '{{book.series}}',
+  '{{book.publisher}}',
+  '{{book.publishYear}}',
+  '{{book.format}}',
+  '{{exportedAt}}',
+  '{{highlightCount}}',
+  '{{noteCount}}',
+  '{{#highlights}} text, note, location, page, color, category, createdAt {{/highlights}}',
+  '{{#notes}} content, location, page, createdAt {{/notes}}',
+  '{{#bookmarks}} label, location, page, createdAt {{/bookmarks}}',
+  '{{#summary}} summary, keyIdeas, studyNotes, flashcards (question, answer) {{/summary}}'
+] as const;
+
+function toSummaryTemplateContext(summary: AiSummaryEntry | null) {
+  if (!summary) {
+    return null;
+  }
+  return {
+    summary: normalizeText(summary.summary),
+    keyIdeas: summary.keyIdeas.map(normalizeText),
+    studyNotes: summary.studyNotes.map(normalizeText),
+    flashcards: summary.flashcards.map((card) => ({
+      question: normalizeText(card.question),
+      answer: normalizeText(card.answer)
+    })),
+    language: summary.language,
+    createdAt: formatDate(summary.createdAt)
+  };
+}
+
+export function toTemplateContext(data: ExportBookData): Record<string, unknown> {
+  const { book, highlightCategories } = data;
+  return {
+    book: {
+      title: book.title,
+      subtitle: book.subtitle ?? null,
+      author: book.author?.trim() || null,
+      series: book.series ?? null,
+      publisher: book.publisher ?? null,
+      publishYear: book.publishYear ?? null,
+      language: book.language ?? null,
+      isbn: book.isbn ?? null,
+      format: book.format,
+      addedAt: formatDate(book.createdAt)
+    },
+    exportedAt: formatDate(Date.now()),
+    highlightCount: data.highlights.length,
+    noteCount: data.notes.length,
+    bookmarkCount: data.bookmarks.length,
+    highlights: sortHighlights(data.highlights).map((highlight) => ({
+      text: normalizeText(highlight.text) || '(highlight without text)',
+      note: normalizeText(highlight.note) || null,
+      location: getHighlightLocation(highlight),
+      page: highlight.page,
+      color: highlight.color,
+      category: getCategoryLabel(highlightCategories, highlight.color),
+      createdAt: formatDate(highlight.createdAt)
+    })),
+    notes: sortNotes(data.notes).map((note) => ({
+      content: normalizeText(note.content),
+      location: `Page ${note.page}`,
+      page: note.page,
+      createdAt: formatDate(note.createdAt)
+    })),
+    bookmarks: sortBookmarks(data.bookmarks).map((bookmark) => ({
+      label: normalizeText(bookmark.label) || null,
+      location: getBookmarkLocation(bookmark),
+      page: bookmark.page,
+      createdAt: formatDate(bookmark.createdAt)
+    })),
+    summary: toSummaryTemplateContext(data.aiSummary)
+  };
+}
+
+// Saved AI summaries have no annotations, only the book they were made for.
+export function toAiSummaryTemplateContext(summary: AiSummaryEntry): Record<string, unknown> {
+  return {
+    book: { title: summary.bookTitle, author: summary.author?.trim() || null },
+    exportedAt: formatDate(Date.now()),
+    highlightCount: 0,
+    noteCount: 0,
+    bookmarkCount: 0,
+    highlights: [],
+    notes: [],
+    bookmarks: [],
+    summary: toSummaryTemplateContext(summary)
+  };
+}
+
+function toTemplateExport(books: ExportBookData[], template: string | null | undefined): string {
+  const body = template?.trim() ? template : DEFAULT_EXPORT_TEMPLATE;
+  return books
+    .map((data) => `${renderTemplate(body, toTemplateContext(data)).trimEnd()}\n`)
+    .join('\n---\n\n');
+}
+
+function singleFile(extension: string, render: (books: ExportBookData[]) => string) {
+  return (books: ExportBookData[]): ExportedFile[] => [
+    { name: `${getExportName(books)}.${extension}`, content: render(books) }
+  ];
+}
+
+export const BOOK_EXPORTERS: Record<ExportFormat, BookExporter> = {
+  markdown: {
+    format: 'markdown',
+    label: 'Markdown',
+    extension: 'md',
+    target: 'file',
+    copyable: true,
+    render: singleFile('md', toCombinedMarkdown)
+  },
+  json: {
+    format: 'json',
+    label: 'JSON',
+    extension: 'json',
+    target: 'file',
+    copyable: true,
+    render: singleFile('json', toCombinedJSON)
+  },
+  obsidian: {
+    format: 'obsidian',
+    label: 'Obsidian vault',
+    extension: 'md',
+    target: 'folder',
+    copyable: false,
+    render: toObsidianVault
+  },
+  html: {
+    format: 'html',
+    label: 'HTML report',
+    extension: 'html',
+    target: 'file',
+    copyable: true,
+    render: singleFile('html', toHtmlReport)
+  },
+  pdf: {
+    format: 'pdf',
+    label: 'PDF report',
+    extension: 'pdf',
+    target: 'file',
+    copyable: false,
+    render: singleFile('html', toHtmlReport)
+  },
+  csv: {
+    format: 'csv',
+    label: 'CSV',
+    extension: 'csv',
+    target: 'file',
+    copyable: true,
+    render: singleFile('csv', toCsv)
+  },
+  'anki-tsv': {
+    format: 'anki-tsv',
+    label: 'Anki (TSV)',
+    extension: 'txt',
+    target: 'file',
+    copyable: true,
+    render: singleFile('txt', toAnkiTsv)
+  },
+  'anki-apkg': {
+    format: 'anki-apkg',
+    label: 'Anki deck (.apkg)',
+    extension: 'apkg',
+    target: 'file',
+    copyable: false,
+    render: singleFile('txt', toAnkiTsv)
+  },
+  template: {
+    format: 'template',
+    label: 'Custom template',
+    extension: 'md',
+    target: 'file',
+    copyable: true,
+    render: (books, options) => [
+      { name: `${getExportName(books)}.md`, content: toTemplateExport(books, options?.template) }
+    ]
+  }
+};
+
+export function renderExportPreview(
+  format: ExportFormat,
+  books: ExportBookData[],
+  options?: ExportRenderOptions
+): string {
+  return BOOK_EXPORTERS[format]
+    .render(books, options)
+    .map((file, _index, files) => (files.length > 1 ? `=== ${file.name} ===\n${file.content}` : file.content))
+    .join('\n');
+}
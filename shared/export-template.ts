@@ -0,0 +1,109 @@
+// A small Mustache-style renderer for export templates:
+// {{name}} and {{a.b}} print values, {{#list}}…{{/list}} repeats or shows a block when the value is set,
+// {{^list}}…{{/list}} shows a block when it is empty, and {{.}} prints the current list item.
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([\w.]+)\s*\}\}/g;
+
+// Section tags alone on a line should not leave blank lines behind.
+const STANDALONE_SECTION_TAG = /^[ \t]*(\{\{\s*[#^/]\s*[\w.]+\s*\}\})[ \t]*\r?\n/gm;
+
+function parseTemplate(template: string): TemplateNode[] {
+  const source = template.replace(STANDALONE_SECTION_TAG, '$1');
+  const root: TemplateNode[] = [];
+  const stack: Array<{ name: string; children: TemplateNode[] }> = [{ name: '', children: root }];
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, kind, name] = match;
+    const index = match.index ?? 0;
+    const current = stack[stack.length - 1];
+    if (index > lastIndex) {
+      current.children.push({ type: 'text', value: source.slice(lastIndex, index) });
+    }
+    lastIndex = index + tag.length;
+
+    if (kind === '#' || kind === '^') {
+      const section: TemplateNode = { type: 'section', name, inverted: kind === '^', children: [] };
+      current.children.push(section);
+      stack.push({ name, children: section.children });
+    } else if (kind === '/') {
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Unexpected closing tag "{{/${name}}}".`);
+      }
+      stack.pop();
+    } else {
+      current.children.push({ type: 'variable', name });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Section "{{#${stack[stack.length - 1].name}}}" is not closed.`);
+  }
+  if (lastIndex < source.length) {
+    root.push({ type: 'text', value: source.slice(lastIndex) });
+  }
+  return root;
+}
+
+function lookup(scopes: unknown[], name: string): unknown {
+  if (name === '.') {
+    return scopes[scopes.length - 1];
+  }
+
+  const [head, ...rest] = name.split('.');
+  for (let index = scopes.length - 1; index >= 0; index -= 1) {
+    const scope = scopes[index];
+    if (scope && typeof scope === 'object' && head in scope) {
+      let value: unknown = (scope as Record<string, unknown>)[head];
+      for (const part of rest) {
+        value = value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined;
+      }
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function isEmpty(value: unknown): boolean {
+  return !value || (Array.isArray(value) && value.length === 0);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'variable') {
+      const value = lookup(scopes, node.name);
+      output += value === null || value === undefined ? '' : String(value);
+    } else {
+      const value = lookup(scopes, node.name);
+      if (node.inverted) {
+        output += isEmpty(value) ? renderNodes(node.children, scopes) : '';
+      } else if (Array.isArray(value)) {
+        output += value.map((item) => renderNodes(node.children, [...scopes, item])).join('');
+      } else if (!isEmpty(value)) {
+        output += renderNodes(node.children, [...scopes, value]);
+      }
+    }
+  }
+  return output;
+}
+
+export function renderTemplate(template: string, context: Record<string, unknown>): string {
+  return renderNodes(parseTemplate(template), [context]);
+}
+
+export function getTemplateError(template: string): string | null {
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
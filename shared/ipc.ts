@@ -12,12 +12,32 @@ export const IPC_CHANNELS = {
   booksList: 'books:list',
   booksAddSample: 'books:add-sample',
   booksImport: 'books:import',
+  booksImportFolder: 'books:import-folder',
+  booksImportPaths: 'books:import-paths',
+  booksTakeOpenRequest: 'books:take-open-request',
+  booksOpenRequested: 'books:open-requested',
+  booksImportFolderProgress: 'books:import-folder-progress',
+  booksListDuplicates: 'books:list-duplicates',
+  booksMergeDuplicates: 'books:merge-duplicates',
   booksReveal: 'books:reveal',
   booksDelete: 'books:delete',
   booksGetPdfData: 'books:get-pdf-data',
   booksGetEpubData: 'books:get-epub-data',
   booksGetFb2Data: 'books:get-fb2-data',
   booksGetTxtData: 'books:get-txt-data',
+  booksGetDocumentData: 'books:get-document-data',
+  booksGetComicPages: 'books:get-comic-pages',
+  booksSetStatus: 'books:set-status',
+  booksUpdateTags: 'books:update-tags',
+  booksUpdateMetadata: 'books:update-metadata',
+  booksSearchMetadataMatches: 'books:search-metadata-matches',
+  booksApplyMetadataMatch: 'books:apply-metadata-match',
+  collectionsList: 'collections:list',
+  collectionsCreate: 'collections:create',
+  collectionsRename: 'collections:rename',
+  collectionsDelete: 'collections:delete',
+  collectionsAddBooks: 'collections:add-books',
+  collectionsRemoveBooks: 'collections:remove-books',
   notesCreate: 'notes:create',
   notesList: 'notes:list',
   notesDelete: 'notes:delete',
@@ -27,6 +47,9 @@ export const IPC_CHANNELS = {
   highlightsDelete: 'highlights:delete',
   highlightsInsertRaw: 'highlights:insert-raw',
   highlightsUpdateNote: 'highlights:update-note',
+  highlightsUpdateColor: 'highlights:update-color',
+  highlightCategoriesList: 'highlight-categories:list',
+  highlightCategoriesSet: 'highlight-categories:set',
   epubHighlightsList: 'epub-highlights:list',
   epubHighlightsCreate: 'epub-highlights:create',
   bookmarksList: 'bookmarks:list',
@@ -36,22 +59,69 @@ export const IPC_CHANNELS = {
   epubBookmarksToggle: 'epub-bookmarks:toggle',
   exportGetBookData: 'export:get-book-data',
   exportSaveFile: 'export:save-file',
+  exportSaveBooks: 'export:save-books',
+  exportLibrary: 'export:library',
+  exportProgress: 'export:progress',
+  exportTemplatesList: 'export-templates:list',
+  exportTemplatesSave: 'export-templates:save',
+  exportTemplatesDelete: 'export-templates:delete',
   epubProgressGet: 'epub-progress:get',
   epubProgressSet: 'epub-progress:set',
   flowProgressGet: 'flow-progress:get',
   flowProgressSet: 'flow-progress:set',
   readerSettingsGet: 'reader-settings:get',
   readerSettingsUpdate: 'reader-settings:update',
+  readerSettingsGetBook: 'reader-settings:get-book',
+  readerSettingsSetBook: 'reader-settings:set-book',
   progressGetLastPage: 'progress:get-last-page',
   progressSetLastPage: 'progress:set-last-page',
   statsMarkOpened: 'stats:mark-opened',
   statsGetRecentBooks: 'stats:get-recent-books',
+  statsHeartbeat: 'stats:heartbeat',
+  statsListSessions: 'stats:list-sessions',
+  statsGetOverview: 'stats:get-overview',
+  goalsList: 'goals:list',
+  goalsSave: 'goals:save',
+  goalsDelete: 'goals:delete',
+  goalsSetReminder: 'goals:set-reminder',
   aiSummariesSave: 'ai-summaries:save',
   aiSummariesList: 'ai-summaries:list',
   aiSummariesGet: 'ai-summaries:get',
-  aiSummariesDelete: 'ai-summaries:delete'
+  aiSummariesDelete: 'ai-summaries:delete',
+  searchLibrary: 'search:library',
+  searchAnnotations: 'search:annotations',
+  annotationsImportPreview: 'annotations-import:preview',
+  annotationsImportLocate: 'annotations-import:locate',
+  backupCreate: 'backup:create',
+  backupInspect: 'backup:inspect',
+  backupRestore: 'backup:restore',
+  syncGetStatus: 'sync:get-status',
+  syncChooseFolder: 'sync:choose-folder',
+  syncDisable: 'sync:disable',
+  syncNow: 'sync:now',
+  syncChanged: 'sync:changed',
+  watchFoldersList: 'watch-folders:list',
+  watchFoldersAdd: 'watch-folders:add',
+  watchFoldersRemove: 'watch-folders:remove',
+  watchFoldersClearActivity: 'watch-folders:clear-activity',
+  watchFoldersActivity: 'watch-folders:activity',
+  profilesList: 'profiles:list',
+  profilesCreate: 'profiles:create',
+  profilesSwitch: 'profiles:switch',
+  profilesUpdate: 'profiles:update',
+  profilesDelete: 'profiles:delete',
+  profilesLock: 'profiles:lock'
 } as const;
 
+export const BOOK_PROTOCOL_SCHEME = 'book';
+
+export type LocalProfile = {
+  id: string;
+  name: string;
+  hasPin: boolean;
+  createdAt: number;
+};
+
 export type PingResponse = {
   ok: true;
   message: string;
@@ -62,7 +132,13 @@ export type PingResponse = {
   };
 };
 
-export type BookFormat = 'pdf' | 'epub' | 'fb2' | 'txt';
+export const BOOK_FORMATS = ['pdf', 'epub', 'fb2', 'txt', 'cbz', 'mobi', 'html', 'md'] as const;
+export type BookFormat = (typeof BOOK_FORMATS)[number];
+// Formats that are converted to HTML in the main process and read in the flow reader.
+export const DOCUMENT_BOOK_FORMATS = ['mobi', 'html', 'md'] as const;
+export type DocumentBookFormat = (typeof DOCUMENT_BOOK_FORMATS)[number];
+export const READING_STATUSES = ['want-to-read', 'reading', 'finished', 'abandoned'] as const;
+export type ReadingStatus = (typeof READING_STATUSES)[number];
 export type DiscoverBookSource = 'gutenberg' | 'standardebooks';
 export type DiscoverSourceFilter = 'all' | DiscoverBookSource;
 export type DiscoverBookFormat = 'epub' | 'txt' | 'html' | 'other';
@@ -72,13 +148,58 @@ export type Book = {
   title: string;
   subtitle?: string | null;
   author?: string | null;
+  authors?: string[];
+  series?: string | null;
+  seriesIndex?: number | null;
+  language?: string | null;
+  publisher?: string | null;
+  isbn?: string | null;
   coverUrl?: string | null;
   description?: string | null;
   subjects?: string[];
   publishYear?: number | null;
+  metadataLocked?: boolean;
   format: BookFormat;
   filePath?: string | null;
   createdAt: number;
+  status?: ReadingStatus;
+  startedAt?: number | null;
+  finishedAt?: number | null;
+  tags?: string[];
+  collectionIds?: string[];
+};
+
+export type BookMetadataInput = {
+  title: string;
+  subtitle: string | null;
+  authors: string[];
+  series: string | null;
+  seriesIndex: number | null;
+  publishYear: number | null;
+  language: string | null;
+  description: string | null;
+  subjects: string[];
+};
+
+export type BookMetadataMatch = {
+  title: string;
+  subtitle: string | null;
+  author: string | null;
+  workId: string | null;
+  editionId: string | null;
+  isbn: string | null;
+  coverUrl: string | null;
+  publishYear: number | null;
+  subjects: string[];
+  score: number;
+};
+
+export type BookCollection = {
+  id: string;
+  name: string;
+  bookCount: number;
+  createdAt: number;
+  updatedAt: number;
 };
 
 export type Note = {
@@ -97,6 +218,17 @@ export type HighlightRect = {
   h: number;
 };
 
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink', 'purple'] as const;
+
+export type HighlightColor = (typeof HIGHLIGHT_COLORS)[number];
+
+export const DEFAULT_HIGHLIGHT_COLOR: HighlightColor = 'yellow';
+
+export type HighlightCategory = {
+  color: HighlightColor;
+  label: string | null;
+};
+
 export type Highlight = {
   id: string;
   bookId: string;
@@ -105,6 +237,7 @@ export type Highlight = {
   cfiRange: string | null;
   text: string | null;
   note: string | null;
+  color: HighlightColor;
   createdAt: number;
   updatedAt: number;
 };
@@ -156,6 +289,25 @@ export type EpubBookmark = {
   createdAt: number;
 };
 
+export type BookDocumentBlock = {
+  tag: 'p' | 'h1' | 'h2' | 'h3' | 'h4' | 'li' | 'blockquote' | 'pre';
+  // Sanitized inline markup; block ids are assigned by position when the document is rendered.
+  html: string;
+  text: string;
+};
+
+export type BookDocumentChapter = {
+  // Null when the chapter does not start with a heading.
+  title: string | null;
+  blocks: BookDocumentBlock[];
+};
+
+export type BookDocument = {
+  title: string | null;
+  author: string | null;
+  chapters: BookDocumentChapter[];
+};
+
 export type ReaderTheme = 'light' | 'sepia' | 'dark';
 export type EpubMarginSize = 'small' | 'medium' | 'large';
 export type EpubFontFamily = 'serif' | 'sans' | 'georgia' | 'openDyslexic';
@@ -204,6 +356,20 @@ export type ReaderSettingsPatch = {
   reduceMotion?: boolean;
 };
 
+// Settings a single book may override; accessibility options always follow the global settings.
+export const BOOK_READER_SETTINGS_KEYS = [
+  'theme',
+  'epubFontSize',
+  'epubLineHeight',
+  'epubMargins',
+  'epubFontFamily',
+  'pdfBackground',
+  'pdfZoomPreset'
+] as const;
+
+export type BookReaderSettingsKey = (typeof BOOK_READER_SETTINGS_KEYS)[number];
+export type BookReaderSettingsOverride = Partial<Pick<ReaderSettings, BookReaderSettingsKey>>;
+
 export type RecentBookEntry = {
   bookId: string;
   title: string;
@@ -211,6 +377,69 @@ export type RecentBookEntry = {
   lastOpenedAt: number | null;
 };
 
+export type ReadingSessionState = 'active' | 'idle';
+
+export type ReadingSession = {
+  id: string;
+  bookId: string;
+  format: BookFormat;
+  startedAt: number;
+  endedAt: number;
+  activeSeconds: number;
+  locations: string[];
+};
+
+export type ReadingDayTotal = {
+  date: string;
+  seconds: number;
+};
+
+export type ReadingBookStats = {
+  bookId: string;
+  title: string;
+  format: BookFormat;
+  totalSeconds: number;
+  sessionCount: number;
+  locationsCovered: number;
+  locationsPerHour: number | null;
+  lastReadAt: number | null;
+};
+
+export type ReadingStatsOverview = {
+  totalSeconds: number;
+  todaySeconds: number;
+  currentStreakDays: number;
+  longestStreakDays: number;
+  days: ReadingDayTotal[];
+  books: ReadingBookStats[];
+};
+
+export type ReadingGoalKind = 'daily-minutes' | 'yearly-books' | 'finish-book';
+
+export type ReadingGoal = {
+  id: string;
+  kind: ReadingGoalKind;
+  target: number;
+  bookId: string | null;
+  dueAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ReadingGoalProgress = {
+  goal: ReadingGoal;
+  current: number;
+  completed: boolean;
+  overdue: boolean;
+  bookTitle: string | null;
+};
+
+export type GoalReminderSettings = {
+  enabled: boolean;
+  time: string;
+  language: 'ru' | 'en';
+};
+
 export type RecommendationReason =
   | 'matching-author'
   | 'matching-genre'
@@ -218,7 +447,8 @@ export type RecommendationReason =
   | 'rediscover'
   | 'recently-opened-signal'
   | 'author-collection'
-  | 'similar-title';
+  | 'similar-title'
+  | 'next-in-series';
 
 export type RecommendationEntry = {
   book: Book;
@@ -263,10 +493,201 @@ export type AiSummaryEntry = {
   updatedAt: number;
 };
 
+export const EXPORT_FORMATS = ['markdown', 'json', 'obsidian', 'html', 'pdf', 'csv', 'anki-tsv', 'anki-apkg', 'template'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportBookmark = {
+  id: string;
+  page: number | null;
+  cfi: string | null;
+  label: string | null;
+  createdAt: number;
+};
+
+export type ExportBookData = {
+  book: Book;
+  notes: Note[];
+  highlights: Highlight[];
+  bookmarks: ExportBookmark[];
+  highlightCategories: HighlightCategory[];
+  aiSummary: AiSummaryEntry | null;
+};
+
+export type ExportLibraryLayout = 'combined' | 'zip';
+
+export type ExportTemplate = {
+  id: string;
+  name: string;
+  body: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ExportProgressState = 'collecting' | 'writing' | 'done';
+
+export type ExportProgressEvent = {
+  state: ExportProgressState;
+  total: number;
+  processed: number;
+  currentTitle: string | null;
+};
+
+export type SearchSnippetPart = {
+  text: string;
+  match: boolean;
+};
+
+export type LibrarySearchHit = {
+  id: string;
+  page: number | null;
+  cfi: string | null;
+  label: string | null;
+  snippet: SearchSnippetPart[];
+};
+
+export type LibrarySearchBookResult = {
+  bookId: string;
+  title: string;
+  author: string | null;
+  format: BookFormat;
+  hitCount: number;
+  hits: LibrarySearchHit[];
+};
+
+export type AnnotationSearchKind = 'note' | 'highlight' | 'ai_summary';
+
+export type AnnotationSearchHit = {
+  kind: AnnotationSearchKind;
+  id: string;
+  bookId: string | null;
+  bookTitle: string | null;
+  page: number | null;
+  cfiRange: string | null;
+  snippet: SearchSnippetPart[];
+  updatedAt: number;
+};
+
+export type AnnotationImportSource = 'kindle' | 'koreader' | 'calibre';
+
+// ready: located in the book; duplicate: already in the library or earlier in the import;
+// unlocated: the text was not found in the book file; unmatched: no book is assigned.
+export type AnnotationImportStatus = 'ready' | 'duplicate' | 'unlocated' | 'unmatched';
+
+export type AnnotationImportEntry = {
+  id: string;
+  kind: 'highlight' | 'note';
+  text: string | null;
+  note: string | null;
+  pageHint: number | null;
+  color: HighlightColor;
+  createdAt: number | null;
+  page: number | null;
+  rects: HighlightRect[];
+  cfiRange: string | null;
+  status: AnnotationImportStatus;
+};
+
+export type AnnotationImportGroup = {
+  id: string;
+  source: AnnotationImportSource;
+  fileName: string;
+  title: string;
+  author: string | null;
+  bookId: string | null;
+  entries: AnnotationImportEntry[];
+};
+
+export type BackupRestoreMode = 'merge' | 'replace';
+
+export type BackupManifest = {
+  format: string;
+  schemaVersion: number;
+  appVersion: string;
+  createdAt: number;
+  bookCount: number;
+  tables: Record<string, number>;
+};
+
+export type SyncStatus = {
+  deviceId: string;
+  folderPath: string | null;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+  syncing: boolean;
+};
+
+export type SyncSummary = {
+  published: number;
+  applied: number;
+  copiedFiles: number;
+};
+
+export type WatchFolder = {
+  id: string;
+  path: string;
+  createdAt: number;
+  available: boolean;
+};
+
+export type LibraryImportOutcome = 'imported' | 'duplicate' | 'failed';
+
+export type LibraryImportActivity = {
+  id: string;
+  filePath: string;
+  outcome: LibraryImportOutcome;
+  bookId: string | null;
+  title: string | null;
+  message: string | null;
+  createdAt: number;
+};
+
+export type FolderImportState = 'scanning' | 'importing' | 'done';
+
+export type FolderImportProgressEvent = {
+  folderPath: string;
+  state: FolderImportState;
+  total: number;
+  processed: number;
+  imported: number;
+  duplicates: number;
+  failed: number;
+  currentFile: string | null;
+};
+
+export type DuplicateBookCandidate = {
+  bookId: string;
+  notes: number;
+  highlights: number;
+  bookmarks: number;
+  readingTimeSec: number;
+  lastOpenedAt: number | null;
+};
+
+export type DuplicateBookGroup = {
+  contentHash: string;
+  candidates: DuplicateBookCandidate[];
+};
+
+export type LibrarySearchIndexStatus = {
+  totalBooks: number;
+  indexedBooks: number;
+  failedBooks: number;
+  indexing: boolean;
+};
+
 export type ErrorResult = { ok: false; error: string };
 export type BooksListResult = { ok: true; books: Book[] } | ErrorResult;
 export type BooksAddSampleResult = { ok: true; book: Book } | ErrorResult;
-export type BooksImportResult = { ok: true; book: Book } | ErrorResult;
+export type BooksImportResult = { ok: true; book: Book; duplicate: boolean } | ErrorResult;
+export type BooksListDuplicatesResult = { ok: true; groups: DuplicateBookGroup[] } | ErrorResult;
+export type BooksMergeDuplicatesResult = { ok: true } | ErrorResult;
+export type BooksImportFilesResult = { ok: true; entries: LibraryImportActivity[] } | ErrorResult;
+export type BooksTakeOpenRequestResult = { ok: true; bookId: string | null } | ErrorResult;
+export type BooksImportFolderResult =
+  | { ok: true; imported: number; duplicates: number; failed: number }
+  | { ok: false; cancelled: true }
+  | ErrorResult;
 export type DiscoverSearchResult = { ok: true; results: DiscoverBookResult[] } | ErrorResult;
 export type DiscoverDownloadResult =
   | { ok: true; book: Book; duplicateWarning: string | null }
@@ -277,6 +698,46 @@ export type BooksGetPdfDataResult = { ok: true; base64: string; title: string }
 export type BooksGetEpubDataResult = { ok: true; base64: string; title: string } | ErrorResult;
 export type BooksGetFb2DataResult = { ok: true; content: string; title: string } | ErrorResult;
 export type BooksGetTxtDataResult = { ok: true; content: string; title: string } | ErrorResult;
+export type BooksGetDocumentDataResult = { ok: true; document: BookDocument; title: string } | ErrorResult;
+export type BooksGetComicPagesResult = { ok: true; pages: string[]; title: string } | ErrorResult;
+export type BooksSetStatusResult = { ok: true; book: Book } | ErrorResult;
+export type BooksUpdateTagsResult = { ok: true; books: Book[] } | ErrorResult;
+export type BooksUpdateMetadataResult = { ok: true; book: Book } | ErrorResult;
+export type BooksSearchMetadataMatchesResult = { ok: true; matches: BookMetadataMatch[] } | ErrorResult;
+export type SearchLibraryResult =
+  | { ok: true; results: LibrarySearchBookResult[]; status: LibrarySearchIndexStatus }
+  | ErrorResult;
+export type SearchAnnotationsResult =
+  | { ok: true; hits: AnnotationSearchHit[]; total: number; hasMore: boolean }
+  | ErrorResult;
+export type AnnotationsImportPreviewResult = { ok: true; groups: AnnotationImportGroup[] } | ErrorResult;
+export type AnnotationsImportLocateResult = { ok: true; entries: AnnotationImportEntry[] } | ErrorResult;
+export type BackupCreateResult =
+  | { ok: true; path: string; manifest: BackupManifest }
+  | { ok: false; cancelled: true }
+  | ErrorResult;
+export type BackupInspectResult =
+  | { ok: true; archivePath: string; manifest: BackupManifest }
+  | { ok: false; cancelled: true }
+  | ErrorResult;
+export type BackupRestoreResult = { ok: true; restoredBooks: number; skippedBooks: number } | ErrorResult;
+export type SyncStatusResult = { ok: true; status: SyncStatus } | ErrorResult;
+export type SyncChooseFolderResult = { ok: true; status: SyncStatus } | { ok: false; cancelled: true } | ErrorResult;
+export type SyncNowResult = { ok: true; status: SyncStatus; summary: SyncSummary } | ErrorResult;
+export type WatchFoldersListResult =
+  | { ok: true; folders: WatchFolder[]; activity: LibraryImportActivity[] }
+  | ErrorResult;
+export type WatchFoldersAddResult = WatchFoldersListResult | { ok: false; cancelled: true };
+// activeProfileId is null while the last used profile waits for its PIN.
+export type ProfilesListResult =
+  | { ok: true; profiles: LocalProfile[]; activeProfileId: string | null }
+  | ErrorResult;
+export type ProfilesCreateResult =
+  | { ok: true; profiles: LocalProfile[]; activeProfileId: string | null; profileId: string }
+  | ErrorResult;
+export type CollectionsListResult = { ok: true; collections: BookCollection[] } | ErrorResult;
+export type CollectionsSaveResult = { ok: true; collection: BookCollection } | ErrorResult;
+export type CollectionsDeleteResult = { ok: true } | ErrorResult;
 export type NotesCreateResult = { ok: true; note: Note } | ErrorResult;
 export type NotesListResult = { ok: true; notes: Note[] } | ErrorResult;
 export type NotesDeleteResult = { ok: true } | ErrorResult;
@@ -286,6 +747,9 @@ export type HighlightsCreateMergedResult = { ok: true; highlight: Highlight } |
 export type HighlightsDeleteResult = { ok: true } | ErrorResult;
 export type HighlightsInsertRawResult = { ok: true; highlight: Highlight } | ErrorResult;
 export type HighlightsUpdateNoteResult = { ok: true; highlight: Highlight } | ErrorResult;
+export type HighlightsUpdateColorResult = { ok: true; highlight: Highlight } | ErrorResult;
+export type HighlightCategoriesListResult = { ok: true; categories: HighlightCategory[] } | ErrorResult;
+export type HighlightCategoriesSetResult = { ok: true; categories: HighlightCategory[] } | ErrorResult;
 export type EpubHighlightsListResult = { ok: true; highlights: Highlight[] } | ErrorResult;
 export type EpubHighlightsCreateResult = { ok: true; highlight: Highlight } | ErrorResult;
 export type BookmarksListResult = { ok: true; bookmarks: Bookmark[] } | ErrorResult;
@@ -295,20 +759,19 @@ export type EpubBookmarksListResult = { ok: true; bookmarks: EpubBookmark[] } |
 export type EpubBookmarksToggleResult =
   | { ok: true; bookmarked: boolean; bookmark?: EpubBookmark }
   | ErrorResult;
-export type ExportGetBookDataResult =
-  | {
-      ok: true;
-      data: {
-        book: Book;
-        notes: Note[];
-        highlights: Highlight[];
-      };
-    }
-  | ErrorResult;
+export type ExportGetBookDataResult = { ok: true; data: ExportBookData } | ErrorResult;
 export type ExportSaveFileResult =
   | { ok: true; path: string }
   | { ok: false; cancelled: true }
   | ErrorResult;
+export type ExportSaveBooksResult = ExportSaveFileResult;
+export type ExportTemplatesListResult = { ok: true; templates: ExportTemplate[] } | ErrorResult;
+export type ExportTemplatesSaveResult = { ok: true; template: ExportTemplate } | ErrorResult;
+export type ExportTemplatesDeleteResult = { ok: true } | ErrorResult;
+export type ExportLibraryResult =
+  | { ok: true; path: string; bookCount: number }
+  | { ok: false; cancelled: true }
+  | ErrorResult;
 export type EpubProgressGetResult = { ok: true; cfi: string | null } | ErrorResult;
 export type EpubProgressSetResult = { ok: true } | ErrorResult;
 export type FlowProgressGetResult =
@@ -323,8 +786,18 @@ export type FlowProgressGetResult =
 export type FlowProgressSetResult = { ok: true } | ErrorResult;
 export type ReaderSettingsGetResult = { ok: true; settings: ReaderSettings } | ErrorResult;
 export type ReaderSettingsUpdateResult = { ok: true; settings: ReaderSettings } | ErrorResult;
+export type ReaderSettingsBookResult = { ok: true; override: BookReaderSettingsOverride } | ErrorResult;
 export type StatsMarkOpenedResult = { ok: true } | ErrorResult;
 export type StatsGetRecentBooksResult = { ok: true; books: RecentBookEntry[] } | ErrorResult;
+export type StatsHeartbeatResult = { ok: true } | ErrorResult;
+export type StatsListSessionsResult = { ok: true; sessions: ReadingSession[] } | ErrorResult;
+export type StatsGetOverviewResult = { ok: true; overview: ReadingStatsOverview } | ErrorResult;
+export type GoalsListResult =
+  | { ok: true; goals: ReadingGoalProgress[]; reminder: GoalReminderSettings }
+  | ErrorResult;
+export type GoalsSaveResult = { ok: true; goal: ReadingGoal } | ErrorResult;
+export type GoalsDeleteResult = { ok: true } | ErrorResult;
+export type GoalsSetReminderResult = { ok: true; reminder: GoalReminderSettings } | ErrorResult;
 export type RecommendationsHomeResult =
   | {
       ok: true;
@@ -385,10 +858,78 @@ export type BooksGetTxtDataRequest = {
   bookId: string;
 };
 
+export type BooksGetDocumentDataRequest = {
+  bookId: string;
+};
+
+export type BooksGetComicPagesRequest = {
+  bookId: string;
+};
+
+export type BooksSetStatusRequest = {
+  bookId: string;
+  status: ReadingStatus;
+};
+
+export type BooksUpdateTagsRequest = {
+  bookIds: string[];
+  add?: string[];
+  remove?: string[];
+};
+
+export type BooksUpdateMetadataRequest = {
+  bookId: string;
+  metadata: BookMetadataInput;
+  locked: boolean;
+};
+
+export type BooksSearchMetadataMatchesRequest = {
+  bookId: string;
+  title?: string;
+  author?: string | null;
+};
+
+export type BooksApplyMetadataMatchRequest = {
+  bookId: string;
+  match: BookMetadataMatch;
+};
+
+export type SearchLibraryRequest = {
+  query: string;
+};
+
+export type SearchAnnotationsRequest = {
+  query: string;
+  kinds?: AnnotationSearchKind[] | null;
+  bookId?: string | null;
+  offset?: number;
+  limit?: number;
+};
+
+export type CollectionsCreateRequest = {
+  name: string;
+  bookIds?: string[];
+};
+
+export type CollectionsRenameRequest = {
+  id: string;
+  name: string;
+};
+
+export type CollectionsDeleteRequest = {
+  id: string;
+};
+
+export type CollectionsUpdateBooksRequest = {
+  id: string;
+  bookIds: string[];
+};
+
 export type NotesCreateRequest = {
   bookId: string;
   page: number;
   content: string;
+  createdAt?: number | null;
 };
 
 export type NotesListRequest = {
@@ -415,6 +956,7 @@ export type HighlightsCreateMergedRequest = {
   page: number;
   rects: HighlightRect[];
   text: string | null;
+  color?: HighlightColor;
 };
 
 export type HighlightsDeleteRequest = {
@@ -428,6 +970,60 @@ export type HighlightsInsertRawRequest = {
   cfiRange?: string | null;
   text: string | null;
   note?: string | null;
+  color?: HighlightColor;
+  createdAt?: number | null;
+};
+
+export type AnnotationsImportLocateRequest = {
+  bookId: string;
+  entries: AnnotationImportEntry[];
+};
+
+export type BackupRestoreRequest = {
+  archivePath: string;
+  mode: BackupRestoreMode;
+};
+
+export type BooksMergeDuplicatesRequest = {
+  keepBookId: string;
+  removeBookId: string;
+};
+
+export type BooksImportPathsRequest = {
+  paths: string[];
+  collectionId?: string | null;
+};
+
+export type BooksImportFilesRequest = {
+  files: File[];
+  collectionId?: string | null;
+};
+
+export type WatchFoldersRemoveRequest = {
+  id: string;
+};
+
+export type ProfilesCreateRequest = {
+  name: string;
+  pin?: string | null;
+};
+
+export type ProfilesSwitchRequest = {
+  id: string;
+  pin?: string | null;
+};
+
+// Changes the active profile. An omitted pin keeps the current one and null removes it; changing
+// or removing an existing PIN requires currentPin.
+export type ProfilesUpdateRequest = {
+  name?: string;
+  pin?: string | null;
+  currentPin?: string | null;
+};
+
+export type ProfilesDeleteRequest = {
+  id: string;
+  pin?: string | null;
 };
 
 export type HighlightsUpdateNoteRequest = {
@@ -435,6 +1031,16 @@ export type HighlightsUpdateNoteRequest = {
   note: string | null;
 };
 
+export type HighlightsUpdateColorRequest = {
+  highlightId: string;
+  color: HighlightColor;
+};
+
+export type HighlightCategoriesSetRequest = {
+  color: HighlightColor;
+  label: string | null;
+};
+
 export type EpubHighlightsListRequest = {
   bookId: string;
 };
@@ -443,6 +1049,7 @@ export type EpubHighlightsCreateRequest = {
   bookId: string;
   cfiRange: string;
   text: string | null;
+  color?: HighlightColor;
 };
 
 export type BookmarksListRequest = {
@@ -479,6 +1086,31 @@ export type ExportSaveFileRequest = {
   content: string;
 };
 
+export type ExportSaveBooksRequest = {
+  bookIds: string[];
+  format: ExportFormat;
+  // Template body for the 'template' format; the default template is used when it is empty.
+  template?: string | null;
+};
+
+export type ExportLibraryRequest = {
+  format: ExportFormat;
+  layout: ExportLibraryLayout;
+  bookIds?: string[] | null;
+  template?: string | null;
+};
+
+export type ExportTemplatesSaveRequest = {
+  // Updates the template with this id; creates a new one when omitted.
+  id?: string | null;
+  name: string;
+  body: string;
+};
+
+export type ExportTemplatesDeleteRequest = {
+  id: string;
+};
+
 export type EpubProgressGetRequest = {
   bookId: string;
 };
@@ -498,15 +1130,20 @@ export type FlowProgressSetRequest = {
   scrollRatio: number;
 };
 
-export type ReaderSettingsGetRequest = {
-  token: string;
-};
-
 export type ReaderSettingsUpdateRequest = {
-  token: string;
   patch: ReaderSettingsPatch;
 };
 
+export type ReaderSettingsGetBookRequest = {
+  bookId: string;
+};
+
+// The override replaces the stored one; an empty object makes the book follow the global settings again.
+export type ReaderSettingsSetBookRequest = {
+  bookId: string;
+  override: BookReaderSettingsOverride;
+};
+
 export type ProgressGetLastPageRequest = {
   bookId: string;
 };
@@ -521,6 +1158,43 @@ export type StatsMarkOpenedRequest = {
   format: BookFormat;
 };
 
+export type StatsHeartbeatRequest = {
+  sessionId: string;
+  bookId: string;
+  format: BookFormat;
+  state: ReadingSessionState;
+  activeSeconds: number;
+  locations: string[];
+};
+
+export type StatsListSessionsRequest = {
+  bookId?: string | null;
+  from?: number | null;
+  to?: number | null;
+};
+
+export type StatsGetOverviewRequest = {
+  days?: number | null;
+};
+
+export type GoalsSaveRequest = {
+  id?: string | null;
+  kind: ReadingGoalKind;
+  target: number;
+  bookId?: string | null;
+  dueAt?: number | null;
+};
+
+export type GoalsDeleteRequest = {
+  goalId: string;
+};
+
+export type GoalsSetReminderRequest = {
+  enabled: boolean;
+  time: string;
+  language: 'ru' | 'en';
+};
+
 export type RecommendationsForBookRequest = {
   bookId: string;
 };
@@ -564,13 +1238,36 @@ export type AiSummariesDeleteRequest = {
 export interface RendererBooksApi {
   list: () => Promise<BooksListResult>;
   addSample: () => Promise<BooksAddSampleResult>;
-  import: () => Promise<BooksImportResult>;
+  import: () => Promise<BooksImportFilesResult>;
+  importFiles: (payload: BooksImportFilesRequest) => Promise<BooksImportFilesResult>;
+  takeOpenRequest: () => Promise<BooksTakeOpenRequestResult>;
+  onOpenRequested: (listener: () => void) => () => void;
+  importFolder: () => Promise<BooksImportFolderResult>;
+  onImportFolderProgress: (listener: (event: FolderImportProgressEvent) => void) => () => void;
+  listDuplicates: () => Promise<BooksListDuplicatesResult>;
+  mergeDuplicates: (payload: BooksMergeDuplicatesRequest) => Promise<BooksMergeDuplicatesResult>;
   reveal: (payload: BooksRevealRequest) => Promise<BooksRevealResult>;
   delete: (payload: BooksDeleteRequest) => Promise<BooksDeleteResult>;
   getPdfData: (payload: BooksGetPdfDataRequest) => Promise<BooksGetPdfDataResult>;
   getEpubData: (payload: BooksGetEpubDataRequest) => Promise<BooksGetEpubDataResult>;
   getFb2Data: (payload: BooksGetFb2DataRequest) => Promise<BooksGetFb2DataResult>;
   getTxtData: (payload: BooksGetTxtDataRequest) => Promise<BooksGetTxtDataResult>;
+  getDocumentData: (payload: BooksGetDocumentDataRequest) => Promise<BooksGetDocumentDataResult>;
+  getComicPages: (payload: BooksGetComicPagesRequest) => Promise<BooksGetComicPagesResult>;
+  setStatus: (payload: BooksSetStatusRequest) => Promise<BooksSetStatusResult>;
+  updateTags: (payload: BooksUpdateTagsRequest) => Promise<BooksUpdateTagsResult>;
+  updateMetadata: (payload: BooksUpdateMetadataRequest) => Promise<BooksUpdateMetadataResult>;
+  searchMetadataMatches: (payload: BooksSearchMetadataMatchesRequest) => Promise<BooksSearchMetadataMatchesResult>;
+  applyMetadataMatch: (payload: BooksApplyMetadataMatchRequest) => Promise<BooksUpdateMetadataResult>;
+}
+
+export interface RendererCollectionsApi {
+  list: () => Promise<CollectionsListResult>;
+  create: (payload: CollectionsCreateRequest) => Promise<CollectionsSaveResult>;
+  rename: (payload: CollectionsRenameRequest) => Promise<CollectionsSaveResult>;
+  delete: (payload: CollectionsDeleteRequest) => Promise<CollectionsDeleteResult>;
+  addBooks: (payload: CollectionsUpdateBooksRequest) => Promise<CollectionsSaveResult>;
+  removeBooks: (payload: CollectionsUpdateBooksRequest) => Promise<CollectionsSaveResult>;
 }
 
 export interface RendererDiscoverApi {
@@ -592,6 +1289,12 @@ export interface RendererHighlightsApi {
   delete: (payload: HighlightsDeleteRequest) => Promise<HighlightsDeleteResult>;
   insertRaw: (payload: HighlightsInsertRawRequest) => Promise<HighlightsInsertRawResult>;
   updateNote: (payload: HighlightsUpdateNoteRequest) => Promise<HighlightsUpdateNoteResult>;
+  updateColor: (payload: HighlightsUpdateColorRequest) => Promise<HighlightsUpdateColorResult>;
+}
+
+export interface RendererHighlightCategoriesApi {
+  list: () => Promise<HighlightCategoriesListResult>;
+  set: (payload: HighlightCategoriesSetRequest) => Promise<HighlightCategoriesSetResult>;
 }
 
 export interface RendererEpubHighlightsApi {
@@ -613,6 +1316,15 @@ export interface RendererEpubBookmarksApi {
 export interface RendererExportApi {
   getBookData: (payload: ExportGetBookDataRequest) => Promise<ExportGetBookDataResult>;
   saveFile: (payload: ExportSaveFileRequest) => Promise<ExportSaveFileResult>;
+  saveBooks: (payload: ExportSaveBooksRequest) => Promise<ExportSaveBooksResult>;
+  exportLibrary: (payload: ExportLibraryRequest) => Promise<ExportLibraryResult>;
+  onProgress: (listener: (event: ExportProgressEvent) => void) => () => void;
+}
+
+export interface RendererExportTemplatesApi {
+  list: () => Promise<ExportTemplatesListResult>;
+  save: (payload: ExportTemplatesSaveRequest) => Promise<ExportTemplatesSaveResult>;
+  delete: (payload: ExportTemplatesDeleteRequest) => Promise<ExportTemplatesDeleteResult>;
 }
 
 export interface RendererEpubProgressApi {
@@ -626,13 +1338,25 @@ export interface RendererFlowProgressApi {
 }
 
 export interface RendererReaderSettingsApi {
-  get: (payload: ReaderSettingsGetRequest) => Promise<ReaderSettingsGetResult>;
+  get: () => Promise<ReaderSettingsGetResult>;
   update: (payload: ReaderSettingsUpdateRequest) => Promise<ReaderSettingsUpdateResult>;
+  getBook: (payload: ReaderSettingsGetBookRequest) => Promise<ReaderSettingsBookResult>;
+  setBook: (payload: ReaderSettingsSetBookRequest) => Promise<ReaderSettingsBookResult>;
 }
 
 export interface RendererStatsApi {
   markOpened: (payload: StatsMarkOpenedRequest) => Promise<StatsMarkOpenedResult>;
   getRecentBooks: () => Promise<StatsGetRecentBooksResult>;
+  heartbeat: (payload: StatsHeartbeatRequest) => Promise<StatsHeartbeatResult>;
+  listSessions: (payload: StatsListSessionsRequest) => Promise<StatsListSessionsResult>;
+  getOverview: (payload: StatsGetOverviewRequest) => Promise<StatsGetOverviewResult>;
+}
+
+export interface RendererGoalsApi {
+  list: () => Promise<GoalsListResult>;
+  save: (payload: GoalsSaveRequest) => Promise<GoalsSaveResult>;
+  delete: (payload: GoalsDeleteRequest) => Promise<GoalsDeleteResult>;
+  setReminder: (payload: GoalsSetReminderRequest) => Promise<GoalsSetReminderResult>;
 }
 
 export interface RendererRecommendationsApi {
@@ -654,23 +1378,74 @@ export interface RendererAiSummariesApi {
   delete: (payload: AiSummariesDeleteRequest) => Promise<AiSummariesDeleteResult>;
 }
 
+export interface RendererSearchApi {
+  library: (payload: SearchLibraryRequest) => Promise<SearchLibraryResult>;
+  annotations: (payload: SearchAnnotationsRequest) => Promise<SearchAnnotationsResult>;
+}
+
+export interface RendererAnnotationsImportApi {
+  preview: () => Promise<AnnotationsImportPreviewResult>;
+  locate: (payload: AnnotationsImportLocateRequest) => Promise<AnnotationsImportLocateResult>;
+}
+
+export interface RendererBackupApi {
+  create: () => Promise<BackupCreateResult>;
+  inspect: () => Promise<BackupInspectResult>;
+  restore: (payload: BackupRestoreRequest) => Promise<BackupRestoreResult>;
+}
+
+export interface RendererSyncApi {
+  getStatus: () => Promise<SyncStatusResult>;
+  chooseFolder: () => Promise<SyncChooseFolderResult>;
+  disable: () => Promise<SyncStatusResult>;
+  syncNow: () => Promise<SyncNowResult>;
+  onChanged: (listener: (summary: SyncSummary) => void) => () => void;
+}
+
+export interface RendererWatchFoldersApi {
+  list: () => Promise<WatchFoldersListResult>;
+  add: () => Promise<WatchFoldersAddResult>;
+  remove: (payload: WatchFoldersRemoveRequest) => Promise<WatchFoldersListResult>;
+  clearActivity: () => Promise<WatchFoldersListResult>;
+  onActivity: (listener: (entries: LibraryImportActivity[]) => void) => () => void;
+}
+
+export interface RendererProfilesApi {
+  list: () => Promise<ProfilesListResult>;
+  create: (payload: ProfilesCreateRequest) => Promise<ProfilesCreateResult>;
+  switch: (payload: ProfilesSwitchRequest) => Promise<ProfilesListResult>;
+  update: (payload: ProfilesUpdateRequest) => Promise<ProfilesListResult>;
+  delete: (payload: ProfilesDeleteRequest) => Promise<ProfilesListResult>;
+  lock: () => Promise<ProfilesListResult>;
+}
+
 export interface RendererApi {
   ping: () => Promise<PingResponse>;
   discover: RendererDiscoverApi;
   recommendations: RendererRecommendationsApi;
   wishlist: RendererWishlistApi;
   books: RendererBooksApi;
+  collections: RendererCollectionsApi;
   notes: RendererNotesApi;
   highlights: RendererHighlightsApi;
+  highlightCategories: RendererHighlightCategoriesApi;
   epubHighlights: RendererEpubHighlightsApi;
   bookmarks: RendererBookmarksApi;
   epubBookmarks: RendererEpubBookmarksApi;
   export: RendererExportApi;
+  exportTemplates: RendererExportTemplatesApi;
   epubProgress: RendererEpubProgressApi;
   flowProgress: RendererFlowProgressApi;
   readerSettings: RendererReaderSettingsApi;
   stats: RendererStatsApi;
+  goals: RendererGoalsApi;
   aiSummaries: RendererAiSummariesApi;
+  search: RendererSearchApi;
+  annotationsImport: RendererAnnotationsImportApi;
+  backup: RendererBackupApi;
+  sync: RendererSyncApi;
+  watchFolders: RendererWatchFoldersApi;
+  profiles: RendererProfilesApi;
   getLastPage: (payload: ProgressGetLastPageRequest) => Promise<number | null>;
   setLastPage: (payload: ProgressSetLastPageRequest) => Promise<void>;
 }
@@ -0,0 +1,72 @@
+import type { Book } from './ipc';
+
+export type BookSeries = {
+  key: string;
+  name: string;
+  books: Book[];
+  finishedCount: number;
+  nextBookId: string | null;
+};
+
+export function getSeriesKey(name: string | null | undefined) {
+  return (name ?? '')
+    .toLocaleLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function formatSeriesIndex(index: number | null | undefined) {
+  if (typeof index !== 'number' || !Number.isFinite(index)) {
+    return null;
+  }
+  return Number.isInteger(index) ? String(index) : String(Math.round(index * 100) / 100);
+}
+
+export function formatSeriesLabel(book: Pick<Book, 'series' | 'seriesIndex'>) {
+  if (!book.series) {
+    return null;
+  }
+  const index = formatSeriesIndex(book.seriesIndex);
+  return index ? `${book.series} #${index}` : book.series;
+}
+
+export function compareSeriesVolumes(left: Book, right: Book) {
+  const leftIndex = left.seriesIndex ?? Number.POSITIVE_INFINITY;
+  const rightIndex = right.seriesIndex ?? Number.POSITIVE_INFINITY;
+  if (leftIndex !== rightIndex) {
+    return leftIndex - rightIndex;
+  }
+  return left.title.localeCompare(right.title, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+// The next volume is the first one in reading order that is neither finished nor abandoned.
+export function findNextInSeries(volumes: Book[]): Book | null {
+  return volumes.find((book) => book.status !== 'finished' && book.status !== 'abandoned') ?? null;
+}
+
+export function groupBooksBySeries(books: Book[]): BookSeries[] {
+  const groups = new Map<string, { name: string; books: Book[] }>();
+  for (const book of books) {
+    const key = getSeriesKey(book.series);
+    if (!key) {
+      continue;
+    }
+    const group = groups.get(key) ?? { name: book.series ?? key, books: [] };
+    group.books.push(book);
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const volumes = [...group.books].sort(compareSeriesVolumes);
+      return {
+        key,
+        name: group.name,
+        books: volumes,
+        finishedCount: volumes.filter((book) => book.status === 'finished').length,
+        nextBookId: findNextInSeries(volumes)?.id ?? null
+      };
+    })
+    .sort((left, right) => left.name.localeCompare(right.name, undefined, { sensitivity: 'base' }));
+}
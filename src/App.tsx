@@ -1,16 +1,25 @@
 import React from 'react';
 import type {
+  AnnotationSearchHit,
   Book,
+  BookCollection,
   BooksAddSampleResult,
   BooksDeleteResult,
-  BooksGetPdfDataResult,
-  BooksImportResult,
+  BooksImportFilesResult,
   BooksListResult,
   BooksRevealResult,
-  Note
+  BooksSetStatusResult,
+  CollectionsListResult,
+  CollectionsSaveResult,
+  LibraryImportActivity,
+  LibrarySearchBookResult,
+  LibrarySearchHit,
+  Note,
+  ReadingStatus
 } from '../shared/ipc';
 import { AppShell } from '@/components/AppShell';
 import { AppErrorBoundary } from '@/components/AppErrorBoundary';
+import { FinishBookPrompt } from '@/components/reader/FinishBookPrompt';
 import { ScreenLoadingState } from '@/components/ScreenState';
 import type { AppView } from '@/components/Sidebar';
 import { LibraryScreen } from '@/screens/LibraryScreen';
@@ -18,7 +27,9 @@ import { NotesScreen } from '@/screens/NotesScreen';
 import { PlaceholderScreen } from '@/screens/PlaceholderScreen';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { isDocumentBookFormat } from '@/lib/book-document';
 import { getReaderThemePalette } from '@/lib/reader-theme';
+import { useFileDrop } from '@/lib/useFileDrop';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
@@ -26,10 +37,15 @@ const EpubReaderScreen = React.lazy(async () => import('@/screens/EpubReaderScre
 const Fb2ReaderScreen = React.lazy(async () => import('@/screens/Fb2ReaderScreen').then((module) => ({ default: module.Fb2ReaderScreen })));
 const PdfReaderScreen = React.lazy(async () => import('@/screens/PdfReaderScreen').then((module) => ({ default: module.PdfReaderScreen })));
 const TxtReaderScreen = React.lazy(async () => import('@/screens/TxtReaderScreen').then((module) => ({ default: module.TxtReaderScreen })));
+const ComicReaderScreen = React.lazy(async () => import('@/screens/ComicReaderScreen').then((module) => ({ default: module.ComicReaderScreen })));
+const DocumentReaderScreen = React.lazy(async () =>
+  import('@/screens/DocumentReaderScreen').then((module) => ({ default: module.DocumentReaderScreen }))
+);
 const InsightsScreen = React.lazy(async () =>
   import('@/screens/InsightsScreen').then((module) => ({ default: module.InsightsScreen }))
 );
 const RecommendationScreen = React.lazy(async () => import('@/screens/RecommendationScreen').then((module) => ({ default: module.RecommendationScreen })));
+const SearchScreen = React.lazy(async () => import('@/screens/SearchScreen').then((module) => ({ default: module.SearchScreen })));
 const WishlistScreen = React.lazy(async () => import('@/screens/WishlistScreen').then((module) => ({ default: module.WishlistScreen })));
 const SettingsScreen = React.lazy(async () => import('@/screens/SettingsScreen').then((module) => ({ default: module.SettingsScreen })));
 
@@ -107,6 +123,10 @@ function LazyScreenFallback({ label }: { label: string }) {
   );
 }
 
+function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
 function SectionBoundary({ area, children }: { area: string; children: React.ReactNode }) {
   return <AppErrorBoundary area={area}>{children}</AppErrorBoundary>;
 }
@@ -119,24 +139,32 @@ export default function App() {
   const [booting, setBooting] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
   const [books, setBooks] = React.useState<Book[]>([]);
+  const [collections, setCollections] = React.useState<BookCollection[]>([]);
+  const [activeCollectionId, setActiveCollectionId] = React.useState<string | null>(null);
   const [currentView, setCurrentView] = React.useState<AppView>('library');
   const [activeBook, setActiveBook] = React.useState<Book | null>(null);
-  const [activePdfData, setActivePdfData] = React.useState<{ base64: string; title: string } | null>(null);
   const [readerInitialPage, setReaderInitialPage] = React.useState<number | null>(null);
   const [readerInitialCfi, setReaderInitialCfi] = React.useState<string | null>(null);
   const [libraryRefreshKey, setLibraryRefreshKey] = React.useState(0);
+  const [goalsRefreshKey, setGoalsRefreshKey] = React.useState(0);
   const [discoverInitialQuery, setDiscoverInitialQuery] = React.useState<string | null>(null);
   const [discoverInitialSearchToken, setDiscoverInitialSearchToken] = React.useState(0);
+  const [finishPromptBookId, setFinishPromptBookId] = React.useState<string | null>(null);
+  const [finishPromptSaving, setFinishPromptSaving] = React.useState(false);
+  // Books whose end-of-book prompt was answered this session, so paging back and forth does not re-open it.
+  const finishPromptHandledRef = React.useRef<Set<string>>(new Set());
 
   const handleResult = React.useCallback(
     <
       T extends
         | BooksListResult
         | BooksAddSampleResult
-        | BooksImportResult
+        | BooksImportFilesResult
         | BooksRevealResult
         | BooksDeleteResult
-        | BooksGetPdfDataResult
+        | BooksSetStatusResult
+        | CollectionsListResult
+        | CollectionsSaveResult
     >(
       result: T
     ): T => {
@@ -150,11 +178,22 @@ export default function App() {
 
   const resetReaderState = React.useCallback(() => {
     setActiveBook(null);
-    setActivePdfData(null);
     setReaderInitialPage(null);
     setReaderInitialCfi(null);
+    setFinishPromptBookId(null);
   }, []);
 
+  const loadCollections = React.useCallback(async () => {
+    const api = getRendererApi();
+    const result = handleResult(await api.collections.list());
+    if (!result.ok) {
+      return false;
+    }
+
+    setCollections(result.collections);
+    return true;
+  }, [handleResult]);
+
   const loadBooks = React.useCallback(async () => {
     const api = getRendererApi();
     const result = handleResult(await api.books.list());
@@ -163,8 +202,14 @@ export default function App() {
     }
 
     setBooks(result.books);
-    return true;
-  }, [handleResult]);
+    return loadCollections();
+  }, [handleResult, loadCollections]);
+
+  React.useEffect(() => {
+    if (activeCollectionId && !collections.some((collection) => collection.id === activeCollectionId)) {
+      setActiveCollectionId(null);
+    }
+  }, [activeCollectionId, collections]);
 
   React.useEffect(() => {
     const boot = async () => {
@@ -182,6 +227,24 @@ export default function App() {
     void boot();
   }, [loadBooks]);
 
+  React.useEffect(
+    () =>
+      getRendererApi().sync.onChanged(() => {
+        void loadBooks().catch(() => undefined);
+      }),
+    [loadBooks]
+  );
+
+  React.useEffect(
+    () =>
+      getRendererApi().watchFolders.onActivity((entries) => {
+        if (entries.some((entry) => entry.outcome === 'imported')) {
+          void loadBooks().catch(() => undefined);
+        }
+      }),
+    [loadBooks]
+  );
+
   const onReloadBooks = async () => {
     setLoading(true);
     setError(null);
@@ -216,6 +279,19 @@ export default function App() {
     }
   };
 
+  const showImportFailures = (entries: LibraryImportActivity[]) => {
+    const failed = entries.filter((entry) => entry.outcome === 'failed');
+    if (failed.length === 0) {
+      return;
+    }
+
+    setError(
+      failed
+        .map((entry) => (entries.length === 1 ? entry.message : `${getFileName(entry.filePath)}: ${entry.message}`))
+        .join(' ')
+    );
+  };
+
   const onImportBook = async () => {
     setLoading(true);
     setError(null);
@@ -226,6 +302,7 @@ export default function App() {
         return;
       }
 
+      showImportFailures(result.entries);
       setCurrentView('library');
       await loadBooks();
       setLibraryRefreshKey((value) => value + 1);
@@ -237,36 +314,22 @@ export default function App() {
     }
   };
 
-  const onOpenBook = async (
-    book: Book,
-    options: {
-      initialPage?: number | null;
-      initialCfi?: string | null;
-    } = {}
-  ) => {
-    setReaderInitialPage(options.initialPage ?? null);
-    setReaderInitialCfi(options.initialCfi ?? null);
-
-    if (book.format === 'epub' || book.format === 'fb2' || book.format === 'txt') {
-      setActiveBook(book);
-      setActivePdfData(null);
-      setError(null);
-      setCurrentView('library');
-      return;
-    }
-
+  const onImportFiles = async (files: File[], collectionId: string | null = null) => {
     setLoading(true);
     setError(null);
     try {
       const api = getRendererApi();
-      const result = handleResult(await api.books.getPdfData({ bookId: book.id }));
+      const result = handleResult(await api.books.importFiles({ files, collectionId }));
       if (!result.ok) {
         return;
       }
 
-      setActiveBook(book);
-      setActivePdfData({ base64: result.base64, title: result.title });
-      setCurrentView('library');
+      showImportFailures(result.entries);
+      await loadBooks();
+      setLibraryRefreshKey((value) => value + 1);
+      if (collectionId) {
+        setActiveCollectionId(collectionId);
+      }
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       setError(message);
@@ -275,11 +338,76 @@ export default function App() {
     }
   };
 
+  const fileDragActive = useFileDrop((files) => void onImportFiles(files));
+
+  // Books passed to the app from the OS ("Open with", a second launch) open straight in their reader.
+  const openRequestedBook = React.useCallback(async () => {
+    const api = getRendererApi();
+    const request = await api.books.takeOpenRequest();
+    if (!request.ok) {
+      setError(request.error);
+      return;
+    }
+    if (!request.bookId) {
+      return;
+    }
+
+    const result = handleResult(await api.books.list());
+    if (!result.ok) {
+      return;
+    }
+    setBooks(result.books);
+    const book = result.books.find((item) => item.id === request.bookId);
+    if (!book) {
+      setError(t.app.openedBookNotFound);
+      return;
+    }
+
+    setReaderInitialPage(null);
+    setReaderInitialCfi(null);
+    setFinishPromptBookId(null);
+    setActiveBook(book);
+    setError(null);
+    setCurrentView('library');
+  }, [handleResult, t]);
+
+  React.useEffect(() => {
+    void openRequestedBook().catch(() => undefined);
+    return getRendererApi().books.onOpenRequested(() => {
+      void openRequestedBook().catch(() => undefined);
+    });
+  }, [openRequestedBook]);
+
+  const onOpenBook = async (
+    book: Book,
+    options: {
+      initialPage?: number | null;
+      initialCfi?: string | null;
+    } = {}
+  ) => {
+    setReaderInitialPage(options.initialPage ?? null);
+    setReaderInitialCfi(options.initialCfi ?? null);
+    setActiveBook(book);
+    setError(null);
+    setCurrentView('library');
+  };
+
   const onBackToLibrary = () => {
     resetReaderState();
     setCurrentView('library');
+    // Opening a book can promote it to "reading", so pick up the new status.
+    void loadBooks().catch(() => undefined);
   };
 
+  const activeBookId = activeBook?.id ?? null;
+  const activeBookFinished = activeBook?.status === 'finished';
+  const onReachedEnd = React.useCallback(() => {
+    if (!activeBookId || activeBookFinished || finishPromptHandledRef.current.has(activeBookId)) {
+      return;
+    }
+    setFinishPromptBookId(activeBookId);
+  }, [activeBookFinished, activeBookId]);
+
   const onOpenNote = async (note: Note) => {
     const book = books.find((item) => item.id === note.bookId && item.format === 'pdf');
     if (!book) {
@@ -291,6 +419,43 @@ export default function App() {
     await onOpenBook(book, { initialPage: note.page });
   };
 
+  const onOpenAnnotationHit = async (hit: AnnotationSearchHit) => {
+    if (hit.kind === 'ai_summary') {
+      setCurrentView('insights');
+      return;
+    }
+
+    const book = books.find((item) => item.id === hit.bookId);
+    if (!book) {
+      setError(t.app.annotationBookNotFound);
+      return;
+    }
+
+    setCurrentView('library');
+    if (book.format === 'pdf' || book.format === 'cbz') {
+      await onOpenBook(book, { initialPage: hit.page ?? 1 });
+      return;
+    }
+
+    await onOpenBook(book, { initialCfi: hit.cfiRange ?? null });
+  };
+
+  const onOpenSearchHit = async (result: LibrarySearchBookResult, hit: LibrarySearchHit) => {
+    const book = books.find((item) => item.id === result.bookId);
+    if (!book) {
+      setError(t.app.annotationBookNotFound);
+      return;
+    }
+
+    setCurrentView('library');
+    if (hit.page) {
+      await onOpenBook(book, { initialPage: hit.page });
+      return;
+    }
+
+    await onOpenBook(book, { initialCfi: hit.cfi });
+  };
+
   const onOpenInsightItem = async (item: InsightItem) => {
     if (item.type === 'ai_summary' || !item.bookId) {
       return;
@@ -303,7 +468,7 @@ export default function App() {
     }
 
     setCurrentView('library');
-    if (book.format === 'pdf') {
+    if (book.format === 'pdf' || book.format === 'cbz') {
       await onOpenBook(book, { initialPage: item.page ?? 1 });
       return;
     }
@@ -345,6 +510,85 @@ export default function App() {
     }
   };
 
+  const onLibraryOrganized = async () => {
+    try {
+      await loadBooks();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setError(message);
+    }
+  };
+
+  const onCreateCollection = async (name: string) => {
+    try {
+      const api = getRendererApi();
+      const result = handleResult(await api.collections.create({ name }));
+      if (!result.ok) {
+        return false;
+      }
+
+      await loadCollections();
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setError(message);
+      return false;
+    }
+  };
+
+  const onSetBookStatus = async (book: Book, status: ReadingStatus) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const api = getRendererApi();
+      const result = handleResult(await api.books.setStatus({ bookId: book.id, status }));
+      if (!result.ok) {
+        return;
+      }
+
+      await loadBooks();
+      setGoalsRefreshKey((value) => value + 1);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setError(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onDismissFinishPrompt = () => {
+    if (finishPromptBookId) {
+      finishPromptHandledRef.current.add(finishPromptBookId);
+    }
+    setFinishPromptBookId(null);
+  };
+
+  const onConfirmFinishPrompt = async () => {
+    if (!finishPromptBookId) {
+      return;
+    }
+
+    setFinishPromptSaving(true);
+    try {
+      const api = getRendererApi();
+      const result = handleResult(await api.books.setStatus({ bookId: finishPromptBookId, status: 'finished' }));
+      if (!result.ok) {
+        return;
+      }
+
+      finishPromptHandledRef.current.add(finishPromptBookId);
+      setFinishPromptBookId(null);
+      setActiveBook((current) => (current?.id === result.book.id ? { ...current, ...result.book } : current));
+      await loadBooks();
+      setGoalsRefreshKey((value) => value + 1);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setError(message);
+    } finally {
+      setFinishPromptSaving(false);
+    }
+  };
+
   if (booting) {
     return (
       <main
@@ -361,25 +605,14 @@ export default function App() {
     );
   }
 
-  const isPdfReaderView = currentView === 'library' && activeBook?.format === 'pdf' && Boolean(activePdfData);
+  const isPdfReaderView = currentView === 'library' && (activeBook?.format === 'pdf' || activeBook?.format === 'cbz');
 
   const renderView = () => {
     if (currentView === 'library') {
       if (activeBook && activeBook.format === 'pdf') {
-        if (!activePdfData) {
-          return (
-            <PlaceholderScreen
-              title={t.app.pdfReader}
-              description={t.app.loadingPdf}
-              actionLabel={t.app.backToLibrary}
-              onAction={onBackToLibrary}
-            />
-          );
-        }
-
         return (
           <ReaderRuntimeBoundary
-            key={`pdf:${activeBook.id}:${activePdfData.title}`}
+            key={`pdf:${activeBook.id}`}
             onBack={onBackToLibrary}
             title={t.app.readerCrashedTitle}
             backLabel={t.app.backToLibrary}
@@ -387,13 +620,13 @@ export default function App() {
           >
             <React.Suspense fallback={<LazyScreenFallback label={t.app.loadingPdf} />}>
               <PdfReaderScreen
-                title={activePdfData.title || activeBook.title}
-                base64={activePdfData.base64}
+                title={activeBook.title}
                 bookId={activeBook.id}
                 initialPage={readerInitialPage}
                 onInitialPageApplied={() => setReaderInitialPage(null)}
                 loading={loading}
                 onBack={onBackToLibrary}
+                onReachedEnd={onReachedEnd}
               />
             </React.Suspense>
           </ReaderRuntimeBoundary>
@@ -417,6 +650,7 @@ export default function App() {
                 onInitialCfiApplied={() => setReaderInitialCfi(null)}
                 loading={loading}
                 onBack={onBackToLibrary}
+                onReachedEnd={onReachedEnd}
               />
             </React.Suspense>
           </ReaderRuntimeBoundary>
@@ -440,6 +674,7 @@ export default function App() {
                 onInitialCfiApplied={() => setReaderInitialCfi(null)}
                 loading={loading}
                 onBack={onBackToLibrary}
+                onReachedEnd={onReachedEnd}
               />
             </React.Suspense>
           </ReaderRuntimeBoundary>
@@ -463,6 +698,56 @@ export default function App() {
                 onInitialCfiApplied={() => setReaderInitialCfi(null)}
                 loading={loading}
                 onBack={onBackToLibrary}
+                onReachedEnd={onReachedEnd}
+              />
+            </React.Suspense>
+          </ReaderRuntimeBoundary>
+        );
+      }
+
+      if (activeBook && activeBook.format === 'cbz') {
+        return (
+          <ReaderRuntimeBoundary
+            key={`cbz:${activeBook.id}`}
+            onBack={onBackToLibrary}
+            title={t.app.readerCrashedTitle}
+            backLabel={t.app.backToLibrary}
+            fallbackMessage={t.app.unknownReaderError}
+          >
+            <React.Suspense fallback={<LazyScreenFallback label={t.app.loadingLibrary} />}>
+              <ComicReaderScreen
+                title={activeBook.title}
+                bookId={activeBook.id}
+                initialPage={readerInitialPage}
+                onInitialPageApplied={() => setReaderInitialPage(null)}
+                loading={loading}
+                onBack={onBackToLibrary}
+                onReachedEnd={onReachedEnd}
+              />
+            </React.Suspense>
+          </ReaderRuntimeBoundary>
+        );
+      }
+
+      if (activeBook && isDocumentBookFormat(activeBook.format)) {
+        return (
+          <ReaderRuntimeBoundary
+            key={`${activeBook.format}:${activeBook.id}`}
+            onBack={onBackToLibrary}
+            title={t.app.readerCrashedTitle}
+            backLabel={t.app.backToLibrary}
+            fallbackMessage={t.app.unknownReaderError}
+          >
+            <React.Suspense fallback={<LazyScreenFallback label={t.app.loadingLibrary} />}>
+              <DocumentReaderScreen
+                title={activeBook.title}
+                bookId={activeBook.id}
+                format={activeBook.format}
+                initialCfi={readerInitialCfi}
+                onInitialCfiApplied={() => setReaderInitialCfi(null)}
+                loading={loading}
+                onBack={onBackToLibrary}
+                onReachedEnd={onReachedEnd}
               />
             </React.Suspense>
           </ReaderRuntimeBoundary>
@@ -481,6 +766,12 @@ export default function App() {
           onOpen={onOpenBook}
           onReveal={onRevealBook}
           onDelete={onDeleteBook}
+          onStatusChange={(book, status) => void onSetBookStatus(book, status)}
+          collections={collections}
+          activeCollectionId={activeCollectionId}
+          onActiveCollectionChange={setActiveCollectionId}
+          onLibraryOrganized={onLibraryOrganized}
+          onGoalsChanged={() => setGoalsRefreshKey((value) => value + 1)}
           onImport={onImportBook}
           onAddSample={onAddSampleBook}
           onReload={onReloadBooks}
@@ -500,7 +791,23 @@ export default function App() {
     }
 
     if (currentView === 'notes') {
-      return <NotesScreen books={books} onOpenNote={(note) => void onOpenNote(note)} />;
+      return (
+        <NotesScreen
+          books={books}
+          onOpenNote={(note) => void onOpenNote(note)}
+          onOpenSearchHit={(hit) => void onOpenAnnotationHit(hit)}
+        />
+      );
+    }
+
+    if (currentView === 'search') {
+      return (
+        <SectionBoundary area="Search">
+          <React.Suspense fallback={<LazyScreenFallback label={t.app.loadingLibrary} />}>
+            <SearchScreen onOpenHit={(result, hit) => void onOpenSearchHit(result, hit)} />
+          </React.Suspense>
+        </SectionBoundary>
+      );
     }
 
     if (currentView === 'insights') {
@@ -568,8 +875,43 @@ export default function App() {
         }
       }}
       contentClassName={isPdfReaderView ? '' : 'p-4 sm:p-6'}
+      goalsRefreshKey={`${libraryRefreshKey}:${goalsRefreshKey}`}
+      collections={collections}
+      activeCollectionId={activeCollectionId}
+      onCollectionSelect={(collectionId) => {
+        setActiveCollectionId(collectionId);
+        setCurrentView('library');
+        resetReaderState();
+        setDiscoverInitialQuery(null);
+      }}
+      onCollectionCreate={onCreateCollection}
+      onCollectionFilesDrop={(files, collectionId) => void onImportFiles(files, collectionId)}
     >
       {renderView()}
+      {fileDragActive ? (
+        <div
+          className="pointer-events-none fixed inset-0 z-50 flex items-center justify-center p-6"
+          style={{ backgroundColor: 'rgba(15, 23, 42, 0.35)' }}
+        >
+          <div
+            className="max-w-md rounded-3xl border-2 border-dashed px-8 py-6 text-center shadow-xl"
+            style={{ backgroundColor: palette.panelBg, borderColor: palette.accentBorder, color: palette.chromeText }}
+          >
+            <p className="text-base font-semibold">{t.app.dropFilesTitle}</p>
+            <p className="mt-1 text-sm" style={{ color: palette.mutedText }}>
+              {t.app.dropFilesDescription}
+            </p>
+          </div>
+        </div>
+      ) : null}
+      {finishPromptBookId && activeBook?.id === finishPromptBookId ? (
+        <FinishBookPrompt
+          title={activeBook.title}
+          saving={finishPromptSaving}
+          onConfirm={() => void onConfirmFinishPrompt()}
+          onDismiss={onDismissFinishPrompt}
+        />
+      ) : null}
     </AppShell>
   );
 }
@@ -0,0 +1,353 @@
+import * as React from 'react';
+import { LoaderCircle } from 'lucide-react';
+import type {
+  AnnotationImportEntry,
+  AnnotationImportGroup,
+  AnnotationImportSource,
+  AnnotationImportStatus,
+  Book
+} from '../../shared/ipc';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { HIGHLIGHT_COLOR_SWATCHES } from '@/lib/highlight-colors';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+type Props = {
+  open: boolean;
+  books: Book[];
+  onClose: () => void;
+  onImported: () => void;
+};
+
+const SELECTABLE_STATUSES: AnnotationImportStatus[] = ['ready', 'duplicate'];
+
+function readyEntryIds(entries: AnnotationImportEntry[]): string[] {
+  return entries.filter((entry) => entry.status === 'ready').map((entry) => entry.id);
+}
+
+function getStatusClassName(status: AnnotationImportStatus): string {
+  if (status === 'ready') {
+    return 'border-emerald-200 bg-emerald-50 text-emerald-800';
+  }
+  if (status === 'duplicate') {
+    return 'border-amber-200 bg-amber-50 text-amber-800';
+  }
+  return 'border-rose-200 bg-rose-50 text-rose-700';
+}
+
+export function AnnotationImportDialog({ open, books, onClose, onImported }: Props) {
+  const { t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const [loading, setLoading] = React.useState(false);
+  const [groups, setGroups] = React.useState<AnnotationImportGroup[]>([]);
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(() => new Set());
+  const [locatingGroupId, setLocatingGroupId] = React.useState<string | null>(null);
+  const [importing, setImporting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  const sourceLabels: Record<AnnotationImportSource, string> = {
+    kindle: t.annotationImport.sourceKindle,
+    koreader: t.annotationImport.sourceKoreader,
+    calibre: t.annotationImport.sourceCalibre
+  };
+  const statusLabels: Record<AnnotationImportStatus, string> = {
+    ready: t.annotationImport.statusReady,
+    duplicate: t.annotationImport.statusDuplicate,
+    unlocated: t.annotationImport.statusUnlocated,
+    unmatched: t.annotationImport.statusUnmatched
+  };
+
+  React.useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setGroups([]);
+    setSelectedIds(new Set());
+    setError(null);
+    setMessage(null);
+    void (async () => {
+      try {
+        const result = await getRendererApi().annotationsImport.preview();
+        if (cancelled) {
+          return;
+        }
+        if (!result.ok) {
+          if (result.error === 'Import canceled.') {
+            onClose();
+          } else {
+            setError(result.error);
+          }
+          return;
+        }
+        setGroups(result.groups);
+        setSelectedIds(new Set(result.groups.flatMap((group) => readyEntryIds(group.entries))));
+      } catch (previewError) {
+        if (!cancelled) {
+          setError(previewError instanceof Error ? previewError.message : String(previewError));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, onClose]);
+
+  const replaceGroupEntries = (group: AnnotationImportGroup, bookId: string | null, entries: AnnotationImportEntry[]) => {
+    setGroups((current) => current.map((item) => (item.id === group.id ? { ...item, bookId, entries } : item)));
+    setSelectedIds((current) => {
+      const next = new Set([...current].filter((id) => !group.entries.some((entry) => entry.id === id)));
+      readyEntryIds(entries).forEach((id) => next.add(id));
+      return next;
+    });
+  };
+
+  const handleBookChange = async (group: AnnotationImportGroup, bookId: string) => {
+    setError(null);
+    if (!bookId) {
+      replaceGroupEntries(
+        group,
+        null,
+        group.entries.map((entry) => ({ ...entry, page: null, rects: [], cfiRange: null, status: 'unmatched' }))
+      );
+      return;
+    }
+
+    setLocatingGroupId(group.id);
+    try {
+      const result = await getRendererApi().annotationsImport.locate({ bookId, entries: group.entries });
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      replaceGroupEntries(group, bookId, result.entries);
+    } catch (locateError) {
+      setError(locateError instanceof Error ? locateError.message : String(locateError));
+    } finally {
+      setLocatingGroupId(null);
+    }
+  };
+
+  const toggleEntry = (entryId: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    setMessage(null);
+    const api = getRendererApi();
+    let imported = 0;
+    let failed = 0;
+    const importedIds = new Set<string>();
+
+    for (const group of groups) {
+      if (!group.bookId) {
+        continue;
+      }
+      for (const entry of group.entries) {
+        if (!selectedIds.has(entry.id) || !SELECTABLE_STATUSES.includes(entry.status)) {
+          continue;
+        }
+        try {
+          const result =
+            entry.kind === 'note'
+              ? await api.notes.create({
+                  bookId: group.bookId,
+                  page: entry.page ?? 1,
+                  content: entry.note ?? '',
+                  createdAt: entry.createdAt
+                })
+              : await api.highlights.insertRaw({
+                  bookId: group.bookId,
+                  page: entry.page,
+                  rects: entry.rects,
+                  cfiRange: entry.cfiRange,
+                  text: entry.text,
+                  note: entry.note,
+                  color: entry.color,
+                  createdAt: entry.createdAt
+                });
+          if (result.ok) {
+            imported += 1;
+            importedIds.add(entry.id);
+          } else {
+            failed += 1;
+          }
+        } catch {
+          failed += 1;
+        }
+      }
+    }
+
+    // Imported entries now exist in the library, so a second click must not insert them again.
+    setGroups((current) =>
+      current.map((group) => ({
+        ...group,
+        entries: group.entries.map((entry) => (importedIds.has(entry.id) ? { ...entry, status: 'duplicate' } : entry))
+      }))
+    );
+    setSelectedIds(new Set());
+    setImporting(false);
+    setMessage(`${t.annotationImport.imported}: ${imported}`);
+    if (failed > 0) {
+      setError(`${t.annotationImport.failed}: ${failed}`);
+    }
+    if (imported > 0) {
+      onImported();
+    }
+  };
+
+  const selectedCount = groups
+    .flatMap((group) => (group.bookId ? group.entries : []))
+    .filter((entry) => selectedIds.has(entry.id) && SELECTABLE_STATUSES.includes(entry.status)).length;
+  const busy = loading || importing || locatingGroupId !== null;
+
+  return (
+    <AlertDialog open={open} onOpenChange={(nextOpen) => (nextOpen || busy ? undefined : onClose())}>
+      <AlertDialogContent className="max-w-4xl" style={{ backgroundColor: palette.panelBg, borderColor: palette.chromeBorder, color: palette.chromeText }}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t.annotationImport.title}</AlertDialogTitle>
+          <p className="text-sm" style={{ color: palette.mutedText }}>{t.annotationImport.subtitle}</p>
+        </AlertDialogHeader>
+
+        {loading ? (
+          <p className="flex items-center gap-2 text-sm" style={{ color: palette.mutedText }}>
+            <LoaderCircle className="h-4 w-4 animate-spin" />
+            {t.annotationImport.loading}
+          </p>
+        ) : null}
+
+        {groups.length > 0 ? (
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto pr-1">
+            {groups.map((group) => (
+              <section key={group.id} className="space-y-3 rounded-2xl border p-4" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <p className="truncate text-sm font-semibold">{group.title}</p>
+                    <p className="text-xs" style={{ color: palette.mutedText }}>
+                      {[group.author, sourceLabels[group.source], group.fileName].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs" style={{ color: palette.mutedText }}>
+                    {t.annotationImport.book}
+                    <select
+                      value={group.bookId ?? ''}
+                      onChange={(event) => void handleBookChange(group, event.target.value)}
+                      disabled={busy}
+                      className="h-9 max-w-64 rounded-lg border px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}
+                    >
+                      <option value="">{t.annotationImport.notInLibrary}</option>
+                      {books.map((book) => (
+                        <option key={book.id} value={book.id}>
+                          {book.title}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                {locatingGroupId === group.id ? (
+                  <p className="flex items-center gap-2 text-xs" style={{ color: palette.mutedText }}>
+                    <LoaderCircle className="h-3.5 w-3.5 animate-spin" />
+                    {t.annotationImport.locating}
+                  </p>
+                ) : null}
+
+                <ul className="space-y-2">
+                  {group.entries.map((entry) => {
+                    const selectable = Boolean(group.bookId) && SELECTABLE_STATUSES.includes(entry.status);
+                    return (
+                      <li key={entry.id}>
+                        <label className="flex gap-3 rounded-xl border px-3 py-2" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelBg }}>
+                          <input
+                            type="checkbox"
+                            className="mt-1"
+                            checked={selectable && selectedIds.has(entry.id)}
+                            disabled={!selectable || busy}
+                            onChange={() => toggleEntry(entry.id)}
+                          />
+                          <span className="min-w-0 flex-1 space-y-1">
+                            <span className="flex flex-wrap items-center gap-2 text-[11px]">
+                              <span className={`rounded-full border px-2 py-0.5 font-semibold ${getStatusClassName(entry.status)}`}>
+                                {statusLabels[entry.status]}
+                              </span>
+                              {entry.kind === 'highlight' ? (
+                                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: HIGHLIGHT_COLOR_SWATCHES[entry.color].dot }} />
+                              ) : null}
+                              {entry.pageHint ? (
+                                <span style={{ color: palette.mutedText }}>
+                                  {t.annotationImport.page} {entry.pageHint}
+                                </span>
+                              ) : null}
+                            </span>
+                            {entry.text ? <span className="line-clamp-3 block text-sm">{entry.text}</span> : null}
+                            {entry.note ? (
+                              <span className="block text-xs" style={{ color: palette.mutedText }}>
+                                {t.annotationImport.note}: {entry.note}
+                              </span>
+                            ) : null}
+                          </span>
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            ))}
+          </div>
+        ) : null}
+
+        {error ? <p className="text-sm text-destructive">{error}</p> : null}
+        {message ? <p className="text-sm" style={{ color: palette.accentText }}>{message}</p> : null}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs" style={{ color: palette.mutedText }}>
+            {groups.length > 0 ? `${t.annotationImport.selected}: ${selectedCount}` : ''}
+          </p>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={busy}>
+              {t.annotationImport.close}
+            </Button>
+            <Button type="button" onClick={() => void handleImport()} disabled={busy || selectedCount === 0}>
+              {importing ? t.annotationImport.importing : t.annotationImport.import}
+            </Button>
+          </div>
+        </div>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
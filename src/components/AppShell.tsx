@@ -6,15 +6,33 @@ import { useLanguage } from '@/contexts/LanguageContext';
 import { useNetworkStatus } from '@/contexts/NetworkStatusContext';
 import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
 import { getReaderThemePalette, getReaderThemeStyles } from '@/lib/reader-theme';
+import type { BookCollection } from '../../shared/ipc';
 
 type Props = {
   currentView: AppView;
   onViewChange: (view: AppView) => void;
   children: ReactNode;
   contentClassName?: string;
+  goalsRefreshKey?: string | number;
+  collections?: BookCollection[];
+  activeCollectionId?: string | null;
+  onCollectionSelect?: (collectionId: string | null) => void;
+  onCollectionCreate?: (name: string) => Promise<boolean>;
+  onCollectionFilesDrop?: (files: File[], collectionId: string) => void;
 };
 
-export function AppShell({ currentView, onViewChange, children, contentClassName }: Props) {
+export function AppShell({
+  currentView,
+  onViewChange,
+  children,
+  contentClassName,
+  goalsRefreshKey,
+  collections,
+  activeCollectionId,
+  onCollectionSelect,
+  onCollectionCreate,
+  onCollectionFilesDrop
+}: Props) {
   const { language } = useLanguage();
   const { isOnline } = useNetworkStatus();
   const { settings } = useReaderSettings();
@@ -39,7 +57,16 @@ export function AppShell({ currentView, onViewChange, children, contentClassName
         color: palette.appForeground
       }}
     >
-      <Sidebar currentView={currentView} onViewChange={onViewChange} />
+      <Sidebar
+        currentView={currentView}
+        onViewChange={onViewChange}
+        goalsRefreshKey={goalsRefreshKey}
+        collections={collections}
+        activeCollectionId={activeCollectionId}
+        onCollectionSelect={onCollectionSelect}
+        onCollectionCreate={onCollectionCreate}
+        onCollectionFilesDrop={onCollectionFilesDrop}
+      />
       <main
         className={['flex min-h-0 min-w-0 flex-1 flex-col overflow-hidden', contentClassName ?? 'p-4 sm:p-6'].join(' ')}
         style={{
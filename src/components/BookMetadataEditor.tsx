@@ -0,0 +1,342 @@
+import * as React from 'react';
+import { Lock, Search, X } from 'lucide-react';
+import type { Book, BookMetadataInput, BookMetadataMatch } from '../../shared/ipc';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+import { formatSeriesIndex } from '../../shared/series';
+
+type Props = {
+  book: Book;
+  onSaved: (book: Book) => Promise<void> | void;
+  onCancel: () => void;
+};
+
+type Draft = {
+  title: string;
+  subtitle: string;
+  authors: string;
+  series: string;
+  seriesIndex: string;
+  year: string;
+  language: string;
+  description: string;
+  subjects: string;
+  locked: boolean;
+};
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+function toDraft(book: Book): Draft {
+  const authors = book.authors && book.authors.length > 0 ? book.authors : book.author ? [book.author] : [];
+  return {
+    title: book.title,
+    subtitle: book.subtitle ?? '',
+    authors: authors.join('\n'),
+    series: book.series ?? '',
+    seriesIndex: formatSeriesIndex(book.seriesIndex) ?? '',
+    year: book.publishYear ? String(book.publishYear) : '',
+    language: book.language ?? '',
+    description: book.description ?? '',
+    subjects: (book.subjects ?? []).join(', '),
+    locked: book.metadataLocked ?? false
+  };
+}
+
+function toMetadataInput(draft: Draft): BookMetadataInput {
+  const year = Number.parseInt(draft.year.trim(), 10);
+  const seriesIndex = Number.parseFloat(draft.seriesIndex.trim().replace(',', '.'));
+  return {
+    title: draft.title,
+    subtitle: draft.subtitle.trim() || null,
+    authors: draft.authors.split('\n').map((author) => author.trim()).filter(Boolean),
+    series: draft.series.trim() || null,
+    seriesIndex: Number.isFinite(seriesIndex) ? seriesIndex : null,
+    publishYear: Number.isFinite(year) ? year : null,
+    language: draft.language.trim() || null,
+    description: draft.description.trim() || null,
+    subjects: draft.subjects.split(',').map((subject) => subject.trim()).filter(Boolean)
+  };
+}
+
+export function BookMetadataEditor({ book, onSaved, onCancel }: Props) {
+  const { t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const [draft, setDraft] = React.useState<Draft>(() => toDraft(book));
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [matchesOpen, setMatchesOpen] = React.useState(false);
+  const [matchesLoading, setMatchesLoading] = React.useState(false);
+  const [matches, setMatches] = React.useState<BookMetadataMatch[]>([]);
+  const controlStyle = {
+    borderColor: palette.buttonBorder,
+    backgroundColor: palette.inputBg,
+    color: palette.inputText
+  };
+
+  const update = <K extends keyof Draft>(key: K, value: Draft[K]) => {
+    setDraft((current) => ({ ...current, [key]: value }));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await getRendererApi().books.updateMetadata({
+        bookId: book.id,
+        metadata: toMetadataInput(draft),
+        locked: draft.locked
+      });
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      await onSaved(result.book);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const searchMatches = async () => {
+    setMatchesOpen(true);
+    setMatchesLoading(true);
+    setError(null);
+    try {
+      const firstAuthor = draft.authors.split('\n').map((author) => author.trim()).find(Boolean) ?? null;
+      const result = await getRendererApi().books.searchMetadataMatches({
+        bookId: book.id,
+        title: draft.title,
+        author: firstAuthor
+      });
+      if (!result.ok) {
+        setError(result.error);
+        setMatches([]);
+        return;
+      }
+      setMatches(result.matches);
+    } catch (searchError) {
+      setError(searchError instanceof Error ? searchError.message : String(searchError));
+    } finally {
+      setMatchesLoading(false);
+    }
+  };
+
+  const applyMatch = async (match: BookMetadataMatch) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await getRendererApi().books.applyMetadataMatch({ bookId: book.id, match });
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      await onSaved(result.book);
+    } catch (applyError) {
+      setError(applyError instanceof Error ? applyError.message : String(applyError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const field = (label: string, input: React.ReactNode, hint?: string) => (
+    <label className="block space-y-1.5">
+      <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{label}</span>
+      {input}
+      {hint ? <span className="block text-xs text-muted-foreground">{hint}</span> : null}
+    </label>
+  );
+
+  return (
+    <div className="space-y-5">
+      <form
+        className="space-y-4"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (draft.title.trim()) {
+            void save();
+          }
+        }}
+      >
+        <div className="grid gap-4 md:grid-cols-2">
+          {field(
+            t.bookMetadata.title,
+            <Input value={draft.title} onChange={(event) => update('title', event.target.value)} maxLength={300} disabled={saving} />
+          )}
+          {field(
+            t.bookMetadata.subtitle,
+            <Input value={draft.subtitle} onChange={(event) => update('subtitle', event.target.value)} maxLength={200} disabled={saving} />
+          )}
+          {field(
+            t.bookMetadata.authors,
+            <textarea
+              value={draft.authors}
+              onChange={(event) => update('authors', event.target.value)}
+              rows={3}
+              disabled={saving}
+              className="w-full resize-none rounded-md border px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              style={controlStyle}
+            />,
+            t.bookMetadata.authorsHint
+          )}
+          <div className="grid gap-4 sm:grid-cols-2">
+            {field(
+              t.bookMetadata.series,
+              <Input value={draft.series} onChange={(event) => update('series', event.target.value)} maxLength={200} disabled={saving} />
+            )}
+            {field(
+              t.bookMetadata.seriesIndex,
+              <Input
+                value={draft.seriesIndex}
+                onChange={(event) => update('seriesIndex', event.target.value.replace(/[^\d.,]/g, '').slice(0, 8))}
+                inputMode="decimal"
+                placeholder="1, 2, 2.5..."
+                disabled={saving || !draft.series.trim()}
+              />
+            )}
+            {field(
+              t.bookMetadata.year,
+              <Input
+                value={draft.year}
+                onChange={(event) => update('year', event.target.value.replace(/[^\d]/g, '').slice(0, 4))}
+                inputMode="numeric"
+                disabled={saving}
+              />
+            )}
+            {field(
+              t.bookMetadata.language,
+              <Input
+                value={draft.language}
+                onChange={(event) => update('language', event.target.value)}
+                maxLength={35}
+                placeholder="en, ru..."
+                disabled={saving}
+              />
+            )}
+          </div>
+        </div>
+
+        {field(
+          t.bookMetadata.description,
+          <textarea
+            value={draft.description}
+            onChange={(event) => update('description', event.target.value)}
+            rows={5}
+            disabled={saving}
+            className="w-full resize-y rounded-md border px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            style={controlStyle}
+          />
+        )}
+
+        {field(
+          t.bookMetadata.subjects,
+          <Input value={draft.subjects} onChange={(event) => update('subjects', event.target.value)} disabled={saving} />,
+          t.bookMetadata.subjectsHint
+        )}
+
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="mt-0.5 h-4 w-4 rounded"
+            checked={draft.locked}
+            onChange={(event) => update('locked', event.target.checked)}
+            disabled={saving}
+            style={{ accentColor: palette.focusRing }}
+          />
+          <span>
+            <span className="flex items-center gap-1.5 font-medium">
+              <Lock className="h-3.5 w-3.5" />
+              {t.bookMetadata.locked}
+            </span>
+            <span className="block text-xs text-muted-foreground">{t.bookMetadata.lockedHint}</span>
+          </span>
+        </label>
+
+        {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+        <div className="flex flex-wrap justify-between gap-2">
+          <Button type="button" variant="outline" onClick={() => void searchMatches()} disabled={saving || matchesLoading || !draft.title.trim()}>
+            <Search className="h-4 w-4" />
+            {t.bookMetadata.chooseMatch}
+          </Button>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+              {t.bookMetadata.cancel}
+            </Button>
+            <Button type="submit" disabled={saving || !draft.title.trim()}>
+              {t.bookMetadata.save}
+            </Button>
+          </div>
+        </div>
+      </form>
+
+      {matchesOpen ? (
+        <section className="space-y-3 rounded-2xl border p-4" style={{ borderColor: palette.chromeBorder }}>
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <p className="text-sm font-semibold">{t.bookMetadata.matchesTitle}</p>
+              <p className="text-xs text-muted-foreground">{t.bookMetadata.matchesDescription}</p>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setMatchesOpen(false)}
+              aria-label={t.bookMetadata.hideMatches}
+              title={t.bookMetadata.hideMatches}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {matchesLoading ? (
+            <p className="text-sm text-muted-foreground">{t.bookMetadata.searching}</p>
+          ) : matches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t.bookMetadata.noMatches}</p>
+          ) : (
+            <ul className="space-y-2">
+              {matches.map((match) => (
+                <li
+                  key={`${match.workId ?? ''}:${match.editionId ?? ''}:${match.title}`}
+                  className="flex items-center gap-3 rounded-xl border px-3 py-2.5"
+                  style={{ borderColor: palette.chromeBorder }}
+                >
+                  <div className="h-16 w-11 shrink-0 overflow-hidden rounded-md border bg-muted/40" style={{ borderColor: palette.chromeBorder }}>
+                    {match.coverUrl ? <img src={match.coverUrl} alt="" className="h-full w-full object-cover" loading="lazy" /> : null}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">
+                      {match.title}
+                      {match.subtitle ? <span className="text-muted-foreground">: {match.subtitle}</span> : null}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {[match.author ?? t.bookMetadata.unknownAuthor, match.publishYear ? String(match.publishYear) : null]
+                        .filter(Boolean)
+                        .join(' • ')}
+                    </p>
+                    <p className="text-[11px] text-muted-foreground">
+                      {t.bookMetadata.score}: {match.score}
+                    </p>
+                  </div>
+                  <Button type="button" size="sm" variant="outline" onClick={() => void applyMatch(match)} disabled={saving}>
+                    {t.bookMetadata.useMatch}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      ) : null}
+    </div>
+  );
+}
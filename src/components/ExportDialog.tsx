@@ -6,17 +6,22 @@ import {
   AlertDialogTitle
 } from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
-
-export type ExportFormat = 'markdown' | 'json';
+import { ExportTemplateEditor } from '@/components/ExportTemplateEditor';
+import { EXPORT_FORMATS, type ExportFormat } from '../../shared/ipc';
+import { BOOK_EXPORTERS } from '../../shared/book-export';
 
 type Props = {
   open: boolean;
   loading: boolean;
+  bookCount?: number;
   format: ExportFormat;
   preview: string;
+  template?: string;
+  templateError?: string | null;
   error?: string | null;
   message?: string | null;
   onFormatChange: (format: ExportFormat) => void;
+  onTemplateChange?: (template: string) => void;
   onCopy: () => void;
   onSave: () => void;
   onClose: () => void;
@@ -25,11 +30,15 @@ type Props = {
 export function ExportDialog({
   open,
   loading,
+  bookCount = 1,
   format,
   preview,
+  template = '',
+  templateError,
   error,
   message,
   onFormatChange,
+  onTemplateChange,
   onCopy,
   onSave,
   onClose
@@ -38,7 +47,7 @@ export function ExportDialog({
     <AlertDialog open={open} onOpenChange={(nextOpen) => (nextOpen ? undefined : onClose())}>
       <AlertDialogContent>
         <AlertDialogHeader>
-          <AlertDialogTitle>Export Book Data</AlertDialogTitle>
+          <AlertDialogTitle>{bookCount > 1 ? `Export ${bookCount} Books` : 'Export Book Data'}</AlertDialogTitle>
         </AlertDialogHeader>
         <div className="space-y-3">
           <label className="block text-sm text-slate-700" htmlFor="export-format">
@@ -47,14 +56,29 @@ export function ExportDialog({
           <select
             id="export-format"
             value={format}
-            onChange={(event) => onFormatChange(event.target.value === 'json' ? 'json' : 'markdown')}
+            onChange={(event) => {
+              const nextFormat = EXPORT_FORMATS.find((item) => item === event.target.value);
+              if (nextFormat) {
+                onFormatChange(nextFormat);
+              }
+            }}
             className="h-9 w-full rounded-md border border-slate-300 bg-white px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
             disabled={loading}
           >
-            <option value="markdown">Markdown</option>
-            <option value="json">JSON</option>
+            {EXPORT_FORMATS.map((item) => (
+              <option key={item} value={item}>
+                {BOOK_EXPORTERS[item].label}
+              </option>
+            ))}
           </select>
+          {BOOK_EXPORTERS[format].target === 'folder' ? (
+            <p className="text-xs text-slate-600">Saves one note per book and an index note into the folder you choose.</p>
+          ) : null}
+          {format === 'template' && onTemplateChange ? (
+            <ExportTemplateEditor value={template} disabled={loading} onChange={onTemplateChange} />
+          ) : null}
           <p className="text-xs text-slate-600">Preview (first 40 lines)</p>
+          {templateError ? <p className="text-xs text-destructive">{templateError}</p> : null}
           <pre className="max-h-64 overflow-auto rounded-md border border-slate-200 bg-slate-50 p-2 text-xs text-slate-700 whitespace-pre-wrap">
             {preview || 'No data'}
           </pre>
@@ -65,10 +89,10 @@ export function ExportDialog({
           <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
             Close
           </Button>
-          <Button type="button" variant="outline" onClick={onCopy} disabled={loading}>
+          <Button type="button" variant="outline" onClick={onCopy} disabled={loading || !BOOK_EXPORTERS[format].copyable}>
             Copy
           </Button>
-          <Button type="button" onClick={onSave} disabled={loading}>
+          <Button type="button" onClick={onSave} disabled={loading || Boolean(templateError)}>
             Save
           </Button>
         </div>
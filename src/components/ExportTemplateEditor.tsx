@@ -0,0 +1,125 @@
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useExportTemplates } from '@/lib/useExportTemplates';
+import { DEFAULT_EXPORT_TEMPLATE, EXPORT_TEMPLATE_PLACEHOLDERS } from '../../shared/book-export';
+
+type Props = {
+  value: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+};
+
+export function ExportTemplateEditor({ value, disabled = false, onChange }: Props) {
+  const { t } = useLanguage();
+  const { templates, error, saveTemplate, deleteTemplate } = useExportTemplates();
+  const [selectedId, setSelectedId] = React.useState('');
+  const [name, setName] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [message, setMessage] = React.useState<string | null>(null);
+  const selectedTemplate = templates.find((template) => template.id === selectedId) ?? null;
+  const dirty = value !== (selectedTemplate?.body ?? DEFAULT_EXPORT_TEMPLATE);
+
+  const selectTemplate = (id: string) => {
+    const template = templates.find((item) => item.id === id) ?? null;
+    setSelectedId(template?.id ?? '');
+    setName(template?.name ?? '');
+    setMessage(null);
+    onChange(template?.body ?? DEFAULT_EXPORT_TEMPLATE);
+  };
+
+  const handleSave = async (asNew: boolean) => {
+    setSaving(true);
+    setMessage(null);
+    const saved = await saveTemplate({ id: asNew ? null : selectedId || null, name, body: value });
+    setSaving(false);
+    if (saved) {
+      setSelectedId(saved.id);
+      setName(saved.name);
+      setMessage(t.exportTemplates.saved);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedTemplate) {
+      return;
+    }
+    setSaving(true);
+    const deleted = await deleteTemplate(selectedTemplate.id);
+    setSaving(false);
+    if (deleted) {
+      selectTemplate('');
+      setMessage(t.exportTemplates.deleted);
+    }
+  };
+
+  const busy = disabled || saving;
+
+  return (
+    <div className="space-y-2 rounded-md border border-slate-200 p-2">
+      <div className="flex gap-2">
+        <select
+          aria-label={t.exportTemplates.savedTemplate}
+          value={selectedId}
+          onChange={(event) => selectTemplate(event.target.value)}
+          className="h-9 min-w-0 flex-1 rounded-md border border-slate-300 bg-white px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          disabled={busy}
+        >
+          <option value="">{t.exportTemplates.defaultTemplate}</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+        <input
+          aria-label={t.exportTemplates.templateName}
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={t.exportTemplates.templateName}
+          maxLength={80}
+          className="h-9 min-w-0 flex-1 rounded-md border border-slate-300 bg-white px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          disabled={busy}
+        />
+      </div>
+      <textarea
+        aria-label={t.exportTemplates.template}
+        value={value}
+        onChange={(event) => {
+          setMessage(null);
+          onChange(event.target.value);
+        }}
+        rows={8}
+        spellCheck={false}
+        className="w-full rounded-md border border-slate-300 bg-white p-2 font-mono text-xs outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        disabled={busy}
+      />
+      <p className="text-xs text-slate-600">
+        {t.exportTemplates.placeholders}: {EXPORT_TEMPLATE_PLACEHOLDERS.join(', ')}. {t.exportTemplates.placeholdersHint}
+      </p>
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+      {message ? <p className="text-xs text-emerald-700">{message}</p> : null}
+      <div className="flex flex-wrap justify-end gap-2">
+        {selectedTemplate ? (
+          <Button type="button" variant="outline" size="sm" onClick={() => void handleDelete()} disabled={busy}>
+            {t.exportTemplates.delete}
+          </Button>
+        ) : null}
+        {selectedTemplate ? (
+          <Button type="button" variant="outline" size="sm" onClick={() => void handleSave(true)} disabled={busy || !name.trim()}>
+            {t.exportTemplates.saveAsNew}
+          </Button>
+        ) : null}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => void handleSave(false)}
+          disabled={busy || !name.trim() || (!dirty && selectedTemplate?.name === name.trim())}
+        >
+          {selectedTemplate ? t.exportTemplates.update : t.exportTemplates.save}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import * as React from 'react';
+import { Archive, LoaderCircle, RotateCcw } from 'lucide-react';
+import type { BackupManifest, BackupRestoreMode } from '../../shared/ipc';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+type PendingRestore = {
+  archivePath: string;
+  manifest: BackupManifest;
+};
+
+export function LibraryBackupPanel() {
+  const { language, t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const [busyLabel, setBusyLabel] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+  const [pending, setPending] = React.useState<PendingRestore | null>(null);
+  const [confirmReplaceOpen, setConfirmReplaceOpen] = React.useState(false);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusyLabel(label);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+    } finally {
+      setBusyLabel(null);
+    }
+  };
+
+  const handleCreate = () =>
+    run(t.backup.creating, async () => {
+      const result = await getRendererApi().backup.create();
+      if (result.ok) {
+        setMessage(`${t.backup.saved}: ${result.path}`);
+      } else if (!('cancelled' in result)) {
+        setError(result.error);
+      }
+    });
+
+  const handleInspect = () =>
+    run(t.backup.reading, async () => {
+      setPending(null);
+      const result = await getRendererApi().backup.inspect();
+      if (result.ok) {
+        setPending({ archivePath: result.archivePath, manifest: result.manifest });
+      } else if (!('cancelled' in result)) {
+        setError(result.error);
+      }
+    });
+
+  const handleRestore = (mode: BackupRestoreMode) =>
+    run(t.backup.restoring, async () => {
+      if (!pending) {
+        return;
+      }
+      const result = await getRendererApi().backup.restore({ archivePath: pending.archivePath, mode });
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      // Every screen and context caches library data, so start over from the restored state.
+      window.location.reload();
+    });
+
+  const busy = busyLabel !== null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" onClick={() => void handleCreate()} disabled={busy}>
+          <Archive className="mr-2 h-4 w-4" />
+          {t.backup.create}
+        </Button>
+        <Button type="button" variant="outline" onClick={() => void handleInspect()} disabled={busy}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          {t.backup.restore}
+        </Button>
+      </div>
+
+      {busyLabel ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <LoaderCircle className="h-4 w-4 animate-spin" />
+          {busyLabel}
+        </p>
+      ) : null}
+
+      {pending ? (
+        <div className="space-y-3 rounded-xl border px-4 py-3" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
+          <p className="text-sm font-medium">
+            {t.backup.archiveInfo} {new Date(pending.manifest.createdAt).toLocaleString(language === 'ru' ? 'ru-RU' : 'en-US')} ·{' '}
+            {pending.manifest.bookCount} {t.backup.books}
+          </p>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Button type="button" variant="outline" className="w-full" onClick={() => void handleRestore('merge')} disabled={busy}>
+                {t.backup.merge}
+              </Button>
+              <p className="text-xs text-muted-foreground">{t.backup.mergeDescription}</p>
+            </div>
+            <div className="space-y-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full border-rose-200 text-rose-700 hover:bg-rose-50 hover:text-rose-800"
+                onClick={() => setConfirmReplaceOpen(true)}
+                disabled={busy}
+              >
+                {t.backup.replace}
+              </Button>
+              <p className="text-xs text-muted-foreground">{t.backup.replaceDescription}</p>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+      {message ? <p className="break-all text-sm" style={{ color: palette.accentText }}>{message}</p> : null}
+
+      <AlertDialog open={confirmReplaceOpen} onOpenChange={setConfirmReplaceOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.backup.replaceConfirmTitle}</AlertDialogTitle>
+            <AlertDialogDescription>{t.backup.replaceConfirmDescription}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t.backup.cancel}</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => void handleRestore('replace')}
+            >
+              {t.backup.replace}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
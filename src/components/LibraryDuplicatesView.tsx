@@ -0,0 +1,219 @@
+import * as React from 'react';
+import { Copy, LoaderCircle, Merge } from 'lucide-react';
+import type { Book, DuplicateBookCandidate, DuplicateBookGroup } from '../../shared/ipc';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { ScreenEmptyState } from '@/components/ScreenState';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { FORMAT_BADGE_LABELS } from '@/lib/constants';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+type Props = {
+  books: Book[];
+  refreshToken: string;
+  onOpen: (book: Book) => void;
+  onMerged: () => Promise<void>;
+};
+
+// The record with the most reading history is the safest default to keep.
+function pickDefaultKeeper(candidates: DuplicateBookCandidate[]): string {
+  const score = (candidate: DuplicateBookCandidate) =>
+    candidate.notes + candidate.highlights + candidate.bookmarks + candidate.readingTimeSec / 60;
+  return candidates.reduce((best, candidate) => (score(candidate) > score(best) ? candidate : best)).bookId;
+}
+
+export function LibraryDuplicatesView({ books, refreshToken, onOpen, onMerged }: Props) {
+  const { language, t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const [groups, setGroups] = React.useState<DuplicateBookGroup[]>([]);
+  const [keepers, setKeepers] = React.useState<Record<string, string>>({});
+  const [loading, setLoading] = React.useState(true);
+  const [mergingHash, setMergingHash] = React.useState<string | null>(null);
+  const [confirmGroup, setConfirmGroup] = React.useState<DuplicateBookGroup | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const booksById = React.useMemo(() => new Map(books.map((book) => [book.id, book])), [books]);
+  const dateFormatter = React.useMemo(
+    () => new Intl.DateTimeFormat(language === 'ru' ? 'ru-RU' : 'en-US', { day: 'numeric', month: 'short', year: 'numeric' }),
+    [language]
+  );
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    void getRendererApi()
+      .books.listDuplicates()
+      .then((result) => {
+        if (cancelled) {
+          return;
+        }
+        if (!result.ok) {
+          setError(result.error);
+          return;
+        }
+        setGroups(result.groups);
+        setKeepers(Object.fromEntries(result.groups.map((group) => [group.contentHash, pickDefaultKeeper(group.candidates)])));
+      })
+      .catch((loadError: unknown) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : String(loadError));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshToken]);
+
+  const handleMerge = async (group: DuplicateBookGroup) => {
+    const keepBookId = keepers[group.contentHash];
+    setConfirmGroup(null);
+    setMergingHash(group.contentHash);
+    setError(null);
+    try {
+      for (const candidate of group.candidates) {
+        if (candidate.bookId === keepBookId) {
+          continue;
+        }
+        const result = await getRendererApi().books.mergeDuplicates({ keepBookId, removeBookId: candidate.bookId });
+        if (!result.ok) {
+          setError(result.error);
+          break;
+        }
+      }
+      await onMerged();
+    } catch (mergeError) {
+      setError(mergeError instanceof Error ? mergeError.message : String(mergeError));
+    } finally {
+      setMergingHash(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <LoaderCircle className="h-4 w-4 animate-spin" />
+        {t.duplicates.loading}
+      </p>
+    );
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className="space-y-3">
+        {error ? <p className="text-sm text-destructive">{error}</p> : null}
+        <ScreenEmptyState
+          title={t.duplicates.emptyTitle}
+          description={t.duplicates.emptyDescription}
+          icon={<Copy className="h-6 w-6 text-muted-foreground" />}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+      <ul className="grid grid-cols-1 gap-5 xl:grid-cols-2">
+        {groups.map((group) => (
+          <li key={group.contentHash} className="app-surface space-y-3 rounded-[1.4rem] border bg-card/95 p-5" style={{ borderColor: palette.chromeBorder }}>
+            <div className="flex items-center justify-between gap-3">
+              <h3 className="text-lg font-semibold tracking-tight">{t.duplicates.groupTitle}</h3>
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => setConfirmGroup(group)}
+                disabled={mergingHash !== null}
+              >
+                {mergingHash === group.contentHash ? <LoaderCircle className="h-3.5 w-3.5 animate-spin" /> : <Merge className="h-3.5 w-3.5" />}
+                {mergingHash === group.contentHash ? t.duplicates.merging : t.duplicates.merge}
+              </Button>
+            </div>
+            <ul className="space-y-2">
+              {group.candidates.map((candidate) => {
+                const book = booksById.get(candidate.bookId);
+                return (
+                  <li key={candidate.bookId}>
+                    <label className="flex gap-3 rounded-xl border px-3 py-2" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
+                      <input
+                        type="radio"
+                        className="mt-1"
+                        name={`keep-${group.contentHash}`}
+                        checked={keepers[group.contentHash] === candidate.bookId}
+                        onChange={() => setKeepers((current) => ({ ...current, [group.contentHash]: candidate.bookId }))}
+                        disabled={mergingHash !== null}
+                        aria-label={t.duplicates.keep}
+                      />
+                      <span className="min-w-0 flex-1 space-y-1">
+                        {book ? (
+                          <button type="button" className="block truncate text-left text-sm font-semibold hover:underline" onClick={() => onOpen(book)}>
+                            {book.title}
+                          </button>
+                        ) : (
+                          <span className="block truncate text-sm font-semibold">{candidate.bookId}</span>
+                        )}
+                        <span className="block text-xs" style={{ color: palette.mutedText }}>
+                          {[
+                            book ? FORMAT_BADGE_LABELS[book.format] : null,
+                            book ? `${t.duplicates.added} ${dateFormatter.format(new Date(book.createdAt))}` : null,
+                            `${candidate.notes} ${t.duplicates.notes}`,
+                            `${candidate.highlights} ${t.duplicates.highlights}`,
+                            `${candidate.bookmarks} ${t.duplicates.bookmarks}`,
+                            `${Math.round(candidate.readingTimeSec / 60)} ${t.duplicates.minutes}`
+                          ]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </span>
+                      </span>
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+          </li>
+        ))}
+      </ul>
+
+      <AlertDialog open={confirmGroup !== null} onOpenChange={(open) => (open ? undefined : setConfirmGroup(null))}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.duplicates.confirmTitle}</AlertDialogTitle>
+            <AlertDialogDescription>{t.duplicates.confirmDescription}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t.duplicates.cancel}</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => (confirmGroup ? void handleMerge(confirmGroup) : undefined)}
+            >
+              {t.duplicates.merge}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
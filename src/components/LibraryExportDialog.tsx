@@ -0,0 +1,216 @@
+import * as React from 'react';
+import { LoaderCircle } from 'lucide-react';
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportLibraryLayout,
+  type ExportProgressEvent
+} from '../../shared/ipc';
+import { BOOK_EXPORTERS } from '../../shared/book-export';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+import { useExportTemplates } from '@/lib/useExportTemplates';
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+type Props = {
+  open: boolean;
+  // Books matching the screen's current filters; null when nothing is filtered.
+  filteredBookIds: string[] | null;
+  onClose: () => void;
+};
+
+type Scope = 'all' | 'filtered';
+
+export function LibraryExportDialog({ open, filteredBookIds, onClose }: Props) {
+  const { t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const [scope, setScope] = React.useState<Scope>('all');
+  const [format, setFormat] = React.useState<ExportFormat>('markdown');
+  const [layout, setLayout] = React.useState<ExportLibraryLayout>('combined');
+  const [templateId, setTemplateId] = React.useState('');
+  const { templates } = useExportTemplates(open);
+  const [exporting, setExporting] = React.useState(false);
+  const [progress, setProgress] = React.useState<ExportProgressEvent | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+  const selectStyle = { borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText };
+
+  React.useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setScope(filteredBookIds ? 'filtered' : 'all');
+    setProgress(null);
+    setError(null);
+    setMessage(null);
+  }, [filteredBookIds, open]);
+
+  React.useEffect(() => {
+    if (!open || !window.api) {
+      return;
+    }
+    return window.api.export.onProgress(setProgress);
+  }, [open]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setProgress(null);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await getRendererApi().export.exportLibrary({
+        format,
+        layout,
+        bookIds: scope === 'filtered' ? filteredBookIds : null,
+        template: format === 'template' ? templates.find((template) => template.id === templateId)?.body ?? null : null
+      });
+      if (!result.ok) {
+        if ('cancelled' in result && result.cancelled) {
+          return;
+        }
+        setError('error' in result ? result.error : t.libraryExport.failed);
+        return;
+      }
+      setMessage(`${t.libraryExport.saved} (${result.bookCount}): ${result.path}`);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const isFolderFormat = BOOK_EXPORTERS[format].target === 'folder';
+  const progressPercent = progress && progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+  return (
+    <AlertDialog open={open} onOpenChange={(nextOpen) => (nextOpen || exporting ? undefined : onClose())}>
+      <AlertDialogContent style={{ backgroundColor: palette.panelBg, borderColor: palette.chromeBorder, color: palette.chromeText }}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t.libraryExport.title}</AlertDialogTitle>
+          <p className="text-sm" style={{ color: palette.mutedText }}>{t.libraryExport.subtitle}</p>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          <label className="block space-y-1 text-sm">
+            <span style={{ color: palette.mutedText }}>{t.libraryExport.scope}</span>
+            <select
+              value={scope}
+              onChange={(event) => setScope(event.target.value === 'filtered' ? 'filtered' : 'all')}
+              disabled={exporting}
+              className="h-9 w-full rounded-lg border px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              style={selectStyle}
+            >
+              <option value="all">{t.libraryExport.scopeAll}</option>
+              {filteredBookIds ? (
+                <option value="filtered">
+                  {t.libraryExport.scopeFiltered} ({filteredBookIds.length})
+                </option>
+              ) : null}
+            </select>
+          </label>
+
+          <label className="block space-y-1 text-sm">
+            <span style={{ color: palette.mutedText }}>{t.libraryExport.format}</span>
+            <select
+              value={format}
+              onChange={(event) => {
+                const nextFormat = EXPORT_FORMATS.find((item) => item === event.target.value);
+                if (nextFormat) {
+                  setFormat(nextFormat);
+                }
+              }}
+              disabled={exporting}
+              className="h-9 w-full rounded-lg border px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              style={selectStyle}
+            >
+              {EXPORT_FORMATS.map((item) => (
+                <option key={item} value={item}>
+                  {BOOK_EXPORTERS[item].label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {format === 'template' ? (
+            <label className="block space-y-1 text-sm">
+              <span style={{ color: palette.mutedText }}>{t.libraryExport.template}</span>
+              <select
+                value={templateId}
+                onChange={(event) => setTemplateId(event.target.value)}
+                disabled={exporting}
+                className="h-9 w-full rounded-lg border px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                style={selectStyle}
+              >
+                <option value="">{t.libraryExport.templateDefault}</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          <label className="block space-y-1 text-sm">
+            <span style={{ color: palette.mutedText }}>{t.libraryExport.layout}</span>
+            <select
+              value={layout}
+              onChange={(event) => setLayout(event.target.value === 'zip' ? 'zip' : 'combined')}
+              disabled={exporting}
+              className="h-9 w-full rounded-lg border px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              style={selectStyle}
+            >
+              <option value="combined">{isFolderFormat ? t.libraryExport.layoutFolder : t.libraryExport.layoutCombined}</option>
+              <option value="zip">{t.libraryExport.layoutZip}</option>
+            </select>
+          </label>
+
+          {exporting ? (
+            <div className="space-y-2">
+              <p className="flex items-center gap-2 text-sm" style={{ color: palette.mutedText }}>
+                <LoaderCircle className="h-4 w-4 animate-spin" />
+                {progress?.state === 'writing'
+                  ? `${t.libraryExport.writing} ${progress.processed}/${progress.total}`
+                  : t.libraryExport.collecting}
+              </p>
+              <div className="h-1.5 overflow-hidden rounded-full" style={{ backgroundColor: palette.panelHoverBg }}>
+                <div className="h-full rounded-full transition-all" style={{ width: `${progressPercent}%`, backgroundColor: palette.accentText }} />
+              </div>
+              {progress?.currentTitle ? (
+                <p className="truncate text-xs" style={{ color: palette.mutedText }}>{progress.currentTitle}</p>
+              ) : null}
+            </div>
+          ) : null}
+
+          {error ? <p className="text-sm text-destructive">{error}</p> : null}
+          {message ? <p className="break-all text-sm" style={{ color: palette.accentText }}>{message}</p> : null}
+        </div>
+
+        <div className="mt-4 flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose} disabled={exporting}>
+            {t.libraryExport.close}
+          </Button>
+          <Button type="button" onClick={() => void handleExport()} disabled={exporting}>
+            {exporting ? t.libraryExport.exporting : t.libraryExport.export}
+          </Button>
+        </div>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,156 @@
+import * as React from 'react';
+import { FolderInput, LoaderCircle, X } from 'lucide-react';
+import type { FolderImportProgressEvent, LibraryImportActivity, LibraryImportOutcome } from '../../shared/ipc';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+const VISIBLE_ENTRIES = 5;
+
+function getOutcomeClassName(outcome: LibraryImportOutcome): string {
+  if (outcome === 'imported') {
+    return 'border-emerald-200 bg-emerald-50 text-emerald-800';
+  }
+  if (outcome === 'duplicate') {
+    return 'border-amber-200 bg-amber-50 text-amber-800';
+  }
+  return 'border-rose-200 bg-rose-50 text-rose-700';
+}
+
+function getFileName(filePath: string) {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+// Shows what watch folders and folder imports added, so files that arrive in the background
+// do not appear in the library unannounced.
+export function LibraryImportActivityPanel() {
+  const { t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const [activity, setActivity] = React.useState<LibraryImportActivity[]>([]);
+  const [progress, setProgress] = React.useState<FolderImportProgressEvent | null>(null);
+
+  React.useEffect(() => {
+    const api = getRendererApi();
+    let cancelled = false;
+    void api.watchFolders
+      .list()
+      .then((result) => {
+        if (!cancelled && result.ok) {
+          setActivity(result.activity);
+        }
+      })
+      .catch(() => undefined);
+
+    const unsubscribeActivity = api.watchFolders.onActivity((entries) => {
+      setActivity((current) => [...[...entries].reverse(), ...current]);
+    });
+    const unsubscribeProgress = api.books.onImportFolderProgress((event) => {
+      setProgress(event.state === 'done' ? null : event);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribeActivity();
+      unsubscribeProgress();
+    };
+  }, []);
+
+  const handleDismiss = async () => {
+    setActivity([]);
+    await getRendererApi().watchFolders.clearActivity();
+  };
+
+  if (!progress && activity.length === 0) {
+    return null;
+  }
+
+  const outcomeLabels: Record<LibraryImportOutcome, string> = {
+    imported: t.importActivity.imported,
+    duplicate: t.importActivity.duplicate,
+    failed: t.importActivity.failed
+  };
+  const counts = activity.reduce<Record<LibraryImportOutcome, number>>(
+    (total, entry) => ({ ...total, [entry.outcome]: total[entry.outcome] + 1 }),
+    { imported: 0, duplicate: 0, failed: 0 }
+  );
+
+  return (
+    <div className="space-y-3 rounded-2xl border px-4 py-3" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <p className="flex items-center gap-2 text-sm font-semibold">
+            <FolderInput className="h-4 w-4" />
+            {t.importActivity.title}
+          </p>
+          {activity.length > 0 ? (
+            <p className="text-xs" style={{ color: palette.mutedText }}>
+              {(Object.keys(counts) as LibraryImportOutcome[])
+                .filter((outcome) => counts[outcome] > 0)
+                .map((outcome) => `${counts[outcome]} ${outcomeLabels[outcome]}`)
+                .join(' · ')}
+            </p>
+          ) : null}
+        </div>
+        {activity.length > 0 && !progress ? (
+          <Button type="button" variant="ghost" size="sm" onClick={() => void handleDismiss()} aria-label={t.importActivity.dismiss}>
+            <X className="h-4 w-4" />
+          </Button>
+        ) : null}
+      </div>
+
+      {progress ? (
+        <div className="space-y-2">
+          <p className="flex items-center gap-2 text-sm">
+            <LoaderCircle className="h-4 w-4 animate-spin" />
+            {progress.state === 'scanning'
+              ? t.importActivity.scanning
+              : `${t.importActivity.importing} ${progress.processed + 1}/${progress.total}: ${getFileName(progress.currentFile ?? '')}`}
+          </p>
+          {progress.total > 0 ? (
+            <div className="h-1.5 overflow-hidden rounded-full" style={{ backgroundColor: palette.chromeBorder }}>
+              <div
+                className="h-full rounded-full bg-primary transition-all"
+                style={{ width: `${Math.round((progress.processed / progress.total) * 100)}%` }}
+              />
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {activity.length > 0 ? (
+        <ul className="space-y-1.5">
+          {activity.slice(0, VISIBLE_ENTRIES).map((entry) => (
+            <li key={entry.id} className="flex min-w-0 items-center gap-2 text-xs">
+              <span className={`shrink-0 rounded-full border px-2 py-0.5 font-semibold ${getOutcomeClassName(entry.outcome)}`}>
+                {entry.outcome === 'duplicate' ? t.importActivity.alreadyInLibrary : outcomeLabels[entry.outcome]}
+              </span>
+              <span className="truncate" title={entry.filePath}>
+                {entry.title ?? getFileName(entry.filePath)}
+              </span>
+              {entry.message ? (
+                <span className="truncate" style={{ color: palette.mutedText }}>
+                  {entry.message}
+                </span>
+              ) : null}
+            </li>
+          ))}
+          {activity.length > VISIBLE_ENTRIES ? (
+            <li className="text-xs" style={{ color: palette.mutedText }}>
+              {t.importActivity.more}: {activity.length - VISIBLE_ENTRIES}
+            </li>
+          ) : null}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import * as React from 'react';
+import { Download, FolderPlus, FolderMinus, Plus, Tag, X } from 'lucide-react';
+import type { BookCollection } from '../../shared/ipc';
+import { ExportDialog } from '@/components/ExportDialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+import { useBookExport } from '@/lib/useBookExport';
+
+type Props = {
+  selectedBookIds: string[];
+  visibleCount: number;
+  collections: BookCollection[];
+  activeCollectionId: string | null;
+  onSelectVisible: () => void;
+  onClear: () => void;
+  onChanged: () => Promise<void>;
+};
+
+type ActionResult = { ok: true } | { ok: false; error: string };
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+export function LibrarySelectionBar({
+  selectedBookIds,
+  visibleCount,
+  collections,
+  activeCollectionId,
+  onSelectVisible,
+  onClear,
+  onChanged
+}: Props) {
+  const { t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const [tag, setTag] = React.useState('');
+  const [collectionId, setCollectionId] = React.useState(activeCollectionId ?? '');
+  const [newCollectionName, setNewCollectionName] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const exportState = useBookExport({ bookIds: selectedBookIds });
+  const hasSelection = selectedBookIds.length > 0;
+  const trimmedTag = tag.trim();
+  const controlStyle = {
+    borderColor: palette.buttonBorder,
+    backgroundColor: palette.inputBg,
+    color: palette.inputText
+  };
+
+  React.useEffect(() => {
+    if (collectionId && !collections.some((collection) => collection.id === collectionId)) {
+      setCollectionId('');
+    }
+  }, [collectionId, collections]);
+
+  const run = async (action: () => Promise<ActionResult>, onSuccess?: () => void) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      onSuccess?.();
+      await onChanged();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateTags = (mode: 'add' | 'remove') =>
+    run(
+      () =>
+        getRendererApi().books.updateTags(
+          mode === 'add'
+            ? { bookIds: selectedBookIds, add: [trimmedTag] }
+            : { bookIds: selectedBookIds, remove: [trimmedTag] }
+        ),
+      () => setTag('')
+    );
+
+  const updateCollection = (mode: 'add' | 'remove') =>
+    run(() => {
+      const payload = { id: collectionId, bookIds: selectedBookIds };
+      return mode === 'add'
+        ? getRendererApi().collections.addBooks(payload)
+        : getRendererApi().collections.removeBooks(payload);
+    });
+
+  const createCollection = () =>
+    run(
+      () => getRendererApi().collections.create({ name: newCollectionName, bookIds: selectedBookIds }),
+      () => setNewCollectionName('')
+    );
+
+  return (
+    <div
+      className="space-y-3 rounded-2xl border px-4 py-3.5"
+      style={{ borderColor: palette.accentBorder, backgroundColor: palette.panelHoverBg }}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium">
+          {t.collections.selected}: {selectedBookIds.length}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onSelectVisible} disabled={saving || visibleCount === 0}>
+            {t.collections.selectVisible}
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={onClear} disabled={saving || !hasSelection}>
+            <X className="h-3.5 w-3.5" />
+            {t.collections.clearSelection}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => void exportState.openExportDialog()}
+            disabled={saving || !hasSelection}
+          >
+            <Download className="h-3.5 w-3.5" />
+            {t.collections.exportSelection}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 lg:grid-cols-3">
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (hasSelection && trimmedTag) {
+              void updateTags('add');
+            }
+          }}
+        >
+          <div className="relative min-w-0 flex-1">
+            <Tag className="pointer-events-none absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={tag}
+              onChange={(event) => setTag(event.target.value)}
+              placeholder={t.collections.tagPlaceholder}
+              aria-label={t.collections.tagPlaceholder}
+              maxLength={40}
+              className="h-9 pl-8"
+              disabled={saving}
+            />
+          </div>
+          <Button type="submit" size="sm" disabled={saving || !hasSelection || !trimmedTag}>
+            {t.collections.addTag}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={saving || !hasSelection || !trimmedTag}
+            onClick={() => void updateTags('remove')}
+          >
+            {t.collections.removeTag}
+          </Button>
+        </form>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={collectionId}
+            onChange={(event) => setCollectionId(event.target.value)}
+            className="h-9 min-w-0 flex-1 rounded-md border px-3 text-sm"
+            style={controlStyle}
+            aria-label={t.collections.collection}
+            disabled={saving || collections.length === 0}
+          >
+            <option value="">{t.collections.chooseCollection}</option>
+            {collections.map((collection) => (
+              <option key={collection.id} value={collection.id}>
+                {collection.name}
+              </option>
+            ))}
+          </select>
+          <Button
+            type="button"
+            size="sm"
+            disabled={saving || !hasSelection || !collectionId}
+            onClick={() => void updateCollection('add')}
+            title={t.collections.addToCollection}
+          >
+            <FolderPlus className="h-3.5 w-3.5" />
+            {t.collections.addToCollection}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={saving || !hasSelection || !collectionId}
+            onClick={() => void updateCollection('remove')}
+            title={t.collections.removeFromCollection}
+            aria-label={t.collections.removeFromCollection}
+          >
+            <FolderMinus className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (hasSelection && newCollectionName.trim()) {
+              void createCollection();
+            }
+          }}
+        >
+          <Input
+            value={newCollectionName}
+            onChange={(event) => setNewCollectionName(event.target.value)}
+            placeholder={t.collections.namePlaceholder}
+            aria-label={t.collections.createFromSelection}
+            maxLength={80}
+            className="h-9 min-w-0 flex-1"
+            disabled={saving}
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            size="sm"
+            disabled={saving || !hasSelection || !newCollectionName.trim()}
+            title={t.collections.createFromSelection}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {t.collections.create}
+          </Button>
+        </form>
+      </div>
+
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+      <ExportDialog
+        open={exportState.exportDialogOpen}
+        loading={exportState.exportLoading}
+        bookCount={selectedBookIds.length}
+        format={exportState.exportFormat}
+        preview={exportState.exportPreview}
+        template={exportState.exportTemplate}
+        templateError={exportState.exportTemplateError}
+        error={exportState.exportError}
+        message={exportState.exportMessage}
+        onFormatChange={exportState.setExportFormat}
+        onTemplateChange={exportState.setExportTemplate}
+        onCopy={() => {
+          void exportState.copyExportContent();
+        }}
+        onSave={() => {
+          void exportState.saveExportContent();
+        }}
+        onClose={exportState.closeExportDialog}
+      />
+    </div>
+  );
+}
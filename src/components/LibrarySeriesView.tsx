@@ -0,0 +1,82 @@
+import { ArrowRight, CheckCircle2, Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScreenEmptyState } from '@/components/ScreenState';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+import { cn } from '@/lib/utils';
+import type { Book } from '../../shared/ipc';
+import { formatSeriesIndex, type BookSeries } from '../../shared/series';
+
+type Props = {
+  series: BookSeries[];
+  loading: boolean;
+  onOpen: (book: Book) => void;
+  onInspect: (book: Book) => void;
+};
+
+export function LibrarySeriesView({ series, loading, onOpen, onInspect }: Props) {
+  const { t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+
+  if (series.length === 0) {
+    return (
+      <ScreenEmptyState
+        title={t.series.emptyTitle}
+        description={t.series.emptyDescription}
+        icon={<Layers className="h-6 w-6 text-muted-foreground" />}
+      />
+    );
+  }
+
+  return (
+    <ul className="grid grid-cols-1 gap-5 xl:grid-cols-2">
+      {series.map((entry) => (
+        <li key={entry.key} className="app-surface space-y-3 rounded-[1.4rem] border bg-card/95 p-5" style={{ borderColor: palette.chromeBorder }}>
+          <div className="flex items-baseline justify-between gap-3">
+            <h3 className="truncate text-lg font-semibold tracking-tight">{entry.name}</h3>
+            <span className="shrink-0 text-xs text-muted-foreground">
+              {t.series.progress}: {entry.finishedCount}/{entry.books.length}
+            </span>
+          </div>
+
+          <ol className="space-y-1.5">
+            {entry.books.map((book) => {
+              const isNext = book.id === entry.nextBookId;
+              const index = formatSeriesIndex(book.seriesIndex);
+              return (
+                <li
+                  key={book.id}
+                  className={cn('flex items-center gap-3 rounded-xl border px-3 py-2', isNext ? 'shadow-sm' : 'border-transparent')}
+                  style={isNext ? { borderColor: palette.accentBorder, backgroundColor: palette.accentBg, color: palette.accentText } : undefined}
+                >
+                  <span className="w-12 shrink-0 text-xs font-semibold text-muted-foreground">
+                    {index ? `${t.series.volume} ${index}` : '—'}
+                  </span>
+                  <button
+                    type="button"
+                    className="min-w-0 flex-1 truncate text-left text-sm hover:underline"
+                    onClick={() => onInspect(book)}
+                    disabled={loading}
+                  >
+                    {book.title}
+                  </button>
+                  {book.status === 'finished' ? (
+                    <CheckCircle2 className="h-4 w-4 shrink-0 text-primary" aria-label={t.readingStatus.finished} />
+                  ) : null}
+                  {isNext ? (
+                    <Button type="button" size="sm" variant="outline" onClick={() => onOpen(book)} disabled={loading}>
+                      {t.series.next}
+                      <ArrowRight className="h-3.5 w-3.5" />
+                    </Button>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ol>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,152 @@
+import * as React from 'react';
+import { FolderSync, LoaderCircle, RefreshCw } from 'lucide-react';
+import type { SyncStatus } from '../../shared/ipc';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+export function LibrarySyncPanel() {
+  const { language, t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const [status, setStatus] = React.useState<SyncStatus | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    void getRendererApi()
+      .sync.getStatus()
+      .then((result) => {
+        if (cancelled) {
+          return;
+        }
+        if (result.ok) {
+          setStatus(result.status);
+        } else {
+          setError(result.error);
+        }
+      })
+      .catch((statusError: unknown) => {
+        if (!cancelled) {
+          setError(statusError instanceof Error ? statusError.message : String(statusError));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const syncNow = async () => {
+    const result = await getRendererApi().sync.syncNow();
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setStatus(result.status);
+    setMessage(
+      `${t.sync.synced}: ${result.summary.published} ${t.sync.published}, ${result.summary.applied} ${t.sync.applied}, ${result.summary.copiedFiles} ${t.sync.copiedFiles}`
+    );
+  };
+
+  const handleSyncNow = () => run(syncNow);
+
+  // The first sync runs right away so data from the other devices shows up without waiting.
+  const handleChooseFolder = () =>
+    run(async () => {
+      const result = await getRendererApi().sync.chooseFolder();
+      if (result.ok) {
+        setStatus(result.status);
+        await syncNow();
+      } else if (!('cancelled' in result)) {
+        setError(result.error);
+      }
+    });
+
+  const handleDisable = () =>
+    run(async () => {
+      const result = await getRendererApi().sync.disable();
+      if (result.ok) {
+        setStatus(result.status);
+      } else {
+        setError(result.error);
+      }
+    });
+
+  const formatDate = (value: number) => new Date(value).toLocaleString(language === 'ru' ? 'ru-RU' : 'en-US');
+  const enabled = Boolean(status?.folderPath);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1 rounded-xl border px-4 py-3 text-sm" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
+        <p className="break-all">
+          <span style={{ color: palette.mutedText }}>{t.sync.folder}: </span>
+          {status?.folderPath ?? t.sync.notConfigured}
+        </p>
+        {enabled && status ? (
+          <>
+            <p>
+              <span style={{ color: palette.mutedText }}>{t.sync.lastSynced}: </span>
+              {status.lastSyncedAt ? formatDate(status.lastSyncedAt) : t.sync.never}
+            </p>
+            <p className="break-all text-xs" style={{ color: palette.mutedText }}>
+              {t.sync.device}: {status.deviceId}
+            </p>
+          </>
+        ) : null}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant={enabled ? 'outline' : 'default'} onClick={() => void handleChooseFolder()} disabled={busy}>
+          <FolderSync className="mr-2 h-4 w-4" />
+          {enabled ? t.sync.changeFolder : t.sync.chooseFolder}
+        </Button>
+        {enabled ? (
+          <>
+            <Button type="button" onClick={() => void handleSyncNow()} disabled={busy}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              {t.sync.syncNow}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => void handleDisable()} disabled={busy}>
+              {t.sync.disable}
+            </Button>
+          </>
+        ) : null}
+      </div>
+
+      {busy ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <LoaderCircle className="h-4 w-4 animate-spin" />
+          {t.sync.syncing}
+        </p>
+      ) : null}
+
+      {error || status?.lastError ? <p className="text-sm text-destructive">{error ?? status?.lastError}</p> : null}
+      {message ? <p className="text-sm" style={{ color: palette.accentText }}>{message}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import * as React from 'react';
+import { Lock, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useProfiles } from '@/lib/useProfiles';
+import { cn } from '@/lib/utils';
+
+// Reader settings and the library belong to a profile, so nothing below the gate renders until one is open.
+export function ProfileGate({ children }: { children: React.ReactNode }) {
+  const { t } = useLanguage();
+  const { profiles, activeProfileId, loading, busy, error, switchProfile, createProfile } = useProfiles();
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [pin, setPin] = React.useState('');
+  const [newName, setNewName] = React.useState('');
+  const [newPin, setNewPin] = React.useState('');
+
+  if (loading) {
+    return null;
+  }
+
+  if (activeProfileId) {
+    return <>{children}</>;
+  }
+
+  const selectedProfile = profiles.find((profile) => profile.id === selectedId) ?? null;
+
+  const handleSelect = (id: string) => {
+    const profile = profiles.find((item) => item.id === id);
+    if (!profile) {
+      return;
+    }
+    if (!profile.hasPin) {
+      void switchProfile(profile.id);
+      return;
+    }
+    setSelectedId(profile.id);
+    setPin('');
+  };
+
+  const handleCreate = async () => {
+    const profile = await createProfile(newName, newPin || undefined);
+    if (profile) {
+      await switchProfile(profile.id, newPin || undefined);
+    }
+  };
+
+  return (
+    <div className="flex h-screen w-full items-center justify-center overflow-auto p-6">
+      <div className="w-full max-w-md space-y-6 rounded-3xl border bg-card p-6 shadow-xl">
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-semibold">{t.profiles.gateTitle}</h1>
+          <p className="text-sm text-muted-foreground">{t.profiles.gateDescription}</p>
+        </div>
+
+        <div className="space-y-2">
+          {profiles.map((profile) => (
+            <button
+              key={profile.id}
+              type="button"
+              onClick={() => handleSelect(profile.id)}
+              disabled={busy}
+              className={cn(
+                'flex w-full items-center gap-3 rounded-xl border px-4 py-3 text-left text-sm transition-colors hover:bg-muted disabled:opacity-60',
+                profile.id === selectedId && 'border-foreground/30 bg-muted'
+              )}
+            >
+              <UserRound className="h-4 w-4 shrink-0" />
+              <span className="min-w-0 flex-1 truncate font-medium">{profile.name}</span>
+              {profile.hasPin ? <Lock className="h-4 w-4 shrink-0 text-muted-foreground" aria-label={t.profiles.pinProtected} /> : null}
+            </button>
+          ))}
+        </div>
+
+        {selectedProfile ? (
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              void switchProfile(selectedProfile.id, pin);
+            }}
+          >
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoFocus
+              value={pin}
+              onChange={(event) => setPin(event.target.value)}
+              placeholder={`${t.profiles.pin}: ${selectedProfile.name}`}
+              maxLength={8}
+              disabled={busy}
+            />
+            <Button type="submit" disabled={busy || !pin}>
+              {t.profiles.unlock}
+            </Button>
+          </form>
+        ) : null}
+
+        <form
+          className="space-y-2 border-t pt-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            void handleCreate();
+          }}
+        >
+          <p className="text-sm font-medium">{t.profiles.createTitle}</p>
+          <Input value={newName} onChange={(event) => setNewName(event.target.value)} placeholder={t.profiles.name} maxLength={60} disabled={busy} />
+          <Input
+            type="password"
+            inputMode="numeric"
+            value={newPin}
+            onChange={(event) => setNewPin(event.target.value)}
+            placeholder={t.profiles.optionalPin}
+            maxLength={8}
+            disabled={busy}
+          />
+          <Button type="submit" className="w-full" disabled={busy || !newName.trim()}>
+            {t.profiles.create}
+          </Button>
+        </form>
+
+        {error ? <p className="text-sm text-destructive">{error}</p> : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import * as React from 'react';
+import { Lock, LogOut, UserRound } from 'lucide-react';
+import type { LocalProfile, ProfilesUpdateRequest } from '../../shared/ipc';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+import { useProfiles } from '@/lib/useProfiles';
+
+export function ProfilesPanel() {
+  const { t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const { profiles, activeProfile, busy, error, switchProfile, lockProfile, createProfile, updateProfile, deleteProfile } =
+    useProfiles();
+  const [name, setName] = React.useState('');
+  const [newPin, setNewPin] = React.useState('');
+  const [currentPin, setCurrentPin] = React.useState('');
+  const [switchTarget, setSwitchTarget] = React.useState<LocalProfile | null>(null);
+  const [deleteTarget, setDeleteTarget] = React.useState<LocalProfile | null>(null);
+  const [pin, setPin] = React.useState('');
+  const [createName, setCreateName] = React.useState('');
+  const [createPin, setCreatePin] = React.useState('');
+  const [message, setMessage] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setName(activeProfile?.name ?? '');
+  }, [activeProfile?.name]);
+
+  const update = async (patch: ProfilesUpdateRequest) => {
+    setMessage(null);
+    if (await updateProfile(patch)) {
+      setNewPin('');
+      setCurrentPin('');
+      setMessage(t.profiles.saved);
+    }
+  };
+
+  const handleSwitch = (profile: LocalProfile) => {
+    setMessage(null);
+    if (!profile.hasPin) {
+      void switchProfile(profile.id);
+      return;
+    }
+    setSwitchTarget(profile);
+    setPin('');
+  };
+
+  const handleCreate = async () => {
+    setMessage(null);
+    if (await createProfile(createName, createPin || undefined)) {
+      setCreateName('');
+      setCreatePin('');
+      setMessage(t.profiles.created);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) {
+      return;
+    }
+    setMessage(null);
+    if (await deleteProfile(deleteTarget.id, pin || undefined)) {
+      setMessage(t.profiles.deleted);
+    }
+    setDeleteTarget(null);
+    setPin('');
+  };
+
+  const otherProfiles = profiles.filter((profile) => profile.id !== activeProfile?.id);
+
+  return (
+    <div className="space-y-4">
+      {activeProfile ? (
+        <div className="space-y-3 rounded-xl border px-4 py-3" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
+          <div className="flex items-center gap-2">
+            <UserRound className="h-4 w-4" />
+            <p className="min-w-0 flex-1 truncate text-sm font-medium">
+              {t.profiles.current}: {activeProfile.name}
+            </p>
+            <Button type="button" variant="outline" size="sm" onClick={() => void lockProfile()} disabled={busy}>
+              <LogOut className="mr-2 h-4 w-4" />
+              {t.profiles.lock}
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Input value={name} onChange={(event) => setName(event.target.value)} placeholder={t.profiles.name} maxLength={60} disabled={busy} />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => void update({ name })}
+              disabled={busy || !name.trim() || name.trim() === activeProfile.name}
+            >
+              {t.profiles.rename}
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {activeProfile.hasPin ? (
+              <Input
+                type="password"
+                inputMode="numeric"
+                value={currentPin}
+                onChange={(event) => setCurrentPin(event.target.value)}
+                placeholder={t.profiles.currentPin}
+                maxLength={8}
+                className="min-w-0 flex-1"
+                disabled={busy}
+              />
+            ) : null}
+            <Input
+              type="password"
+              inputMode="numeric"
+              value={newPin}
+              onChange={(event) => setNewPin(event.target.value)}
+              placeholder={t.profiles.newPin}
+              maxLength={8}
+              className="min-w-0 flex-1"
+              disabled={busy}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => void update({ pin: newPin, currentPin })}
+              disabled={busy || !newPin || (activeProfile.hasPin && !currentPin)}
+            >
+              {activeProfile.hasPin ? t.profiles.changePin : t.profiles.setPin}
+            </Button>
+            {activeProfile.hasPin ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => void update({ pin: null, currentPin })}
+                disabled={busy || !currentPin}
+              >
+                {t.profiles.removePin}
+              </Button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      {otherProfiles.length > 0 ? (
+        <div className="space-y-2">
+          {otherProfiles.map((profile) => (
+            <div key={profile.id} className="space-y-2 rounded-xl border px-4 py-3" style={{ borderColor: palette.chromeBorder }}>
+              <div className="flex items-center gap-2">
+                <p className="min-w-0 flex-1 truncate text-sm font-medium">{profile.name}</p>
+                {profile.hasPin ? <Lock className="h-4 w-4 text-muted-foreground" aria-label={t.profiles.pinProtected} /> : null}
+                <Button type="button" variant="outline" size="sm" onClick={() => handleSwitch(profile)} disabled={busy}>
+                  {t.profiles.switchTo}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="border-rose-200 text-rose-700 hover:bg-rose-50 hover:text-rose-800"
+                  onClick={() => {
+                    setDeleteTarget(profile);
+                    setPin('');
+                  }}
+                  disabled={busy}
+                >
+                  {t.profiles.delete}
+                </Button>
+              </div>
+              {switchTarget?.id === profile.id ? (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    void switchProfile(profile.id, pin);
+                  }}
+                >
+                  <Input
+                    type="password"
+                    inputMode="numeric"
+                    autoFocus
+                    value={pin}
+                    onChange={(event) => setPin(event.target.value)}
+                    placeholder={t.profiles.pin}
+                    maxLength={8}
+                    disabled={busy}
+                  />
+                  <Button type="submit" disabled={busy || !pin}>
+                    {t.profiles.unlock}
+                  </Button>
+                </form>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <form
+        className="flex flex-wrap gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void handleCreate();
+        }}
+      >
+        <Input
+          value={createName}
+          onChange={(event) => setCreateName(event.target.value)}
+          placeholder={t.profiles.name}
+          maxLength={60}
+          className="min-w-0 flex-1"
+          disabled={busy}
+        />
+        <Input
+          type="password"
+          inputMode="numeric"
+          value={createPin}
+          onChange={(event) => setCreatePin(event.target.value)}
+          placeholder={t.profiles.optionalPin}
+          maxLength={8}
+          className="min-w-0 flex-1"
+          disabled={busy}
+        />
+        <Button type="submit" disabled={busy || !createName.trim()}>
+          {t.profiles.create}
+        </Button>
+      </form>
+
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+      {message ? <p className="text-sm" style={{ color: palette.accentText }}>{message}</p> : null}
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => (!open ? setDeleteTarget(null) : undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t.profiles.deleteConfirmTitle} {deleteTarget?.name}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>{t.profiles.deleteConfirmDescription}</AlertDialogDescription>
+          </AlertDialogHeader>
+          {deleteTarget?.hasPin ? (
+            <Input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(event) => setPin(event.target.value)}
+              placeholder={t.profiles.pin}
+              maxLength={8}
+            />
+          ) : null}
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t.profiles.cancel}</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => void handleDelete()}
+              disabled={Boolean(deleteTarget?.hasPin) && !pin}
+            >
+              {t.profiles.delete}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import * as React from 'react';
 import { SlidersHorizontal } from 'lucide-react';
 import type {
+  BookFormat,
   EpubFontFamily,
   EpubMarginSize,
   PdfZoomPreset,
@@ -9,6 +10,7 @@ import type {
   TextSizePreset
 } from '../../shared/ipc';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings, type ReaderSettingsScope } from '@/contexts/ReaderSettingsContext';
 import { READER_PANEL_WIDTH_CLASSNAME } from '@/lib/constants';
 import { cn } from '@/lib/utils';
 import type { ReaderThemePalette } from '@/lib/reader-theme';
@@ -39,6 +41,8 @@ const PDF_ZOOM_PRESETS: Array<{ value: PdfZoomPreset; label: string }> = [
   { value: 'actualSize', label: '100%' }
 ];
 
+const SETTINGS_SCOPES: ReaderSettingsScope[] = ['book', 'default'];
+
 const TEXT_SIZE_PRESETS: Array<{ value: TextSizePreset; label: string; detail: string }> = [
   { value: 'normal', label: 'Normal', detail: 'Current default sizing' },
   { value: 'large', label: 'Large', detail: '+15% content and UI text' },
@@ -47,7 +51,7 @@ const TEXT_SIZE_PRESETS: Array<{ value: TextSizePreset; label: string; detail: s
 
 type Props = {
   open: boolean;
-  format: 'pdf' | 'epub' | 'fb2' | 'txt';
+  format: BookFormat;
   settings: ReaderSettings;
   onClose: () => void;
   onChange: (patch: Partial<ReaderSettings>) => void;
@@ -85,6 +89,7 @@ export function ReaderSettingsPanel({
   className
 }: Props) {
   const { t } = useLanguage();
+  const { bookOverride, settingsScope, setSettingsScope, resetBookSettings } = useReaderSettings();
   const [draftFontSize, setDraftFontSize] = React.useState(settings.epubFontSize);
   const [draftLineHeight, setDraftLineHeight] = React.useState(settings.epubLineHeight);
 
@@ -100,7 +105,8 @@ export function ReaderSettingsPanel({
     return null;
   }
 
-  const isFlowFormat = format === 'epub' || format === 'fb2' || format === 'txt';
+  const isFlowFormat = format !== 'pdf' && format !== 'cbz';
+  const isPageFormat = format === 'pdf' || format === 'cbz';
 
   const chipStyles = (active: boolean): React.CSSProperties => ({
     ...(active
@@ -159,6 +165,45 @@ export function ReaderSettingsPanel({
       className={cn('backdrop-blur-xl', className)}
     >
       <div className="space-y-4 p-1">
+        {bookOverride ? (
+          <Section
+            title={t.readerPanels.settingsScope}
+            description={
+              settingsScope === 'book'
+                ? t.readerPanels.settingsScopeBookDescription
+                : t.readerPanels.settingsScopeDefaultDescription
+            }
+          >
+            <div
+              className="grid grid-cols-2 gap-2 rounded-2xl border p-1.5"
+              style={{ borderColor: palette.chromeBorder, backgroundColor: palette.accentBg }}
+            >
+              {SETTINGS_SCOPES.map((scope) => (
+                <button
+                  key={scope}
+                  type="button"
+                  aria-pressed={settingsScope === scope}
+                  className="rounded-xl border px-3 py-2 text-sm font-medium transition-all duration-200"
+                  style={chipStyles(settingsScope === scope)}
+                  onClick={() => setSettingsScope(scope)}
+                >
+                  {scope === 'book' ? t.readerPanels.scopeBook : t.readerPanels.scopeDefault}
+                </button>
+              ))}
+            </div>
+            {Object.keys(bookOverride).length > 0 ? (
+              <button
+                type="button"
+                className="text-xs font-medium underline-offset-2 hover:underline"
+                style={{ color: palette.mutedText }}
+                onClick={resetBookSettings}
+              >
+                {t.readerPanels.resetBookSettings}
+              </button>
+            ) : null}
+          </Section>
+        ) : null}
+
         <Section title={t.readerPanels.theme} description={t.readerPanels.themeDescription}>
           <div
             className="grid grid-cols-3 gap-2 rounded-2xl border p-1.5"
@@ -337,12 +382,12 @@ export function ReaderSettingsPanel({
         <Section
           title={t.readerPanels.pdfDisplay}
           description={
-            format === 'pdf'
+            isPageFormat
               ? t.readerPanels.pdfDescription
               : t.readerPanels.pdfLockedDescription
           }
         >
-          <div className={cn('space-y-4 transition-opacity duration-200', format === 'pdf' ? 'opacity-100' : 'opacity-50')}>
+          <div className={cn('space-y-4 transition-opacity duration-200', isPageFormat ? 'opacity-100' : 'opacity-50')}>
             <div className="space-y-2">
               <div className="text-xs font-medium" style={{ color: palette.mutedText }}>
                 {t.readerPanels.backgroundAroundPage}
@@ -357,7 +402,7 @@ export function ReaderSettingsPanel({
                     <button
                       key={theme.value}
                       type="button"
-                      disabled={format !== 'pdf'}
+                      disabled={!isPageFormat}
                       className="rounded-xl border px-3 py-2 text-sm font-medium transition-all duration-200 disabled:cursor-not-allowed"
                       style={chipStyles(active)}
                       onClick={() => onChange({ pdfBackground: theme.value })}
@@ -380,7 +425,7 @@ export function ReaderSettingsPanel({
                     <button
                       key={preset.value}
                       type="button"
-                      disabled={format !== 'pdf'}
+                      disabled={!isPageFormat}
                       className="rounded-2xl border px-3 py-3 text-left text-sm transition-all duration-200 disabled:cursor-not-allowed"
                       style={chipStyles(active)}
                       onClick={() => onChange({ pdfZoomPreset: preset.value })}
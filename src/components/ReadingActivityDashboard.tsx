@@ -0,0 +1,313 @@
+import * as React from 'react';
+import { BarChart3, CalendarDays, Clock3, Flame, Gauge, Hourglass, Trophy } from 'lucide-react';
+import type { Book, ReadingBookStats, ReadingDayTotal } from '../../shared/ipc';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ScreenEmptyState, ScreenErrorState } from '@/components/ScreenState';
+import { SkeletonGrid } from '@/components/Skeletons';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { useLibraryBookMetrics, type BookMetric } from '@/lib/library-metrics';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+import { useReadingOverview } from '@/lib/useReadingOverview';
+
+type Props = {
+  books: Book[];
+};
+
+type Translations = ReturnType<typeof useLanguage>['t'];
+
+const HEATMAP_LEVEL_OPACITY = [0, 0.25, 0.45, 0.7, 1];
+const FINISHED_PROGRESS_PERCENT = 99.5;
+
+function formatDuration(seconds: number, t: Translations): string {
+  const totalMinutes = Math.round(seconds / 60);
+  if (totalMinutes < 60) {
+    return `${totalMinutes} ${t.readingStats.minutesShort}`;
+  }
+
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return minutes > 0
+    ? `${hours} ${t.readingStats.hoursShort} ${minutes} ${t.readingStats.minutesShort}`
+    : `${hours} ${t.readingStats.hoursShort}`;
+}
+
+function getHeatmapLevel(seconds: number): number {
+  const minutes = seconds / 60;
+  if (minutes <= 0) {
+    return 0;
+  }
+  if (minutes < 15) {
+    return 1;
+  }
+  if (minutes < 30) {
+    return 2;
+  }
+  if (minutes < 60) {
+    return 3;
+  }
+  return 4;
+}
+
+function parseDateKey(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function toCalendarWeeks(days: ReadingDayTotal[]): Array<Array<ReadingDayTotal | null>> {
+  if (days.length === 0) {
+    return [];
+  }
+
+  const mondayOffset = (parseDateKey(days[0].date).getDay() + 6) % 7;
+  const cells: Array<ReadingDayTotal | null> = [...Array.from({ length: mondayOffset }, () => null), ...days];
+  const weeks: Array<Array<ReadingDayTotal | null>> = [];
+  for (let index = 0; index < cells.length; index += 7) {
+    weeks.push(cells.slice(index, index + 7));
+  }
+  return weeks;
+}
+
+function usesPageUnits(format: Book['format']): boolean {
+  return format === 'pdf' || format === 'cbz';
+}
+
+function getPaceLabel(stats: ReadingBookStats, t: Translations): string {
+  if (stats.locationsPerHour === null) {
+    return t.readingStats.paceUnavailable;
+  }
+
+  const unit = usesPageUnits(stats.format) ? t.readingStats.pagesPerHour : t.readingStats.chaptersPerHour;
+  return `${stats.locationsPerHour.toFixed(stats.locationsPerHour < 10 ? 1 : 0)} ${unit}`;
+}
+
+function estimateSecondsToFinish(stats: ReadingBookStats, metric: BookMetric | undefined): number | null {
+  const progressPercent = metric?.progressPercent ?? null;
+  if (progressPercent === null || progressPercent <= 0 || progressPercent >= FINISHED_PROGRESS_PERCENT) {
+    return null;
+  }
+
+  // EPUB progress is measured in generated locations rather than the chapters sessions record,
+  // so its estimate extrapolates from time spent instead of chapter pace.
+  const paceUnitsMatchMetric = stats.format !== 'epub';
+  if (paceUnitsMatchMetric && stats.locationsPerHour && metric?.pageCount) {
+    const remainingUnits = metric.pageCount * (1 - progressPercent / 100);
+    return (remainingUnits / stats.locationsPerHour) * 3600;
+  }
+
+  if (stats.totalSeconds <= 0) {
+    return null;
+  }
+  return stats.totalSeconds * ((100 - progressPercent) / progressPercent);
+}
+
+export function ReadingActivityDashboard({ books }: Props) {
+  const { language, t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const { overview, loading, error, refresh } = useReadingOverview();
+  const dateFormatter = React.useMemo(
+    () => new Intl.DateTimeFormat(language === 'ru' ? 'ru-RU' : 'en-US', { dateStyle: 'medium' }),
+    [language]
+  );
+
+  const trackedBooks = React.useMemo(() => {
+    const trackedIds = new Set(overview?.books.map((entry) => entry.bookId) ?? []);
+    return books.filter((book) => trackedIds.has(book.id));
+  }, [books, overview]);
+  const metrics = useLibraryBookMetrics(trackedBooks);
+
+  const weeks = React.useMemo(() => toCalendarWeeks(overview?.days ?? []), [overview]);
+  const inProgress = React.useMemo(
+    () =>
+      (overview?.books ?? [])
+        .map((stats) => ({ stats, metric: metrics[stats.bookId] }))
+        .filter(({ metric }) => {
+          const progressPercent = metric?.progressPercent ?? null;
+          return progressPercent !== null && progressPercent > 0 && progressPercent < FINISHED_PROGRESS_PERCENT;
+        })
+        .map(({ stats, metric }) => ({ stats, metric, secondsLeft: estimateSecondsToFinish(stats, metric) })),
+    [metrics, overview]
+  );
+
+  if (loading && !overview) {
+    return <SkeletonGrid count={4} />;
+  }
+
+  if (error) {
+    return <ScreenErrorState title={t.readingStats.loadError} description={error} onRetry={() => void refresh()} />;
+  }
+
+  if (!overview || overview.totalSeconds === 0) {
+    return (
+      <ScreenEmptyState
+        title={t.readingStats.emptyTitle}
+        description={t.readingStats.emptyDescription}
+        icon={<BarChart3 className="h-6 w-6 text-muted-foreground" />}
+      />
+    );
+  }
+
+  const summaryCards: Array<[string, string, React.ReactNode]> = [
+    [t.readingStats.totalTime, formatDuration(overview.totalSeconds, t), <Clock3 key="total" className="h-3.5 w-3.5" />],
+    [t.readingStats.today, formatDuration(overview.todaySeconds, t), <CalendarDays key="today" className="h-3.5 w-3.5" />],
+    [
+      t.readingStats.currentStreak,
+      `${overview.currentStreakDays} ${t.readingStats.days}`,
+      <Flame key="streak" className="h-3.5 w-3.5" />
+    ],
+    [
+      t.readingStats.longestStreak,
+      `${overview.longestStreakDays} ${t.readingStats.days}`,
+      <Trophy key="longest" className="h-3.5 w-3.5" />
+    ]
+  ];
+
+  return (
+    <div className="grid gap-4">
+      <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+        {summaryCards.map(([label, value, icon]) => (
+          <Card
+            key={label}
+            className="shadow-none"
+            style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelBg, color: palette.chromeText }}
+          >
+            <CardContent className="p-4">
+              <p className="flex items-center gap-2 text-xs uppercase tracking-[0.18em]" style={{ color: palette.mutedText }}>
+                {icon}
+                {label}
+              </p>
+              <p className="mt-2 text-2xl font-semibold">{value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <section className="app-surface rounded-[24px] border p-5" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelBg }}>
+        <div className="mb-4 flex flex-wrap items-end justify-between gap-3">
+          <div className="space-y-1">
+            <h3 className="text-base font-semibold" style={{ color: palette.chromeText }}>{t.readingStats.calendarTitle}</h3>
+            <p className="text-sm" style={{ color: palette.mutedText }}>{t.readingStats.calendarDescription}</p>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={() => void refresh()} disabled={loading}>
+            {t.hub.refresh}
+          </Button>
+        </div>
+        <div className="overflow-x-auto pb-2">
+          <div className="flex gap-[3px]">
+            {weeks.map((week, weekIndex) => (
+              <div key={weekIndex} className="flex flex-col gap-[3px]">
+                {week.map((day, dayIndex) =>
+                  day ? (
+                    <div
+                      key={day.date}
+                      title={`${dateFormatter.format(parseDateKey(day.date))}: ${formatDuration(day.seconds, t)}`}
+                      className="h-3 w-3 rounded-[3px] border"
+                      style={{
+                        borderColor: palette.chromeBorder,
+                        backgroundColor: getHeatmapLevel(day.seconds) > 0 ? palette.focusRing : palette.panelHoverBg,
+                        opacity: getHeatmapLevel(day.seconds) > 0 ? HEATMAP_LEVEL_OPACITY[getHeatmapLevel(day.seconds)] : 1
+                      }}
+                    />
+                  ) : (
+                    <div key={`empty:${dayIndex}`} className="h-3 w-3" />
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="mt-2 flex items-center justify-end gap-1 text-xs" style={{ color: palette.mutedText }}>
+          <span className="mr-1">{t.readingStats.less}</span>
+          {HEATMAP_LEVEL_OPACITY.map((opacity, level) => (
+            <span
+              key={level}
+              className="h-3 w-3 rounded-[3px] border"
+              style={{
+                borderColor: palette.chromeBorder,
+                backgroundColor: level > 0 ? palette.focusRing : palette.panelHoverBg,
+                opacity: level > 0 ? opacity : 1
+              }}
+            />
+          ))}
+          <span className="ml-1">{t.readingStats.more}</span>
+        </div>
+      </section>
+
+      <div className="grid gap-4 xl:grid-cols-2">
+        <section className="app-surface rounded-[24px] border p-5" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelBg }}>
+          <div className="mb-4 space-y-1">
+            <h3 className="text-base font-semibold" style={{ color: palette.chromeText }}>{t.readingStats.booksTitle}</h3>
+            <p className="text-sm" style={{ color: palette.mutedText }}>{t.readingStats.booksDescription}</p>
+          </div>
+          <div className="space-y-2">
+            {overview.books.map((stats) => (
+              <div
+                key={stats.bookId}
+                className="rounded-[1.2rem] border p-3"
+                style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg, color: palette.chromeText }}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <p className="min-w-0 truncate text-sm font-semibold">{stats.title}</p>
+                  <span className="shrink-0 text-sm font-semibold">{formatDuration(stats.totalSeconds, t)}</span>
+                </div>
+                <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs" style={{ color: palette.mutedText }}>
+                  <span>{stats.format.toUpperCase()}</span>
+                  <span>
+                    {stats.sessionCount} {t.readingStats.sessions}
+                  </span>
+                  <span className="inline-flex items-center gap-1">
+                    <Gauge className="h-3.5 w-3.5" />
+                    {getPaceLabel(stats, t)}
+                  </span>
+                  {stats.lastReadAt ? (
+                    <span>
+                      {t.readingStats.lastRead}: {dateFormatter.format(new Date(stats.lastReadAt))}
+                    </span>
+                  ) : null}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="app-surface rounded-[24px] border p-5" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelBg }}>
+          <div className="mb-4 space-y-1">
+            <h3 className="text-base font-semibold" style={{ color: palette.chromeText }}>{t.readingStats.inProgressTitle}</h3>
+            <p className="text-sm" style={{ color: palette.mutedText }}>{t.readingStats.inProgressDescription}</p>
+          </div>
+          <div className="space-y-2">
+            {inProgress.length === 0 ? (
+              <p className="text-sm" style={{ color: palette.mutedText }}>{t.readingStats.estimateUnavailable}</p>
+            ) : null}
+            {inProgress.map(({ stats, metric, secondsLeft }) => (
+              <div
+                key={stats.bookId}
+                className="rounded-[1.2rem] border p-3"
+                style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg, color: palette.chromeText }}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <p className="min-w-0 truncate text-sm font-semibold">{stats.title}</p>
+                  <span className="inline-flex shrink-0 items-center gap-1 text-sm font-semibold">
+                    <Hourglass className="h-3.5 w-3.5" />
+                    {secondsLeft !== null
+                      ? `${t.readingStats.timeToFinish}: ${formatDuration(secondsLeft, t)}`
+                      : t.readingStats.estimateUnavailable}
+                  </span>
+                </div>
+                <div className="mt-2 h-1.5 overflow-hidden rounded-full" style={{ backgroundColor: palette.chromeBorder }}>
+                  <div
+                    className="h-full rounded-full"
+                    style={{ width: `${Math.round(metric?.progressPercent ?? 0)}%`, backgroundColor: palette.focusRing }}
+                  />
+                </div>
+                <p className="mt-1 text-xs" style={{ color: palette.mutedText }}>{metric?.progressLabel}</p>
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import * as React from 'react';
+import { BellRing, BookCheck, Clock3, Plus, Target, Trash2, Trophy } from 'lucide-react';
+import type { Book, ReadingGoalKind, ReadingGoalProgress } from '../../shared/ipc';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+import { useReadingGoals } from '@/lib/useReadingGoals';
+
+type Props = {
+  books: Book[];
+  refreshKey?: string | number;
+  onGoalsChanged?: () => void;
+};
+
+type Translations = ReturnType<typeof useLanguage>['t'];
+
+const DEFAULT_TARGETS: Record<ReadingGoalKind, string> = {
+  'daily-minutes': '30',
+  'yearly-books': '12',
+  'finish-book': '1'
+};
+
+const GOAL_ICONS: Record<ReadingGoalKind, typeof Clock3> = {
+  'daily-minutes': Clock3,
+  'yearly-books': Trophy,
+  'finish-book': BookCheck
+};
+
+function getGoalLabel(kind: ReadingGoalKind, t: Translations) {
+  if (kind === 'daily-minutes') {
+    return t.goals.kindDaily;
+  }
+  if (kind === 'yearly-books') {
+    return t.goals.kindYearly;
+  }
+  return t.goals.kindFinish;
+}
+
+function parseDateInput(value: string): number | null {
+  if (!value) {
+    return null;
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  // Due dates are inclusive, so the goal stays on time until the end of that day.
+  return new Date(year, month - 1, day, 23, 59, 59, 999).getTime();
+}
+
+export function ReadingGoalsPanel({ books, refreshKey, onGoalsChanged }: Props) {
+  const { language, t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const { loading, error, goals, reminder, saveGoal, deleteGoal, setReminder } = useReadingGoals(refreshKey);
+  const [kind, setKind] = React.useState<ReadingGoalKind>('daily-minutes');
+  const [target, setTarget] = React.useState(DEFAULT_TARGETS['daily-minutes']);
+  const [bookId, setBookId] = React.useState('');
+  const [dueDate, setDueDate] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const dateFormatter = React.useMemo(
+    () => new Intl.DateTimeFormat(language === 'ru' ? 'ru-RU' : 'en-US', { day: 'numeric', month: 'long', year: 'numeric' }),
+    [language]
+  );
+  const hasDailyGoal = goals.some((entry) => entry.goal.kind === 'daily-minutes');
+  const controlStyle = {
+    borderColor: palette.buttonBorder,
+    backgroundColor: palette.inputBg,
+    color: palette.inputText
+  };
+  const canAdd = kind === 'finish-book' ? bookId.length > 0 : Number(target) > 0;
+
+  const runAndNotify = async (action: () => Promise<boolean>) => {
+    setSaving(true);
+    try {
+      if (await action()) {
+        onGoalsChanged?.();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onAddGoal = () =>
+    runAndNotify(async () => {
+      const saved = await saveGoal({
+        kind,
+        target: Number(target),
+        bookId: kind === 'finish-book' ? bookId : null,
+        dueAt: kind === 'finish-book' ? parseDateInput(dueDate) : null
+      });
+      if (saved) {
+        setBookId('');
+        setDueDate('');
+      }
+      return saved;
+    });
+
+  const renderGoal = (entry: ReadingGoalProgress) => {
+    const Icon = GOAL_ICONS[entry.goal.kind];
+    const percent = Math.min(100, Math.round((entry.current / Math.max(1, entry.goal.target)) * 100));
+    const unit = entry.goal.kind === 'daily-minutes' ? t.goals.minutesUnit : t.goals.booksUnit;
+    const status = entry.completed ? t.goals.completed : entry.overdue ? t.goals.overdue : t.goals.inProgress;
+    const title =
+      entry.goal.kind === 'finish-book' && entry.bookTitle
+        ? `${t.goals.kindFinish}: ${entry.bookTitle}`
+        : getGoalLabel(entry.goal.kind, t);
+
+    return (
+      <li
+        key={entry.goal.id}
+        className="space-y-3 rounded-2xl border px-4 py-3.5"
+        style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex min-w-0 items-start gap-3">
+            <span
+              className="inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-xl border"
+              style={{ borderColor: palette.accentBorder, backgroundColor: palette.accentBg, color: palette.accentText }}
+            >
+              <Icon className="h-4 w-4" />
+            </span>
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium">{title}</p>
+              <p className="text-xs text-muted-foreground">
+                {entry.goal.kind === 'finish-book'
+                  ? entry.goal.dueAt
+                    ? `${t.goals.dueBy} ${dateFormatter.format(entry.goal.dueAt)}`
+                    : status
+                  : `${entry.current} / ${entry.goal.target} ${unit}`}
+              </p>
+            </div>
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            <span
+              className="rounded-full border px-2.5 py-1 text-[11px] font-semibold"
+              style={{
+                borderColor: entry.overdue ? 'hsl(var(--destructive))' : palette.chromeBorder,
+                color: entry.overdue ? 'hsl(var(--destructive))' : entry.completed ? palette.focusRing : palette.mutedText
+              }}
+            >
+              {status}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              disabled={saving}
+              title={t.goals.removeGoal}
+              aria-label={t.goals.removeGoal}
+              onClick={() => void runAndNotify(() => deleteGoal(entry.goal.id))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+          <div className="h-full rounded-full transition-[width]" style={{ width: `${percent}%`, backgroundColor: palette.focusRing }} />
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <section className="app-surface flex flex-col gap-5 rounded-[1.7rem] border border-white/40 bg-card/95 p-5">
+      <div className="flex items-start gap-3">
+        <Target className="mt-1 h-5 w-5 text-muted-foreground" />
+        <div>
+          <h2 className="text-xl font-semibold tracking-tight">{t.goals.title}</h2>
+          <p className="text-sm text-muted-foreground">{t.goals.description}</p>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-destructive">
+          {t.goals.loadError}: {error}
+        </p>
+      ) : null}
+
+      {!loading && goals.length === 0 ? (
+        <div className="rounded-2xl border border-dashed px-4 py-5 text-center" style={{ borderColor: palette.chromeBorder }}>
+          <p className="text-sm font-medium">{t.goals.emptyTitle}</p>
+          <p className="text-sm text-muted-foreground">{t.goals.emptyDescription}</p>
+        </div>
+      ) : (
+        <ul className="grid grid-cols-1 gap-3 xl:grid-cols-2">{goals.map(renderGoal)}</ul>
+      )}
+
+      <div className="flex flex-col gap-3 xl:flex-row xl:items-end">
+        <div className="space-y-2">
+          <span className="text-xs font-semibold uppercase tracking-[0.18em] text-muted-foreground">{t.goals.addGoal}</span>
+          <select
+            value={kind}
+            onChange={(event) => {
+              const nextKind = event.target.value as ReadingGoalKind;
+              setKind(nextKind);
+              setTarget(DEFAULT_TARGETS[nextKind]);
+            }}
+            className="h-10 w-full rounded-xl border px-3 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring xl:w-48"
+            style={controlStyle}
+            disabled={saving}
+          >
+            <option value="daily-minutes">{t.goals.kindDaily}</option>
+            <option value="yearly-books">{t.goals.kindYearly}</option>
+            <option value="finish-book">{t.goals.kindFinish}</option>
+          </select>
+        </div>
+
+        {kind === 'finish-book' ? (
+          <>
+            <label className="flex-1 space-y-2">
+              <span className="text-xs text-muted-foreground">{t.goals.book}</span>
+              <select
+                value={bookId}
+                onChange={(event) => setBookId(event.target.value)}
+                className="h-10 w-full rounded-xl border px-3 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                style={controlStyle}
+                disabled={saving}
+              >
+                <option value="">{t.goals.chooseBook}</option>
+                {books
+                  .filter((book) => !book.finishedAt)
+                  .map((book) => (
+                    <option key={book.id} value={book.id}>
+                      {book.title}
+                    </option>
+                  ))}
+              </select>
+            </label>
+            <label className="space-y-2">
+              <span className="text-xs text-muted-foreground">{t.goals.dueDate}</span>
+              <Input type="date" value={dueDate} onChange={(event) => setDueDate(event.target.value)} disabled={saving} />
+            </label>
+          </>
+        ) : (
+          <label className="space-y-2">
+            <span className="text-xs text-muted-foreground">
+              {t.goals.target}, {kind === 'daily-minutes' ? t.goals.minutesUnit : t.goals.booksUnit}
+            </span>
+            <Input
+              type="number"
+              min={1}
+              max={kind === 'daily-minutes' ? 1440 : 1000}
+              value={target}
+              onChange={(event) => setTarget(event.target.value)}
+              className="xl:w-32"
+              disabled={saving}
+            />
+          </label>
+        )}
+
+        <Button type="button" onClick={() => void onAddGoal()} disabled={saving || !canAdd}>
+          <Plus className="h-4 w-4" />
+          {t.goals.addGoal}
+        </Button>
+      </div>
+
+      {reminder ? (
+        <div
+          className="flex flex-col gap-3 rounded-2xl border px-4 py-3.5 lg:flex-row lg:items-center lg:justify-between"
+          style={{ borderColor: palette.chromeBorder }}
+        >
+          <div className="flex items-start gap-3">
+            <BellRing className="mt-0.5 h-4 w-4 text-muted-foreground" />
+            <div>
+              <p className="text-sm font-medium">{t.goals.reminderTitle}</p>
+              <p className="text-sm text-muted-foreground">
+                {hasDailyGoal ? t.goals.reminderDescription : t.goals.reminderNeedsDaily}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="inline-flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded"
+                checked={reminder.enabled}
+                onChange={(event) => void setReminder({ ...reminder, enabled: event.target.checked, language })}
+                style={{ accentColor: palette.focusRing }}
+              />
+              {t.goals.reminderEnabled}
+            </label>
+            <label className="inline-flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">{t.goals.reminderTime}</span>
+              <Input
+                type="time"
+                value={reminder.time}
+                onChange={(event) => {
+                  if (event.target.value) {
+                    void setReminder({ ...reminder, time: event.target.value, language });
+                  }
+                }}
+                className="w-28"
+              />
+            </label>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,29 @@
+import * as React from 'react';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+import { cn } from '@/lib/utils';
+import type { SearchSnippetPart } from '../../shared/ipc';
+
+type Props = {
+  parts: SearchSnippetPart[];
+  className?: string;
+};
+
+export function SearchSnippet({ parts, className }: Props) {
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+
+  return (
+    <p className={cn('text-sm leading-6 text-muted-foreground', className)}>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded px-0.5 font-medium" style={{ backgroundColor: palette.accentBg, color: palette.accentText }}>
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      )}
+    </p>
+  );
+}
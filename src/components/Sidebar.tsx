@@ -1,22 +1,251 @@
-import { BookOpen, Brain, Bookmark, Settings, Sparkles } from 'lucide-react';
+import { BookOpen, Brain, Bookmark, Library, Plus, Search, Settings, Sparkles, Target } from 'lucide-react';
+import * as React from 'react';
 import type { ComponentType } from 'react';
 import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { getReaderThemePalette } from '@/lib/reader-theme';
+import { hasDraggedFiles } from '@/lib/useFileDrop';
+import { useReadingGoals } from '@/lib/useReadingGoals';
+import type { BookCollection } from '../../shared/ipc';
 
-export type AppView = 'library' | 'import' | 'notes' | 'insights' | 'recommendations' | 'wishlist' | 'settings';
+export type AppView = 'library' | 'search' | 'import' | 'notes' | 'insights' | 'recommendations' | 'wishlist' | 'settings';
 
 type Props = {
   currentView: AppView;
   onViewChange: (view: AppView) => void;
+  goalsRefreshKey?: string | number;
+  collections?: BookCollection[];
+  activeCollectionId?: string | null;
+  onCollectionSelect?: (collectionId: string | null) => void;
+  onCollectionCreate?: (name: string) => Promise<boolean>;
+  onCollectionFilesDrop?: (files: File[], collectionId: string) => void;
 };
 
-export function Sidebar({ currentView, onViewChange }: Props) {
+const GOALS_POLL_INTERVAL_MS = 60_000;
+
+function DailyGoalWidget({ refreshKey, onOpen }: { refreshKey?: string | number; onOpen: () => void }) {
+  const { settings } = useReaderSettings();
+  const { language, t } = useLanguage();
+  const palette = getReaderThemePalette(settings);
+  const { goals, reminder, refresh, setReminder } = useReadingGoals(refreshKey);
+  const dailyGoal = goals.find((entry) => entry.goal.kind === 'daily-minutes') ?? null;
+
+  React.useEffect(() => {
+    const interval = window.setInterval(() => void refresh(), GOALS_POLL_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [refresh]);
+
+  // The reminder is rendered by the main process, so it follows the interface language.
+  React.useEffect(() => {
+    if (reminder && reminder.language !== language) {
+      void setReminder({ ...reminder, language });
+    }
+  }, [language, reminder, setReminder]);
+
+  const percent = dailyGoal ? Math.min(100, Math.round((dailyGoal.current / Math.max(1, dailyGoal.goal.target)) * 100)) : 0;
+  const minutesLeft = dailyGoal ? Math.max(0, dailyGoal.goal.target - dailyGoal.current) : 0;
+
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      className="surface-hover hidden shrink-0 space-y-2 rounded-2xl border px-3.5 py-3 text-left focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring lg:mt-4 lg:block"
+      style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg, color: palette.chromeText }}
+    >
+      <span className="flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.18em]" style={{ color: palette.mutedText }}>
+        <Target className="h-3.5 w-3.5" />
+        {t.goals.sidebarTitle}
+      </span>
+      {dailyGoal ? (
+        <>
+          <span className="flex items-baseline justify-between gap-2 text-sm">
+            <span className="font-semibold">
+              {dailyGoal.current} / {dailyGoal.goal.target} {t.goals.minutesUnit}
+            </span>
+            <span className="text-xs" style={{ color: palette.mutedText }}>
+              {dailyGoal.completed ? t.goals.sidebarDone : `${t.goals.minutesLeft} ${minutesLeft} ${t.goals.minutesUnit}`}
+            </span>
+          </span>
+          <span className="block h-1.5 overflow-hidden rounded-full" style={{ backgroundColor: palette.chromeBorder }}>
+            <span
+              className="block h-full rounded-full transition-[width]"
+              style={{ width: `${percent}%`, backgroundColor: palette.focusRing }}
+            />
+          </span>
+        </>
+      ) : (
+        <span className="block text-xs" style={{ color: palette.mutedText }}>
+          {t.goals.sidebarEmpty}
+        </span>
+      )}
+    </button>
+  );
+}
+
+function SidebarCollections({
+  collections,
+  activeCollectionId,
+  libraryActive,
+  onSelect,
+  onCreate,
+  onFilesDrop
+}: {
+  collections: BookCollection[];
+  activeCollectionId: string | null;
+  libraryActive: boolean;
+  onSelect: (collectionId: string | null) => void;
+  onCreate?: (name: string) => Promise<boolean>;
+  onFilesDrop?: (files: File[], collectionId: string) => void;
+}) {
+  const { settings } = useReaderSettings();
+  const { t } = useLanguage();
+  const palette = getReaderThemePalette(settings);
+  const [creating, setCreating] = React.useState(false);
+  const [draftName, setDraftName] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [dropTargetId, setDropTargetId] = React.useState<string | null>(null);
+
+  const submit = async () => {
+    const name = draftName.trim();
+    if (!name || !onCreate) {
+      setCreating(false);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (await onCreate(name)) {
+        setDraftName('');
+        setCreating(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderEntry = (collectionId: string | null, label: string, count?: number) => {
+    const isActive = libraryActive && activeCollectionId === collectionId;
+    const isDropTarget = collectionId !== null && dropTargetId === collectionId;
+    const dropHandlers =
+      collectionId !== null && onFilesDrop
+        ? {
+            onDragOver: (event: React.DragEvent<HTMLButtonElement>) => {
+              if (hasDraggedFiles(event.dataTransfer)) {
+                setDropTargetId(collectionId);
+              }
+            },
+            onDragLeave: () => setDropTargetId(null),
+            onDrop: (event: React.DragEvent<HTMLButtonElement>) => {
+              if (!hasDraggedFiles(event.dataTransfer)) {
+                return;
+              }
+              event.preventDefault();
+              setDropTargetId(null);
+              onFilesDrop(Array.from(event.dataTransfer.files), collectionId);
+            }
+          }
+        : {};
+    return (
+      <button
+        key={collectionId ?? 'all'}
+        type="button"
+        onClick={() => onSelect(collectionId)}
+        className="surface-hover flex w-full items-center gap-2 rounded-xl border px-3 py-2 text-left text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        style={
+          isActive || isDropTarget
+            ? { backgroundColor: palette.accentBg, borderColor: palette.accentBorder, color: palette.accentText }
+            : { borderColor: 'transparent', color: palette.chromeText }
+        }
+        aria-current={isActive ? 'true' : undefined}
+        {...dropHandlers}
+      >
+        <span className="min-w-0 flex-1 truncate">{label}</span>
+        {count !== undefined ? (
+          <span className="text-xs tabular-nums" style={{ color: isActive ? palette.accentText : palette.mutedText }}>
+            {count}
+          </span>
+        ) : null}
+      </button>
+    );
+  };
+
+  return (
+    <section className="hidden min-h-0 shrink-0 flex-col lg:mt-4 lg:flex" aria-label={t.collections.sidebarTitle}>
+      <div className="mb-1.5 flex items-center justify-between gap-2 px-2">
+        <span className="flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.18em]" style={{ color: palette.mutedText }}>
+          <Library className="h-3.5 w-3.5" />
+          {t.collections.sidebarTitle}
+        </span>
+        {onCreate ? (
+          <button
+            type="button"
+            onClick={() => setCreating((value) => !value)}
+            className="inline-flex h-6 w-6 items-center justify-center rounded-lg border focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            style={{ borderColor: palette.chromeBorder, color: palette.mutedText }}
+            title={t.collections.newCollection}
+            aria-label={t.collections.newCollection}
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </button>
+        ) : null}
+      </div>
+
+      {creating ? (
+        <form
+          className="mb-1.5 px-1"
+          onSubmit={(event) => {
+            event.preventDefault();
+            void submit();
+          }}
+        >
+          <input
+            autoFocus
+            value={draftName}
+            disabled={saving}
+            onChange={(event) => setDraftName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Escape') {
+                setDraftName('');
+                setCreating(false);
+              }
+            }}
+            placeholder={t.collections.namePlaceholder}
+            aria-label={t.collections.namePlaceholder}
+            className="h-9 w-full rounded-xl border px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}
+          />
+        </form>
+      ) : null}
+
+      <div className="max-h-56 space-y-0.5 overflow-y-auto">
+        {renderEntry(null, t.collections.allBooks)}
+        {collections.map((collection) => renderEntry(collection.id, collection.name, collection.bookCount))}
+      </div>
+      {collections.length === 0 && !creating ? (
+        <p className="mt-1.5 px-3 text-xs" style={{ color: palette.mutedText }}>
+          {t.collections.sidebarEmpty}
+        </p>
+      ) : null}
+    </section>
+  );
+}
+
+export function Sidebar({
+  currentView,
+  onViewChange,
+  goalsRefreshKey,
+  collections = [],
+  activeCollectionId = null,
+  onCollectionSelect,
+  onCollectionCreate,
+  onCollectionFilesDrop
+}: Props) {
   const { settings } = useReaderSettings();
   const { language, t } = useLanguage();
   const palette = getReaderThemePalette(settings);
   const navItems: Array<{ view: AppView; label: string; icon: ComponentType<{ className?: string }> }> = [
     { view: 'library', label: t.sidebar.library, icon: BookOpen },
+    { view: 'search', label: t.sidebar.search, icon: Search },
     { view: 'insights', label: t.sidebar.knowledgeHub, icon: Brain },
     { view: 'recommendations', label: language === 'ru' ? 'Рекомендации' : 'Recommendations', icon: Sparkles },
     { view: 'wishlist', label: language === 'ru' ? 'Вишлист' : 'Wishlist', icon: Bookmark },
@@ -110,6 +339,19 @@ export function Sidebar({ currentView, onViewChange }: Props) {
           );
         })}
       </nav>
+
+      {onCollectionSelect ? (
+        <SidebarCollections
+          collections={collections}
+          activeCollectionId={activeCollectionId}
+          libraryActive={currentView === 'library'}
+          onSelect={onCollectionSelect}
+          onCreate={onCollectionCreate}
+          onFilesDrop={onCollectionFilesDrop}
+        />
+      ) : null}
+
+      <DailyGoalWidget refreshKey={goalsRefreshKey} onOpen={() => onViewChange('library')} />
     </aside>
   );
 }
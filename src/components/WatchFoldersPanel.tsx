@@ -0,0 +1,103 @@
+import * as React from 'react';
+import { FolderPlus, Trash2 } from 'lucide-react';
+import type { WatchFolder } from '../../shared/ipc';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+export function WatchFoldersPanel() {
+  const { t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const [folders, setFolders] = React.useState<WatchFolder[]>([]);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  React.useEffect(() => {
+    void run(async () => {
+      const result = await getRendererApi().watchFolders.list();
+      if (result.ok) {
+        setFolders(result.folders);
+      } else {
+        setError(result.error);
+      }
+    });
+  }, []);
+
+  const handleAdd = () =>
+    run(async () => {
+      const result = await getRendererApi().watchFolders.add();
+      if (result.ok) {
+        setFolders(result.folders);
+      } else if (!('cancelled' in result)) {
+        setError(result.error);
+      }
+    });
+
+  const handleRemove = (id: string) =>
+    run(async () => {
+      const result = await getRendererApi().watchFolders.remove({ id });
+      if (result.ok) {
+        setFolders(result.folders);
+      } else {
+        setError(result.error);
+      }
+    });
+
+  return (
+    <div className="space-y-3">
+      {folders.length === 0 ? (
+        <p className="text-sm" style={{ color: palette.mutedText }}>{t.watchFolders.empty}</p>
+      ) : (
+        <ul className="space-y-2">
+          {folders.map((folder) => (
+            <li
+              key={folder.id}
+              className="flex items-center justify-between gap-3 rounded-xl border px-3 py-2"
+              style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}
+            >
+              <span className="min-w-0 break-all text-sm">
+                {folder.path}
+                {!folder.available ? (
+                  <span className="ml-2 text-xs text-destructive">({t.watchFolders.unavailable})</span>
+                ) : null}
+              </span>
+              <Button type="button" variant="outline" size="sm" onClick={() => void handleRemove(folder.id)} disabled={busy}>
+                <Trash2 className="h-3.5 w-3.5" />
+                {t.watchFolders.remove}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Button type="button" variant="outline" onClick={() => void handleAdd()} disabled={busy}>
+        <FolderPlus className="mr-2 h-4 w-4" />
+        {t.watchFolders.add}
+      </Button>
+
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+    </div>
+  );
+}
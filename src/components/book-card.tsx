@@ -1,5 +1,5 @@
 import * as React from 'react';
-import { Bookmark, FolderOpen, Highlighter, MoreHorizontal, Trash2 } from 'lucide-react';
+import { Bookmark, BookOpen, BookmarkPlus, Check, CheckCircle2, CircleSlash, FolderOpen, Highlighter, Info, MoreHorizontal, Trash2 } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -20,9 +20,10 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { FORMAT_BADGE_LABELS } from '@/lib/constants';
-import type { Book } from '../../shared/ipc';
+import { READING_STATUSES, type Book, type ReadingStatus } from '../../shared/ipc';
 import type { BookActivitySummary, BookMetric } from '@/lib/library-metrics';
 import { cn } from '@/lib/utils';
+import { formatSeriesLabel } from '../../shared/series';
 
 type Props = {
   book: Book;
@@ -30,11 +31,22 @@ type Props = {
   onInspect?: (book: Book) => void;
   onReveal: (bookId: string) => void;
   onDelete: (bookId: string) => void;
+  onStatusChange?: (book: Book, status: ReadingStatus) => void;
   loading: boolean;
   metric?: BookMetric;
   activity?: BookActivitySummary;
   lastOpenedAt?: number | null;
   variant?: 'library' | 'continue';
+  selectable?: boolean;
+  selected?: boolean;
+  onSelectedChange?: (book: Book, selected: boolean) => void;
+};
+
+const STATUS_ICONS: Record<ReadingStatus, typeof BookOpen> = {
+  'want-to-read': BookmarkPlus,
+  reading: BookOpen,
+  finished: CheckCircle2,
+  abandoned: CircleSlash
 };
 
 function getInitials(title: string) {
@@ -98,14 +110,18 @@ function MetaLine({ children }: { children?: React.ReactNode }) {
 function BookCardComponent({
   book,
   onOpen,
-  onInspect: _onInspect,
+  onInspect,
   onReveal,
   onDelete,
+  onStatusChange,
   loading,
   metric,
   activity,
   lastOpenedAt,
-  variant = 'library'
+  variant = 'library',
+  selectable = false,
+  selected = false,
+  onSelectedChange
 }: Props) {
   const { language, t } = useLanguage();
   const [confirmOpen, setConfirmOpen] = React.useState(false);
@@ -123,12 +139,31 @@ function BookCardComponent({
     : `${t.bookCard.addedOn} ${createdAtFormatter.format(book.createdAt)}`;
   const isContinueCard = variant === 'continue';
   const authorLine = [book.author, book.publishYear ? String(book.publishYear) : null].filter(Boolean).join(' • ');
+  const tags = book.tags ?? [];
+  const status = book.status ?? 'want-to-read';
+  const StatusIcon = STATUS_ICONS[status];
+  const statusTitle = [
+    t.readingStatus[status],
+    book.startedAt ? `${t.readingStatus.startedOn} ${createdAtFormatter.format(book.startedAt)}` : null,
+    book.finishedAt ? `${t.readingStatus.finishedOn} ${createdAtFormatter.format(book.finishedAt)}` : null
+  ]
+    .filter(Boolean)
+    .join(' · ');
+  // In selection mode the cover and body toggle selection; the explicit Open button still opens the book.
+  const activate = () => {
+    if (selectable) {
+      onSelectedChange?.(book, !selected);
+      return;
+    }
+    onOpen(book);
+  };
 
   return (
     <Card
       className={cn(
         'surface-hover h-full overflow-hidden border-white/40 bg-card/95',
-        isContinueCard ? 'ring-1 ring-primary/10' : ''
+        isContinueCard ? 'ring-1 ring-primary/10' : '',
+        selected ? 'ring-2 ring-primary' : ''
       )}
     >
       <div
@@ -139,6 +174,22 @@ function BookCardComponent({
             : 'h-56 bg-[radial-gradient(circle_at_top,rgba(59,130,246,0.12),transparent_55%),linear-gradient(180deg,hsl(var(--muted))_0%,transparent_100%)]'
         )}
       >
+        {selectable ? (
+          <button
+            type="button"
+            role="checkbox"
+            aria-checked={selected}
+            aria-label={`${t.collections.selectBook} ${book.title}`}
+            title={t.collections.selectBook}
+            className={cn(
+              'absolute left-3 top-3 z-10 inline-flex h-7 w-7 items-center justify-center rounded-lg border shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+              selected ? 'border-primary bg-primary text-primary-foreground' : 'border-border bg-background/90 text-transparent'
+            )}
+            onClick={() => onSelectedChange?.(book, !selected)}
+          >
+            <Check className="h-4 w-4" />
+          </button>
+        ) : null}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button
@@ -155,6 +206,17 @@ function BookCardComponent({
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
+            {onInspect ? (
+              <DropdownMenuItem
+                onSelect={(event) => {
+                  event.preventDefault();
+                  onInspect(book);
+                }}
+              >
+                <Info className="mr-2 h-4 w-4" />
+                {t.bookCard.details}
+              </DropdownMenuItem>
+            ) : null}
             <DropdownMenuItem
               onSelect={(event) => {
                 event.preventDefault();
@@ -164,6 +226,26 @@ function BookCardComponent({
               <FolderOpen className="mr-2 h-4 w-4" />
               {t.bookCard.showInFolder}
             </DropdownMenuItem>
+            {onStatusChange
+              ? READING_STATUSES.map((option) => {
+                  const OptionIcon = STATUS_ICONS[option];
+                  return (
+                    <DropdownMenuItem
+                      key={option}
+                      onSelect={(event) => {
+                        event.preventDefault();
+                        if (option !== status) {
+                          onStatusChange(book, option);
+                        }
+                      }}
+                    >
+                      <OptionIcon className="mr-2 h-4 w-4" />
+                      <span className="flex-1">{t.readingStatus[option]}</span>
+                      {option === status ? <Check className="ml-3 h-4 w-4" /> : null}
+                    </DropdownMenuItem>
+                  );
+                })
+              : null}
             <DropdownMenuItem
               className="text-destructive focus:text-destructive"
               onSelect={(event) => {
@@ -180,9 +262,9 @@ function BookCardComponent({
         <button
           type="button"
           className="flex h-full w-full items-center justify-center focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-          onClick={() => onOpen(book)}
+          onClick={activate}
           disabled={loading}
-          aria-label={`${t.bookCard.openBook} ${book.title}`}
+          aria-label={selectable ? `${t.collections.selectBook} ${book.title}` : `${t.bookCard.openBook} ${book.title}`}
         >
           <div className="flex h-full w-full items-center justify-center px-6 py-6">
             <div className="h-44 w-[7.4rem] overflow-hidden rounded-[1.45rem] border border-white/50 bg-background/85 shadow-xl shadow-black/10 backdrop-blur">
@@ -206,7 +288,7 @@ function BookCardComponent({
         className="w-full text-left focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
         onClick={() => {
           if (!loading) {
-            onOpen(book);
+            activate();
           }
         }}
         onKeyDown={(event) => {
@@ -215,10 +297,10 @@ function BookCardComponent({
           }
           if (event.key === 'Enter' || event.key === ' ') {
             event.preventDefault();
-            onOpen(book);
+            activate();
           }
         }}
-        aria-label={`${t.bookCard.openBook} ${book.title}`}
+        aria-label={selectable ? `${t.collections.selectBook} ${book.title}` : `${t.bookCard.openBook} ${book.title}`}
       >
         <CardContent className={cn('space-y-4 p-5', isContinueCard ? 'pb-6' : '')}>
           <div className="flex min-h-[128px] flex-col">
@@ -231,20 +313,49 @@ function BookCardComponent({
               {book.title}
             </p>
             <div className="mt-2 space-y-1">
-              <MetaLine>{book.subtitle}</MetaLine>
+              <MetaLine>{book.subtitle ?? formatSeriesLabel(book)}</MetaLine>
               <MetaLine>{authorLine}</MetaLine>
             </div>
+            {tags.length > 0 ? (
+              <div className="mt-2 flex flex-wrap gap-1" aria-label={t.collections.tags}>
+                {tags.slice(0, 4).map((tag) => (
+                  <span
+                    key={tag}
+                    className="max-w-[8rem] truncate rounded-full border border-border/70 bg-muted/50 px-2 py-0.5 text-[11px] text-muted-foreground"
+                  >
+                    #{tag}
+                  </span>
+                ))}
+                {tags.length > 4 ? <span className="px-1 text-[11px] text-muted-foreground">+{tags.length - 4}</span> : null}
+              </div>
+            ) : null}
             <div className="mt-auto flex items-center justify-between gap-2 pt-2">
-              <span className="rounded-full border border-border/70 bg-background/75 px-2.5 py-1 text-[11px] font-semibold uppercase tracking-[0.18em] text-muted-foreground">
-                {FORMAT_BADGE_LABELS[book.format]}
-              </span>
+              <div className="flex items-center gap-1.5">
+                <span className="rounded-full border border-border/70 bg-background/75 px-2.5 py-1 text-[11px] font-semibold uppercase tracking-[0.18em] text-muted-foreground">
+                  {FORMAT_BADGE_LABELS[book.format]}
+                </span>
+                {status !== 'want-to-read' ? (
+                  <span
+                    className={cn(
+                      'inline-flex items-center rounded-full border p-1',
+                      status === 'abandoned'
+                        ? 'border-border/70 bg-muted/60 text-muted-foreground'
+                        : 'border-primary/25 bg-primary/10 text-primary'
+                    )}
+                    title={statusTitle}
+                    aria-label={`${t.bookCard.status}: ${statusTitle}`}
+                  >
+                    <StatusIcon className="h-3.5 w-3.5" />
+                  </span>
+                ) : null}
+              </div>
               <span className="truncate text-[11px] text-muted-foreground">{metadataLabel}</span>
             </div>
           </div>
 
           <div className="flex min-h-[82px] flex-col justify-between space-y-2 rounded-2xl border border-border/60 bg-muted/35 px-3.5 py-3.5">
             <div className="flex items-center justify-between gap-3 text-[11px] text-muted-foreground">
-              <span>{metric?.currentLocationLabel ?? (book.format === 'pdf' ? t.bookCard.positionUnavailable : t.bookCard.continueReading)}</span>
+              <span>{metric?.currentLocationLabel ?? (book.format === 'pdf' || book.format === 'cbz' ? t.bookCard.positionUnavailable : t.bookCard.continueReading)}</span>
               <span>{metric?.pageCountLabel ?? t.bookCard.loadingProgress}</span>
             </div>
             {!isContinueCard ? (
@@ -1,21 +1,37 @@
 import * as React from 'react';
-import { ArrowUpDown, BookMarked, Clock3, Compass, Plus, Search } from 'lucide-react';
+import { ArrowUpDown, BookMarked, CheckSquare, Clock3, Compass, Copy, FolderInput, Layers, Library, LayoutGrid, Pencil, Plus, Search, Tag, Trash2 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { ScreenEmptyState, ScreenErrorState } from '@/components/ScreenState';
 import { SkeletonGrid } from '@/components/Skeletons';
 import { Input } from '@/components/ui/input';
 import { BookCard } from '@/components/book-card';
+import { LibraryDuplicatesView } from '@/components/LibraryDuplicatesView';
+import { LibraryImportActivityPanel } from '@/components/LibraryImportActivityPanel';
+import { LibrarySelectionBar } from '@/components/LibrarySelectionBar';
+import { LibrarySeriesView } from '@/components/LibrarySeriesView';
+import { ReadingGoalsPanel } from '@/components/ReadingGoalsPanel';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
 import { DEBOUNCE_MS, FORMAT_BADGE_LABELS, LIST_BATCH_SIZE } from '@/lib/constants';
-import { getReaderHeroCardStyles } from '@/lib/reader-theme';
+import { getReaderHeroCardStyles, getReaderThemePalette } from '@/lib/reader-theme';
 import { cn } from '@/lib/utils';
 import { useLibraryBookActivity, useLibraryBookMetrics, useRecentBooks } from '@/lib/library-metrics';
 import { useDebouncedValue } from '@/lib/useDebouncedValue';
 import { useIncrementalList } from '@/lib/useIncrementalList';
-import type { Book } from '../../shared/ipc';
+import { READING_STATUSES, type Book, type BookCollection, type BookFormat, type ReadingStatus } from '../../shared/ipc';
+import { groupBooksBySeries } from '../../shared/series';
 
 type Props = {
   books: Book[];
@@ -26,6 +42,13 @@ type Props = {
   onOpen: (book: Book) => void;
   onReveal: (bookId: string) => void;
   onDelete: (bookId: string) => void;
+  onStatusChange: (book: Book, status: ReadingStatus) => void;
+  onInspect: (book: Book) => void;
+  collections: BookCollection[];
+  activeCollectionId: string | null;
+  onActiveCollectionChange: (collectionId: string | null) => void;
+  onLibraryOrganized: () => Promise<void>;
+  onGoalsChanged: () => void;
   onImport: () => void;
   onDiscover: () => void;
   onAddSample: () => void;
@@ -33,8 +56,11 @@ type Props = {
 };
 
 type SortKey = 'recent-opened' | 'recent-added' | 'title' | 'format';
-type FormatFilter = 'all' | 'pdf' | 'epub' | 'fb2' | 'txt';
+type FormatFilter = 'all' | BookFormat;
+type StatusFilter = 'all' | ReadingStatus;
+type LibraryView = 'books' | 'series' | 'duplicates';
 
+const FORMAT_FILTERS: BookFormat[] = ['pdf', 'epub', 'fb2', 'txt', 'cbz', 'mobi', 'html', 'md'];
 const controlButtonClassName = 'h-9 rounded-full px-4 text-xs font-semibold';
 
 function getFilterButtonClassName(active: boolean) {
@@ -46,6 +72,129 @@ function getFilterButtonClassName(active: boolean) {
   );
 }
 
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+function ActiveCollectionBar({
+  collection,
+  onClose,
+  onChanged
+}: {
+  collection: BookCollection;
+  onClose: () => void;
+  onChanged: () => Promise<void>;
+}) {
+  const { t } = useLanguage();
+  const [renaming, setRenaming] = React.useState(false);
+  const [name, setName] = React.useState(collection.name);
+  const [confirmOpen, setConfirmOpen] = React.useState(false);
+  const [saving, setSaving] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setName(collection.name);
+    setRenaming(false);
+    setError(null);
+  }, [collection.id, collection.name]);
+
+  const run = async (action: () => Promise<{ ok: true } | { ok: false; error: string }>, onSuccess: () => void) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      onSuccess();
+      await onChanged();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded-2xl border border-primary/25 bg-primary/5 px-4 py-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {renaming ? (
+          <form
+            className="flex min-w-0 flex-1 items-center gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              void run(() => getRendererApi().collections.rename({ id: collection.id, name }), () => setRenaming(false));
+            }}
+          >
+            <Input
+              autoFocus
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              maxLength={80}
+              aria-label={t.collections.namePlaceholder}
+              className="h-9 max-w-xs"
+              disabled={saving}
+            />
+            <Button type="submit" size="sm" disabled={saving || !name.trim()}>
+              {t.collections.save}
+            </Button>
+            <Button type="button" variant="outline" size="sm" disabled={saving} onClick={() => setRenaming(false)}>
+              {t.collections.cancel}
+            </Button>
+          </form>
+        ) : (
+          <p className="flex min-w-0 items-center gap-2 text-sm">
+            <Library className="h-4 w-4 shrink-0 text-primary" />
+            <span className="text-muted-foreground">{t.collections.collection}:</span>
+            <span className="truncate font-semibold">{collection.name}</span>
+            <span className="text-xs text-muted-foreground">({collection.bookCount})</span>
+          </p>
+        )}
+        {!renaming ? (
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" size="sm" disabled={saving} onClick={() => setRenaming(true)}>
+              <Pencil className="h-3.5 w-3.5" />
+              {t.collections.rename}
+            </Button>
+            <Button type="button" variant="outline" size="sm" disabled={saving} onClick={() => setConfirmOpen(true)}>
+              <Trash2 className="h-3.5 w-3.5" />
+              {t.collections.delete}
+            </Button>
+            <Button type="button" variant="outline" size="sm" disabled={saving} onClick={onClose}>
+              {t.collections.allBooks}
+            </Button>
+          </div>
+        ) : null}
+      </div>
+      {error ? <p className="text-sm text-destructive">{error}</p> : null}
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.collections.deleteTitle}</AlertDialogTitle>
+            <AlertDialogDescription>{t.collections.deleteDescription}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>{t.collections.cancel}</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={saving}
+              onClick={() => void run(() => getRendererApi().collections.delete({ id: collection.id }), onClose)}
+            >
+              {t.collections.delete}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
 export function LibraryCard({
   books,
   refreshKey = 0,
@@ -55,6 +204,13 @@ export function LibraryCard({
   onOpen,
   onReveal,
   onDelete,
+  onStatusChange,
+  onInspect,
+  collections,
+  activeCollectionId,
+  onActiveCollectionChange,
+  onLibraryOrganized,
+  onGoalsChanged,
   onImport,
   onDiscover,
   onAddSample,
@@ -65,6 +221,14 @@ export function LibraryCard({
   const [searchQuery, setSearchQuery] = React.useState('');
   const [sortBy, setSortBy] = React.useState<SortKey>('recent-opened');
   const [formatFilter, setFormatFilter] = React.useState<FormatFilter>('all');
+  const [statusFilter, setStatusFilter] = React.useState<StatusFilter>('all');
+  const [tagFilter, setTagFilter] = React.useState<string | null>(null);
+  const [view, setView] = React.useState<LibraryView>('books');
+  const [selectionMode, setSelectionMode] = React.useState(false);
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(() => new Set());
+  const [importingFolder, setImportingFolder] = React.useState(false);
+  const [folderImportError, setFolderImportError] = React.useState<string | null>(null);
+  const palette = getReaderThemePalette(settings);
   const debouncedSearchQuery = useDebouncedValue(searchQuery, DEBOUNCE_MS.librarySearch);
   const refreshToken = React.useMemo(
     () => `${refreshKey}|${books.map((book) => `${book.id}:${book.createdAt}`).join('|')}`,
@@ -87,6 +251,29 @@ export function LibraryCard({
     [language]
   );
 
+  const activeCollection = collections.find((collection) => collection.id === activeCollectionId) ?? null;
+  const allTags = React.useMemo(() => {
+    const tags = new Map<string, string>();
+    for (const book of books) {
+      for (const tag of book.tags ?? []) {
+        if (!tags.has(tag.toLocaleLowerCase())) {
+          tags.set(tag.toLocaleLowerCase(), tag);
+        }
+      }
+    }
+    return [...tags.values()].sort((left, right) => left.localeCompare(right, 'ru-RU', { sensitivity: 'base' }));
+  }, [books]);
+  const selectedBookIds = React.useMemo(
+    () => books.filter((book) => selectedIds.has(book.id)).map((book) => book.id),
+    [books, selectedIds]
+  );
+
+  React.useEffect(() => {
+    if (tagFilter && !allTags.some((tag) => tag.toLocaleLowerCase() === tagFilter.toLocaleLowerCase())) {
+      setTagFilter(null);
+    }
+  }, [allTags, tagFilter]);
+
   const continueReadingBooks = recentBooks
     .map((entry) => books.find((book) => book.id === entry.bookId) ?? null)
     .filter((book): book is Book => Boolean(book))
@@ -96,12 +283,18 @@ export function LibraryCard({
     () =>
       books
         .filter((book) => formatFilter === 'all' || book.format === formatFilter)
+        .filter((book) => statusFilter === 'all' || (book.status ?? 'want-to-read') === statusFilter)
+        .filter((book) => !activeCollectionId || (book.collectionIds ?? []).includes(activeCollectionId))
+        .filter(
+          (book) =>
+            !tagFilter || (book.tags ?? []).some((tag) => tag.toLocaleLowerCase() === tagFilter.toLocaleLowerCase())
+        )
         .filter((book) => {
           if (trimmedQuery.length === 0) {
             return true;
           }
 
-          return [book.title, book.subtitle ?? '', book.author ?? ''].some((value) =>
+          return [book.title, book.subtitle ?? '', book.author ?? '', book.series ?? ''].some((value) =>
             value.toLocaleLowerCase().includes(trimmedQuery)
           );
         })
@@ -134,9 +327,43 @@ export function LibraryCard({
 
           return right.createdAt - left.createdAt;
         }),
-    [books, formatFilter, recentOrder, sortBy, trimmedQuery]
+    [activeCollectionId, books, formatFilter, recentOrder, sortBy, statusFilter, tagFilter, trimmedQuery]
   );
   const { visibleItems: visibleBooks, hasMore, showMore } = useIncrementalList(filteredBooks, LIST_BATCH_SIZE.library);
+  const filteredSeries = React.useMemo(() => groupBooksBySeries(filteredBooks), [filteredBooks]);
+
+  const onSelectedChange = React.useCallback((book: Book, selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (selected) {
+        next.add(book.id);
+      } else {
+        next.delete(book.id);
+      }
+      return next;
+    });
+  }, []);
+
+  // New books reach the list through the watch-folder activity event that App listens to.
+  const handleImportFolder = async () => {
+    setImportingFolder(true);
+    setFolderImportError(null);
+    try {
+      const result = await getRendererApi().books.importFolder();
+      if (!result.ok && !('cancelled' in result)) {
+        setFolderImportError(result.error);
+      }
+    } catch (importError) {
+      setFolderImportError(importError instanceof Error ? importError.message : String(importError));
+    } finally {
+      setImportingFolder(false);
+    }
+  };
+
+  const toggleSelectionMode = () => {
+    setSelectionMode((value) => !value);
+    setSelectedIds(new Set());
+  };
 
   return (
     <div className="flex w-full min-w-0 flex-col gap-6">
@@ -159,6 +386,10 @@ export function LibraryCard({
               <Plus className="h-4 w-4" />
               {t.library.importBook}
             </Button>
+            <Button type="button" variant="outline" size="lg" onClick={() => void handleImportFolder()} disabled={loading || importingFolder}>
+              <FolderInput className="h-4 w-4" />
+              {t.library.importFolder}
+            </Button>
             <Button type="button" variant="outline" size="lg" onClick={onDiscover} disabled={loading}>
               <Compass className="h-4 w-4" />
               {t.library.discoverBooks}
@@ -170,6 +401,9 @@ export function LibraryCard({
               {t.library.reload}
             </Button>
           </div>
+
+          {folderImportError ? <p className="text-sm text-destructive">{folderImportError}</p> : null}
+          <LibraryImportActivityPanel />
         </CardContent>
       </Card>
 
@@ -211,6 +445,8 @@ export function LibraryCard({
                       onOpen={onOpen}
                       onReveal={onReveal}
                       onDelete={onDelete}
+                      onStatusChange={onStatusChange}
+                      onInspect={onInspect}
                       loading={loading}
                       metric={metrics[book.id]}
                       activity={activity[book.id]}
@@ -223,6 +459,8 @@ export function LibraryCard({
             )}
           </section>
 
+          <ReadingGoalsPanel books={books} refreshKey={refreshToken} onGoalsChanged={onGoalsChanged} />
+
           <section className="space-y-4">
             <div className="app-surface flex flex-col gap-4 rounded-[1.7rem] border border-white/40 bg-card/95 p-5">
               <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
@@ -230,17 +468,76 @@ export function LibraryCard({
                   <h2 className="text-xl font-semibold tracking-tight">{t.library.browseTitle}</h2>
                   <p className="text-sm text-muted-foreground">{t.library.browseSubtitle}</p>
                 </div>
-                <div className="relative w-full lg:max-w-sm">
-                  <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                  <Input
-                    value={searchQuery}
-                    onChange={(event) => setSearchQuery(event.target.value)}
-                    placeholder={t.library.searchPlaceholder}
-                    className="pl-9"
-                  />
+                <div className="flex w-full items-center gap-2 lg:max-w-xl">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className={getFilterButtonClassName(view === 'books')}
+                    onClick={() => setView('books')}
+                    aria-pressed={view === 'books'}
+                  >
+                    <LayoutGrid className="h-3.5 w-3.5" />
+                    {t.series.viewBooks}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className={getFilterButtonClassName(view === 'series')}
+                    onClick={() => {
+                      setView('series');
+                      setSelectionMode(false);
+                      setSelectedIds(new Set());
+                    }}
+                    aria-pressed={view === 'series'}
+                  >
+                    <Layers className="h-3.5 w-3.5" />
+                    {t.series.viewSeries}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className={getFilterButtonClassName(view === 'duplicates')}
+                    onClick={() => {
+                      setView('duplicates');
+                      setSelectionMode(false);
+                      setSelectedIds(new Set());
+                    }}
+                    aria-pressed={view === 'duplicates'}
+                  >
+                    <Copy className="h-3.5 w-3.5" />
+                    {t.duplicates.view}
+                  </Button>
+                  <div className="relative min-w-0 flex-1">
+                    <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      value={searchQuery}
+                      onChange={(event) => setSearchQuery(event.target.value)}
+                      placeholder={t.library.searchPlaceholder}
+                      className="pl-9"
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className={getFilterButtonClassName(selectionMode)}
+                    onClick={toggleSelectionMode}
+                    aria-pressed={selectionMode}
+                    disabled={view !== 'books'}
+                  >
+                    <CheckSquare className="h-3.5 w-3.5" />
+                    {selectionMode ? t.collections.doneSelecting : t.collections.select}
+                  </Button>
                 </div>
               </div>
 
+              {activeCollection ? (
+                <ActiveCollectionBar
+                  collection={activeCollection}
+                  onClose={() => onActiveCollectionChange(null)}
+                  onChanged={onLibraryOrganized}
+                />
+              ) : null}
+
               <div className="flex flex-col gap-3 xl:flex-row xl:items-center xl:justify-between">
                 <div className="flex flex-wrap items-center gap-2">
                   <span className="inline-flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.18em] text-muted-foreground">
@@ -296,47 +593,121 @@ export function LibraryCard({
                   >
                     {t.library.filterAll}
                   </Button>
+                  {FORMAT_FILTERS.map((format) => (
+                    <Button
+                      key={format}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className={getFilterButtonClassName(formatFilter === format)}
+                      onClick={() => setFormatFilter(format)}
+                    >
+                      {FORMAT_BADGE_LABELS[format]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs font-semibold uppercase tracking-[0.18em] text-muted-foreground">
+                  {t.readingStatus.filter}
+                </span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className={getFilterButtonClassName(statusFilter === 'all')}
+                  onClick={() => setStatusFilter('all')}
+                >
+                  {t.readingStatus.allStatuses}
+                </Button>
+                {READING_STATUSES.map((status) => (
                   <Button
+                    key={status}
                     type="button"
                     variant="outline"
                     size="sm"
-                    className={getFilterButtonClassName(formatFilter === 'pdf')}
-                    onClick={() => setFormatFilter('pdf')}
-                  >
-                    {FORMAT_BADGE_LABELS.pdf}
-                  </Button>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    className={getFilterButtonClassName(formatFilter === 'epub')}
-                    onClick={() => setFormatFilter('epub')}
-                  >
-                    {FORMAT_BADGE_LABELS.epub}
-                  </Button>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    className={getFilterButtonClassName(formatFilter === 'fb2')}
-                    onClick={() => setFormatFilter('fb2')}
-                  >
-                    {FORMAT_BADGE_LABELS.fb2}
-                  </Button>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    className={getFilterButtonClassName(formatFilter === 'txt')}
-                    onClick={() => setFormatFilter('txt')}
+                    className={getFilterButtonClassName(statusFilter === status)}
+                    onClick={() => setStatusFilter(status)}
                   >
-                    {FORMAT_BADGE_LABELS.txt}
+                    {t.readingStatus[status]}
                   </Button>
-                </div>
+                ))}
               </div>
+
+              {allTags.length > 0 || collections.length > 0 ? (
+                <div className="flex flex-col gap-3 xl:flex-row xl:items-center xl:justify-between">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {allTags.length > 0 ? (
+                      <>
+                        <span className="inline-flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.18em] text-muted-foreground">
+                          <Tag className="h-3.5 w-3.5" />
+                          {t.collections.tags}
+                        </span>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className={getFilterButtonClassName(tagFilter === null)}
+                          onClick={() => setTagFilter(null)}
+                        >
+                          {t.collections.allTags}
+                        </Button>
+                        {allTags.map((tag) => (
+                          <Button
+                            key={tag}
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className={getFilterButtonClassName(tagFilter?.toLocaleLowerCase() === tag.toLocaleLowerCase())}
+                            onClick={() => setTagFilter(tag)}
+                          >
+                            #{tag}
+                          </Button>
+                        ))}
+                      </>
+                    ) : null}
+                  </div>
+
+                  {collections.length > 0 ? (
+                    <label className="flex items-center gap-2">
+                      <span className="text-xs font-semibold uppercase tracking-[0.18em] text-muted-foreground">
+                        {t.collections.collection}
+                      </span>
+                      <select
+                        value={activeCollectionId ?? ''}
+                        onChange={(event) => onActiveCollectionChange(event.target.value || null)}
+                        className="h-9 rounded-full border px-4 text-xs font-semibold"
+                        style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}
+                      >
+                        <option value="">{t.collections.allCollections}</option>
+                        {collections.map((collection) => (
+                          <option key={collection.id} value={collection.id}>
+                            {collection.name} ({collection.bookCount})
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ) : null}
+                </div>
+              ) : null}
+
+              {selectionMode ? (
+                <LibrarySelectionBar
+                  selectedBookIds={selectedBookIds}
+                  visibleCount={filteredBooks.length}
+                  collections={collections}
+                  activeCollectionId={activeCollectionId}
+                  onSelectVisible={() => setSelectedIds(new Set(filteredBooks.map((book) => book.id)))}
+                  onClear={() => setSelectedIds(new Set())}
+                  onChanged={onLibraryOrganized}
+                />
+              ) : null}
             </div>
 
-            {filteredBooks.length === 0 ? (
+            {view === 'duplicates' ? (
+              <LibraryDuplicatesView books={books} refreshToken={refreshToken} onOpen={onOpen} onMerged={onLibraryOrganized} />
+            ) : filteredBooks.length === 0 ? (
               <ScreenEmptyState
                 title={t.library.noBooksFoundTitle}
                 description={t.library.noBooksFoundDescription}
@@ -344,6 +715,8 @@ export function LibraryCard({
               />
             ) : loading ? (
               <SkeletonGrid count={6} variant="library" />
+            ) : view === 'series' ? (
+              <LibrarySeriesView series={filteredSeries} loading={loading} onOpen={onOpen} onInspect={onInspect} />
             ) : (
               <>
                 <ul className="grid grid-cols-1 gap-5 sm:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4">
@@ -354,10 +727,15 @@ export function LibraryCard({
                         onOpen={onOpen}
                         onReveal={onReveal}
                         onDelete={onDelete}
+                        onStatusChange={onStatusChange}
+                        onInspect={onInspect}
                         loading={loading}
                         metric={metrics[book.id]}
                         activity={activity[book.id]}
                         lastOpenedAt={lastOpenedAtByBookId.get(book.id) ?? null}
+                        selectable={selectionMode}
+                        selected={selectedIds.has(book.id)}
+                        onSelectedChange={onSelectedChange}
                       />
                     </li>
                   ))}
@@ -0,0 +1,54 @@
+import { CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+
+type Props = {
+  title: string;
+  saving?: boolean;
+  onConfirm: () => void;
+  onDismiss: () => void;
+};
+
+export function FinishBookPrompt({ title, saving = false, onConfirm, onDismiss }: Props) {
+  const { t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+
+  return (
+    <div
+      role="dialog"
+      aria-live="polite"
+      aria-label={t.readingStatus.finishPromptTitle}
+      className="fixed bottom-6 right-6 z-50 w-[min(22rem,calc(100vw-3rem))] space-y-3 rounded-2xl border p-4 shadow-xl"
+      style={{ backgroundColor: palette.panelBg, borderColor: palette.chromeBorder, color: palette.chromeText }}
+    >
+      <div className="flex items-start gap-3">
+        <span
+          className="inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-xl border"
+          style={{ borderColor: palette.accentBorder, backgroundColor: palette.accentBg, color: palette.accentText }}
+        >
+          <CheckCircle2 className="h-4 w-4" />
+        </span>
+        <div className="min-w-0 space-y-1">
+          <p className="text-sm font-semibold">{t.readingStatus.finishPromptTitle}</p>
+          <p className="truncate text-xs" style={{ color: palette.mutedText }}>
+            {title}
+          </p>
+          <p className="text-xs" style={{ color: palette.mutedText }}>
+            {t.readingStatus.finishPromptDescription}
+          </p>
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onDismiss} disabled={saving}>
+          {t.readingStatus.notNow}
+        </Button>
+        <Button type="button" size="sm" onClick={onConfirm} disabled={saving}>
+          {t.readingStatus.markFinished}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -13,16 +13,18 @@ import {
   Star,
   Trash2
 } from 'lucide-react';
-import type { BookFormat, EpubBookmark, Highlight } from '../../../shared/ipc';
+import type { BookFormat, DocumentBookFormat, EpubBookmark, Highlight } from '../../../shared/ipc';
 import { ReaderSettingsPanel } from '@/components/ReaderSettingsPanel';
 import { ExportDialog } from '@/components/ExportDialog';
+import { HighlightColorPicker } from '@/components/reader/HighlightColorPicker';
 import { HighlightsPanel, type ReaderHighlightItem } from '@/components/reader/HighlightsPanel';
 import { ReaderShell } from '@/components/reader/ReaderShell';
 import { ReaderSidePanel } from '@/components/reader/ReaderSidePanel';
 import { SearchPanel, type ReaderSearchResultItem } from '@/components/reader/SearchPanel';
 import { Button } from '@/components/ui/button';
-import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { useBookReaderSettings } from '@/contexts/ReaderSettingsContext';
 import { READER_PANEL_WIDTH } from '@/lib/constants';
+import { HIGHLIGHT_COLOR_SWATCHES } from '@/lib/highlight-colors';
 import { markCachedBookMetricDirty } from '@/lib/library-metrics-cache';
 import {
   isSameFlowPointLocation,
@@ -39,11 +41,14 @@ import {
   getReaderThemePalette
 } from '@/lib/reader-theme';
 import { useFlowBookmarks } from '@/lib/useFlowBookmarks';
-import { useFlowExport } from '@/lib/useFlowExport';
+import { useBookExport } from '@/lib/useBookExport';
 import { useFlowHighlights } from '@/lib/useFlowHighlights';
 import { useFlowSearch } from '@/lib/useFlowSearch';
+import { useHighlightCategories } from '@/lib/useHighlightCategories';
 import { useReadingSessionStats } from '@/lib/reading-stats';
 
+const END_OF_BOOK_SCROLL_RATIO = 0.98;
+
 type SavedFlowProgress = {
   chapterIndex: number | null;
   scrollRatio: number | null;
@@ -102,12 +107,13 @@ export type FlowReaderDocument = {
 type FlowDocumentReaderProps = {
   title: string;
   bookId: string;
-  format: Extract<BookFormat, 'fb2' | 'txt'>;
+  format: Extract<BookFormat, 'fb2' | 'txt'> | DocumentBookFormat;
   namespace: FlowLocationNamespace;
   initialCfi?: string | null;
   onInitialCfiApplied?: () => void;
   loading: boolean;
   onBack: () => void;
+  onReachedEnd?: () => void;
   loadDocument: (bookId: string) => Promise<FlowReaderDocument>;
   searchPlaceholder: string;
   loadingLabel: string;
@@ -382,6 +388,7 @@ export function FlowDocumentReader({
   onInitialCfiApplied,
   loading,
   onBack,
+  onReachedEnd,
   loadDocument,
   searchPlaceholder,
   loadingLabel,
@@ -416,7 +423,7 @@ export function FlowDocumentReader({
   const [highlightMenu, setHighlightMenu] = React.useState<HighlightMenuState>(null);
   const [highlightEditor, setHighlightEditor] = React.useState<HighlightEditorState>(null);
   const [resolvedHighlightOverlays, setResolvedHighlightOverlays] = React.useState<ResolvedHighlightOverlay[]>([]);
-  const { settings, loading: settingsLoading, error: settingsError, updateSettings } = useReaderSettings();
+  const { settings, loading: settingsLoading, error: settingsError, updateSettings } = useBookReaderSettings(bookId);
   const palette = React.useMemo(() => getReaderThemePalette(settings), [settings]);
   const bodyStyles = React.useMemo(() => getEpubThemeBodyStyles(settings), [settings]);
   const fontStack = React.useMemo(() => getEffectiveEpubFontFamily(settings), [settings]);
@@ -427,10 +434,19 @@ export function FlowDocumentReader({
   const { registerActivity, flush: flushReadingStats } = useReadingSessionStats({
     bookId,
     format,
+    location: documentData ? activeChapterIndex : null,
     rootRef: scrollContainerRef
   });
-  const exportState = useFlowExport({ bookId, title });
-  const { highlights, error: highlightsError, createHighlight, deleteHighlight, updateHighlightNote } = useFlowHighlights(bookId);
+  const exportState = useBookExport({ bookIds: [bookId] });
+  const {
+    highlights,
+    error: highlightsError,
+    createHighlight,
+    deleteHighlight,
+    updateHighlightNote,
+    updateHighlightColor
+  } = useFlowHighlights(bookId);
+  const { labels: highlightCategoryLabels } = useHighlightCategories();
   const currentChapter = documentData?.chapters[activeChapterIndex] ?? null;
   const currentBookmarkLabel = currentChapter?.title ?? 'Location';
   const bookmarksState = useFlowBookmarks({
@@ -461,6 +477,7 @@ export function FlowDocumentReader({
         text: highlight.text,
         note: highlight.note,
         cfiRange: highlight.cfiRange,
+        color: highlight.color,
         createdAt: highlight.createdAt
       })),
     [highlights]
@@ -547,8 +564,11 @@ export function FlowDocumentReader({
 
     if (restoreDoneRef.current && initialLocationResolvedRef.current) {
       persistProgress(nextChapterIndex, ratio);
+      if (maxScroll > 0 && ratio >= END_OF_BOOK_SCROLL_RATIO) {
+        onReachedEnd?.();
+      }
     }
-  }, [documentData, namespace, persistProgress]);
+  }, [documentData, namespace, onReachedEnd, persistProgress]);
 
   const flushProgressSave = React.useCallback(() => {
     if (!window.api?.flowProgress || !restoreDoneRef.current || !initialLocationResolvedRef.current) {
@@ -1264,6 +1284,7 @@ export function FlowDocumentReader({
                 }
               }}
               settings={settings}
+              categoryLabels={highlightCategoryLabels}
               rightOffset={settingsPanelOpen ? READER_PANEL_WIDTH.stackedOffset : READER_PANEL_WIDTH.offset}
             />
             <ReaderSettingsPanel
@@ -1353,8 +1374,10 @@ export function FlowDocumentReader({
                               top: `${rect.top}px`,
                               width: `${rect.width}px`,
                               height: `${rect.height}px`,
-                              backgroundColor: highlight.note ? 'rgba(250, 204, 21, 0.4)' : 'rgba(253, 224, 71, 0.34)',
-                              boxShadow: highlight.note ? '0 0 0 1px rgba(180, 83, 9, 0.55) inset' : 'none'
+                              backgroundColor: highlight.note
+                                ? HIGHLIGHT_COLOR_SWATCHES[highlight.color].noteFill
+                                : HIGHLIGHT_COLOR_SWATCHES[highlight.color].fill,
+                              boxShadow: highlight.note ? `0 0 0 1px ${HIGHLIGHT_COLOR_SWATCHES[highlight.color].border} inset` : 'none'
                             }}
                             aria-label="Open highlight actions"
                             onClick={(event) => {
@@ -1411,6 +1434,14 @@ export function FlowDocumentReader({
                   <>
                     <p className="text-[11px] font-semibold uppercase tracking-wide" style={{ color: palette.mutedText }}>Highlight</p>
                     <p className="mt-1 whitespace-pre-wrap text-xs" style={{ color: palette.chromeText }}>{activeHighlight.text ?? '(highlight without text)'}</p>
+                    <HighlightColorPicker
+                      value={activeHighlight.color}
+                      labels={highlightCategoryLabels}
+                      settings={settings}
+                      onChange={(color) => {
+                        void updateHighlightColor(activeHighlight.id, color);
+                      }}
+                    />
                     {activeHighlight.note ? (
                       <>
                         <p className="mt-3 text-[11px] font-semibold uppercase tracking-wide" style={{ color: palette.mutedText }}>Note</p>
@@ -1512,9 +1543,12 @@ export function FlowDocumentReader({
         loading={exportState.exportLoading}
         format={exportState.exportFormat}
         preview={exportState.exportPreview}
+        template={exportState.exportTemplate}
+        templateError={exportState.exportTemplateError}
         error={exportState.exportError}
         message={exportState.exportMessage}
         onFormatChange={exportState.setExportFormat}
+        onTemplateChange={exportState.setExportTemplate}
         onCopy={() => {
           void exportState.copyExportContent();
         }}
@@ -0,0 +1,62 @@
+import * as React from 'react';
+import { Check } from 'lucide-react';
+import { HIGHLIGHT_COLORS, type HighlightColor, type ReaderSettings } from '../../../shared/ipc';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { getHighlightColorLabel, HIGHLIGHT_COLOR_SWATCHES, type HighlightCategoryLabels } from '@/lib/highlight-colors';
+import { getReaderThemePalette } from '@/lib/reader-theme';
+
+type Props = {
+  value: HighlightColor;
+  labels: HighlightCategoryLabels;
+  settings: ReaderSettings;
+  disabled?: boolean;
+  onChange: (color: HighlightColor) => void;
+};
+
+function HighlightColorPickerComponent({ value, labels, settings, disabled = false, onChange }: Props) {
+  const { t } = useLanguage();
+  const palette = React.useMemo(() => getReaderThemePalette(settings), [settings]);
+  const activeCategory = labels[value];
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center gap-1.5" role="radiogroup" aria-label={t.highlightColors.color}>
+        {HIGHLIGHT_COLORS.map((color) => {
+          const label = getHighlightColorLabel(color, labels, t);
+          const selected = color === value;
+          return (
+            <button
+              key={color}
+              type="button"
+              role="radio"
+              aria-checked={selected}
+              aria-label={label}
+              title={label}
+              disabled={disabled}
+              className="inline-flex h-6 w-6 items-center justify-center rounded-full border transition-transform hover:scale-110 disabled:opacity-50"
+              style={{
+                backgroundColor: HIGHLIGHT_COLOR_SWATCHES[color].dot,
+                borderColor: selected ? palette.chromeText : HIGHLIGHT_COLOR_SWATCHES[color].border,
+                boxShadow: selected ? `0 0 0 2px ${palette.panelBg}, 0 0 0 3px ${palette.focusRing}` : 'none'
+              }}
+              onClick={() => {
+                if (!selected) {
+                  onChange(color);
+                }
+              }}
+            >
+              {selected ? <Check className="h-3.5 w-3.5 text-slate-900" /> : null}
+            </button>
+          );
+        })}
+      </div>
+      {activeCategory ? (
+        <p className="mt-1.5 text-[11px]" style={{ color: palette.mutedText }}>
+          {activeCategory}
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
+export const HighlightColorPicker = React.memo(HighlightColorPickerComponent);
@@ -1,9 +1,15 @@
 import * as React from 'react';
-import type { ReaderSettings } from '../../../shared/ipc';
+import { HIGHLIGHT_COLORS, type HighlightColor, type ReaderSettings } from '../../../shared/ipc';
 import { Highlighter, MessageSquare, Trash2 } from 'lucide-react';
 import { ReaderSidePanel } from '@/components/reader/ReaderSidePanel';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/contexts/LanguageContext';
+import {
+  EMPTY_HIGHLIGHT_CATEGORY_LABELS,
+  getHighlightColorLabel,
+  HIGHLIGHT_COLOR_SWATCHES,
+  type HighlightCategoryLabels
+} from '@/lib/highlight-colors';
 import { getReaderButtonStyles, getReaderThemePalette } from '@/lib/reader-theme';
 
 export type ReaderHighlightItem = {
@@ -12,6 +18,7 @@ export type ReaderHighlightItem = {
   note: string | null;
   page?: number | null;
   cfiRange?: string | null;
+  color: HighlightColor;
   createdAt: number;
 };
 
@@ -26,6 +33,7 @@ export type HighlightsPanelProps = {
   settings: ReaderSettings;
   rightOffset?: number;
   emptyMessage?: string;
+  categoryLabels?: HighlightCategoryLabels;
 };
 
 function formatCreatedAt(value: number): string {
@@ -55,10 +63,18 @@ function HighlightsPanelComponent({
   title = 'Highlights',
   settings,
   rightOffset = 12,
-  emptyMessage = 'No highlights for this book.'
+  emptyMessage = 'No highlights for this book.',
+  categoryLabels = EMPTY_HIGHLIGHT_CATEGORY_LABELS
 }: HighlightsPanelProps) {
   const { t } = useLanguage();
   const palette = React.useMemo(() => getReaderThemePalette(settings), [settings]);
+  const [colorFilter, setColorFilter] = React.useState<HighlightColor | 'all'>('all');
+  const usedColors = React.useMemo(
+    () => HIGHLIGHT_COLORS.filter((color) => items.some((item) => item.color === color)),
+    [items]
+  );
+  const activeColorFilter = colorFilter !== 'all' && usedColors.includes(colorFilter) ? colorFilter : 'all';
+  const visibleItems = activeColorFilter === 'all' ? items : items.filter((item) => item.color === activeColorFilter);
 
   return (
     <ReaderSidePanel
@@ -70,21 +86,56 @@ function HighlightsPanelComponent({
       rightOffset={rightOffset}
     >
       <div className="space-y-2">
+        {usedColors.length > 1 ? (
+          <div className="flex flex-wrap items-center gap-1.5 pb-1">
+            <button
+              type="button"
+              className="rounded-full border px-2.5 py-1 text-[11px] font-medium"
+              style={{
+                borderColor: activeColorFilter === 'all' ? palette.focusRing : palette.chromeBorder,
+                color: activeColorFilter === 'all' ? palette.chromeText : palette.mutedText
+              }}
+              onClick={() => setColorFilter('all')}
+            >
+              {t.highlightColors.allColors}
+            </button>
+            {usedColors.map((color) => (
+              <button
+                key={color}
+                type="button"
+                className="inline-flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-[11px] font-medium"
+                style={{
+                  borderColor: activeColorFilter === color ? palette.focusRing : palette.chromeBorder,
+                  color: activeColorFilter === color ? palette.chromeText : palette.mutedText
+                }}
+                onClick={() => setColorFilter(color)}
+              >
+                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: HIGHLIGHT_COLOR_SWATCHES[color].dot }} />
+                {getHighlightColorLabel(color, categoryLabels, t)}
+              </button>
+            ))}
+          </div>
+        ) : null}
         {items.length === 0 ? (
           <p className="text-xs" style={{ color: palette.mutedText }}>
             {emptyMessage === 'No highlights for this book.' ? t.readerPanels.noHighlights : emptyMessage}
           </p>
         ) : null}
-        {items.map((item) => (
+        {visibleItems.map((item) => (
           <div
             key={item.id}
-            className="rounded-md border p-3"
-            style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelBg }}
+            className="rounded-md border border-l-4 p-3"
+            style={{
+              borderColor: palette.chromeBorder,
+              borderLeftColor: HIGHLIGHT_COLOR_SWATCHES[item.color].dot,
+              backgroundColor: palette.panelBg
+            }}
           >
             <div className="flex items-start justify-between gap-3">
               <div className="min-w-0 flex-1">
                 <p className="text-[11px] font-semibold uppercase tracking-wide" style={{ color: palette.mutedText }}>
                   {getLocationLabel(item, t.hub.page, t.readerPanels.flowHighlight, t.readerPanels.highlight)}
+                  {categoryLabels[item.color] ? ` · ${categoryLabels[item.color]}` : ''}
                 </p>
                 <p className="mt-1 whitespace-pre-wrap text-sm leading-relaxed" style={{ color: palette.chromeText }}>
                   {item.text ?? t.readerPanels.highlightWithoutText}
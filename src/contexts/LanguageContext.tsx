@@ -7,6 +7,7 @@ type TranslationTree = {
     title: string;
     navigationLabel: string;
     library: string;
+    search: string;
     knowledgeHub: string;
     settings: string;
   };
@@ -76,6 +77,7 @@ type TranslationTree = {
     title: string;
     subtitle: string;
     importBook: string;
+    importFolder: string;
     discoverBooks: string;
     addSampleBook: string;
     pleaseWait: string;
@@ -168,6 +170,7 @@ type TranslationTree = {
     bookActions: string;
     actionsFor: string;
     showInFolder: string;
+    details: string;
     delete: string;
     open: string;
     openBook: string;
@@ -191,6 +194,7 @@ type TranslationTree = {
     startReading: string;
     chapter: string;
     section: string;
+    status: string;
   };
   app: {
     readerCrashedTitle: string;
@@ -203,6 +207,9 @@ type TranslationTree = {
     importTitle: string;
     noteBookNotFound: string;
     annotationBookNotFound: string;
+    openedBookNotFound: string;
+    dropFilesTitle: string;
+    dropFilesDescription: string;
   };
   notes: {
     title: string;
@@ -221,6 +228,12 @@ type TranslationTree = {
     editTitle: string;
     editRequired: string;
     subtitlePage: string;
+    searchResults: string;
+    noResults: string;
+    showMore: string;
+    kindNote: string;
+    kindHighlight: string;
+    kindSummary: string;
   };
   hub: {
     secondBrain: string;
@@ -264,6 +277,68 @@ type TranslationTree = {
     noteTextRequired: string;
     unknownBook: string;
   };
+  readingStats: {
+    annotationsTab: string;
+    readingTab: string;
+    title: string;
+    description: string;
+    totalTime: string;
+    today: string;
+    currentStreak: string;
+    longestStreak: string;
+    days: string;
+    calendarTitle: string;
+    calendarDescription: string;
+    less: string;
+    more: string;
+    minutesShort: string;
+    hoursShort: string;
+    booksTitle: string;
+    booksDescription: string;
+    sessions: string;
+    lastRead: string;
+    pagesPerHour: string;
+    chaptersPerHour: string;
+    paceUnavailable: string;
+    inProgressTitle: string;
+    inProgressDescription: string;
+    timeToFinish: string;
+    estimateUnavailable: string;
+    emptyTitle: string;
+    emptyDescription: string;
+    loadError: string;
+  };
+  goals: {
+    sidebarTitle: string;
+    sidebarEmpty: string;
+    sidebarDone: string;
+    minutesLeft: string;
+    title: string;
+    description: string;
+    kindDaily: string;
+    kindYearly: string;
+    kindFinish: string;
+    minutesUnit: string;
+    booksUnit: string;
+    target: string;
+    book: string;
+    chooseBook: string;
+    dueDate: string;
+    dueBy: string;
+    addGoal: string;
+    removeGoal: string;
+    completed: string;
+    overdue: string;
+    inProgress: string;
+    emptyTitle: string;
+    emptyDescription: string;
+    reminderTitle: string;
+    reminderDescription: string;
+    reminderEnabled: string;
+    reminderTime: string;
+    reminderNeedsDaily: string;
+    loadError: string;
+  };
   placeholder: {
     description: string;
     comingSoon: string;
@@ -313,6 +388,285 @@ type TranslationTree = {
     pdfLockedDescription: string;
     backgroundAroundPage: string;
     zoomPreset: string;
+    settingsScope: string;
+    settingsScopeBookDescription: string;
+    settingsScopeDefaultDescription: string;
+    scopeBook: string;
+    scopeDefault: string;
+    resetBookSettings: string;
+  };
+  highlightColors: {
+    yellow: string;
+    green: string;
+    blue: string;
+    pink: string;
+    purple: string;
+    color: string;
+    allColors: string;
+    categoriesTitle: string;
+    categoriesDescription: string;
+    categoryPlaceholder: string;
+  };
+  collections: {
+    sidebarTitle: string;
+    allBooks: string;
+    newCollection: string;
+    namePlaceholder: string;
+    create: string;
+    cancel: string;
+    sidebarEmpty: string;
+    collection: string;
+    allCollections: string;
+    rename: string;
+    save: string;
+    delete: string;
+    deleteTitle: string;
+    deleteDescription: string;
+    tags: string;
+    allTags: string;
+    select: string;
+    doneSelecting: string;
+    selectBook: string;
+    selected: string;
+    selectVisible: string;
+    clearSelection: string;
+    exportSelection: string;
+    tagPlaceholder: string;
+    addTag: string;
+    removeTag: string;
+    chooseCollection: string;
+    addToCollection: string;
+    removeFromCollection: string;
+    createFromSelection: string;
+  };
+  readingStatus: {
+    'want-to-read': string;
+    reading: string;
+    finished: string;
+    abandoned: string;
+    filter: string;
+    allStatuses: string;
+    startedOn: string;
+    finishedOn: string;
+    finishPromptTitle: string;
+    finishPromptDescription: string;
+    markFinished: string;
+    notNow: string;
+  };
+  bookMetadata: {
+    edit: string;
+    title: string;
+    subtitle: string;
+    authors: string;
+    authorsHint: string;
+    series: string;
+    seriesIndex: string;
+    year: string;
+    language: string;
+    description: string;
+    subjects: string;
+    subjectsHint: string;
+    locked: string;
+    lockedHint: string;
+    lockedBadge: string;
+    save: string;
+    cancel: string;
+    chooseMatch: string;
+    matchesTitle: string;
+    matchesDescription: string;
+    hideMatches: string;
+    searching: string;
+    noMatches: string;
+    useMatch: string;
+    score: string;
+    unknownAuthor: string;
+  };
+  series: {
+    viewBooks: string;
+    viewSeries: string;
+    emptyTitle: string;
+    emptyDescription: string;
+    next: string;
+    volume: string;
+    progress: string;
+  };
+  search: {
+    title: string;
+    subtitle: string;
+    placeholder: string;
+    indexedStatus: string;
+    indexing: string;
+    failed: string;
+    emptyTitle: string;
+    emptyDescription: string;
+    noResultsTitle: string;
+    noResultsDescription: string;
+    matches: string;
+    page: string;
+    errorTitle: string;
+  };
+  annotationImport: {
+    button: string;
+    title: string;
+    subtitle: string;
+    loading: string;
+    sourceKindle: string;
+    sourceKoreader: string;
+    sourceCalibre: string;
+    book: string;
+    notInLibrary: string;
+    locating: string;
+    statusReady: string;
+    statusDuplicate: string;
+    statusUnlocated: string;
+    statusUnmatched: string;
+    note: string;
+    page: string;
+    selected: string;
+    import: string;
+    importing: string;
+    imported: string;
+    failed: string;
+    close: string;
+  };
+  exportTemplates: {
+    savedTemplate: string;
+    defaultTemplate: string;
+    templateName: string;
+    template: string;
+    placeholders: string;
+    placeholdersHint: string;
+    saved: string;
+    deleted: string;
+    delete: string;
+    saveAsNew: string;
+    update: string;
+    save: string;
+  };
+  libraryExport: {
+    button: string;
+    title: string;
+    subtitle: string;
+    scope: string;
+    scopeAll: string;
+    scopeFiltered: string;
+    format: string;
+    template: string;
+    templateDefault: string;
+    layout: string;
+    layoutCombined: string;
+    layoutFolder: string;
+    layoutZip: string;
+    collecting: string;
+    writing: string;
+    export: string;
+    exporting: string;
+    saved: string;
+    failed: string;
+    close: string;
+  };
+  profiles: {
+    title: string;
+    description: string;
+    gateTitle: string;
+    gateDescription: string;
+    current: string;
+    pinProtected: string;
+    switchTo: string;
+    unlock: string;
+    pin: string;
+    newPin: string;
+    currentPin: string;
+    optionalPin: string;
+    name: string;
+    create: string;
+    createTitle: string;
+    created: string;
+    rename: string;
+    setPin: string;
+    changePin: string;
+    removePin: string;
+    saved: string;
+    lock: string;
+    delete: string;
+    deleted: string;
+    deleteConfirmTitle: string;
+    deleteConfirmDescription: string;
+    cancel: string;
+  };
+  backup: {
+    title: string;
+    description: string;
+    create: string;
+    creating: string;
+    saved: string;
+    restore: string;
+    reading: string;
+    archiveInfo: string;
+    books: string;
+    merge: string;
+    mergeDescription: string;
+    replace: string;
+    replaceDescription: string;
+    replaceConfirmTitle: string;
+    replaceConfirmDescription: string;
+    restoring: string;
+    cancel: string;
+  };
+  sync: {
+    title: string;
+    description: string;
+    folder: string;
+    notConfigured: string;
+    device: string;
+    lastSynced: string;
+    never: string;
+    chooseFolder: string;
+    changeFolder: string;
+    syncNow: string;
+    syncing: string;
+    disable: string;
+    synced: string;
+    published: string;
+    applied: string;
+    copiedFiles: string;
+  };
+  importActivity: {
+    title: string;
+    scanning: string;
+    importing: string;
+    imported: string;
+    duplicate: string;
+    failed: string;
+    alreadyInLibrary: string;
+    more: string;
+    dismiss: string;
+  };
+  duplicates: {
+    view: string;
+    loading: string;
+    emptyTitle: string;
+    emptyDescription: string;
+    groupTitle: string;
+    keep: string;
+    added: string;
+    notes: string;
+    highlights: string;
+    bookmarks: string;
+    minutes: string;
+    merge: string;
+    merging: string;
+    confirmTitle: string;
+    confirmDescription: string;
+    cancel: string;
+  };
+  watchFolders: {
+    title: string;
+    description: string;
+    empty: string;
+    add: string;
+    remove: string;
+    unavailable: string;
   };
 };
 
@@ -324,6 +678,7 @@ const translations: Record<AppLanguage, TranslationTree> = {
       title: 'Reader',
       navigationLabel: 'Основная навигация',
       library: 'Библиотека',
+      search: 'Поиск по книгам',
       knowledgeHub: 'База знаний',
       settings: 'Настройки'
     },
@@ -393,6 +748,7 @@ const translations: Record<AppLanguage, TranslationTree> = {
       title: 'Библиотека',
       subtitle: 'Продолжайте чтение с того места, где остановились, и держите всю коллекцию под рукой.',
       importBook: 'Импортировать книгу',
+      importFolder: 'Импортировать папку',
       discoverBooks: 'Найти книги',
       addSampleBook: 'Добавить пример книги',
       pleaseWait: 'Подождите...',
@@ -485,6 +841,7 @@ const translations: Record<AppLanguage, TranslationTree> = {
       bookActions: 'Действия с книгой',
       actionsFor: 'Действия для',
       showInFolder: 'Показать в папке',
+      details: 'Подробнее',
       delete: 'Удалить',
       open: 'Открыть',
       openBook: 'Открыть',
@@ -507,7 +864,8 @@ const translations: Record<AppLanguage, TranslationTree> = {
       chapters: 'глав',
       startReading: 'Начать чтение',
       chapter: 'Глава',
-      section: 'Секция'
+      section: 'Секция',
+      status: 'Статус чтения'
     },
     app: {
       readerCrashedTitle: 'Ридер упал при открытии книги',
@@ -516,16 +874,19 @@ const translations: Record<AppLanguage, TranslationTree> = {
       loadingLibrary: 'Загрузка библиотеки...',
       pdfReader: 'PDF ридер',
       loadingPdf: 'Загрузка PDF...',
-      selectBookFile: 'Выберите PDF/EPUB/FB2/TXT',
+      selectBookFile: 'Выберите файлы книг',
       importTitle: 'Импорт',
       noteBookNotFound: 'Книга для этой заметки не найдена.',
-      annotationBookNotFound: 'Книга для этой аннотации не найдена.'
+      annotationBookNotFound: 'Книга для этой аннотации не найдена.',
+      openedBookNotFound: 'Открытый файл не найден в библиотеке.',
+      dropFilesTitle: 'Отпустите файлы, чтобы импортировать книги',
+      dropFilesDescription: 'Перетащите их на коллекцию в боковой панели, чтобы сразу добавить в неё.'
     },
     notes: {
       title: 'Заметки',
       refresh: 'Обновить',
       allBooks: 'Все книги',
-      searchPlaceholder: 'Поиск по заметкам...',
+      searchPlaceholder: 'Поиск по заметкам, выделениям и AI-конспектам...',
       noNotes: 'Заметок пока нет.',
       unknownBook: 'Неизвестная книга',
       page: 'Страница',
@@ -537,7 +898,13 @@ const translations: Record<AppLanguage, TranslationTree> = {
       cancel: 'Отмена',
       editTitle: 'Редактировать заметку',
       editRequired: 'Текст заметки обязателен.',
-      subtitlePage: 'страница'
+      subtitlePage: 'страница',
+      searchResults: 'Найдено',
+      noResults: 'Ничего не найдено.',
+      showMore: 'Показать ещё',
+      kindNote: 'Заметка',
+      kindHighlight: 'Выделение',
+      kindSummary: 'AI-конспект'
     },
     hub: {
       secondBrain: 'Второй мозг',
@@ -581,6 +948,68 @@ const translations: Record<AppLanguage, TranslationTree> = {
       noteTextRequired: 'Текст заметки обязателен.',
       unknownBook: 'Неизвестная книга'
     },
+    readingStats: {
+      annotationsTab: 'Аннотации',
+      readingTab: 'Статистика чтения',
+      title: 'Привычки чтения',
+      description: 'Время, которое вы действительно провели в читалке: без простоя и свёрнутого окна.',
+      totalTime: 'Всего',
+      today: 'Сегодня',
+      currentStreak: 'Текущая серия',
+      longestStreak: 'Лучшая серия',
+      days: 'дн.',
+      calendarTitle: 'Календарь чтения',
+      calendarDescription: 'Минуты чтения по дням за последний год.',
+      less: 'Меньше',
+      more: 'Больше',
+      minutesShort: 'мин',
+      hoursShort: 'ч',
+      booksTitle: 'Время по книгам',
+      booksDescription: 'Где вы провели больше всего времени и с какой скоростью читаете.',
+      sessions: 'сессий',
+      lastRead: 'Последний раз',
+      pagesPerHour: 'стр./ч',
+      chaptersPerHour: 'глав/ч',
+      paceUnavailable: 'Мало данных для темпа',
+      inProgressTitle: 'Сколько осталось',
+      inProgressDescription: 'Оценка по вашему темпу и текущему прогрессу.',
+      timeToFinish: 'До конца',
+      estimateUnavailable: 'Пока не оценить',
+      emptyTitle: 'Статистики пока нет',
+      emptyDescription: 'Откройте любую книгу и почитайте пару минут — время появится здесь.',
+      loadError: 'Не удалось загрузить статистику чтения.'
+    },
+    goals: {
+      sidebarTitle: 'Цель на сегодня',
+      sidebarEmpty: 'Задайте дневную цель в библиотеке.',
+      sidebarDone: 'Цель выполнена',
+      minutesLeft: 'осталось',
+      title: 'Цели чтения',
+      description: 'Время считается по чтению в читалке, а книги — по отмеченным как прочитанные.',
+      kindDaily: 'Минут в день',
+      kindYearly: 'Книг в этом году',
+      kindFinish: 'Дочитать книгу',
+      minutesUnit: 'мин',
+      booksUnit: 'книг',
+      target: 'Цель',
+      book: 'Книга',
+      chooseBook: 'Выберите книгу',
+      dueDate: 'Срок',
+      dueBy: 'до',
+      addGoal: 'Добавить цель',
+      removeGoal: 'Удалить цель',
+      completed: 'Выполнено',
+      overdue: 'Срок прошёл',
+      inProgress: 'В процессе',
+      emptyTitle: 'Целей пока нет',
+      emptyDescription: 'Например, 30 минут в день, 12 книг в год или дочитать книгу к определённой дате.',
+      reminderTitle: 'Напоминание',
+      reminderDescription: 'Уведомление в выбранное время, если дневная цель ещё не выполнена.',
+      reminderEnabled: 'Напоминать',
+      reminderTime: 'Время',
+      reminderNeedsDaily: 'Напоминание срабатывает только при заданной дневной цели.',
+      loadError: 'Не удалось загрузить цели чтения'
+    },
     placeholder: {
       description: 'Этот раздел появится в будущем обновлении.',
       comingSoon: 'Скоро'
@@ -627,9 +1056,288 @@ const translations: Record<AppLanguage, TranslationTree> = {
       off: 'Выкл',
       pdfDisplay: 'Отображение PDF',
       pdfDescription: 'Настройте настроение фона и способ вписывания страницы.',
-      pdfLockedDescription: 'Параметры PDF станут активны при открытии PDF-файла.',
+      pdfLockedDescription: 'Параметры PDF станут активны при открытии PDF-файла или комикса.',
       backgroundAroundPage: 'Фон вокруг страницы',
-      zoomPreset: 'Предустановка масштаба'
+      zoomPreset: 'Предустановка масштаба',
+      settingsScope: 'Применять к',
+      settingsScopeBookDescription: 'Тема, шрифт, интервалы, поля и масштаб меняются только для этой книги.',
+      settingsScopeDefaultDescription: 'Изменения становятся настройками по умолчанию для всех книг.',
+      scopeBook: 'Только этой книге',
+      scopeDefault: 'Всем книгам',
+      resetBookSettings: 'Сбросить настройки книги'
+    },
+    highlightColors: {
+      yellow: 'Жёлтый',
+      green: 'Зелёный',
+      blue: 'Синий',
+      pink: 'Розовый',
+      purple: 'Фиолетовый',
+      color: 'Цвет выделения',
+      allColors: 'Все цвета',
+      categoriesTitle: 'Цвета и категории',
+      categoriesDescription: 'Задайте смысл каждому цвету, например «важное», «вопрос» или «словарь».',
+      categoryPlaceholder: 'Без категории'
+    },
+    collections: {
+      sidebarTitle: 'Коллекции',
+      allBooks: 'Все книги',
+      newCollection: 'Новая коллекция',
+      namePlaceholder: 'Название коллекции',
+      create: 'Создать',
+      cancel: 'Отмена',
+      sidebarEmpty: 'Соберите книги в полки: выберите их в библиотеке или создайте коллекцию здесь.',
+      collection: 'Коллекция',
+      allCollections: 'Все коллекции',
+      rename: 'Переименовать',
+      save: 'Сохранить',
+      delete: 'Удалить коллекцию',
+      deleteTitle: 'Удалить коллекцию?',
+      deleteDescription: 'Книги останутся в библиотеке, будет удалена только сама коллекция.',
+      tags: 'Теги',
+      allTags: 'Все теги',
+      select: 'Выбрать',
+      doneSelecting: 'Готово',
+      selectBook: 'Выбрать книгу',
+      selected: 'Выбрано',
+      selectVisible: 'Выбрать все',
+      clearSelection: 'Снять выбор',
+      exportSelection: 'Экспорт заметок',
+      tagPlaceholder: 'Тег',
+      addTag: 'Добавить тег',
+      removeTag: 'Убрать тег',
+      chooseCollection: 'Выберите коллекцию',
+      addToCollection: 'В коллекцию',
+      removeFromCollection: 'Убрать из коллекции',
+      createFromSelection: 'Новая коллекция из выбранных'
+    },
+    readingStatus: {
+      'want-to-read': 'Хочу прочитать',
+      reading: 'Читаю',
+      finished: 'Прочитана',
+      abandoned: 'Брошена',
+      filter: 'Статус',
+      allStatuses: 'Все',
+      startedOn: 'Начата',
+      finishedOn: 'Прочитана',
+      finishPromptTitle: 'Книга дочитана?',
+      finishPromptDescription: 'Вы дошли до конца. Отметить книгу прочитанной?',
+      markFinished: 'Отметить прочитанной',
+      notNow: 'Не сейчас'
+    },
+    bookMetadata: {
+      edit: 'Изменить данные',
+      title: 'Название',
+      subtitle: 'Подзаголовок',
+      authors: 'Авторы',
+      authorsHint: 'По одному автору в строке',
+      series: 'Серия',
+      seriesIndex: 'Номер в серии',
+      year: 'Год',
+      language: 'Язык',
+      description: 'Описание',
+      subjects: 'Темы',
+      subjectsHint: 'Через запятую',
+      locked: 'Закрепить данные',
+      lockedHint: 'Фоновое обновление из Open Library не будет менять эту книгу.',
+      lockedBadge: 'Данные закреплены',
+      save: 'Сохранить',
+      cancel: 'Отмена',
+      chooseMatch: 'Выбрать другое совпадение',
+      matchesTitle: 'Совпадения в Open Library',
+      matchesDescription: 'Лучшие кандидаты по названию и автору. Выбранное совпадение закрепит данные книги.',
+      hideMatches: 'Скрыть совпадения',
+      searching: 'Поиск в Open Library...',
+      noMatches: 'Совпадений не найдено. Уточните название или автора.',
+      useMatch: 'Использовать',
+      score: 'Оценка',
+      unknownAuthor: 'Автор неизвестен'
+    },
+    series: {
+      viewBooks: 'Книги',
+      viewSeries: 'Серии',
+      emptyTitle: 'Серий пока нет',
+      emptyDescription: 'Серии берутся из файлов книг или задаются вручную в данных книги.',
+      next: 'Следующая',
+      volume: 'Том',
+      progress: 'Прочитано'
+    },
+    search: {
+      title: 'Поиск по тексту',
+      subtitle: 'Ищите слова и фразы внутри всех книг библиотеки. Фразу в кавычках ищем целиком.',
+      placeholder: 'Слово или "точная фраза"',
+      indexedStatus: 'Проиндексировано книг',
+      indexing: 'идёт индексация…',
+      failed: 'Не удалось прочитать',
+      emptyTitle: 'Введите запрос',
+      emptyDescription: 'Совпадения будут сгруппированы по книгам; нажмите на фрагмент, чтобы открыть книгу на этом месте.',
+      noResultsTitle: 'Ничего не найдено',
+      noResultsDescription: 'Попробуйте другие слова. Книги, которые ещё индексируются, появятся в результатах позже.',
+      matches: 'Совпадений',
+      page: 'Стр.',
+      errorTitle: 'Ошибка поиска'
+    },
+    annotationImport: {
+      button: 'Импорт аннотаций',
+      title: 'Импорт аннотаций',
+      subtitle: 'Проверьте, к каким книгам относятся выделения и заметки, и отметьте, что импортировать.',
+      loading: 'Читаем файлы и ищем цитаты в книгах…',
+      sourceKindle: 'Kindle',
+      sourceKoreader: 'KOReader',
+      sourceCalibre: 'Calibre',
+      book: 'Книга',
+      notInLibrary: 'Нет в библиотеке',
+      locating: 'Ищем цитаты в книге…',
+      statusReady: 'Готово',
+      statusDuplicate: 'Уже есть',
+      statusUnlocated: 'Текст не найден',
+      statusUnmatched: 'Книга не выбрана',
+      note: 'Заметка',
+      page: 'Стр.',
+      selected: 'Выбрано',
+      import: 'Импортировать',
+      importing: 'Импортируем…',
+      imported: 'Импортировано',
+      failed: 'Не удалось импортировать',
+      close: 'Закрыть'
+    },
+    exportTemplates: {
+      savedTemplate: 'Сохранённый шаблон',
+      defaultTemplate: 'Шаблон по умолчанию',
+      templateName: 'Название шаблона',
+      template: 'Шаблон',
+      placeholders: 'Подстановки',
+      placeholdersHint: 'Используйте {{.}} внутри списка простых значений и {{^highlights}}…{{/highlights}} для пустого списка.',
+      saved: 'Шаблон сохранён.',
+      deleted: 'Шаблон удалён.',
+      delete: 'Удалить',
+      saveAsNew: 'Сохранить как новый',
+      update: 'Обновить шаблон',
+      save: 'Сохранить шаблон'
+    },
+    libraryExport: {
+      button: 'Экспорт всего',
+      title: 'Экспорт аннотаций',
+      subtitle: 'Заметки, выделения, закладки и AI-конспекты выбранных книг сохраняются за один раз.',
+      scope: 'Книги',
+      scopeAll: 'Все книги с аннотациями',
+      scopeFiltered: 'Книги из текущего фильтра',
+      format: 'Формат',
+      template: 'Шаблон',
+      templateDefault: 'Шаблон по умолчанию',
+      layout: 'Результат',
+      layoutCombined: 'Один общий файл',
+      layoutFolder: 'Папка с заметками',
+      layoutZip: 'ZIP с файлом на каждую книгу',
+      collecting: 'Собираем аннотации…',
+      writing: 'Записываем книги',
+      export: 'Экспортировать',
+      exporting: 'Экспорт…',
+      saved: 'Сохранено',
+      failed: 'Не удалось экспортировать аннотации.',
+      close: 'Закрыть'
+    },
+    profiles: {
+      title: 'Профили',
+      description: 'У каждого профиля своя библиотека, заметки, прогресс и настройки. Профиль можно защитить PIN-кодом.',
+      gateTitle: 'Кто читает?',
+      gateDescription: 'Выберите профиль или создайте новый.',
+      current: 'Текущий профиль',
+      pinProtected: 'Защищён PIN-кодом',
+      switchTo: 'Переключиться',
+      unlock: 'Открыть',
+      pin: 'PIN-код',
+      newPin: 'Новый PIN-код (4–8 цифр)',
+      currentPin: 'Текущий PIN-код',
+      optionalPin: 'PIN-код (необязательно, 4–8 цифр)',
+      name: 'Имя профиля',
+      create: 'Создать профиль',
+      createTitle: 'Новый профиль',
+      created: 'Профиль создан',
+      rename: 'Переименовать',
+      setPin: 'Задать PIN-код',
+      changePin: 'Сменить PIN-код',
+      removePin: 'Убрать PIN-код',
+      saved: 'Сохранено',
+      lock: 'Выйти из профиля',
+      delete: 'Удалить',
+      deleted: 'Профиль удалён',
+      deleteConfirmTitle: 'Удалить профиль',
+      deleteConfirmDescription: 'Все книги, заметки, выделения и настройки этого профиля будут удалены без возможности восстановления.',
+      cancel: 'Отмена'
+    },
+    backup: {
+      title: 'Резервная копия',
+      description: 'Сохраните книги, заметки, выделения, закладки, прогресс и настройки в один архив, чтобы восстановить их на этом или другом компьютере.',
+      create: 'Создать резервную копию',
+      creating: 'Сохраняем архив…',
+      saved: 'Резервная копия сохранена',
+      restore: 'Восстановить из копии',
+      reading: 'Проверяем архив…',
+      archiveInfo: 'Копия от',
+      books: 'книг',
+      merge: 'Объединить',
+      mergeDescription: 'Добавить книги и записи из копии, сохранив всё, что уже есть в библиотеке.',
+      replace: 'Заменить',
+      replaceDescription: 'Удалить текущую библиотеку и восстановить её из копии.',
+      replaceConfirmTitle: 'Заменить библиотеку?',
+      replaceConfirmDescription: 'Все текущие книги, заметки и выделения будут удалены и заменены содержимым резервной копии.',
+      restoring: 'Восстанавливаем библиотеку…',
+      cancel: 'Отмена'
+    },
+    sync: {
+      title: 'Синхронизация через папку',
+      description: 'Укажите общую папку (Syncthing, Dropbox, сетевой диск), чтобы обмениваться заметками, выделениями, закладками, прогрессом, настройками и книгами с другими устройствами.',
+      folder: 'Папка',
+      notConfigured: 'Синхронизация выключена',
+      device: 'Устройство',
+      lastSynced: 'Последняя синхронизация',
+      never: 'ещё не выполнялась',
+      chooseFolder: 'Выбрать папку',
+      changeFolder: 'Сменить папку',
+      syncNow: 'Синхронизировать',
+      syncing: 'Синхронизируем…',
+      disable: 'Выключить',
+      synced: 'Готово',
+      published: 'отправлено',
+      applied: 'получено',
+      copiedFiles: 'скопировано файлов'
+    },
+    importActivity: {
+      title: 'Импорт файлов',
+      scanning: 'Ищем книги в папке…',
+      importing: 'Импортируем',
+      imported: 'добавлено',
+      duplicate: 'уже в библиотеке',
+      failed: 'ошибок',
+      alreadyInLibrary: 'Уже в библиотеке',
+      more: 'Ещё',
+      dismiss: 'Скрыть'
+    },
+    duplicates: {
+      view: 'Дубликаты',
+      loading: 'Ищем одинаковые файлы…',
+      emptyTitle: 'Дубликатов нет',
+      emptyDescription: 'В библиотеке нет книг с одинаковыми файлами.',
+      groupTitle: 'Одинаковые файлы',
+      keep: 'Оставить',
+      added: 'Добавлена',
+      notes: 'заметок',
+      highlights: 'выделений',
+      bookmarks: 'закладок',
+      minutes: 'мин чтения',
+      merge: 'Объединить',
+      merging: 'Объединяем…',
+      confirmTitle: 'Объединить книги?',
+      confirmDescription: 'Заметки, выделения, закладки, прогресс и статистика будут перенесены в выбранную книгу, а остальные записи и их файлы будут удалены.',
+      cancel: 'Отмена'
+    },
+    watchFolders: {
+      title: 'Папки для автоимпорта',
+      description: 'Новые файлы PDF, EPUB, FB2 и TXT из этих папок добавляются в библиотеку автоматически при запуске и во время работы приложения.',
+      empty: 'Папки не выбраны',
+      add: 'Добавить папку',
+      remove: 'Убрать',
+      unavailable: 'недоступна'
     }
   },
   en: {
@@ -637,6 +1345,7 @@ const translations: Record<AppLanguage, TranslationTree> = {
       title: 'Reader',
       navigationLabel: 'Main navigation',
       library: 'Library',
+      search: 'Search books',
       knowledgeHub: 'Knowledge Hub',
       settings: 'Settings'
     },
@@ -706,6 +1415,7 @@ const translations: Record<AppLanguage, TranslationTree> = {
       title: 'Library',
       subtitle: 'Continue where you left off and keep your collection within reach.',
       importBook: 'Import book',
+      importFolder: 'Import folder',
       discoverBooks: 'Discover Books',
       addSampleBook: 'Add sample book',
       pleaseWait: 'Please wait...',
@@ -798,6 +1508,7 @@ const translations: Record<AppLanguage, TranslationTree> = {
       bookActions: 'Book actions',
       actionsFor: 'Actions for',
       showInFolder: 'Show in folder',
+      details: 'Details',
       delete: 'Delete',
       open: 'Open',
       openBook: 'Open',
@@ -820,7 +1531,8 @@ const translations: Record<AppLanguage, TranslationTree> = {
       chapters: 'chapters',
       startReading: 'Start Reading',
       chapter: 'Chapter',
-      section: 'Section'
+      section: 'Section',
+      status: 'Reading status'
     },
     app: {
       readerCrashedTitle: 'Reader crashed while opening this book',
@@ -829,16 +1541,19 @@ const translations: Record<AppLanguage, TranslationTree> = {
       loadingLibrary: 'Loading library...',
       pdfReader: 'PDF Reader',
       loadingPdf: 'Loading PDF...',
-      selectBookFile: 'Select PDF/EPUB/FB2/TXT',
+      selectBookFile: 'Select book files',
       importTitle: 'Import',
       noteBookNotFound: 'Book for this note was not found.',
-      annotationBookNotFound: 'Book for this annotation was not found.'
+      annotationBookNotFound: 'Book for this annotation was not found.',
+      openedBookNotFound: 'The opened file was not found in the library.',
+      dropFilesTitle: 'Drop files to import books',
+      dropFilesDescription: 'Drop them onto a collection in the sidebar to add them to it right away.'
     },
     notes: {
       title: 'Notes',
       refresh: 'Refresh',
       allBooks: 'All books',
-      searchPlaceholder: 'Search notes...',
+      searchPlaceholder: 'Search notes, highlights, and AI summaries...',
       noNotes: 'No notes yet.',
       unknownBook: 'Unknown book',
       page: 'Page',
@@ -850,7 +1565,13 @@ const translations: Record<AppLanguage, TranslationTree> = {
       cancel: 'Cancel',
       editTitle: 'Edit note',
       editRequired: 'Note content is required.',
-      subtitlePage: 'page'
+      subtitlePage: 'page',
+      searchResults: 'Found',
+      noResults: 'Nothing found.',
+      showMore: 'Show more',
+      kindNote: 'Note',
+      kindHighlight: 'Highlight',
+      kindSummary: 'AI summary'
     },
     hub: {
       secondBrain: 'Second Brain',
@@ -894,6 +1615,68 @@ const translations: Record<AppLanguage, TranslationTree> = {
       noteTextRequired: 'Note text is required.',
       unknownBook: 'Unknown book'
     },
+    readingStats: {
+      annotationsTab: 'Annotations',
+      readingTab: 'Reading stats',
+      title: 'Reading habits',
+      description: 'Time you actually spent in the reader, with idle and unfocused periods left out.',
+      totalTime: 'Total',
+      today: 'Today',
+      currentStreak: 'Current streak',
+      longestStreak: 'Longest streak',
+      days: 'days',
+      calendarTitle: 'Reading calendar',
+      calendarDescription: 'Minutes read per day over the last year.',
+      less: 'Less',
+      more: 'More',
+      minutesShort: 'min',
+      hoursShort: 'h',
+      booksTitle: 'Time per book',
+      booksDescription: 'Where your reading time went and how fast you move through each book.',
+      sessions: 'sessions',
+      lastRead: 'Last read',
+      pagesPerHour: 'pages/h',
+      chaptersPerHour: 'chapters/h',
+      paceUnavailable: 'Not enough reading for a pace yet',
+      inProgressTitle: 'Time to finish',
+      inProgressDescription: 'Estimated from your pace and current progress.',
+      timeToFinish: 'Left',
+      estimateUnavailable: 'No estimate yet',
+      emptyTitle: 'No reading stats yet',
+      emptyDescription: 'Open any book and read for a couple of minutes; your time will show up here.',
+      loadError: 'Failed to load reading stats.'
+    },
+    goals: {
+      sidebarTitle: 'Today\'s goal',
+      sidebarEmpty: 'Set a daily goal in the library.',
+      sidebarDone: 'Goal reached',
+      minutesLeft: 'left',
+      title: 'Reading goals',
+      description: 'Time comes from reading in the reader, books from the ones you mark as finished.',
+      kindDaily: 'Minutes per day',
+      kindYearly: 'Books this year',
+      kindFinish: 'Finish a book',
+      minutesUnit: 'min',
+      booksUnit: 'books',
+      target: 'Target',
+      book: 'Book',
+      chooseBook: 'Choose a book',
+      dueDate: 'Due date',
+      dueBy: 'by',
+      addGoal: 'Add goal',
+      removeGoal: 'Remove goal',
+      completed: 'Completed',
+      overdue: 'Overdue',
+      inProgress: 'In progress',
+      emptyTitle: 'No goals yet',
+      emptyDescription: 'For example, 30 minutes a day, 12 books a year, or finishing a book by a certain date.',
+      reminderTitle: 'Reminder',
+      reminderDescription: 'A notification at the chosen time when the daily goal is not met yet.',
+      reminderEnabled: 'Remind me',
+      reminderTime: 'Time',
+      reminderNeedsDaily: 'The reminder only fires when a daily goal is set.',
+      loadError: 'Failed to load reading goals'
+    },
     placeholder: {
       description: 'This section will be available in a future update.',
       comingSoon: 'Coming soon'
@@ -940,9 +1723,288 @@ const translations: Record<AppLanguage, TranslationTree> = {
       off: 'Off',
       pdfDisplay: 'PDF Display',
       pdfDescription: 'Set the page shell mood and default page fitting.',
-      pdfLockedDescription: 'PDF display controls become active when you open a PDF.',
+      pdfLockedDescription: 'PDF display controls become active when you open a PDF or a comic.',
       backgroundAroundPage: 'Background Around Page',
-      zoomPreset: 'Zoom Preset'
+      zoomPreset: 'Zoom Preset',
+      settingsScope: 'Apply To',
+      settingsScopeBookDescription: 'Theme, font, spacing, margins and zoom change for this book only.',
+      settingsScopeDefaultDescription: 'Changes become the defaults for every book.',
+      scopeBook: 'This book only',
+      scopeDefault: 'Make default',
+      resetBookSettings: 'Reset book settings'
+    },
+    highlightColors: {
+      yellow: 'Yellow',
+      green: 'Green',
+      blue: 'Blue',
+      pink: 'Pink',
+      purple: 'Purple',
+      color: 'Highlight color',
+      allColors: 'All colors',
+      categoriesTitle: 'Colors and categories',
+      categoriesDescription: 'Give each color a meaning, such as "important", "question" or "vocabulary".',
+      categoryPlaceholder: 'No category'
+    },
+    collections: {
+      sidebarTitle: 'Collections',
+      allBooks: 'All books',
+      newCollection: 'New collection',
+      namePlaceholder: 'Collection name',
+      create: 'Create',
+      cancel: 'Cancel',
+      sidebarEmpty: 'Group books into shelves: select them in the library or create a collection here.',
+      collection: 'Collection',
+      allCollections: 'All collections',
+      rename: 'Rename',
+      save: 'Save',
+      delete: 'Delete collection',
+      deleteTitle: 'Delete this collection?',
+      deleteDescription: 'The books stay in your library; only the collection itself is removed.',
+      tags: 'Tags',
+      allTags: 'All tags',
+      select: 'Select',
+      doneSelecting: 'Done',
+      selectBook: 'Select book',
+      selected: 'Selected',
+      selectVisible: 'Select all',
+      clearSelection: 'Clear selection',
+      exportSelection: 'Export annotations',
+      tagPlaceholder: 'Tag',
+      addTag: 'Add tag',
+      removeTag: 'Remove tag',
+      chooseCollection: 'Choose a collection',
+      addToCollection: 'Add to collection',
+      removeFromCollection: 'Remove from collection',
+      createFromSelection: 'New collection from selection'
+    },
+    readingStatus: {
+      'want-to-read': 'Want to read',
+      reading: 'Reading',
+      finished: 'Finished',
+      abandoned: 'Abandoned',
+      filter: 'Status',
+      allStatuses: 'All',
+      startedOn: 'Started',
+      finishedOn: 'Finished',
+      finishPromptTitle: 'Finished the book?',
+      finishPromptDescription: 'You reached the end. Mark this book as finished?',
+      markFinished: 'Mark as finished',
+      notNow: 'Not now'
+    },
+    bookMetadata: {
+      edit: 'Edit metadata',
+      title: 'Title',
+      subtitle: 'Subtitle',
+      authors: 'Authors',
+      authorsHint: 'One author per line',
+      series: 'Series',
+      seriesIndex: 'Number in series',
+      year: 'Year',
+      language: 'Language',
+      description: 'Description',
+      subjects: 'Subjects',
+      subjectsHint: 'Comma-separated',
+      locked: 'Lock metadata',
+      lockedHint: 'Background Open Library enrichment will not change this book.',
+      lockedBadge: 'Metadata locked',
+      save: 'Save',
+      cancel: 'Cancel',
+      chooseMatch: 'Choose a different match',
+      matchesTitle: 'Open Library matches',
+      matchesDescription: 'Top candidates by title and author. Choosing a match locks the book metadata.',
+      hideMatches: 'Hide matches',
+      searching: 'Searching Open Library...',
+      noMatches: 'No matches found. Adjust the title or author and try again.',
+      useMatch: 'Use match',
+      score: 'Score',
+      unknownAuthor: 'Unknown author'
+    },
+    series: {
+      viewBooks: 'Books',
+      viewSeries: 'Series',
+      emptyTitle: 'No series yet',
+      emptyDescription: 'Series come from book files or can be set manually in the book metadata.',
+      next: 'Next up',
+      volume: 'Vol.',
+      progress: 'Finished'
+    },
+    search: {
+      title: 'Full-text search',
+      subtitle: 'Find words and phrases inside every book in your library. Put a phrase in quotes to match it exactly.',
+      placeholder: 'A word or "exact phrase"',
+      indexedStatus: 'Books indexed',
+      indexing: 'indexing…',
+      failed: 'Could not read',
+      emptyTitle: 'Start typing to search',
+      emptyDescription: 'Matches are grouped by book; click a snippet to open the book at that spot.',
+      noResultsTitle: 'Nothing found',
+      noResultsDescription: 'Try different words. Books that are still being indexed will show up later.',
+      matches: 'Matches',
+      page: 'p.',
+      errorTitle: 'Search error'
+    },
+    annotationImport: {
+      button: 'Import annotations',
+      title: 'Import annotations',
+      subtitle: 'Check which books the highlights and notes belong to and pick what to import.',
+      loading: 'Reading files and locating passages in your books…',
+      sourceKindle: 'Kindle',
+      sourceKoreader: 'KOReader',
+      sourceCalibre: 'Calibre',
+      book: 'Book',
+      notInLibrary: 'Not in library',
+      locating: 'Locating passages in the book…',
+      statusReady: 'Ready',
+      statusDuplicate: 'Already exists',
+      statusUnlocated: 'Text not found',
+      statusUnmatched: 'No book selected',
+      note: 'Note',
+      page: 'p.',
+      selected: 'Selected',
+      import: 'Import',
+      importing: 'Importing…',
+      imported: 'Imported',
+      failed: 'Failed to import',
+      close: 'Close'
+    },
+    exportTemplates: {
+      savedTemplate: 'Saved template',
+      defaultTemplate: 'Default template',
+      templateName: 'Template name',
+      template: 'Template',
+      placeholders: 'Placeholders',
+      placeholdersHint: 'Use {{.}} inside a list of plain values and {{^highlights}}…{{/highlights}} for an empty list.',
+      saved: 'Template saved.',
+      deleted: 'Template deleted.',
+      delete: 'Delete',
+      saveAsNew: 'Save as new',
+      update: 'Update template',
+      save: 'Save template'
+    },
+    libraryExport: {
+      button: 'Export all',
+      title: 'Export annotations',
+      subtitle: 'Notes, highlights, bookmarks and AI summaries from the books you choose, saved in one go.',
+      scope: 'Books',
+      scopeAll: 'All books with annotations',
+      scopeFiltered: 'Books in the current filter',
+      format: 'Format',
+      template: 'Template',
+      templateDefault: 'Default template',
+      layout: 'Output',
+      layoutCombined: 'One combined file',
+      layoutFolder: 'A folder of notes',
+      layoutZip: 'A ZIP with a file per book',
+      collecting: 'Collecting annotations…',
+      writing: 'Writing books',
+      export: 'Export',
+      exporting: 'Exporting…',
+      saved: 'Saved',
+      failed: 'Failed to export annotations.',
+      close: 'Close'
+    },
+    profiles: {
+      title: 'Profiles',
+      description: 'Each profile has its own library, notes, progress and settings. A profile can be protected with a PIN.',
+      gateTitle: 'Who is reading?',
+      gateDescription: 'Pick a profile or create a new one.',
+      current: 'Current profile',
+      pinProtected: 'PIN protected',
+      switchTo: 'Switch',
+      unlock: 'Open',
+      pin: 'PIN',
+      newPin: 'New PIN (4–8 digits)',
+      currentPin: 'Current PIN',
+      optionalPin: 'PIN (optional, 4–8 digits)',
+      name: 'Profile name',
+      create: 'Create profile',
+      createTitle: 'New profile',
+      created: 'Profile created',
+      rename: 'Rename',
+      setPin: 'Set PIN',
+      changePin: 'Change PIN',
+      removePin: 'Remove PIN',
+      saved: 'Saved',
+      lock: 'Leave profile',
+      delete: 'Delete',
+      deleted: 'Profile deleted',
+      deleteConfirmTitle: 'Delete profile',
+      deleteConfirmDescription: 'All books, notes, highlights and settings of this profile will be deleted permanently.',
+      cancel: 'Cancel'
+    },
+    backup: {
+      title: 'Backup',
+      description: 'Save books, notes, highlights, bookmarks, progress and settings into a single archive to restore them on this or another computer.',
+      create: 'Backup library',
+      creating: 'Writing archive…',
+      saved: 'Backup saved',
+      restore: 'Restore from backup',
+      reading: 'Checking archive…',
+      archiveInfo: 'Backup from',
+      books: 'books',
+      merge: 'Merge',
+      mergeDescription: 'Add books and records from the backup and keep everything already in the library.',
+      replace: 'Replace',
+      replaceDescription: 'Remove the current library and restore it from the backup.',
+      replaceConfirmTitle: 'Replace the library?',
+      replaceConfirmDescription: 'All current books, notes and highlights will be deleted and replaced with the contents of the backup.',
+      restoring: 'Restoring library…',
+      cancel: 'Cancel'
+    },
+    sync: {
+      title: 'Folder sync',
+      description: 'Point the app at a shared folder (Syncthing, Dropbox, a network share) to exchange notes, highlights, bookmarks, progress, settings and books with your other devices.',
+      folder: 'Folder',
+      notConfigured: 'Sync is off',
+      device: 'Device',
+      lastSynced: 'Last synced',
+      never: 'never',
+      chooseFolder: 'Choose folder',
+      changeFolder: 'Change folder',
+      syncNow: 'Sync now',
+      syncing: 'Syncing…',
+      disable: 'Turn off',
+      synced: 'Done',
+      published: 'sent',
+      applied: 'received',
+      copiedFiles: 'files copied'
+    },
+    importActivity: {
+      title: 'File import',
+      scanning: 'Looking for books in the folder…',
+      importing: 'Importing',
+      imported: 'added',
+      duplicate: 'already in library',
+      failed: 'failed',
+      alreadyInLibrary: 'Already in library',
+      more: 'More',
+      dismiss: 'Dismiss'
+    },
+    duplicates: {
+      view: 'Duplicates',
+      loading: 'Looking for identical files…',
+      emptyTitle: 'No duplicates',
+      emptyDescription: 'No two books in the library share the same file.',
+      groupTitle: 'Identical files',
+      keep: 'Keep',
+      added: 'Added',
+      notes: 'notes',
+      highlights: 'highlights',
+      bookmarks: 'bookmarks',
+      minutes: 'min read',
+      merge: 'Merge',
+      merging: 'Merging…',
+      confirmTitle: 'Merge these books?',
+      confirmDescription: 'Notes, highlights, bookmarks, progress and stats will move to the book you keep, and the other records and their files will be deleted.',
+      cancel: 'Cancel'
+    },
+    watchFolders: {
+      title: 'Watch folders',
+      description: 'New PDF, EPUB, FB2 and TXT files in these folders are added to the library automatically on startup and while the app is running.',
+      empty: 'No folders yet',
+      add: 'Add folder',
+      remove: 'Remove',
+      unavailable: 'unavailable'
     }
   }
 };
@@ -1,6 +1,6 @@
 import * as React from 'react';
-import type { ReaderSettings, ReaderSettingsPatch } from '../../shared/ipc';
-import { READER_SETTINGS_DEFAULTS } from '../../shared/ipc';
+import type { BookReaderSettingsOverride, ReaderSettings, ReaderSettingsPatch } from '../../shared/ipc';
+import { BOOK_READER_SETTINGS_KEYS, READER_SETTINGS_DEFAULTS } from '../../shared/ipc';
 import {
   getAppThemeCssVariables,
   getReaderTextScaleMultiplier,
@@ -9,17 +9,31 @@ import {
 } from '@/lib/reader-theme';
 import { DEBOUNCE_MS } from '@/lib/constants';
 
+export type ReaderSettingsScope = 'book' | 'default';
+
+type BookSettingsState = {
+  bookId: string;
+  override: BookReaderSettingsOverride;
+  scope: ReaderSettingsScope;
+};
+
 type ReaderSettingsContextValue = {
+  // Global settings with the open book's overrides merged on top.
   settings: ReaderSettings;
+  defaultSettings: ReaderSettings;
+  // null while no book is open.
+  bookOverride: BookReaderSettingsOverride | null;
+  settingsScope: ReaderSettingsScope;
   loading: boolean;
   error: string | null;
   updateSettings: (patch: ReaderSettingsPatch) => void;
+  setSettingsScope: (scope: ReaderSettingsScope) => void;
+  resetBookSettings: () => void;
+  openBookSettings: (bookId: string | null) => void;
 };
 
 const ReaderSettingsContext = React.createContext<ReaderSettingsContextValue | null>(null);
 
-const DESKTOP_FALLBACK_TOKEN = '';
-
 function normalizeReaderSettings(settings: Partial<ReaderSettings> | null | undefined): ReaderSettings {
   return {
     ...READER_SETTINGS_DEFAULTS,
@@ -27,6 +41,15 @@ function normalizeReaderSettings(settings: Partial<ReaderSettings> | null | unde
   };
 }
 
+function splitBookPatch(patch: ReaderSettingsPatch): [BookReaderSettingsOverride, ReaderSettingsPatch] {
+  const bookKeys: readonly string[] = BOOK_READER_SETTINGS_KEYS;
+  const entries = Object.entries(patch).filter(([, value]) => value !== undefined);
+  return [
+    Object.fromEntries(entries.filter(([key]) => bookKeys.includes(key))) as BookReaderSettingsOverride,
+    Object.fromEntries(entries.filter(([key]) => !bookKeys.includes(key))) as ReaderSettingsPatch
+  ];
+}
+
 export function ReaderSettingsProvider({ children }: { children: React.ReactNode }) {
   const [settings, setSettings] = React.useState<ReaderSettings>(READER_SETTINGS_DEFAULTS);
   const [loading, setLoading] = React.useState(true);
@@ -34,23 +57,34 @@ export function ReaderSettingsProvider({ children }: { children: React.ReactNode
   const pendingPatchRef = React.useRef<ReaderSettingsPatch>({});
   const saveTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
   const hasLocalChangesRef = React.useRef(false);
+  const [book, setBook] = React.useState<BookSettingsState | null>(null);
+  const [bookLoading, setBookLoading] = React.useState(false);
+  const bookRef = React.useRef<BookSettingsState | null>(null);
+  const openedBookIdRef = React.useRef<string | null>(null);
+  const pendingBookOverrideRef = React.useRef<{ bookId: string; override: BookReaderSettingsOverride } | null>(null);
+  const bookSaveTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const mergedSettings = React.useMemo<ReaderSettings>(
+    () => (book ? { ...settings, ...book.override } : settings),
+    [book, settings]
+  );
 
   React.useEffect(() => {
     const root = document.documentElement;
-    const uiScale = getReaderTextScaleMultiplier(settings.textSizePreset);
-    const variables = getAppThemeCssVariables(settings);
+    const uiScale = getReaderTextScaleMultiplier(mergedSettings.textSizePreset);
+    const variables = getAppThemeCssVariables(mergedSettings);
     for (const [name, value] of Object.entries(variables)) {
       root.style.setProperty(name, value);
     }
-    const palette = getReaderThemePalette(settings);
-    root.dataset.readerMotion = settings.reduceMotion ? 'reduced' : 'default';
-    root.dataset.readerContrast = settings.highContrastMode ? 'high' : 'normal';
+    const palette = getReaderThemePalette(mergedSettings);
+    root.dataset.readerMotion = mergedSettings.reduceMotion ? 'reduced' : 'default';
+    root.dataset.readerContrast = mergedSettings.highContrastMode ? 'high' : 'normal';
     root.style.setProperty('--reader-ui-scale', String(uiScale));
-    root.style.setProperty('--reader-ui-font-family', getUiFontFamily(settings));
+    root.style.setProperty('--reader-ui-font-family', getUiFontFamily(mergedSettings));
     root.style.fontSize = `${16 * uiScale}px`;
     document.body.style.backgroundColor = palette.appBg;
     document.body.style.color = palette.appForeground;
-  }, [settings]);
+  }, [mergedSettings]);
 
   React.useEffect(() => {
     let canceled = false;
@@ -66,7 +100,7 @@ export function ReaderSettingsProvider({ children }: { children: React.ReactNode
 
       try {
         setError(null);
-        const result = await window.api.readerSettings.get({ token: DESKTOP_FALLBACK_TOKEN });
+        const result = await window.api.readerSettings.get();
         if (canceled) {
           return;
         }
@@ -108,10 +142,7 @@ export function ReaderSettingsProvider({ children }: { children: React.ReactNode
     }
 
     try {
-      const result = await window.api.readerSettings.update({
-        token: DESKTOP_FALLBACK_TOKEN,
-        patch
-      });
+      const result = await window.api.readerSettings.update({ patch });
       if (!result.ok) {
         setError(result.error);
         return;
@@ -123,6 +154,27 @@ export function ReaderSettingsProvider({ children }: { children: React.ReactNode
     }
   }, []);
 
+  const flushPendingBookOverride = React.useCallback(async () => {
+    if (bookSaveTimerRef.current) {
+      clearTimeout(bookSaveTimerRef.current);
+      bookSaveTimerRef.current = null;
+    }
+    const pending = pendingBookOverrideRef.current;
+    pendingBookOverrideRef.current = null;
+    if (!pending || !window.api?.readerSettings) {
+      return;
+    }
+
+    try {
+      const result = await window.api.readerSettings.setBook(pending);
+      if (!result.ok) {
+        setError(result.error);
+      }
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save book reader settings.');
+    }
+  }, []);
+
   React.useEffect(() => {
     return () => {
       if (saveTimerRef.current) {
@@ -130,10 +182,76 @@ export function ReaderSettingsProvider({ children }: { children: React.ReactNode
         saveTimerRef.current = null;
       }
       void flushPendingPatch();
+      void flushPendingBookOverride();
     };
-  }, [flushPendingPatch]);
+  }, [flushPendingBookOverride, flushPendingPatch]);
+
+  const applyBook = React.useCallback((next: BookSettingsState | null) => {
+    bookRef.current = next;
+    setBook(next);
+  }, []);
+
+  const saveBookOverride = React.useCallback(
+    (bookId: string, override: BookReaderSettingsOverride) => {
+      pendingBookOverrideRef.current = { bookId, override };
+      if (bookSaveTimerRef.current) {
+        clearTimeout(bookSaveTimerRef.current);
+      }
+      bookSaveTimerRef.current = setTimeout(() => {
+        bookSaveTimerRef.current = null;
+        void flushPendingBookOverride();
+      }, DEBOUNCE_MS.settingsWrite);
+    },
+    [flushPendingBookOverride]
+  );
+
+  const openBookSettings = React.useCallback(
+    (bookId: string | null) => {
+      if (openedBookIdRef.current === bookId) {
+        return;
+      }
+      void flushPendingBookOverride();
+      openedBookIdRef.current = bookId;
+      applyBook(null);
+      const readerSettingsApi = window.api?.readerSettings;
+      if (!bookId || !readerSettingsApi) {
+        setBookLoading(false);
+        return;
+      }
+
+      const load = async () => {
+        setBookLoading(true);
+        try {
+          const result = await readerSettingsApi.getBook({ bookId });
+          if (openedBookIdRef.current !== bookId) {
+            return;
+          }
+          if (!result.ok) {
+            setError(result.error);
+            return;
+          }
+          applyBook({
+            bookId,
+            override: result.override,
+            scope: Object.keys(result.override).length > 0 ? 'book' : 'default'
+          });
+        } catch (loadError) {
+          if (openedBookIdRef.current === bookId) {
+            setError(loadError instanceof Error ? loadError.message : 'Failed to load book reader settings.');
+          }
+        } finally {
+          if (openedBookIdRef.current === bookId) {
+            setBookLoading(false);
+          }
+        }
+      };
+
+      void load();
+    },
+    [applyBook, flushPendingBookOverride]
+  );
 
-  const updateSettings = React.useCallback((patch: ReaderSettingsPatch) => {
+  const updateDefaultSettings = React.useCallback((patch: ReaderSettingsPatch) => {
     hasLocalChangesRef.current = true;
     setSettings((current) => ({
       theme: patch.theme ?? current.theme,
@@ -161,14 +279,79 @@ export function ReaderSettingsProvider({ children }: { children: React.ReactNode
     }, DEBOUNCE_MS.settingsWrite);
   }, [flushPendingPatch]);
 
+  const updateSettings = React.useCallback(
+    (patch: ReaderSettingsPatch) => {
+      const current = bookRef.current;
+      if (!current || current.scope !== 'book') {
+        updateDefaultSettings(patch);
+        return;
+      }
+
+      const [bookPatch, defaultPatch] = splitBookPatch(patch);
+      if (Object.keys(bookPatch).length > 0) {
+        const override = { ...current.override, ...bookPatch };
+        applyBook({ ...current, override });
+        saveBookOverride(current.bookId, override);
+      }
+      if (Object.keys(defaultPatch).length > 0) {
+        updateDefaultSettings(defaultPatch);
+      }
+    },
+    [applyBook, saveBookOverride, updateDefaultSettings]
+  );
+
+  // Leaving "this book only" promotes the book's settings to the defaults instead of dropping them.
+  const setSettingsScope = React.useCallback(
+    (scope: ReaderSettingsScope) => {
+      const current = bookRef.current;
+      if (!current || current.scope === scope) {
+        return;
+      }
+      if (scope === 'default' && Object.keys(current.override).length > 0) {
+        updateDefaultSettings(current.override);
+        saveBookOverride(current.bookId, {});
+        applyBook({ ...current, override: {}, scope });
+        return;
+      }
+      applyBook({ ...current, scope });
+    },
+    [applyBook, saveBookOverride, updateDefaultSettings]
+  );
+
+  const resetBookSettings = React.useCallback(() => {
+    const current = bookRef.current;
+    if (!current) {
+      return;
+    }
+    saveBookOverride(current.bookId, {});
+    applyBook({ ...current, override: {} });
+  }, [applyBook, saveBookOverride]);
+
   const value = React.useMemo<ReaderSettingsContextValue>(
     () => ({
-      settings,
-      loading,
+      settings: mergedSettings,
+      defaultSettings: settings,
+      bookOverride: book?.override ?? null,
+      settingsScope: book?.scope ?? 'default',
+      loading: loading || bookLoading,
       error,
-      updateSettings
+      updateSettings,
+      setSettingsScope,
+      resetBookSettings,
+      openBookSettings
     }),
-    [error, loading, settings, updateSettings]
+    [
+      book,
+      bookLoading,
+      error,
+      loading,
+      mergedSettings,
+      openBookSettings,
+      resetBookSettings,
+      setSettingsScope,
+      settings,
+      updateSettings
+    ]
   );
 
   return <ReaderSettingsContext.Provider value={value}>{children}</ReaderSettingsContext.Provider>;
@@ -181,3 +364,16 @@ export function useReaderSettings(): ReaderSettingsContextValue {
   }
   return context;
 }
+
+// Readers call this so their settings include the book's overrides for as long as the book stays open.
+export function useBookReaderSettings(bookId: string): ReaderSettingsContextValue {
+  const context = useReaderSettings();
+  const { openBookSettings } = context;
+
+  React.useEffect(() => {
+    openBookSettings(bookId);
+    return () => openBookSettings(null);
+  }, [bookId, openBookSettings]);
+
+  return context;
+}
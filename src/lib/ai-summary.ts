@@ -1,4 +1,7 @@
 import type { AiSummaryResult } from '@/services/summaryApi';
+import type { AiSummaryEntry } from '../../shared/ipc';
+import { toAiSummaryTemplateContext } from '../../shared/book-export';
+import { renderTemplate } from '../../shared/export-template';
 
 function getLabels(language: 'ru' | 'en') {
   return language === 'ru'
@@ -63,3 +66,7 @@ export function aiSummaryToMarkdown(bookTitle: string, result: AiSummaryResult,
 export function aiSummaryToText(bookTitle: string, result: AiSummaryResult, language: 'ru' | 'en'): string {
   return aiSummaryToMarkdown(bookTitle, result, language);
 }
+
+export function aiSummaryToTemplate(template: string, entry: AiSummaryEntry): string {
+  return `${renderTemplate(template, toAiSummaryTemplateContext(entry)).trimEnd()}\n`;
+}
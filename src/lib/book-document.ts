@@ -0,0 +1,48 @@
+import type { FlowReaderChapter, FlowReaderDocument, FlowReaderSearchBlock } from '@/components/reader/FlowDocumentReader';
+import { DOCUMENT_BOOK_FORMATS, type BookDocument, type BookDocumentBlock, type BookFormat, type DocumentBookFormat } from '../../shared/ipc';
+
+const BLOCK_CLASS_NAMES: Record<BookDocumentBlock['tag'], string> = {
+  p: 'fb2-paragraph',
+  h1: 'fb2-section-title',
+  h2: 'fb2-section-title',
+  h3: 'fb2-subtitle',
+  h4: 'fb2-subtitle',
+  li: 'document-list-item',
+  blockquote: 'fb2-cite-paragraph document-quote',
+  pre: 'document-preformatted'
+};
+
+export function isDocumentBookFormat(format: BookFormat): format is DocumentBookFormat {
+  return (DOCUMENT_BOOK_FORMATS as readonly BookFormat[]).includes(format);
+}
+
+// Block ids must match the locators written by electron/book-text.ts for the library search index.
+export function buildBookDocument(document: BookDocument, fallbackTitle: string): FlowReaderDocument {
+  const title = document.title?.trim() || fallbackTitle.trim() || 'Untitled document';
+  const searchBlocks: FlowReaderSearchBlock[] = [];
+  const chapters: FlowReaderChapter[] = document.chapters.map((chapter, chapterIndex) => {
+    const chapterTitle = chapter.title || (document.chapters.length === 1 ? title : `Section ${chapterIndex + 1}`);
+    const html = chapter.blocks
+      .map((block, blockIndex) => {
+        const blockId = `html-block-${chapterIndex}-${blockIndex}`;
+        searchBlocks.push({ id: blockId, chapterIndex, chapterTitle, text: block.text });
+        return `<${block.tag} class="${BLOCK_CLASS_NAMES[block.tag]}" data-flow-block-id="${blockId}">${block.html}</${block.tag}>`;
+      })
+      .join('');
+
+    return {
+      id: `html-chapter-${chapterIndex}`,
+      title: chapterTitle,
+      html,
+      text: chapter.blocks.map((block) => block.text).join(' ')
+    };
+  });
+
+  return {
+    title,
+    author: document.author,
+    coverImage: null,
+    chapters: chapters.length > 0 ? chapters : [{ id: 'html-chapter-0', title, html: '', text: '' }],
+    searchBlocks
+  };
+}
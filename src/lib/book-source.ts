@@ -0,0 +1,108 @@
+import { PDFDataRangeTransport, getDocument, type PDFDocumentProxy } from 'pdfjs-dist';
+import { BOOK_PROTOCOL_SCHEME } from '../../shared/ipc';
+
+const PDF_RANGE_CHUNK_SIZE = 256 * 1024;
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+export function base64ToUint8Array(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function getBookFileUrl(bookId: string): string {
+  return `${BOOK_PROTOCOL_SCHEME}://${encodeURIComponent(bookId)}/file`;
+}
+
+export function getEpubResourceBaseUrl(bookId: string): string {
+  return `${BOOK_PROTOCOL_SCHEME}://${encodeURIComponent(bookId)}/epub/`;
+}
+
+export function getComicPageUrl(bookId: string, entryName: string): string {
+  return `${BOOK_PROTOCOL_SCHEME}://${encodeURIComponent(bookId)}/comic/${entryName.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+const PDF_RANGE_ATTEMPTS = 2;
+
+// pdf.js has no way to fail a single range, so a range that cannot be read destroys the loading
+// task: pending page requests reject instead of waiting forever, and a failure while the document is
+// still opening falls back to loading the whole file over IPC.
+class BookFileRangeTransport extends PDFDataRangeTransport {
+  private readonly url: string;
+  onRangeFailed: (() => void) | null = null;
+
+  constructor(url: string, length: number) {
+    super(length, null);
+    this.url = url;
+  }
+
+  requestDataRange(begin: number, end: number) {
+    void this.fetchRange(begin, end)
+      .then((data) => this.onDataRange(begin, data))
+      .catch((error) => {
+        console.error('[pdf] range request failed', { url: this.url, begin, end, error });
+        this.onRangeFailed?.();
+      });
+  }
+
+  private async fetchRange(begin: number, end: number): Promise<Uint8Array> {
+    let lastError: unknown = null;
+    for (let attempt = 0; attempt < PDF_RANGE_ATTEMPTS; attempt += 1) {
+      try {
+        const response = await fetch(this.url, { headers: { Range: `bytes=${begin}-${end - 1}` } });
+        if (!response.ok) {
+          throw new Error(`Range request failed with status ${response.status}.`);
+        }
+        return new Uint8Array(await response.arrayBuffer());
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
+
+async function openPdfFromBookProtocol(bookId: string): Promise<PDFDocumentProxy> {
+  const url = getBookFileUrl(bookId);
+  const response = await fetch(url, { method: 'HEAD' });
+  const length = Number(response.headers.get('Content-Length'));
+  if (!response.ok || !Number.isFinite(length) || length <= 0) {
+    throw new Error(`Book file is unavailable over ${BOOK_PROTOCOL_SCHEME}:// (status ${response.status}).`);
+  }
+
+  const transport = new BookFileRangeTransport(url, length);
+  const loadingTask = getDocument({
+    range: transport,
+    rangeChunkSize: PDF_RANGE_CHUNK_SIZE,
+    disableAutoFetch: true
+  });
+  transport.onRangeFailed = () => {
+    void loadingTask.destroy();
+  };
+  return loadingTask.promise;
+}
+
+export async function openPdfDocument(bookId: string): Promise<PDFDocumentProxy> {
+  try {
+    return await openPdfFromBookProtocol(bookId);
+  } catch (error) {
+    console.warn(`[pdf:${bookId}] range loading unavailable, falling back to IPC`, error);
+  }
+
+  const result = await getRendererApi().books.getPdfData({ bookId });
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+
+  return getDocument({ data: base64ToUint8Array(result.base64) }).promise;
+}
@@ -8,6 +8,7 @@ export const REQUEST_TIMEOUT_MS = {
 export const DEBOUNCE_MS = {
   search: 180,
   librarySearch: 120,
+  fullTextSearch: 250,
   settingsWrite: 300
 } as const;
 
@@ -36,7 +37,10 @@ export const FORMAT_BADGE_LABELS = {
   epub: 'EPUB',
   fb2: 'FB2',
   txt: 'TXT',
-  html: 'HTML'
+  cbz: 'CBZ',
+  mobi: 'MOBI',
+  html: 'HTML',
+  md: 'Markdown'
 } as const;
 
 export const DISCOVER_PROVIDER_LABELS = {
@@ -1,4 +1,4 @@
-export type FlowLocationNamespace = 'fb2' | 'txt';
+export type FlowLocationNamespace = 'fb2' | 'txt' | 'html';
 
 export type FlowPointLocation = {
   kind: 'point';
@@ -24,12 +24,14 @@ export type Fb2Location = FlowLocation;
 
 const POINT_PREFIX_BY_NAMESPACE: Record<FlowLocationNamespace, string> = {
   fb2: 'fb2-point',
-  txt: 'txt-point'
+  txt: 'txt-point',
+  html: 'html-point'
 };
 
 const RANGE_PREFIX_BY_NAMESPACE: Record<FlowLocationNamespace, string> = {
   fb2: 'fb2-range',
-  txt: 'txt-range'
+  txt: 'txt-range',
+  html: 'html-range'
 };
 
 function normalizePart(value: string | null | undefined): string | null {
@@ -0,0 +1,99 @@
+import { DEFAULT_HIGHLIGHT_COLOR, HIGHLIGHT_COLORS, type HighlightCategory, type HighlightColor } from '../../shared/ipc';
+import type { useLanguage } from '@/contexts/LanguageContext';
+
+export type HighlightColorSwatch = {
+  fill: string;
+  noteFill: string;
+  border: string;
+  dot: string;
+};
+
+export type HighlightCategoryLabels = Record<HighlightColor, string | null>;
+
+export const HIGHLIGHT_COLOR_SWATCHES: Record<HighlightColor, HighlightColorSwatch> = {
+  yellow: {
+    fill: 'rgba(253, 224, 71, 0.4)',
+    noteFill: 'rgba(250, 204, 21, 0.45)',
+    border: 'rgba(180, 83, 9, 0.75)',
+    dot: '#facc15'
+  },
+  green: {
+    fill: 'rgba(134, 239, 172, 0.42)',
+    noteFill: 'rgba(74, 222, 128, 0.45)',
+    border: 'rgba(21, 128, 61, 0.75)',
+    dot: '#4ade80'
+  },
+  blue: {
+    fill: 'rgba(147, 197, 253, 0.42)',
+    noteFill: 'rgba(96, 165, 250, 0.45)',
+    border: 'rgba(29, 78, 216, 0.75)',
+    dot: '#60a5fa'
+  },
+  pink: {
+    fill: 'rgba(249, 168, 212, 0.42)',
+    noteFill: 'rgba(244, 114, 182, 0.45)',
+    border: 'rgba(190, 24, 93, 0.75)',
+    dot: '#f472b6'
+  },
+  purple: {
+    fill: 'rgba(196, 181, 253, 0.45)',
+    noteFill: 'rgba(167, 139, 250, 0.48)',
+    border: 'rgba(109, 40, 217, 0.75)',
+    dot: '#a78bfa'
+  }
+};
+
+const PREFERRED_COLOR_KEY = 'diplomaapp.highlight-color.v1';
+
+export const EMPTY_HIGHLIGHT_CATEGORY_LABELS: HighlightCategoryLabels = {
+  yellow: null,
+  green: null,
+  blue: null,
+  pink: null,
+  purple: null
+};
+
+function getStorage(): Storage | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+export function getPreferredHighlightColor(): HighlightColor {
+  const saved = getStorage()?.getItem(PREFERRED_COLOR_KEY);
+  return HIGHLIGHT_COLORS.find((color) => color === saved) ?? DEFAULT_HIGHLIGHT_COLOR;
+}
+
+export function setPreferredHighlightColor(color: HighlightColor): void {
+  try {
+    getStorage()?.setItem(PREFERRED_COLOR_KEY, color);
+  } catch {
+    // Storage can be full or disabled; the default color is still usable.
+  }
+}
+
+export function toHighlightCategoryLabels(categories: HighlightCategory[]): HighlightCategoryLabels {
+  const labels = { ...EMPTY_HIGHLIGHT_CATEGORY_LABELS };
+  for (const category of categories) {
+    labels[category.color] = category.label;
+  }
+  return labels;
+}
+
+export function getHighlightColorName(color: HighlightColor, t: ReturnType<typeof useLanguage>['t']): string {
+  return t.highlightColors[color];
+}
+
+export function getHighlightColorLabel(
+  color: HighlightColor,
+  labels: HighlightCategoryLabels,
+  t: ReturnType<typeof useLanguage>['t']
+): string {
+  const category = labels[color];
+  return category ? `${category} · ${getHighlightColorName(color, t)}` : getHighlightColorName(color, t);
+}
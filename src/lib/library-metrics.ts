@@ -1,8 +1,11 @@
 import * as React from 'react';
-import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
+import { GlobalWorkerOptions } from 'pdfjs-dist';
 import workerSrc from 'pdfjs-dist/build/pdf.worker?url';
 import ePub from 'epubjs';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { isDocumentBookFormat } from '@/lib/book-document';
+import { base64ToUint8Array, getEpubResourceBaseUrl, openPdfDocument } from '@/lib/book-source';
+import { FORMAT_BADGE_LABELS } from '@/lib/constants';
 import { parseFb2Document } from '@/lib/fb2';
 import { getCachedBookMetric, saveCachedBookMetric, type StoredBookMetric } from '@/lib/library-metrics-cache';
 import { parseTxtDocument } from '@/lib/txt';
@@ -34,13 +37,9 @@ function toBookMetric(storedMetric: StoredBookMetric, book: Book, t: ReturnType<
           ? `${storedMetric.pageCount} ${t.bookCard.sections}`
           : storedMetric.pageCountKind === 'chapters' && storedMetric.pageCount
             ? `${storedMetric.pageCount} ${t.bookCard.chapters}`
-            : book.format === 'pdf'
+            : book.format === 'pdf' || book.format === 'cbz'
               ? t.bookCard.pagesUnavailable
-              : book.format === 'fb2'
-                ? 'FB2'
-                : book.format === 'txt'
-                  ? 'TXT'
-                  : 'EPUB';
+              : FORMAT_BADGE_LABELS[book.format];
 
   const currentLocationLabel =
     storedMetric.currentLocationKind === 'pageOf' && storedMetric.currentLocation && storedMetric.pageCount
@@ -73,15 +72,6 @@ function getRendererApi() {
   return window.api;
 }
 
-function base64ToUint8Array(base64: string): Uint8Array {
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i += 1) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes;
-}
-
 function base64ToArrayBuffer(base64: string): ArrayBuffer {
   const bytes = base64ToUint8Array(base64);
   return bytes.slice().buffer;
@@ -126,9 +116,8 @@ function getMetricFallback(book: Book, t: ReturnType<typeof useLanguage>['t']):
     currentLocation: null,
     progressPercent: null,
     progressLabel: t.bookCard.progressUnavailable,
-    pageCountLabel:
-      book.format === 'pdf' ? t.bookCard.pagesUnavailable : book.format === 'fb2' ? 'FB2' : book.format === 'txt' ? 'TXT' : 'EPUB',
-    currentLocationLabel: book.format === 'pdf' ? t.bookCard.pageUnavailable : t.bookCard.continueReading
+    pageCountLabel: book.format === 'pdf' || book.format === 'cbz' ? t.bookCard.pagesUnavailable : FORMAT_BADGE_LABELS[book.format],
+    currentLocationLabel: book.format === 'pdf' || book.format === 'cbz' ? t.bookCard.pageUnavailable : t.bookCard.continueReading
   };
 }
 
@@ -141,17 +130,12 @@ function getActivityFallback(): BookActivitySummary {
 
 async function loadPdfMetric(book: Book, t: ReturnType<typeof useLanguage>['t']): Promise<BookMetric> {
   const api = getRendererApi();
-  const [pdfResult, lastPage] = await Promise.all([
-    api.books.getPdfData({ bookId: book.id }),
+  const [documentProxy, lastPage] = await Promise.all([
+    openPdfDocument(book.id),
     api.getLastPage({ bookId: book.id })
   ]);
-
-  if (!pdfResult.ok) {
-    throw new Error(pdfResult.error);
-  }
-
-  const documentProxy = await getDocument({ data: base64ToUint8Array(pdfResult.base64) }).promise;
   const pageCount = documentProxy.numPages;
+  void documentProxy.destroy();
   const safeLastPage = lastPage && lastPage > 0 ? Math.min(lastPage, pageCount) : null;
   const progressPercent = safeLastPage ? (safeLastPage / pageCount) * 100 : 0;
 
@@ -167,17 +151,12 @@ async function loadPdfMetric(book: Book, t: ReturnType<typeof useLanguage>['t'])
 
 async function loadPdfStoredMetric(book: Book): Promise<StoredBookMetric> {
   const api = getRendererApi();
-  const [pdfResult, lastPage] = await Promise.all([
-    api.books.getPdfData({ bookId: book.id }),
+  const [documentProxy, lastPage] = await Promise.all([
+    openPdfDocument(book.id),
     api.getLastPage({ bookId: book.id })
   ]);
-
-  if (!pdfResult.ok) {
-    throw new Error(pdfResult.error);
-  }
-
-  const documentProxy = await getDocument({ data: base64ToUint8Array(pdfResult.base64) }).promise;
   const pageCount = documentProxy.numPages;
+  void documentProxy.destroy();
   const safeLastPage = lastPage && lastPage > 0 ? Math.min(lastPage, pageCount) : null;
 
   return {
@@ -189,49 +168,55 @@ async function loadPdfStoredMetric(book: Book): Promise<StoredBookMetric> {
   };
 }
 
-async function loadEpubMetric(book: Book, t: ReturnType<typeof useLanguage>['t']): Promise<BookMetric> {
-  const api = getRendererApi();
-  const [epubResult, progressResult] = await Promise.all([
-    api.books.getEpubData({ bookId: book.id }),
-    api.epubProgress.get({ bookId: book.id })
-  ]);
+async function openEpubForMetrics(book: Book): Promise<ReturnType<typeof ePub>> {
+  let epubDataPromise: Promise<{ base64: string; arrayBuffer: ArrayBuffer }> | null = null;
+  const loadEpubData = () => {
+    epubDataPromise ??= getRendererApi()
+      .books.getEpubData({ bookId: book.id })
+      .then((result) => {
+        if (!result.ok) {
+          throw new Error(result.error);
+        }
+        return { base64: result.base64, arrayBuffer: base64ToArrayBuffer(result.base64) };
+      });
+    return epubDataPromise;
+  };
+  const openCandidates: Array<() => Promise<ReturnType<typeof ePub>>> = [
+    async () => ePub(getEpubResourceBaseUrl(book.id)),
+    async () => ePub((await loadEpubData()).arrayBuffer, { openAs: 'binary' }),
+    async () => ePub((await loadEpubData()).arrayBuffer, { openAs: 'epub', replacements: 'blobUrl' }),
+    async () => ePub((await loadEpubData()).arrayBuffer, { replacements: 'blobUrl' }),
+    async () => ePub((await loadEpubData()).base64, { openAs: 'base64', replacements: 'blobUrl' }),
+    async () => ePub((await loadEpubData()).base64, { encoding: 'base64' })
+  ];
 
-  if (!epubResult.ok) {
-    throw new Error(epubResult.error);
+  let lastError: unknown = null;
+  for (const createBook of openCandidates) {
+    let candidate: ReturnType<typeof ePub> | null = null;
+    try {
+      candidate = await createBook();
+      await withTimeout(candidate.ready, 8000, `Timed out while opening EPUB "${book.title}".`);
+      return candidate;
+    } catch (error) {
+      lastError = error;
+      candidate?.destroy?.();
+    }
   }
+
+  throw lastError instanceof Error ? lastError : new Error('Failed to open EPUB for metrics.');
+}
+
+async function loadEpubMetric(book: Book, t: ReturnType<typeof useLanguage>['t']): Promise<BookMetric> {
+  const api = getRendererApi();
+  const progressResult = await api.epubProgress.get({ bookId: book.id });
   if (!progressResult.ok) {
     throw new Error(progressResult.error);
   }
 
-  const epubArrayBuffer = base64ToArrayBuffer(epubResult.base64);
-  const openCandidates = [
-    () => ePub(epubArrayBuffer, { openAs: 'binary' }),
-    () => ePub(epubArrayBuffer, { openAs: 'epub', replacements: 'blobUrl' }),
-    () => ePub(epubArrayBuffer, { replacements: 'blobUrl' }),
-    () => ePub(epubResult.base64, { openAs: 'base64', replacements: 'blobUrl' }),
-    () => ePub(epubResult.base64, { encoding: 'base64' })
-  ];
-
   let epubBook: ReturnType<typeof ePub> | null = null;
 
   try {
-    let lastError: unknown = null;
-    for (const createBook of openCandidates) {
-      let candidate: ReturnType<typeof ePub> | null = null;
-      try {
-        candidate = createBook();
-        await withTimeout(candidate.ready, 8000, `Timed out while opening EPUB "${book.title}".`);
-        epubBook = candidate;
-        break;
-      } catch (error) {
-        lastError = error;
-        candidate?.destroy?.();
-      }
-    }
-
-    if (!epubBook) {
-      throw lastError instanceof Error ? lastError : new Error('Failed to open EPUB for metrics.');
-    }
+    epubBook = await openEpubForMetrics(book);
 
     try {
       await withTimeout(
@@ -279,47 +264,15 @@ async function loadEpubMetric(book: Book, t: ReturnType<typeof useLanguage>['t']
 
 async function loadEpubStoredMetric(book: Book): Promise<StoredBookMetric> {
   const api = getRendererApi();
-  const [epubResult, progressResult] = await Promise.all([
-    api.books.getEpubData({ bookId: book.id }),
-    api.epubProgress.get({ bookId: book.id })
-  ]);
-
-  if (!epubResult.ok) {
-    throw new Error(epubResult.error);
-  }
+  const progressResult = await api.epubProgress.get({ bookId: book.id });
   if (!progressResult.ok) {
     throw new Error(progressResult.error);
   }
 
-  const epubArrayBuffer = base64ToArrayBuffer(epubResult.base64);
-  const openCandidates = [
-    () => ePub(epubArrayBuffer, { openAs: 'binary' }),
-    () => ePub(epubArrayBuffer, { openAs: 'epub', replacements: 'blobUrl' }),
-    () => ePub(epubArrayBuffer, { replacements: 'blobUrl' }),
-    () => ePub(epubResult.base64, { openAs: 'base64', replacements: 'blobUrl' }),
-    () => ePub(epubResult.base64, { encoding: 'base64' })
-  ];
-
   let epubBook: ReturnType<typeof ePub> | null = null;
 
   try {
-    let lastError: unknown = null;
-    for (const createBook of openCandidates) {
-      let candidate: ReturnType<typeof ePub> | null = null;
-      try {
-        candidate = createBook();
-        await withTimeout(candidate.ready, 8000, `Timed out while opening EPUB "${book.title}".`);
-        epubBook = candidate;
-        break;
-      } catch (error) {
-        lastError = error;
-        candidate?.destroy?.();
-      }
-    }
-
-    if (!epubBook) {
-      throw lastError instanceof Error ? lastError : new Error('Failed to open EPUB for metrics.');
-    }
+    epubBook = await openEpubForMetrics(book);
 
     try {
       await withTimeout(
@@ -481,6 +434,68 @@ async function loadTxtStoredMetric(book: Book): Promise<StoredBookMetric> {
   };
 }
 
+async function loadComicMetric(book: Book, t: ReturnType<typeof useLanguage>['t']): Promise<BookMetric> {
+  const storedMetric = await loadComicStoredMetric(book);
+  return toBookMetric(storedMetric, book, t);
+}
+
+async function loadComicStoredMetric(book: Book): Promise<StoredBookMetric> {
+  const api = getRendererApi();
+  const [pagesResult, lastPage] = await Promise.all([
+    api.books.getComicPages({ bookId: book.id }),
+    api.getLastPage({ bookId: book.id })
+  ]);
+
+  if (!pagesResult.ok) {
+    throw new Error(pagesResult.error);
+  }
+
+  const pageCount = pagesResult.pages.length || null;
+  const safeLastPage = pageCount && lastPage && lastPage > 0 ? Math.min(lastPage, pageCount) : null;
+
+  return {
+    pageCount,
+    currentLocation: safeLastPage,
+    progressPercent: pageCount && safeLastPage ? (safeLastPage / pageCount) * 100 : 0,
+    pageCountKind: pageCount ? 'pages' : 'format',
+    currentLocationKind: safeLastPage ? 'pageOf' : 'startOnPage'
+  };
+}
+
+async function loadDocumentMetric(book: Book, t: ReturnType<typeof useLanguage>['t']): Promise<BookMetric> {
+  const storedMetric = await loadDocumentStoredMetric(book);
+  return toBookMetric(storedMetric, book, t);
+}
+
+async function loadDocumentStoredMetric(book: Book): Promise<StoredBookMetric> {
+  const api = getRendererApi();
+  const [documentResult, progressResult] = await Promise.all([
+    api.books.getDocumentData({ bookId: book.id }),
+    api.flowProgress.get({ bookId: book.id })
+  ]);
+
+  if (!documentResult.ok) {
+    throw new Error(documentResult.error);
+  }
+  if (!progressResult.ok) {
+    throw new Error(progressResult.error);
+  }
+
+  const sectionCount = documentResult.document.chapters.length || null;
+  const chapterIndex = progressResult.progress.chapterIndex;
+
+  return {
+    pageCount: sectionCount,
+    currentLocation: chapterIndex,
+    progressPercent:
+      sectionCount && chapterIndex !== null
+        ? ((chapterIndex + (progressResult.progress.scrollRatio ?? 0)) / sectionCount) * 100
+        : 0,
+    pageCountKind: sectionCount ? 'sections' : 'format',
+    currentLocationKind: chapterIndex !== null ? 'section' : 'startReading'
+  };
+}
+
 async function loadBookMetric(book: Book, t: ReturnType<typeof useLanguage>['t']): Promise<BookMetric> {
   if (book.format === 'pdf') {
     return loadPdfMetric(book, t);
@@ -491,6 +506,12 @@ async function loadBookMetric(book: Book, t: ReturnType<typeof useLanguage>['t']
   if (book.format === 'txt') {
     return loadTxtMetric(book, t);
   }
+  if (book.format === 'cbz') {
+    return loadComicMetric(book, t);
+  }
+  if (isDocumentBookFormat(book.format)) {
+    return loadDocumentMetric(book, t);
+  }
 
   return loadEpubMetric(book, t);
 }
@@ -505,6 +526,12 @@ async function loadStoredBookMetric(book: Book): Promise<StoredBookMetric> {
   if (book.format === 'txt') {
     return loadTxtStoredMetric(book);
   }
+  if (book.format === 'cbz') {
+    return loadComicStoredMetric(book);
+  }
+  if (isDocumentBookFormat(book.format)) {
+    return loadDocumentStoredMetric(book);
+  }
 
   return loadEpubStoredMetric(book);
 }
@@ -599,7 +626,7 @@ export function useLibraryBookActivity(books: Book[], refreshKey?: string) {
         (async () => {
           const api = getRendererApi();
 
-          if (book.format === 'pdf') {
+          if (book.format === 'pdf' || book.format === 'cbz') {
             const [highlightsResult, bookmarksResult] = await Promise.all([
               api.highlights.list({ bookId: book.id }),
               api.bookmarks.list({ bookId: book.id })
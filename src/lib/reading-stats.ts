@@ -1,5 +1,12 @@
 import * as React from 'react';
-import type { BookFormat } from '../../shared/ipc';
+import type { BookFormat, ReadingSessionState } from '../../shared/ipc';
+
+const ACTIVITY_TICK_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const IDLE_TIMEOUT_MS = 3 * 60_000;
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+
+type ActivityTarget = Window | Document | HTMLElement;
 
 function getRendererApi() {
   if (!window.api) {
@@ -9,22 +16,149 @@ function getRendererApi() {
   return window.api;
 }
 
+function isWindowAttended() {
+  return document.visibilityState === 'visible' && document.hasFocus();
+}
+
+function addActivityListeners(target: ActivityTarget, listener: () => void) {
+  for (const eventName of ACTIVITY_EVENTS) {
+    target.addEventListener(eventName, listener, { passive: true, capture: eventName === 'scroll' });
+  }
+
+  return () => {
+    for (const eventName of ACTIVITY_EVENTS) {
+      target.removeEventListener(eventName, listener, { capture: eventName === 'scroll' });
+    }
+  };
+}
+
 export function useReadingSessionStats({
   bookId,
   format,
+  location = null,
   rootRef
 }: {
   bookId: string;
   format: BookFormat;
+  location?: string | number | null;
   rootRef?: React.RefObject<HTMLElement | null>;
 }) {
+  const sessionRef = React.useRef<{ sessionId: string; bookId: string; format: BookFormat } | null>(null);
+  const lastActivityAtRef = React.useRef(Date.now());
+  const lastTickAtRef = React.useRef(Date.now());
+  const lastHeartbeatAtRef = React.useRef(Date.now());
+  const pendingActiveMsRef = React.useRef(0);
+  const pendingLocationsRef = React.useRef<Set<string>>(new Set());
+  const locationRef = React.useRef<{ bookId: string; location: string } | null>(null);
+  const stateRef = React.useRef<ReadingSessionState>('active');
+
+  const registerActivity = React.useCallback(() => {
+    lastActivityAtRef.current = Date.now();
+  }, []);
+
+  const sendHeartbeat = React.useCallback((state: ReadingSessionState) => {
+    const session = sessionRef.current;
+    if (!session) {
+      return;
+    }
+
+    const activeSeconds = Math.floor(pendingActiveMsRef.current / 1000);
+    lastHeartbeatAtRef.current = Date.now();
+    if (activeSeconds === 0) {
+      return;
+    }
+
+    pendingActiveMsRef.current -= activeSeconds * 1000;
+    const locations = Array.from(pendingLocationsRef.current);
+    pendingLocationsRef.current.clear();
+    void getRendererApi()
+      .stats.heartbeat({ ...session, state, activeSeconds, locations })
+      .catch(() => undefined);
+  }, []);
+
+  const tick = React.useCallback(() => {
+    const now = Date.now();
+    // Cap the elapsed slice so a suspended machine or throttled timer never counts as reading.
+    const elapsed = Math.max(0, Math.min(now - lastTickAtRef.current, ACTIVITY_TICK_MS * 2));
+    lastTickAtRef.current = now;
+
+    const nextState: ReadingSessionState =
+      isWindowAttended() && now - lastActivityAtRef.current < IDLE_TIMEOUT_MS ? 'active' : 'idle';
+    if (nextState === 'active') {
+      pendingActiveMsRef.current += elapsed;
+    }
+
+    if (nextState !== stateRef.current) {
+      stateRef.current = nextState;
+      sendHeartbeat(nextState);
+      return;
+    }
+
+    if (now - lastHeartbeatAtRef.current >= HEARTBEAT_INTERVAL_MS) {
+      sendHeartbeat(nextState);
+    }
+  }, [sendHeartbeat]);
+
+  const flush = React.useCallback(() => {
+    tick();
+    sendHeartbeat(stateRef.current);
+  }, [sendHeartbeat, tick]);
+
+  const bindActivityTarget = React.useCallback(
+    (target: ActivityTarget | null) => (target ? addActivityListeners(target, registerActivity) : () => undefined),
+    [registerActivity]
+  );
+
   React.useEffect(() => {
     void getRendererApi().stats.markOpened({ bookId, format }).catch(() => undefined);
-  }, [bookId, format, rootRef]);
 
-  const registerActivity = React.useCallback(() => undefined, []);
-  const bindActivityTarget = React.useCallback((_target: Window | Document | HTMLElement | null) => () => undefined, []);
-  const flush = React.useCallback(() => undefined, []);
+    const now = Date.now();
+    sessionRef.current = { sessionId: crypto.randomUUID(), bookId, format };
+    lastActivityAtRef.current = now;
+    lastTickAtRef.current = now;
+    lastHeartbeatAtRef.current = now;
+    pendingActiveMsRef.current = 0;
+    stateRef.current = 'active';
+    // The reader stays where it was, so the new session starts at the current location.
+    if (locationRef.current?.bookId === bookId) {
+      pendingLocationsRef.current.add(locationRef.current.location);
+    }
+
+    const cleanupWindow = bindActivityTarget(window);
+    const cleanupRoot = bindActivityTarget(rootRef?.current ?? null);
+    const onAttentionChange = () => {
+      if (isWindowAttended()) {
+        registerActivity();
+      }
+      tick();
+    };
+    window.addEventListener('focus', onAttentionChange);
+    window.addEventListener('blur', onAttentionChange);
+    document.addEventListener('visibilitychange', onAttentionChange);
+    window.addEventListener('pagehide', flush);
+    const interval = window.setInterval(tick, ACTIVITY_TICK_MS);
+
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('focus', onAttentionChange);
+      window.removeEventListener('blur', onAttentionChange);
+      document.removeEventListener('visibilitychange', onAttentionChange);
+      window.removeEventListener('pagehide', flush);
+      cleanupRoot();
+      cleanupWindow();
+      flush();
+      sessionRef.current = null;
+      pendingLocationsRef.current.clear();
+    };
+  }, [bindActivityTarget, bookId, flush, format, registerActivity, rootRef, tick]);
+
+  React.useEffect(() => {
+    if (location === null || location === undefined || location === '') {
+      return;
+    }
+    locationRef.current = { bookId, location: String(location) };
+    pendingLocationsRef.current.add(String(location));
+  }, [bookId, location]);
 
   return {
     registerActivity,
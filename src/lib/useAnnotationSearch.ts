@@ -0,0 +1,88 @@
+import * as React from 'react';
+import type { AnnotationSearchHit, AnnotationSearchKind } from '../../shared/ipc';
+import { DEBOUNCE_MS } from '@/lib/constants';
+import { useDebouncedValue } from '@/lib/useDebouncedValue';
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+type AnnotationSearchOptions = {
+  query: string;
+  kinds?: AnnotationSearchKind[] | null;
+  bookId?: string | null;
+  pageSize: number;
+};
+
+type AnnotationSearchState = {
+  loading: boolean;
+  error: string | null;
+  hits: AnnotationSearchHit[];
+  total: number;
+  hasMore: boolean;
+};
+
+const EMPTY_STATE: AnnotationSearchState = { loading: false, error: null, hits: [], total: 0, hasMore: false };
+
+export function useAnnotationSearch({ query, kinds = null, bookId = null, pageSize }: AnnotationSearchOptions) {
+  const debouncedQuery = useDebouncedValue(query.trim(), DEBOUNCE_MS.search);
+  const kindsKey = kinds ? [...kinds].sort().join(',') : '';
+  const [state, setState] = React.useState<AnnotationSearchState>(EMPTY_STATE);
+  const requestTokenRef = React.useRef(0);
+
+  const fetchPage = React.useCallback(
+    async (offset: number) => {
+      const token = requestTokenRef.current + 1;
+      requestTokenRef.current = token;
+      if (!debouncedQuery) {
+        setState(EMPTY_STATE);
+        return;
+      }
+
+      setState((current) => ({ ...current, loading: true, error: null }));
+      try {
+        const result = await getRendererApi().search.annotations({
+          query: debouncedQuery,
+          kinds: kindsKey ? (kindsKey.split(',') as AnnotationSearchKind[]) : null,
+          bookId,
+          offset,
+          limit: pageSize
+        });
+        if (requestTokenRef.current !== token) {
+          return;
+        }
+        if (!result.ok) {
+          setState({ ...EMPTY_STATE, error: result.error });
+          return;
+        }
+        setState((current) => ({
+          loading: false,
+          error: null,
+          hits: offset > 0 ? [...current.hits, ...result.hits] : result.hits,
+          total: result.total,
+          hasMore: result.hasMore
+        }));
+      } catch (error) {
+        if (requestTokenRef.current === token) {
+          setState({ ...EMPTY_STATE, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    },
+    [bookId, debouncedQuery, kindsKey, pageSize]
+  );
+
+  React.useEffect(() => {
+    void fetchPage(0);
+  }, [fetchPage]);
+
+  return {
+    ...state,
+    query: debouncedQuery,
+    loadMore: () => fetchPage(state.hits.length),
+    refresh: () => fetchPage(0)
+  };
+}
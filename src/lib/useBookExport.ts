@@ -1,29 +1,16 @@
 import * as React from 'react';
-import type { Book, Highlight, Note } from '../../shared/ipc';
-import { toJSON, toMarkdown } from '@/lib/book-export';
-import type { ExportFormat } from '@/components/ExportDialog';
+import type { ExportBookData, ExportFormat } from '../../shared/ipc';
+import { BOOK_EXPORTERS, DEFAULT_EXPORT_TEMPLATE, renderExportPreview } from '../../shared/book-export';
 
-type ExportPayload = {
-  book: Book;
-  notes: Note[];
-  highlights: Highlight[];
-};
-
-type UseFlowExportOptions = {
-  bookId: string;
-  title: string;
+type UseBookExportOptions = {
+  bookIds: string[];
 };
 
 function hasExportApi(
   api: Window['api']
-): api is NonNullable<Window['api']> & {
-  export: {
-    getBookData: (payload: { bookId: string }) => Promise<unknown>;
-    saveFile: (payload: { suggestedName: string; ext: 'md' | 'json'; content: string }) => Promise<unknown>;
-  };
-} {
+): api is NonNullable<Window['api']> {
   return Boolean(
-    api && api.export && typeof api.export.getBookData === 'function' && typeof api.export.saveFile === 'function'
+    api && api.export && typeof api.export.getBookData === 'function' && typeof api.export.saveBooks === 'function'
   );
 }
 
@@ -35,27 +22,30 @@ function toPreview(text: string, maxLines: number): string {
   return `${lines.slice(0, maxLines).join('\n')}\n...`;
 }
 
-function sanitizeExportName(value: string): string {
-  const trimmed = value.trim() || 'book-export';
-  return trimmed.replace(/[<>:"/\\|?*\u0000-\u001F]/g, '_').trim() || 'book-export';
-}
-
-export function useFlowExport({ bookId, title }: UseFlowExportOptions) {
+export function useBookExport({ bookIds }: UseBookExportOptions) {
+  const bookIdsKey = bookIds.join('\n');
   const [exportDialogOpen, setExportDialogOpen] = React.useState(false);
   const [exportFormat, setExportFormat] = React.useState<ExportFormat>('markdown');
   const [exportLoading, setExportLoading] = React.useState(false);
   const [exportError, setExportError] = React.useState<string | null>(null);
   const [exportMessage, setExportMessage] = React.useState<string | null>(null);
-  const [exportData, setExportData] = React.useState<ExportPayload | null>(null);
+  const [exportData, setExportData] = React.useState<ExportBookData[] | null>(null);
+  const [exportTemplate, setExportTemplate] = React.useState(DEFAULT_EXPORT_TEMPLATE);
 
-  const exportContent = React.useMemo(() => {
-    if (!exportData) {
-      return '';
+  // A template with unbalanced sections cannot be rendered; the preview shows why instead.
+  const { exportContent, exportTemplateError } = React.useMemo(() => {
+    if (!exportData || exportData.length === 0) {
+      return { exportContent: '', exportTemplateError: null };
     }
-    return exportFormat === 'json'
-      ? toJSON(exportData.book, exportData.notes, exportData.highlights)
-      : toMarkdown(exportData.book.title, exportData.notes, exportData.highlights);
-  }, [exportData, exportFormat]);
+    try {
+      return {
+        exportContent: renderExportPreview(exportFormat, exportData, { template: exportTemplate }),
+        exportTemplateError: null
+      };
+    } catch (error) {
+      return { exportContent: '', exportTemplateError: error instanceof Error ? error.message : String(error) };
+    }
+  }, [exportData, exportFormat, exportTemplate]);
 
   const exportPreview = React.useMemo(() => toPreview(exportContent, 40), [exportContent]);
 
@@ -67,29 +57,39 @@ export function useFlowExport({ bookId, title }: UseFlowExportOptions) {
       return;
     }
 
+    setExportDialogOpen(true);
     setExportLoading(true);
     setExportError(null);
     setExportMessage(null);
     try {
-      const result = await api.export.getBookData({ bookId });
-      if (!result || typeof result !== 'object' || !('ok' in result) || !result.ok) {
-        setExportError(result && typeof result === 'object' && 'error' in result ? String(result.error) : 'Failed to prepare export.');
-        setExportDialogOpen(true);
-        return;
+      const data: ExportBookData[] = [];
+      for (const bookId of bookIdsKey ? bookIdsKey.split('\n') : []) {
+        const result = await api.export.getBookData({ bookId });
+        if (!result.ok) {
+          setExportError(result.error);
+          setExportData(null);
+          return;
+        }
+        data.push(result.data);
       }
-
-      setExportData((result as { ok: true; data: ExportPayload }).data);
-      setExportDialogOpen(true);
+      setExportData(data);
     } catch (error) {
       setExportError(error instanceof Error ? error.message : String(error));
-      setExportDialogOpen(true);
+      setExportData(null);
     } finally {
       setExportLoading(false);
     }
-  }, [bookId]);
+  }, [bookIdsKey]);
+
+  const changeExportFormat = React.useCallback((format: ExportFormat) => {
+    setExportFormat(format);
+    setExportError(null);
+    setExportMessage(null);
+  }, []);
 
   const copyExportContent = React.useCallback(async () => {
-    if (!exportContent) {
+    if (!exportContent || !BOOK_EXPORTERS[exportFormat].copyable) {
+      setExportError('Nothing to export.');
       return;
     }
     setExportError(null);
@@ -100,7 +100,7 @@ export function useFlowExport({ bookId, title }: UseFlowExportOptions) {
     } catch (error) {
       setExportError(error instanceof Error ? error.message : String(error));
     }
-  }, [exportContent]);
+  }, [exportContent, exportFormat]);
 
   const saveExportContent = React.useCallback(async () => {
     const api = window.api;
@@ -108,7 +108,8 @@ export function useFlowExport({ bookId, title }: UseFlowExportOptions) {
       setExportError('Export API is unavailable. Restart the app to reload Electron preload.');
       return;
     }
-    if (!exportContent) {
+    if (!exportData || exportData.length === 0) {
+      setExportError('Nothing to export.');
       return;
     }
 
@@ -116,38 +117,32 @@ export function useFlowExport({ bookId, title }: UseFlowExportOptions) {
     setExportError(null);
     setExportMessage(null);
     try {
-      const ext = exportFormat === 'json' ? 'json' : 'md';
-      const result = await api.export.saveFile({
-        suggestedName: sanitizeExportName(title),
-        ext,
-        content: exportContent
+      const result = await api.export.saveBooks({
+        bookIds: exportData.map((data) => data.book.id),
+        format: exportFormat,
+        template: exportFormat === 'template' ? exportTemplate : null
       });
-      if (!result || typeof result !== 'object' || !('ok' in result)) {
-        setExportError('Failed to save export.');
-        return;
-      }
       if (!result.ok) {
         if ('cancelled' in result && result.cancelled) {
           return;
         }
-        setExportError('error' in result ? String(result.error) : 'Failed to save export.');
+        setExportError('error' in result ? result.error : 'Failed to save export.');
         return;
       }
-      setExportMessage(`Saved to ${(result as { ok: true; path: string }).path}`);
+      setExportMessage(`Saved to ${result.path}`);
     } catch (error) {
       setExportError(error instanceof Error ? error.message : String(error));
     } finally {
       setExportLoading(false);
     }
-  }, [exportContent, exportFormat, title]);
+  }, [exportData, exportFormat, exportTemplate]);
 
   React.useEffect(() => {
     setExportDialogOpen(false);
     setExportError(null);
     setExportMessage(null);
     setExportData(null);
-    setExportFormat('markdown');
-  }, [bookId]);
+  }, [bookIdsKey]);
 
   return {
     exportDialogOpen,
@@ -156,11 +151,13 @@ export function useFlowExport({ bookId, title }: UseFlowExportOptions) {
     exportError,
     exportMessage,
     exportPreview,
-    setExportFormat,
+    exportTemplate,
+    exportTemplateError,
+    setExportFormat: changeExportFormat,
+    setExportTemplate,
     openExportDialog,
     copyExportContent,
     saveExportContent,
     closeExportDialog: () => setExportDialogOpen(false)
   };
 }
-
@@ -0,0 +1,80 @@
+import * as React from 'react';
+import type { ExportTemplate, ExportTemplatesSaveRequest } from '../../shared/ipc';
+
+export function useExportTemplates(enabled = true) {
+  const [templates, setTemplates] = React.useState<ExportTemplate[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const refresh = React.useCallback(async () => {
+    if (!window.api?.exportTemplates) {
+      return;
+    }
+
+    try {
+      const result = await window.api.exportTemplates.list();
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setError(null);
+      setTemplates(result.templates);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (enabled) {
+      void refresh();
+    }
+  }, [enabled, refresh]);
+
+  const saveTemplate = React.useCallback(
+    async (payload: ExportTemplatesSaveRequest): Promise<ExportTemplate | null> => {
+      if (!window.api?.exportTemplates) {
+        return null;
+      }
+
+      try {
+        const result = await window.api.exportTemplates.save(payload);
+        if (!result.ok) {
+          setError(result.error);
+          return null;
+        }
+        setError(null);
+        setTemplates((current) =>
+          [...current.filter((template) => template.id !== result.template.id), result.template].sort((a, b) =>
+            a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+          )
+        );
+        return result.template;
+      } catch (saveError) {
+        setError(saveError instanceof Error ? saveError.message : String(saveError));
+        return null;
+      }
+    },
+    []
+  );
+
+  const deleteTemplate = React.useCallback(async (id: string) => {
+    if (!window.api?.exportTemplates) {
+      return false;
+    }
+
+    try {
+      const result = await window.api.exportTemplates.delete({ id });
+      if (!result.ok) {
+        setError(result.error);
+        return false;
+      }
+      setError(null);
+      setTemplates((current) => current.filter((template) => template.id !== id));
+      return true;
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : String(deleteError));
+      return false;
+    }
+  }, []);
+
+  return { templates, error, refresh, saveTemplate, deleteTemplate };
+}
@@ -0,0 +1,76 @@
+import * as React from 'react';
+
+export function hasDraggedFiles(dataTransfer: DataTransfer | null): boolean {
+  return Array.from(dataTransfer?.types ?? []).includes('Files');
+}
+
+// Files dropped anywhere in the window are passed to onDrop. Drop targets that import files
+// themselves (e.g. a collection) call preventDefault so the window does not import them again.
+export function useFileDrop(onDrop: (files: File[]) => void) {
+  const [dragActive, setDragActive] = React.useState(false);
+  const onDropRef = React.useRef(onDrop);
+
+  React.useEffect(() => {
+    onDropRef.current = onDrop;
+  }, [onDrop]);
+
+  React.useEffect(() => {
+    let depth = 0;
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasDraggedFiles(event.dataTransfer)) {
+        return;
+      }
+      depth += 1;
+      setDragActive(true);
+    };
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasDraggedFiles(event.dataTransfer)) {
+        return;
+      }
+      // Without this Chromium navigates to the dropped file.
+      event.preventDefault();
+      if (event.dataTransfer) {
+        event.dataTransfer.dropEffect = 'copy';
+      }
+    };
+
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasDraggedFiles(event.dataTransfer)) {
+        return;
+      }
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) {
+        setDragActive(false);
+      }
+    };
+
+    const handleDrop = (event: DragEvent) => {
+      if (!hasDraggedFiles(event.dataTransfer)) {
+        return;
+      }
+      const handled = event.defaultPrevented;
+      event.preventDefault();
+      depth = 0;
+      setDragActive(false);
+      const files = Array.from(event.dataTransfer?.files ?? []);
+      if (!handled && files.length > 0) {
+        onDropRef.current(files);
+      }
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  return dragActive;
+}
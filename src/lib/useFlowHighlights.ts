@@ -1,5 +1,6 @@
 import * as React from 'react';
-import type { Highlight } from '../../shared/ipc';
+import type { Highlight, HighlightColor } from '../../shared/ipc';
+import { getPreferredHighlightColor, setPreferredHighlightColor } from '@/lib/highlight-colors';
 
 type CreateFlowHighlightInput = {
   location: string;
@@ -45,7 +46,8 @@ export function useFlowHighlights(bookId: string) {
         bookId,
         cfiRange: location,
         text,
-        note
+        note,
+        color: getPreferredHighlightColor()
       });
       if (!result.ok) {
         setError(result.error);
@@ -103,6 +105,30 @@ export function useFlowHighlights(bookId: string) {
     }
   }, []);
 
+  const updateHighlightColor = React.useCallback(async (highlightId: string, color: HighlightColor) => {
+    if (!window.api?.highlights) {
+      setError('Highlights API is unavailable. Restart the app to reload Electron preload.');
+      return null;
+    }
+
+    setError(null);
+    setPreferredHighlightColor(color);
+    try {
+      const result = await window.api.highlights.updateColor({ highlightId, color });
+      if (!result.ok) {
+        setError(result.error);
+        return null;
+      }
+      setHighlights((prev) =>
+        prev.map((highlight) => (highlight.id === highlightId ? result.highlight : highlight))
+      );
+      return result.highlight;
+    } catch (updateError) {
+      setError(updateError instanceof Error ? updateError.message : String(updateError));
+      return null;
+    }
+  }, []);
+
   React.useEffect(() => {
     void loadHighlights();
   }, [loadHighlights]);
@@ -114,6 +140,7 @@ export function useFlowHighlights(bookId: string) {
     loadHighlights,
     createHighlight,
     deleteHighlight,
-    updateHighlightNote
+    updateHighlightNote,
+    updateHighlightColor
   };
 }
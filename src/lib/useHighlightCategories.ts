@@ -0,0 +1,56 @@
+import * as React from 'react';
+import type { HighlightColor } from '../../shared/ipc';
+import {
+  EMPTY_HIGHLIGHT_CATEGORY_LABELS,
+  toHighlightCategoryLabels,
+  type HighlightCategoryLabels
+} from '@/lib/highlight-colors';
+
+export function useHighlightCategories() {
+  const [labels, setLabels] = React.useState<HighlightCategoryLabels>(EMPTY_HIGHLIGHT_CATEGORY_LABELS);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const refresh = React.useCallback(async () => {
+    if (!window.api?.highlightCategories) {
+      return;
+    }
+
+    try {
+      const result = await window.api.highlightCategories.list();
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      setError(null);
+      setLabels(toHighlightCategoryLabels(result.categories));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    }
+  }, []);
+
+  React.useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const setCategory = React.useCallback(async (color: HighlightColor, label: string | null) => {
+    if (!window.api?.highlightCategories) {
+      return false;
+    }
+
+    try {
+      const result = await window.api.highlightCategories.set({ color, label });
+      if (!result.ok) {
+        setError(result.error);
+        return false;
+      }
+      setError(null);
+      setLabels(toHighlightCategoryLabels(result.categories));
+      return true;
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+      return false;
+    }
+  }, []);
+
+  return { labels, error, refresh, setCategory };
+}
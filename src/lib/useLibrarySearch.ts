@@ -0,0 +1,85 @@
+import * as React from 'react';
+import type { LibrarySearchBookResult, LibrarySearchIndexStatus } from '../../shared/ipc';
+import { DEBOUNCE_MS } from '@/lib/constants';
+import { useDebouncedValue } from '@/lib/useDebouncedValue';
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+type LibrarySearchState = {
+  loading: boolean;
+  error: string | null;
+  results: LibrarySearchBookResult[];
+  status: LibrarySearchIndexStatus | null;
+};
+
+// While the background indexer is still working, results are refreshed so newly indexed books show up.
+const INDEXING_POLL_MS = 3000;
+
+export function useLibrarySearch(query: string) {
+  const debouncedQuery = useDebouncedValue(query.trim(), DEBOUNCE_MS.fullTextSearch);
+  const [state, setState] = React.useState<LibrarySearchState>({
+    loading: false,
+    error: null,
+    results: [],
+    status: null
+  });
+  const requestTokenRef = React.useRef(0);
+
+  const run = React.useCallback(async (searchQuery: string, showLoading: boolean) => {
+    const token = requestTokenRef.current + 1;
+    requestTokenRef.current = token;
+    if (showLoading) {
+      setState((current) => ({ ...current, loading: true, error: null }));
+    }
+
+    try {
+      const result = await getRendererApi().search.library({ query: searchQuery });
+      if (requestTokenRef.current !== token) {
+        return;
+      }
+      if (!result.ok) {
+        setState((current) => ({ ...current, loading: false, error: result.error, results: [] }));
+        return;
+      }
+      setState({ loading: false, error: null, results: result.results, status: result.status });
+    } catch (error) {
+      if (requestTokenRef.current === token) {
+        setState((current) => ({
+          ...current,
+          loading: false,
+          error: error instanceof Error ? error.message : String(error)
+        }));
+      }
+    }
+  }, []);
+
+  React.useEffect(() => {
+    void run(debouncedQuery, debouncedQuery.length > 0);
+  }, [debouncedQuery, run]);
+
+  const indexing = state.status?.indexing ?? false;
+  React.useEffect(() => {
+    if (!indexing) {
+      return;
+    }
+
+    const timer = window.setInterval(() => {
+      void run(debouncedQuery, false);
+    }, INDEXING_POLL_MS);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [debouncedQuery, indexing, run]);
+
+  return {
+    ...state,
+    query: debouncedQuery,
+    refresh: () => run(debouncedQuery, true)
+  };
+}
@@ -0,0 +1,96 @@
+import * as React from 'react';
+import type { LocalProfile, ProfilesListResult, ProfilesUpdateRequest, RendererProfilesApi } from '../../shared/ipc';
+
+export function useProfiles() {
+  const [profiles, setProfiles] = React.useState<LocalProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const run = React.useCallback(async (action: (api: RendererProfilesApi) => Promise<ProfilesListResult>) => {
+    if (!window.api?.profiles) {
+      setError('Profiles API is unavailable. Restart the app to reload Electron preload.');
+      return false;
+    }
+
+    setBusy(true);
+    try {
+      const result = await action(window.api.profiles);
+      if (!result.ok) {
+        setError(result.error);
+        return false;
+      }
+      setError(null);
+      setProfiles(result.profiles);
+      setActiveProfileId(result.activeProfileId);
+      return true;
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    void run((api) => api.list()).finally(() => setLoading(false));
+  }, [run]);
+
+  // Every screen and context caches data of the current profile, so start over after switching.
+  const switchProfile = React.useCallback(
+    async (id: string, pin?: string) => {
+      if (await run((api) => api.switch({ id, pin }))) {
+        window.location.reload();
+        return true;
+      }
+      return false;
+    },
+    [run]
+  );
+
+  const lockProfile = React.useCallback(async () => {
+    if (await run((api) => api.lock())) {
+      window.location.reload();
+    }
+  }, [run]);
+
+  const createProfile = React.useCallback(
+    async (name: string, pin?: string): Promise<LocalProfile | null> => {
+      let created: LocalProfile | null = null;
+      await run(async (api) => {
+        const result = await api.create({ name, pin });
+        if (result.ok) {
+          created = result.profiles.find((profile) => profile.id === result.profileId) ?? null;
+        }
+        return result;
+      });
+      return created;
+    },
+    [run]
+  );
+
+  const updateProfile = React.useCallback(
+    (patch: ProfilesUpdateRequest) => run((api) => api.update(patch)),
+    [run]
+  );
+
+  const deleteProfile = React.useCallback(
+    (id: string, pin?: string) => run((api) => api.delete({ id, pin })),
+    [run]
+  );
+
+  return {
+    profiles,
+    activeProfileId,
+    activeProfile: profiles.find((profile) => profile.id === activeProfileId) ?? null,
+    loading,
+    busy,
+    error,
+    switchProfile,
+    lockProfile,
+    createProfile,
+    updateProfile,
+    deleteProfile
+  };
+}
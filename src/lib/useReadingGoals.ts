@@ -0,0 +1,100 @@
+import * as React from 'react';
+import type {
+  GoalReminderSettings,
+  GoalsSaveRequest,
+  GoalsSetReminderRequest,
+  ReadingGoalProgress
+} from '../../shared/ipc';
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+type ReadingGoalsState = {
+  loading: boolean;
+  error: string | null;
+  goals: ReadingGoalProgress[];
+  reminder: GoalReminderSettings | null;
+};
+
+export function useReadingGoals(refreshKey?: string | number) {
+  const [state, setState] = React.useState<ReadingGoalsState>({
+    loading: true,
+    error: null,
+    goals: [],
+    reminder: null
+  });
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const result = await getRendererApi().goals.list();
+      if (!result.ok) {
+        setState((current) => ({ ...current, loading: false, error: result.error }));
+        return;
+      }
+
+      setState({ loading: false, error: null, goals: result.goals, reminder: result.reminder });
+    } catch (error) {
+      setState((current) => ({
+        ...current,
+        loading: false,
+        error: error instanceof Error ? error.message : String(error)
+      }));
+    }
+  }, []);
+
+  React.useEffect(() => {
+    void refresh();
+  }, [refresh, refreshKey]);
+
+  const saveGoal = React.useCallback(
+    async (payload: GoalsSaveRequest) => {
+      const result = await getRendererApi().goals.save(payload);
+      if (!result.ok) {
+        setState((current) => ({ ...current, error: result.error }));
+        return false;
+      }
+
+      await refresh();
+      return true;
+    },
+    [refresh]
+  );
+
+  const deleteGoal = React.useCallback(
+    async (goalId: string) => {
+      const result = await getRendererApi().goals.delete({ goalId });
+      if (!result.ok) {
+        setState((current) => ({ ...current, error: result.error }));
+        return false;
+      }
+
+      await refresh();
+      return true;
+    },
+    [refresh]
+  );
+
+  const setReminder = React.useCallback(async (payload: GoalsSetReminderRequest) => {
+    const result = await getRendererApi().goals.setReminder(payload);
+    if (!result.ok) {
+      setState((current) => ({ ...current, error: result.error }));
+      return false;
+    }
+
+    setState((current) => ({ ...current, error: null, reminder: result.reminder }));
+    return true;
+  }, []);
+
+  return {
+    ...state,
+    refresh,
+    saveGoal,
+    deleteGoal,
+    setReminder
+  };
+}
@@ -0,0 +1,53 @@
+import * as React from 'react';
+import type { ReadingStatsOverview } from '../../shared/ipc';
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+type ReadingOverviewState = {
+  loading: boolean;
+  error: string | null;
+  overview: ReadingStatsOverview | null;
+};
+
+export function useReadingOverview(days = 365, refreshKey?: string | number) {
+  const [state, setState] = React.useState<ReadingOverviewState>({
+    loading: true,
+    error: null,
+    overview: null
+  });
+
+  const refresh = React.useCallback(async () => {
+    setState((current) => ({ ...current, loading: true, error: null }));
+
+    try {
+      const result = await getRendererApi().stats.getOverview({ days });
+      if (!result.ok) {
+        setState({ loading: false, error: result.error, overview: null });
+        return;
+      }
+
+      setState({ loading: false, error: null, overview: result.overview });
+    } catch (error) {
+      setState({
+        loading: false,
+        error: error instanceof Error ? error.message : String(error),
+        overview: null
+      });
+    }
+  }, [days]);
+
+  React.useEffect(() => {
+    void refresh();
+  }, [refresh, refreshKey]);
+
+  return {
+    ...state,
+    refresh
+  };
+}
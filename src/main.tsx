@@ -5,14 +5,17 @@ import './index.css';
 import { ReaderSettingsProvider } from '@/contexts/ReaderSettingsContext';
 import { LanguageProvider } from '@/contexts/LanguageContext';
 import { NetworkStatusProvider } from '@/contexts/NetworkStatusContext';
+import { ProfileGate } from '@/components/ProfileGate';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <LanguageProvider>
       <NetworkStatusProvider>
-        <ReaderSettingsProvider>
-          <App />
-        </ReaderSettingsProvider>
+        <ProfileGate>
+          <ReaderSettingsProvider>
+            <App />
+          </ReaderSettingsProvider>
+        </ProfileGate>
       </NetworkStatusProvider>
     </LanguageProvider>
   </React.StrictMode>
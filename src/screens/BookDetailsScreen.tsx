@@ -1,13 +1,16 @@
 import * as React from 'react';
-import { ArrowLeft, BookOpen, FolderOpen, Layers3, Sparkles } from 'lucide-react';
+import { ArrowLeft, BookOpen, FolderOpen, Layers3, Lock, PencilLine, Sparkles } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { BookCard } from '@/components/book-card';
+import { BookMetadataEditor } from '@/components/BookMetadataEditor';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
 import { getReaderHeroCardStyles } from '@/lib/reader-theme';
 import type { Book, RecommendationEntry } from '../../shared/ipc';
 import type { BookActivitySummary, BookMetric } from '@/lib/library-metrics';
+import { formatSeriesLabel } from '../../shared/series';
 
 type Props = {
   book: Book;
@@ -24,9 +27,13 @@ type Props = {
   onInspect: (book: Book) => void;
   onReveal: (bookId: string) => void;
   onDelete: (bookId: string) => void;
+  onMetadataSaved: (book: Book) => Promise<void> | void;
 };
 
 function getReasonLabel(entry: RecommendationEntry) {
+  if (entry.reasons.includes('next-in-series')) {
+    return `Next in series: ${formatSeriesLabel(entry.book) ?? entry.book.title}`;
+  }
   if (entry.matchedAuthors.length > 0) {
     return `Author match: ${entry.matchedAuthors.slice(0, 2).join(', ')}`;
   }
@@ -52,7 +59,7 @@ function RecommendationShelf({
   entries: RecommendationEntry[];
   loading: boolean;
   emptyMessage: string;
-  props: Omit<Props, 'book' | 'similarBooks' | 'moreByAuthor' | 'recommendationsLoading' | 'recommendationsError'>;
+  props: Omit<Props, 'book' | 'similarBooks' | 'moreByAuthor' | 'recommendationsLoading' | 'recommendationsError' | 'onMetadataSaved'>;
 }) {
   return (
     <section className="space-y-4">
@@ -102,9 +109,16 @@ export function BookDetailsScreen(props: Props) {
     moreByAuthor,
     onBack,
     onOpen,
-    onReveal
+    onReveal,
+    onMetadataSaved
   } = props;
   const { settings } = useReaderSettings();
+  const { t } = useLanguage();
+  const [editing, setEditing] = React.useState(false);
+
+  React.useEffect(() => {
+    setEditing(false);
+  }, [book.id]);
 
   return (
     <div className="flex h-full w-full min-w-0 flex-1 overflow-y-auto pr-1">
@@ -124,38 +138,67 @@ export function BookDetailsScreen(props: Props) {
             </div>
 
             <div className="grid gap-6 xl:grid-cols-[minmax(0,1.5fr)_minmax(280px,0.9fr)]">
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <h1 className="text-3xl font-semibold tracking-tight">{book.title}</h1>
-                  {book.subtitle ? <p className="text-base text-muted-foreground">{book.subtitle}</p> : null}
-                  <p className="text-sm text-muted-foreground">
-                    {[book.author ?? 'Unknown author', book.publishYear ? String(book.publishYear) : null, book.format.toUpperCase()]
-                      .filter(Boolean)
-                      .join(' • ')}
-                  </p>
-                </div>
+              {editing ? (
+                <BookMetadataEditor
+                  key={book.id}
+                  book={book}
+                  onCancel={() => setEditing(false)}
+                  onSaved={async (savedBook) => {
+                    await onMetadataSaved(savedBook);
+                    setEditing(false);
+                  }}
+                />
+              ) : (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <h1 className="text-3xl font-semibold tracking-tight">{book.title}</h1>
+                    {book.subtitle ? <p className="text-base text-muted-foreground">{book.subtitle}</p> : null}
+                    <p className="text-sm text-muted-foreground">
+                      {[
+                        book.author ?? 'Unknown author',
+                        formatSeriesLabel(book),
+                        book.publishYear ? String(book.publishYear) : null,
+                        book.language,
+                        book.format.toUpperCase()
+                      ]
+                        .filter(Boolean)
+                        .join(' • ')}
+                    </p>
+                    {book.publisher || book.isbn ? (
+                      <p className="text-xs text-muted-foreground">
+                        {[book.publisher, book.isbn ? `ISBN ${book.isbn}` : null].filter(Boolean).join(' • ')}
+                      </p>
+                    ) : null}
+                    {book.metadataLocked ? (
+                      <p className="inline-flex items-center gap-1.5 text-xs text-muted-foreground">
+                        <Lock className="h-3.5 w-3.5" />
+                        {t.bookMetadata.lockedBadge}
+                      </p>
+                    ) : null}
+                  </div>
 
-                {book.description ? (
-                  <p className="max-w-3xl text-sm leading-7 text-muted-foreground">{book.description}</p>
-                ) : (
-                  <p className="max-w-3xl text-sm leading-7 text-muted-foreground">
-                    Rich metadata will keep improving in the background as local and Open Library data are matched.
-                  </p>
-                )}
+                  {book.description ? (
+                    <p className="max-w-3xl text-sm leading-7 text-muted-foreground">{book.description}</p>
+                  ) : (
+                    <p className="max-w-3xl text-sm leading-7 text-muted-foreground">
+                      Rich metadata will keep improving in the background as local and Open Library data are matched.
+                    </p>
+                  )}
 
-                {(book.subjects ?? []).length > 0 ? (
-                  <div className="flex flex-wrap gap-2">
-                    {(book.subjects ?? []).slice(0, 8).map((subject) => (
-                      <span
-                        key={subject}
-                        className="rounded-full border border-border/70 bg-background/70 px-3 py-1 text-xs text-muted-foreground"
-                      >
-                        {subject}
-                      </span>
-                    ))}
-                  </div>
-                ) : null}
-              </div>
+                  {(book.subjects ?? []).length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {(book.subjects ?? []).slice(0, 8).map((subject) => (
+                        <span
+                          key={subject}
+                          className="rounded-full border border-border/70 bg-background/70 px-3 py-1 text-xs text-muted-foreground"
+                        >
+                          {subject}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
+                </div>
+              )}
 
               <div className="space-y-3 rounded-3xl border border-border/60 bg-background/80 p-5">
                 <div className="space-y-1">
@@ -171,6 +214,10 @@ export function BookDetailsScreen(props: Props) {
                     <FolderOpen className="h-4 w-4" />
                     Show in Folder
                   </Button>
+                  <Button type="button" variant="outline" onClick={() => setEditing(true)} disabled={editing}>
+                    <PencilLine className="h-4 w-4" />
+                    {t.bookMetadata.edit}
+                  </Button>
                 </div>
                 <div className="rounded-2xl border border-border/60 bg-muted/30 px-3 py-3 text-sm text-muted-foreground">
                   <div className="mb-1 flex items-center gap-2 font-medium text-foreground">
@@ -0,0 +1,543 @@
+import * as React from 'react';
+import { Bookmark, ChevronLeft, ChevronRight, SlidersHorizontal, Star, Trash2 } from 'lucide-react';
+import { ReaderSettingsPanel } from '@/components/ReaderSettingsPanel';
+import { ReaderShell } from '@/components/reader/ReaderShell';
+import { ReaderSidePanel } from '@/components/reader/ReaderSidePanel';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useBookReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getComicPageUrl } from '@/lib/book-source';
+import { READER_PANEL_WIDTH } from '@/lib/constants';
+import { markCachedBookMetricDirty } from '@/lib/library-metrics-cache';
+import { getPdfViewportBackground, getReaderButtonStyles, getReaderThemePalette } from '@/lib/reader-theme';
+import { useReadingSessionStats } from '@/lib/reading-stats';
+import type { Bookmark as BookmarkItem, PdfZoomPreset } from '../../shared/ipc';
+import { READER_SETTINGS_DEFAULTS } from '../../shared/ipc';
+
+type Props = {
+  title: string;
+  bookId: string;
+  initialPage?: number | null;
+  onInitialPageApplied?: () => void;
+  loading: boolean;
+  onBack: () => void;
+  onReachedEnd?: () => void;
+};
+
+const PAGE_IMAGE_CLASS_NAMES: Record<PdfZoomPreset, string> = {
+  fitWidth: 'w-full h-auto',
+  fitPage: 'max-h-full max-w-full object-contain',
+  actualSize: 'max-w-none'
+};
+
+function getRendererApi() {
+  if (!window.api) {
+    throw new Error('Renderer API is unavailable. Open this app via Electron.');
+  }
+
+  return window.api;
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  const tagName = target.tagName;
+  return tagName === 'INPUT' || tagName === 'TEXTAREA' || target.isContentEditable;
+}
+
+function clampPage(nextPage: number, totalPages: number): number {
+  if (!Number.isFinite(nextPage)) {
+    return 1;
+  }
+  return Math.min(Math.max(1, Math.floor(totalPages)), Math.max(1, Math.floor(nextPage)));
+}
+
+function formatTimestamp(value: number): string {
+  if (!Number.isFinite(value)) {
+    return '';
+  }
+  return new Date(value).toLocaleString();
+}
+
+export function ComicReaderScreen({ title, bookId, initialPage = null, onInitialPageApplied, loading, onBack, onReachedEnd }: Props) {
+  const { settings, loading: settingsLoading, error: settingsError, updateSettings } = useBookReaderSettings(bookId);
+  const zoomPreset = settings.pdfZoomPreset ?? READER_SETTINGS_DEFAULTS.pdfZoomPreset;
+  const readerRootRef = React.useRef<HTMLDivElement | null>(null);
+  const viewportRef = React.useRef<HTMLDivElement | null>(null);
+  const pageInputRef = React.useRef<HTMLInputElement | null>(null);
+  const [pages, setPages] = React.useState<string[]>([]);
+  const [page, setPage] = React.useState(1);
+  const [pageInputValue, setPageInputValue] = React.useState('1');
+  const [error, setError] = React.useState<string | null>(null);
+  const [opening, setOpening] = React.useState(true);
+  const [restoreApplied, setRestoreApplied] = React.useState(false);
+  const [bookmarks, setBookmarks] = React.useState<BookmarkItem[]>([]);
+  const [bookmarksError, setBookmarksError] = React.useState<string | null>(null);
+  const [bookmarksPanelOpen, setBookmarksPanelOpen] = React.useState(false);
+  const [settingsPanelOpen, setSettingsPanelOpen] = React.useState(false);
+  const latestPageRef = React.useRef(1);
+  const saveTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pageCount = Math.max(1, pages.length);
+  const readerPalette = React.useMemo(() => getReaderThemePalette(settings), [settings]);
+  const viewportBackground = React.useMemo(
+    () => getPdfViewportBackground(settings.highContrastMode ? settings : settings.pdfBackground ?? READER_SETTINGS_DEFAULTS.pdfBackground),
+    [settings]
+  );
+  const { registerActivity, flush: flushReadingStats } = useReadingSessionStats({
+    bookId,
+    format: 'cbz',
+    location: page,
+    rootRef: readerRootRef
+  });
+  const isCurrentPageBookmarked = bookmarks.some((bookmark) => bookmark.page === page);
+
+  React.useEffect(() => {
+    let canceled = false;
+
+    const open = async () => {
+      setOpening(true);
+      setError(null);
+      setRestoreApplied(false);
+      try {
+        const api = getRendererApi();
+        const [pagesResult, savedLastPage] = await Promise.all([
+          api.books.getComicPages({ bookId }),
+          api.getLastPage({ bookId }).catch(() => null)
+        ]);
+        if (canceled) {
+          return;
+        }
+        if (!pagesResult.ok) {
+          setError(pagesResult.error);
+          return;
+        }
+
+        const preferredPage = initialPage && initialPage >= 1 ? initialPage : savedLastPage ?? 1;
+        setPages(pagesResult.pages);
+        setPage(clampPage(preferredPage, pagesResult.pages.length));
+        setRestoreApplied(true);
+        if (initialPage && initialPage >= 1) {
+          onInitialPageApplied?.();
+        }
+      } catch (err) {
+        if (!canceled) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      } finally {
+        if (!canceled) {
+          setOpening(false);
+        }
+      }
+    };
+
+    void open();
+    return () => {
+      canceled = true;
+    };
+    // The initial page is only applied when the comic is opened.
+  }, [bookId]);
+
+  const loadBookmarks = React.useCallback(async () => {
+    try {
+      const result = await getRendererApi().bookmarks.list({ bookId });
+      if (!result.ok) {
+        setBookmarksError(result.error);
+        return;
+      }
+      setBookmarks(result.bookmarks);
+      setBookmarksError(null);
+    } catch (err) {
+      setBookmarksError(err instanceof Error ? err.message : String(err));
+    }
+  }, [bookId]);
+
+  React.useEffect(() => {
+    void loadBookmarks();
+  }, [loadBookmarks]);
+
+  const toggleBookmarkForPage = React.useCallback(
+    async (targetPage: number) => {
+      try {
+        const result = await getRendererApi().bookmarks.toggle({ bookId, page: targetPage });
+        if (!result.ok) {
+          setBookmarksError(result.error);
+          return;
+        }
+        await loadBookmarks();
+      } catch (err) {
+        setBookmarksError(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [bookId, loadBookmarks]
+  );
+
+  const removeBookmarkByPage = React.useCallback(
+    async (targetPage: number) => {
+      try {
+        const result = await getRendererApi().bookmarks.remove({ bookId, page: targetPage });
+        if (!result.ok) {
+          setBookmarksError(result.error);
+          return;
+        }
+        await loadBookmarks();
+      } catch (err) {
+        setBookmarksError(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [bookId, loadBookmarks]
+  );
+
+  React.useEffect(() => {
+    latestPageRef.current = page;
+    setPageInputValue(String(page));
+    viewportRef.current?.scrollTo({ top: 0 });
+  }, [page]);
+
+  React.useEffect(() => {
+    if (!restoreApplied || !window.api) {
+      return;
+    }
+
+    saveTimerRef.current = setTimeout(() => {
+      void window.api?.setLastPage({ bookId, lastPage: Math.max(1, page) });
+      markCachedBookMetricDirty(bookId);
+      saveTimerRef.current = null;
+    }, 400);
+
+    return () => {
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+      }
+    };
+  }, [bookId, page, restoreApplied]);
+
+  React.useEffect(() => {
+    if (restoreApplied && pages.length > 0 && page >= pages.length) {
+      onReachedEnd?.();
+    }
+  }, [onReachedEnd, page, pages.length, restoreApplied]);
+
+  React.useEffect(() => {
+    // Preload the next page so turning pages does not flash an empty viewport.
+    const nextEntry = pages[page];
+    if (nextEntry) {
+      new Image().src = getComicPageUrl(bookId, nextEntry);
+    }
+  }, [bookId, page, pages]);
+
+  const goPrev = React.useCallback(() => {
+    registerActivity();
+    setPage((prev) => Math.max(1, prev - 1));
+  }, [registerActivity]);
+
+  const goNext = React.useCallback(() => {
+    registerActivity();
+    setPage((prev) => Math.min(pageCount, prev + 1));
+  }, [pageCount, registerActivity]);
+
+  const focusReader = React.useCallback(() => {
+    readerRootRef.current?.focus();
+  }, []);
+
+  const handleBack = React.useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    if (restoreApplied && window.api) {
+      void window.api.setLastPage({ bookId, lastPage: Math.max(1, latestPageRef.current) });
+      markCachedBookMetricDirty(bookId);
+    }
+    flushReadingStats();
+    onBack();
+  }, [bookId, flushReadingStats, onBack, restoreApplied]);
+
+  const jumpToPageInput = React.useCallback(() => {
+    const parsed = Number.parseInt(pageInputValue.trim(), 10);
+    if (!Number.isInteger(parsed)) {
+      setPageInputValue(String(page));
+      return;
+    }
+    setPage(clampPage(parsed, pageCount));
+  }, [page, pageCount, pageInputValue]);
+
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        if (settingsPanelOpen) {
+          event.preventDefault();
+          setSettingsPanelOpen(false);
+          focusReader();
+        } else if (bookmarksPanelOpen) {
+          event.preventDefault();
+          setBookmarksPanelOpen(false);
+          focusReader();
+        }
+        return;
+      }
+
+      if (isTypingTarget(event.target ?? document.activeElement) || event.ctrlKey || event.metaKey) {
+        return;
+      }
+
+      if (event.key === 'ArrowLeft' || event.key === 'PageUp') {
+        event.preventDefault();
+        goPrev();
+      } else if (event.key === 'ArrowRight' || event.key === 'PageDown' || event.key === ' ') {
+        event.preventDefault();
+        goNext();
+      } else if (event.key === 'Home') {
+        event.preventDefault();
+        setPage(1);
+      } else if (event.key === 'End') {
+        event.preventDefault();
+        setPage(pageCount);
+      } else if (event.key === 'b' || event.key === 'B') {
+        event.preventDefault();
+        void toggleBookmarkForPage(latestPageRef.current);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [bookmarksPanelOpen, focusReader, goNext, goPrev, pageCount, settingsPanelOpen, toggleBookmarkForPage]);
+
+  const busy = loading || opening;
+  const currentEntry = pages[page - 1] ?? null;
+
+  const headerStatus =
+    bookmarksError || settingsError ? (
+      <>
+        {bookmarksError ? <p className="text-xs text-destructive">{bookmarksError}</p> : null}
+        {settingsError ? (
+          <p className="text-xs" style={{ color: '#dc2626' }}>
+            {settingsError}
+          </p>
+        ) : null}
+      </>
+    ) : null;
+
+  const footer = (
+    <div className="flex items-center gap-3">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={goPrev}
+        disabled={busy || page <= 1}
+        style={getReaderButtonStyles(settings)}
+      >
+        <ChevronLeft className="mr-1 h-4 w-4" />
+        Prev
+      </Button>
+      <div className="flex min-w-0 flex-1 items-center justify-center gap-2">
+        <div
+          className="flex items-center gap-1 rounded-lg border px-1 py-1"
+          style={{ borderColor: readerPalette.chromeBorder, backgroundColor: readerPalette.accentBg }}
+        >
+          <Input
+            ref={pageInputRef}
+            value={pageInputValue}
+            onChange={(event) => setPageInputValue(event.target.value.replace(/\D+/g, ''))}
+            onFocus={() => pageInputRef.current?.select()}
+            onBlur={jumpToPageInput}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                event.preventDefault();
+                pageInputRef.current?.blur();
+              }
+            }}
+            className="h-8 w-14 text-center text-sm"
+            style={{
+              backgroundColor: readerPalette.inputBg,
+              borderColor: readerPalette.buttonBorder,
+              color: readerPalette.inputText
+            }}
+            disabled={busy}
+            aria-label="Page number"
+            inputMode="numeric"
+          />
+          <span className="px-1 text-xs" style={{ color: readerPalette.mutedText }}>
+            / {pageCount}
+          </span>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              void toggleBookmarkForPage(page);
+            }}
+            disabled={busy}
+            aria-label={isCurrentPageBookmarked ? 'Remove bookmark from current page' : 'Bookmark current page'}
+            title={isCurrentPageBookmarked ? 'Remove bookmark' : 'Add bookmark'}
+            style={getReaderButtonStyles(settings, isCurrentPageBookmarked)}
+          >
+            <Star className={`h-4 w-4 ${isCurrentPageBookmarked ? 'fill-amber-400 text-amber-500' : ''}`} />
+          </Button>
+        </div>
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={goNext}
+        disabled={busy || page >= pageCount}
+        style={getReaderButtonStyles(settings)}
+      >
+        Next
+        <ChevronRight className="ml-1 h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  const rightPanel = (
+    <>
+      <ReaderSettingsPanel
+        open={settingsPanelOpen}
+        format="cbz"
+        settings={settings}
+        onClose={() => setSettingsPanelOpen(false)}
+        onChange={updateSettings}
+        palette={readerPalette}
+      />
+      <ReaderSidePanel
+        open={bookmarksPanelOpen}
+        title="Bookmarks"
+        settings={settings}
+        onClose={() => setBookmarksPanelOpen(false)}
+        icon={<Bookmark className="h-4 w-4" />}
+        rightOffset={settingsPanelOpen ? READER_PANEL_WIDTH.stackedOffset : READER_PANEL_WIDTH.offset}
+      >
+        <div className="space-y-2">
+          {bookmarks.length === 0 ? (
+            <p className="text-xs" style={{ color: readerPalette.mutedText }}>No bookmarks for this book.</p>
+          ) : null}
+          {bookmarks.map((bookmark) => (
+            <div
+              key={bookmark.id}
+              className="flex items-start gap-2 rounded-md border p-2 transition-colors"
+              style={{ borderColor: readerPalette.chromeBorder }}
+            >
+              <button
+                type="button"
+                onClick={() => {
+                  setPage(clampPage(bookmark.page, pageCount));
+                  focusReader();
+                }}
+                className="min-w-0 flex-1 text-left focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <p className="text-xs font-semibold" style={{ color: readerPalette.chromeText }}>Page {bookmark.page}</p>
+                <p className="mt-1 text-[11px]" style={{ color: readerPalette.mutedText }}>
+                  {formatTimestamp(bookmark.createdAt)}
+                </p>
+              </button>
+              <button
+                type="button"
+                className="rounded p-1 transition-colors"
+                style={{ color: readerPalette.mutedText }}
+                aria-label={`Remove bookmark from page ${bookmark.page}`}
+                onClick={() => {
+                  void removeBookmarkByPage(bookmark.page);
+                }}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </ReaderSidePanel>
+    </>
+  );
+
+  return (
+    <ReaderShell
+      title={title}
+      settings={settings}
+      rootRef={readerRootRef}
+      rootTabIndex={-1}
+      headerLeft={
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleBack}
+          disabled={loading}
+          style={getReaderButtonStyles(settings)}
+        >
+          Back
+        </Button>
+      }
+      headerRight={
+        <>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setBookmarksPanelOpen((prev) => !prev)}
+            disabled={busy}
+            style={getReaderButtonStyles(settings, bookmarksPanelOpen)}
+          >
+            <Bookmark className="h-4 w-4" />
+            Bookmarks
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setSettingsPanelOpen((prev) => !prev)}
+            disabled={loading || settingsLoading}
+            style={getReaderButtonStyles(settings, settingsPanelOpen)}
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+            Settings
+          </Button>
+        </>
+      }
+      headerStatus={headerStatus}
+      rightPanel={rightPanel}
+      footer={footer}
+      viewportClassName="flex-col"
+    >
+      <div
+        ref={viewportRef}
+        className="reader-elevated-surface flex min-h-0 min-w-0 flex-1 basis-0 overflow-auto"
+        style={{ backgroundColor: viewportBackground }}
+      >
+        <div
+          className={
+            zoomPreset === 'fitPage'
+              ? 'flex h-full w-full items-center justify-center p-4'
+              : 'mx-auto flex min-h-full w-full max-w-5xl justify-center px-4 py-6'
+          }
+        >
+          {error ? <p className="text-sm text-destructive">{error}</p> : null}
+          {!error && opening ? (
+            <p className="text-sm" style={{ color: readerPalette.mutedText }}>Loading comic...</p>
+          ) : null}
+          {!error && !opening && currentEntry ? (
+            <img
+              key={currentEntry}
+              src={getComicPageUrl(bookId, currentEntry)}
+              alt={`Page ${page}`}
+              className={`comic-page-image ${PAGE_IMAGE_CLASS_NAMES[zoomPreset]}`}
+              style={{ boxShadow: readerPalette.shadow }}
+              draggable={false}
+              onClick={(event) => {
+                const bounds = event.currentTarget.getBoundingClientRect();
+                if (event.clientX - bounds.left < bounds.width / 3) {
+                  goPrev();
+                } else {
+                  goNext();
+                }
+              }}
+            />
+          ) : null}
+        </div>
+      </div>
+    </ReaderShell>
+  );
+}
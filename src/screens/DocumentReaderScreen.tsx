@@ -0,0 +1,54 @@
+import * as React from 'react';
+import type { DocumentBookFormat } from '../../shared/ipc';
+import { FlowDocumentReader } from '@/components/reader/FlowDocumentReader';
+import { buildBookDocument } from '@/lib/book-document';
+import { FORMAT_BADGE_LABELS } from '@/lib/constants';
+
+type Props = {
+  title: string;
+  bookId: string;
+  format: DocumentBookFormat;
+  initialCfi?: string | null;
+  onInitialCfiApplied?: () => void;
+  loading: boolean;
+  onBack: () => void;
+  onReachedEnd?: () => void;
+};
+
+export function DocumentReaderScreen({ title, bookId, format, initialCfi = null, onInitialCfiApplied, loading, onBack, onReachedEnd }: Props) {
+  const loadDocument = React.useCallback(async (currentBookId: string) => {
+    if (!window.api?.books) {
+      throw new Error('Renderer API is unavailable. Open this app via Electron.');
+    }
+
+    const documentResult = await window.api.books.getDocumentData({ bookId: currentBookId });
+    if (!documentResult.ok) {
+      throw new Error(documentResult.error);
+    }
+
+    return buildBookDocument(documentResult.document, documentResult.title || title);
+  }, [title]);
+
+  const label = FORMAT_BADGE_LABELS[format];
+
+  return (
+    <FlowDocumentReader
+      title={title}
+      bookId={bookId}
+      format={format}
+      namespace="html"
+      initialCfi={initialCfi}
+      onInitialCfiApplied={onInitialCfiApplied}
+      loading={loading}
+      onBack={onBack}
+      onReachedEnd={onReachedEnd}
+      loadDocument={loadDocument}
+      searchPlaceholder={`Search in this ${label}...`}
+      loadingLabel={`Loading ${label}...`}
+      preparingLabel={`Preparing ${label} document...`}
+      openErrorLabel={`Unable to open ${label}`}
+      navLabelSingular="Section"
+      navLabelPlural="sections"
+    />
+  );
+}
@@ -13,6 +13,7 @@ import {
   Trash2,
   SlidersHorizontal
 } from 'lucide-react';
+import { HighlightColorPicker } from '@/components/reader/HighlightColorPicker';
 import { HighlightsPanel, type ReaderHighlightItem } from '@/components/reader/HighlightsPanel';
 import { SearchPanel, type ReaderSearchResultItem } from '@/components/reader/SearchPanel';
 import { ReaderShell } from '@/components/reader/ReaderShell';
@@ -20,8 +21,10 @@ import { ReaderSidePanel } from '@/components/reader/ReaderSidePanel';
 import { Button } from '@/components/ui/button';
 import { ReaderSettingsPanel } from '@/components/ReaderSettingsPanel';
 import { ExportDialog } from '@/components/ExportDialog';
-import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { useBookReaderSettings, useReaderSettings } from '@/contexts/ReaderSettingsContext';
 import { READER_PANEL_WIDTH } from '@/lib/constants';
+import { base64ToUint8Array, getEpubResourceBaseUrl } from '@/lib/book-source';
+import { getPreferredHighlightColor, HIGHLIGHT_COLOR_SWATCHES, setPreferredHighlightColor } from '@/lib/highlight-colors';
 import { markCachedBookMetricDirty } from '@/lib/library-metrics-cache';
 import {
   getEffectiveEpubFontFamily,
@@ -32,10 +35,11 @@ import {
   getReaderThemePalette
 } from '@/lib/reader-theme';
 import { useEpubSearch } from '@/lib/useEpubSearch';
-import { useFlowExport } from '@/lib/useFlowExport';
+import { useHighlightCategories } from '@/lib/useHighlightCategories';
+import { useBookExport } from '@/lib/useBookExport';
 import { useReadingSessionStats } from '@/lib/reading-stats';
 import ePub from 'epubjs';
-import type { EpubBookmark, Highlight } from '../../shared/ipc';
+import type { EpubBookmark, Highlight, HighlightColor } from '../../shared/ipc';
 
 type TocItem = {
   id?: string;
@@ -51,6 +55,7 @@ type Props = {
   onInitialCfiApplied?: () => void;
   loading: boolean;
   onBack: () => void;
+  onReachedEnd?: () => void;
 };
 
 type EpubHighlightMenuState = { highlightId: string; x: number; y: number } | null;
@@ -445,7 +450,15 @@ function TocTree({
   );
 }
 
-export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCfiApplied, loading, onBack }: Props) {
+export function EpubReaderScreen({
+  title,
+  bookId,
+  initialCfi = null,
+  onInitialCfiApplied,
+  loading,
+  onBack,
+  onReachedEnd
+}: Props) {
   const readerStageRef = React.useRef<HTMLDivElement | null>(null);
   const readerContainerRef = React.useRef<HTMLDivElement | null>(null);
   const searchInputRef = React.useRef<HTMLInputElement | null>(null);
@@ -458,6 +471,7 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
   const pendingDeletionTimeoutsRef = React.useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
   const latestCfiRef = React.useRef<string | null>(null);
   const toggleCurrentBookmarkRef = React.useRef<() => Promise<void>>(async () => {});
+  const onReachedEndRef = React.useRef(onReachedEnd);
   const epubHighlightsRef = React.useRef<Highlight[]>([]);
   const renderedHighlightCfisRef = React.useRef<Set<string>>(new Set());
   const [tocItems, setTocItems] = React.useState<TocItem[]>([]);
@@ -477,7 +491,8 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
   const [highlightMenu, setHighlightMenu] = React.useState<EpubHighlightMenuState>(null);
   const [highlightEditor, setHighlightEditor] = React.useState<EpubHighlightEditorState>(null);
   const [pendingHighlightDeletions, setPendingHighlightDeletions] = React.useState<PendingEpubHighlightDeletion[]>([]);
-  const { settings, loading: settingsLoading, error: settingsError, updateSettings } = useReaderSettings();
+  const { labels: highlightCategoryLabels } = useHighlightCategories();
+  const { settings, loading: settingsLoading, error: settingsError, updateSettings } = useBookReaderSettings(bookId);
   const {
     exportDialogOpen,
     exportFormat,
@@ -485,12 +500,15 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
     exportError,
     exportMessage,
     exportPreview,
+    exportTemplate,
+    exportTemplateError,
     setExportFormat,
+    setExportTemplate,
     openExportDialog,
     copyExportContent,
     saveExportContent,
     closeExportDialog
-  } = useFlowExport({ bookId, title });
+  } = useBookExport({ bookIds: [bookId] });
   const palette = React.useMemo(() => getReaderThemePalette(settings), [settings]);
   const epubFramePadding = React.useMemo(() => getEpubMarginCssValue(settings.epubMargins), [settings.epubMargins]);
   const currentBookmarkLabel = React.useMemo(
@@ -522,6 +540,7 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
         note: highlight.note,
         page: highlight.page,
         cfiRange: highlight.cfiRange,
+        color: highlight.color,
         createdAt: highlight.createdAt
       })),
     [epubHighlights]
@@ -542,6 +561,7 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
   const { registerActivity, bindActivityTarget, flush: flushReadingStats } = useReadingSessionStats({
     bookId,
     format: 'epub',
+    location: currentHref,
     rootRef: readerContainerRef
   });
 
@@ -629,7 +649,7 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
 
   const openHighlightMenu = React.useCallback(
     (highlight: Highlight, x: number, y: number) => {
-      const menuHeight = highlight.note ? 210 : 140;
+      const menuHeight = highlight.note ? 246 : 176;
       const position = clampPopoverPosition(x, y, 280, menuHeight);
       setHighlightEditor(null);
       setHighlightMenu({
@@ -680,7 +700,11 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
                 targetRect.bottom - stageRect.top + 8
               );
             },
-            highlight.note ? 'epub-highlight-with-note' : 'epub-highlight'
+            highlight.note ? 'epub-highlight-with-note' : 'epub-highlight',
+            {
+              fill: HIGHLIGHT_COLOR_SWATCHES[highlight.color].fill,
+              stroke: highlight.note ? HIGHLIGHT_COLOR_SWATCHES[highlight.color].border : 'none'
+            }
           );
         } catch (error) {
           console.error('Failed to render EPUB highlight annotation', {
@@ -805,6 +829,10 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
     toggleCurrentBookmarkRef.current = toggleCurrentBookmark;
   }, [toggleCurrentBookmark]);
 
+  React.useEffect(() => {
+    onReachedEndRef.current = onReachedEnd;
+  }, [onReachedEnd]);
+
   React.useEffect(() => {
     const normalizedQuery = searchQuery.trim().toLowerCase();
     if (!normalizedQuery) {
@@ -926,6 +954,29 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
     }
   }, [epubHighlights, highlightEditor, queueRenderHighlights]);
 
+  const updateHighlightColor = React.useCallback(
+    async (highlight: Highlight, color: HighlightColor) => {
+      if (!window.api) {
+        return;
+      }
+      setPreferredHighlightColor(color);
+      try {
+        const result = await window.api.highlights.updateColor({ highlightId: highlight.id, color });
+        if (!result.ok) {
+          return;
+        }
+        setEpubHighlights((prev) => {
+          const next = prev.map((item) => (item.id === result.highlight.id ? result.highlight : item));
+          queueRenderHighlights(next);
+          return next;
+        });
+      } catch (error) {
+        console.error('Failed to update EPUB highlight color', error);
+      }
+    },
+    [queueRenderHighlights]
+  );
+
   const finalizeHighlightDelete = React.useCallback(
     async (highlight: Highlight) => {
       if (!window.api) {
@@ -1024,7 +1075,8 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
         const result = await window.api.epubHighlights.create({
           bookId,
           cfiRange: safeCfiRange,
-          text: selectedText
+          text: selectedText,
+          color: getPreferredHighlightColor()
         });
         if (!result.ok) {
           return;
@@ -1182,27 +1234,6 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
         if (!window.api) {
           throw new Error('Renderer API is unavailable. Open this app via Electron.');
         }
-        log('ipc:getEpubData:start');
-        const epubDataResult = await window.api.books.getEpubData({ bookId });
-        if (canceled) {
-          log('init:aborted:after-getEpubData', { elapsed: elapsed() });
-          return;
-        }
-        if (!epubDataResult.ok) {
-          throw new Error(epubDataResult.error);
-        }
-        log('ipc:getEpubData:ok', {
-          title: epubDataResult.title,
-          base64Length: epubDataResult.base64.length,
-          elapsed: elapsed()
-        });
-        const epubBytes = Uint8Array.from(atob(epubDataResult.base64), (char) => char.charCodeAt(0));
-        const epubArrayBuffer = epubBytes.buffer.slice(
-          epubBytes.byteOffset,
-          epubBytes.byteOffset + epubBytes.byteLength
-        );
-        log('epub:bytes:decoded', { byteLength: epubBytes.byteLength, elapsed: elapsed() });
-
         let startCfi: string | null = initialCfi?.trim() || null;
         log('ipc:epubProgress:get:start');
         const progressResult = await withTimeout(
@@ -1219,27 +1250,55 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
         }
         log('ipc:epubProgress:get:done', { hasStartCfi: Boolean(startCfi), elapsed: elapsed() });
 
+        const api = window.api;
+        let epubDataPromise: Promise<{ base64: string; arrayBuffer: ArrayBuffer }> | null = null;
+        const loadEpubData = () => {
+          epubDataPromise ??= (async () => {
+            log('ipc:getEpubData:start');
+            const epubDataResult = await api.books.getEpubData({ bookId });
+            if (!epubDataResult.ok) {
+              throw new Error(epubDataResult.error);
+            }
+            log('ipc:getEpubData:ok', {
+              title: epubDataResult.title,
+              base64Length: epubDataResult.base64.length,
+              elapsed: elapsed()
+            });
+            const epubBytes = base64ToUint8Array(epubDataResult.base64);
+            log('epub:bytes:decoded', { byteLength: epubBytes.byteLength, elapsed: elapsed() });
+            return { base64: epubDataResult.base64, arrayBuffer: epubBytes.slice().buffer };
+          })();
+          return epubDataPromise;
+        };
+
         const openCandidates: Array<{
           label: string;
-          createBook: () => any;
+          createBook: () => Promise<any>;
         }> = [
+          {
+            label: 'book-protocol',
+            createBook: async () => ePub(getEpubResourceBaseUrl(bookId))
+          },
           {
             label: 'array-buffer-binary',
-            createBook: () => ePub(epubArrayBuffer, { openAs: 'binary' })
+            createBook: async () => ePub((await loadEpubData()).arrayBuffer, { openAs: 'binary' })
           },
           {
             label: 'array-buffer-epub',
-            createBook: () => ePub(epubArrayBuffer, { openAs: 'epub', replacements: 'blobUrl' })
+            createBook: async () => ePub((await loadEpubData()).arrayBuffer, { openAs: 'epub', replacements: 'blobUrl' })
           },
           {
             label: 'array-buffer-default',
-            createBook: () => ePub(epubArrayBuffer, { replacements: 'blobUrl' })
+            createBook: async () => ePub((await loadEpubData()).arrayBuffer, { replacements: 'blobUrl' })
           },
           {
             label: 'base64-openAs',
-            createBook: () => ePub(epubDataResult.base64, { openAs: 'base64', replacements: 'blobUrl' })
+            createBook: async () => ePub((await loadEpubData()).base64, { openAs: 'base64', replacements: 'blobUrl' })
           },
-          { label: 'base64', createBook: () => ePub(epubDataResult.base64, { encoding: 'base64' }) }
+          {
+            label: 'base64',
+            createBook: async () => ePub((await loadEpubData()).base64, { encoding: 'base64' })
+          }
         ];
 
         let lastOpenError: unknown = null;
@@ -1250,7 +1309,11 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
           const candidateStart = performance.now();
           try {
             log('candidate:start', { candidate: candidate.label, elapsed: elapsed() });
-            const book = candidate.createBook();
+            const book = await candidate.createBook();
+            if (canceled) {
+              book.destroy?.();
+              return;
+            }
             const rendition = book.renderTo(container, {
               width: '100%',
               height: '100%'
@@ -1262,7 +1325,7 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
               elapsed: elapsed()
             });
 
-            const onRelocated = (location: { start?: { cfi?: string } } | null | undefined) => {
+            const onRelocated = (location: { start?: { cfi?: string }; atEnd?: boolean } | null | undefined) => {
               const cfi = location?.start?.cfi?.trim();
               if (!cfi) {
                 return;
@@ -1275,6 +1338,9 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
               });
               latestCfiRef.current = cfi;
               setCurrentCfi(cfi);
+              if (location?.atEnd) {
+                onReachedEndRef.current?.();
+              }
               setCurrentHref(location?.start && 'href' in location.start ? String((location.start as { href?: string }).href ?? '') : null);
               if (saveTimerRef.current) {
                 clearTimeout(saveTimerRef.current);
@@ -1852,6 +1918,7 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
             }}
             onEditNote={openHighlightEditorFromPanel}
             settings={settings}
+            categoryLabels={highlightCategoryLabels}
             rightOffset={settingsPanelOpen ? READER_PANEL_WIDTH.stackedOffset : READER_PANEL_WIDTH.offset}
           />
           <ReaderSettingsPanel
@@ -1927,6 +1994,14 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
                     <p className="mt-1 whitespace-pre-wrap text-xs" style={{ color: palette.chromeText }}>
                       {activeHighlight.text ?? '(highlight without text)'}
                     </p>
+                    <HighlightColorPicker
+                      value={activeHighlight.color}
+                      labels={highlightCategoryLabels}
+                      settings={settings}
+                      onChange={(color) => {
+                        void updateHighlightColor(activeHighlight, color);
+                      }}
+                    />
                     {activeHighlight.note ? (
                       <>
                         <p className="mt-3 text-[11px] font-semibold uppercase tracking-wide" style={{ color: palette.mutedText }}>
@@ -2090,9 +2165,12 @@ export function EpubReaderScreen({ title, bookId, initialCfi = null, onInitialCf
         loading={exportLoading}
         format={exportFormat}
         preview={exportPreview}
+        template={exportTemplate}
+        templateError={exportTemplateError}
         error={exportError}
         message={exportMessage}
         onFormatChange={setExportFormat}
+        onTemplateChange={setExportTemplate}
         onCopy={() => {
           void copyExportContent();
         }}
@@ -9,9 +9,10 @@ type Props = {
   onInitialCfiApplied?: () => void;
   loading: boolean;
   onBack: () => void;
+  onReachedEnd?: () => void;
 };
 
-export function Fb2ReaderScreen({ title, bookId, initialCfi = null, onInitialCfiApplied, loading, onBack }: Props) {
+export function Fb2ReaderScreen({ title, bookId, initialCfi = null, onInitialCfiApplied, loading, onBack, onReachedEnd }: Props) {
   const loadDocument = React.useCallback(async (currentBookId: string) => {
     if (!window.api?.books) {
       throw new Error('Renderer API is unavailable. Open this app via Electron.');
@@ -35,6 +36,7 @@ export function Fb2ReaderScreen({ title, bookId, initialCfi = null, onInitialCfi
       onInitialCfiApplied={onInitialCfiApplied}
       loading={loading}
       onBack={onBack}
+      onReachedEnd={onReachedEnd}
       loadDocument={loadDocument}
       searchPlaceholder="Search in this FB2..."
       loadingLabel="Loading FB2..."
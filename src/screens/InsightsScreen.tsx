@@ -1,8 +1,11 @@
 import * as React from 'react';
-import type { AiSummaryEntry, Book } from '../../shared/ipc';
-import { BookOpen, Brain, Clock3, Copy, Highlighter, MessageSquare, Search, Sparkles, Trash2, WifiOff, X } from 'lucide-react';
+import { HIGHLIGHT_COLORS, type AiSummaryEntry, type Book, type HighlightColor } from '../../shared/ipc';
+import { BookOpen, Brain, Clock3, Copy, Download, Highlighter, MessageSquare, Search, Sparkles, Trash2, WifiOff, X } from 'lucide-react';
 import { AiSummaryDialog } from '@/components/AiSummaryDialog';
+import { AnnotationImportDialog } from '@/components/AnnotationImportDialog';
+import { LibraryExportDialog } from '@/components/LibraryExportDialog';
 import { NoteEditorDialog } from '@/components/NoteEditorDialog';
+import { ReadingActivityDashboard } from '@/components/ReadingActivityDashboard';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -16,14 +19,20 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScreenEmptyState, ScreenErrorState } from '@/components/ScreenState';
+import { SearchSnippet } from '@/components/SearchSnippet';
 import { SkeletonGrid } from '@/components/Skeletons';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useNetworkStatus } from '@/contexts/NetworkStatusContext';
 import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
-import { aiSummaryToMarkdown, aiSummaryToText } from '@/lib/ai-summary';
+import { aiSummaryToMarkdown, aiSummaryToTemplate, aiSummaryToText } from '@/lib/ai-summary';
 import { LIST_BATCH_SIZE } from '@/lib/constants';
+import { getHighlightColorLabel, getHighlightColorName, HIGHLIGHT_COLOR_SWATCHES } from '@/lib/highlight-colors';
 import { getReaderHeroCardStyles, getReaderThemePalette } from '@/lib/reader-theme';
+import { useAnnotationSearch } from '@/lib/useAnnotationSearch';
+import { useExportTemplates } from '@/lib/useExportTemplates';
+import { useHighlightCategories } from '@/lib/useHighlightCategories';
 import { useIncrementalList } from '@/lib/useIncrementalList';
 import { summarizeBookNotes, type AiSummaryResult } from '@/services/summaryApi';
 import { cn } from '@/lib/utils';
@@ -37,6 +46,7 @@ type InsightAnnotationItem = {
   note: string | null;
   page?: number | null;
   cfiRange?: string | null;
+  color: HighlightColor | null;
   createdAt: number;
 };
 
@@ -56,6 +66,7 @@ type Props = {
 type SortOption = 'newest' | 'oldest' | 'book-title';
 type TypeFilter = 'all' | 'highlight' | 'note' | 'ai_summary';
 type RecentFilter = 'all' | '7d' | '30d';
+type ColorFilter = 'all' | HighlightColor;
 
 function getRecentThreshold(filter: RecentFilter): number | null {
   const now = Date.now();
@@ -180,6 +191,8 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
   const [selectedBookId, setSelectedBookId] = React.useState('all');
   const [selectedType, setSelectedType] = React.useState<TypeFilter>('all');
   const [selectedRecent, setSelectedRecent] = React.useState<RecentFilter>('all');
+  const [selectedColor, setSelectedColor] = React.useState<ColorFilter>('all');
+  const { labels: highlightCategoryLabels, setCategory: setHighlightCategory } = useHighlightCategories();
   const [sortBy, setSortBy] = React.useState<SortOption>('newest');
   const [deleteTarget, setDeleteTarget] = React.useState<InsightItem | null>(null);
   const [deleteLoading, setDeleteLoading] = React.useState(false);
@@ -195,7 +208,11 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
   const [summaryActionMessage, setSummaryActionMessage] = React.useState<string | null>(null);
   const [summarySource, setSummarySource] = React.useState<'openrouter' | 'fallback' | null>(null);
   const [summaryResult, setSummaryResult] = React.useState<AiSummaryResult | null>(null);
+  const [importOpen, setImportOpen] = React.useState(false);
+  const [exportOpen, setExportOpen] = React.useState(false);
   const [detailTarget, setDetailTarget] = React.useState<InsightSummaryItem | null>(null);
+  const [detailTemplateId, setDetailTemplateId] = React.useState('');
+  const { templates: exportTemplates } = useExportTemplates(Boolean(detailTarget));
   const [detailLoading, setDetailLoading] = React.useState(false);
   const [detailError, setDetailError] = React.useState<string | null>(null);
   const [detailActionError, setDetailActionError] = React.useState<string | null>(null);
@@ -262,6 +279,7 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
             note: normalizeText(note.content),
             page: note.page,
             cfiRange: null,
+            color: null,
             createdAt: note.createdAt
           });
         }
@@ -281,6 +299,7 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
             note: normalizeText(highlight.note),
             page: highlight.page,
             cfiRange: highlight.cfiRange,
+            color: highlight.color,
             createdAt: highlight.createdAt
           });
         }
@@ -307,14 +326,28 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
     }
   }, [books, t.hub.unknownBook]);
 
+  const closeImportDialog = React.useCallback(() => setImportOpen(false), []);
+  const closeExportDialog = React.useCallback(() => setExportOpen(false), []);
+
   React.useEffect(() => {
     void loadItems();
   }, [loadItems]);
 
   const recentThreshold = React.useMemo(() => getRecentThreshold(selectedRecent), [selectedRecent]);
+  const annotationSearch = useAnnotationSearch({
+    query: queryInput,
+    kinds: selectedType === 'all' ? null : [selectedType],
+    bookId: selectedBookId === 'all' ? null : selectedBookId,
+    pageSize: LIST_BATCH_SIZE.insights
+  });
+  const searchActive = annotationSearch.query.length > 0;
+  const searchSnippets = React.useMemo(
+    () => new Map(annotationSearch.hits.map((hit) => [`${hit.kind}:${hit.id}`, hit.snippet])),
+    [annotationSearch.hits]
+  );
 
   const filteredItems = React.useMemo(() => {
-    const filtered = items.filter((item) => {
+    const matchesFilters = (item: InsightItem) => {
       if (selectedBookId !== 'all') {
         if (item.type === 'ai_summary') {
           if (item.bookId !== selectedBookId) {
@@ -328,22 +361,24 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
       if (selectedType !== 'all' && item.type !== selectedType) {
         return false;
       }
-      if (recentThreshold !== null && item.createdAt < recentThreshold) {
+      if (selectedColor !== 'all' && (item.type === 'ai_summary' || item.color !== selectedColor)) {
         return false;
       }
-      if (!deferredQuery) {
-        return true;
+      if (recentThreshold !== null && item.createdAt < recentThreshold) {
+        return false;
       }
+      return true;
+    };
 
-      const haystack =
-        item.type === 'ai_summary'
-          ? [item.bookTitle, item.author ?? '', item.summary, item.keyIdeas.join(' '), item.studyNotes.join(' ')].join(' ').toLowerCase()
-          : [item.bookTitle, item.text ?? '', item.note ?? ''].join(' ').toLowerCase();
-
-      return haystack.includes(deferredQuery);
-    });
+    // Search hits arrive ranked from the main process; keep their order instead of re-sorting.
+    if (searchActive) {
+      const itemsByKey = new Map(items.map((item) => [`${item.type}:${item.id}`, item]));
+      return annotationSearch.hits
+        .map((hit) => itemsByKey.get(`${hit.kind}:${hit.id}`))
+        .filter((item): item is InsightItem => item !== undefined && matchesFilters(item));
+    }
 
-    return [...filtered].sort((a, b) => {
+    return [...items.filter(matchesFilters)].sort((a, b) => {
       if (sortBy === 'oldest') {
         return a.createdAt - b.createdAt;
       }
@@ -356,11 +391,21 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
       }
       return b.createdAt - a.createdAt;
     });
-  }, [deferredQuery, items, language, recentThreshold, selectedBookId, selectedType, sortBy]);
+  }, [annotationSearch.hits, items, language, recentThreshold, searchActive, selectedBookId, selectedColor, selectedType, sortBy]);
   const { visibleItems: visibleFilteredItems, hasMore, showMore } = useIncrementalList(
     filteredItems,
     LIST_BATCH_SIZE.insights
   );
+  const listedItems = searchActive ? filteredItems : visibleFilteredItems;
+  const filtersActive =
+    searchActive || selectedBookId !== 'all' || selectedType !== 'all' || selectedRecent !== 'all' || selectedColor !== 'all';
+  const exportBookIds = React.useMemo(
+    () => (filtersActive ? [...new Set(filteredItems.flatMap((item) => (item.bookId ? [item.bookId] : [])))] : null),
+    [filteredItems, filtersActive]
+  );
+  const listHasMore = searchActive ? annotationSearch.hasMore : hasMore;
+  const showMoreItems = searchActive ? () => void annotationSearch.loadMore() : showMore;
+  const listLoading = loading || (searchActive && annotationSearch.loading && annotationSearch.hits.length === 0);
 
   const selectedBook = React.useMemo(
     () => books.find((book) => book.id === selectedBookId) ?? null,
@@ -495,6 +540,7 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
                   text: normalizeText(result.highlight.text),
                   page: result.highlight.page,
                   cfiRange: result.highlight.cfiRange,
+                  color: result.highlight.color,
                   createdAt: result.highlight.createdAt
                 }
               : item
@@ -733,10 +779,13 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
     setDetailActionError(null);
     setDetailActionMessage(null);
     try {
+      const template = exportTemplates.find((item) => item.id === detailTemplateId);
       const result = await window.api.export.saveFile({
         suggestedName: `${detailTarget.bookTitle} ai-summary.md`,
         ext: 'md',
-        content: aiSummaryToMarkdown(detailTarget.bookTitle, toSummaryResult(detailTarget), detailTarget.language)
+        content: template
+          ? aiSummaryToTemplate(template.body, detailTarget)
+          : aiSummaryToMarkdown(detailTarget.bookTitle, toSummaryResult(detailTarget), detailTarget.language)
       });
 
       if (!result.ok) {
@@ -751,7 +800,7 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
     } catch (err) {
       setDetailActionError(err instanceof Error ? err.message : String(err));
     }
-  }, [aiSummaryLabels.exportFailed, detailTarget, language]);
+  }, [aiSummaryLabels.exportFailed, detailTarget, detailTemplateId, exportTemplates, language]);
 
   const handleDeleteDetail = React.useCallback(() => {
     if (!detailTarget) {
@@ -767,7 +816,7 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
     setSummaryActionError(null);
     setSummaryActionMessage(null);
     setSummaryOpen(false);
-  }, [selectedBookId, selectedType, selectedRecent, deferredQuery, sortBy]);
+  }, [selectedBookId, selectedType, selectedRecent, selectedColor, deferredQuery, sortBy]);
 
   const summaryHint =
     selectedBookId === 'all'
@@ -837,201 +886,287 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
             </div>
           </section>
 
-          <section className="app-surface rounded-[24px] border p-4 backdrop-blur" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelBg }}>
-            <div className="flex flex-col gap-3">
-              <div className="grid gap-3 xl:grid-cols-[minmax(0,1.4fr)_repeat(4,minmax(0,0.7fr))]">
-                <div className="relative">
-                  <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2" style={{ color: palette.mutedText }} />
-                  <Input value={queryInput} onChange={(event) => setQueryInput(event.target.value)} placeholder={language === 'ru' ? 'Поиск по заметкам, выделениям и AI-конспектам...' : 'Search across highlights, notes, and AI summaries...'} className="pl-9" />
-                </div>
-                <select value={selectedBookId} onChange={(event) => setSelectedBookId(event.target.value)} className="h-11 rounded-xl border px-3.5 text-sm outline-none transition focus-visible:ring-2 focus-visible:ring-ring" style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}>
-                  <option value="all">{t.hub.allBooks}</option>
-                  {books.map((book) => (
-                    <option key={book.id} value={book.id}>
-                      {book.title}
-                    </option>
-                  ))}
-                </select>
-                <select value={selectedType} onChange={(event) => setSelectedType(event.target.value as TypeFilter)} className="h-11 rounded-xl border px-3.5 text-sm outline-none transition focus-visible:ring-2 focus-visible:ring-ring" style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}>
-                  <option value="all">{t.hub.allTypes}</option>
-                  <option value="highlight">{t.hub.highlights}</option>
-                  <option value="ai_summary">{aiSummaryLabels.title}</option>
-                </select>
-                <select value={selectedRecent} onChange={(event) => setSelectedRecent(event.target.value as RecentFilter)} className="h-11 rounded-xl border px-3.5 text-sm outline-none transition focus-visible:ring-2 focus-visible:ring-ring" style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}>
-                  <option value="all">{t.hub.allTime}</option>
-                  <option value="7d">{t.hub.recent7}</option>
-                  <option value="30d">{t.hub.recent30}</option>
-                </select>
-                <select value={sortBy} onChange={(event) => setSortBy(event.target.value as SortOption)} className="h-11 rounded-xl border px-3.5 text-sm outline-none transition focus-visible:ring-2 focus-visible:ring-ring" style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}>
-                  <option value="newest">{t.hub.newest}</option>
-                  <option value="oldest">{t.hub.oldest}</option>
-                  <option value="book-title">{t.hub.bookTitleSort}</option>
-                </select>
-                <Button type="button" variant="outline" onClick={() => void loadItems()} disabled={loading}>
-                  {t.hub.refresh}
-                </Button>
-              </div>
-
-              <div className="flex flex-col gap-3 rounded-[1.4rem] border p-4 lg:flex-row lg:items-center lg:justify-between" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
-                <div className="space-y-1">
-                  <div className="flex flex-wrap items-center gap-2">
-                    <p className="text-sm font-semibold" style={{ color: palette.chromeText }}>
-                      {language === 'ru' ? 'AI-конспект по текущему выбору' : 'AI summary for the current selection'}
-                    </p>
-                    {!isOnline ? (
-                      <span className="inline-flex items-center gap-1 rounded-full border border-amber-200 bg-amber-50 px-2.5 py-1 text-[11px] font-semibold text-amber-800">
-                        <WifiOff className="h-3.5 w-3.5" />
-                        {language === 'ru' ? 'Офлайн' : 'Offline'}
-                      </span>
-                    ) : null}
+          <Tabs defaultValue="annotations" className="flex flex-col">
+            <TabsList className="w-fit">
+              <TabsTrigger value="annotations">{t.readingStats.annotationsTab}</TabsTrigger>
+              <TabsTrigger value="reading">{t.readingStats.readingTab}</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="annotations" className="flex flex-col gap-5">
+              <section className="app-surface rounded-[24px] border p-4 backdrop-blur" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelBg }}>
+                <div className="flex flex-col gap-3">
+                  <div className="grid gap-3 xl:grid-cols-[minmax(0,1.4fr)_repeat(5,minmax(0,0.7fr))]">
+                    <div className="relative">
+                      <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2" style={{ color: palette.mutedText }} />
+                      <Input value={queryInput} onChange={(event) => setQueryInput(event.target.value)} placeholder={language === 'ru' ? 'Поиск по заметкам, выделениям и AI-конспектам...' : 'Search across highlights, notes, and AI summaries...'} className="pl-9" />
+                    </div>
+                    <select value={selectedBookId} onChange={(event) => setSelectedBookId(event.target.value)} className="h-11 rounded-xl border px-3.5 text-sm outline-none transition focus-visible:ring-2 focus-visible:ring-ring" style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}>
+                      <option value="all">{t.hub.allBooks}</option>
+                      {books.map((book) => (
+                        <option key={book.id} value={book.id}>
+                          {book.title}
+                        </option>
+                      ))}
+                    </select>
+                    <select value={selectedType} onChange={(event) => setSelectedType(event.target.value as TypeFilter)} className="h-11 rounded-xl border px-3.5 text-sm outline-none transition focus-visible:ring-2 focus-visible:ring-ring" style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}>
+                      <option value="all">{t.hub.allTypes}</option>
+                      <option value="highlight">{t.hub.highlights}</option>
+                      <option value="ai_summary">{aiSummaryLabels.title}</option>
+                    </select>
+                    <select value={selectedColor} onChange={(event) => setSelectedColor(event.target.value as ColorFilter)} className="h-11 rounded-xl border px-3.5 text-sm outline-none transition focus-visible:ring-2 focus-visible:ring-ring" style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}>
+                      <option value="all">{t.highlightColors.allColors}</option>
+                      {HIGHLIGHT_COLORS.map((color) => (
+                        <option key={color} value={color}>
+                          {getHighlightColorLabel(color, highlightCategoryLabels, t)}
+                        </option>
+                      ))}
+                    </select>
+                    <select value={selectedRecent} onChange={(event) => setSelectedRecent(event.target.value as RecentFilter)} className="h-11 rounded-xl border px-3.5 text-sm outline-none transition focus-visible:ring-2 focus-visible:ring-ring" style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}>
+                      <option value="all">{t.hub.allTime}</option>
+                      <option value="7d">{t.hub.recent7}</option>
+                      <option value="30d">{t.hub.recent30}</option>
+                    </select>
+                    <select value={sortBy} onChange={(event) => setSortBy(event.target.value as SortOption)} className="h-11 rounded-xl border px-3.5 text-sm outline-none transition focus-visible:ring-2 focus-visible:ring-ring" style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}>
+                      <option value="newest">{t.hub.newest}</option>
+                      <option value="oldest">{t.hub.oldest}</option>
+                      <option value="book-title">{t.hub.bookTitleSort}</option>
+                    </select>
+                    <Button type="button" variant="outline" onClick={() => void loadItems()} disabled={loading}>
+                      {t.hub.refresh}
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => setImportOpen(true)}>
+                      {t.annotationImport.button}
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => setExportOpen(true)}>
+                      {t.libraryExport.button}
+                    </Button>
                   </div>
-                  <p className="text-sm" style={{ color: palette.mutedText }}>{summaryHint}</p>
-                  {!isOnline ? <p className="text-sm text-destructive">{offlineSummaryMessage}</p> : null}
-                </div>
-                <div className="flex flex-wrap gap-2">
-                  <Button type="button" onClick={() => void handleGenerateSummary()} disabled={!canGenerateSummary || summaryLoading || !isOnline}>
-                    {language === 'ru' ? 'Сделать AI-конспект' : 'Generate AI Summary'}
-                  </Button>
-                </div>
-              </div>
 
-              <div className="flex flex-wrap items-center gap-2 text-xs" style={{ color: palette.mutedText }}>
-                <div className="inline-flex items-center gap-1 rounded-full border px-3 py-1" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
-                  <Sparkles className="h-3.5 w-3.5" />
-                  {filteredItems.length} {t.hub.surfaced}
-                </div>
-                <div className="inline-flex items-center gap-1 rounded-full border px-3 py-1" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
-                  <Clock3 className="h-3.5 w-3.5" />
-                  {t.hub.sortedBy} {sortBy === 'book-title' ? t.hub.bookTitleSort : sortBy === 'newest' ? t.hub.newest : t.hub.oldest}
-                </div>
-              </div>
-            </div>
-          </section>
-
-          {error ? <ScreenErrorState title={language === 'ru' ? 'Ошибка' : 'Error'} description={error} onRetry={() => void loadItems()} /> : null}
-
-          <section className="grid gap-4">
-            {loading ? (
-              <SkeletonGrid count={4} />
-            ) : null}
-
-            {!loading && filteredItems.length === 0 ? (
-              <ScreenEmptyState
-                title={t.hub.quietTitle}
-                description={t.hub.quietDescription}
-                icon={<Brain className="h-6 w-6 text-muted-foreground" />}
-              />
-            ) : null}
+                  <div className="space-y-3 rounded-[1.4rem] border p-4" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
+                    <div className="space-y-1">
+                      <p className="text-sm font-semibold" style={{ color: palette.chromeText }}>{t.highlightColors.categoriesTitle}</p>
+                      <p className="text-sm" style={{ color: palette.mutedText }}>{t.highlightColors.categoriesDescription}</p>
+                    </div>
+                    <div className="grid gap-2 sm:grid-cols-2 xl:grid-cols-5">
+                      {HIGHLIGHT_COLORS.map((color) => (
+                        <label key={`${color}:${highlightCategoryLabels[color] ?? ''}`} className="relative block">
+                          <span
+                            className="pointer-events-none absolute left-3 top-1/2 h-3 w-3 -translate-y-1/2 rounded-full"
+                            style={{ backgroundColor: HIGHLIGHT_COLOR_SWATCHES[color].dot }}
+                          />
+                          <Input
+                            defaultValue={highlightCategoryLabels[color] ?? ''}
+                            placeholder={`${getHighlightColorName(color, t)} · ${t.highlightColors.categoryPlaceholder}`}
+                            aria-label={getHighlightColorName(color, t)}
+                            maxLength={40}
+                            className="pl-8"
+                            onBlur={(event) => {
+                              const nextLabel = event.target.value.trim() || null;
+                              if (nextLabel !== highlightCategoryLabels[color]) {
+                                void setHighlightCategory(color, nextLabel);
+                              }
+                            }}
+                            onKeyDown={(event) => {
+                              if (event.key === 'Enter') {
+                                event.currentTarget.blur();
+                              }
+                            }}
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  </div>
 
-            {visibleFilteredItems.map((item) => (
-              <Card
-                key={`${item.type}:${item.id}`}
-                className={cn('surface-hover overflow-hidden rounded-[24px]', item.type === 'ai_summary' ? 'cursor-pointer' : '')}
-                style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelBg, color: palette.chromeText, boxShadow: palette.shadow }}
-                onClick={item.type === 'ai_summary' ? () => void openAiSummaryDetail(item) : undefined}
-              >
-                <CardContent className="p-5">
-                  <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
-                    <div className="min-w-0 flex-1 space-y-3">
+                  <div className="flex flex-col gap-3 rounded-[1.4rem] border p-4 lg:flex-row lg:items-center lg:justify-between" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
+                    <div className="space-y-1">
                       <div className="flex flex-wrap items-center gap-2">
-                        <p className="text-base font-semibold" style={{ color: palette.chromeText }}>{item.bookTitle}</p>
-                        <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-[11px] font-semibold uppercase tracking-[0.18em]" style={getBadgeStyle(item.type, palette)}>
-                          {getBadgeLabel(language, item.type)}
-                        </span>
-                        {item.type === 'ai_summary' && item.author ? <span className="text-sm" style={{ color: palette.mutedText }}>{item.author}</span> : null}
-                        <span className="text-xs" style={{ color: palette.mutedText }}>{formatDate(item.createdAt)}</span>
+                        <p className="text-sm font-semibold" style={{ color: palette.chromeText }}>
+                          {language === 'ru' ? 'AI-конспект по текущему выбору' : 'AI summary for the current selection'}
+                        </p>
+                        {!isOnline ? (
+                          <span className="inline-flex items-center gap-1 rounded-full border border-amber-200 bg-amber-50 px-2.5 py-1 text-[11px] font-semibold text-amber-800">
+                            <WifiOff className="h-3.5 w-3.5" />
+                            {language === 'ru' ? 'Офлайн' : 'Offline'}
+                          </span>
+                        ) : null}
                       </div>
+                      <p className="text-sm" style={{ color: palette.mutedText }}>{summaryHint}</p>
+                      {!isOnline ? <p className="text-sm text-destructive">{offlineSummaryMessage}</p> : null}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button type="button" onClick={() => void handleGenerateSummary()} disabled={!canGenerateSummary || summaryLoading || !isOnline}>
+                        {language === 'ru' ? 'Сделать AI-конспект' : 'Generate AI Summary'}
+                      </Button>
+                    </div>
+                  </div>
 
-                      {item.type === 'ai_summary' ? (
-                        <div className="rounded-[1.2rem] border p-4" style={{ borderColor: palette.accentBorder, backgroundColor: palette.panelHoverBg }}>
-                          <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.18em]" style={{ color: palette.accentText }}>
-                            <Brain className="h-3.5 w-3.5" />
-                            {aiSummaryLabels.title}
+                  <div className="flex flex-wrap items-center gap-2 text-xs" style={{ color: palette.mutedText }}>
+                    <div className="inline-flex items-center gap-1 rounded-full border px-3 py-1" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
+                      <Sparkles className="h-3.5 w-3.5" />
+                      {filteredItems.length} {t.hub.surfaced}
+                    </div>
+                    <div className="inline-flex items-center gap-1 rounded-full border px-3 py-1" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
+                      <Clock3 className="h-3.5 w-3.5" />
+                      {t.hub.sortedBy} {sortBy === 'book-title' ? t.hub.bookTitleSort : sortBy === 'newest' ? t.hub.newest : t.hub.oldest}
+                    </div>
+                  </div>
+                </div>
+              </section>
+
+              {error ? <ScreenErrorState title={language === 'ru' ? 'Ошибка' : 'Error'} description={error} onRetry={() => void loadItems()} /> : null}
+              {annotationSearch.error ? (
+                <ScreenErrorState
+                  title={language === 'ru' ? 'Ошибка поиска' : 'Search error'}
+                  description={annotationSearch.error}
+                  onRetry={() => void annotationSearch.refresh()}
+                />
+              ) : null}
+
+              <section className="grid gap-4">
+                {listLoading ? (
+                  <SkeletonGrid count={4} />
+                ) : null}
+
+                {!listLoading && filteredItems.length === 0 ? (
+                  <ScreenEmptyState
+                    title={t.hub.quietTitle}
+                    description={t.hub.quietDescription}
+                    icon={<Brain className="h-6 w-6 text-muted-foreground" />}
+                  />
+                ) : null}
+
+                {listedItems.map((item) => (
+                  <Card
+                    key={`${item.type}:${item.id}`}
+                    className={cn('surface-hover overflow-hidden rounded-[24px]', item.type === 'ai_summary' ? 'cursor-pointer' : '')}
+                    style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelBg, color: palette.chromeText, boxShadow: palette.shadow }}
+                    onClick={item.type === 'ai_summary' ? () => void openAiSummaryDetail(item) : undefined}
+                  >
+                    <CardContent className="p-5">
+                      <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+                        <div className="min-w-0 flex-1 space-y-3">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <p className="text-base font-semibold" style={{ color: palette.chromeText }}>{item.bookTitle}</p>
+                            <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-[11px] font-semibold uppercase tracking-[0.18em]" style={getBadgeStyle(item.type, palette)}>
+                              {getBadgeLabel(language, item.type)}
+                            </span>
+                            {item.type === 'highlight' && item.color ? (
+                              <span className="inline-flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-[11px] font-medium" style={{ borderColor: palette.chromeBorder, color: palette.mutedText }}>
+                                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: HIGHLIGHT_COLOR_SWATCHES[item.color].dot }} />
+                                {getHighlightColorLabel(item.color, highlightCategoryLabels, t)}
+                              </span>
+                            ) : null}
+                            {item.type === 'ai_summary' && item.author ? <span className="text-sm" style={{ color: palette.mutedText }}>{item.author}</span> : null}
+                            <span className="text-xs" style={{ color: palette.mutedText }}>{formatDate(item.createdAt)}</span>
                           </div>
-                          <p
-                            className="overflow-hidden text-sm leading-6"
-                            style={{
-                              display: '-webkit-box',
-                              WebkitLineClamp: 3,
-                              WebkitBoxOrient: 'vertical',
-                              color: palette.chromeText
-                            }}
-                          >
-                            {item.summary}
-                          </p>
-                        </div>
-                      ) : (
-                        <>
-                          {item.text ? (
+
+                          {searchActive && searchSnippets.has(`${item.type}:${item.id}`) ? (
+                            <SearchSnippet parts={searchSnippets.get(`${item.type}:${item.id}`) ?? []} />
+                          ) : null}
+
+                          {item.type === 'ai_summary' ? (
                             <div className="rounded-[1.2rem] border p-4" style={{ borderColor: palette.accentBorder, backgroundColor: palette.panelHoverBg }}>
-                              <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.18em]" style={{ color: palette.chromeText }}>
-                                <Highlighter className="h-3.5 w-3.5" />
-                                {t.hub.highlightedText}
+                              <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.18em]" style={{ color: palette.accentText }}>
+                                <Brain className="h-3.5 w-3.5" />
+                                {aiSummaryLabels.title}
                               </div>
-                              <p className="whitespace-pre-wrap text-sm leading-6" style={{ color: palette.chromeText }}>{item.text}</p>
+                              <p
+                                className="overflow-hidden text-sm leading-6"
+                                style={{
+                                  display: '-webkit-box',
+                                  WebkitLineClamp: 3,
+                                  WebkitBoxOrient: 'vertical',
+                                  color: palette.chromeText
+                                }}
+                              >
+                                {item.summary}
+                              </p>
                             </div>
-                          ) : null}
+                          ) : (
+                            <>
+                              {item.text ? (
+                                <div
+                                  className="rounded-[1.2rem] border border-l-4 p-4"
+                                  style={{
+                                    borderColor: palette.accentBorder,
+                                    borderLeftColor: item.color ? HIGHLIGHT_COLOR_SWATCHES[item.color].dot : palette.accentBorder,
+                                    backgroundColor: palette.panelHoverBg
+                                  }}
+                                >
+                                  <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.18em]" style={{ color: palette.chromeText }}>
+                                    <Highlighter className="h-3.5 w-3.5" />
+                                    {t.hub.highlightedText}
+                                  </div>
+                                  <p className="whitespace-pre-wrap text-sm leading-6" style={{ color: palette.chromeText }}>{item.text}</p>
+                                </div>
+                              ) : null}
+
+                              <div className="rounded-[1.2rem] border p-4" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
+                                <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.18em]" style={{ color: palette.mutedText }}>
+                                  <MessageSquare className="h-3.5 w-3.5" />
+                                  {t.hub.noteText}
+                                </div>
+                                <p className="whitespace-pre-wrap text-sm leading-6" style={{ color: palette.chromeText }}>{item.note ?? t.hub.noNoteYet}</p>
+                              </div>
+                            </>
+                          )}
 
-                          <div className="rounded-[1.2rem] border p-4" style={{ borderColor: palette.chromeBorder, backgroundColor: palette.panelHoverBg }}>
-                            <div className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.18em]" style={{ color: palette.mutedText }}>
-                              <MessageSquare className="h-3.5 w-3.5" />
-                              {t.hub.noteText}
-                            </div>
-                            <p className="whitespace-pre-wrap text-sm leading-6" style={{ color: palette.chromeText }}>{item.note ?? t.hub.noNoteYet}</p>
+                          <div className="flex flex-wrap items-center gap-3 text-xs" style={{ color: palette.mutedText }}>
+                            {item.type !== 'ai_summary' && typeof item.page === 'number' ? <span>{t.hub.page} {item.page}</span> : null}
+                            {item.type !== 'ai_summary' && item.cfiRange ? <span className="truncate">{t.hub.locationReady}</span> : null}
+                            {item.type === 'ai_summary' ? <span>{item.language.toUpperCase()}</span> : null}
                           </div>
-                        </>
-                      )}
+                        </div>
 
-                      <div className="flex flex-wrap items-center gap-3 text-xs" style={{ color: palette.mutedText }}>
-                        {item.type !== 'ai_summary' && typeof item.page === 'number' ? <span>{t.hub.page} {item.page}</span> : null}
-                        {item.type !== 'ai_summary' && item.cfiRange ? <span className="truncate">{t.hub.locationReady}</span> : null}
-                        {item.type === 'ai_summary' ? <span>{item.language.toUpperCase()}</span> : null}
+                        <div
+                          className="flex shrink-0 flex-row gap-2 lg:w-[190px] lg:flex-col"
+                          onClick={item.type === 'ai_summary' ? (event) => event.stopPropagation() : undefined}
+                        >
+                          {item.type === 'ai_summary' ? (
+                            <>
+                              <Button type="button" onClick={() => void openAiSummaryDetail(item)} className="flex-1 lg:w-full">
+                                <Brain className="mr-2 h-4 w-4" />
+                                {aiSummaryLabels.open}
+                              </Button>
+                              <Button type="button" variant="outline" onClick={() => setDeleteTarget(item)} className="flex-1 border-rose-200 text-rose-700 hover:bg-rose-50 hover:text-rose-800 lg:w-full">
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                {t.hub.delete}
+                              </Button>
+                            </>
+                          ) : (
+                            <>
+                              <Button type="button" onClick={() => onOpenItem(item)} className="flex-1 lg:w-full">
+                                <BookOpen className="mr-2 h-4 w-4" />
+                                {t.hub.openInBook}
+                              </Button>
+                              <Button type="button" variant="outline" onClick={() => openEditDialog(item)} className="flex-1 lg:w-full">
+                                {t.hub.editNote}
+                              </Button>
+                              <Button type="button" variant="outline" onClick={() => setDeleteTarget(item)} className="flex-1 border-rose-200 text-rose-700 hover:bg-rose-50 hover:text-rose-800 lg:w-full">
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                {t.hub.delete}
+                              </Button>
+                            </>
+                          )}
+                        </div>
                       </div>
-                    </div>
-
-                    <div
-                      className="flex shrink-0 flex-row gap-2 lg:w-[190px] lg:flex-col"
-                      onClick={item.type === 'ai_summary' ? (event) => event.stopPropagation() : undefined}
-                    >
-                      {item.type === 'ai_summary' ? (
-                        <>
-                          <Button type="button" onClick={() => void openAiSummaryDetail(item)} className="flex-1 lg:w-full">
-                            <Brain className="mr-2 h-4 w-4" />
-                            {aiSummaryLabels.open}
-                          </Button>
-                          <Button type="button" variant="outline" onClick={() => setDeleteTarget(item)} className="flex-1 border-rose-200 text-rose-700 hover:bg-rose-50 hover:text-rose-800 lg:w-full">
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            {t.hub.delete}
-                          </Button>
-                        </>
-                      ) : (
-                        <>
-                          <Button type="button" onClick={() => onOpenItem(item)} className="flex-1 lg:w-full">
-                            <BookOpen className="mr-2 h-4 w-4" />
-                            {t.hub.openInBook}
-                          </Button>
-                          <Button type="button" variant="outline" onClick={() => openEditDialog(item)} className="flex-1 lg:w-full">
-                            {t.hub.editNote}
-                          </Button>
-                          <Button type="button" variant="outline" onClick={() => setDeleteTarget(item)} className="flex-1 border-rose-200 text-rose-700 hover:bg-rose-50 hover:text-rose-800 lg:w-full">
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            {t.hub.delete}
-                          </Button>
-                        </>
-                      )}
-                    </div>
+                    </CardContent>
+                  </Card>
+                ))}
+                {!listLoading && listHasMore ? (
+                  <div className="flex justify-center pt-2">
+                    <Button type="button" variant="outline" onClick={showMoreItems} disabled={annotationSearch.loading}>
+                      Show more
+                    </Button>
                   </div>
-                </CardContent>
-              </Card>
-            ))}
-            {!loading && hasMore ? (
-              <div className="flex justify-center pt-2">
-                <Button type="button" variant="outline" onClick={showMore}>
-                  Show more
-                </Button>
-              </div>
-            ) : null}
-          </section>
+                ) : null}
+              </section>
+            </TabsContent>
+
+            <TabsContent value="reading">
+              <ReadingActivityDashboard books={books} />
+            </TabsContent>
+          </Tabs>
         </div>
       </div>
 
@@ -1058,6 +1193,15 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
         </AlertDialogContent>
       </AlertDialog>
 
+      <AnnotationImportDialog
+        open={importOpen}
+        books={books}
+        onClose={closeImportDialog}
+        onImported={() => void loadItems()}
+      />
+
+      <LibraryExportDialog open={exportOpen} filteredBookIds={exportBookIds} onClose={closeExportDialog} />
+
       <NoteEditorDialog
         open={Boolean(editTarget)}
         title={editTarget?.type === 'highlight' ? t.hub.editHighlightNote : t.hub.editNoteTitle}
@@ -1171,6 +1315,26 @@ export function InsightsScreen({ books, onOpenItem }: Props) {
               <Copy className="mr-2 h-4 w-4" />
               {aiSummaryLabels.copy}
             </Button>
+            {exportTemplates.length > 0 ? (
+              <select
+                aria-label={t.libraryExport.template}
+                value={detailTemplateId}
+                onChange={(event) => setDetailTemplateId(event.target.value)}
+                className="h-10 rounded-lg border px-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                style={{ borderColor: palette.buttonBorder, backgroundColor: palette.inputBg, color: palette.inputText }}
+              >
+                <option value="">{t.libraryExport.templateDefault}</option>
+                {exportTemplates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+            <Button type="button" variant="outline" onClick={() => void handleExportDetail()} disabled={!detailTarget}>
+              <Download className="mr-2 h-4 w-4" />
+              {aiSummaryLabels.exportMarkdown}
+            </Button>
             <Button type="button" variant="outline" onClick={handleDeleteDetail} disabled={!detailTarget} className="border-rose-200 text-rose-700 hover:bg-rose-50 hover:text-rose-800">
               <Trash2 className="mr-2 h-4 w-4" />
               {t.hub.delete}
@@ -3,7 +3,9 @@ import { AppErrorBoundary } from '@/components/AppErrorBoundary';
 import * as React from 'react';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { ScreenLoadingState } from '@/components/ScreenState';
-import type { Book } from '../../shared/ipc';
+import { useLibraryBookActivity, useLibraryBookMetrics, useRecentBooks } from '@/lib/library-metrics';
+import { useBookRecommendations } from '@/lib/useRecommendations';
+import type { Book, BookCollection, ReadingStatus } from '../../shared/ipc';
 
 type Props = {
   books: Book[];
@@ -16,6 +18,12 @@ type Props = {
   onOpen: (book: Book) => void;
   onReveal: (bookId: string) => void;
   onDelete: (bookId: string) => void;
+  onStatusChange: (book: Book, status: ReadingStatus) => void;
+  collections: BookCollection[];
+  activeCollectionId: string | null;
+  onActiveCollectionChange: (collectionId: string | null) => void;
+  onLibraryOrganized: () => Promise<void>;
+  onGoalsChanged: () => void;
   onImport: () => void;
   onAddSample: () => void;
   onReload: () => void;
@@ -24,6 +32,52 @@ type Props = {
 const DiscoverScreen = React.lazy(async () =>
   import('@/screens/DiscoverScreen').then((module) => ({ default: module.DiscoverScreen }))
 );
+const BookDetailsScreen = React.lazy(async () =>
+  import('@/screens/BookDetailsScreen').then((module) => ({ default: module.BookDetailsScreen }))
+);
+
+type BookDetailsViewProps = {
+  book: Book;
+  books: Book[];
+  refreshKey: number;
+  loading: boolean;
+  onBack: () => void;
+  onOpen: (book: Book) => void;
+  onInspect: (book: Book) => void;
+  onReveal: (bookId: string) => void;
+  onDelete: (bookId: string) => void;
+  onMetadataSaved: () => Promise<void>;
+};
+
+function BookDetailsView({ book, books, refreshKey, onMetadataSaved, ...props }: BookDetailsViewProps) {
+  const refreshToken = React.useMemo(
+    () => `${refreshKey}|${books.map((entry) => `${entry.id}:${entry.createdAt}`).join('|')}`,
+    [books, refreshKey]
+  );
+  const metrics = useLibraryBookMetrics(books, refreshToken);
+  const activity = useLibraryBookActivity(books, refreshToken);
+  const { recentBooks } = useRecentBooks(refreshToken);
+  const lastOpenedAtByBookId = React.useMemo(
+    () => new Map(recentBooks.map((entry) => [entry.bookId, entry.lastOpenedAt])),
+    [recentBooks]
+  );
+  const recommendations = useBookRecommendations(book.id, refreshToken);
+
+  return (
+    <BookDetailsScreen
+      {...props}
+      book={book}
+      similarBooks={recommendations.similarBooks}
+      moreByAuthor={recommendations.moreByAuthor}
+      recommendationsLoading={recommendations.loading}
+      recommendationsError={recommendations.error}
+      metrics={metrics}
+      activity={activity}
+      lastOpenedAtByBookId={lastOpenedAtByBookId}
+      onMetadataSaved={onMetadataSaved}
+    />
+  );
+}
 
 export function LibraryScreen({
   books,
@@ -36,12 +90,20 @@ export function LibraryScreen({
   onOpen,
   onReveal,
   onDelete,
+  onStatusChange,
+  collections,
+  activeCollectionId,
+  onActiveCollectionChange,
+  onLibraryOrganized,
+  onGoalsChanged,
   onImport,
   onAddSample,
   onReload
 }: Props) {
   const { t } = useLanguage();
-  const [mode, setMode] = React.useState<'library' | 'discover'>('library');
+  const [mode, setMode] = React.useState<'library' | 'discover' | 'details'>('library');
+  const [detailsBookId, setDetailsBookId] = React.useState<string | null>(null);
+  const detailsBook = detailsBookId ? books.find((book) => book.id === detailsBookId) ?? null : null;
   const [notice, setNotice] = React.useState<string | null>(null);
   const [discoverLaunch, setDiscoverLaunch] = React.useState<{ query: string; token: number } | null>(null);
 
@@ -58,6 +120,51 @@ export function LibraryScreen({
     }
   }, [discoverInitialQuery, discoverInitialSearchToken, onDiscoverLaunchHandled]);
 
+  React.useEffect(() => {
+    if (activeCollectionId) {
+      setMode('library');
+    }
+  }, [activeCollectionId]);
+
+  React.useEffect(() => {
+    if (mode === 'details' && !detailsBook) {
+      setDetailsBookId(null);
+      setMode('library');
+    }
+  }, [detailsBook, mode]);
+
+  const onInspect = React.useCallback((book: Book) => {
+    setNotice(null);
+    setDetailsBookId(book.id);
+    setMode('details');
+  }, []);
+
+  if (mode === 'details' && detailsBook) {
+    return (
+      <div className="flex h-full w-full min-w-0 flex-1">
+        <AppErrorBoundary area="Book details">
+          <React.Suspense fallback={<ScreenLoadingState label={detailsBook.title} />}>
+            <BookDetailsView
+              book={detailsBook}
+              books={books}
+              refreshKey={refreshKey}
+              loading={loading}
+              onBack={() => {
+                setDetailsBookId(null);
+                setMode('library');
+              }}
+              onOpen={onOpen}
+              onInspect={onInspect}
+              onReveal={onReveal}
+              onDelete={onDelete}
+              onMetadataSaved={onLibraryOrganized}
+            />
+          </React.Suspense>
+        </AppErrorBoundary>
+      </div>
+    );
+  }
+
   if (mode === 'discover') {
     return (
       <div className="h-full w-full min-w-0 flex-1 overflow-y-auto pr-1">
@@ -94,6 +201,13 @@ export function LibraryScreen({
         onOpen={onOpen}
         onReveal={onReveal}
         onDelete={onDelete}
+        onStatusChange={onStatusChange}
+        onInspect={onInspect}
+        collections={collections}
+        activeCollectionId={activeCollectionId}
+        onActiveCollectionChange={onActiveCollectionChange}
+        onLibraryOrganized={onLibraryOrganized}
+        onGoalsChanged={onGoalsChanged}
         onImport={onImport}
         onDiscover={() => {
           setNotice(null);
@@ -1,5 +1,5 @@
 import * as React from 'react';
-import type { Book, Note } from '../../shared/ipc';
+import type { AnnotationSearchHit, Book, Note } from '../../shared/ipc';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -12,12 +12,17 @@ import {
   AlertDialogHeader,
   AlertDialogTitle
 } from '@/components/ui/alert-dialog';
+import { LibraryExportDialog } from '@/components/LibraryExportDialog';
 import { NoteEditorDialog } from '@/components/NoteEditorDialog';
+import { SearchSnippet } from '@/components/SearchSnippet';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { LIST_BATCH_SIZE } from '@/lib/constants';
+import { useAnnotationSearch } from '@/lib/useAnnotationSearch';
 
 type Props = {
   books: Book[];
   onOpenNote: (note: Note) => void;
+  onOpenSearchHit: (hit: AnnotationSearchHit) => void;
 };
 
 function formatDate(timestamp: number): string {
@@ -28,7 +33,7 @@ function formatDate(timestamp: number): string {
   }
 }
 
-export function NotesScreen({ books, onOpenNote }: Props) {
+export function NotesScreen({ books, onOpenNote, onOpenSearchHit }: Props) {
   const { t } = useLanguage();
   const [notes, setNotes] = React.useState<Note[]>([]);
   const [loading, setLoading] = React.useState(false);
@@ -37,11 +42,11 @@ export function NotesScreen({ books, onOpenNote }: Props) {
   const [deleteLoading, setDeleteLoading] = React.useState(false);
   const [selectedBookId, setSelectedBookId] = React.useState<string>('all');
   const [queryInput, setQueryInput] = React.useState('');
-  const [query, setQuery] = React.useState('');
   const [editTarget, setEditTarget] = React.useState<Note | null>(null);
   const [editContent, setEditContent] = React.useState('');
   const [editLoading, setEditLoading] = React.useState(false);
   const [editError, setEditError] = React.useState<string | null>(null);
+  const [exportOpen, setExportOpen] = React.useState(false);
 
   const titleByBookId = React.useMemo(() => {
     const map = new Map<string, string>();
@@ -51,14 +56,21 @@ export function NotesScreen({ books, onOpenNote }: Props) {
     return map;
   }, [books]);
 
-  React.useEffect(() => {
-    const timer = setTimeout(() => {
-      setQuery(queryInput.trim());
-    }, 250);
-    return () => {
-      clearTimeout(timer);
-    };
-  }, [queryInput]);
+  const search = useAnnotationSearch({
+    query: queryInput,
+    bookId: selectedBookId === 'all' ? null : selectedBookId,
+    pageSize: LIST_BATCH_SIZE.insights
+  });
+  const searchActive = search.query.length > 0;
+  const exportBookIds = React.useMemo(() => {
+    if (selectedBookId !== 'all') {
+      return [selectedBookId];
+    }
+    return searchActive ? [...new Set(search.hits.flatMap((hit) => (hit.bookId ? [hit.bookId] : [])))] : null;
+  }, [search.hits, searchActive, selectedBookId]);
+
+  const getKindLabel = (kind: AnnotationSearchHit['kind']) =>
+    kind === 'note' ? t.notes.kindNote : kind === 'highlight' ? t.notes.kindHighlight : t.notes.kindSummary;
 
   const loadNotes = React.useCallback(async () => {
     if (!window.api) {
@@ -71,7 +83,7 @@ export function NotesScreen({ books, onOpenNote }: Props) {
     try {
       const result = await window.api.notes.list({
         bookId: selectedBookId === 'all' ? null : selectedBookId,
-        q: query.length > 0 ? query : null
+        q: null
       });
       if (!result.ok) {
         setError(result.error);
@@ -84,7 +96,7 @@ export function NotesScreen({ books, onOpenNote }: Props) {
     } finally {
       setLoading(false);
     }
-  }, [query, selectedBookId]);
+  }, [selectedBookId]);
 
   React.useEffect(() => {
     void loadNotes();
@@ -156,9 +168,14 @@ export function NotesScreen({ books, onOpenNote }: Props) {
     <div className="flex h-full min-h-0 w-full min-w-0 flex-col gap-4 overflow-hidden">
       <div className="flex flex-wrap items-center justify-between gap-2">
         <h2 className="text-lg font-semibold">{t.notes.title}</h2>
-        <Button type="button" variant="outline" size="sm" onClick={() => void loadNotes()} disabled={loading}>
-          {t.notes.refresh}
-        </Button>
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setExportOpen(true)}>
+            {t.libraryExport.button}
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => void loadNotes()} disabled={loading}>
+            {t.notes.refresh}
+          </Button>
+        </div>
       </div>
 
       <div className="grid gap-2 md:grid-cols-[220px_minmax(0,1fr)]">
@@ -182,52 +199,89 @@ export function NotesScreen({ books, onOpenNote }: Props) {
       </div>
 
       {error ? <p className="text-sm text-destructive">{error}</p> : null}
+      {search.error ? <p className="text-sm text-destructive">{search.error}</p> : null}
 
-      <div className="min-h-0 flex-1 space-y-3 overflow-y-auto pr-1">
-        {!loading && notes.length === 0 ? <p className="text-sm text-muted-foreground">{t.notes.noNotes}</p> : null}
+      {searchActive ? (
+        <div className="min-h-0 flex-1 space-y-3 overflow-y-auto pr-1">
+          <p className="text-xs text-muted-foreground">
+            {t.notes.searchResults}: {search.total}
+          </p>
+          {!search.loading && search.hits.length === 0 ? <p className="text-sm text-muted-foreground">{t.notes.noResults}</p> : null}
 
-        {notes.map((note) => (
-          <button
-            key={note.id}
-            type="button"
-            onClick={() => onOpenNote(note)}
-            className="w-full rounded-lg border bg-card p-4 text-left text-card-foreground shadow-sm transition-colors hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-          >
-            <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
-              <div className="min-w-0">
-                <p className="text-sm font-semibold">{titleByBookId.get(note.bookId) ?? t.notes.unknownBook}</p>
-                <p className="text-xs text-muted-foreground">{t.notes.page} {note.page}</p>
-              </div>
-              <div className="flex shrink-0 flex-wrap items-center gap-1">
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={(event) => {
-                    event.stopPropagation();
-                    handleOpenEdit(note);
-                  }}
-                >
-                  {t.notes.edit}
-                </Button>
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={(event) => {
-                    event.stopPropagation();
-                    setDeleteTarget(note);
-                  }}
-                >
-                  {t.notes.delete}
-                </Button>
+          {search.hits.map((hit) => (
+            <button
+              key={`${hit.kind}:${hit.id}`}
+              type="button"
+              onClick={() => onOpenSearchHit(hit)}
+              className="w-full rounded-lg border bg-card p-4 text-left text-card-foreground shadow-sm transition-colors hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="rounded-full border px-2 py-0.5 text-[11px] font-semibold uppercase tracking-[0.12em] text-muted-foreground">
+                  {getKindLabel(hit.kind)}
+                </span>
+                <p className="text-sm font-semibold">{hit.bookTitle ?? t.notes.unknownBook}</p>
+                {hit.page ? <p className="text-xs text-muted-foreground">{t.notes.page} {hit.page}</p> : null}
               </div>
+              <SearchSnippet parts={hit.snippet} className="mt-2" />
+              <p className="mt-2 text-xs text-muted-foreground">{t.notes.updated} {formatDate(hit.updatedAt)}</p>
+            </button>
+          ))}
+
+          {search.hasMore ? (
+            <div className="flex justify-center pt-1">
+              <Button type="button" variant="outline" size="sm" onClick={() => void search.loadMore()} disabled={search.loading}>
+                {t.notes.showMore}
+              </Button>
             </div>
-            <p className="mt-2 line-clamp-2 text-sm text-muted-foreground">{note.content}</p>
-            <p className="mt-2 text-xs text-muted-foreground">{t.notes.updated} {formatDate(note.updatedAt)}</p>
-          </button>
-        ))}
-      </div>
+          ) : null}
+        </div>
+      ) : (
+        <div className="min-h-0 flex-1 space-y-3 overflow-y-auto pr-1">
+          {!loading && notes.length === 0 ? <p className="text-sm text-muted-foreground">{t.notes.noNotes}</p> : null}
+
+          {notes.map((note) => (
+            <button
+              key={note.id}
+              type="button"
+              onClick={() => onOpenNote(note)}
+              className="w-full rounded-lg border bg-card p-4 text-left text-card-foreground shadow-sm transition-colors hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold">{titleByBookId.get(note.bookId) ?? t.notes.unknownBook}</p>
+                  <p className="text-xs text-muted-foreground">{t.notes.page} {note.page}</p>
+                </div>
+                <div className="flex shrink-0 flex-wrap items-center gap-1">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      handleOpenEdit(note);
+                    }}
+                  >
+                    {t.notes.edit}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      setDeleteTarget(note);
+                    }}
+                  >
+                    {t.notes.delete}
+                  </Button>
+                </div>
+              </div>
+              <p className="mt-2 line-clamp-2 text-sm text-muted-foreground">{note.content}</p>
+              <p className="mt-2 text-xs text-muted-foreground">{t.notes.updated} {formatDate(note.updatedAt)}</p>
+            </button>
+          ))}
+        </div>
+      )}
 
       <AlertDialog open={Boolean(deleteTarget)} onOpenChange={(open) => (open ? undefined : setDeleteTarget(null))}>
         <AlertDialogContent>
@@ -263,6 +317,8 @@ export function NotesScreen({ books, onOpenNote }: Props) {
         }}
         onSave={() => void handleSaveEdit()}
       />
+
+      <LibraryExportDialog open={exportOpen} filteredBookIds={exportBookIds} onClose={() => setExportOpen(false)} />
     </div>
   );
 }
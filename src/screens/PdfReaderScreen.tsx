@@ -17,23 +17,34 @@ import {
 } from 'lucide-react';
 import { ReaderSettingsPanel } from '@/components/ReaderSettingsPanel';
 import { ReaderShell } from '@/components/reader/ReaderShell';
+import { HighlightColorPicker } from '@/components/reader/HighlightColorPicker';
 import { HighlightsPanel, type ReaderHighlightItem } from '@/components/reader/HighlightsPanel';
 import { SearchPanel, type ReaderSearchResultItem } from '@/components/reader/SearchPanel';
 import { ReaderSidePanel } from '@/components/reader/ReaderSidePanel';
 import { type PdfOutlineItem } from '@/components/outline-tree';
-import { ExportDialog, type ExportFormat } from '@/components/ExportDialog';
+import { ExportDialog } from '@/components/ExportDialog';
 import { PdfSidebar } from '@/components/pdf-sidebar';
-import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { useBookReaderSettings } from '@/contexts/ReaderSettingsContext';
 import { READER_PANEL_WIDTH } from '@/lib/constants';
 import { markCachedBookMetricDirty } from '@/lib/library-metrics-cache';
 import { getPdfViewportBackground, getReaderButtonStyles, getReaderThemePalette } from '@/lib/reader-theme';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { GlobalWorkerOptions, TextLayer, getDocument, type PDFDocumentProxy } from 'pdfjs-dist';
+import { GlobalWorkerOptions, TextLayer, type PDFDocumentProxy } from 'pdfjs-dist';
 import workerSrc from 'pdfjs-dist/build/pdf.worker?url';
-import type { Book, Bookmark as BookmarkItem, Highlight, HighlightRect, Note, PdfZoomPreset } from '../../shared/ipc';
+import type {
+  Bookmark as BookmarkItem,
+  Highlight,
+  HighlightColor,
+  HighlightRect,
+  Note,
+  PdfZoomPreset
+} from '../../shared/ipc';
 import { READER_SETTINGS_DEFAULTS } from '../../shared/ipc';
-import { toJSON, toMarkdown } from '@/lib/book-export';
+import { openPdfDocument } from '@/lib/book-source';
+import { getPreferredHighlightColor, HIGHLIGHT_COLOR_SWATCHES, setPreferredHighlightColor } from '@/lib/highlight-colors';
+import { useBookExport } from '@/lib/useBookExport';
+import { useHighlightCategories } from '@/lib/useHighlightCategories';
 import { useReadingSessionStats } from '@/lib/reading-stats';
 import { usePdfSearch } from '@/lib/usePdfSearch';
 
@@ -41,12 +52,12 @@ GlobalWorkerOptions.workerSrc = workerSrc;
 
 type Props = {
   title: string;
-  base64: string;
   bookId: string;
   initialPage?: number | null;
   onInitialPageApplied?: () => void;
   loading: boolean;
   onBack: () => void;
+  onReachedEnd?: () => void;
 };
 
 type ScaleMode = 'fitWidth' | 'fitPage' | 'manual';
@@ -190,32 +201,6 @@ function hasBookmarksApi(
   );
 }
 
-function hasExportApi(
-  api: Window['api']
-): api is NonNullable<Window['api']> & {
-  export: {
-    getBookData: (payload: { bookId: string }) => Promise<unknown>;
-    saveFile: (payload: { suggestedName: string; ext: 'md' | 'json'; content: string }) => Promise<unknown>;
-  };
-} {
-  return Boolean(
-    api && api.export && typeof api.export.getBookData === 'function' && typeof api.export.saveFile === 'function'
-  );
-}
-
-function toPreview(text: string, maxLines: number): string {
-  const lines = text.split('\n');
-  if (lines.length <= maxLines) {
-    return text;
-  }
-  return `${lines.slice(0, maxLines).join('\n')}\n...`;
-}
-
-function sanitizeExportName(value: string): string {
-  const trimmed = value.trim() || 'book-export';
-  return trimmed.replace(/[<>:"/\\|?*\u0000-\u001F]/g, '_').trim() || 'book-export';
-}
-
 function normalizeHighlightSelectionText(value: string | null | undefined): string | null {
   if (typeof value !== 'string') {
     return null;
@@ -416,15 +401,6 @@ function scrollToActiveMatch(
   });
 }
 
-function base64ToUint8Array(base64: string): Uint8Array {
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i += 1) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes;
-}
-
 function normalizeOutlineItems(items: unknown): PdfOutlineItem[] {
   if (!Array.isArray(items)) {
     return [];
@@ -442,14 +418,14 @@ function normalizeOutlineItems(items: unknown): PdfOutlineItem[] {
 
 export function PdfReaderScreen({
   title,
-  base64,
   bookId,
   initialPage = null,
   onInitialPageApplied,
   loading,
-  onBack
+  onBack,
+  onReachedEnd
 }: Props) {
-  const { settings, loading: settingsLoading, error: settingsError, updateSettings } = useReaderSettings();
+  const { settings, loading: settingsLoading, error: settingsError, updateSettings } = useBookReaderSettings(bookId);
   const safePdfBackground = settings.pdfBackground ?? READER_SETTINGS_DEFAULTS.pdfBackground;
   const safePdfZoomPreset = settings.pdfZoomPreset ?? READER_SETTINGS_DEFAULTS.pdfZoomPreset;
   const readerRootRef = React.useRef<HTMLDivElement | null>(null);
@@ -500,19 +476,28 @@ export function PdfReaderScreen({
   const [bookmarks, setBookmarks] = React.useState<BookmarkItem[]>([]);
   const [bookmarksLoading, setBookmarksLoading] = React.useState(false);
   const [bookmarksError, setBookmarksError] = React.useState<string | null>(null);
-  const [exportDialogOpen, setExportDialogOpen] = React.useState(false);
-  const [exportFormat, setExportFormat] = React.useState<ExportFormat>('markdown');
-  const [exportLoading, setExportLoading] = React.useState(false);
-  const [exportError, setExportError] = React.useState<string | null>(null);
-  const [exportMessage, setExportMessage] = React.useState<string | null>(null);
-  const [exportData, setExportData] = React.useState<{ book: Book; notes: Note[]; highlights: Highlight[] } | null>(
-    null
-  );
+  const {
+    exportDialogOpen,
+    exportFormat,
+    exportLoading,
+    exportError,
+    exportMessage,
+    exportPreview,
+    exportTemplate,
+    exportTemplateError,
+    setExportFormat,
+    setExportTemplate,
+    openExportDialog,
+    copyExportContent,
+    saveExportContent,
+    closeExportDialog
+  } = useBookExport({ bookIds: [bookId] });
   const [pageHighlights, setPageHighlights] = React.useState<Highlight[]>([]);
   const [bookHighlights, setBookHighlights] = React.useState<Highlight[]>([]);
   const [highlightContextMenu, setHighlightContextMenu] = React.useState<HighlightContextMenuState>(null);
   const [highlightNoteEditor, setHighlightNoteEditor] = React.useState<HighlightNoteEditorState>(null);
   const [pendingHighlightDeletions, setPendingHighlightDeletions] = React.useState<PendingHighlightDeletion[]>([]);
+  const { labels: highlightCategoryLabels } = useHighlightCategories();
   const outlinePageCacheRef = React.useRef<Map<string, number>>(new Map());
   const saveTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
   const pendingDeletionTimeoutsRef = React.useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
@@ -529,6 +514,7 @@ export function PdfReaderScreen({
   const { registerActivity, flush: flushReadingStats } = useReadingSessionStats({
     bookId,
     format: 'pdf',
+    location: page,
     rootRef: readerRootRef
   });
   const { query: searchQuery, results: searchResults, isSearching, setQuery: setSearchQuery, clearQuery } = usePdfSearch(doc, bookId);
@@ -543,16 +529,6 @@ export function PdfReaderScreen({
     }
   }, [safePdfZoomPreset]);
 
-  const exportContent = React.useMemo(() => {
-    if (!exportData) {
-      return '';
-    }
-    if (exportFormat === 'json') {
-      return toJSON(exportData.book, exportData.notes, exportData.highlights);
-    }
-    return toMarkdown(exportData.book.title, exportData.notes, exportData.highlights);
-  }, [exportData, exportFormat]);
-  const exportPreview = React.useMemo(() => toPreview(exportContent, 40), [exportContent]);
   const unifiedHighlightItems = React.useMemo<ReaderHighlightItem[]>(
     () =>
       bookHighlights.map((highlight) => ({
@@ -561,6 +537,7 @@ export function PdfReaderScreen({
         note: highlight.note,
         page: highlight.page,
         cfiRange: highlight.cfiRange,
+        color: highlight.color,
         createdAt: highlight.createdAt
       })),
     [bookHighlights]
@@ -655,33 +632,6 @@ export function PdfReaderScreen({
     setSettingsPanelOpen((prev) => !prev);
   }, []);
 
-  const openExportDialog = React.useCallback(async () => {
-    if (!hasExportApi(window.api)) {
-      setExportError('Export API is unavailable. Restart the app to reload Electron preload.');
-      setExportDialogOpen(true);
-      return;
-    }
-    setExportDialogOpen(true);
-    setExportError(null);
-    setExportMessage(null);
-    setExportLoading(true);
-    try {
-      const result = await window.api.export.getBookData({ bookId });
-      if (!result.ok) {
-        setExportError(result.error);
-        setExportData(null);
-        return;
-      }
-      setExportData(result.data);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      setExportError(message);
-      setExportData(null);
-    } finally {
-      setExportLoading(false);
-    }
-  }, [bookId]);
-
   const focusReader = React.useCallback(() => {
     readerRootRef.current?.focus();
   }, []);
@@ -1104,62 +1054,6 @@ export function PdfReaderScreen({
     [bookId, loadBookmarks]
   );
 
-  const copyExportContent = React.useCallback(async () => {
-    if (!exportContent) {
-      setExportError('Nothing to export.');
-      return;
-    }
-    if (!navigator.clipboard || typeof navigator.clipboard.writeText !== 'function') {
-      setExportError('Clipboard is unavailable in this environment.');
-      return;
-    }
-    setExportError(null);
-    setExportMessage(null);
-    try {
-      await navigator.clipboard.writeText(exportContent);
-      setExportMessage('Copied to clipboard.');
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      setExportError(message);
-    }
-  }, [exportContent]);
-
-  const saveExportContent = React.useCallback(async () => {
-    if (!exportContent) {
-      setExportError('Nothing to export.');
-      return;
-    }
-    if (!hasExportApi(window.api)) {
-      setExportError('Export API is unavailable. Restart the app to reload Electron preload.');
-      return;
-    }
-    const ext: 'md' | 'json' = exportFormat === 'json' ? 'json' : 'md';
-    const baseTitle = sanitizeExportName(exportData?.book.title ?? title);
-    setExportLoading(true);
-    setExportError(null);
-    setExportMessage(null);
-    try {
-      const result = await window.api.export.saveFile({
-        suggestedName: `${baseTitle}-export.${ext}`,
-        ext,
-        content: exportContent
-      });
-      if (!result.ok) {
-        if ('cancelled' in result && result.cancelled) {
-          return;
-        }
-        setExportError('error' in result ? result.error : 'Failed to save export file.');
-        return;
-      }
-      setExportMessage(`Saved: ${result.path}`);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      setExportError(message);
-    } finally {
-      setExportLoading(false);
-    }
-  }, [exportContent, exportData?.book.title, exportFormat, title]);
-
   const loadPageHighlights = React.useCallback(async () => {
     if (!window.api) {
       setPageHighlights([]);
@@ -1328,7 +1222,13 @@ export function PdfReaderScreen({
 
     const selectionBounds = range.getBoundingClientRect();
     try {
-      const result = await window.api.highlights.createMerged({ bookId, page, rects, text: selectedText });
+      const result = await window.api.highlights.createMerged({
+        bookId,
+        page,
+        rects,
+        text: selectedText,
+        color: getPreferredHighlightColor()
+      });
       if (result.ok) {
         setPageHighlights((prev) => [result.highlight, ...prev.filter((item) => item.id !== result.highlight.id)]);
         await loadBookHighlights();
@@ -1337,7 +1237,7 @@ export function PdfReaderScreen({
               selectionBounds.right - pageRect.left,
               selectionBounds.bottom - pageRect.top + 8,
               280,
-              140
+              176
             );
             setHighlightNoteEditor(null);
             setHighlightContextMenu({
@@ -1436,7 +1336,8 @@ export function PdfReaderScreen({
           page: pending.highlight.page,
           rects: pending.highlight.rects,
           text: pending.highlight.text,
-          note: pending.highlight.note
+          note: pending.highlight.note,
+          color: pending.highlight.color
         });
         if (result.ok) {
           await loadBookHighlights();
@@ -1470,7 +1371,7 @@ export function PdfReaderScreen({
 
       event.preventDefault();
       const targetHighlight = pageHighlights.find((item) => item.id === hit.id) ?? null;
-      const menuHeight = targetHighlight?.note ? 210 : 140;
+      const menuHeight = targetHighlight?.note ? 246 : 176;
       const { x, y } = clampPopoverPosition(event.clientX - stageRect.left, event.clientY - stageRect.top, 280, menuHeight);
       setHighlightNoteEditor(null);
       setHighlightContextMenu({ highlightId: hit.id, x, y });
@@ -1504,6 +1405,23 @@ export function PdfReaderScreen({
     [findHighlightAtPoint, openHighlightNoteEditor]
   );
 
+  const updateHighlightColor = React.useCallback(async (highlight: Highlight, color: HighlightColor) => {
+    if (!window.api) {
+      return;
+    }
+    setPreferredHighlightColor(color);
+    try {
+      const result = await window.api.highlights.updateColor({ highlightId: highlight.id, color });
+      if (!result.ok) {
+        return;
+      }
+      setPageHighlights((prev) => prev.map((item) => (item.id === result.highlight.id ? result.highlight : item)));
+      setBookHighlights((prev) => prev.map((item) => (item.id === result.highlight.id ? result.highlight : item)));
+    } catch (error) {
+      console.error('Failed to update highlight color', error);
+    }
+  }, []);
+
   const saveHighlightNote = React.useCallback(async () => {
     if (!window.api || !highlightNoteEditor) {
       return;
@@ -1543,10 +1461,6 @@ export function PdfReaderScreen({
     setPageHighlights([]);
     setBookmarksPanelOpen(false);
     setHighlightsPanelOpen(false);
-    setExportDialogOpen(false);
-    setExportError(null);
-    setExportMessage(null);
-    setExportData(null);
     setNotesPanelOpen(false);
     setHighlightContextMenu(null);
     setHighlightNoteEditor(null);
@@ -1744,8 +1658,7 @@ export function PdfReaderScreen({
       setCanvasWidth(0);
       setCanvasHeight(0);
       try {
-        const data = base64ToUint8Array(base64);
-        const loadedDoc = await getDocument({ data }).promise;
+        const loadedDoc = await openPdfDocument(bookId);
         if (canceled) {
           return;
         }
@@ -1767,7 +1680,7 @@ export function PdfReaderScreen({
     return () => {
       canceled = true;
     };
-  }, [base64]);
+  }, [bookId]);
 
   React.useEffect(() => {
     if (!doc || !progressLoaded || restoreApplied) {
@@ -1783,6 +1696,12 @@ export function PdfReaderScreen({
     }
   }, [doc, initialPage, onInitialPageApplied, pendingRestorePage, progressLoaded, restoreApplied]);
 
+  React.useEffect(() => {
+    if (doc && restoreApplied && page >= pageCount) {
+      onReachedEnd?.();
+    }
+  }, [doc, onReachedEnd, page, pageCount, restoreApplied]);
+
   React.useEffect(() => {
     const viewportElement = readerViewportRef.current;
     if (!viewportElement) {
@@ -2629,6 +2548,7 @@ export function PdfReaderScreen({
         queueHighlightDeletion(targetHighlight);
       }}
       onEditNote={openHighlightNoteEditorFromPanel}
+      categoryLabels={highlightCategoryLabels}
       settings={settings}
       rightOffset={settingsPanelOpen ? READER_PANEL_WIDTH.stackedOffset : READER_PANEL_WIDTH.offset}
     />
@@ -2836,22 +2756,25 @@ export function PdfReaderScreen({
                           if (!bounds) {
                             return null;
                           }
+                          const swatch = HIGHLIGHT_COLOR_SWATCHES[highlight.color];
                           return (
                             <div
                               key={highlight.id}
-                              className={`absolute ${highlight.note ? 'ring-1 ring-amber-700/75 ring-inset' : ''}`}
+                              className="absolute"
                               style={{
                                 left: `${bounds.x * 100}%`,
                                 top: `${bounds.y * 100}%`,
                                 width: `${bounds.w * 100}%`,
-                                height: `${bounds.h * 100}%`
+                                height: `${bounds.h * 100}%`,
+                                boxShadow: highlight.note ? `inset 0 0 0 1px ${swatch.border}` : undefined
                               }}
                             >
                               {highlight.rects.map((rect, index) => (
                                 <div
                                   key={`${highlight.id}:${index}`}
-                                  className={`absolute ${highlight.note ? 'bg-yellow-300/45' : 'bg-yellow-300/40'}`}
+                                  className="absolute"
                                   style={{
+                                    backgroundColor: highlight.note ? swatch.noteFill : swatch.fill,
                                     left: `${((rect.x - bounds.x) / bounds.w) * 100}%`,
                                     top: `${((rect.y - bounds.y) / bounds.h) * 100}%`,
                                     width: `${(rect.w / bounds.w) * 100}%`,
@@ -2892,6 +2815,14 @@ export function PdfReaderScreen({
                                   <p className="mt-1 whitespace-pre-wrap text-xs" style={{ color: readerPalette.chromeText }}>
                                     {activeHighlight.text ?? '(highlight without text)'}
                                   </p>
+                                  <HighlightColorPicker
+                                    value={activeHighlight.color}
+                                    labels={highlightCategoryLabels}
+                                    settings={settings}
+                                    onChange={(color) => {
+                                      void updateHighlightColor(activeHighlight, color);
+                                    }}
+                                  />
                                   {activeHighlight.note ? (
                                     <>
                                       <p className="mt-3 text-[11px] font-semibold uppercase tracking-wide" style={{ color: readerPalette.mutedText }}>
@@ -3053,22 +2984,19 @@ export function PdfReaderScreen({
         loading={exportLoading}
         format={exportFormat}
         preview={exportPreview}
+        template={exportTemplate}
+        templateError={exportTemplateError}
         error={exportError}
         message={exportMessage}
-        onFormatChange={(nextFormat) => {
-          setExportFormat(nextFormat);
-          setExportError(null);
-          setExportMessage(null);
-        }}
+        onFormatChange={setExportFormat}
+        onTemplateChange={setExportTemplate}
         onCopy={() => {
           void copyExportContent();
         }}
         onSave={() => {
           void saveExportContent();
         }}
-        onClose={() => {
-          setExportDialogOpen(false);
-        }}
+        onClose={closeExportDialog}
       />
     </ReaderShell>
   );
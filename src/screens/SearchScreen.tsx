@@ -0,0 +1,124 @@
+import * as React from 'react';
+import { FileSearch, LoaderCircle, Search } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { ScreenEmptyState, ScreenErrorState, ScreenLoadingState } from '@/components/ScreenState';
+import { SearchSnippet } from '@/components/SearchSnippet';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
+import { getReaderHeroCardStyles, getReaderThemePalette } from '@/lib/reader-theme';
+import { useLibrarySearch } from '@/lib/useLibrarySearch';
+import type { LibrarySearchBookResult, LibrarySearchHit } from '../../shared/ipc';
+
+type Props = {
+  onOpenHit: (result: LibrarySearchBookResult, hit: LibrarySearchHit) => void;
+};
+
+export function SearchScreen({ onOpenHit }: Props) {
+  const { t } = useLanguage();
+  const { settings } = useReaderSettings();
+  const palette = getReaderThemePalette(settings);
+  const [queryInput, setQueryInput] = React.useState('');
+  const { loading, error, results, status, query, refresh } = useLibrarySearch(queryInput);
+
+  return (
+    <div className="flex h-full min-h-0 w-full min-w-0 flex-col gap-4 overflow-y-auto pr-1 xl:gap-6 xl:overflow-hidden">
+      <Card className="shrink-0 overflow-hidden shadow-sm" style={getReaderHeroCardStyles(settings)}>
+        <CardContent className="space-y-4 p-6">
+          <div className="flex items-start gap-4">
+            <div className="inline-flex h-12 w-12 items-center justify-center rounded-2xl border border-border/70 bg-background/85 shadow-sm">
+              <Search className="h-5 w-5" />
+            </div>
+            <div className="space-y-2">
+              <h1 className="text-3xl font-semibold tracking-tight">{t.search.title}</h1>
+              <p className="max-w-3xl text-sm text-muted-foreground">{t.search.subtitle}</p>
+            </div>
+          </div>
+          <Input
+            value={queryInput}
+            onChange={(event) => setQueryInput(event.target.value)}
+            placeholder={t.search.placeholder}
+            autoFocus
+          />
+          {status ? (
+            <p className="flex items-center gap-2 text-xs text-muted-foreground">
+              {status.indexing ? <LoaderCircle className="h-3.5 w-3.5 animate-spin" /> : null}
+              <span>
+                {t.search.indexedStatus}: {status.indexedBooks}/{status.totalBooks}
+                {status.failedBooks > 0 ? ` · ${t.search.failed}: ${status.failedBooks}` : ''}
+                {status.indexing ? ` · ${t.search.indexing}` : ''}
+              </span>
+            </p>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      <div className="min-h-0 flex-1 pb-2 xl:overflow-y-auto">
+        <div className="space-y-4">
+          {error ? <ScreenErrorState title={t.search.errorTitle} description={error} onRetry={() => void refresh()} /> : null}
+
+          {!query ? (
+            <ScreenEmptyState
+              title={t.search.emptyTitle}
+              description={t.search.emptyDescription}
+              icon={<FileSearch className="h-6 w-6 text-muted-foreground" />}
+            />
+          ) : loading ? (
+            <ScreenLoadingState label={t.search.title} />
+          ) : results.length === 0 && !error ? (
+            <ScreenEmptyState
+              title={t.search.noResultsTitle}
+              description={t.search.noResultsDescription}
+              icon={<FileSearch className="h-6 w-6 text-muted-foreground" />}
+            />
+          ) : (
+            <ul className="space-y-4">
+              {results.map((result) => (
+                <li key={result.bookId}>
+                  <Card className="border-white/60 bg-card/95 shadow-sm">
+                    <CardContent className="space-y-3 p-5">
+                      <div className="flex flex-wrap items-baseline justify-between gap-2">
+                        <div className="min-w-0">
+                          <h2 className="truncate text-lg font-semibold tracking-tight">{result.title}</h2>
+                          {result.author ? <p className="text-sm text-muted-foreground">{result.author}</p> : null}
+                        </div>
+                        <div className="flex shrink-0 items-center gap-2">
+                          <span className="rounded-full border border-border bg-background/80 px-2.5 py-1 text-[11px] font-semibold uppercase tracking-[0.16em] text-muted-foreground">
+                            {result.format}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {t.search.matches}: {result.hitCount}
+                          </span>
+                        </div>
+                      </div>
+
+                      <ul className="space-y-2">
+                        {result.hits.map((hit) => (
+                          <li key={hit.id}>
+                            <button
+                              type="button"
+                              onClick={() => onOpenHit(result, hit)}
+                              className="w-full rounded-xl border px-3 py-2 text-left transition-colors hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                              style={{ borderColor: palette.chromeBorder }}
+                            >
+                              {hit.page || hit.label ? (
+                                <p className="mb-1 text-xs font-semibold text-muted-foreground">
+                                  {hit.page ? `${t.search.page} ${hit.page}` : hit.label}
+                                </p>
+                              ) : null}
+                              <SearchSnippet parts={hit.snippet} />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  </Card>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
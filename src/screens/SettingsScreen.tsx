@@ -8,6 +8,10 @@ import type {
 } from '../../shared/ipc';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { LibraryBackupPanel } from '@/components/LibraryBackupPanel';
+import { LibrarySyncPanel } from '@/components/LibrarySyncPanel';
+import { ProfilesPanel } from '@/components/ProfilesPanel';
+import { WatchFoldersPanel } from '@/components/WatchFoldersPanel';
 import { useReaderSettings } from '@/contexts/ReaderSettingsContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
@@ -399,6 +403,22 @@ export function SettingsScreen() {
                 </div>
               </div>
             </SettingCard>
+
+            <SettingCard title={t.profiles.title} description={t.profiles.description} palette={palette}>
+              <ProfilesPanel />
+            </SettingCard>
+
+            <SettingCard title={t.watchFolders.title} description={t.watchFolders.description} palette={palette}>
+              <WatchFoldersPanel />
+            </SettingCard>
+
+            <SettingCard title={t.backup.title} description={t.backup.description} palette={palette}>
+              <LibraryBackupPanel />
+            </SettingCard>
+
+            <SettingCard title={t.sync.title} description={t.sync.description} palette={palette}>
+              <LibrarySyncPanel />
+            </SettingCard>
           </div>
         </div>
       </div>